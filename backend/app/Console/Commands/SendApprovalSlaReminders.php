@@ -0,0 +1,61 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Console\Commands;
+
+use App\Models\Tenant;
+use App\Services\TimesheetApproval\ApprovalSlaTracker;
+use Illuminate\Console\Command;
+use Illuminate\Support\Facades\Log;
+
+class SendApprovalSlaReminders extends Command
+{
+    /**
+     * Usage:
+     *  php artisan approvals:send-sla-reminders
+     *  php artisan approvals:send-sla-reminders --tenant=slugcheck
+     */
+    protected $signature = 'approvals:send-sla-reminders
+                            {--tenant= : Tenant slug to process only one}';
+
+    protected $description = 'Email approvers about timesheets and expenses waiting past the tenant approval SLA, escalating to Owners/Admins.';
+
+    public function handle(): int
+    {
+        $query = Tenant::query()
+            ->where('status', 'active')
+            ->orderBy('created_at', 'asc');
+
+        if (!empty($this->option('tenant'))) {
+            $query->where('slug', $this->option('tenant'));
+        }
+
+        $failed = 0;
+
+        foreach ($query->get() as $tenant) {
+            try {
+                $result = $tenant->run(fn () => app(ApprovalSlaTracker::class)->sendReminders());
+
+                $this->line(sprintf(
+                    '%s: reminded=%d escalated=%d recipients=%d',
+                    $tenant->slug,
+                    $result['reminded'],
+                    $result['escalated'],
+                    $result['recipients'],
+                ));
+            } catch (\Throwable $e) {
+                $failed++;
+                $this->error(sprintf('%s: failed: %s', $tenant->slug, $e->getMessage()));
+
+                Log::warning('Failed sending approval SLA reminders', [
+                    'tenant_id' => $tenant->id,
+                    'tenant_slug' => $tenant->slug,
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        return $failed > 0 ? Command::FAILURE : Command::SUCCESS;
+    }
+}
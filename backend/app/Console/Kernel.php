@@ -38,6 +38,12 @@ protected function schedule(Schedule $schedule): void
             ->withoutOverlapping()
             ->onOneServer();
 
+        // Approval SLA: remind approvers of overdue items, escalate long-waiting ones
+        $schedule->command('approvals:send-sla-reminders')
+            ->hourly()
+            ->withoutOverlapping()
+            ->onOneServer();
+
         // Tenant retention & purge
         $schedule->command('tenants:purge-expired')
             ->dailyAt('06:00')
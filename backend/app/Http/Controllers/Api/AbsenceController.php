@@ -0,0 +1,347 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Absence;
+use App\Models\Technician;
+use App\Models\Tenant;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Tenancy\TenantAbsenceTypes;
+use Carbon\CarbonImmutable;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+/**
+ * Absence requests (vacation, sick leave, training...): a technician requests an absence and a
+ * manager approves or rejects it. Approved absences block time entries on their days (see
+ * Absence::conflictFor) and show as unavailable time in the calendar and planning.
+ */
+final class AbsenceController extends Controller
+{
+    public function __construct(
+        private readonly TenantAbsenceTypes $absenceTypes,
+    ) {
+    }
+
+    /**
+     * GET /api/absences?from=&to=&technician_id=&status=
+     * Absences overlapping the range: the caller's own, plus those of the workers they manage
+     * (everyone for Admins).
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $this->authorize('viewAny', Timesheet::class);
+
+        $validated = $request->validate([
+            'from' => ['nullable', 'date'],
+            'to' => ['nullable', 'date', 'after_or_equal:from'],
+            'technician_id' => ['nullable', 'integer'],
+            'status' => ['nullable', 'string', Rule::in(Absence::STATUSES)],
+        ]);
+
+        /** @var User $user */
+        $user = $request->user();
+
+        $absences = Absence::with('technician')
+            ->when($validated['from'] ?? null, fn (Builder $query, string $from) => $query->whereDate('end_date', '>=', $from))
+            ->when($validated['to'] ?? null, fn (Builder $query, string $to) => $query->whereDate('start_date', '<=', $to))
+            ->when($validated['technician_id'] ?? null, fn (Builder $query, $id) => $query->where('technician_id', (int) $id))
+            ->when(
+                $validated['status'] ?? null,
+                fn (Builder $query, string $status) => $query->where('status', $status),
+                fn (Builder $query) => $query->where('status', '!=', 'cancelled')
+            )
+            ->tap(fn (Builder $query) => $this->scopeVisible($query, $user))
+            ->orderBy('start_date')
+            ->get();
+
+        return response()->json(['data' => $absences->map(fn (Absence $absence) => $this->present($absence))->values()]);
+    }
+
+    /**
+     * POST /api/absences
+     * Requests an absence for the caller, or for a managed worker when technician_id is sent.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'technician_id' => ['nullable', 'integer', 'exists:technicians,id'],
+            'absence_type' => ['required', 'string', Rule::in($this->absenceTypes->keys(app(Tenant::class)))],
+            'start_date' => ['required', 'date'],
+            'end_date' => ['required', 'date', 'after_or_equal:start_date'],
+            'half_day' => ['nullable', Rule::in(Absence::HALF_DAYS)],
+            'reason' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        $startDate = CarbonImmutable::parse($validated['start_date'])->toDateString();
+        $endDate = CarbonImmutable::parse($validated['end_date'])->toDateString();
+
+        if (!empty($validated['half_day']) && $startDate !== $endDate) {
+            return response()->json([
+                'message' => 'Half-day absences must start and end on the same day.',
+                'errors' => ['half_day' => ['Half-day absences must start and end on the same day.']],
+            ], 422);
+        }
+
+        $technician = $this->resolveTechnician($request);
+        if ($technician instanceof JsonResponse) {
+            return $technician;
+        }
+
+        $overlapping = Absence::where('technician_id', $technician->id)
+            ->whereIn('status', ['pending', 'approved'])
+            ->overlapping($startDate, $endDate)
+            ->get()
+            ->first(fn (Absence $existing) => $this->halvesOverlap($existing, $startDate, $endDate, $validated['half_day'] ?? null));
+
+        if ($overlapping) {
+            return response()->json([
+                'message' => 'These dates overlap another absence request.',
+                'errors' => ['start_date' => ['These dates overlap another absence request.']],
+            ], 422);
+        }
+
+        $absence = Absence::create([
+            'technician_id' => $technician->id,
+            'absence_type' => $validated['absence_type'],
+            'start_date' => $startDate,
+            'end_date' => $endDate,
+            'half_day' => $validated['half_day'] ?? null,
+            'status' => 'pending',
+            'reason' => $validated['reason'] ?? null,
+            'requested_by' => $request->user()->id,
+        ]);
+
+        return response()->json(['data' => $this->present($absence->load('technician'))], 201);
+    }
+
+    /**
+     * PUT /api/absences/{absence}/cancel
+     * Withdraws a pending or approved absence; the worker's own or one the caller manages.
+     */
+    public function cancel(Request $request, Absence $absence): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $absence->loadMissing('technician.user');
+
+        if (!$this->isOwn($user, $absence->technician) && !$this->canManage($user, $absence->technician)) {
+            return response()->json(['message' => 'You cannot cancel this absence.'], 403);
+        }
+
+        if (!in_array($absence->status, ['pending', 'approved'], true)) {
+            return response()->json(['message' => 'Only pending or approved absences can be cancelled.'], 422);
+        }
+
+        $absence->update(['status' => 'cancelled']);
+
+        return response()->json(['data' => $this->present($absence)]);
+    }
+
+    /**
+     * GET /api/absences/pending
+     * Absence requests the user may review. Own requests are excluded to prevent self-approval.
+     */
+    public function pending(Request $request): JsonResponse
+    {
+        $this->authorize('approve', Timesheet::class);
+
+        /** @var User $user */
+        $user = $request->user();
+
+        $absences = Absence::with('technician.user')
+            ->where('status', 'pending')
+            ->whereHas('technician', function ($query) use ($user) {
+                $query->whereNull('user_id')->orWhere('user_id', '!=', $user->id);
+            })
+            ->orderBy('start_date')
+            ->get()
+            ->filter(fn (Absence $absence) => $this->canManage($user, $absence->technician))
+            ->map(fn (Absence $absence) => $this->present($absence))
+            ->values();
+
+        return response()->json(['data' => $absences]);
+    }
+
+    /**
+     * PUT /api/absences/{absence}/approve
+     */
+    public function approve(Request $request, Absence $absence): JsonResponse
+    {
+        $this->authorize('approve', Timesheet::class);
+
+        if ($response = $this->reviewGuard($request->user(), $absence)) {
+            return $response;
+        }
+
+        $absence->update([
+            'status' => 'approved',
+            'reviewed_by' => $request->user()->id,
+            'reviewed_at' => now(),
+            'rejection_reason' => null,
+        ]);
+
+        return response()->json(['data' => $this->present($absence)]);
+    }
+
+    /**
+     * PUT /api/absences/{absence}/reject
+     */
+    public function reject(Request $request, Absence $absence): JsonResponse
+    {
+        $this->authorize('approve', Timesheet::class);
+
+        $validated = $request->validate([
+            'reason' => ['required', 'string', 'max:1000'],
+        ]);
+
+        if ($response = $this->reviewGuard($request->user(), $absence)) {
+            return $response;
+        }
+
+        $absence->update([
+            'status' => 'rejected',
+            'reviewed_by' => $request->user()->id,
+            'reviewed_at' => now(),
+            'rejection_reason' => $validated['reason'],
+        ]);
+
+        return response()->json(['data' => $this->present($absence)]);
+    }
+
+    private function reviewGuard(User $user, Absence $absence): ?JsonResponse
+    {
+        $absence->loadMissing('technician.user');
+
+        if ($absence->status !== 'pending') {
+            return response()->json(['message' => 'Only pending absences can be reviewed.'], 422);
+        }
+
+        if ($this->isOwn($user, $absence->technician)) {
+            return response()->json(['message' => 'You cannot review your own absence.'], 403);
+        }
+
+        if (!$this->canManage($user, $absence->technician)) {
+            return response()->json(['message' => 'You can only review absences of workers you manage.'], 403);
+        }
+
+        return null;
+    }
+
+    /**
+     * The caller's own technician, or the requested one when the caller is an Admin or manages
+     * a project the technician belongs to.
+     */
+    private function resolveTechnician(Request $request): Technician|JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $own = $this->ownTechnician($user);
+
+        $requestedId = (int) $request->input('technician_id', 0);
+
+        if ($requestedId === 0 || ($own && $requestedId === (int) $own->id)) {
+            return $own ?? response()->json(['error' => 'Technician profile not found'], 404);
+        }
+
+        $technician = Technician::with('user')->find($requestedId);
+        if (!$technician) {
+            return response()->json(['error' => 'Worker not found'], 404);
+        }
+
+        return $this->canManage($user, $technician)
+            ? $technician
+            : response()->json(['error' => 'You cannot manage this worker\'s absences.'], 403);
+    }
+
+    private function ownTechnician(User $user): ?Technician
+    {
+        return $user->technician
+            ?? Technician::where('user_id', $user->id)->first()
+            ?? Technician::where('email', $user->email)->first();
+    }
+
+    private function isOwn(User $user, ?Technician $technician): bool
+    {
+        return $technician !== null
+            && ((int) $technician->user_id === (int) $user->id || (int) $this->ownTechnician($user)?->id === (int) $technician->id);
+    }
+
+    private function canManage(User $user, ?Technician $technician): bool
+    {
+        if ($technician === null) {
+            return false;
+        }
+
+        if ($user->hasRole('Admin')) {
+            return true;
+        }
+
+        $managedProjectIds = $user->hasPermissionTo('approve-timesheets') ? $user->getManagedProjectIds() : [];
+
+        return $technician->user
+            && !empty($managedProjectIds)
+            && $technician->user->projects()->whereIn('projects.id', $managedProjectIds)->exists();
+    }
+
+    /**
+     * Own absences, plus those of workers in projects the user manages (all for Admins).
+     */
+    private function scopeVisible(Builder $query, User $user): void
+    {
+        if ($user->hasRole('Admin')) {
+            return;
+        }
+
+        $own = $this->ownTechnician($user);
+        $managedProjectIds = $user->hasPermissionTo('approve-timesheets') ? $user->getManagedProjectIds() : [];
+
+        $query->where(function (Builder $scoped) use ($own, $managedProjectIds) {
+            $scoped->where('technician_id', $own?->id ?? 0);
+
+            if (!empty($managedProjectIds)) {
+                $scoped->orWhereHas('technician.user.projects', function ($projects) use ($managedProjectIds) {
+                    $projects->whereIn('projects.id', $managedProjectIds);
+                });
+            }
+        });
+    }
+
+    /**
+     * Whether a new request for the range collides with an existing absence. Two half-day
+     * absences on the same day only collide when they take the same half.
+     */
+    private function halvesOverlap(Absence $existing, string $startDate, string $endDate, ?string $halfDay): bool
+    {
+        if ($halfDay === null || $existing->half_day === null || $startDate !== $endDate) {
+            return true;
+        }
+
+        return $existing->half_day === $halfDay;
+    }
+
+    private function present(Absence $absence): array
+    {
+        return [
+            'id' => $absence->id,
+            'technician_id' => $absence->technician_id,
+            'technician' => $absence->technician?->only(['id', 'name', 'email', 'user_id']),
+            'absence_type' => $absence->absence_type,
+            'start_date' => $absence->start_date->toDateString(),
+            'end_date' => $absence->end_date->toDateString(),
+            'half_day' => $absence->half_day,
+            'days' => $absence->days(),
+            'status' => $absence->status,
+            'reason' => $absence->reason,
+            'rejection_reason' => $absence->rejection_reason,
+            'reviewed_at' => $absence->reviewed_at?->toIso8601String(),
+            'created_at' => $absence->created_at?->toIso8601String(),
+        ];
+    }
+}
@@ -0,0 +1,229 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\ApprovalDelegation;
+use App\Models\Project;
+use App\Models\User;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Carbon;
+use Illuminate\Validation\Rule;
+
+/**
+ * Out-of-office delegation of approval rights: a manager names a substitute who approves and
+ * rejects timesheets and/or expenses on their behalf between two dates.
+ *
+ * Only the delegator can revoke a delegation; the substitute sees what they received.
+ */
+final class ApprovalDelegationController extends Controller
+{
+    private const MAX_DAYS = 366;
+
+    /**
+     * GET /api/approval-delegations
+     * Current and upcoming delegations the caller gave and received, plus what is needed to
+     * create one: the projects they manage and who can stand in for them.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $today = Carbon::today()->toDateString();
+
+        $current = fn (string $column) => ApprovalDelegation::with(['delegator:id,name', 'delegate:id,name', 'project:id,name'])
+            ->where($column, $user->id)
+            ->whereNull('revoked_at')
+            ->whereDate('ends_on', '>=', $today)
+            ->orderBy('starts_on')
+            ->orderBy('id')
+            ->get()
+            ->map(fn (ApprovalDelegation $delegation) => $this->present($delegation))
+            ->values();
+
+        return response()->json([
+            'given' => $current('delegator_id'),
+            'received' => $current('delegate_id'),
+            'managed_projects' => $this->managedProjects($user),
+            'candidates' => $this->candidates($user),
+        ]);
+    }
+
+    /**
+     * POST /api/approval-delegations
+     */
+    public function store(Request $request): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+
+        $validated = $request->validate([
+            'delegate_id' => ['required', 'integer', 'exists:users,id'],
+            'scope' => ['required', 'string', Rule::in(ApprovalDelegation::SCOPES)],
+            'project_id' => ['nullable', 'integer', 'exists:projects,id'],
+            'starts_on' => ['required', 'date_format:Y-m-d'],
+            'ends_on' => ['required', 'date_format:Y-m-d', 'after_or_equal:starts_on', 'after_or_equal:today'],
+        ]);
+
+        $scope = $validated['scope'];
+        $projectId = isset($validated['project_id']) ? (int) $validated['project_id'] : null;
+
+        if ((int) $validated['delegate_id'] === (int) $user->id) {
+            return $this->invalid('delegate_id', 'You cannot delegate approvals to yourself.');
+        }
+
+        $startsOn = Carbon::parse($validated['starts_on']);
+        if ($startsOn->diffInDays(Carbon::parse($validated['ends_on'])) >= self::MAX_DAYS) {
+            return $this->invalid('ends_on', sprintf('A delegation can last at most %d days.', self::MAX_DAYS));
+        }
+
+        // Only rights the caller holds can be delegated
+        foreach ($this->typesOf($scope) as $type) {
+            $managed = $this->managedProjectIds($user, $type);
+            if (!$user->hasPermissionTo($this->permissionFor($type)) || empty($managed)) {
+                return $this->invalid('scope', sprintf('You do not approve %s on any project.', $type));
+            }
+            if ($projectId !== null && !in_array($projectId, $managed, true)) {
+                return $this->invalid('project_id', sprintf('You do not approve %s on this project.', $type));
+            }
+        }
+
+        $delegate = User::findOrFail((int) $validated['delegate_id']);
+        foreach ($this->typesOf($scope) as $type) {
+            if (!$delegate->hasPermissionTo($this->permissionFor($type))) {
+                return $this->invalid('delegate_id', sprintf('%s cannot approve %s.', $delegate->name, $type));
+            }
+        }
+
+        $delegation = ApprovalDelegation::create([
+            'delegator_id' => $user->id,
+            'delegate_id' => $delegate->id,
+            'scope' => $scope,
+            'project_id' => $projectId,
+            'starts_on' => $startsOn->toDateString(),
+            'ends_on' => $validated['ends_on'],
+        ]);
+        $delegation->load(['delegator:id,name', 'delegate:id,name', 'project:id,name']);
+
+        return response()->json(['data' => $this->present($delegation)], 201);
+    }
+
+    /**
+     * DELETE /api/approval-delegations/{delegation}
+     * Revokes the delegation: the substitute loses the rights immediately. Kept for the record.
+     */
+    public function destroy(Request $request, ApprovalDelegation $delegation): JsonResponse
+    {
+        if ((int) $delegation->delegator_id !== (int) $request->user()->id) {
+            return response()->json(['message' => 'Delegation not found'], 404);
+        }
+
+        if ($delegation->revoked_at === null) {
+            $delegation->update(['revoked_at' => now()]);
+        }
+
+        return response()->json(['message' => 'Delegation revoked']);
+    }
+
+    private function invalid(string $field, string $message): JsonResponse
+    {
+        return response()->json(['message' => $message, 'errors' => [$field => [$message]]], 422);
+    }
+
+    /**
+     * @return list<string>
+     */
+    private function typesOf(string $scope): array
+    {
+        return $scope === ApprovalDelegation::SCOPE_BOTH
+            ? [ApprovalDelegation::SCOPE_TIMESHEETS, ApprovalDelegation::SCOPE_EXPENSES]
+            : [$scope];
+    }
+
+    private function permissionFor(string $type): string
+    {
+        return $type === ApprovalDelegation::SCOPE_EXPENSES ? 'approve-expenses' : 'approve-timesheets';
+    }
+
+    /**
+     * @return list<int>
+     */
+    private function managedProjectIds(User $user, string $type): array
+    {
+        $ids = $type === ApprovalDelegation::SCOPE_EXPENSES
+            ? $user->getExpenseManagedProjectIds()
+            : $user->getManagedProjectIds();
+
+        return array_values(array_map('intval', $ids));
+    }
+
+    /**
+     * @return list<array<string, mixed>>
+     */
+    private function managedProjects(User $user): array
+    {
+        $timesheets = $user->hasPermissionTo('approve-timesheets') ? $this->managedProjectIds($user, ApprovalDelegation::SCOPE_TIMESHEETS) : [];
+        $expenses = $user->hasPermissionTo('approve-expenses') ? $this->managedProjectIds($user, ApprovalDelegation::SCOPE_EXPENSES) : [];
+
+        return Project::whereIn('id', array_unique(array_merge($timesheets, $expenses)))
+            ->orderBy('name')
+            ->get(['id', 'name'])
+            ->map(fn (Project $project) => [
+                'id' => $project->id,
+                'name' => $project->name,
+                'timesheets' => in_array((int) $project->id, $timesheets, true),
+                'expenses' => in_array((int) $project->id, $expenses, true),
+            ])
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Users who hold approval permissions and can therefore stand in for the caller.
+     *
+     * @return list<array<string, mixed>>
+     */
+    private function candidates(User $user): array
+    {
+        return User::permission(['approve-timesheets', 'approve-expenses'])
+            ->where('id', '!=', $user->id)
+            ->orderBy('name')
+            ->get(['id', 'name', 'email'])
+            ->map(fn (User $candidate) => [
+                'id' => $candidate->id,
+                'name' => $candidate->name,
+                'email' => $candidate->email,
+                'timesheets' => $candidate->hasPermissionTo('approve-timesheets'),
+                'expenses' => $candidate->hasPermissionTo('approve-expenses'),
+            ])
+            ->values()
+            ->all();
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function present(ApprovalDelegation $delegation): array
+    {
+        return [
+            'id' => $delegation->id,
+            'delegator' => $delegation->delegator
+                ? ['id' => $delegation->delegator->id, 'name' => $delegation->delegator->name]
+                : null,
+            'delegate' => $delegation->delegate
+                ? ['id' => $delegation->delegate->id, 'name' => $delegation->delegate->name]
+                : null,
+            'scope' => $delegation->scope,
+            'project' => $delegation->project
+                ? ['id' => $delegation->project->id, 'name' => $delegation->project->name]
+                : null,
+            'starts_on' => $delegation->starts_on?->toDateString(),
+            'ends_on' => $delegation->ends_on?->toDateString(),
+            'is_active' => $delegation->isActive(),
+            'created_at' => $delegation->created_at?->toIso8601String(),
+        ];
+    }
+}
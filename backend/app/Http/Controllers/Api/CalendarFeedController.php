@@ -0,0 +1,190 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\CalendarFeed;
+use App\Models\User;
+use App\Services\CalendarFeeds\CalendarFeedBuilder;
+use App\Services\TenantFeatures;
+use App\Services\TenantResolver;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Http\Response;
+
+/**
+ * Personal iCalendar feeds: the caller manages their feed URLs here, and calendar apps fetch
+ * the .ics documents with the secret token in the URL (no session or bearer token).
+ *
+ * Travels and planned tasks are only offered while the tenant has those modules.
+ */
+final class CalendarFeedController extends Controller
+{
+    private const MAX_FEEDS_PER_USER = 10;
+
+    public function __construct(
+        private readonly CalendarFeedBuilder $builder,
+    ) {
+    }
+
+    /**
+     * GET /api/calendar-feeds
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $feeds = CalendarFeed::where('user_id', $request->user()->id)
+            ->orderBy('created_at')
+            ->get();
+
+        return response()->json([
+            'data' => $feeds->map(fn (CalendarFeed $feed) => $this->present($feed))->values(),
+            'available_calendars' => $this->availableCalendars(),
+        ]);
+    }
+
+    /**
+     * POST /api/calendar-feeds
+     */
+    public function store(Request $request): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $validated = $request->validate($this->rules());
+
+        if (CalendarFeed::where('user_id', $user->id)->count() >= self::MAX_FEEDS_PER_USER) {
+            return $this->invalid('name', sprintf('You can keep at most %d calendar feeds.', self::MAX_FEEDS_PER_USER));
+        }
+
+        $feed = CalendarFeed::create([
+            'user_id' => $user->id,
+            'name' => trim($validated['name']),
+            'include_timesheets' => (bool) ($validated['include_timesheets'] ?? true),
+            'include_travels' => (bool) ($validated['include_travels'] ?? true),
+            'include_planning' => (bool) ($validated['include_planning'] ?? true),
+            ...CalendarFeed::newToken(),
+        ]);
+
+        return response()->json(['data' => $this->present($feed)], 201);
+    }
+
+    /**
+     * PUT /api/calendar-feeds/{feed}
+     * Renames the feed or switches its calendars on and off; the URLs stay the same.
+     */
+    public function update(Request $request, CalendarFeed $feed): JsonResponse
+    {
+        if ((int) $feed->user_id !== (int) $request->user()->id) {
+            return response()->json(['message' => 'Calendar feed not found'], 404);
+        }
+
+        $validated = $request->validate($this->rules(partial: true));
+        if (isset($validated['name'])) {
+            $validated['name'] = trim($validated['name']);
+        }
+
+        $feed->update($validated);
+
+        return response()->json(['data' => $this->present($feed)]);
+    }
+
+    /**
+     * DELETE /api/calendar-feeds/{feed}
+     * Revokes the feed: its URLs stop working immediately.
+     */
+    public function destroy(Request $request, CalendarFeed $feed): JsonResponse
+    {
+        if ((int) $feed->user_id !== (int) $request->user()->id) {
+            return response()->json(['message' => 'Calendar feed not found'], 404);
+        }
+
+        $feed->delete();
+
+        return response()->json(['message' => 'Calendar feed revoked']);
+    }
+
+    /**
+     * GET /api/calendar-feeds/{token}/{calendar}.ics?tenant={slug}
+     * Public: the token is the credential. Unknown tokens and calendars that are switched off
+     * get the same 404.
+     */
+    public function show(string $token, string $calendar): Response|JsonResponse
+    {
+        $feed = CalendarFeed::findByToken($token);
+        if (!$feed || !$feed->user || !$feed->includes($calendar) || !in_array($calendar, $this->availableCalendars(), true)) {
+            return response()->json(['message' => 'Calendar feed not found'], 404);
+        }
+
+        $feed->timestamps = false;
+        $feed->forceFill(['last_accessed_at' => now()])->save();
+
+        return response($this->builder->build($feed, $calendar, $this->tenantSlug()), 200, [
+            'Content-Type' => 'text/calendar; charset=utf-8',
+            'Content-Disposition' => sprintf('inline; filename="%s.ics"', $calendar),
+            'Cache-Control' => 'private, max-age=900',
+        ]);
+    }
+
+    /**
+     * @return array<string, array<int, string>>
+     */
+    private function rules(bool $partial = false): array
+    {
+        return [
+            'name' => [$partial ? 'sometimes' : 'required', 'string', 'max:120'],
+            'include_timesheets' => ['sometimes', 'boolean'],
+            'include_travels' => ['sometimes', 'boolean'],
+            'include_planning' => ['sometimes', 'boolean'],
+        ];
+    }
+
+    private function invalid(string $field, string $message): JsonResponse
+    {
+        return response()->json(['message' => $message, 'errors' => [$field => [$message]]], 422);
+    }
+
+    /**
+     * @return list<string>
+     */
+    private function availableCalendars(): array
+    {
+        $tenant = TenantResolver::resolve();
+
+        return array_values(array_filter(CalendarFeed::CALENDARS, fn (string $calendar) => match ($calendar) {
+            CalendarFeed::CALENDAR_TRAVELS => $tenant !== null && TenantFeatures::active($tenant, TenantFeatures::TRAVELS),
+            CalendarFeed::CALENDAR_PLANNING => $tenant !== null && TenantFeatures::active($tenant, TenantFeatures::PLANNING),
+            default => true,
+        }));
+    }
+
+    private function tenantSlug(): string
+    {
+        return (string) (tenancy()->tenant?->slug ?? 'tenant');
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function present(CalendarFeed $feed): array
+    {
+        $available = $this->availableCalendars();
+        $urls = [];
+        foreach (CalendarFeed::CALENDARS as $calendar) {
+            $urls[$calendar] = $feed->includes($calendar) && in_array($calendar, $available, true)
+                ? url(sprintf('/api/calendar-feeds/%s/%s.ics', $feed->token, $calendar)) . '?' . http_build_query(['tenant' => $this->tenantSlug()])
+                : null;
+        }
+
+        return [
+            'id' => $feed->id,
+            'name' => $feed->name,
+            'include_timesheets' => $feed->include_timesheets,
+            'include_travels' => $feed->include_travels,
+            'include_planning' => $feed->include_planning,
+            'urls' => $urls,
+            'last_accessed_at' => $feed->last_accessed_at?->toIso8601String(),
+            'created_at' => $feed->created_at?->toIso8601String(),
+        ];
+    }
+}
@@ -34,10 +34,13 @@
 use App\Http\Controllers\Concerns\HandlesConstraintExceptions;
 use App\Http\Requests\StoreExpenseRequest;
 use App\Http\Requests\UpdateExpenseRequest;
+use App\Models\ApprovalDelegation;
 use App\Models\Expense;
 use App\Models\Project;
 use App\Models\Technician;
 use App\Models\User;
+use App\Policies\ExpensePolicy;
+use App\Services\TimesheetApproval\ApprovalSlaTracker;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\Storage;
@@ -394,15 +397,34 @@ public function pending(Request $request): JsonResponse
         // Limit managers to their own projects/records
         if (!$request->user()->hasRole('Admin')) {
             $managedProjectIds = $request->user()->getExpenseManagedProjectIds();
-
-            if (!empty($managedProjectIds)) {
-                $query->whereIn('project_id', $managedProjectIds);
+            // Substitute approvers only get the submitted expenses they can act on
+            $delegatedProjectIds = array_values(array_diff(
+                ApprovalDelegation::delegatedProjectIds($request->user(), ApprovalDelegation::SCOPE_EXPENSES),
+                $managedProjectIds
+            ));
+
+            if (!empty($managedProjectIds) || !empty($delegatedProjectIds)) {
+                $query->where(function ($q) use ($managedProjectIds, $delegatedProjectIds) {
+                    $q->whereIn('project_id', $managedProjectIds)
+                        ->orWhere(function ($delegated) use ($delegatedProjectIds) {
+                            $delegated->whereIn('project_id', $delegatedProjectIds)
+                                ->where('status', 'submitted');
+                        });
+                });
             } else {
                 $query->whereRaw('1 = 0');
             }
         }
 
         $expenses = $query->orderBy('date', 'desc')->get();
+
+        $policy = app(ExpensePolicy::class);
+        $approvalSla = app(ApprovalSlaTracker::class);
+        $expenses->each(function (Expense $expense) use ($request, $policy, $approvalSla) {
+            $onBehalfOf = $expense->status === 'submitted' ? $policy->onBehalfOf($request->user(), $expense) : null;
+            $expense->setAttribute('on_behalf_of', $onBehalfOf ? ['id' => $onBehalfOf->id, 'name' => $onBehalfOf->name] : null);
+            $expense->setAttribute('sla', $approvalSla->describe($expense));
+        });
         
         return response()->json($expenses);
     }
@@ -410,11 +432,11 @@ public function pending(Request $request): JsonResponse
     /**
      * Approve an expense (manager only)
      */
-    public function approve(Expense $expense): JsonResponse
+    public function approve(Request $request, Expense $expense): JsonResponse
     {
         $this->authorize('approve', $expense);
 
-        $expense->approve();
+        $expense->approve(app(ExpensePolicy::class)->onBehalfOf($request->user(), $expense));
         $expense->load(['technician', 'project']);
         
         return response()->json($expense);
@@ -431,7 +453,7 @@ public function reject(Request $request, Expense $expense): JsonResponse
             'rejection_reason' => 'required|string|max:500'
         ]);
 
-        $expense->reject($validated['rejection_reason']);
+        $expense->reject($validated['rejection_reason'], app(ExpensePolicy::class)->onBehalfOf($request->user(), $expense));
         $expense->load(['technician', 'project']);
         
         return response()->json($expense);
@@ -5,6 +5,7 @@
 namespace App\Http\Controllers\Api;
 
 use App\Http\Controllers\Controller;
+use App\Http\Requests\Reports\ApprovalHeatmapItemsRequest;
 use App\Http\Requests\Reports\ApprovalHeatmapRequest;
 use App\Http\Requests\Reports\ExpenseExportRequest;
 use App\Http\Requests\Reports\ExpenseSummaryRequest;
@@ -32,8 +33,32 @@ public function __construct(
     public function approvalHeatmap(ApprovalHeatmapRequest $request): JsonResponse
     {
         $validated = $request->validated();
+        $validated['granularity'] ??= ApprovalReports::GRANULARITY_AUTO;
 
-        $user = $request->user();
+        $this->authorizeApprovalReport($validated);
+
+        return response()->json(
+            $this->approvalReports->heatmap($validated, $request->user()),
+        );
+    }
+
+    public function approvalHeatmapItems(ApprovalHeatmapItemsRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        $this->authorizeApprovalReport($validated);
+
+        return response()->json(
+            $this->approvalReports->items($validated, $request->user()),
+        );
+    }
+
+    /**
+     * @param array{include:array{timesheets?:bool,expenses?:bool}} $validated
+     */
+    private function authorizeApprovalReport(array $validated): void
+    {
+        $user = request()->user();
         $wantsTimesheets = (bool) ($validated['include']['timesheets'] ?? false);
         $wantsExpenses = (bool) ($validated['include']['expenses'] ?? false);
 
@@ -53,10 +78,6 @@ public function approvalHeatmap(ApprovalHeatmapRequest $request): JsonResponse
         if (!$canApproveTimesheets && !$canApproveExpenses) {
             abort(403, 'Forbidden');
         }
-
-        return response()->json(
-            $this->approvalReports->heatmap($validated, $request->user()),
-        );
     }
 
     public function exportTimesheets(ExportReportRequest $request): StreamedResponse
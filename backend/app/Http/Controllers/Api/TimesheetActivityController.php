@@ -0,0 +1,99 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Timesheet;
+use App\Models\TimesheetComment;
+use App\Models\TimesheetStatusChange;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Discussion thread and status history of a single timesheet entry. Anyone who can view the
+ * entry (its technician and the managers reviewing it) can read the thread and reply.
+ */
+final class TimesheetActivityController extends Controller
+{
+    /**
+     * GET /api/timesheets/{timesheet}/activity
+     */
+    public function index(Timesheet $timesheet): JsonResponse
+    {
+        $this->authorize('view', $timesheet);
+
+        $comments = $timesheet->comments()
+            ->with('user:id,name')
+            ->orderBy('created_at')
+            ->orderBy('id')
+            ->get()
+            ->map(fn (TimesheetComment $comment) => $this->commentPayload($comment))
+            ->values();
+
+        $history = $timesheet->statusChanges()
+            ->with(['changedBy:id,name', 'onBehalfOf:id,name'])
+            ->orderBy('created_at')
+            ->orderBy('id')
+            ->get()
+            ->map(fn (TimesheetStatusChange $change) => [
+                'id' => $change->id,
+                'from_status' => $change->from_status,
+                'to_status' => $change->to_status,
+                'changed_by' => $change->changedBy
+                    ? ['id' => $change->changedBy->id, 'name' => $change->changedBy->name]
+                    : null,
+                'on_behalf_of' => $change->onBehalfOf
+                    ? ['id' => $change->onBehalfOf->id, 'name' => $change->onBehalfOf->name]
+                    : null,
+                'created_at' => $change->created_at?->toIso8601String(),
+            ])
+            ->values();
+
+        return response()->json([
+            'timesheet_id' => $timesheet->id,
+            'status' => $timesheet->status,
+            'comments' => $comments,
+            'history' => $history,
+        ]);
+    }
+
+    /**
+     * POST /api/timesheets/{timesheet}/comments
+     */
+    public function store(Request $request, Timesheet $timesheet): JsonResponse
+    {
+        $this->authorize('view', $timesheet);
+
+        $validated = $request->validate([
+            'body' => ['required', 'string', 'max:2000'],
+        ]);
+
+        $body = trim($validated['body']);
+        if ($body === '') {
+            return response()->json(['error' => 'Comment cannot be empty.'], 422);
+        }
+
+        $comment = $timesheet->addComment($body);
+        $comment->load('user:id,name');
+
+        return response()->json($this->commentPayload($comment), 201);
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function commentPayload(TimesheetComment $comment): array
+    {
+        return [
+            'id' => $comment->id,
+            'kind' => $comment->kind,
+            'body' => $comment->body,
+            'user' => $comment->user
+                ? ['id' => $comment->user->id, 'name' => $comment->user->name]
+                : null,
+            'created_at' => $comment->created_at?->toIso8601String(),
+        ];
+    }
+}
@@ -31,23 +31,40 @@
 namespace App\Http\Controllers\Api;
 
 use App\Http\Controllers\Controller;
+use App\Models\Absence;
+use App\Models\ApprovalDelegation;
 use App\Models\Project;
 use App\Models\Technician;
 use App\Models\User;
 use App\Models\Timesheet;
+use App\Models\TimesheetComment;
+use App\Models\TimesheetWeek;
+use App\Policies\TimesheetPolicy;
 use App\Services\Compliance\OvertimeCalculator;
 use App\Services\Compliance\WorkweekCalculator;
+use App\Services\Holidays\HolidayCalendar;
 use App\Tenancy\TenantContext;
+use App\Services\TimesheetApproval\ApprovalSlaTracker;
+use App\Services\TimesheetApproval\TimesheetApprovalWorkflow;
+use App\Services\TimesheetValidation\TimesheetBreakValidator;
+use App\Services\TimesheetValidation\TimesheetShift;
 use App\Services\TimesheetValidation\TimesheetValidationService;
+use App\Tenancy\TenantBreakRule;
 use Carbon\Carbon;
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Builder;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
+use Illuminate\Support\Collection;
 use Illuminate\Validation\Rule;
 
 class TimesheetController extends Controller
 {
     public function __construct(
-        private readonly TimesheetValidationService $validationService
+        private readonly TimesheetValidationService $validationService,
+        private readonly TimesheetBreakValidator $breakValidator,
+        private readonly TimesheetApprovalWorkflow $approvalWorkflow,
+        private readonly ApprovalSlaTracker $approvalSla
     ) {
     }
 
@@ -84,7 +101,7 @@ public function index(Request $request): JsonResponse
             )))
             : null;
 
-        $query = Timesheet::with(['technician', 'project', 'task', 'location']);
+        $query = Timesheet::with(['technician', 'project', 'task', 'location', 'breaks']);
 
         if ($isOwnerGlobalView) {
             if ($subjectVisibleProjectIds !== null) {
@@ -228,10 +245,23 @@ public function store(\App\Http\Requests\StoreTimesheetRequest $request): JsonRe
             $validated['technician_id'] = $technicianFromRequest->id;
         }
 
+        if ($locked = $this->lockedWeekResponse($user, $authTechnician, (int) $validated['technician_id'], $validated['date'])) {
+            return $locked;
+        }
+
         if (!isset($validated['status'])) {
             $validated['status'] = 'draft';
         }
 
+        $breaks = $validated['breaks'] ?? null;
+        unset($validated['breaks']);
+
+        $validated['timezone'] = app(TimesheetShift::class)->timezoneForLocation((int) $validated['location_id']);
+
+        if ($breaks !== null && isset($validated['start_time'], $validated['end_time'])) {
+            $validated['hours_worked'] = $this->breakValidator->workedHours($validated['start_time'], $validated['end_time'], $breaks);
+        }
+
         try {
             \Log::info('💾 Creating timesheet', [
                 'technician_id' => $validated['technician_id'],
@@ -242,12 +272,16 @@ public function store(\App\Http\Requests\StoreTimesheetRequest $request): JsonRe
             ]);
             
             $timesheet = Timesheet::create($validated);
+            if ($breaks) {
+                $timesheet->syncBreaks($breaks);
+            }
             
             \Log::info('✅ Timesheet created', ['id' => $timesheet->id]);
             
-            $timesheet->load(['technician', 'project', 'task', 'location']);
+            $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
 
             $validation = $this->validationService->summarize($timesheet, $request->user());
+            $this->approvalWorkflow->autoApprove($timesheet);
 
             $response = [
                 'data' => $timesheet,
@@ -289,7 +323,7 @@ public function show(Request $request, Timesheet $timesheet): JsonResponse
         // Verificar autorização usando Policy
         $this->authorize('view', $timesheet);
 
-        $timesheet->load(['technician', 'project', 'task', 'location']);
+        $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
         $validation = $this->validationService->summarize($timesheet, $request->user());
         
         return response()->json([
@@ -310,6 +344,14 @@ public function show(Request $request, Timesheet $timesheet): JsonResponse
      */
     public function update(Request $request, Timesheet $timesheet): JsonResponse
     {
+        if ($signed = $this->signedEntryResponse($timesheet)) {
+            return $signed;
+        }
+
+        if ($locked = $this->lockedEntryResponse($request->user(), $timesheet)) {
+            return $locked;
+        }
+
         // Policy handles all authorization logic (ownership, status, project membership)
         $this->authorize('update', $timesheet);
 
@@ -321,12 +363,22 @@ public function update(Request $request, Timesheet $timesheet): JsonResponse
                 'location_id' => 'sometimes|required|exists:locations,id',
                 'date' => 'sometimes|date',
                 'start_time' => 'nullable|date_format:H:i',
-                'end_time' => 'nullable|date_format:H:i',
+                'end_time' => 'nullable|date_format:H:i|different:start_time',
                 'hours_worked' => 'numeric|min:0.25|max:24',
                 'description' => 'nullable|string',
-                'status' => ['nullable', 'string', Rule::in(['draft', 'submitted', 'rejected'])]
+                'status' => ['nullable', 'string', Rule::in(['draft', 'submitted', 'rejected'])],
+                'resubmission_note' => 'nullable|string|max:1000',
+                'breaks' => 'sometimes|array|max:5',
+                'breaks.*.start_time' => 'required|date_format:H:i',
+                'breaks.*.end_time' => 'required|date_format:H:i',
             ]);
 
+            $resubmissionNote = $validated['resubmission_note'] ?? null;
+            unset($validated['resubmission_note']);
+
+            $breaks = $validated['breaks'] ?? null;
+            unset($validated['breaks']);
+
             $user = $request->user();
             $projectId = $validated['project_id'] ?? $timesheet->project_id;
             $project = Project::with('memberRecords')->findOrFail($projectId);
@@ -365,32 +417,29 @@ public function update(Request $request, Timesheet $timesheet): JsonResponse
                 $validated['technician_id'] = $timesheet->technician_id;
             }
 
+            if (isset($validated['date'])
+                && ($locked = $this->lockedWeekResponse($user, $authTechnician, (int) $validated['technician_id'], $validated['date']))) {
+                return $locked;
+            }
+
             \Log::info('Validation passed for update', ['validated_data' => $validated]);
 
-            // Check for time overlaps if start_time and end_time are provided (excluding current timesheet)
+            // Times are recorded in the site timezone, so moving the entry to another location re-resolves it.
+            if (array_key_exists('location_id', $validated)) {
+                $validated['timezone'] = app(TimesheetShift::class)->timezoneForLocation((int) $validated['location_id']);
+            }
+
+            // Check for time overlaps if start_time and end_time are provided (excluding current timesheet),
+            // including overnight entries around midnight
             if (isset($validated['start_time']) && isset($validated['end_time'])) {
-                $overlappingTimesheet = Timesheet::where('technician_id', $timesheet->technician_id)
-                    ->where('date', $validated['date'] ?? $timesheet->date)
-                    ->where('id', '!=', $timesheet->id) // Exclude current timesheet from check
-                    ->where(function ($query) use ($validated) {
-                        // Check for overlapping time periods
-                        $query->where(function ($q) use ($validated) {
-                            // Case 1: Updated entry starts within existing entry
-                            $q->where('start_time', '<=', $validated['start_time'])
-                              ->where('end_time', '>', $validated['start_time']);
-                        })->orWhere(function ($q) use ($validated) {
-                            // Case 2: Updated entry ends within existing entry
-                            $q->where('start_time', '<', $validated['end_time'])
-                              ->where('end_time', '>=', $validated['end_time']);
-                        })->orWhere(function ($q) use ($validated) {
-                            // Case 3: Updated entry completely contains existing entry
-                            $q->where('start_time', '>=', $validated['start_time'])
-                              ->where('end_time', '<=', $validated['end_time']);
-                        });
-                    })
-                    ->whereNotNull('start_time')
-                    ->whereNotNull('end_time')
-                    ->first();
+                $overlappingTimesheet = app(TimesheetShift::class)->findOverlap(
+                    (int) $timesheet->technician_id,
+                    Carbon::parse($validated['date'] ?? $timesheet->date)->toDateString(),
+                    $validated['start_time'],
+                    $validated['end_time'],
+                    $validated['timezone'] ?? $timesheet->timezone,
+                    $timesheet->id
+                );
 
                 if ($overlappingTimesheet) {
                     return response()->json([
@@ -399,9 +448,57 @@ public function update(Request $request, Timesheet $timesheet): JsonResponse
                 }
             }
 
+            // Breaks are checked against the entry as saved, so untouched breaks must still fit new times.
+            $startTime = array_key_exists('start_time', $validated) ? $validated['start_time'] : $timesheet->start_time;
+            $endTime = array_key_exists('end_time', $validated) ? $validated['end_time'] : $timesheet->end_time;
+
+            $absence = Absence::conflictFor(
+                (int) $validated['technician_id'],
+                Carbon::parse($validated['date'] ?? $timesheet->date)->toDateString(),
+                app(TimesheetShift::class)->window($startTime, $endTime)
+            );
+            if ($absence) {
+                return response()->json(['error' => $absence->conflictMessage()], 422);
+            }
+            $effectiveBreaks = $breaks ?? $timesheet->breaks()
+                ->get(['start_time', 'end_time'])
+                ->map(fn ($break) => [
+                    'start_time' => substr((string) $break->start_time, 0, 5),
+                    'end_time' => substr((string) $break->end_time, 0, 5),
+                ])
+                ->all();
+
+            $breakErrors = $this->breakValidator->validate(
+                $startTime,
+                $endTime,
+                $effectiveBreaks,
+                app(TenantBreakRule::class)->resolve(tenancy()->tenant)
+            );
+            if ($breakErrors !== []) {
+                return response()->json(['error' => $breakErrors[0]], 422);
+            }
+
+            if ($breaks !== null && $startTime && $endTime) {
+                $validated['hours_worked'] = $this->breakValidator->workedHours($startTime, $endTime, $breaks);
+            }
+
+            $wasRejected = $timesheet->status === 'rejected';
             $timesheet->update($validated);
-            $timesheet->load(['technician', 'project', 'task', 'location']);
+            $statusChanged = $timesheet->wasChanged('status');
+            if ($breaks !== null) {
+                $timesheet->syncBreaks($breaks);
+            }
+
+            // A note sent while re-submitting a rejected entry answers the rejection in its thread.
+            if ($wasRejected && $timesheet->status === 'submitted' && $resubmissionNote !== null && trim($resubmissionNote) !== '') {
+                $timesheet->addComment(trim($resubmissionNote), TimesheetComment::KIND_RESUBMISSION);
+            }
+
+            $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
             $validation = $this->validationService->summarize($timesheet, $request->user());
+            if ($statusChanged) {
+                $this->approvalWorkflow->autoApprove($timesheet);
+            }
             
             \Log::info('Timesheet updated successfully', ['timesheet_id' => $timesheet->id]);
             
@@ -441,6 +538,14 @@ public function destroy(Request $request, Timesheet $timesheet): JsonResponse
             'technician_user_id' => $timesheet->technician->user_id ?? null,
         ]);
 
+        if ($signed = $this->signedEntryResponse($timesheet)) {
+            return $signed;
+        }
+
+        if ($locked = $this->lockedEntryResponse($request->user(), $timesheet)) {
+            return $locked;
+        }
+
         try {
             // Policy handles all authorization logic (ownership, status, project membership)
             $this->authorize('delete', $timesheet);
@@ -467,7 +572,7 @@ public function destroy(Request $request, Timesheet $timesheet): JsonResponse
      */
     public function pending(Request $request): JsonResponse
     {
-        $query = Timesheet::with(['technician', 'project', 'task', 'location'])
+        $query = Timesheet::with(['technician', 'project', 'task', 'location', 'breaks'])
             ->where('status', 'submitted');
 
         if ($request->user()->isProjectManager()) {
@@ -488,12 +593,13 @@ public function pending(Request $request): JsonResponse
     /**
      * Approve a timesheet (manager only)
      */
-    public function approve(Timesheet $timesheet): JsonResponse
+    public function approve(Request $request, Timesheet $timesheet): JsonResponse
     {
         $this->authorize('approve', $timesheet);
         
-        $timesheet->approve();
-        $timesheet->load(['technician', 'project', 'task', 'location']);
+        $this->approvalWorkflow->approve($timesheet, app(TimesheetPolicy::class)->onBehalfOf($request->user(), $timesheet));
+        $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
+        $timesheet->setAttribute('approval', $this->approvalWorkflow->progress($timesheet));
         
         return response()->json($timesheet);
     }
@@ -509,8 +615,8 @@ public function reject(Request $request, Timesheet $timesheet): JsonResponse
             'reason' => ['required', 'string', 'max:1000'],
         ]);
 
-        $timesheet->reject($validated['reason']);
-        $timesheet->load(['technician', 'project', 'task', 'location']);
+        $timesheet->reject($validated['reason'], app(TimesheetPolicy::class)->onBehalfOf($request->user(), $timesheet));
+        $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
 
         return response()->json($timesheet);
     }
@@ -530,7 +636,10 @@ public function managerView(Request $request): JsonResponse
             'project.memberRecords',
             'task',
             'location',
-        ])->where('status', $status);
+            'signoff',
+            'stepApprovals.approvedBy:id,name',
+            'stepApprovals.onBehalfOf:id,name',
+        ])->withCount('comments')->where('status', $status);
 
         if ($request->filled('date_from')) {
             $dateFrom = Carbon::parse($request->input('date_from'));
@@ -547,8 +656,13 @@ public function managerView(Request $request): JsonResponse
         }
 
         // Canonical manager scope: only managed projects; never system-role based.
-        $managedProjectIds = $user->getManagedProjectIds();
-        if (empty($managedProjectIds)) {
+        // Substitute approvers also see the projects delegated to them.
+        $managedProjectIds = array_values(array_unique(array_merge(
+            $user->getManagedProjectIds(),
+            ApprovalDelegation::delegatedProjectIds($user, ApprovalDelegation::SCOPE_TIMESHEETS)
+        )));
+        $signsRoleStep = $status === 'submitted' && $this->approvalWorkflow->signsRoleStep($user);
+        if (empty($managedProjectIds) && !$signsRoleStep) {
             return response()->json([
                 'data' => [],
                 'summary' => [
@@ -562,7 +676,12 @@ public function managerView(Request $request): JsonResponse
             ]);
         }
 
-        $query->whereIn('project_id', $managedProjectIds);
+        // Submitted entries only show to the owner of the approval step they wait at
+        if ($status === 'submitted') {
+            $this->approvalWorkflow->whereAwaiting($query, $user, $managedProjectIds);
+        } else {
+            $query->whereIn('project_id', $managedProjectIds);
+        }
 
         // Prevent self-approval lists (policy will also guard actions)
         $query->whereHas('technician', function ($q) use ($user) {
@@ -576,8 +695,11 @@ public function managerView(Request $request): JsonResponse
             return $user->can('approve', $timesheet);
         })->values();
 
-        $rows = $timesheets->map(function (Timesheet $timesheet) use ($user) {
+        $policy = app(TimesheetPolicy::class);
+
+        $rows = $timesheets->map(function (Timesheet $timesheet) use ($user, $policy) {
             $validation = $this->validationService->summarize($timesheet, $user);
+            $onBehalfOf = $policy->onBehalfOf($user, $timesheet);
             $snapshot = $validation->snapshot;
             $date = $timesheet->date ? Carbon::parse($timesheet->date) : null;
 
@@ -675,6 +797,18 @@ public function managerView(Request $request): JsonResponse
                 'ai_score' => $snapshot->aiScore,
                 'ai_feedback' => $snapshot->aiFeedback,
                 'validation' => $validation->toArray(),
+                'comments_count' => (int) ($timesheet->comments_count ?? 0),
+                'signoff' => $timesheet->signoff ? [
+                    'id' => $timesheet->signoff->id,
+                    'signer_name' => $timesheet->signoff->signer_name,
+                    'signed_at' => $timesheet->signoff->signed_at->toIso8601String(),
+                ] : null,
+                'on_behalf_of' => $onBehalfOf ? [
+                    'id' => $onBehalfOf->id,
+                    'name' => $onBehalfOf->name,
+                ] : null,
+                'approval' => $this->approvalWorkflow->progress($timesheet),
+                'sla' => $this->approvalSla->describe($timesheet),
             ];
         })->values();
 
@@ -690,6 +824,7 @@ public function managerView(Request $request): JsonResponse
                 return ($row['validation']['snapshot']['overlap_risk'] ?? 'ok') === 'block';
             })->count(),
             'pending_count' => $rows->where('status', 'submitted')->count(),
+            'overdue_count' => $rows->where('sla.state', ApprovalSlaTracker::STATE_OVERDUE)->count(),
             'average_ai_score' => $avgScore !== null ? round($avgScore, 2) : null,
         ];
 
@@ -759,8 +894,9 @@ public function summary(Request $request): JsonResponse
             $query->whereIn('project_id', $visibleProjectIds);
         }
 
+        // From the day before: an overnight entry there ends on the first day of the workweek.
         $query
-            ->where('date', '>=', $period['start']->toDateString())
+            ->where('date', '>=', $period['start']->subDay()->toDateString())
             ->where('date', '<=', $period['end']->toDateString());
 
         if ($request->filled('project_id')) {
@@ -771,30 +907,27 @@ public function summary(Request $request): JsonResponse
             $query->where('technician_id', (int) $request->input('technician_id'));
         }
 
-        $daySums = (clone $query)
-            ->selectRaw('date, SUM(hours_worked) as hours')
-            ->groupBy('date')
-            ->orderBy('date')
-            ->get();
+        $overtime = $this->weekOvertime($tenant, $query->with(['breaks', 'technician'])->get(), $period['start'], $period['end']);
 
-        $dayHoursByDate = [];
-        $cursor = $period['start']->copy();
-        while ($cursor->lte($period['end'])) {
-            $dayHoursByDate[$cursor->toDateString()] = 0.0;
-            $cursor = $cursor->addDay();
-        }
-
-        foreach ($daySums as $row) {
-            $dayHoursByDate[(string) $row->date] = max(0.0, (float) $row->hours);
-        }
-
-        $overtime = app(OvertimeCalculator::class)->calculateWeekSummaryForTenant($tenant, $dayHoursByDate);
+        // Expected hours and holidays are per worker: the filtered one, else the caller's own.
+        $worker = $request->filled('technician_id')
+            ? Technician::find((int) $request->input('technician_id'))
+            : ($technician ?? null);
+        $holidayCalendar = app(HolidayCalendar::class);
+        $holidays = $holidayCalendar->holidaysFor($worker, $period['start'], $period['end']);
 
         return response()->json([
             'regular_hours' => round($overtime['regular_hours'], 2),
             'overtime_hours' => round($overtime['overtime_hours'], 2),
             'overtime_rate' => $overtime['overtime_rate'],
             'overtime_hours_2_0' => round((float) ($overtime['overtime_hours_2_0'] ?? 0.0), 2),
+            'holiday_hours' => round($overtime['holiday_hours'], 2),
+            'expected_hours' => $worker ? round($holidayCalendar->expectedHours($worker, $period['start'], $period['end']), 2) : null,
+            'holidays' => array_map(
+                fn (string $date, string $name) => ['date' => $date, 'name' => $name],
+                array_keys($holidays),
+                array_values($holidays)
+            ),
             'workweek_start' => $period['start']->toDateString(),
             'policy_key' => $policyKey,
         ]);
@@ -837,7 +970,7 @@ public function week(Request $request): JsonResponse
 
         $period = app(WorkweekCalculator::class)->periodForDate($tenant, $context, $date);
 
-        $query = Timesheet::with(['technician', 'project', 'task', 'location']);
+        $query = Timesheet::with(['technician', 'project', 'task', 'location', 'breaks']);
 
         if (!$isOwner) {
             $memberProjectIds = $user->projects()->pluck('projects.id')->toArray();
@@ -857,10 +990,6 @@ public function week(Request $request): JsonResponse
             $query->whereIn('project_id', $visibleProjectIds);
         }
 
-        $query
-            ->where('date', '>=', $period['start']->toDateString())
-            ->where('date', '<=', $period['end']->toDateString());
-
         if ($request->filled('project_id')) {
             $query->where('project_id', (int) $request->input('project_id'));
         }
@@ -869,20 +998,16 @@ public function week(Request $request): JsonResponse
             $query->where('technician_id', (int) $request->input('technician_id'));
         }
 
-        $timesheets = $query->orderBy('date')->get();
+        // Overnight entries of the day before the workweek end on its first day.
+        $previousDay = (clone $query)->whereDate('date', $period['start']->subDay()->toDateString())->get();
 
-        $dayHoursByDate = [];
-        $cursor = $period['start']->copy();
-        while ($cursor->lte($period['end'])) {
-            $dayHoursByDate[$cursor->toDateString()] = 0.0;
-            $cursor = $cursor->addDay();
-        }
-
-        foreach ($timesheets->groupBy('date') as $date => $rows) {
-            $dayHoursByDate[(string) $date] = max(0.0, (float) $rows->sum('hours_worked'));
-        }
+        $timesheets = $query
+            ->where('date', '>=', $period['start']->toDateString())
+            ->where('date', '<=', $period['end']->toDateString())
+            ->orderBy('date')
+            ->get();
 
-        $overtime = app(OvertimeCalculator::class)->calculateWeekSummaryForTenant($tenant, $dayHoursByDate);
+        $overtime = $this->weekOvertime($tenant, $timesheets->concat($previousDay), $period['start'], $period['end']);
 
         return response()->json([
             'data' => $timesheets,
@@ -890,10 +1015,74 @@ public function week(Request $request): JsonResponse
             'overtime_hours' => round($overtime['overtime_hours'], 2),
             'overtime_rate' => $overtime['overtime_rate'],
             'overtime_hours_2_0' => round((float) ($overtime['overtime_hours_2_0'] ?? 0.0), 2),
+            'holiday_hours' => round($overtime['holiday_hours'], 2),
             'workweek_start' => $period['start']->toDateString(),
         ]);
     }
 
+    /**
+     * Week overtime of the entries. Hours worked on a public holiday of the technician's contract
+     * country are paid as overtime (1.5x) and kept out of the daily and weekly rules.
+     *
+     * @param Collection<int, Timesheet> $timesheets
+     * @return array{regular_hours: float, overtime_hours: float, overtime_rate: float, overtime_hours_2_0: float, holiday_hours: float}
+     */
+    private function weekOvertime(\App\Models\Tenant $tenant, Collection $timesheets, CarbonInterface $start, CarbonInterface $end): array
+    {
+        $holidaysByTechnician = app(HolidayCalendar::class)->holidaysForTechnicians(
+            $timesheets->pluck('technician')->filter()->unique('id'),
+            $start,
+            $end
+        );
+
+        [$dayHoursByDate, $holidayHours] = $this->dayHoursForPeriod($timesheets, $start, $end, $holidaysByTechnician);
+
+        $overtime = app(OvertimeCalculator::class)->calculateWeekSummaryForTenant($tenant, $dayHoursByDate);
+        $overtime['overtime_hours'] += $holidayHours;
+        $overtime['holiday_hours'] = $holidayHours;
+
+        return $overtime;
+    }
+
+    /**
+     * Hours per date of the period (every date present, 0 when empty), with overnight entries
+     * split at midnight between the two calendar days. Hours on a technician's public holiday
+     * are left out and returned as a separate total.
+     *
+     * @param iterable<Timesheet> $timesheets
+     * @param array<int, array<string, string>> $holidaysByTechnician
+     * @return array{0: array<string, float>, 1: float}
+     */
+    private function dayHoursForPeriod(iterable $timesheets, CarbonInterface $start, CarbonInterface $end, array $holidaysByTechnician = []): array
+    {
+        $dayHoursByDate = [];
+        $cursor = $start->copy();
+        while ($cursor->lte($end)) {
+            $dayHoursByDate[$cursor->toDateString()] = 0.0;
+            $cursor = $cursor->addDay();
+        }
+
+        $holidayHours = 0.0;
+        $shift = app(TimesheetShift::class);
+        foreach ($timesheets as $timesheet) {
+            $holidays = $holidaysByTechnician[(int) $timesheet->technician_id] ?? [];
+
+            foreach ($shift->hoursByDay($timesheet) as $date => $hours) {
+                if (!array_key_exists($date, $dayHoursByDate)) {
+                    continue;
+                }
+
+                if (isset($holidays[$date])) {
+                    $holidayHours += max(0.0, $hours);
+                } else {
+                    $dayHoursByDate[$date] += max(0.0, $hours);
+                }
+            }
+        }
+
+        return [$dayHoursByDate, $holidayHours];
+    }
+
     /**
      * Return validation snapshot for a timesheet.
      */
@@ -901,7 +1090,7 @@ public function validation(Request $request, Timesheet $timesheet): JsonResponse
     {
         $this->authorize('view', $timesheet);
 
-        $timesheet->load(['technician', 'project', 'task', 'location']);
+        $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
         $result = $this->validationService->summarize($timesheet, $request->user());
 
         return response()->json($result->toArray());
@@ -997,18 +1186,23 @@ public function getUserProjects(Request $request): JsonResponse
     /**
      * Submit a draft or rejected timesheet for review.
      */
-    public function submit(Timesheet $timesheet): JsonResponse
+    public function submit(Request $request, Timesheet $timesheet): JsonResponse
     {
         $this->authorize('submit', $timesheet);
 
+        $validated = $request->validate([
+            'note' => ['nullable', 'string', 'max:1000'],
+        ]);
+
         if (!$timesheet->canBeSubmitted()) {
             return response()->json([
                 'error' => 'Only draft or rejected timesheets can be submitted.'
             ], 422);
         }
 
-        $timesheet->submit();
-        $timesheet->load(['technician', 'project', 'task', 'location']);
+        $timesheet->submit($validated['note'] ?? null);
+        $this->approvalWorkflow->autoApprove($timesheet);
+        $timesheet->load(['technician', 'project', 'task', 'location', 'breaks']);
 
         return response()->json($timesheet);
     }
@@ -1031,48 +1225,122 @@ public function pendingCounts(Request $request): JsonResponse
 
         // Admins see all pending approvals
         if ($user->hasRole('Admin')) {
-            $timesheetsCount = Timesheet::where('status', 'submitted')->count();
-            $expensesCount = \App\Models\Expense::where('status', 'submitted')->count();
-            
-            return response()->json([
-                'timesheets' => $timesheetsCount,
-                'expenses' => $expensesCount,
-                'total' => $timesheetsCount + $expensesCount
-            ]);
+            return response()->json($this->pendingCountsPayload(
+                Timesheet::where('status', 'submitted'),
+                \App\Models\Expense::where('status', 'submitted')
+            ));
         }
 
-        // Managers: only count entries from projects they manage, excluding their own
+        // Managers: only count entries from projects they manage, excluding their own.
+        // Projects delegated to the user by a manager on leave count as managed.
         $managedProjectIds = $user->getManagedProjectIds();
-
-        if (empty($managedProjectIds)) {
+        $timesheetProjectIds = array_values(array_unique(array_merge(
+            $managedProjectIds,
+            ApprovalDelegation::delegatedProjectIds($user, ApprovalDelegation::SCOPE_TIMESHEETS)
+        )));
+        $expenseProjectIds = array_values(array_unique(array_merge(
+            $managedProjectIds,
+            ApprovalDelegation::delegatedProjectIds($user, ApprovalDelegation::SCOPE_EXPENSES)
+        )));
+
+        if (empty($timesheetProjectIds) && empty($expenseProjectIds) && !$this->approvalWorkflow->signsRoleStep($user)) {
             return response()->json([
                 'timesheets' => 0,
                 'expenses' => 0,
-                'total' => 0
+                'total' => 0,
+                'overdue' => ['timesheets' => 0, 'expenses' => 0, 'total' => 0],
             ]);
         }
 
-        // Count submitted timesheets from managed projects (excluding own entries)
-        $timesheetsCount = Timesheet::where('status', 'submitted')
-            ->whereIn('project_id', $managedProjectIds)
+        // Count submitted timesheets waiting at a step the user signs (excluding own entries)
+        $timesheets = $this->approvalWorkflow
+            ->whereAwaiting(Timesheet::where('status', 'submitted'), $user, $timesheetProjectIds)
             ->whereHas('technician', function ($query) use ($user) {
                 $query->where('user_id', '!=', $user->id);
-            })
-            ->count();
+            });
 
         // Count submitted expenses from managed projects (excluding own entries)
-        $expensesCount = \App\Models\Expense::where('status', 'submitted')
-            ->whereIn('project_id', $managedProjectIds)
+        $expenses = \App\Models\Expense::where('status', 'submitted')
+            ->whereIn('project_id', $expenseProjectIds)
             ->whereHas('technician', function ($query) use ($user) {
                 $query->where('user_id', '!=', $user->id);
-            })
-            ->count();
+            });
 
-        return response()->json([
+        return response()->json($this->pendingCountsPayload($timesheets, $expenses));
+    }
+
+    /**
+     * Pending totals plus how many of them wait past the tenant's approval SLA.
+     */
+    private function pendingCountsPayload(Builder $timesheets, Builder $expenses): array
+    {
+        $timesheetsCount = (clone $timesheets)->count();
+        $expensesCount = (clone $expenses)->count();
+        $overdueTimesheets = $this->approvalSla->whereOverdue($timesheets)->count();
+        $overdueExpenses = $this->approvalSla->whereOverdue($expenses)->count();
+
+        return [
             'timesheets' => $timesheetsCount,
             'expenses' => $expensesCount,
-            'total' => $timesheetsCount + $expensesCount
-        ]);
+            'total' => $timesheetsCount + $expensesCount,
+            'overdue' => [
+                'timesheets' => $overdueTimesheets,
+                'expenses' => $overdueExpenses,
+                'total' => $overdueTimesheets + $overdueExpenses,
+            ],
+        ];
+    }
+
+    /**
+     * Technicians cannot add or move their own entries into a submitted/approved week.
+     * Admins are exempt, as they are for approved entries.
+     */
+    private function lockedWeekResponse(User $user, Technician $authTechnician, int $technicianId, string $date): ?JsonResponse
+    {
+        if ($technicianId !== (int) $authTechnician->id || $user->hasRole('Admin')) {
+            return null;
+        }
+
+        return TimesheetWeek::isLockedFor($technicianId, $date) ? $this->weekLockedJson() : null;
+    }
+
+    /**
+     * Same rule for an existing entry; the policy denies it too, this only gives a clearer error.
+     */
+    private function lockedEntryResponse(User $user, Timesheet $timesheet): ?JsonResponse
+    {
+        $isOwner = $timesheet->technician && $timesheet->technician->user_id === $user->id;
+        if (!$isOwner || $user->hasRole('Admin')) {
+            return null;
+        }
+
+        return TimesheetWeek::isLockedFor((int) $timesheet->technician_id, $timesheet->date)
+            ? $this->weekLockedJson()
+            : null;
+    }
+
+    /**
+     * Entries signed off by the site customer are frozen for everyone, Admins included, until
+     * the sign-off is voided.
+     */
+    private function signedEntryResponse(Timesheet $timesheet): ?JsonResponse
+    {
+        if (!$timesheet->isSignedOff()) {
+            return null;
+        }
+
+        return response()->json([
+            'error' => 'This entry was signed off by the customer and can no longer be changed. Ask an administrator to void the sign-off first.',
+            'code' => 'signed_off',
+        ], 423);
+    }
+
+    private function weekLockedJson(): JsonResponse
+    {
+        return response()->json([
+            'error' => 'This week has been submitted and is locked. Ask a manager to reject it before making changes.',
+            'code' => 'week_locked',
+        ], 423);
     }
 
     /**
@@ -0,0 +1,113 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Services\TimesheetImport\TimesheetImportService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+/**
+ * Bulk import of the caller's own timesheet history from CSV or .ics files. The files are read
+ * and mapped in the browser; these endpoints check the mapped rows and create the valid ones.
+ */
+final class TimesheetImportController extends Controller
+{
+    public function __construct(
+        private readonly TimesheetImportService $importer,
+    ) {
+    }
+
+    /**
+     * POST /api/timesheets/import/preview
+     * Per-row result (resolved entry, errors and warnings) without saving anything.
+     */
+    public function preview(Request $request): JsonResponse
+    {
+        $this->authorize('create', Timesheet::class);
+
+        $rows = $this->validatedRows($request);
+        /** @var User $user */
+        $user = $request->user();
+        $technician = $this->ownTechnician($user);
+        if (!$technician) {
+            return response()->json(['message' => 'Technician profile not found'], 404);
+        }
+
+        $results = $this->importer->preview($rows, $user, $technician);
+
+        return response()->json([
+            'data' => $results,
+            'summary' => $this->summary($results),
+        ]);
+    }
+
+    /**
+     * POST /api/timesheets/import
+     * Creates the valid rows as drafts; the invalid ones are returned for the rejection report.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $this->authorize('create', Timesheet::class);
+
+        $rows = $this->validatedRows($request);
+        /** @var User $user */
+        $user = $request->user();
+        $technician = $this->ownTechnician($user);
+        if (!$technician) {
+            return response()->json(['message' => 'Technician profile not found'], 404);
+        }
+
+        $outcome = $this->importer->import($rows, $user, $technician);
+
+        return response()->json([
+            'data' => $outcome['results'],
+            'created_ids' => $outcome['created_ids'],
+            'summary' => $this->summary($outcome['results']),
+        ], $outcome['created_ids'] === [] ? 200 : 201);
+    }
+
+    /**
+     * @return list<array<string, mixed>>
+     */
+    private function validatedRows(Request $request): array
+    {
+        $validated = $request->validate([
+            'source' => ['nullable', 'string', Rule::in(['csv', 'ics'])],
+            'rows' => ['required', 'array', 'min:1', 'max:' . TimesheetImportService::MAX_ROWS],
+            'rows.*.date' => ['nullable', 'string', 'max:32'],
+            'rows.*.start_time' => ['nullable', 'string', 'max:16'],
+            'rows.*.end_time' => ['nullable', 'string', 'max:16'],
+            'rows.*.project' => ['nullable', 'string', 'max:255'],
+            'rows.*.task' => ['nullable', 'string', 'max:255'],
+            'rows.*.location' => ['nullable', 'string', 'max:255'],
+            'rows.*.description' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        return array_values($validated['rows']);
+    }
+
+    /**
+     * @param list<array{valid: bool}> $results
+     * @return array{total: int, valid: int, invalid: int}
+     */
+    private function summary(array $results): array
+    {
+        $valid = count(array_filter($results, fn (array $result) => $result['valid']));
+
+        return ['total' => count($results), 'valid' => $valid, 'invalid' => count($results) - $valid];
+    }
+
+    private function ownTechnician(User $user): ?Technician
+    {
+        return $user->technician
+            ?? Technician::where('user_id', $user->id)->first()
+            ?? Technician::where('email', $user->email)->first();
+    }
+}
@@ -0,0 +1,305 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\TimesheetSignoff;
+use App\Models\User;
+use App\Services\Reports\TimesheetSignoffReport;
+use Carbon\CarbonImmutable;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Http\Response;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\ValidationException;
+
+/**
+ * Customer sign-off of field timesheets: on site, the customer signs a technician's entries of a
+ * day or week at one location. Signed entries are frozen (no edits or deletes, Admins included)
+ * until an Admin voids the sign-off, and the sign-off produces a PDF service report.
+ */
+final class TimesheetSignoffController extends Controller
+{
+    /** Largest accepted signature data URL, in characters (~375 KB of JPEG). */
+    private const MAX_SIGNATURE_LENGTH = 500000;
+
+    public function __construct(
+        private readonly TimesheetSignoffReport $report,
+    ) {
+    }
+
+    /**
+     * GET /api/timesheet-signoffs?from=&to=&technician_id=
+     * Sign-offs overlapping the range: the caller's own, plus those of the workers they manage
+     * (everyone for Admins).
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $this->authorize('viewAny', Timesheet::class);
+
+        $validated = $request->validate([
+            'from' => ['nullable', 'date'],
+            'to' => ['nullable', 'date', 'after_or_equal:from'],
+            'technician_id' => ['nullable', 'integer'],
+        ]);
+
+        /** @var User $user */
+        $user = $request->user();
+
+        $signoffs = TimesheetSignoff::with(['technician', 'location', 'timesheets:id,signoff_id'])
+            ->when($validated['from'] ?? null, fn (Builder $query, string $from) => $query->whereDate('period_end', '>=', $from))
+            ->when($validated['to'] ?? null, fn (Builder $query, string $to) => $query->whereDate('period_start', '<=', $to))
+            ->when($validated['technician_id'] ?? null, fn (Builder $query, $id) => $query->where('technician_id', (int) $id))
+            ->tap(fn (Builder $query) => $this->scopeVisible($query, $user))
+            ->orderByDesc('signed_at')
+            ->get();
+
+        return response()->json(['data' => $signoffs->map(fn (TimesheetSignoff $signoff) => $this->present($signoff))->values()]);
+    }
+
+    /**
+     * POST /api/timesheet-signoffs
+     * Signs off entries of one technician at one location, spanning at most a week.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'timesheet_ids' => ['required', 'array', 'min:1', 'max:200'],
+            'timesheet_ids.*' => ['integer', 'distinct'],
+            'signer_name' => ['required', 'string', 'max:120'],
+            'signer_email' => ['nullable', 'email', 'max:255'],
+            'signature' => ['required', 'string', 'max:' . self::MAX_SIGNATURE_LENGTH, 'regex:#^data:image/jpeg;base64,[A-Za-z0-9+/=]+$#'],
+            'notes' => ['nullable', 'string', 'max:1000'],
+        ]);
+
+        /** @var User $user */
+        $user = $request->user();
+
+        $timesheets = Timesheet::with('technician.user')->whereIn('id', $validated['timesheet_ids'])->get();
+        if ($timesheets->count() !== count($validated['timesheet_ids'])) {
+            return $this->invalid('timesheet_ids', 'Some of the selected entries no longer exist.');
+        }
+
+        if ($timesheets->pluck('technician_id')->unique()->count() > 1) {
+            return $this->invalid('timesheet_ids', 'A sign-off covers the entries of a single technician.');
+        }
+
+        $locationIds = $timesheets->pluck('location_id')->unique();
+        if ($locationIds->count() > 1 || $locationIds->first() === null) {
+            return $this->invalid('timesheet_ids', 'A sign-off covers the entries of a single location.');
+        }
+
+        if ($timesheets->contains(fn (Timesheet $timesheet) => $timesheet->isSignedOff())) {
+            return $this->invalid('timesheet_ids', 'Some of the selected entries are already signed off.');
+        }
+
+        $periodStart = CarbonImmutable::parse($timesheets->min(fn (Timesheet $timesheet) => $timesheet->date->toDateString()));
+        $periodEnd = CarbonImmutable::parse($timesheets->max(fn (Timesheet $timesheet) => $timesheet->date->toDateString()));
+        if ($periodStart->diffInDays($periodEnd) >= TimesheetSignoff::MAX_PERIOD_DAYS) {
+            return $this->invalid('timesheet_ids', 'A sign-off covers a day or a week of entries.');
+        }
+
+        $technician = $timesheets->first()->technician;
+        if (!$this->isOwn($user, $technician) && !$this->canManage($user, $technician)) {
+            return response()->json(['message' => 'You cannot collect a sign-off for this worker.'], 403);
+        }
+
+        $signoff = DB::connection('tenant')->transaction(function () use ($validated, $timesheets, $technician, $periodStart, $periodEnd, $user) {
+            $signoff = TimesheetSignoff::create([
+                'technician_id' => $technician->id,
+                'location_id' => $timesheets->first()->location_id,
+                'period_start' => $periodStart->toDateString(),
+                'period_end' => $periodEnd->toDateString(),
+                'total_hours' => round((float) $timesheets->sum('hours_worked'), 2),
+                'signer_name' => trim($validated['signer_name']),
+                'signer_email' => $validated['signer_email'] ?? null,
+                'signature' => $validated['signature'],
+                'notes' => $validated['notes'] ?? null,
+                'signed_by' => $user->id,
+                'signed_at' => now(),
+            ]);
+
+            // Guarded on signoff_id so a concurrent sign-off of the same entries cannot win twice;
+            // the loser rolls back and gets the same answer as for already signed-off entries.
+            $frozen = Timesheet::whereIn('id', $timesheets->pluck('id'))
+                ->whereNull('signoff_id')
+                ->update(['signoff_id' => $signoff->id]);
+
+            if ($frozen !== $timesheets->count()) {
+                throw ValidationException::withMessages([
+                    'timesheet_ids' => 'Some of the selected entries are already signed off.',
+                ]);
+            }
+
+            return $signoff;
+        });
+
+        return response()->json(['data' => $this->present($signoff->load(['technician', 'location', 'timesheets']), true)], 201);
+    }
+
+    /**
+     * GET /api/timesheet-signoffs/{signoff}
+     * The sign-off with its signature and signed entries.
+     */
+    public function show(Request $request, TimesheetSignoff $signoff): JsonResponse
+    {
+        if ($denied = $this->viewGuard($request->user(), $signoff)) {
+            return $denied;
+        }
+
+        $signoff->load(['technician', 'location', 'timesheets.project', 'timesheets.task', 'timesheets.location']);
+
+        return response()->json(['data' => $this->present($signoff, true)]);
+    }
+
+    /**
+     * GET /api/timesheet-signoffs/{signoff}/pdf
+     * Service report with the signed entries and the customer's signature.
+     */
+    public function pdf(Request $request, TimesheetSignoff $signoff): Response|JsonResponse
+    {
+        if ($denied = $this->viewGuard($request->user(), $signoff)) {
+            return $denied;
+        }
+
+        return response($this->report->render($signoff), 200, [
+            'Content-Type' => 'application/pdf',
+            'Content-Disposition' => 'attachment; filename="' . $this->report->filename($signoff) . '"',
+            'Cache-Control' => 'no-store, no-cache, must-revalidate',
+        ]);
+    }
+
+    /**
+     * DELETE /api/timesheet-signoffs/{signoff}
+     * Voids a sign-off and unfreezes its entries. Admins only.
+     */
+    public function destroy(Request $request, TimesheetSignoff $signoff): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+
+        if (!$user->hasRole('Admin')) {
+            return response()->json(['message' => 'Only administrators can void a customer sign-off.'], 403);
+        }
+
+        DB::connection('tenant')->transaction(function () use ($signoff) {
+            Timesheet::where('signoff_id', $signoff->id)->update(['signoff_id' => null]);
+            $signoff->delete();
+        });
+
+        return response()->json(['message' => 'Sign-off voided']);
+    }
+
+    private function viewGuard(User $user, TimesheetSignoff $signoff): ?JsonResponse
+    {
+        $signoff->loadMissing('technician.user');
+
+        if (!$this->isOwn($user, $signoff->technician) && !$this->canManage($user, $signoff->technician)) {
+            return response()->json(['message' => 'You cannot view this sign-off.'], 403);
+        }
+
+        return null;
+    }
+
+    private function invalid(string $field, string $message): JsonResponse
+    {
+        return response()->json(['message' => $message, 'errors' => [$field => [$message]]], 422);
+    }
+
+    private function ownTechnician(User $user): ?Technician
+    {
+        return $user->technician
+            ?? Technician::where('user_id', $user->id)->first()
+            ?? Technician::where('email', $user->email)->first();
+    }
+
+    private function isOwn(User $user, ?Technician $technician): bool
+    {
+        return $technician !== null
+            && ((int) $technician->user_id === (int) $user->id || (int) $this->ownTechnician($user)?->id === (int) $technician->id);
+    }
+
+    private function canManage(User $user, ?Technician $technician): bool
+    {
+        if ($technician === null) {
+            return false;
+        }
+
+        if ($user->hasRole('Admin')) {
+            return true;
+        }
+
+        $managedProjectIds = $user->hasPermissionTo('approve-timesheets') ? $user->getManagedProjectIds() : [];
+
+        return $technician->user
+            && !empty($managedProjectIds)
+            && $technician->user->projects()->whereIn('projects.id', $managedProjectIds)->exists();
+    }
+
+    /**
+     * Own sign-offs, plus those of workers in projects the user manages (all for Admins).
+     */
+    private function scopeVisible(Builder $query, User $user): void
+    {
+        if ($user->hasRole('Admin')) {
+            return;
+        }
+
+        $own = $this->ownTechnician($user);
+        $managedProjectIds = $user->hasPermissionTo('approve-timesheets') ? $user->getManagedProjectIds() : [];
+
+        $query->where(function (Builder $scoped) use ($own, $managedProjectIds) {
+            $scoped->where('technician_id', $own?->id ?? 0);
+
+            if (!empty($managedProjectIds)) {
+                $scoped->orWhereHas('technician.user.projects', function ($projects) use ($managedProjectIds) {
+                    $projects->whereIn('projects.id', $managedProjectIds);
+                });
+            }
+        });
+    }
+
+    private function present(TimesheetSignoff $signoff, bool $withDetails = false): array
+    {
+        $data = [
+            'id' => $signoff->id,
+            'technician_id' => $signoff->technician_id,
+            'technician' => $signoff->technician?->only(['id', 'name', 'email', 'user_id']),
+            'location_id' => $signoff->location_id,
+            'location' => $signoff->location?->only(['id', 'name', 'address', 'city']),
+            'period_start' => $signoff->period_start->toDateString(),
+            'period_end' => $signoff->period_end->toDateString(),
+            'total_hours' => (float) $signoff->total_hours,
+            'signer_name' => $signoff->signer_name,
+            'signer_email' => $signoff->signer_email,
+            'notes' => $signoff->notes,
+            'signed_by' => $signoff->signed_by,
+            'signed_at' => $signoff->signed_at->toIso8601String(),
+            'timesheet_ids' => $signoff->timesheets->pluck('id')->values(),
+        ];
+
+        if ($withDetails) {
+            $data['signature'] = $signoff->signature;
+            $data['entries'] = $signoff->timesheets
+                ->sortBy(fn (Timesheet $entry) => $entry->date->toDateString() . ' ' . $entry->start_time)
+                ->map(fn (Timesheet $entry) => [
+                    'id' => $entry->id,
+                    'date' => $entry->date->toDateString(),
+                    'start_time' => $entry->start_time,
+                    'end_time' => $entry->end_time,
+                    'hours_worked' => (float) $entry->hours_worked,
+                    'project_name' => $entry->project?->name,
+                    'task_name' => $entry->task?->name,
+                    'location_name' => $entry->location?->name,
+                ])
+                ->values();
+        }
+
+        return $data;
+    }
+}
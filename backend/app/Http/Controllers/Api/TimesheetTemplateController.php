@@ -0,0 +1,279 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\TimesheetTemplate;
+use App\Models\User;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Personal entry templates and favourite project/task/location combinations, plus the
+ * combinations the user logged most recently, for one-click entry in the calendar and AI chat.
+ *
+ * Templates are checked on every read: once their task is deactivated or the user leaves the
+ * project they are returned with valid=false and cannot be saved again until fixed.
+ */
+final class TimesheetTemplateController extends Controller
+{
+    private const MAX_TEMPLATES_PER_USER = 50;
+    private const RECENT_LIMIT = 6;
+    private const RECENT_SCAN = 100;
+
+    /**
+     * GET /api/timesheet-templates
+     * The caller's templates, favourites first.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $memberProjectIds = $this->memberProjectIds($user);
+
+        $templates = TimesheetTemplate::with(['project:id,name', 'task:id,name,project_id,is_active', 'location:id,name'])
+            ->where('user_id', $user->id)
+            ->orderByDesc('is_favourite')
+            ->orderByRaw('last_used_at IS NULL')
+            ->orderByDesc('last_used_at')
+            ->orderBy('name')
+            ->get();
+
+        return response()->json([
+            'data' => $templates->map(fn (TimesheetTemplate $template) => $this->present($template, $memberProjectIds))->values(),
+        ]);
+    }
+
+    /**
+     * GET /api/timesheet-templates/recent
+     * Distinct project/task/location combinations of the caller's latest entries that can still
+     * be used, most recent first.
+     */
+    public function recent(Request $request): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $technician = $this->ownTechnician($user);
+        if (!$technician) {
+            return response()->json(['data' => []]);
+        }
+
+        $memberProjectIds = $this->memberProjectIds($user);
+
+        $combos = Timesheet::with(['project:id,name', 'task:id,name,project_id,is_active', 'location:id,name'])
+            ->where('technician_id', $technician->id)
+            ->whereNotNull('task_id')
+            ->orderByDesc('date')
+            ->orderByDesc('id')
+            ->limit(self::RECENT_SCAN)
+            ->get()
+            ->filter(fn (Timesheet $entry) => in_array((int) $entry->project_id, $memberProjectIds, true)
+                && $entry->task
+                && $entry->task->is_active)
+            ->unique(fn (Timesheet $entry) => $entry->project_id . ':' . $entry->task_id . ':' . ($entry->location_id ?? 0))
+            ->take(self::RECENT_LIMIT)
+            ->map(fn (Timesheet $entry) => [
+                'project_id' => $entry->project_id,
+                'project_name' => $entry->project?->name,
+                'task_id' => $entry->task_id,
+                'task_name' => $entry->task?->name,
+                'location_id' => $entry->location_id,
+                'location_name' => $entry->location?->name,
+                'start_time' => $this->formatTime($entry->start_time),
+                'end_time' => $this->formatTime($entry->end_time),
+                'last_used_on' => $entry->date->toDateString(),
+            ])
+            ->values();
+
+        return response()->json(['data' => $combos]);
+    }
+
+    /**
+     * POST /api/timesheet-templates
+     */
+    public function store(Request $request): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        $validated = $request->validate($this->rules());
+
+        if (TimesheetTemplate::where('user_id', $user->id)->count() >= self::MAX_TEMPLATES_PER_USER) {
+            return $this->invalid('name', sprintf('You can keep at most %d templates.', self::MAX_TEMPLATES_PER_USER));
+        }
+
+        if ($response = $this->usabilityGuard($user, (int) $validated['project_id'], (int) $validated['task_id'])) {
+            return $response;
+        }
+
+        $template = TimesheetTemplate::create([
+            'user_id' => $user->id,
+            'name' => trim($validated['name']),
+            'project_id' => $validated['project_id'],
+            'task_id' => $validated['task_id'],
+            'location_id' => $validated['location_id'] ?? null,
+            'start_time' => $validated['start_time'] ?? null,
+            'end_time' => $validated['end_time'] ?? null,
+            'description' => $validated['description'] ?? null,
+            'is_favourite' => (bool) ($validated['is_favourite'] ?? false),
+        ]);
+
+        return response()->json(['data' => $this->presentFresh($template, $user)], 201);
+    }
+
+    /**
+     * PUT /api/timesheet-templates/{template}
+     */
+    public function update(Request $request, TimesheetTemplate $template): JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+        if ((int) $template->user_id !== (int) $user->id) {
+            return response()->json(['message' => 'Template not found'], 404);
+        }
+
+        $validated = $request->validate($this->rules(partial: true));
+
+        $projectId = (int) ($validated['project_id'] ?? $template->project_id);
+        $taskId = (int) ($validated['task_id'] ?? $template->task_id);
+        if ($response = $this->usabilityGuard($user, $projectId, $taskId)) {
+            return $response;
+        }
+
+        if (isset($validated['name'])) {
+            $validated['name'] = trim($validated['name']);
+        }
+
+        $template->update($validated);
+
+        return response()->json(['data' => $this->presentFresh($template, $user)]);
+    }
+
+    /**
+     * POST /api/timesheet-templates/{template}/use
+     * Records that the template was applied, so the most used ones come first.
+     */
+    public function use(Request $request, TimesheetTemplate $template): JsonResponse
+    {
+        if ((int) $template->user_id !== (int) $request->user()->id) {
+            return response()->json(['message' => 'Template not found'], 404);
+        }
+
+        $template->forceFill(['last_used_at' => now()])->save();
+
+        return response()->json(['data' => $this->presentFresh($template, $request->user())]);
+    }
+
+    /**
+     * DELETE /api/timesheet-templates/{template}
+     */
+    public function destroy(Request $request, TimesheetTemplate $template): JsonResponse
+    {
+        if ((int) $template->user_id !== (int) $request->user()->id) {
+            return response()->json(['message' => 'Template not found'], 404);
+        }
+
+        $template->delete();
+
+        return response()->json(['message' => 'Template deleted']);
+    }
+
+    /**
+     * @return array<string, array<int, string>>
+     */
+    private function rules(bool $partial = false): array
+    {
+        $required = $partial ? 'sometimes' : 'required';
+
+        return [
+            'name' => [$required, 'string', 'max:120'],
+            'project_id' => [$required, 'integer', 'exists:projects,id'],
+            'task_id' => [$required, 'integer', 'exists:tasks,id'],
+            'location_id' => ['nullable', 'integer', 'exists:locations,id'],
+            'start_time' => ['nullable', 'date_format:H:i'],
+            'end_time' => ['nullable', 'date_format:H:i'],
+            'description' => ['nullable', 'string', 'max:1000'],
+            'is_favourite' => ['sometimes', 'boolean'],
+        ];
+    }
+
+    private function usabilityGuard(User $user, int $projectId, int $taskId): ?JsonResponse
+    {
+        if (!in_array($projectId, $this->memberProjectIds($user), true)) {
+            return $this->invalid('project_id', 'You are not a member of this project.');
+        }
+
+        $task = Task::find($taskId);
+        if (!$task || (int) $task->project_id !== $projectId) {
+            return $this->invalid('task_id', 'The task does not belong to the project.');
+        }
+
+        if (!$task->is_active) {
+            return $this->invalid('task_id', 'The task is no longer active.');
+        }
+
+        return null;
+    }
+
+    private function invalid(string $field, string $message): JsonResponse
+    {
+        return response()->json(['message' => $message, 'errors' => [$field => [$message]]], 422);
+    }
+
+    /**
+     * @return array<int,int>
+     */
+    private function memberProjectIds(User $user): array
+    {
+        return $user->projects()->pluck('projects.id')->map(fn ($id) => (int) $id)->all();
+    }
+
+    private function ownTechnician(User $user): ?Technician
+    {
+        return $user->technician
+            ?? Technician::where('user_id', $user->id)->first()
+            ?? Technician::where('email', $user->email)->first();
+    }
+
+    private function formatTime(mixed $value): ?string
+    {
+        return $value ? substr((string) $value, 0, 5) : null;
+    }
+
+    private function presentFresh(TimesheetTemplate $template, User $user): array
+    {
+        $template->load(['project:id,name', 'task:id,name,project_id,is_active', 'location:id,name']);
+
+        return $this->present($template, $this->memberProjectIds($user));
+    }
+
+    /**
+     * @param array<int,int> $memberProjectIds
+     */
+    private function present(TimesheetTemplate $template, array $memberProjectIds): array
+    {
+        $invalidReason = $template->invalidReason($memberProjectIds);
+
+        return [
+            'id' => $template->id,
+            'name' => $template->name,
+            'project_id' => $template->project_id,
+            'project_name' => $template->project?->name,
+            'task_id' => $template->task_id,
+            'task_name' => $template->task?->name,
+            'location_id' => $template->location_id,
+            'location_name' => $template->location?->name,
+            'start_time' => $this->formatTime($template->start_time),
+            'end_time' => $this->formatTime($template->end_time),
+            'description' => $template->description,
+            'is_favourite' => $template->is_favourite,
+            'last_used_at' => $template->last_used_at?->toIso8601String(),
+            'valid' => $invalidReason === null,
+            'invalid_reason' => $invalidReason,
+        ];
+    }
+}
@@ -0,0 +1,437 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Models\Technician;
+use App\Models\Tenant;
+use App\Models\Timesheet;
+use App\Models\TimesheetWeek;
+use App\Models\User;
+use App\Policies\TimesheetPolicy;
+use App\Services\Compliance\WorkweekCalculator;
+use App\Services\TimesheetApproval\TimesheetApprovalWorkflow;
+use App\Services\TimesheetValidation\WeekSubmissionValidator;
+use App\Tenancy\TenantContext;
+use Carbon\CarbonImmutable;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Gate;
+
+/**
+ * Week-based submission: a technician submits every draft of a workweek at once, and a
+ * manager approves or rejects the whole technician-week. Submitted/approved weeks are locked
+ * for the technician (see TimesheetWeek).
+ */
+final class TimesheetWeekController extends Controller
+{
+    public function __construct(
+        private readonly WorkweekCalculator $workweekCalculator,
+        private readonly WeekSubmissionValidator $validator,
+        private readonly TimesheetApprovalWorkflow $approvalWorkflow,
+    ) {
+    }
+
+    /**
+     * GET /api/timesheets/weeks/status?date=&technician_id=
+     */
+    public function status(Request $request): JsonResponse
+    {
+        $this->authorize('viewAny', Timesheet::class);
+
+        $technician = $this->resolveTechnician($request);
+        if ($technician instanceof JsonResponse) {
+            return $technician;
+        }
+
+        $period = $this->periodFor($request->input('date'));
+
+        return response()->json($this->statusPayload($technician, $period));
+    }
+
+    /**
+     * POST /api/timesheets/weeks/submit
+     * Validates the whole week and submits all drafts (and rejected entries) atomically.
+     */
+    public function submit(Request $request): JsonResponse
+    {
+        $request->validate([
+            'date' => ['required', 'date'],
+            'technician_id' => ['nullable', 'integer', 'exists:technicians,id'],
+        ]);
+
+        $technician = $this->resolveTechnician($request);
+        if ($technician instanceof JsonResponse) {
+            return $technician;
+        }
+
+        $period = $this->periodFor($request->input('date'));
+        $week = $this->findWeek($technician, $period);
+
+        if ($week?->isLocked()) {
+            return response()->json([
+                'message' => 'This week has already been submitted.',
+            ], 409);
+        }
+
+        $timesheets = $this->weekTimesheets($technician, $period);
+        $submittable = $timesheets->filter(fn (Timesheet $timesheet) => $timesheet->canBeSubmitted());
+
+        if ($submittable->isEmpty()) {
+            return response()->json([
+                'message' => 'There are no draft entries to submit for this week.',
+            ], 422);
+        }
+
+        $issues = $this->validator->validate($timesheets->where('status', '!=', 'closed')->values());
+        if (!empty($issues)) {
+            return response()->json([
+                'message' => 'The week has validation issues. Fix them before submitting.',
+                'issues' => $issues,
+            ], 422);
+        }
+
+        foreach ($submittable as $timesheet) {
+            $this->authorize('submit', $timesheet);
+        }
+
+        $user = $request->user();
+
+        DB::connection('tenant')->transaction(function () use ($submittable, $technician, $period, $user) {
+            foreach ($submittable as $timesheet) {
+                $timesheet->submit();
+            }
+
+            TimesheetWeek::updateOrCreate(
+                [
+                    'technician_id' => $technician->id,
+                    'week_start' => $period['start']->toDateString(),
+                ],
+                [
+                    'week_end' => $period['end']->toDateString(),
+                    'status' => 'submitted',
+                    'submitted_by' => $user->id,
+                    'submitted_at' => now(),
+                    'reviewed_by' => null,
+                    'reviewed_at' => null,
+                    'rejection_reason' => null,
+                ]
+            );
+        });
+
+        // Entries covered by the auto-approve rule skip review; a fully covered week is approved
+        $autoApproved = $submittable->filter(fn (Timesheet $timesheet) => $this->approvalWorkflow->autoApprove($timesheet));
+        if ($autoApproved->isNotEmpty() && $this->weekTimesheets($technician, $period)->where('status', 'submitted')->isEmpty()) {
+            $this->findWeek($technician, $period)?->update([
+                'status' => 'approved',
+                'reviewed_at' => now(),
+            ]);
+        }
+
+        return response()->json([
+            ...$this->statusPayload($technician, $period),
+            'submitted_count' => $submittable->count(),
+            'auto_approved_count' => $autoApproved->count(),
+        ]);
+    }
+
+    /**
+     * GET /api/timesheets/weeks/pending
+     * Submitted weeks the user may review. Own weeks are excluded to prevent self-approval.
+     */
+    public function pending(Request $request): JsonResponse
+    {
+        $this->authorize('approve', Timesheet::class);
+
+        /** @var User $user */
+        $user = $request->user();
+        $isAdmin = $user->hasRole('Admin');
+        $managedProjectIds = $isAdmin ? [] : $user->getManagedProjectIds();
+
+        if (!$isAdmin && empty($managedProjectIds) && !$this->approvalWorkflow->signsRoleStep($user)) {
+            return response()->json(['data' => []]);
+        }
+
+        $weeks = TimesheetWeek::with('technician')
+            ->where('status', 'submitted')
+            ->whereHas('technician', function ($query) use ($user) {
+                $query->whereNull('user_id')->orWhere('user_id', '!=', $user->id);
+            })
+            ->orderBy('week_start')
+            ->get();
+
+        $rows = [];
+        foreach ($weeks as $week) {
+            $timesheets = $this->weekTimesheets($week->technician, [
+                'start' => CarbonImmutable::parse($week->week_start),
+                'end' => CarbonImmutable::parse($week->week_end),
+            ])->where('status', 'submitted');
+
+            // Weeks show to whoever signs the approval step at least one entry waits at
+            if (!$isAdmin && $timesheets->doesntContain(fn (Timesheet $timesheet) => $user->can('approve', $timesheet))) {
+                continue;
+            }
+
+            $rows[] = [
+                'id' => $week->id,
+                'technician' => $week->technician?->only(['id', 'name', 'email']),
+                'week_start' => $week->week_start->toDateString(),
+                'week_end' => $week->week_end->toDateString(),
+                'submitted_at' => $week->submitted_at?->toIso8601String(),
+                'entry_count' => $timesheets->count(),
+                'total_hours' => round((float) $timesheets->sum('hours_worked'), 2),
+                'projects' => $timesheets->pluck('project.name')->filter()->unique()->values(),
+                'can_review' => $timesheets->every(fn (Timesheet $timesheet) => $user->can('approve', $timesheet)),
+            ];
+        }
+
+        return response()->json(['data' => $rows]);
+    }
+
+    /**
+     * PUT /api/timesheets/weeks/{timesheetWeek}/approve
+     */
+    public function approve(Request $request, TimesheetWeek $timesheetWeek): JsonResponse
+    {
+        $this->authorize('approve', Timesheet::class);
+
+        if ($timesheetWeek->status !== 'submitted') {
+            return response()->json([
+                'message' => 'Only submitted weeks can be approved.',
+            ], 422);
+        }
+
+        $entries = $this->weekTimesheets($timesheetWeek->technician, $this->periodOf($timesheetWeek));
+        $timesheets = $entries->where('status', 'submitted');
+
+        // Entries approved one at a time (or automatically) leave only the week itself to close
+        if ($timesheets->isEmpty()) {
+            if ($entries->isEmpty() || $entries->contains(fn (Timesheet $timesheet) => !in_array($timesheet->status, ['approved', 'closed'], true))) {
+                return response()->json([
+                    'message' => 'This week has no entries waiting for approval.',
+                ], 422);
+            }
+
+            if ($timesheetWeek->technician->user_id === $request->user()->id
+                || !$this->canActOnAll($request->user(), 'approveWeek', $entries)) {
+                return response()->json([
+                    'message' => 'You can only approve weeks where you can approve every entry.',
+                ], 403);
+            }
+
+            $timesheetWeek->update([
+                'status' => 'approved',
+                'reviewed_by' => $request->user()->id,
+                'reviewed_at' => now(),
+                'rejection_reason' => null,
+            ]);
+
+            return response()->json([
+                ...$this->statusPayload($timesheetWeek->technician, $this->periodOf($timesheetWeek)),
+                'approved_count' => 0,
+                'advanced_count' => 0,
+            ]);
+        }
+
+        if (!$this->canActOnAll($request->user(), 'approve', $timesheets)) {
+            return response()->json([
+                'message' => 'You can only approve weeks where you can approve every entry.',
+            ], 403);
+        }
+
+        $approvedCount = DB::connection('tenant')->transaction(function () use ($timesheets, $timesheetWeek, $request) {
+            $policy = app(TimesheetPolicy::class);
+            $approved = 0;
+            foreach ($timesheets as $timesheet) {
+                $onBehalfOf = $policy->onBehalfOf($request->user(), $timesheet);
+                $approved += $this->approvalWorkflow->approve($timesheet, $onBehalfOf) ? 1 : 0;
+            }
+
+            // Entries moved on to a later approval step keep the week submitted
+            if ($approved === $timesheets->count()) {
+                $timesheetWeek->update([
+                    'status' => 'approved',
+                    'reviewed_by' => $request->user()->id,
+                    'reviewed_at' => now(),
+                    'rejection_reason' => null,
+                ]);
+            }
+
+            return $approved;
+        });
+
+        return response()->json([
+            ...$this->statusPayload($timesheetWeek->technician, $this->periodOf($timesheetWeek)),
+            'approved_count' => $approvedCount,
+            'advanced_count' => $timesheets->count() - $approvedCount,
+        ]);
+    }
+
+    /**
+     * PUT /api/timesheets/weeks/{timesheetWeek}/reject
+     * Rejecting unlocks the week so the technician can fix and resubmit it.
+     */
+    public function reject(Request $request, TimesheetWeek $timesheetWeek): JsonResponse
+    {
+        $this->authorize('approve', Timesheet::class);
+
+        $validated = $request->validate([
+            'reason' => ['required', 'string', 'max:1000'],
+        ]);
+
+        if (!$timesheetWeek->isLocked()) {
+            return response()->json([
+                'message' => 'Only submitted or approved weeks can be rejected.',
+            ], 422);
+        }
+
+        $timesheets = $this->weekTimesheets($timesheetWeek->technician, $this->periodOf($timesheetWeek))
+            ->whereIn('status', ['submitted', 'approved']);
+
+        if (!$this->canActOnAll($request->user(), 'reject', $timesheets)) {
+            return response()->json([
+                'message' => 'You can only reject weeks where you can reject every entry.',
+            ], 403);
+        }
+
+        DB::connection('tenant')->transaction(function () use ($timesheets, $timesheetWeek, $request, $validated) {
+            $policy = app(TimesheetPolicy::class);
+            foreach ($timesheets as $timesheet) {
+                $timesheet->reject($validated['reason'], $policy->onBehalfOf($request->user(), $timesheet));
+            }
+
+            $timesheetWeek->update([
+                'status' => 'rejected',
+                'reviewed_by' => $request->user()->id,
+                'reviewed_at' => now(),
+                'rejection_reason' => $validated['reason'],
+            ]);
+        });
+
+        return response()->json([
+            ...$this->statusPayload($timesheetWeek->technician, $this->periodOf($timesheetWeek)),
+            'rejected_count' => $timesheets->count(),
+        ]);
+    }
+
+    /**
+     * The caller's own technician, or the requested one when the caller is an Admin or manages
+     * a project the technician belongs to.
+     */
+    private function resolveTechnician(Request $request): Technician|JsonResponse
+    {
+        /** @var User $user */
+        $user = $request->user();
+
+        $own = $user->technician
+            ?? Technician::where('user_id', $user->id)->first()
+            ?? Technician::where('email', $user->email)->first();
+
+        $requestedId = (int) $request->input('technician_id', 0);
+
+        if ($requestedId === 0 || ($own && $requestedId === (int) $own->id)) {
+            return $own ?? response()->json(['error' => 'Technician profile not found'], 404);
+        }
+
+        $technician = Technician::with('user')->find($requestedId);
+        if (!$technician) {
+            return response()->json(['error' => 'Worker not found'], 404);
+        }
+
+        if ($user->hasRole('Admin')) {
+            return $technician;
+        }
+
+        $managedProjectIds = $user->getManagedProjectIds();
+        $isManagedMember = $technician->user
+            && !empty($managedProjectIds)
+            && $technician->user->projects()->whereIn('projects.id', $managedProjectIds)->exists();
+
+        return $isManagedMember
+            ? $technician
+            : response()->json(['error' => 'You cannot manage this worker\'s weeks.'], 403);
+    }
+
+    /**
+     * @return array{start: CarbonImmutable, end: CarbonImmutable}
+     */
+    private function periodFor(?string $date): array
+    {
+        $context = app(TenantContext::class);
+        $day = $date
+            ? CarbonImmutable::parse($date, $context->timezone)
+            : CarbonImmutable::now($context->timezone);
+
+        return $this->workweekCalculator->periodForDate(app(Tenant::class), $context, $day);
+    }
+
+    /**
+     * @return array{start: CarbonImmutable, end: CarbonImmutable}
+     */
+    private function periodOf(TimesheetWeek $week): array
+    {
+        return [
+            'start' => CarbonImmutable::parse($week->week_start),
+            'end' => CarbonImmutable::parse($week->week_end),
+        ];
+    }
+
+    private function findWeek(Technician $technician, array $period): ?TimesheetWeek
+    {
+        return TimesheetWeek::where('technician_id', $technician->id)
+            ->whereDate('week_start', $period['start']->toDateString())
+            ->first();
+    }
+
+    /**
+     * @return Collection<int, Timesheet>
+     */
+    private function weekTimesheets(Technician $technician, array $period): Collection
+    {
+        return Timesheet::with(['technician.user', 'project.memberRecords'])
+            ->where('technician_id', $technician->id)
+            ->whereDate('date', '>=', $period['start']->toDateString())
+            ->whereDate('date', '<=', $period['end']->toDateString())
+            ->orderBy('date')
+            ->orderBy('start_time')
+            ->get();
+    }
+
+    /**
+     * @param Collection<int, Timesheet> $timesheets
+     */
+    private function canActOnAll(User $user, string $ability, Collection $timesheets): bool
+    {
+        return $timesheets->isNotEmpty()
+            && $timesheets->every(fn (Timesheet $timesheet) => Gate::forUser($user)->allows($ability, $timesheet));
+    }
+
+    private function statusPayload(Technician $technician, array $period): array
+    {
+        $week = $this->findWeek($technician, $period);
+        $timesheets = $this->weekTimesheets($technician, $period);
+
+        $counts = ['draft' => 0, 'submitted' => 0, 'approved' => 0, 'rejected' => 0, 'closed' => 0];
+        foreach ($timesheets->countBy('status') as $status => $count) {
+            $counts[$status] = $count;
+        }
+
+        return [
+            'technician_id' => $technician->id,
+            'week_start' => $period['start']->toDateString(),
+            'week_end' => $period['end']->toDateString(),
+            'status' => $week?->status ?? 'open',
+            'locked' => (bool) $week?->isLocked(),
+            'week_id' => $week?->id,
+            'rejection_reason' => $week?->rejection_reason,
+            'submitted_at' => $week?->submitted_at?->toIso8601String(),
+            'reviewed_at' => $week?->reviewed_at?->toIso8601String(),
+            'counts' => $counts,
+            'total_hours' => round((float) $timesheets->sum('hours_worked'), 2),
+        ];
+    }
+}
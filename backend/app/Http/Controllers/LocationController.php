@@ -39,6 +39,7 @@ public function store(Request $request): JsonResponse
             'postal_code' => 'nullable|string|max:50',
             'latitude' => 'nullable|numeric|between:-90,90',
             'longitude' => 'nullable|numeric|between:-180,180',
+            'timezone' => 'nullable|timezone',
             'asset_id' => 'nullable|integer',
             'oem_id' => 'nullable|integer',
             'is_active' => 'boolean'
@@ -106,6 +107,7 @@ public function update(Request $request, Location $location): JsonResponse
             'postal_code' => 'nullable|string|max:50',
             'latitude' => 'nullable|numeric|between:-90,90',
             'longitude' => 'nullable|numeric|between:-180,180',
+            'timezone' => 'nullable|timezone',
             'asset_id' => 'nullable|integer',
             'oem_id' => 'nullable|integer',
             'is_active' => 'boolean'
@@ -183,7 +185,7 @@ public function destroy(Location $location): JsonResponse
     public function active(): JsonResponse
     {
         $locations = Location::where('is_active', true)
-            ->select('id', 'name', 'address', 'city', 'country', 'country_id', 'latitude', 'longitude')
+            ->select('id', 'name', 'address', 'city', 'country', 'country_id', 'latitude', 'longitude', 'timezone')
             ->orderBy('name')
             ->get();
 
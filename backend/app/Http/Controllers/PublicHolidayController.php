@@ -0,0 +1,160 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Controllers;
+
+use App\Models\Country;
+use App\Models\PublicHoliday;
+use App\Services\Holidays\IcsHolidayParser;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+/**
+ * Public holiday calendars of countries. Holidays apply to the technicians whose contract
+ * country matches (see App\Services\Holidays\HolidayCalendar).
+ */
+final class PublicHolidayController extends Controller
+{
+    public function __construct()
+    {
+        // Read routes feed the timesheet calendar of every user
+        $this->middleware('throttle:read')->only(['index', 'range']);
+
+        // Write routes reuse the country permission (no new access model)
+        $this->middleware(['permission:manage-locations', 'throttle:create'])->only(['store', 'import']);
+        $this->middleware(['permission:manage-locations', 'throttle:edit'])->only(['update']);
+        $this->middleware(['permission:manage-locations', 'throttle:delete'])->only(['destroy']);
+    }
+
+    /**
+     * GET /api/countries/{country}/holidays?year=
+     */
+    public function index(Request $request, Country $country): JsonResponse
+    {
+        $validated = $request->validate([
+            'year' => ['nullable', 'integer', 'min:1900', 'max:2200'],
+        ]);
+
+        $holidays = $country->holidays()
+            ->when($validated['year'] ?? null, fn ($query, $year) => $query->whereYear('date', (int) $year))
+            ->orderBy('date')
+            ->get()
+            ->each(fn (PublicHoliday $holiday) => $holiday->setRelation('country', $country));
+
+        return response()->json(['data' => $holidays->map(fn (PublicHoliday $holiday) => $this->present($holiday))->values()]);
+    }
+
+    /**
+     * GET /api/public-holidays?from=&to=
+     * Holidays of every country in the range, for the calendar to match against contract countries.
+     */
+    public function range(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'from' => ['required', 'date'],
+            'to' => ['required', 'date', 'after_or_equal:from'],
+        ]);
+
+        $holidays = PublicHoliday::with('country')
+            ->between($validated['from'], $validated['to'])
+            ->orderBy('date')
+            ->get();
+
+        return response()->json(['data' => $holidays->map(fn (PublicHoliday $holiday) => $this->present($holiday))->values()]);
+    }
+
+    public function store(Request $request, Country $country): JsonResponse
+    {
+        $validated = $request->validate($this->rules($country));
+
+        $holiday = $country->holidays()->create([
+            'date' => $validated['date'],
+            'name' => trim($validated['name']),
+        ]);
+
+        return response()->json(['data' => $this->present($holiday)], 201);
+    }
+
+    public function update(Request $request, Country $country, PublicHoliday $holiday): JsonResponse
+    {
+        $validated = $request->validate($this->rules($country, $holiday));
+
+        $holiday->update([
+            'date' => $validated['date'],
+            'name' => trim($validated['name']),
+        ]);
+
+        return response()->json(['data' => $this->present($holiday)]);
+    }
+
+    public function destroy(Country $country, PublicHoliday $holiday): JsonResponse
+    {
+        $holiday->delete();
+
+        return response()->json(['success' => true]);
+    }
+
+    /**
+     * POST /api/countries/{country}/holidays/import (multipart: file)
+     * Adds the holidays of an .ics file; dates already in the calendar get the imported name.
+     */
+    public function import(Request $request, Country $country, IcsHolidayParser $parser): JsonResponse
+    {
+        $request->validate([
+            'file' => ['required', 'file', 'max:1024'],
+        ]);
+
+        $parsed = $parser->parse((string) file_get_contents($request->file('file')->getRealPath()));
+
+        if ($parsed === []) {
+            return response()->json([
+                'message' => 'No holidays were found in the file.',
+                'errors' => ['file' => ['No holidays were found in the file.']],
+            ], 422);
+        }
+
+        $created = 0;
+        $updated = 0;
+        foreach ($parsed as $entry) {
+            $holiday = $country->holidays()->whereDate('date', $entry['date'])->first();
+
+            if ($holiday) {
+                $holiday->update(['name' => $entry['name']]);
+                $updated++;
+                continue;
+            }
+
+            $country->holidays()->create($entry);
+            $created++;
+        }
+
+        return response()->json([
+            'created' => $created,
+            'updated' => $updated,
+        ]);
+    }
+
+    private function rules(Country $country, ?PublicHoliday $holiday = null): array
+    {
+        $unique = Rule::unique('public_holidays', 'date')->where('country_id', $country->id);
+
+        return [
+            'date' => ['required', 'date_format:Y-m-d', $holiday ? $unique->ignore($holiday->id) : $unique],
+            'name' => ['required', 'string', 'max:255'],
+        ];
+    }
+
+    private function present(PublicHoliday $holiday): array
+    {
+        return [
+            'id' => $holiday->id,
+            'country_id' => $holiday->country_id,
+            'country_iso2' => $holiday->country?->iso2,
+            'country_name' => $holiday->country?->name,
+            'date' => $holiday->date->toDateString(),
+            'name' => $holiday->name,
+        ];
+    }
+}
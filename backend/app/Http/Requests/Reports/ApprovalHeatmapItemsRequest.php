@@ -0,0 +1,60 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Http\Requests\Reports;
+
+use App\Services\Reports\ApprovalReports;
+use Carbon\Carbon;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Validator;
+
+/**
+ * Drill-down of one approvals heatmap cell: a bucket's range, optionally narrowed to one
+ * breakdown row (group).
+ */
+final class ApprovalHeatmapItemsRequest extends FormRequest
+{
+    public function authorize(): bool
+    {
+        // Authorization is enforced by middleware + controller policy checks.
+        return true;
+    }
+
+    public function rules(): array
+    {
+        return [
+            'range' => ['required', 'array'],
+            'range.from' => ['required', 'date_format:Y-m-d'],
+            'range.to' => ['required', 'date_format:Y-m-d'],
+            'include' => ['required', 'array'],
+            'include.timesheets' => ['required', 'boolean'],
+            'include.expenses' => ['required', 'boolean'],
+            'group' => ['sometimes', 'nullable', 'string', 'regex:/^(project:\d+|user:\d+|awaiting|unassigned)$/'],
+        ];
+    }
+
+    public function withValidator(Validator $validator): void
+    {
+        $validator->after(function (Validator $validator): void {
+            $data = (array) $this->all();
+
+            try {
+                $fromDate = Carbon::createFromFormat('Y-m-d', (string) ($data['range']['from'] ?? ''))->startOfDay();
+                $toDate = Carbon::createFromFormat('Y-m-d', (string) ($data['range']['to'] ?? ''))->startOfDay();
+            } catch (\Throwable) {
+                return;
+            }
+
+            if ($fromDate->greaterThan($toDate)) {
+                $validator->errors()->add('range', 'range.from must be less than or equal to range.to');
+            } elseif ((int) $fromDate->diffInDays($toDate) + 1 > ApprovalReports::MAX_RANGE_DAYS) {
+                $validator->errors()->add('range', 'range must be at most ' . ApprovalReports::MAX_RANGE_DAYS . ' days');
+            }
+
+            if (($data['include']['timesheets'] ?? false) !== true && ($data['include']['expenses'] ?? false) !== true) {
+                $validator->errors()->add('include', 'At least one include.* must be true');
+            }
+        });
+    }
+}
@@ -4,8 +4,10 @@
 
 namespace App\Http\Requests\Reports;
 
+use App\Services\Reports\ApprovalReports;
 use Carbon\Carbon;
 use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
 use Illuminate\Validation\Validator;
 
 final class ApprovalHeatmapRequest extends FormRequest
@@ -25,6 +27,16 @@ public function rules(): array
             'include' => ['required', 'array'],
             'include.timesheets' => ['required', 'boolean'],
             'include.expenses' => ['required', 'boolean'],
+            'granularity' => ['sometimes', 'string', Rule::in([
+                ApprovalReports::GRANULARITY_AUTO,
+                ApprovalReports::GRANULARITY_DAY,
+                ApprovalReports::GRANULARITY_WEEK,
+                ApprovalReports::GRANULARITY_MONTH,
+            ])],
+            'breakdown' => ['sometimes', 'nullable', 'string', Rule::in([
+                ApprovalReports::BREAKDOWN_PROJECT,
+                ApprovalReports::BREAKDOWN_APPROVER,
+            ])],
         ];
     }
 
@@ -52,10 +64,12 @@ public function withValidator(Validator $validator): void
                 return;
             }
 
-            // Max 62 days (inclusive)
-            $days = $fromDate->diffInDays($toDate) + 1;
-            if ($days > 62) {
-                $validator->errors()->add('range', 'range must be at most 62 days');
+            // Max one year (inclusive); daily buckets only up to 62 days
+            $days = (int) $fromDate->diffInDays($toDate) + 1;
+            if ($days > ApprovalReports::MAX_RANGE_DAYS) {
+                $validator->errors()->add('range', 'range must be at most ' . ApprovalReports::MAX_RANGE_DAYS . ' days');
+            } elseif (($data['granularity'] ?? null) === ApprovalReports::GRANULARITY_DAY && $days > ApprovalReports::MAX_DAILY_DAYS) {
+                $validator->errors()->add('granularity', 'daily granularity supports at most ' . ApprovalReports::MAX_DAILY_DAYS . ' days');
             }
 
             $includeTimesheets = (bool) (($data['include']['timesheets'] ?? false) === true);
@@ -4,7 +4,11 @@
 
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Validation\Rule;
+use App\Models\Absence;
 use App\Models\Timesheet;
+use App\Services\TimesheetValidation\TimesheetBreakValidator;
+use App\Services\TimesheetValidation\TimesheetShift;
+use App\Tenancy\TenantBreakRule;
 
 class StoreTimesheetRequest extends FormRequest
 {
@@ -31,10 +35,14 @@ public function rules(): array
             'location_id' => 'required|exists:locations,id',
             'date' => 'required|date',
             'start_time' => 'nullable|date_format:H:i',
-            'end_time' => 'nullable|date_format:H:i|after:start_time',
+            // An end time earlier than the start time ends on the next day (overnight shift).
+            'end_time' => 'nullable|date_format:H:i|different:start_time',
             'hours_worked' => 'required|numeric|min:0.25|max:24',
             'description' => 'required|string|max:1000',
-            'status' => ['nullable', 'string', Rule::in(['draft', 'submitted'])]
+            'status' => ['nullable', 'string', Rule::in(['draft', 'submitted'])],
+            'breaks' => 'sometimes|array|max:5',
+            'breaks.*.start_time' => 'required|date_format:H:i',
+            'breaks.*.end_time' => 'required|date_format:H:i',
         ];
     }
 
@@ -49,9 +57,36 @@ public function withValidator($validator)
                 $validator->errors()->add('time_overlap', 
                     'Time overlap detected. This time period conflicts with an existing timesheet entry.');
             }
+
+            if (!$validator->errors()->hasAny(['date', 'start_time', 'end_time']) && ($absence = $this->conflictingAbsence())) {
+                $validator->errors()->add('absence_conflict', $absence->conflictMessage());
+            }
+
+            if (!$validator->errors()->hasAny(['start_time', 'end_time', 'breaks', 'breaks.*'])) {
+                foreach ($this->breakErrors() as $message) {
+                    $validator->errors()->add('breaks', $message);
+                }
+            }
         });
     }
 
+    /**
+     * Unpaid breaks must fit the entry and satisfy the tenant break rule.
+     *
+     * @return string[]
+     */
+    private function breakErrors(): array
+    {
+        $breaks = $this->input('breaks', []);
+
+        return app(TimesheetBreakValidator::class)->validate(
+            $this->start_time,
+            $this->end_time,
+            is_array($breaks) ? $breaks : [],
+            app(TenantBreakRule::class)->resolve(tenancy()->tenant)
+        );
+    }
+
     /**
      * Check for time overlaps (CRITICAL BUSINESS RULE)
      * This method preserves the existing overlap validation logic
@@ -62,60 +97,59 @@ private function hasTimeOverlap(): bool
             return false;
         }
 
-        // Determine which technician to check for overlaps
-        $technicianId = null;
-        
-        // If technician_id is provided in request (Managers/Admins creating for others)
+        $technicianId = $this->targetTechnicianId();
+        if ($technicianId === null) {
+            return false;
+        }
+
+        // Overnight entries and entries at sites in other timezones are compared as absolute times
+        $shift = app(TimesheetShift::class);
+        $overlap = $shift->findOverlap(
+            $technicianId,
+            (string) $this->date,
+            $this->start_time,
+            $this->end_time,
+            $shift->timezoneForLocation($this->location_id ? (int) $this->location_id : null)
+        );
+
+        return $overlap !== null;
+    }
+
+    /**
+     * Approved absence (vacation, sick leave...) the entry would be logged on.
+     */
+    private function conflictingAbsence(): ?Absence
+    {
+        $technicianId = $this->targetTechnicianId();
+        if ($technicianId === null || !$this->date) {
+            return null;
+        }
+
+        return Absence::conflictFor(
+            $technicianId,
+            (string) $this->date,
+            app(TimesheetShift::class)->window($this->start_time, $this->end_time)
+        );
+    }
+
+    /**
+     * Technician the entry is for: the requested one (Managers/Admins creating for others),
+     * otherwise the authenticated user's technician record.
+     */
+    private function targetTechnicianId(): ?int
+    {
         if ($this->has('technician_id') && $this->technician_id) {
-            $technicianId = $this->technician_id;
-        } else {
-            // Otherwise, use authenticated user's technician record
-            $technician = \App\Models\Technician::where('user_id', $this->user()->id)->first();
-            
-            if (!$technician) {
-                // Fallback to email if user_id relationship not set yet
-                $technician = \App\Models\Technician::where('email', $this->user()->email)->first();
-            }
-            
-            if (!$technician) {
-                return false;
-            }
-            
-            $technicianId = $technician->id;
+            return (int) $this->technician_id;
         }
 
-        // Check for existing overlapping timesheets for this technician
-        $existingTimesheets = Timesheet::where('technician_id', $technicianId)
-            ->whereDate('date', $this->date)
-            ->whereNotNull('start_time')
-            ->whereNotNull('end_time')
-            ->get();
-            
-        foreach ($existingTimesheets as $existing) {
-            // Extract time part only - now comes as string "HH:MM:SS" from database
-            $existingStart = $existing->start_time;
-            $existingEnd = $existing->end_time;
-            
-            // Normalize to HH:MM format for comparison (remove seconds if present)
-            if (is_string($existingStart) && strlen($existingStart) > 5) {
-                $existingStart = substr($existingStart, 0, 5); // "09:00:00" -> "09:00"
-            }
-            if (is_string($existingEnd) && strlen($existingEnd) > 5) {
-                $existingEnd = substr($existingEnd, 0, 5); // "10:00:00" -> "10:00"
-            }
-            
-            if (!$existingStart || !$existingEnd) {
-                continue; // Skip if times are null
-            }
-            
-            // Check if new timesheet overlaps with this existing one
-            // Overlap occurs when: new_start < existing_end AND existing_start < new_end
-            if ($this->start_time < $existingEnd && $existingStart < $this->end_time) {
-                return true;
-            }
+        $technician = \App\Models\Technician::where('user_id', $this->user()->id)->first();
+
+        if (!$technician) {
+            // Fallback to email if user_id relationship not set yet
+            $technician = \App\Models\Technician::where('email', $this->user()->email)->first();
         }
 
-        return false;
+        return $technician ? (int) $technician->id : null;
     }
 
     /**
@@ -132,7 +166,8 @@ public function messages(): array
             'hours_worked.min' => 'Minimum 15 minutes (0.25 hours) required.',
             'hours_worked.max' => 'Maximum 24 hours per day allowed.',
             'description.required' => 'Description is required.',
-            'end_time.after' => 'End time must be after start time.',
+            'end_time.different' => 'End time must differ from start time.',
+            'breaks.max' => 'At most 5 breaks per entry.',
         ];
     }
 }
@@ -0,0 +1,55 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Mail;
+
+use App\Models\User;
+use Illuminate\Bus\Queueable;
+use Illuminate\Mail\Mailable;
+use Illuminate\Mail\Mailables\Content;
+use Illuminate\Mail\Mailables\Envelope;
+use Illuminate\Queue\SerializesModels;
+
+/**
+ * Digest of the timesheets and expenses an approver has left waiting past the tenant's SLA.
+ */
+class ApprovalSlaReminderMail extends Mailable
+{
+    use Queueable, SerializesModels;
+
+    /**
+     * @param  list<array<string, mixed>>  $reminders  Overdue items waiting for the recipient
+     * @param  list<array<string, mixed>>  $escalations  Items past the escalation threshold
+     * @param  array<string, mixed>  $thresholds
+     */
+    public function __construct(
+        public User $recipient,
+        public array $reminders,
+        public array $escalations,
+        public array $thresholds,
+    ) {
+    }
+
+    public function envelope(): Envelope
+    {
+        $count = count($this->reminders) + count($this->escalations);
+
+        return new Envelope(
+            subject: ($this->escalations !== [] ? 'Escalation: ' : '')
+                . "{$count} approval" . ($count === 1 ? '' : 's') . ' waiting past the deadline',
+        );
+    }
+
+    public function content(): Content
+    {
+        return new Content(
+            view: 'emails.approval-sla-reminder',
+        );
+    }
+
+    public function attachments(): array
+    {
+        return [];
+    }
+}
@@ -0,0 +1,147 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Carbon;
+
+/**
+ * Vacation, sick leave, training or any other tenant absence type of one technician.
+ *
+ * Absences are requested and then approved or rejected by a manager. Approved absences block
+ * time entries: a full day blocks the whole day, a half day (single-day absences only) blocks
+ * the morning (before noon) or the afternoon (from noon).
+ */
+class Absence extends Model
+{
+    public const STATUSES = ['pending', 'approved', 'rejected', 'cancelled'];
+
+    public const HALF_DAYS = ['morning', 'afternoon'];
+
+    protected $fillable = [
+        'technician_id',
+        'absence_type',
+        'start_date',
+        'end_date',
+        'half_day',
+        'status',
+        'reason',
+        'requested_by',
+        'reviewed_by',
+        'reviewed_at',
+        'rejection_reason',
+    ];
+
+    protected $casts = [
+        'start_date' => 'date:Y-m-d',
+        'end_date' => 'date:Y-m-d',
+        'reviewed_at' => 'datetime',
+    ];
+
+    public function technician(): BelongsTo
+    {
+        return $this->belongsTo(Technician::class);
+    }
+
+    public function scopeOverlapping(Builder $query, CarbonInterface|string $from, CarbonInterface|string $to): Builder
+    {
+        return $query
+            ->whereDate('start_date', '<=', Carbon::parse($to)->toDateString())
+            ->whereDate('end_date', '>=', Carbon::parse($from)->toDateString());
+    }
+
+    /**
+     * Working days the absence takes: half a day for half-day absences.
+     */
+    public function days(): float
+    {
+        if ($this->half_day !== null) {
+            return 0.5;
+        }
+
+        return (float) ($this->start_date->diffInDays($this->end_date) + 1);
+    }
+
+    /**
+     * Blocked time of the day as minutes from midnight, or null when the whole day is blocked.
+     *
+     * @return array{0: int, 1: int}|null
+     */
+    public function blockedWindow(): ?array
+    {
+        return match ($this->half_day) {
+            'morning' => [0, 12 * 60],
+            'afternoon' => [12 * 60, 24 * 60],
+            default => null,
+        };
+    }
+
+    /**
+     * Approved absence of the technician that conflicts with an entry on the date. Untimed
+     * entries only conflict with full-day absences; timed ones also with the half they overlap,
+     * on both days of an overnight entry.
+     *
+     * @param array{0: int, 1: int}|null $window entry window in minutes from midnight of the date
+     */
+    public static function conflictFor(int $technicianId, CarbonInterface|string $date, ?array $window = null): ?self
+    {
+        $day = Carbon::parse($date)->startOfDay();
+
+        // Day => part of the entry window on that day, in minutes from its midnight.
+        $parts = [$day->toDateString() => $window === null ? null : [$window[0], min($window[1], 1440)]];
+        if ($window !== null && $window[1] > 1440) {
+            $parts[$day->copy()->addDay()->toDateString()] = [0, $window[1] - 1440];
+        }
+
+        $absences = self::query()
+            ->where('technician_id', $technicianId)
+            ->where('status', 'approved')
+            ->overlapping($day, array_key_last($parts))
+            ->orderBy('start_date')
+            ->get();
+
+        foreach ($absences as $absence) {
+            foreach ($parts as $partDate => $part) {
+                if (!$absence->covers($partDate)) {
+                    continue;
+                }
+
+                $blocked = $absence->blockedWindow();
+                if ($blocked === null || ($part !== null && $part[0] < $blocked[1] && $blocked[0] < $part[1])) {
+                    return $absence;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    public function conflictMessage(): string
+    {
+        $part = match ($this->half_day) {
+            'morning' => 'morning ',
+            'afternoon' => 'afternoon ',
+            default => '',
+        };
+
+        return sprintf(
+            'This time is blocked by an approved %sabsence (%s) from %s to %s.',
+            $part,
+            str_replace('_', ' ', $this->absence_type),
+            $this->start_date->toDateString(),
+            $this->end_date->toDateString()
+        );
+    }
+
+    public function covers(CarbonInterface|string $date): bool
+    {
+        $day = Carbon::parse($date)->toDateString();
+
+        return $this->start_date->toDateString() <= $day && $this->end_date->toDateString() >= $day;
+    }
+}
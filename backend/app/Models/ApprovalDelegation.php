@@ -0,0 +1,149 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Carbon;
+
+/**
+ * A manager handing their approval rights to a substitute for a date range, e.g. while on
+ * leave. The delegate approves and rejects timesheets and/or expenses on the delegator's
+ * behalf, on every project the delegator manages or just one of them.
+ *
+ * Delegations never extend rights: the delegate can only act where the delegator could act
+ * themselves at that moment, and delegated rights are not passed on again.
+ */
+class ApprovalDelegation extends Model
+{
+    public const SCOPE_TIMESHEETS = 'timesheets';
+    public const SCOPE_EXPENSES = 'expenses';
+    public const SCOPE_BOTH = 'both';
+
+    public const SCOPES = [
+        self::SCOPE_TIMESHEETS,
+        self::SCOPE_EXPENSES,
+        self::SCOPE_BOTH,
+    ];
+
+    protected $fillable = [
+        'delegator_id',
+        'delegate_id',
+        'scope',
+        'project_id',
+        'starts_on',
+        'ends_on',
+        'revoked_at',
+    ];
+
+    protected $casts = [
+        'starts_on' => 'date:Y-m-d',
+        'ends_on' => 'date:Y-m-d',
+        'revoked_at' => 'datetime',
+    ];
+
+    public function delegator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'delegator_id');
+    }
+
+    public function delegate(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'delegate_id');
+    }
+
+    public function project(): BelongsTo
+    {
+        return $this->belongsTo(Project::class);
+    }
+
+    /**
+     * Not revoked and running on the given day (today by default).
+     */
+    public function scopeActive(Builder $query, CarbonInterface|string|null $on = null): Builder
+    {
+        $day = Carbon::parse($on ?? Carbon::today())->toDateString();
+
+        return $query
+            ->whereNull('revoked_at')
+            ->whereDate('starts_on', '<=', $day)
+            ->whereDate('ends_on', '>=', $day);
+    }
+
+    /**
+     * Delegations covering timesheets or expenses.
+     */
+    public function scopeCovering(Builder $query, string $type): Builder
+    {
+        return $query->whereIn('scope', [$type, self::SCOPE_BOTH]);
+    }
+
+    public function isActive(): bool
+    {
+        $today = Carbon::today();
+
+        return $this->revoked_at === null
+            && $this->starts_on->lte($today)
+            && $this->ends_on->gte($today);
+    }
+
+    public function covers(string $type): bool
+    {
+        return $this->scope === self::SCOPE_BOTH || $this->scope === $type;
+    }
+
+    /**
+     * Active delegations to the user for timesheets or expenses of a project, with their delegator.
+     *
+     * @return Collection<int, ApprovalDelegation>
+     */
+    public static function activeFor(User $delegate, string $type, int $projectId): Collection
+    {
+        return static::query()
+            ->active()
+            ->covering($type)
+            ->where('delegate_id', $delegate->id)
+            ->where(fn (Builder $query) => $query->whereNull('project_id')->orWhere('project_id', $projectId))
+            ->with('delegator')
+            ->orderBy('id')
+            ->get();
+    }
+
+    /**
+     * Projects the user currently approves timesheets or expenses of on someone else's behalf.
+     *
+     * @return list<int>
+     */
+    public static function delegatedProjectIds(User $delegate, string $type): array
+    {
+        $delegations = static::query()
+            ->active()
+            ->covering($type)
+            ->where('delegate_id', $delegate->id)
+            ->with('delegator')
+            ->get();
+
+        $projectIds = [];
+        foreach ($delegations as $delegation) {
+            if (!$delegation->delegator) {
+                continue;
+            }
+
+            $managed = $type === self::SCOPE_EXPENSES
+                ? $delegation->delegator->getExpenseManagedProjectIds()
+                : $delegation->delegator->getManagedProjectIds();
+
+            $projectIds = array_merge(
+                $projectIds,
+                $delegation->project_id !== null ? array_intersect($managed, [(int) $delegation->project_id]) : $managed
+            );
+        }
+
+        return array_values(array_unique(array_map('intval', $projectIds)));
+    }
+}
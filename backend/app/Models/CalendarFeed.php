@@ -0,0 +1,83 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Str;
+
+/**
+ * A user's personal iCalendar subscription. One secret token gives access to up to three
+ * calendars (logged timesheets, travels and planned tasks), each subscribed to separately so
+ * calendar apps can show and hide them on their own. Deleting the feed revokes its URLs.
+ */
+class CalendarFeed extends Model
+{
+    public const CALENDAR_TIMESHEETS = 'timesheets';
+    public const CALENDAR_TRAVELS = 'travels';
+    public const CALENDAR_PLANNING = 'planning';
+
+    public const CALENDARS = [
+        self::CALENDAR_TIMESHEETS,
+        self::CALENDAR_TRAVELS,
+        self::CALENDAR_PLANNING,
+    ];
+
+    protected $fillable = [
+        'user_id',
+        'name',
+        'token_hash',
+        'token',
+        'include_timesheets',
+        'include_travels',
+        'include_planning',
+        'last_accessed_at',
+    ];
+
+    protected $hidden = [
+        'token_hash',
+        'token',
+    ];
+
+    protected $casts = [
+        'token' => 'encrypted',
+        'include_timesheets' => 'boolean',
+        'include_travels' => 'boolean',
+        'include_planning' => 'boolean',
+        'last_accessed_at' => 'datetime',
+    ];
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * New random token with its lookup hash.
+     *
+     * @return array{token: string, token_hash: string}
+     */
+    public static function newToken(): array
+    {
+        $token = Str::random(48);
+
+        return ['token' => $token, 'token_hash' => self::hashToken($token)];
+    }
+
+    public static function findByToken(string $token): ?self
+    {
+        return self::where('token_hash', self::hashToken($token))->first();
+    }
+
+    public function includes(string $calendar): bool
+    {
+        return in_array($calendar, self::CALENDARS, true) && (bool) $this->getAttribute('include_' . $calendar);
+    }
+
+    private static function hashToken(string $token): string
+    {
+        return hash('sha256', $token);
+    }
+}
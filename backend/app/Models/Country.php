@@ -13,4 +13,9 @@ public function locations(): HasMany
     {
         return $this->hasMany(Location::class);
     }
+
+    public function holidays(): HasMany
+    {
+        return $this->hasMany(PublicHoliday::class);
+    }
 }
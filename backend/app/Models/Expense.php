@@ -4,12 +4,14 @@
 
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Storage;
 use App\Traits\HasAuditFields;
+use App\Traits\TracksApprovalSla;
 
 class Expense extends Model
 {
-    use HasAuditFields;
+    use HasAuditFields, TracksApprovalSla;
 
     protected $fillable = [
         'technician_id',
@@ -31,6 +33,9 @@ class Expense extends Model
         'finance_notes',
         'paid_at',
         'payment_reference',
+        'reviewed_by',
+        'reviewed_on_behalf_of',
+        'reviewed_at',
         'card_transaction_id',
         'transaction_date',
         'created_by',
@@ -44,6 +49,7 @@ class Expense extends Model
         'rate_per_km' => 'decimal:2',
         'finance_approved_at' => 'datetime',
         'paid_at' => 'datetime',
+        'reviewed_at' => 'datetime',
         'transaction_date' => 'datetime',
     ];
 
@@ -72,6 +78,16 @@ public function financeApprover(): BelongsTo
         return $this->belongsTo(User::class, 'finance_approved_by');
     }
 
+    public function reviewer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_by');
+    }
+
+    public function reviewedOnBehalfOf(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'reviewed_on_behalf_of');
+    }
+
     // Status Check Methods
     public function canBeEdited(): bool
     {
@@ -156,7 +172,7 @@ public function submit(): void
         ]);
     }
 
-    public function approveByManager(): void
+    public function approveByManager(?User $onBehalfOf = null): void
     {
         if (!$this->canBeApprovedByManager()) {
             throw new \Exception('Expense cannot be approved by manager in current status');
@@ -165,7 +181,8 @@ public function approveByManager(): void
         // When manager approves, goes to finance_review
         $this->update([
             'status' => 'finance_review',
-            'rejection_reason' => null
+            'rejection_reason' => null,
+            ...$this->reviewStamp($onBehalfOf),
         ]);
     }
 
@@ -197,7 +214,7 @@ public function markAsPaid(?string $paymentReference = null): void
         ]);
     }
 
-    public function reject(string $reason): void
+    public function reject(string $reason, ?User $onBehalfOf = null): void
     {
         // Can be rejected by manager (from submitted) or finance (from finance_review)
         if (!in_array($this->status, ['submitted', 'finance_review'])) {
@@ -206,14 +223,29 @@ public function reject(string $reason): void
         
         $this->update([
             'status' => 'rejected',
-            'rejection_reason' => $reason
+            'rejection_reason' => $reason,
+            ...$this->reviewStamp($onBehalfOf),
         ]);
     }
 
     // Legacy methods for backwards compatibility
-    public function approve(): void
+    public function approve(?User $onBehalfOf = null): void
     {
         // Deprecated: use approveByManager() or approveByFinance() instead
-        $this->approveByManager();
+        $this->approveByManager($onBehalfOf);
+    }
+
+    /**
+     * Who took the last review decision, and the manager they stood in for if any.
+     *
+     * @return array<string, mixed>
+     */
+    private function reviewStamp(?User $onBehalfOf): array
+    {
+        return [
+            'reviewed_by' => Auth::id(),
+            'reviewed_on_behalf_of' => $onBehalfOf?->id,
+            'reviewed_at' => now(),
+        ];
     }
 }
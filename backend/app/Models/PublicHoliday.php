@@ -0,0 +1,40 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Carbon;
+
+/**
+ * A public holiday of one country. Technicians get the holidays of their contract country
+ * (see App\Services\Holidays\HolidayCalendar).
+ */
+class PublicHoliday extends Model
+{
+    protected $fillable = [
+        'country_id',
+        'date',
+        'name',
+    ];
+
+    protected $casts = [
+        'date' => 'date:Y-m-d',
+    ];
+
+    public function country(): BelongsTo
+    {
+        return $this->belongsTo(Country::class);
+    }
+
+    public function scopeBetween(Builder $query, CarbonInterface|string $from, CarbonInterface|string $to): Builder
+    {
+        return $query
+            ->whereDate('date', '>=', Carbon::parse($from)->toDateString())
+            ->whereDate('date', '<=', Carbon::parse($to)->toDateString());
+    }
+}
@@ -4,11 +4,14 @@
 
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Support\Facades\Auth;
 use App\Traits\HasAuditFields;
+use App\Traits\TracksApprovalSla;
 
 class Timesheet extends Model
 {
-    use HasAuditFields;
+    use HasAuditFields, TracksApprovalSla;
 
     protected $fillable = [
         'technician_id',
@@ -18,6 +21,7 @@ class Timesheet extends Model
         'date',
         'start_time',
         'end_time',
+        'timezone',
         'lunch_break',
         'hour_type',
         'hours_worked',
@@ -29,6 +33,7 @@ class Timesheet extends Model
         'ai_score',
         'ai_feedback',
         'status',
+        'approval_step',
         'rejection_reason',
         'created_by',
         'updated_by'
@@ -41,14 +46,64 @@ class Timesheet extends Model
         'lunch_break' => 'integer',
         'ai_flagged' => 'boolean',
         'ai_score' => 'decimal:2',
-        'ai_feedback' => 'array'
+        'ai_feedback' => 'array',
+        'approval_step' => 'integer',
     ];
 
+    /**
+     * Manager a substitute approver acts for; stamped on the next status change.
+     */
+    private ?int $statusChangeOnBehalfOf = null;
+
+    /**
+     * Set when the next status change is made by the approval workflow rather than a person.
+     */
+    private bool $statusChangeAutomatic = false;
+
+    protected static function booted(): void
+    {
+        // Any status change outside the approval chain restarts it at the first step.
+        static::updating(function (Timesheet $timesheet) {
+            if ($timesheet->isDirty('status') && !$timesheet->isDirty('approval_step')) {
+                $timesheet->approval_step = 0;
+            }
+        });
+
+        // Every status transition lands in the history, whichever endpoint caused it.
+        static::created(function (Timesheet $timesheet) {
+            $timesheet->recordStatusChange(null, $timesheet->status);
+        });
+
+        static::updated(function (Timesheet $timesheet) {
+            if ($timesheet->wasChanged('status')) {
+                $timesheet->recordStatusChange($timesheet->getOriginal('status'), $timesheet->status);
+            }
+
+            // A new submission round starts without the previous round's step sign-offs
+            if ($timesheet->wasChanged('status') && $timesheet->status === 'submitted') {
+                $timesheet->stepApprovals()->delete();
+            }
+        });
+    }
+
     public function technician(): BelongsTo
     {
         return $this->belongsTo(Technician::class);
     }
 
+    public function signoff(): BelongsTo
+    {
+        return $this->belongsTo(TimesheetSignoff::class, 'signoff_id');
+    }
+
+    /**
+     * Entries signed off by the site customer are frozen until the sign-off is voided.
+     */
+    public function isSignedOff(): bool
+    {
+        return $this->signoff_id !== null;
+    }
+
     public function project(): BelongsTo
     {
         return $this->belongsTo(Project::class);
@@ -64,6 +119,55 @@ public function location(): BelongsTo
         return $this->belongsTo(Location::class);
     }
 
+    public function comments(): HasMany
+    {
+        return $this->hasMany(TimesheetComment::class);
+    }
+
+    public function statusChanges(): HasMany
+    {
+        return $this->hasMany(TimesheetStatusChange::class);
+    }
+
+    /**
+     * Sign-offs of the current approval round, one per completed workflow step.
+     */
+    public function stepApprovals(): HasMany
+    {
+        return $this->hasMany(TimesheetStepApproval::class)->orderBy('step');
+    }
+
+    public function breaks(): HasMany
+    {
+        return $this->hasMany(TimesheetBreak::class)->orderBy('start_time');
+    }
+
+    /**
+     * Replaces the entry's breaks with the given {start_time, end_time} rows.
+     *
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     */
+    public function syncBreaks(array $breaks): void
+    {
+        $this->breaks()->delete();
+
+        foreach ($breaks as $break) {
+            $this->breaks()->create([
+                'start_time' => $break['start_time'],
+                'end_time' => $break['end_time'],
+            ]);
+        }
+    }
+
+    public function addComment(string $body, string $kind = TimesheetComment::KIND_COMMENT): TimesheetComment
+    {
+        return $this->comments()->create([
+            'user_id' => Auth::id(),
+            'kind' => $kind,
+            'body' => $body,
+        ]);
+    }
+
     public function canBeEdited(): bool
     {
         // Draft, submitted and rejected can be edited
@@ -106,28 +210,45 @@ public function canBeSubmitted(): bool
         return in_array($this->status, ['draft', 'rejected']);
     }
 
-    public function submit(): void
+    public function submit(?string $note = null): void
     {
         $this->update([
             'status' => 'submitted',
             'rejection_reason' => null
         ]);
+
+        if ($note !== null && trim($note) !== '') {
+            $this->addComment(trim($note), TimesheetComment::KIND_RESUBMISSION);
+        }
     }
 
-    public function approve(): void
+    public function approve(?User $onBehalfOf = null): void
     {
+        $this->statusChangeOnBehalfOf = $onBehalfOf?->id;
         $this->update([
             'status' => 'approved',
             'rejection_reason' => null
         ]);
     }
 
-    public function reject(string $reason): void
+    /**
+     * Approval granted by the tenant's auto-approve rule; recorded without a person.
+     */
+    public function approveAutomatically(): void
+    {
+        $this->statusChangeAutomatic = true;
+        $this->approve();
+    }
+
+    public function reject(string $reason, ?User $onBehalfOf = null): void
     {
+        $this->statusChangeOnBehalfOf = $onBehalfOf?->id;
         $this->update([
             'status' => 'rejected',
             'rejection_reason' => $reason
         ]);
+
+        $this->addComment($reason, TimesheetComment::KIND_REJECTION);
     }
 
     public function close(): void
@@ -144,4 +265,21 @@ public function reopen(): void
             'rejection_reason' => null
         ]);
     }
+
+    private function recordStatusChange(?string $from, ?string $to): void
+    {
+        if ($to === null || $from === $to) {
+            return;
+        }
+
+        $this->statusChanges()->create([
+            'from_status' => $from,
+            'to_status' => $to,
+            'changed_by' => $this->statusChangeAutomatic ? null : Auth::id(),
+            'on_behalf_of' => $this->statusChangeOnBehalfOf,
+        ]);
+
+        $this->statusChangeOnBehalfOf = null;
+        $this->statusChangeAutomatic = false;
+    }
 }
@@ -0,0 +1,39 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * Unpaid break inside a timesheet entry. Break time is not part of hours_worked.
+ */
+class TimesheetBreak extends Model
+{
+    protected $fillable = [
+        'timesheet_id',
+        'start_time',
+        'end_time',
+    ];
+
+    protected $hidden = [
+        'timesheet_id',
+        'created_at',
+        'updated_at',
+    ];
+
+    public function timesheet(): BelongsTo
+    {
+        return $this->belongsTo(Timesheet::class);
+    }
+
+    public function durationMinutes(): int
+    {
+        [$startHours, $startMinutes] = array_map('intval', explode(':', (string) $this->start_time));
+        [$endHours, $endMinutes] = array_map('intval', explode(':', (string) $this->end_time));
+
+        return max(0, ($endHours * 60 + $endMinutes) - ($startHours * 60 + $startMinutes));
+    }
+}
@@ -0,0 +1,36 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * Message in a timesheet's discussion thread. Rejection reasons and re-submission notes are
+ * stored as comments too, so the whole conversation reads in one place.
+ */
+class TimesheetComment extends Model
+{
+    public const KIND_COMMENT = 'comment';
+    public const KIND_REJECTION = 'rejection';
+    public const KIND_RESUBMISSION = 'resubmission';
+
+    protected $fillable = [
+        'timesheet_id',
+        'user_id',
+        'kind',
+        'body',
+    ];
+
+    public function timesheet(): BelongsTo
+    {
+        return $this->belongsTo(Timesheet::class);
+    }
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+}
@@ -0,0 +1,80 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+/**
+ * Customer sign-off of a technician's entries at one location, over a day or a week.
+ *
+ * The site customer signs on the technician's device; the signed entries are frozen (see
+ * Timesheet::isSignedOff) until an Admin voids the sign-off.
+ */
+class TimesheetSignoff extends Model
+{
+    /** Longest signed period, in days: a day or a week of entries. */
+    public const MAX_PERIOD_DAYS = 7;
+
+    protected $fillable = [
+        'technician_id',
+        'location_id',
+        'period_start',
+        'period_end',
+        'total_hours',
+        'signer_name',
+        'signer_email',
+        'signature',
+        'notes',
+        'signed_by',
+        'signed_at',
+    ];
+
+    protected $casts = [
+        'period_start' => 'date:Y-m-d',
+        'period_end' => 'date:Y-m-d',
+        'total_hours' => 'decimal:2',
+        'signed_at' => 'datetime',
+    ];
+
+    protected $hidden = [
+        'signature',
+    ];
+
+    public function technician(): BelongsTo
+    {
+        return $this->belongsTo(Technician::class);
+    }
+
+    public function location(): BelongsTo
+    {
+        return $this->belongsTo(Location::class);
+    }
+
+    public function timesheets(): HasMany
+    {
+        return $this->hasMany(Timesheet::class, 'signoff_id');
+    }
+
+    public function signer(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'signed_by');
+    }
+
+    /**
+     * Raw JPEG bytes of the signature, or null when the stored data URL is not a JPEG.
+     */
+    public function signatureJpeg(): ?string
+    {
+        if (!preg_match('#^data:image/jpeg;base64,(.+)$#s', (string) $this->signature, $matches)) {
+            return null;
+        }
+
+        $bytes = base64_decode($matches[1], true);
+
+        return $bytes === false ? null : $bytes;
+    }
+}
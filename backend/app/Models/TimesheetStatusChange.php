@@ -0,0 +1,42 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * Append-only status history of a timesheet, recorded by Timesheet's model events.
+ */
+class TimesheetStatusChange extends Model
+{
+    public const UPDATED_AT = null;
+
+    protected $fillable = [
+        'timesheet_id',
+        'from_status',
+        'to_status',
+        'changed_by',
+        'on_behalf_of',
+    ];
+
+    public function timesheet(): BelongsTo
+    {
+        return $this->belongsTo(Timesheet::class);
+    }
+
+    public function changedBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'changed_by');
+    }
+
+    /**
+     * Manager the change was made for, when a substitute approver made it.
+     */
+    public function onBehalfOf(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'on_behalf_of');
+    }
+}
@@ -0,0 +1,46 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * Sign-off of one step of the tenant's timesheet approval chain.
+ */
+class TimesheetStepApproval extends Model
+{
+    public const UPDATED_AT = null;
+
+    protected $fillable = [
+        'timesheet_id',
+        'step',
+        'step_key',
+        'approved_by',
+        'on_behalf_of',
+    ];
+
+    protected $casts = [
+        'step' => 'integer',
+    ];
+
+    public function timesheet(): BelongsTo
+    {
+        return $this->belongsTo(Timesheet::class);
+    }
+
+    /**
+     * Null when the step was passed by the auto-approve rule.
+     */
+    public function approvedBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'approved_by');
+    }
+
+    public function onBehalfOf(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'on_behalf_of');
+    }
+}
@@ -0,0 +1,77 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * A user's saved entry template (project, task, location, default times and description), or a
+ * pinned favourite combination of project, task and location.
+ *
+ * Templates are never migrated along with project changes: one whose task was deactivated, or
+ * whose project the user is no longer a member of, stays stored but is reported unusable.
+ */
+class TimesheetTemplate extends Model
+{
+    public const INVALID_TASK_INACTIVE = 'task_inactive';
+    public const INVALID_NOT_MEMBER = 'not_member';
+
+    protected $fillable = [
+        'user_id',
+        'name',
+        'project_id',
+        'task_id',
+        'location_id',
+        'start_time',
+        'end_time',
+        'description',
+        'is_favourite',
+        'last_used_at',
+    ];
+
+    protected $casts = [
+        'is_favourite' => 'boolean',
+        'last_used_at' => 'datetime',
+    ];
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    public function project(): BelongsTo
+    {
+        return $this->belongsTo(Project::class);
+    }
+
+    public function task(): BelongsTo
+    {
+        return $this->belongsTo(Task::class);
+    }
+
+    public function location(): BelongsTo
+    {
+        return $this->belongsTo(Location::class);
+    }
+
+    /**
+     * Why the template can no longer be used, or null when it can.
+     *
+     * @param array<int,int> $memberProjectIds projects the owner is a member of
+     */
+    public function invalidReason(array $memberProjectIds): ?string
+    {
+        if (!in_array((int) $this->project_id, $memberProjectIds, true)) {
+            return self::INVALID_NOT_MEMBER;
+        }
+
+        if (!$this->task || !$this->task->is_active || (int) $this->task->project_id !== (int) $this->project_id) {
+            return self::INVALID_TASK_INACTIVE;
+        }
+
+        return null;
+    }
+}
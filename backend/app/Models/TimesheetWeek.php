@@ -0,0 +1,62 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Models;
+
+use Carbon\CarbonInterface;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Carbon;
+
+/**
+ * Week-level submission record for one technician.
+ *
+ * A submitted or approved week is locked: the technician can no longer add, edit or delete
+ * entries in it until a manager rejects the week.
+ */
+class TimesheetWeek extends Model
+{
+    public const LOCKED_STATUSES = ['submitted', 'approved'];
+
+    protected $fillable = [
+        'technician_id',
+        'week_start',
+        'week_end',
+        'status',
+        'submitted_by',
+        'submitted_at',
+        'reviewed_by',
+        'reviewed_at',
+        'rejection_reason',
+    ];
+
+    protected $casts = [
+        'week_start' => 'date:Y-m-d',
+        'week_end' => 'date:Y-m-d',
+        'submitted_at' => 'datetime',
+        'reviewed_at' => 'datetime',
+    ];
+
+    public function technician(): BelongsTo
+    {
+        return $this->belongsTo(Technician::class);
+    }
+
+    public function isLocked(): bool
+    {
+        return in_array($this->status, self::LOCKED_STATUSES, true);
+    }
+
+    public static function isLockedFor(int $technicianId, CarbonInterface|string $date): bool
+    {
+        $day = Carbon::parse($date)->toDateString();
+
+        return self::query()
+            ->where('technician_id', $technicianId)
+            ->whereDate('week_start', '<=', $day)
+            ->whereDate('week_end', '>=', $day)
+            ->whereIn('status', self::LOCKED_STATUSES)
+            ->exists();
+    }
+}
@@ -2,6 +2,7 @@
 
 namespace App\Policies;
 
+use App\Models\ApprovalDelegation;
 use App\Models\Expense;
 use App\Models\User;
 use Illuminate\Auth\Access\Response;
@@ -32,6 +33,11 @@ public function view(User $user, Expense $expense): bool
             return true;
         }
 
+        // Substitutos veem o que revêem em nome do manager
+        if ($this->delegatorFor($user, $expense) !== null) {
+            return true;
+        }
+
         // Verificar se o user é membro do projeto
         if (!$expense->project->isUserMember($user)) {
             return false;
@@ -142,6 +148,7 @@ public function delete(User $user, Expense $expense): bool
      * 
      * REGRA: Expense Managers PODEM aprovar as próprias expenses.
      *        Managers NÃO podem aprovar expenses de OUTROS managers do mesmo projeto.
+     *        Substitutos aprovam em nome do manager enquanto a delegação estiver ativa.
      */
     public function approve(User $user, ?Expense $expense = null): bool
     {
@@ -160,29 +167,8 @@ public function approve(User $user, ?Expense $expense = null): bool
             return true;
         }
 
-        // Verificar se o user é membro do projeto
-        if (!$expense->project->isUserMember($user)) {
-            return false;
-        }
-
-        // Apenas Expense Managers podem aprovar expenses
-        if ($expense->project->isUserExpenseManager($user)) {
-            // Se for a própria expense, pode aprovar
-            if ($expense->technician && $expense->technician->user_id === $user->id) {
-                return true;
-            }
-            
-            // IMPORTANTE: Managers NÃO podem aprovar expenses de OUTROS managers
-            // Pode aprovar apenas expenses de members ou próprias
-            if ($expense->technician && $expense->technician->user) {
-                $ownerExpenseRole = $expense->project->getUserExpenseRole($expense->technician->user);
-                return $ownerExpenseRole === 'member';
-            }
-
-            return true;
-        }
-
-        return false;
+        return $this->reviewsAsExpenseManager($user, $expense)
+            || $this->delegatorFor($user, $expense) !== null;
     }
 
     /**
@@ -190,6 +176,7 @@ public function approve(User $user, ?Expense $expense = null): bool
      * 
      * REGRA: Expense Managers PODEM rejeitar as próprias expenses.
      *        Managers NÃO podem rejeitar expenses de OUTROS managers do mesmo projeto.
+     *        Substitutos rejeitam em nome do manager enquanto a delegação estiver ativa.
      */
     public function reject(User $user, Expense $expense): bool
     {
@@ -203,20 +190,42 @@ public function reject(User $user, Expense $expense): bool
             return true;
         }
 
+        return $this->reviewsAsExpenseManager($user, $expense)
+            || $this->delegatorFor($user, $expense) !== null;
+    }
+
+    /**
+     * The manager whose approval rights the user borrows to approve or reject the expense,
+     * or null when they review it on their own rights.
+     */
+    public function onBehalfOf(User $user, Expense $expense): ?User
+    {
+        if ($user->hasRole('Admin') || $this->reviewsAsExpenseManager($user, $expense)) {
+            return null;
+        }
+
+        return $this->delegatorFor($user, $expense);
+    }
+
+    /**
+     * Expense Managers review expenses of members and their own, never those of other managers.
+     */
+    private function reviewsAsExpenseManager(User $user, Expense $expense): bool
+    {
         // Verificar se o user é membro do projeto
         if (!$expense->project->isUserMember($user)) {
             return false;
         }
 
-        // Apenas Expense Managers podem rejeitar expenses
+        // Apenas Expense Managers podem aprovar/rejeitar expenses
         if ($expense->project->isUserExpenseManager($user)) {
-            // Se for a própria expense, pode rejeitar
+            // Se for a própria expense, pode aprovar/rejeitar
             if ($expense->technician && $expense->technician->user_id === $user->id) {
                 return true;
             }
-            
-            // IMPORTANTE: Managers NÃO podem rejeitar expenses de OUTROS managers
-            // Pode rejeitar apenas expenses de members ou próprias
+
+            // IMPORTANTE: Managers NÃO podem aprovar expenses de OUTROS managers
+            // Pode aprovar apenas expenses de members ou próprias
             if ($expense->technician && $expense->technician->user) {
                 $ownerExpenseRole = $expense->project->getUserExpenseRole($expense->technician->user);
                 return $ownerExpenseRole === 'member';
@@ -228,6 +237,30 @@ public function reject(User $user, Expense $expense): bool
         return false;
     }
 
+    /**
+     * An expense manager who delegated their approvals on this project to the user and could
+     * review the expense themselves. Substitutes never review their own expenses.
+     */
+    private function delegatorFor(User $user, Expense $expense): ?User
+    {
+        if ($expense->technician && $expense->technician->user_id === $user->id) {
+            return null;
+        }
+
+        $delegations = ApprovalDelegation::activeFor($user, ApprovalDelegation::SCOPE_EXPENSES, (int) $expense->project_id);
+        foreach ($delegations as $delegation) {
+            $delegator = $delegation->delegator;
+            if ($delegator
+                && $delegator->id !== $user->id
+                && $delegator->hasPermissionTo('approve-expenses')
+                && $this->reviewsAsExpenseManager($delegator, $expense)) {
+                return $delegator;
+            }
+        }
+
+        return null;
+    }
+
     public function submit(User $user, Expense $expense): bool
     {
         if (!$expense->canBeSubmitted()) {
@@ -2,9 +2,13 @@
 
 namespace App\Policies;
 
+use App\Models\ApprovalDelegation;
 use App\Models\Timesheet;
+use App\Models\TimesheetWeek;
 use App\Models\User;
 use App\Exceptions\UnauthorizedException;
+use App\Services\TimesheetApproval\TimesheetApprovalWorkflow;
+use App\Tenancy\TenantApprovalWorkflow;
 use Illuminate\Auth\Access\Response;
 
 class TimesheetPolicy
@@ -33,6 +37,11 @@ public function view(User $user, Timesheet $timesheet): bool
             return true;
         }
 
+        // Substitutos veem o que revêem em nome do manager
+        if ($this->delegatorFor($user, $timesheet) !== null) {
+            return true;
+        }
+
         // Verificar se o user é membro do projeto
         if (!$timesheet->project->isUserMember($user)) {
             return false;
@@ -74,6 +83,13 @@ public function create(User $user): bool
      */
     public function update(User $user, Timesheet $timesheet): bool
     {
+        // Entradas assinadas pelo cliente ficam congeladas, inclusive para admins
+        if ($timesheet->isSignedOff()) {
+            throw new UnauthorizedException(
+                'This timesheet was signed off by the customer and cannot be edited until the sign-off is voided.'
+            );
+        }
+
         // Verificar status imutável PRIMEIRO
         if (in_array($timesheet->status, ['approved', 'closed']) && !$user->hasRole('Admin')) {
             throw new UnauthorizedException(
@@ -88,7 +104,8 @@ public function update(User $user, Timesheet $timesheet): bool
 
         // Ownership: Se é o próprio timesheet, pode editar (se não estiver aprovado/fechado)
         if ($timesheet->technician && $timesheet->technician->user_id === $user->id) {
-            return in_array($timesheet->status, ['draft', 'submitted', 'rejected']);
+            return in_array($timesheet->status, ['draft', 'submitted', 'rejected'])
+                && !$this->isWeekLocked($timesheet);
         }
 
         // Project Manager: Pode editar timesheets de MEMBERS do projeto (não de outros managers)
@@ -120,6 +137,13 @@ public function update(User $user, Timesheet $timesheet): bool
      */
     public function delete(User $user, Timesheet $timesheet): bool
     {
+        // Entradas assinadas pelo cliente ficam congeladas, inclusive para admins
+        if ($timesheet->isSignedOff()) {
+            throw new UnauthorizedException(
+                'This timesheet was signed off by the customer and cannot be deleted until the sign-off is voided.'
+            );
+        }
+
         // Verificar status imutável PRIMEIRO
         if (in_array($timesheet->status, ['approved', 'closed']) && !$user->hasRole('Admin')) {
             throw new UnauthorizedException(
@@ -134,7 +158,8 @@ public function delete(User $user, Timesheet $timesheet): bool
 
         // Ownership: Se é o próprio timesheet, pode apagar (se não estiver aprovado/fechado)
         if ($timesheet->technician && $timesheet->technician->user_id === $user->id) {
-            return in_array($timesheet->status, ['draft', 'submitted', 'rejected']);
+            return in_array($timesheet->status, ['draft', 'submitted', 'rejected'])
+                && !$this->isWeekLocked($timesheet);
         }
 
         // Project Manager: Pode apagar timesheets de MEMBERS do projeto (não de outros managers)
@@ -163,6 +188,8 @@ public function delete(User $user, Timesheet $timesheet): bool
      * 
      * REGRA: Managers PODEM aprovar os próprios timesheets.
      *        Managers NÃO podem aprovar timesheets de OUTROS managers do mesmo projeto.
+     *        Substitutos aprovam em nome do manager enquanto a delegação estiver ativa.
+     *        Com workflow de vários passos, só aprova quem é dono do passo atual.
      */
     public function approve(User $user, ?Timesheet $timesheet = null): bool
     {
@@ -181,29 +208,25 @@ public function approve(User $user, ?Timesheet $timesheet = null): bool
             return true;
         }
 
-        // Verificar se o user é membro do projeto
-        if (!$timesheet->project->isUserMember($user)) {
+        return $this->ownsCurrentStep($user, $timesheet);
+    }
+
+    /**
+     * Determine whether the user can close the week of an entry that was already approved one
+     * at a time: the rights to review the entry, whatever its status now.
+     */
+    public function approveWeek(User $user, Timesheet $timesheet): bool
+    {
+        if (!$user->hasPermissionTo('approve-timesheets') || !in_array($timesheet->status, ['approved', 'closed'], true)) {
             return false;
         }
 
-        // Apenas Project Managers podem aprovar timesheets
-        if ($timesheet->project->isUserProjectManager($user)) {
-            // Se for o próprio timesheet, pode aprovar
-            if ($timesheet->technician && $timesheet->technician->user_id === $user->id) {
-                return true;
-            }
-            
-            // IMPORTANTE: Managers NÃO podem aprovar timesheets de OUTROS managers
-            // Pode aprovar apenas timesheets de members ou próprios
-            if ($timesheet->technician && $timesheet->technician->user) {
-                $ownerProjectRole = $timesheet->project->getUserProjectRole($timesheet->technician->user);
-                return $ownerProjectRole === 'member';
-            }
-            // Se technician não tem user, permitir aprovação por managers
+        if ($user->hasRole('Admin')) {
             return true;
         }
 
-        return false;
+        return $this->reviewsAsProjectManager($user, $timesheet)
+            || $this->delegatorFor($user, $timesheet) !== null;
     }
 
     /**
@@ -211,6 +234,8 @@ public function approve(User $user, ?Timesheet $timesheet = null): bool
      * 
      * REGRA: Managers PODEM rejeitar os próprios timesheets.
      *        Managers NÃO podem rejeitar timesheets de OUTROS managers do mesmo projeto.
+     *        Substitutos rejeitam em nome do manager enquanto a delegação estiver ativa.
+     *        Timesheets submetidos só são rejeitados pelo dono do passo atual do workflow.
      */
     public function reject(User $user, Timesheet $timesheet): bool
     {
@@ -224,31 +249,112 @@ public function reject(User $user, Timesheet $timesheet): bool
             return true;
         }
 
+        if ($timesheet->status === 'submitted') {
+            return $this->ownsCurrentStep($user, $timesheet);
+        }
+
+        return $this->reviewsAsProjectManager($user, $timesheet)
+            || $this->delegatorFor($user, $timesheet) !== null;
+    }
+
+    /**
+     * The manager whose approval rights the user borrows to approve or reject the timesheet,
+     * or null when they review it on their own rights.
+     */
+    public function onBehalfOf(User $user, Timesheet $timesheet): ?User
+    {
+        if ($user->hasRole('Admin') || $this->reviewsAsProjectManager($user, $timesheet)) {
+            return null;
+        }
+
+        // Passos de role são assinados em nome próprio
+        if ($timesheet->status === 'submitted' && $this->currentStepRole($timesheet) !== null) {
+            return null;
+        }
+
+        return $this->delegatorFor($user, $timesheet);
+    }
+
+    /**
+     * Role steps belong to every holder of the role except for their own entries; project
+     * manager steps to the project's managers and their substitutes.
+     */
+    private function ownsCurrentStep(User $user, Timesheet $timesheet): bool
+    {
+        $role = $this->currentStepRole($timesheet);
+        if ($role !== null) {
+            return $user->hasRole($role)
+                && !($timesheet->technician && $timesheet->technician->user_id === $user->id);
+        }
+
+        return $this->reviewsAsProjectManager($user, $timesheet)
+            || $this->delegatorFor($user, $timesheet) !== null;
+    }
+
+    /**
+     * The role that signs the step a submitted timesheet waits at, or null for a project manager step.
+     */
+    private function currentStepRole(Timesheet $timesheet): ?string
+    {
+        $step = app(TimesheetApprovalWorkflow::class)->currentStep($timesheet);
+
+        return $step['approver'] === TenantApprovalWorkflow::APPROVER_ROLE ? $step['role'] : null;
+    }
+
+    /**
+     * Project Managers review timesheets of members and their own, never those of other managers.
+     */
+    private function reviewsAsProjectManager(User $user, Timesheet $timesheet): bool
+    {
         // Verificar se o user é membro do projeto
         if (!$timesheet->project->isUserMember($user)) {
             return false;
         }
 
-        // Apenas Project Managers podem rejeitar timesheets
+        // Apenas Project Managers podem aprovar/rejeitar timesheets
         if ($timesheet->project->isUserProjectManager($user)) {
-            // Se for o próprio timesheet, pode rejeitar
+            // Se for o próprio timesheet, pode aprovar/rejeitar
             if ($timesheet->technician && $timesheet->technician->user_id === $user->id) {
                 return true;
             }
-            
-            // IMPORTANTE: Managers NÃO podem rejeitar timesheets de OUTROS managers
-            // Pode rejeitar apenas timesheets de members ou próprios
+
+            // IMPORTANTE: Managers NÃO podem aprovar timesheets de OUTROS managers
+            // Pode aprovar apenas timesheets de members ou próprios
             if ($timesheet->technician && $timesheet->technician->user) {
                 $ownerProjectRole = $timesheet->project->getUserProjectRole($timesheet->technician->user);
                 return $ownerProjectRole === 'member';
             }
-            // Se technician não tem user, permitir rejeição por managers
+            // Se technician não tem user, permitir aprovação por managers
             return true;
         }
 
         return false;
     }
 
+    /**
+     * A manager who delegated their timesheet approvals on this project to the user and could
+     * review the entry themselves. Substitutes never review their own entries.
+     */
+    private function delegatorFor(User $user, Timesheet $timesheet): ?User
+    {
+        if ($timesheet->technician && $timesheet->technician->user_id === $user->id) {
+            return null;
+        }
+
+        $delegations = ApprovalDelegation::activeFor($user, ApprovalDelegation::SCOPE_TIMESHEETS, (int) $timesheet->project_id);
+        foreach ($delegations as $delegation) {
+            $delegator = $delegation->delegator;
+            if ($delegator
+                && $delegator->id !== $user->id
+                && $delegator->hasPermissionTo('approve-timesheets')
+                && $this->reviewsAsProjectManager($delegator, $timesheet)) {
+                return $delegator;
+            }
+        }
+
+        return null;
+    }
+
     public function submit(User $user, Timesheet $timesheet): bool
     {
         if (!$timesheet->canBeSubmitted()) {
@@ -316,4 +422,13 @@ public function forceDelete(User $user, Timesheet $timesheet): bool
     {
         return $user->hasRole('Admin');
     }
+
+    /**
+     * Entries in a submitted/approved week are locked for their owner until a manager rejects the week.
+     */
+    private function isWeekLocked(Timesheet $timesheet): bool
+    {
+        return $timesheet->date !== null
+            && TimesheetWeek::isLockedFor((int) $timesheet->technician_id, $timesheet->date);
+    }
 }
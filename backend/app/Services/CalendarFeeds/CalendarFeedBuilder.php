@@ -0,0 +1,252 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\CalendarFeeds;
+
+use App\Models\CalendarFeed;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\TravelSegment;
+use App\Models\User;
+use App\Services\TimesheetValidation\TimesheetShift;
+use Carbon\CarbonImmutable;
+use Carbon\CarbonInterface;
+
+/**
+ * Writes the iCalendar (.ics) documents served by personal calendar feeds.
+ *
+ * Timesheets and travels become timed events in UTC, so no VTIMEZONE blocks are needed and
+ * entries recorded in a site timezone land at the right instant. Planned tasks become all-day
+ * events spanning the task dates. Only the last six months and the next six are included.
+ */
+final class CalendarFeedBuilder
+{
+    private const MONTHS_BACK = 6;
+    private const MONTHS_AHEAD = 6;
+
+    public function __construct(private readonly TimesheetShift $shift)
+    {
+    }
+
+    public function build(CalendarFeed $feed, string $calendar, string $tenantSlug): string
+    {
+        /** @var User $user */
+        $user = $feed->user;
+        $from = CarbonImmutable::today()->subMonths(self::MONTHS_BACK);
+        $to = CarbonImmutable::today()->addMonths(self::MONTHS_AHEAD);
+
+        $events = match ($calendar) {
+            CalendarFeed::CALENDAR_TIMESHEETS => $this->timesheetEvents($user, $from, $to, $tenantSlug),
+            CalendarFeed::CALENDAR_TRAVELS => $this->travelEvents($user, $from, $to, $tenantSlug),
+            CalendarFeed::CALENDAR_PLANNING => $this->planningEvents($user, $from, $to, $tenantSlug),
+            default => [],
+        };
+
+        $lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//' . config('app.name') . '//Calendar feed//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            'X-WR-CALNAME:' . $this->escape(sprintf('%s – %s', config('app.name'), ucfirst($calendar))),
+            'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+            'X-PUBLISHED-TTL:PT1H',
+        ];
+
+        $stamp = $this->utc(CarbonImmutable::now());
+        foreach ($events as $event) {
+            $lines[] = 'BEGIN:VEVENT';
+            $lines[] = 'UID:' . $event['uid'];
+            $lines[] = 'DTSTAMP:' . $stamp;
+            foreach ($event['properties'] as $property) {
+                $lines[] = $property;
+            }
+            $lines[] = 'END:VEVENT';
+        }
+
+        $lines[] = 'END:VCALENDAR';
+
+        return implode("\r\n", array_map(fn (string $line) => $this->fold($line), $lines)) . "\r\n";
+    }
+
+    /**
+     * @return list<array{uid: string, properties: list<string>}>
+     */
+    private function timesheetEvents(User $user, CarbonImmutable $from, CarbonImmutable $to, string $tenantSlug): array
+    {
+        $technician = $this->ownTechnician($user);
+        if (!$technician) {
+            return [];
+        }
+
+        $timesheets = Timesheet::with(['project:id,name', 'task:id,name', 'location:id,name'])
+            ->where('technician_id', $technician->id)
+            ->whereBetween('date', [$from->toDateString(), $to->toDateString()])
+            ->orderBy('date')
+            ->orderBy('start_time')
+            ->get();
+
+        $events = [];
+        foreach ($timesheets as $timesheet) {
+            $date = CarbonImmutable::parse($timesheet->date)->toDateString();
+            $window = $this->shift->absoluteWindow($date, $timesheet->start_time, $timesheet->end_time, $this->shift->timezoneOf($timesheet));
+            if ($window === null) {
+                continue;
+            }
+
+            $details = array_filter([
+                sprintf('%s h · %s', number_format((float) $timesheet->hours_worked, 2), ucfirst((string) $timesheet->status)),
+                trim((string) $timesheet->description),
+            ]);
+
+            $events[] = [
+                'uid' => sprintf('timesheet-%d@%s', $timesheet->id, $tenantSlug),
+                'properties' => array_values(array_filter([
+                    'DTSTART:' . $this->utc(CarbonImmutable::createFromTimestampUTC($window[0] * 60)),
+                    'DTEND:' . $this->utc(CarbonImmutable::createFromTimestampUTC($window[1] * 60)),
+                    'SUMMARY:' . $this->escape($this->summary($timesheet->project?->name, $timesheet->task?->name)),
+                    $timesheet->location ? 'LOCATION:' . $this->escape((string) $timesheet->location->name) : null,
+                    'DESCRIPTION:' . $this->escape(implode("\n", $details)),
+                    'STATUS:' . ($timesheet->status === 'rejected' ? 'CANCELLED' : 'CONFIRMED'),
+                    'TRANSP:OPAQUE',
+                ])),
+            ];
+        }
+
+        return $events;
+    }
+
+    /**
+     * @return list<array{uid: string, properties: list<string>}>
+     */
+    private function travelEvents(User $user, CarbonImmutable $from, CarbonImmutable $to, string $tenantSlug): array
+    {
+        $technician = $this->ownTechnician($user);
+        if (!$technician) {
+            return [];
+        }
+
+        $segments = TravelSegment::with(['project:id,name', 'originLocation:id,name', 'destinationLocation:id,name'])
+            ->where('technician_id', $technician->id)
+            ->whereBetween('travel_date', [$from->toDateString(), $to->toDateString()])
+            ->orderBy('start_at')
+            ->get();
+
+        $events = [];
+        foreach ($segments as $segment) {
+            $origin = $segment->originLocation?->name ?? $segment->origin_country;
+            $destination = $segment->destinationLocation?->name ?? $segment->destination_country;
+            $start = $segment->start_at ? CarbonImmutable::instance($segment->start_at) : null;
+            $end = $segment->end_at
+                ? CarbonImmutable::instance($segment->end_at)
+                : ($start && $segment->duration_minutes ? $start->addMinutes((int) $segment->duration_minutes) : null);
+
+            $timing = $start && $end && $end->greaterThan($start)
+                ? ['DTSTART:' . $this->utc($start), 'DTEND:' . $this->utc($end)]
+                : $this->allDay(CarbonImmutable::parse($segment->travel_date), CarbonImmutable::parse($segment->travel_date));
+
+            $events[] = [
+                'uid' => sprintf('travel-%d@%s', $segment->id, $tenantSlug),
+                'properties' => array_values(array_filter([
+                    ...$timing,
+                    'SUMMARY:' . $this->escape(sprintf('Travel %s → %s', $origin ?: '?', $destination ?: '?')),
+                    $destination ? 'LOCATION:' . $this->escape((string) $destination) : null,
+                    $segment->project ? 'DESCRIPTION:' . $this->escape((string) $segment->project->name) : null,
+                    'TRANSP:OPAQUE',
+                ])),
+            ];
+        }
+
+        return $events;
+    }
+
+    /**
+     * Tasks the user is assigned to as a planning resource.
+     *
+     * @return list<array{uid: string, properties: list<string>}>
+     */
+    private function planningEvents(User $user, CarbonImmutable $from, CarbonImmutable $to, string $tenantSlug): array
+    {
+        $tasks = Task::with('project:id,name')
+            ->whereHas('resources', fn ($query) => $query->where('user_id', $user->id))
+            ->whereNotNull('start_date')
+            ->whereNotNull('end_date')
+            ->whereDate('start_date', '<=', $to->toDateString())
+            ->whereDate('end_date', '>=', $from->toDateString())
+            ->orderBy('start_date')
+            ->get();
+
+        $events = [];
+        foreach ($tasks as $task) {
+            $start = CarbonImmutable::parse($task->start_date);
+            $end = CarbonImmutable::parse($task->end_date);
+
+            $events[] = [
+                'uid' => sprintf('planned-task-%d@%s', $task->id, $tenantSlug),
+                'properties' => [
+                    ...$this->allDay($start, $end->max($start)),
+                    'SUMMARY:' . $this->escape($this->summary($task->project?->name, $task->name)),
+                    'DESCRIPTION:' . $this->escape(sprintf('Progress: %d%%', (int) $task->progress)),
+                    'TRANSP:TRANSPARENT',
+                ],
+            ];
+        }
+
+        return $events;
+    }
+
+    /**
+     * All-day span; DTEND is exclusive.
+     *
+     * @return list<string>
+     */
+    private function allDay(CarbonImmutable $first, CarbonImmutable $last): array
+    {
+        return [
+            'DTSTART;VALUE=DATE:' . $first->format('Ymd'),
+            'DTEND;VALUE=DATE:' . $last->addDay()->format('Ymd'),
+        ];
+    }
+
+    private function summary(?string $project, ?string $task): string
+    {
+        return implode(' · ', array_filter([$project, $task])) ?: 'Timesheet';
+    }
+
+    private function utc(CarbonInterface $moment): string
+    {
+        return $moment->copy()->utc()->format('Ymd\THis\Z');
+    }
+
+    private function escape(string $text): string
+    {
+        return str_replace(['\\', ';', ',', "\r\n", "\n"], ['\\\\', '\;', '\,', '\n', '\n'], $text);
+    }
+
+    /**
+     * Lines longer than 75 octets continue on lines starting with a space (RFC 5545 3.1),
+     * without splitting multi-byte characters.
+     */
+    private function fold(string $line): string
+    {
+        $folded = '';
+        $limit = 75;
+        while (strlen($line) > $limit) {
+            $chunk = mb_strcut($line, 0, $limit, 'UTF-8');
+            $folded .= $chunk . "\r\n ";
+            $line = substr($line, strlen($chunk));
+            $limit = 74;
+        }
+
+        return $folded . $line;
+    }
+
+    private function ownTechnician(User $user): ?Technician
+    {
+        return $user->technician
+            ?? Technician::where('user_id', $user->id)->first()
+            ?? Technician::where('email', $user->email)->first();
+    }
+}
@@ -0,0 +1,95 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\Holidays;
+
+use App\Models\Country;
+use App\Models\PublicHoliday;
+use App\Models\Technician;
+use Carbon\CarbonImmutable;
+use Carbon\CarbonInterface;
+
+/**
+ * Public holidays per technician, from the holiday calendar of their contract country.
+ *
+ * Technician::worker_contract_country is free text; it is matched against the country ISO-2
+ * code first, then against the country name. Technicians without a matching country have no
+ * holidays.
+ */
+final class HolidayCalendar
+{
+    /** @var array<string, Country|null> */
+    private array $countries = [];
+
+    public function countryFor(?Technician $technician): ?Country
+    {
+        $value = trim((string) ($technician?->worker_contract_country ?? ''));
+        if ($value === '') {
+            return null;
+        }
+
+        $key = strtoupper($value);
+        if (!array_key_exists($key, $this->countries)) {
+            $this->countries[$key] = Country::query()->where('iso2', $key)->first()
+                ?? Country::query()->whereRaw('UPPER(name) = ?', [$key])->first();
+        }
+
+        return $this->countries[$key];
+    }
+
+    /**
+     * @return array<string, string> holiday name by date (YYYY-MM-DD)
+     */
+    public function holidaysFor(?Technician $technician, CarbonInterface|string $from, CarbonInterface|string $to): array
+    {
+        $country = $this->countryFor($technician);
+        if (!$country) {
+            return [];
+        }
+
+        return PublicHoliday::query()
+            ->where('country_id', $country->id)
+            ->between($from, $to)
+            ->orderBy('date')
+            ->get()
+            ->mapWithKeys(fn (PublicHoliday $holiday) => [$holiday->date->toDateString() => $holiday->name])
+            ->all();
+    }
+
+    /**
+     * @param iterable<Technician> $technicians
+     * @return array<int, array<string, string>> holiday names by date, by technician id
+     */
+    public function holidaysForTechnicians(iterable $technicians, CarbonInterface|string $from, CarbonInterface|string $to): array
+    {
+        $result = [];
+        foreach ($technicians as $technician) {
+            $result[(int) $technician->id] ??= $this->holidaysFor($technician, $from, $to);
+        }
+
+        return $result;
+    }
+
+    /**
+     * Contracted hours of the range: the configured daily hours for every weekday (Monday to
+     * Friday) that is not a public holiday of the technician.
+     */
+    public function expectedHours(?Technician $technician, CarbonInterface|string $from, CarbonInterface|string $to): float
+    {
+        $holidays = $this->holidaysFor($technician, $from, $to);
+        $dailyHours = (float) config('timesheets.expected_daily_hours', 8.0);
+
+        $hours = 0.0;
+        $cursor = CarbonImmutable::parse($from)->startOfDay();
+        $end = CarbonImmutable::parse($to)->startOfDay();
+        while ($cursor->lte($end)) {
+            if (!$cursor->isWeekend() && !isset($holidays[$cursor->toDateString()])) {
+                $hours += $dailyHours;
+            }
+            $cursor = $cursor->addDay();
+        }
+
+        return $hours;
+    }
+}
@@ -0,0 +1,125 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\Holidays;
+
+use Carbon\CarbonImmutable;
+
+/**
+ * Reads the holidays of an iCalendar (.ics) file, such as the public holiday calendars
+ * published by calendar providers.
+ *
+ * Only VEVENT dates and summaries are used; times and time zones are dropped. Multi-day events
+ * (DTEND is exclusive) become one holiday per day. When two events share a date, the first wins.
+ */
+final class IcsHolidayParser
+{
+    /** Longest event expanded into daily holidays; longer events are most likely not holidays. */
+    private const MAX_EVENT_DAYS = 31;
+
+    /**
+     * @return list<array{date: string, name: string}>
+     */
+    public function parse(string $contents): array
+    {
+        $holidays = [];
+        $event = null;
+
+        foreach ($this->unfold($contents) as $line) {
+            if (strcasecmp(trim($line), 'BEGIN:VEVENT') === 0) {
+                $event = [];
+                continue;
+            }
+
+            if (strcasecmp(trim($line), 'END:VEVENT') === 0) {
+                foreach ($this->expand($event ?? []) as $date => $name) {
+                    $holidays[$date] ??= $name;
+                }
+                $event = null;
+                continue;
+            }
+
+            if ($event === null || !str_contains($line, ':')) {
+                continue;
+            }
+
+            [$property, $value] = explode(':', $line, 2);
+            $name = strtoupper(explode(';', $property, 2)[0]);
+            if (in_array($name, ['DTSTART', 'DTEND', 'SUMMARY'], true)) {
+                $event[$name] = $value;
+            }
+        }
+
+        ksort($holidays);
+
+        return array_map(
+            fn (string $date, string $name) => ['date' => $date, 'name' => $name],
+            array_keys($holidays),
+            array_values($holidays)
+        );
+    }
+
+    /**
+     * Content lines with folded continuation lines (starting with a space or tab) joined.
+     *
+     * @return list<string>
+     */
+    private function unfold(string $contents): array
+    {
+        $lines = [];
+        foreach (preg_split('/\r\n|\r|\n/', $contents) ?: [] as $raw) {
+            if ($raw !== '' && ($raw[0] === ' ' || $raw[0] === "\t") && $lines !== []) {
+                $lines[count($lines) - 1] .= substr($raw, 1);
+                continue;
+            }
+
+            if (trim($raw) !== '') {
+                $lines[] = $raw;
+            }
+        }
+
+        return $lines;
+    }
+
+    /**
+     * @param array<string, string> $event
+     * @return array<string, string> name by date
+     */
+    private function expand(array $event): array
+    {
+        $start = $this->parseDate($event['DTSTART'] ?? '');
+        $name = trim($this->unescape($event['SUMMARY'] ?? ''));
+        if ($start === null || $name === '') {
+            return [];
+        }
+
+        $end = $this->parseDate($event['DTEND'] ?? '');
+        $days = $end !== null && $end->gt($start) ? (int) $start->diffInDays($end) : 1;
+
+        $dates = [];
+        for ($offset = 0; $offset < min($days, self::MAX_EVENT_DAYS); $offset++) {
+            $dates[$start->addDays($offset)->toDateString()] = mb_substr($name, 0, 255);
+        }
+
+        return $dates;
+    }
+
+    private function parseDate(string $value): ?CarbonImmutable
+    {
+        if (!preg_match('/^(\d{4})(\d{2})(\d{2})/', trim($value), $matches)) {
+            return null;
+        }
+
+        if (!checkdate((int) $matches[2], (int) $matches[3], (int) $matches[1])) {
+            return null;
+        }
+
+        return CarbonImmutable::createFromDate((int) $matches[1], (int) $matches[2], (int) $matches[3])->startOfDay();
+    }
+
+    private function unescape(string $value): string
+    {
+        return strtr($value, ['\\n' => ' ', '\\N' => ' ', '\\,' => ',', '\;' => ';', '\\\\' => '\\']);
+    }
+}
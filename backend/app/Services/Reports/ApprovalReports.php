@@ -5,38 +5,67 @@
 namespace App\Services\Reports;
 
 use App\Models\Expense;
+use App\Models\Project;
 use App\Models\Timesheet;
+use App\Models\TimesheetStatusChange;
 use App\Models\User;
+use App\Tenancy\TenantContext;
+use App\Tenancy\TenantWeekConfig;
+use Carbon\CarbonImmutable;
 use Illuminate\Auth\Access\AuthorizationException;
+use Illuminate\Database\Eloquent\Builder;
 
 final class ApprovalReports
 {
+    public const GRANULARITY_AUTO = 'auto';
+    public const GRANULARITY_DAY = 'day';
+    public const GRANULARITY_WEEK = 'week';
+    public const GRANULARITY_MONTH = 'month';
+
+    public const BREAKDOWN_PROJECT = 'project';
+    public const BREAKDOWN_APPROVER = 'approver';
+
+    /** Longest range, in days, the heatmap serves. */
+    public const MAX_RANGE_DAYS = 366;
+
+    /** Longest range, in days, served with one bucket per day. */
+    public const MAX_DAILY_DAYS = 62;
+
+    /** Automatic granularity switches from weeks to months past this many days. */
+    private const MAX_WEEKLY_DAYS = 186;
+
+    private const ITEMS_LIMIT = 200;
+
+    private const APPROVED_STATUSES = [
+        'timesheets' => ['approved', 'closed'],
+        'expenses' => ['approved', 'finance_review', 'finance_approved', 'paid'],
+    ];
+
+    public function __construct(private readonly TenantWeekConfig $weekConfig)
+    {
+    }
+
     /**
      * @param array{
      *   range:array{from:string,to:string},
-     *   include:array{timesheets:bool,expenses:bool}
+     *   include:array{timesheets:bool,expenses:bool},
+     *   granularity?:string,
+     *   breakdown?:?string
      * } $payload
-     * @return array{meta:array{from:string,to:string,scoped:string},days:array<string,mixed>}
+     * @return array{meta:array<string,mixed>,days:array<string,mixed>,breakdown?:array<string,mixed>}
+     *
+     * Entries are counted per bucket: days, or weeks/months for long ranges (granularity "auto"
+     * picks one from the range length). Bucket keys are the bucket's first day inside the range,
+     * listed in meta.buckets with their last day. Each bucket also carries
+     * wait:{median_hours,samples}: the median time its entries waited from submission to the
+     * approver's decision, or until now while still pending.
+     *
+     * With a breakdown, rows split the same buckets per project or per approver. Approver rows
+     * credit decided entries to whoever decided them; pending entries go to an "awaiting" row.
      */
     public function heatmap(array $payload, User $actor): array
     {
-        // Canonical project membership scoping (ACCESS_RULES.md §2, §3)
-        // Owner: tenant-wide. Others: restrict to projects where user is a member (project_members).
-        $isOwner = $actor->hasRole('Owner');
-        if (!$isOwner) {
-            $technicianId = $actor->technician?->id;
-            if (!$technicianId) {
-                throw new AuthorizationException('Forbidden');
-            }
-            $memberProjectIds = $actor->projects()->pluck('projects.id')->toArray();
-            if (empty($memberProjectIds)) {
-                throw new AuthorizationException('Forbidden');
-            }
-            // Store for use in scoping below
-            $this->memberProjectIds = $memberProjectIds;
-        } else {
-            $this->memberProjectIds = null;
-        }
+        $this->resolveScope($actor);
 
         $from = (string) $payload['range']['from'];
         $to = (string) $payload['range']['to'];
@@ -47,14 +76,18 @@ public function heatmap(array $payload, User $actor): array
         $includeTimesheets = $requestWantsTimesheets && $actor->hasPermissionTo('approve-timesheets');
         $includeExpenses = $requestWantsExpenses && $actor->hasPermissionTo('approve-expenses');
 
+        $granularity = $this->resolveGranularity((string) ($payload['granularity'] ?? self::GRANULARITY_DAY), $from, $to);
+        $buckets = $this->buckets($granularity, $from, $to);
+        $bucketOf = $this->dayToBucket($buckets);
+
         $days = [];
 
         if ($includeTimesheets) {
             $days = $this->mergeEntityCounts(
                 $days,
                 'timesheets',
-                $this->timesheetPendingCountsByDay($actor, $from, $to),
-                $this->timesheetApprovedCountsByDay($actor, $from, $to),
+                $this->rollUp($this->timesheetPendingCountsByDay($actor, $from, $to), $bucketOf),
+                $this->rollUp($this->timesheetApprovedCountsByDay($actor, $from, $to), $bucketOf),
             );
         }
 
@@ -62,11 +95,14 @@ public function heatmap(array $payload, User $actor): array
             $days = $this->mergeEntityCounts(
                 $days,
                 'expenses',
-                $this->expensePendingCountsByDay($actor, $from, $to),
-                $this->expenseApprovedCountsByDay($actor, $from, $to),
+                $this->rollUp($this->expensePendingCountsByDay($actor, $from, $to), $bucketOf),
+                $this->rollUp($this->expenseApprovedCountsByDay($actor, $from, $to), $bucketOf),
             );
         }
 
+        $items = $this->approvalItems($actor, $from, $to, $includeTimesheets, $includeExpenses);
+        $days = $this->mergeWaitTimes($days, $items, $bucketOf);
+
         // Ensure totals are present and consistent for all returned days.
         foreach ($days as $day => $row) {
             $timesheetsPending = (int) (($row['timesheets']['pending'] ?? 0) ?: 0);
@@ -89,18 +125,230 @@ public function heatmap(array $payload, User $actor): array
                 'approved' => (int) (($row['expenses']['approved'] ?? 0) ?: 0),
             ];
             $days[$day]['total_pending'] = $totalPending;
+            $days[$day]['wait'] = $row['wait'] ?? ['median_hours' => null, 'samples' => 0];
         }
 
         ksort($days);
 
-        return [
+        $response = [
             'meta' => [
                 'from' => $from,
                 'to' => $to,
                 'scoped' => 'all',
+                'granularity' => $granularity,
+                'buckets' => $buckets,
             ],
             'days' => $days,
         ];
+
+        $breakdown = $payload['breakdown'] ?? null;
+        if (in_array($breakdown, [self::BREAKDOWN_PROJECT, self::BREAKDOWN_APPROVER], true)) {
+            $response['breakdown'] = [
+                'by' => $breakdown,
+                'rows' => $this->breakdownRows($items, $breakdown, $bucketOf),
+            ];
+        }
+
+        return $response;
+    }
+
+    /**
+     * Entries behind a heatmap cell, for the drill-down list: pending first, then newest.
+     *
+     * The optional group is a breakdown row key ("project:<id>", "user:<id>", "awaiting" or
+     * "unassigned") narrowing the list to that row.
+     *
+     * @param array{
+     *   range:array{from:string,to:string},
+     *   include:array{timesheets:bool,expenses:bool},
+     *   group?:?string
+     * } $payload
+     * @return array{meta:array{from:string,to:string,total:int,truncated:bool},items:list<array<string,mixed>>}
+     */
+    public function items(array $payload, User $actor): array
+    {
+        $this->resolveScope($actor);
+
+        $from = (string) $payload['range']['from'];
+        $to = (string) $payload['range']['to'];
+        $group = isset($payload['group']) && $payload['group'] !== '' ? (string) $payload['group'] : null;
+        $by = $group !== null && str_starts_with($group, 'project:') ? self::BREAKDOWN_PROJECT : self::BREAKDOWN_APPROVER;
+
+        $types = [
+            'timesheets' => (bool) $payload['include']['timesheets'] && $actor->hasPermissionTo('approve-timesheets'),
+            'expenses' => (bool) $payload['include']['expenses'] && $actor->hasPermissionTo('approve-expenses'),
+        ];
+
+        $rows = [];
+        foreach ($types as $type => $included) {
+            if (!$included) {
+                continue;
+            }
+
+            $query = $this->itemsQuery($type, $actor, $from, $to)->with(['technician:id,name', 'project:id,name']);
+            if ($by === self::BREAKDOWN_PROJECT) {
+                $query->where('project_id', (int) substr($group, strlen('project:')));
+            }
+
+            foreach ($query->get() as $item) {
+                $summary = $this->describeItem($item, $type);
+                if ($group !== null && $this->groupKey($summary, $by) !== $group) {
+                    continue;
+                }
+                $rows[] = ['item' => $item, 'summary' => $summary];
+            }
+        }
+
+        usort($rows, fn (array $a, array $b) => [$a['summary']['state'] !== 'pending', $b['summary']['day'], $b['item']->id]
+            <=> [$b['summary']['state'] !== 'pending', $a['summary']['day'], $a['item']->id]);
+
+        $total = count($rows);
+        $rows = array_slice($rows, 0, self::ITEMS_LIMIT);
+
+        $deciderIds = array_values(array_unique(array_filter(array_map(fn (array $row) => $row['summary']['decided_by'], $rows))));
+        $deciders = $deciderIds !== [] ? User::query()->whereIn('id', $deciderIds)->pluck('name', 'id') : collect();
+
+        return [
+            'meta' => [
+                'from' => $from,
+                'to' => $to,
+                'total' => $total,
+                'truncated' => $total > self::ITEMS_LIMIT,
+            ],
+            'items' => array_map(function (array $row) use ($deciders) {
+                /** @var Timesheet|Expense $item */
+                $item = $row['item'];
+                $summary = $row['summary'];
+                $decidedBy = $summary['decided_by'];
+
+                return [
+                    'type' => $summary['type'],
+                    'id' => $item->id,
+                    'date' => $summary['day'],
+                    'status' => $item->status,
+                    'state' => $summary['state'],
+                    'technician' => $item->technician ? ['id' => $item->technician->id, 'name' => $item->technician->name] : null,
+                    'project' => $item->project ? ['id' => $item->project->id, 'name' => $item->project->name] : null,
+                    'hours_worked' => $summary['type'] === 'timesheets' ? (float) $item->hours_worked : null,
+                    'amount' => $summary['type'] === 'expenses' ? (float) $item->amount : null,
+                    'submitted_at' => $item->submitted_at?->toIso8601String(),
+                    'decided_at' => $summary['state'] === 'pending' ? null : $item->decided_at?->toIso8601String(),
+                    'wait_hours' => $summary['wait_hours'] !== null ? round($summary['wait_hours'], 1) : null,
+                    'decided_by' => $decidedBy !== null && $deciders->has($decidedBy)
+                        ? ['id' => $decidedBy, 'name' => $deciders->get($decidedBy)]
+                        : null,
+                ];
+            }, $rows),
+        ];
+    }
+
+    /**
+     * Canonical project membership scoping (ACCESS_RULES.md §2, §3)
+     * Owner: tenant-wide. Others: restrict to projects where user is a member (project_members).
+     */
+    private function resolveScope(User $actor): void
+    {
+        if ($actor->hasRole('Owner')) {
+            $this->memberProjectIds = null;
+            return;
+        }
+
+        $technicianId = $actor->technician?->id;
+        if (!$technicianId) {
+            throw new AuthorizationException('Forbidden');
+        }
+        $memberProjectIds = $actor->projects()->pluck('projects.id')->toArray();
+        if (empty($memberProjectIds)) {
+            throw new AuthorizationException('Forbidden');
+        }
+        // Store for use in scoping below
+        $this->memberProjectIds = $memberProjectIds;
+    }
+
+    private function resolveGranularity(string $requested, string $from, string $to): string
+    {
+        if ($requested !== self::GRANULARITY_AUTO) {
+            return $requested;
+        }
+
+        $days = (int) CarbonImmutable::parse($from)->diffInDays(CarbonImmutable::parse($to), true) + 1;
+
+        return match (true) {
+            $days <= self::MAX_DAILY_DAYS => self::GRANULARITY_DAY,
+            $days <= self::MAX_WEEKLY_DAYS => self::GRANULARITY_WEEK,
+            default => self::GRANULARITY_MONTH,
+        };
+    }
+
+    /**
+     * Consecutive buckets covering the range; weeks start on the tenant's week start and the
+     * first and last buckets are cut to the range.
+     *
+     * @return list<array{from:string,to:string}>
+     */
+    private function buckets(string $granularity, string $from, string $to): array
+    {
+        $end = CarbonImmutable::parse($to)->startOfDay();
+        $weekStart = $granularity === self::GRANULARITY_WEEK ? $this->weekStartIndex() : 0;
+
+        $buckets = [];
+        for ($cursor = CarbonImmutable::parse($from)->startOfDay(); $cursor->lte($end); $cursor = $bucketEnd->addDay()) {
+            $bucketEnd = match ($granularity) {
+                self::GRANULARITY_WEEK => $cursor->addDays(6 - (($cursor->dayOfWeek - $weekStart + 7) % 7)),
+                self::GRANULARITY_MONTH => $cursor->endOfMonth()->startOfDay(),
+                default => $cursor,
+            };
+            if ($bucketEnd->gt($end)) {
+                $bucketEnd = $end;
+            }
+
+            $buckets[] = ['from' => $cursor->toDateString(), 'to' => $bucketEnd->toDateString()];
+        }
+
+        return $buckets;
+    }
+
+    private function weekStartIndex(): int
+    {
+        $tenant = tenancy()->tenant;
+
+        return $tenant !== null
+            ? $this->weekConfig->weekStartsOnIndex($tenant, TenantContext::fromTenant($tenant)->locale)
+            : 1;
+    }
+
+    /**
+     * @param list<array{from:string,to:string}> $buckets
+     * @return array<string,string> day => bucket key
+     */
+    private function dayToBucket(array $buckets): array
+    {
+        $map = [];
+        foreach ($buckets as $bucket) {
+            for ($day = CarbonImmutable::parse($bucket['from']); $day->toDateString() <= $bucket['to']; $day = $day->addDay()) {
+                $map[$day->toDateString()] = $bucket['from'];
+            }
+        }
+
+        return $map;
+    }
+
+    /**
+     * @param array<string,int> $countsByDay
+     * @param array<string,string> $bucketOf
+     * @return array<string,int> bucket key => count
+     */
+    private function rollUp(array $countsByDay, array $bucketOf): array
+    {
+        $rolled = [];
+        foreach ($countsByDay as $day => $count) {
+            $bucket = $bucketOf[substr((string) $day, 0, 10)] ?? null;
+            if ($bucket !== null) {
+                $rolled[$bucket] = ($rolled[$bucket] ?? 0) + $count;
+            }
+        }
+
+        return $rolled;
     }
 
     /**
@@ -225,6 +473,214 @@ private function applyExpenseApprovalScoping($query, User $actor): void
         }
     }
 
+    /**
+     * Pending, approved and rejected entries of the range the actor may approve.
+     *
+     * @return Builder<Timesheet>|Builder<Expense>
+     */
+    private function itemsQuery(string $type, User $actor, string $from, string $to): Builder
+    {
+        $statuses = ['submitted', 'rejected', ...self::APPROVED_STATUSES[$type]];
+
+        if ($type === 'timesheets') {
+            $query = Timesheet::query()
+                ->select(['id', 'technician_id', 'project_id', 'date', 'status', 'hours_worked', 'submitted_at', 'decided_at'])
+                // Whoever moved the entry out of "submitted" last; step sign-offs keep it submitted.
+                ->addSelect(['decided_by' => TimesheetStatusChange::query()
+                    ->select('changed_by')
+                    ->whereColumn('timesheet_id', 'timesheets.id')
+                    ->where('from_status', 'submitted')
+                    ->where('to_status', '!=', 'submitted')
+                    ->latest('id')
+                    ->limit(1)]);
+            $this->applyTimesheetApprovalScoping($query, $actor);
+        } else {
+            $query = Expense::query()
+                ->select(['id', 'technician_id', 'project_id', 'date', 'status', 'amount', 'submitted_at', 'decided_at', 'reviewed_by as decided_by']);
+            $this->applyExpenseApprovalScoping($query, $actor);
+        }
+
+        return $query
+            ->whereDate('date', '>=', $from)
+            ->whereDate('date', '<=', $to)
+            ->whereIn('status', $statuses);
+    }
+
+    /**
+     * @return list<array{type:string,day:string,state:string,project_id:?int,decided_by:?int,wait_hours:?float}>
+     */
+    private function approvalItems(User $actor, string $from, string $to, bool $includeTimesheets, bool $includeExpenses): array
+    {
+        $items = [];
+
+        foreach (['timesheets' => $includeTimesheets, 'expenses' => $includeExpenses] as $type => $included) {
+            if (!$included) {
+                continue;
+            }
+            foreach ($this->itemsQuery($type, $actor, $from, $to)->get() as $item) {
+                $items[] = $this->describeItem($item, $type);
+            }
+        }
+
+        return $items;
+    }
+
+    /**
+     * Entries submitted before waiting times were tracked (no submitted_at) have no wait.
+     *
+     * @return array{type:string,day:string,state:string,project_id:?int,decided_by:?int,wait_hours:?float}
+     */
+    private function describeItem(Timesheet|Expense $item, string $type): array
+    {
+        $state = match (true) {
+            $item->status === 'submitted' => 'pending',
+            $item->status === 'rejected' => 'rejected',
+            default => 'approved',
+        };
+
+        $end = $state === 'pending' ? now() : $item->decided_at;
+        $waitHours = $item->submitted_at !== null && $end !== null
+            ? $item->submitted_at->diffInMinutes($end, true) / 60
+            : null;
+
+        return [
+            'type' => $type,
+            'day' => $item->date->toDateString(),
+            'state' => $state,
+            'project_id' => $item->project_id !== null ? (int) $item->project_id : null,
+            'decided_by' => $state !== 'pending' && $item->decided_by !== null ? (int) $item->decided_by : null,
+            'wait_hours' => $waitHours,
+        ];
+    }
+
+    /**
+     * Breakdown row an entry belongs to.
+     *
+     * @param array{state:string,project_id:?int,decided_by:?int} $summary
+     */
+    private function groupKey(array $summary, string $by): string
+    {
+        if ($by === self::BREAKDOWN_PROJECT) {
+            return $summary['project_id'] !== null ? 'project:' . $summary['project_id'] : 'unassigned';
+        }
+
+        if ($summary['state'] === 'pending') {
+            return 'awaiting';
+        }
+
+        return $summary['decided_by'] !== null ? 'user:' . $summary['decided_by'] : 'unassigned';
+    }
+
+    /**
+     * @param list<array{type:string,day:string,state:string,project_id:?int,decided_by:?int,wait_hours:?float}> $items
+     * @param array<string,string> $bucketOf
+     * @return list<array<string,mixed>>
+     */
+    private function breakdownRows(array $items, string $by, array $bucketOf): array
+    {
+        $groups = [];
+        foreach ($items as $item) {
+            $key = $this->groupKey($item, $by);
+            $bucket = $bucketOf[$item['day']] ?? null;
+            if ($bucket === null) {
+                continue;
+            }
+
+            $groups[$key] ??= ['pending' => 0, 'approved' => 0, 'waits' => [], 'buckets' => []];
+            $groups[$key]['buckets'][$bucket] ??= ['pending' => 0, 'approved' => 0, 'waits' => []];
+
+            if ($item['state'] === 'pending' || $item['state'] === 'approved') {
+                $groups[$key][$item['state']]++;
+                $groups[$key]['buckets'][$bucket][$item['state']]++;
+            }
+            if ($item['wait_hours'] !== null) {
+                $groups[$key]['waits'][] = $item['wait_hours'];
+                $groups[$key]['buckets'][$bucket]['waits'][] = $item['wait_hours'];
+            }
+        }
+
+        $ids = fn (string $prefix) => array_map(
+            fn (string $key) => (int) substr($key, strlen($prefix)),
+            array_filter(array_keys($groups), fn (string $key) => str_starts_with($key, $prefix)),
+        );
+        $labels = $by === self::BREAKDOWN_PROJECT
+            ? Project::query()->whereIn('id', $ids('project:'))->pluck('name', 'id')
+            : User::query()->whereIn('id', $ids('user:'))->pluck('name', 'id');
+
+        $rows = [];
+        foreach ($groups as $key => $group) {
+            $id = str_contains($key, ':') ? (int) substr($key, strpos($key, ':') + 1) : null;
+
+            ksort($group['buckets']);
+            $rows[] = [
+                'key' => $key,
+                'id' => $id,
+                // Null for the "awaiting" and "unassigned" rows, which the client names itself.
+                'label' => $id !== null ? ($labels->get($id) ?? '#' . $id) : null,
+                'pending' => $group['pending'],
+                'approved' => $group['approved'],
+                'wait' => $this->summarizeWaits($group['waits']),
+                'buckets' => array_map(fn (array $cell) => [
+                    'pending' => $cell['pending'],
+                    'approved' => $cell['approved'],
+                    'wait' => $this->summarizeWaits($cell['waits']),
+                ], $group['buckets']),
+            ];
+        }
+
+        usort($rows, fn (array $a, array $b) => [$b['pending'], $b['approved'], $a['key']] <=> [$a['pending'], $a['approved'], $b['key']]);
+
+        return $rows;
+    }
+
+    /**
+     * Adds the median approval wait per bucket.
+     *
+     * @param array<string,mixed> $days
+     * @param list<array{day:string,wait_hours:?float}> $items
+     * @param array<string,string> $bucketOf
+     * @return array<string,mixed>
+     */
+    private function mergeWaitTimes(array $days, array $items, array $bucketOf): array
+    {
+        $waitsByBucket = [];
+        foreach ($items as $item) {
+            $bucket = $bucketOf[$item['day']] ?? null;
+            if ($bucket !== null && $item['wait_hours'] !== null) {
+                $waitsByBucket[$bucket][] = $item['wait_hours'];
+            }
+        }
+
+        foreach ($waitsByBucket as $bucket => $waits) {
+            $days[$bucket] ??= [
+                'timesheets' => ['pending' => 0, 'approved' => 0],
+                'expenses' => ['pending' => 0, 'approved' => 0],
+                'total_pending' => 0,
+            ];
+            $days[$bucket]['wait'] = $this->summarizeWaits($waits);
+        }
+
+        return $days;
+    }
+
+    /**
+     * @param list<float> $waits hours
+     * @return array{median_hours:?float,samples:int}
+     */
+    private function summarizeWaits(array $waits): array
+    {
+        $count = count($waits);
+        if ($count === 0) {
+            return ['median_hours' => null, 'samples' => 0];
+        }
+
+        sort($waits);
+        $middle = intdiv($count, 2);
+        $median = $count % 2 === 1 ? $waits[$middle] : ($waits[$middle - 1] + $waits[$middle]) / 2;
+
+        return ['median_hours' => round($median, 1), 'samples' => $count];
+    }
+
     /**
      * @param array<string,mixed> $days
      * @param array<string,int> $pendingByDay
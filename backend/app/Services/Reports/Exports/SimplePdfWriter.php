@@ -0,0 +1,181 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\Reports\Exports;
+
+/**
+ * Minimal PDF writer (A4 pages, Helvetica text, lines and JPEG images) with no external
+ * dependencies. Coordinates are in points from the top-left corner of the page.
+ */
+final class SimplePdfWriter
+{
+    public const PAGE_WIDTH = 595.28;
+    public const PAGE_HEIGHT = 841.89;
+
+    /** @var array<int,string> content stream of each page */
+    private array $pages = [];
+
+    /** @var array<int,array{data:string,width:int,height:int}> */
+    private array $images = [];
+
+    public function addPage(): void
+    {
+        $this->pages[] = '';
+    }
+
+    public function text(float $x, float $y, string $text, float $size = 10, bool $bold = false): void
+    {
+        $font = $bold ? 'F2' : 'F1';
+        $this->write(sprintf(
+            "BT /%s %s Tf %s %s Td (%s) Tj ET\n",
+            $font,
+            $this->number($size),
+            $this->number($x),
+            $this->number(self::PAGE_HEIGHT - $y - $size),
+            $this->escape($text)
+        ));
+    }
+
+    public function line(float $x1, float $y1, float $x2, float $y2, float $width = 0.5): void
+    {
+        $this->write(sprintf(
+            "%s w %s %s m %s %s l S\n",
+            $this->number($width),
+            $this->number($x1),
+            $this->number(self::PAGE_HEIGHT - $y1),
+            $this->number($x2),
+            $this->number(self::PAGE_HEIGHT - $y2)
+        ));
+    }
+
+    /**
+     * Draws a JPEG scaled to fit the box, keeping its aspect ratio. Returns false when the
+     * bytes are not a readable JPEG.
+     */
+    public function jpeg(string $bytes, float $x, float $y, float $maxWidth, float $maxHeight): bool
+    {
+        $info = @getimagesizefromstring($bytes);
+        if ($info === false || ($info[2] ?? null) !== IMAGETYPE_JPEG || $info[0] <= 0 || $info[1] <= 0) {
+            return false;
+        }
+
+        $this->images[] = ['data' => $bytes, 'width' => (int) $info[0], 'height' => (int) $info[1]];
+        $name = 'Im' . count($this->images);
+
+        $scale = min($maxWidth / $info[0], $maxHeight / $info[1]);
+        $width = $info[0] * $scale;
+        $height = $info[1] * $scale;
+
+        $this->write(sprintf(
+            "q %s 0 0 %s %s %s cm /%s Do Q\n",
+            $this->number($width),
+            $this->number($height),
+            $this->number($x),
+            $this->number(self::PAGE_HEIGHT - $y - $height),
+            $name
+        ));
+
+        return true;
+    }
+
+    /**
+     * Approximate width of a Helvetica string, good enough to truncate table cells.
+     */
+    public function textWidth(string $text, float $size = 10): float
+    {
+        return mb_strlen($text) * $size * 0.5;
+    }
+
+    public function output(): string
+    {
+        if ($this->pages === []) {
+            $this->addPage();
+        }
+
+        // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images, then page/content pairs.
+        $objects = [];
+        $objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+        $objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+        $xObjects = [];
+        $next = 5;
+        foreach ($this->images as $index => $image) {
+            $objects[$next] = sprintf(
+                "<< /Type /XObject /Subtype /Image /Width %d /Height %d /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length %d >>\nstream\n%s\nendstream",
+                $image['width'],
+                $image['height'],
+                strlen($image['data']),
+                $image['data']
+            );
+            $xObjects[] = sprintf('/Im%d %d 0 R', $index + 1, $next);
+            $next++;
+        }
+
+        $resources = sprintf(
+            '<< /Font << /F1 3 0 R /F2 4 0 R >>%s >>',
+            $xObjects === [] ? '' : ' /XObject << ' . implode(' ', $xObjects) . ' >>'
+        );
+
+        $kids = [];
+        foreach ($this->pages as $content) {
+            $pageId = $next;
+            $contentId = $next + 1;
+            $next += 2;
+
+            $objects[$pageId] = sprintf(
+                '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 %s %s] /Resources %s /Contents %d 0 R >>',
+                $this->number(self::PAGE_WIDTH),
+                $this->number(self::PAGE_HEIGHT),
+                $resources,
+                $contentId
+            );
+            $objects[$contentId] = sprintf("<< /Length %d >>\nstream\n%s\nendstream", strlen($content), $content);
+            $kids[] = $pageId . ' 0 R';
+        }
+
+        $objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+        $objects[2] = sprintf('<< /Type /Pages /Kids [%s] /Count %d >>', implode(' ', $kids), count($kids));
+        ksort($objects);
+
+        $pdf = "%PDF-1.4\n%\xE2\xE3\xCF\xD3\n";
+        $offsets = [];
+        foreach ($objects as $id => $body) {
+            $offsets[$id] = strlen($pdf);
+            $pdf .= "{$id} 0 obj\n{$body}\nendobj\n";
+        }
+
+        $xref = strlen($pdf);
+        $pdf .= sprintf("xref\n0 %d\n0000000000 65535 f \n", count($objects) + 1);
+        foreach ($offsets as $offset) {
+            $pdf .= sprintf("%010d 00000 n \n", $offset);
+        }
+        $pdf .= sprintf("trailer\n<< /Size %d /Root 1 0 R >>\nstartxref\n%d\n%%EOF\n", count($objects) + 1, $xref);
+
+        return $pdf;
+    }
+
+    private function write(string $operators): void
+    {
+        if ($this->pages === []) {
+            $this->addPage();
+        }
+
+        $this->pages[array_key_last($this->pages)] .= $operators;
+    }
+
+    private function escape(string $text): string
+    {
+        $encoded = @iconv('UTF-8', 'Windows-1252//TRANSLIT', $text);
+        if ($encoded === false) {
+            $encoded = preg_replace('/[^\x20-\x7E]/', '?', $text) ?? '';
+        }
+
+        return strtr($encoded, ['\\' => '\\\\', '(' => '\\(', ')' => '\\)', "\r" => ' ', "\n" => ' ']);
+    }
+
+    private function number(float $value): string
+    {
+        return rtrim(rtrim(number_format($value, 2, '.', ''), '0'), '.');
+    }
+}
@@ -8,6 +8,8 @@
 use App\Models\User;
 use App\Services\Reports\Exports\CsvExporter;
 use App\Services\Reports\Exports\SimpleXlsxExporter;
+use App\Services\TimesheetValidation\TimesheetShift;
+use Carbon\CarbonImmutable;
 use Illuminate\Database\Eloquent\Builder;
 use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\DB;
@@ -47,6 +49,7 @@ final class TimesheetReports
     public function __construct(
         private readonly CsvExporter $csv,
         private readonly SimpleXlsxExporter $xlsx,
+        private readonly TimesheetShift $shift,
     ) {
     }
 
@@ -315,7 +318,8 @@ public function pivot(array $payload, User $actor): array
             ->join('technicians as tech', 'tech.id', '=', 'timesheets.technician_id')
             ->leftJoin('users as u', 'u.id', '=', 'tech.user_id')
             ->join('projects as p', 'p.id', '=', 'timesheets.project_id')
-            ->where('timesheets.date', '>=', $from)
+            // Overnight entries from the day before the range carry hours into it.
+            ->where('timesheets.date', '>=', CarbonImmutable::parse($from)->subDay()->toDateString())
             ->where('timesheets.date', '<=', $to);
 
         if (!$isOwner) {
@@ -363,21 +367,39 @@ public function pivot(array $payload, User $actor): array
         $colIdExpr = $colDim === 'user' ? 'tech.user_id' : 'timesheets.project_id';
         $colLabelExpr = $colDim === 'user' ? 'COALESCE(u.name, tech.name)' : 'p.name';
 
-        $query
+        $entries = $query
+            ->select('timesheets.id', 'timesheets.date', 'timesheets.start_time', 'timesheets.end_time', 'timesheets.hours_worked')
             ->selectRaw("{$rowIdExpr} as row_id")
             ->selectRaw("{$rowLabelExpr} as row_label")
             ->selectRaw("{$colIdExpr} as column_id")
             ->selectRaw("{$colLabelExpr} as column_label")
-            ->selectRaw('SUM(timesheets.hours_worked) as hours')
-            ->groupBy([
-                DB::raw($rowIdExpr),
-                DB::raw($rowLabelExpr),
-                DB::raw($colIdExpr),
-                DB::raw($colLabelExpr),
-            ])
-            ->havingRaw('SUM(timesheets.hours_worked) > 0');
+            ->with('breaks')
+            ->get();
+
+        // Summed per entry rather than in SQL so overnight shifts only count the hours that
+        // fall inside the range.
+        /** @var array<string,object> $grouped */
+        $grouped = [];
+        foreach ($entries as $entry) {
+            $hours = 0.0;
+            foreach ($this->shift->hoursByDay($entry) as $date => $dayHours) {
+                if ($date >= $from && $date <= $to) {
+                    $hours += $dayHours;
+                }
+            }
+
+            $key = $entry->row_id . '|' . $entry->column_id;
+            $grouped[$key] ??= (object) [
+                'row_id' => (string) $entry->row_id,
+                'row_label' => (string) ($entry->row_label ?? ''),
+                'column_id' => (string) $entry->column_id,
+                'column_label' => (string) ($entry->column_label ?? ''),
+                'hours' => 0.0,
+            ];
+            $grouped[$key]->hours += $hours;
+        }
 
-        $rawCells = $query->get();
+        $rawCells = array_filter($grouped, fn (object $cell) => $cell->hours > 0);
 
         /** @var array<string,string> $rowsMap */
         $rowsMap = [];
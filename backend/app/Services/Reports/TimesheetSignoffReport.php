@@ -0,0 +1,154 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\Reports;
+
+use App\Models\Timesheet;
+use App\Models\TimesheetSignoff;
+use App\Services\Reports\Exports\SimplePdfWriter;
+
+/**
+ * PDF service report of a customer sign-off: the signed entries (project, task, location and
+ * times) followed by the signer's name and drawn signature.
+ */
+final class TimesheetSignoffReport
+{
+    private const MARGIN = 40.0;
+    private const ROW_HEIGHT = 16.0;
+    private const PAGE_BOTTOM = 760.0;
+
+    /** Table columns: [title, x offset, width]. */
+    private const COLUMNS = [
+        ['Date', 0, 62],
+        ['Time', 62, 70],
+        ['Project', 132, 120],
+        ['Task', 252, 120],
+        ['Location', 372, 98],
+        ['Hours', 470, 45],
+    ];
+
+    public function render(TimesheetSignoff $signoff): string
+    {
+        $signoff->loadMissing(['technician', 'location', 'timesheets.project', 'timesheets.task', 'timesheets.location']);
+
+        $pdf = new SimplePdfWriter();
+        $pdf->addPage();
+
+        $pdf->text(self::MARGIN, self::MARGIN, 'Service report', 18, true);
+        $y = self::MARGIN + 32;
+
+        $period = $signoff->period_start->toDateString() === $signoff->period_end->toDateString()
+            ? $signoff->period_start->toDateString()
+            : $signoff->period_start->toDateString() . ' to ' . $signoff->period_end->toDateString();
+
+        foreach ([
+            'Technician' => $signoff->technician?->name ?? '-',
+            'Location' => $this->locationLabel($signoff),
+            'Period' => $period,
+            'Total hours' => number_format((float) $signoff->total_hours, 2),
+        ] as $label => $value) {
+            $pdf->text(self::MARGIN, $y, $label . ':', 10, true);
+            $pdf->text(self::MARGIN + 80, $y, $value);
+            $y += 14;
+        }
+
+        $y += 12;
+        $y = $this->tableHeader($pdf, $y);
+
+        $entries = $signoff->timesheets->sortBy(fn (Timesheet $entry) => $entry->date->toDateString() . ' ' . $entry->start_time);
+        foreach ($entries as $entry) {
+            if ($y > self::PAGE_BOTTOM) {
+                $pdf->addPage();
+                $y = $this->tableHeader($pdf, self::MARGIN);
+            }
+
+            $cells = [
+                $entry->date->toDateString(),
+                $entry->start_time && $entry->end_time
+                    ? substr((string) $entry->start_time, 0, 5) . ' - ' . substr((string) $entry->end_time, 0, 5)
+                    : '-',
+                $entry->project?->name ?? '-',
+                $entry->task?->name ?? '-',
+                $entry->location?->name ?? '-',
+                number_format((float) $entry->hours_worked, 2),
+            ];
+
+            foreach (self::COLUMNS as $index => [, $offset, $width]) {
+                $pdf->text(self::MARGIN + $offset, $y, $this->fit($pdf, $cells[$index], $width - 4, 9), 9);
+            }
+            $y += self::ROW_HEIGHT;
+        }
+
+        if ($y > self::PAGE_BOTTOM - 150) {
+            $pdf->addPage();
+            $y = self::MARGIN;
+        }
+
+        $y += 20;
+        if ($signoff->notes) {
+            $pdf->text(self::MARGIN, $y, 'Notes: ' . $signoff->notes, 9);
+            $y += 20;
+        }
+
+        $pdf->text(self::MARGIN, $y, 'Customer sign-off', 12, true);
+        $y += 20;
+
+        $signature = $signoff->signatureJpeg();
+        if ($signature !== null && $pdf->jpeg($signature, self::MARGIN, $y, 240, 90)) {
+            $y += 94;
+        }
+        $pdf->line(self::MARGIN, $y, self::MARGIN + 240, $y);
+        $y += 6;
+
+        $pdf->text(self::MARGIN, $y, $signoff->signer_name, 10, true);
+        $y += 14;
+        if ($signoff->signer_email) {
+            $pdf->text(self::MARGIN, $y, $signoff->signer_email, 9);
+            $y += 12;
+        }
+        $pdf->text(self::MARGIN, $y, 'Signed at ' . $signoff->signed_at->format('Y-m-d H:i T'), 9);
+
+        return $pdf->output();
+    }
+
+    public function filename(TimesheetSignoff $signoff): string
+    {
+        return sprintf('service-report-%d-%s.pdf', $signoff->id, $signoff->period_start->toDateString());
+    }
+
+    private function tableHeader(SimplePdfWriter $pdf, float $y): float
+    {
+        foreach (self::COLUMNS as [$title, $offset]) {
+            $pdf->text(self::MARGIN + $offset, $y, $title, 9, true);
+        }
+        $pdf->line(self::MARGIN, $y + 13, SimplePdfWriter::PAGE_WIDTH - self::MARGIN, $y + 13);
+
+        return $y + 18;
+    }
+
+    private function locationLabel(TimesheetSignoff $signoff): string
+    {
+        $location = $signoff->location;
+        if (!$location) {
+            return '-';
+        }
+
+        $parts = array_filter([$location->name, $location->address, $location->city]);
+
+        return implode(', ', $parts);
+    }
+
+    private function fit(SimplePdfWriter $pdf, string $text, float $width, float $size): string
+    {
+        if ($pdf->textWidth($text, $size) <= $width) {
+            return $text;
+        }
+
+        while ($text !== '' && $pdf->textWidth($text . '...', $size) > $width) {
+            $text = mb_substr($text, 0, -1);
+        }
+
+        return $text . '...';
+    }
+}
@@ -0,0 +1,285 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\TimesheetApproval;
+
+use App\Mail\ApprovalSlaReminderMail;
+use App\Models\ApprovalDelegation;
+use App\Models\Expense;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Tenancy\TenantApprovalSla;
+use App\Tenancy\TenantApprovalWorkflow;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Mail;
+
+/**
+ * Measures how long submitted timesheets and expenses wait for a decision against the tenant's
+ * SLA and chases the approvers of overdue items.
+ *
+ * An item is in "warning" once it waits warning_hours and "overdue" once it waits
+ * overdue_hours. Overdue items are reminded to whoever signs them next (project or expense
+ * managers and their substitutes, or the holders of a role step); past escalate_after_hours
+ * the tenant's Owners and Admins are told as well. Every approver gets one digest per run.
+ */
+final class ApprovalSlaTracker
+{
+    public const STATE_OK = 'ok';
+    public const STATE_WARNING = 'warning';
+    public const STATE_OVERDUE = 'overdue';
+
+    private const ESCALATION_ROLES = ['Owner', 'Admin'];
+
+    public function __construct(
+        private readonly TenantApprovalSla $config,
+        private readonly TimesheetApprovalWorkflow $workflow,
+    ) {
+    }
+
+    /**
+     * @return array{warning_hours: int, overdue_hours: int, escalate_after_hours: int, reminders_enabled: bool}
+     */
+    public function thresholds(): array
+    {
+        return $this->config->resolve(tenancy()->tenant);
+    }
+
+    /**
+     * Waiting time of a submitted item, or null once it has been decided.
+     *
+     * @return array{submitted_at: ?string, age_hours: float, state: string}|null
+     */
+    public function describe(Timesheet|Expense $item): ?array
+    {
+        if ($item->status !== 'submitted') {
+            return null;
+        }
+
+        $thresholds = $this->thresholds();
+        $submittedAt = $item->submitted_at ?? $item->updated_at;
+        $ageHours = $submittedAt ? round($submittedAt->diffInMinutes(now(), true) / 60, 1) : 0.0;
+
+        return [
+            'submitted_at' => $submittedAt?->toIso8601String(),
+            'age_hours' => $ageHours,
+            'state' => match (true) {
+                $ageHours >= $thresholds['overdue_hours'] => self::STATE_OVERDUE,
+                $ageHours >= $thresholds['warning_hours'] => self::STATE_WARNING,
+                default => self::STATE_OK,
+            },
+        ];
+    }
+
+    /**
+     * Narrows a query of submitted items to those past the overdue threshold.
+     */
+    public function whereOverdue(Builder $query): Builder
+    {
+        return $query->where('submitted_at', '<=', now()->subHours($this->thresholds()['overdue_hours']));
+    }
+
+    /**
+     * Sends the reminder and escalation digests for the current tenant.
+     *
+     * @return array{reminded: int, escalated: int, recipients: int}
+     */
+    public function sendReminders(): array
+    {
+        $thresholds = $this->thresholds();
+        if (!$thresholds['reminders_enabled']) {
+            return ['reminded' => 0, 'escalated' => 0, 'recipients' => 0];
+        }
+
+        $overdueBefore = now()->subHours($thresholds['overdue_hours']);
+        $escalateBefore = now()->subHours($thresholds['escalate_after_hours']);
+
+        /** @var array<int, array{user: User, reminders: list<array<string, mixed>>, escalations: list<array<string, mixed>>}> $digests */
+        $digests = [];
+        $marks = ['timesheets' => ['reminded' => [], 'escalated' => []], 'expenses' => ['reminded' => [], 'escalated' => []]];
+
+        $escalationUsers = null;
+
+        foreach ($this->dueItems(Timesheet::query(), $overdueBefore, $escalateBefore) as $timesheet) {
+            $this->collect($timesheet, 'timesheets', $this->timesheetApprovers($timesheet), $escalateBefore, $digests, $marks, $escalationUsers);
+        }
+
+        foreach ($this->dueItems(Expense::query(), $overdueBefore, $escalateBefore) as $expense) {
+            $this->collect($expense, 'expenses', $this->expenseApprovers($expense), $escalateBefore, $digests, $marks, $escalationUsers);
+        }
+
+        foreach ($digests as $digest) {
+            Mail::to($digest['user'])->queue(new ApprovalSlaReminderMail(
+                $digest['user'],
+                $digest['reminders'],
+                $digest['escalations'],
+                $thresholds,
+            ));
+        }
+
+        // Stamped without touching updated_at: the reminder is not an edit of the item
+        $now = now();
+        foreach ($marks as $table => $ids) {
+            if ($ids['reminded'] !== []) {
+                DB::connection('tenant')->table($table)->whereIn('id', $ids['reminded'])->update(['sla_reminded_at' => $now]);
+            }
+            if ($ids['escalated'] !== []) {
+                DB::connection('tenant')->table($table)->whereIn('id', $ids['escalated'])->update(['sla_escalated_at' => $now]);
+            }
+        }
+
+        return [
+            'reminded' => count($marks['timesheets']['reminded']) + count($marks['expenses']['reminded']),
+            'escalated' => count($marks['timesheets']['escalated']) + count($marks['expenses']['escalated']),
+            'recipients' => count($digests),
+        ];
+    }
+
+    /**
+     * Overdue items not reminded yet, and items past the escalation threshold not escalated yet.
+     */
+    private function dueItems(Builder $query, Carbon $overdueBefore, Carbon $escalateBefore): Collection
+    {
+        return $query
+            ->with(['technician', 'project'])
+            ->where('status', 'submitted')
+            ->where('submitted_at', '<=', $overdueBefore)
+            ->where(function (Builder $q) use ($escalateBefore) {
+                $q->whereNull('sla_reminded_at')
+                    ->orWhere(fn (Builder $late) => $late->where('submitted_at', '<=', $escalateBefore)->whereNull('sla_escalated_at'));
+            })
+            ->orderBy('submitted_at')
+            ->get();
+    }
+
+    /**
+     * Adds the item to the digests of its approvers (and of the escalation roles once escalated).
+     * Items nobody can sign go straight to the escalation roles.
+     *
+     * @param  Collection<int, User>  $approvers
+     * @param  array<int, array<string, mixed>>  $digests
+     * @param  array<string, array{reminded: list<int>, escalated: list<int>}>  $marks
+     * @param  Collection<int, User>|null  $escalationUsers
+     */
+    private function collect(
+        Timesheet|Expense $item,
+        string $type,
+        Collection $approvers,
+        Carbon $escalateBefore,
+        array &$digests,
+        array &$marks,
+        ?Collection &$escalationUsers,
+    ): void {
+        $ownerId = $item->technician?->user_id;
+        $escalate = $item->sla_escalated_at === null && $item->submitted_at->lte($escalateBefore);
+
+        $recipients = $approvers;
+        if ($escalate || $approvers->isEmpty()) {
+            $escalationUsers ??= $this->usersWithRoles(self::ESCALATION_ROLES);
+            $recipients = $recipients->merge($escalationUsers);
+        }
+        $recipients = $recipients->unique('id')->reject(fn (User $user) => $user->id === $ownerId);
+
+        if ($recipients->isEmpty()) {
+            return;
+        }
+
+        $line = $this->digestLine($item, $type);
+        foreach ($recipients as $user) {
+            $digests[$user->id] ??= ['user' => $user, 'reminders' => [], 'escalations' => []];
+            $digests[$user->id][$escalate ? 'escalations' : 'reminders'][] = $line;
+        }
+
+        $marks[$type]['reminded'][] = $item->id;
+        if ($escalate) {
+            $marks[$type]['escalated'][] = $item->id;
+        }
+    }
+
+    /**
+     * Whoever signs the timesheet's current workflow step.
+     *
+     * @return Collection<int, User>
+     */
+    private function timesheetApprovers(Timesheet $timesheet): Collection
+    {
+        $step = $this->workflow->currentStep($timesheet);
+
+        if ($step['approver'] === TenantApprovalWorkflow::APPROVER_ROLE) {
+            return $this->usersWithRoles([(string) $step['role']]);
+        }
+
+        $managers = $timesheet->project?->projectManagers()->get() ?? collect();
+
+        return $managers->merge($this->delegatesOf($managers, ApprovalDelegation::SCOPE_TIMESHEETS, (int) $timesheet->project_id));
+    }
+
+    /**
+     * @return Collection<int, User>
+     */
+    private function expenseApprovers(Expense $expense): Collection
+    {
+        $managers = $expense->project?->expenseManagers()->get() ?? collect();
+
+        return $managers->merge($this->delegatesOf($managers, ApprovalDelegation::SCOPE_EXPENSES, (int) $expense->project_id));
+    }
+
+    /**
+     * Substitutes currently approving on behalf of the given managers on the project.
+     *
+     * @param  Collection<int, User>  $managers
+     * @return Collection<int, User>
+     */
+    private function delegatesOf(Collection $managers, string $type, int $projectId): Collection
+    {
+        if ($managers->isEmpty()) {
+            return collect();
+        }
+
+        return ApprovalDelegation::query()
+            ->active()
+            ->covering($type)
+            ->whereIn('delegator_id', $managers->pluck('id'))
+            ->where(fn (Builder $query) => $query->whereNull('project_id')->orWhere('project_id', $projectId))
+            ->with('delegate')
+            ->get()
+            ->pluck('delegate')
+            ->filter()
+            ->values();
+    }
+
+    /**
+     * Holders of any of the roles; unknown role names simply match nobody.
+     *
+     * @param  list<string>  $roles
+     * @return Collection<int, User>
+     */
+    private function usersWithRoles(array $roles): Collection
+    {
+        return User::query()
+            ->whereHas('roles', fn (Builder $query) => $query->whereIn('name', $roles))
+            ->get();
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function digestLine(Model $item, string $type): array
+    {
+        return [
+            'type' => $type,
+            'id' => $item->id,
+            'technician' => $item->technician?->name ?? '—',
+            'project' => $item->project?->name ?? '—',
+            'date' => $item->date?->toDateString(),
+            'summary' => $type === 'timesheets'
+                ? number_format((float) $item->hours_worked, 2) . ' h'
+                : number_format((float) $item->amount, 2),
+            'waiting_hours' => (int) floor($item->submitted_at->diffInMinutes(now(), true) / 60),
+        ];
+    }
+}
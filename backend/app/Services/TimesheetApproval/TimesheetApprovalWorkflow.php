@@ -0,0 +1,228 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\TimesheetApproval;
+
+use App\Models\Timesheet;
+use App\Models\TimesheetStepApproval;
+use App\Models\User;
+use App\Services\TimesheetValidation\TimesheetValidationService;
+use App\Tenancy\TenantApprovalWorkflow;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Walks submitted timesheets through the tenant's approval chain.
+ *
+ * A submitted entry waits at `approval_step`; approving it signs that step off and moves it to
+ * the next one, and signing off the last step approves the entry. Project-manager steps belong
+ * to the project's managers (and their substitutes), role steps to every holder of the role.
+ */
+final class TimesheetApprovalWorkflow
+{
+    public function __construct(
+        private readonly TenantApprovalWorkflow $config,
+        private readonly TimesheetValidationService $validation,
+    ) {
+    }
+
+    /**
+     * @return list<array{key: string, label: string, approver: string, role: ?string}>
+     */
+    public function steps(): array
+    {
+        return $this->config->resolve(tenancy()->tenant)['steps'];
+    }
+
+    /**
+     * The step a submitted entry waits at. Entries left beyond a shortened chain wait at its last step.
+     *
+     * @return array{key: string, label: string, approver: string, role: ?string}
+     */
+    public function currentStep(Timesheet $timesheet): array
+    {
+        $steps = $this->steps();
+
+        return $steps[$this->stepIndex($timesheet, $steps)];
+    }
+
+    /**
+     * Signs off the entry's current step. Returns true when that approved the entry, false when
+     * it moved on to the next step.
+     */
+    public function approve(Timesheet $timesheet, ?User $onBehalfOf = null): bool
+    {
+        $steps = $this->steps();
+        $index = $this->stepIndex($timesheet, $steps);
+        $isLast = $index === count($steps) - 1;
+
+        DB::connection('tenant')->transaction(function () use ($timesheet, $steps, $index, $isLast, $onBehalfOf) {
+            $timesheet->stepApprovals()->create([
+                'step' => $index,
+                'step_key' => $steps[$index]['key'],
+                'approved_by' => Auth::id(),
+                'on_behalf_of' => $onBehalfOf?->id,
+            ]);
+
+            if ($isLast) {
+                $timesheet->approve($onBehalfOf);
+            } else {
+                $timesheet->update(['approval_step' => $index + 1]);
+            }
+        });
+
+        return $isLast;
+    }
+
+    /**
+     * Approves a freshly submitted entry when the tenant's auto-approve rule covers it: no more
+     * hours than the limit and, unless the rule waives it, no AI flag. Entries never analysed
+     * are analysed first.
+     */
+    public function autoApprove(Timesheet $timesheet): bool
+    {
+        $rule = $this->config->resolve(tenancy()->tenant)['auto_approve'];
+        if ($rule === null || $timesheet->status !== 'submitted') {
+            return false;
+        }
+
+        if ((float) $timesheet->hours_worked > $rule['max_hours']) {
+            return false;
+        }
+
+        if ($rule['require_no_ai_flag']) {
+            if ($timesheet->ai_flagged === null) {
+                $this->validation->summarize($timesheet);
+            }
+            if ($timesheet->ai_flagged) {
+                return false;
+            }
+        }
+
+        $steps = $this->steps();
+        $from = $this->stepIndex($timesheet, $steps);
+
+        DB::connection('tenant')->transaction(function () use ($timesheet, $steps, $from) {
+            foreach (array_slice($steps, $from, null, true) as $index => $step) {
+                $timesheet->stepApprovals()->create([
+                    'step' => $index,
+                    'step_key' => $step['key'],
+                    'approved_by' => null,
+                ]);
+            }
+
+            $timesheet->approveAutomatically();
+        });
+
+        return true;
+    }
+
+    /**
+     * Narrows a query of submitted entries to those waiting at a step the user signs: steps of
+     * projects in $projectIds (managed or delegated) and steps of the roles they hold.
+     *
+     * @param  array<int>  $projectIds
+     */
+    public function whereAwaiting(Builder $query, User $user, array $projectIds): Builder
+    {
+        $steps = $this->steps();
+        $lastIndex = count($steps) - 1;
+
+        return $query->where(function (Builder $inner) use ($steps, $lastIndex, $user, $projectIds) {
+            $owned = false;
+
+            foreach ($steps as $index => $step) {
+                $atStep = fn (Builder $q) => $index === $lastIndex
+                    ? $q->where('approval_step', '>=', $index)
+                    : $q->where('approval_step', $index);
+
+                if ($step['approver'] === TenantApprovalWorkflow::APPROVER_ROLE) {
+                    if (!$user->hasRole($step['role'])) {
+                        continue;
+                    }
+                    $inner->orWhere(fn (Builder $q) => $atStep($q));
+                } else {
+                    if ($projectIds === []) {
+                        continue;
+                    }
+                    $inner->orWhere(fn (Builder $q) => $atStep($q)->whereIn('project_id', $projectIds));
+                }
+
+                $owned = true;
+            }
+
+            if (!$owned) {
+                $inner->whereRaw('1 = 0');
+            }
+        });
+    }
+
+    /**
+     * Whether the user signs any role step, so they review entries beyond the projects they manage.
+     */
+    public function signsRoleStep(User $user): bool
+    {
+        foreach ($this->steps() as $step) {
+            if ($step['approver'] === TenantApprovalWorkflow::APPROVER_ROLE && $user->hasRole($step['role'])) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Step tracker of the entry's current approval round.
+     *
+     * @return array{current_step: ?int, steps: list<array<string, mixed>>}
+     */
+    public function progress(Timesheet $timesheet): array
+    {
+        $steps = $this->steps();
+        $isSubmitted = $timesheet->status === 'submitted';
+        $isApproved = in_array($timesheet->status, ['approved', 'closed'], true);
+        $current = $isSubmitted ? $this->stepIndex($timesheet, $steps) : null;
+
+        $approvals = $timesheet->relationLoaded('stepApprovals')
+            ? $timesheet->stepApprovals
+            : $timesheet->stepApprovals()->with(['approvedBy:id,name', 'onBehalfOf:id,name'])->get();
+        $approvals = $approvals->keyBy('step');
+
+        $tracker = [];
+        foreach ($steps as $index => $step) {
+            /** @var TimesheetStepApproval|null $approval */
+            $approval = $approvals->get($index);
+
+            $state = match (true) {
+                $isApproved, $current !== null && $index < $current => 'done',
+                $current === $index => 'current',
+                default => 'pending',
+            };
+
+            $tracker[] = [
+                'key' => $step['key'],
+                'label' => $step['label'],
+                'state' => $state,
+                'automatic' => $state === 'done' && $approval !== null && $approval->approved_by === null,
+                'approved_by' => $state === 'done' ? $approval?->approvedBy?->only(['id', 'name']) : null,
+                'on_behalf_of' => $state === 'done' ? $approval?->onBehalfOf?->only(['id', 'name']) : null,
+                'approved_at' => $state === 'done' ? $approval?->created_at?->toIso8601String() : null,
+            ];
+        }
+
+        return [
+            'current_step' => $current,
+            'steps' => $tracker,
+        ];
+    }
+
+    /**
+     * @param  list<array<string, mixed>>  $steps
+     */
+    private function stepIndex(Timesheet $timesheet, array $steps): int
+    {
+        return max(0, min((int) $timesheet->approval_step, count($steps) - 1));
+    }
+}
@@ -0,0 +1,354 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\TimesheetImport;
+
+use App\Models\Absence;
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\TimesheetWeek;
+use App\Models\User;
+use App\Services\TimesheetValidation\TimesheetShift;
+use Carbon\CarbonImmutable;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Str;
+
+/**
+ * Checks and creates timesheet rows imported from a spreadsheet (CSV) or calendar (.ics) file.
+ *
+ * Rows arrive already mapped to fields by the import wizard, with project, task and location as
+ * names. Names are matched leniently (case, accents, punctuation and small typos are ignored)
+ * against the projects the user is a member of, then each row goes through the same rules as a
+ * single entry: active task, locked weeks, approved absences, overlaps (with existing entries and
+ * with the other rows) and the daily hour cap. Only rows without errors are created.
+ */
+final class TimesheetImportService
+{
+    public const MAX_ROWS = 500;
+
+    /** Lowest similarity (0..1) accepted for a name that does not match exactly. */
+    private const MIN_SIMILARITY = 0.75;
+
+    public function __construct(private readonly TimesheetShift $shift)
+    {
+    }
+
+    /**
+     * Checks every row without saving anything.
+     *
+     * @param list<array<string, mixed>> $rows
+     * @return list<array{row: int, valid: bool, errors: list<string>, warnings: list<string>, entry: array<string, mixed>|null}>
+     */
+    public function preview(array $rows, User $user, Technician $technician): array
+    {
+        $projects = Project::with(['tasks' => fn ($query) => $query->with('locations:id,name')])->get();
+        $memberProjectIds = $user->projects()->pluck('projects.id')->map(fn ($id) => (int) $id)->all();
+        $locations = Location::query()->orderByDesc('is_active')->orderBy('name')->get(['id', 'name', 'is_active']);
+        $dailyCap = (float) config('timesheets.daily_hour_cap', 12);
+        $isAdmin = $user->hasRole('Admin');
+
+        /** @var array<string, float> $batchHours hours of accepted rows per date */
+        $batchHours = [];
+        /** @var list<array{0: int, 1: int}> $batchWindows absolute windows of accepted rows */
+        $batchWindows = [];
+        /** @var array<string, float> $existingHours */
+        $existingHours = [];
+
+        $results = [];
+        foreach (array_values($rows) as $index => $row) {
+            $errors = [];
+            $warnings = [];
+            $entry = null;
+
+            $date = $this->parseDate((string) ($row['date'] ?? ''));
+            $start = $this->parseTime((string) ($row['start_time'] ?? ''));
+            $end = $this->parseTime((string) ($row['end_time'] ?? ''));
+
+            if ($date === null) {
+                $errors[] = 'Missing or invalid date.';
+            }
+            if ($start === null || $end === null) {
+                $errors[] = 'Missing or invalid start/end time.';
+            }
+
+            $window = $start !== null && $end !== null ? $this->shift->window($start, $end) : null;
+            if ($start !== null && $end !== null && $window === null) {
+                $errors[] = 'End time must differ from start time.';
+            }
+            $hours = $window !== null ? round(($window[1] - $window[0]) / 60, 2) : 0.0;
+            if ($window !== null && $hours < 0.25) {
+                $errors[] = 'Minimum 15 minutes (0.25 hours) required.';
+            }
+
+            [$project, $projectError] = $this->matchProject((string) ($row['project'] ?? ''), $projects, $memberProjectIds);
+            if ($projectError !== null) {
+                $errors[] = $projectError;
+            }
+
+            [$task, $taskError] = $project ? $this->matchTask((string) ($row['task'] ?? ''), $project) : [null, null];
+            if ($taskError !== null) {
+                $errors[] = $taskError;
+            }
+
+            [$location, $locationError] = $task ? $this->matchLocation((string) ($row['location'] ?? ''), $task, $locations) : [null, null];
+            if ($locationError !== null) {
+                $errors[] = $locationError;
+            }
+
+            if ($errors === [] && $date !== null) {
+                $timezone = $this->shift->timezoneForLocation((int) $location->id);
+
+                if (!$isAdmin && TimesheetWeek::isLockedFor((int) $technician->id, $date)) {
+                    $errors[] = sprintf('The week of %s is already submitted or approved.', $date);
+                }
+
+                if ($absence = Absence::conflictFor((int) $technician->id, $date, $window)) {
+                    $errors[] = $absence->conflictMessage();
+                }
+
+                if ($this->shift->findOverlap((int) $technician->id, $date, $start, $end, $timezone) !== null) {
+                    $errors[] = sprintf('Overlaps with an existing entry on %s.', $date);
+                }
+
+                $absolute = $this->shift->absoluteWindow($date, $start, $end, $timezone);
+                foreach ($batchWindows as $other) {
+                    if ($absolute !== null && $absolute[0] < $other[1] && $other[0] < $absolute[1]) {
+                        $errors[] = sprintf('Overlaps with another imported row on %s.', $date);
+                        break;
+                    }
+                }
+
+                $existingHours[$date] ??= (float) Timesheet::where('technician_id', $technician->id)->whereDate('date', $date)->sum('hours_worked');
+                if ($existingHours[$date] + ($batchHours[$date] ?? 0.0) + $hours > $dailyCap) {
+                    $errors[] = sprintf('Daily total exceeds %.0f hours on %s.', $dailyCap, $date);
+                }
+
+                if ($errors === []) {
+                    $batchHours[$date] = ($batchHours[$date] ?? 0.0) + $hours;
+                    if ($absolute !== null) {
+                        $batchWindows[] = $absolute;
+                    }
+                }
+
+                $description = trim((string) ($row['description'] ?? ''));
+                if ($description === '') {
+                    $description = $task->name;
+                    $warnings[] = 'No description; the task name is used.';
+                }
+
+                $entry = [
+                    'date' => $date,
+                    'start_time' => $start,
+                    'end_time' => $end,
+                    'hours_worked' => $hours,
+                    'project_id' => $project->id,
+                    'project_name' => $project->name,
+                    'task_id' => $task->id,
+                    'task_name' => $task->name,
+                    'location_id' => $location->id,
+                    'location_name' => $location->name,
+                    'timezone' => $timezone,
+                    'description' => mb_substr($description, 0, 1000),
+                ];
+            }
+
+            $results[] = [
+                'row' => $index + 1,
+                'valid' => $errors === [],
+                'errors' => $errors,
+                'warnings' => $warnings,
+                'entry' => $entry,
+            ];
+        }
+
+        return $results;
+    }
+
+    /**
+     * Checks the rows again and creates the valid ones as drafts of the technician.
+     *
+     * @param list<array<string, mixed>> $rows
+     * @return array{created_ids: list<int>, results: list<array<string, mixed>>}
+     */
+    public function import(array $rows, User $user, Technician $technician): array
+    {
+        return DB::connection('tenant')->transaction(function () use ($rows, $user, $technician) {
+            $results = $this->preview($rows, $user, $technician);
+            $createdIds = [];
+
+            foreach ($results as $result) {
+                if (!$result['valid'] || $result['entry'] === null) {
+                    continue;
+                }
+
+                $entry = $result['entry'];
+                $timesheet = Timesheet::create([
+                    'technician_id' => $technician->id,
+                    'project_id' => $entry['project_id'],
+                    'task_id' => $entry['task_id'],
+                    'location_id' => $entry['location_id'],
+                    'date' => $entry['date'],
+                    'start_time' => $entry['start_time'],
+                    'end_time' => $entry['end_time'],
+                    'timezone' => $entry['timezone'],
+                    'hours_worked' => $entry['hours_worked'],
+                    'description' => $entry['description'],
+                    'status' => 'draft',
+                    'created_by' => $user->id,
+                    'updated_by' => $user->id,
+                ]);
+                $createdIds[] = (int) $timesheet->id;
+            }
+
+            return ['created_ids' => $createdIds, 'results' => $results];
+        });
+    }
+
+    /**
+     * @param Collection<int, Project> $projects
+     * @param array<int,int> $memberProjectIds
+     * @return array{0: Project|null, 1: string|null}
+     */
+    private function matchProject(string $name, Collection $projects, array $memberProjectIds): array
+    {
+        if (trim($name) === '') {
+            return [null, 'Missing project.'];
+        }
+
+        $project = $this->bestMatch($name, $projects);
+        if (!$project) {
+            return [null, sprintf('Project "%s" not found.', trim($name))];
+        }
+
+        if (!in_array((int) $project->id, $memberProjectIds, true)) {
+            return [null, sprintf('You are not a member of project "%s".', $project->name)];
+        }
+
+        return [$project, null];
+    }
+
+    /**
+     * A project with a single active task needs no task column.
+     *
+     * @return array{0: Task|null, 1: string|null}
+     */
+    private function matchTask(string $name, Project $project): array
+    {
+        $active = $project->tasks->where('is_active', true)->values();
+
+        if (trim($name) === '') {
+            return $active->count() === 1
+                ? [$active->first(), null]
+                : [null, sprintf('Missing task (project "%s" has %d active tasks).', $project->name, $active->count())];
+        }
+
+        $task = $this->bestMatch($name, $project->tasks);
+        if (!$task) {
+            return [null, sprintf('Task "%s" not found in project "%s".', trim($name), $project->name)];
+        }
+
+        if (!$task->is_active) {
+            return [null, sprintf('Task "%s" is no longer active.', $task->name)];
+        }
+
+        return [$task, null];
+    }
+
+    /**
+     * Locations are matched among the task's locations first, then all locations. A task with a
+     * single location needs no location column.
+     *
+     * @param Collection<int, Location> $locations
+     * @return array{0: Location|null, 1: string|null}
+     */
+    private function matchLocation(string $name, Task $task, Collection $locations): array
+    {
+        if (trim($name) === '') {
+            return $task->locations->count() === 1 ? [$task->locations->first(), null] : [null, 'Missing location.'];
+        }
+
+        $location = $this->bestMatch($name, $task->locations) ?? $this->bestMatch($name, $locations);
+
+        return $location ? [$location, null] : [null, sprintf('Location "%s" not found.', trim($name))];
+    }
+
+    /**
+     * Candidate whose name matches best: exact (normalized) first, then the most similar one
+     * above MIN_SIMILARITY, a name contained in the other counting as 0.9.
+     *
+     * @template T of \Illuminate\Database\Eloquent\Model
+     * @param Collection<int, T> $candidates
+     * @return T|null
+     */
+    private function bestMatch(string $name, Collection $candidates): mixed
+    {
+        $needle = $this->normalizeName($name);
+        if ($needle === '') {
+            return null;
+        }
+
+        $best = null;
+        $bestScore = 0.0;
+        foreach ($candidates as $candidate) {
+            $haystack = $this->normalizeName((string) $candidate->name);
+            if ($haystack === '') {
+                continue;
+            }
+
+            if ($haystack === $needle) {
+                return $candidate;
+            }
+
+            $score = str_contains($haystack, $needle) || str_contains($needle, $haystack)
+                ? 0.9
+                : 1 - levenshtein($needle, $haystack) / max(strlen($needle), strlen($haystack));
+
+            if ($score > $bestScore) {
+                $best = $candidate;
+                $bestScore = $score;
+            }
+        }
+
+        return $bestScore >= self::MIN_SIMILARITY ? $best : null;
+    }
+
+    private function normalizeName(string $value): string
+    {
+        $ascii = Str::lower(Str::ascii($value));
+
+        return trim((string) preg_replace('/[^a-z0-9]+/', ' ', $ascii));
+    }
+
+    private function parseDate(string $value): ?string
+    {
+        if (!preg_match('/^(\d{4})-(\d{2})-(\d{2})$/', trim($value), $matches)) {
+            return null;
+        }
+
+        if (!checkdate((int) $matches[2], (int) $matches[3], (int) $matches[1])) {
+            return null;
+        }
+
+        return CarbonImmutable::createFromDate((int) $matches[1], (int) $matches[2], (int) $matches[3])->toDateString();
+    }
+
+    private function parseTime(string $value): ?string
+    {
+        if (!preg_match('/^(\d{1,2}):(\d{2})(?::\d{2})?$/', trim($value), $matches)) {
+            return null;
+        }
+
+        $hour = (int) $matches[1];
+        $minute = (int) $matches[2];
+        if ($hour > 23 || $minute > 59) {
+            return null;
+        }
+
+        return sprintf('%02d:%02d', $hour, $minute);
+    }
+}
@@ -0,0 +1,128 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\TimesheetValidation;
+
+/**
+ * Checks the unpaid breaks of a single entry and derives the hours left after them.
+ *
+ * Breaks must sit inside the entry and must not overlap. With an enforced tenant break rule,
+ * no stretch of work between breaks of at least min_minutes may exceed required_after_hours.
+ * On overnight entries, break times before the entry start are on the next day.
+ */
+final class TimesheetBreakValidator
+{
+    public function __construct(private readonly TimesheetShift $shift)
+    {
+    }
+
+    /**
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     * @param array{required_after_hours: float, min_minutes: int, enforce: bool} $rule
+     * @return string[] error messages, empty when the breaks are valid
+     */
+    public function validate(?string $start, ?string $end, array $breaks, array $rule): array
+    {
+        $window = $this->shift->window($start, $end);
+
+        if ($window === null) {
+            return $breaks === [] ? [] : ['Breaks require the entry start and end time.'];
+        }
+
+        [$entryStart, $entryEnd] = $window;
+        $intervals = $this->intervals($window, $breaks);
+
+        foreach ($intervals as [$breakStart, $breakEnd]) {
+            if ($breakEnd <= $breakStart) {
+                return ['Break end time must be after its start time.'];
+            }
+            if ($breakStart < $entryStart || $breakEnd > $entryEnd) {
+                return ['Breaks must be within the entry start and end time.'];
+            }
+        }
+
+        for ($i = 1; $i < count($intervals); $i++) {
+            if ($intervals[$i][0] < $intervals[$i - 1][1]) {
+                return ['Breaks must not overlap.'];
+            }
+        }
+
+        if (!$rule['enforce']) {
+            return [];
+        }
+
+        $longestStretch = $this->longestWorkStretch($entryStart, $entryEnd, $intervals, $rule['min_minutes']);
+        if ($longestStretch > (int) round($rule['required_after_hours'] * 60)) {
+            return [sprintf(
+                'A break of at least %d minutes is required after %s hours of continuous work.',
+                $rule['min_minutes'],
+                rtrim(rtrim(number_format($rule['required_after_hours'], 2, '.', ''), '0'), '.')
+            )];
+        }
+
+        return [];
+    }
+
+    /**
+     * Hours between start and end minus the break time, rounded to 2 decimals.
+     *
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     */
+    public function workedHours(string $start, string $end, array $breaks): float
+    {
+        $window = $this->shift->window($start, $end);
+        if ($window === null) {
+            return 0.0;
+        }
+
+        $span = $window[1] - $window[0];
+        $breakMinutes = array_sum(array_map(
+            fn (array $interval) => max(0, $interval[1] - $interval[0]),
+            $this->intervals($window, $breaks)
+        ));
+
+        return round(max(0, $span - $breakMinutes) / 60, 2);
+    }
+
+    /**
+     * @param array<int, array{0: int, 1: int}> $intervals sorted by start
+     */
+    private function longestWorkStretch(int $entryStart, int $entryEnd, array $intervals, int $minBreakMinutes): int
+    {
+        $longest = 0;
+        $stretchStart = $entryStart;
+
+        foreach ($intervals as [$breakStart, $breakEnd]) {
+            // Shorter pauses do not count as a break for the rule.
+            if ($breakEnd - $breakStart < $minBreakMinutes) {
+                continue;
+            }
+            $longest = max($longest, $breakStart - $stretchStart);
+            $stretchStart = $breakEnd;
+        }
+
+        return max($longest, $entryEnd - $stretchStart);
+    }
+
+    /**
+     * @param array{0: int, 1: int} $window
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     * @return array<int, array{0: int, 1: int}>
+     */
+    private function intervals(array $window, array $breaks): array
+    {
+        $intervals = array_map(
+            fn (array $break) => $this->shift->breakWindow(
+                $window,
+                $break['start_time'] ?? null,
+                $break['end_time'] ?? null
+            ) ?? [0, 0],
+            array_values($breaks)
+        );
+
+        usort($intervals, fn (array $a, array $b) => $a[0] <=> $b[0]);
+
+        return $intervals;
+    }
+}
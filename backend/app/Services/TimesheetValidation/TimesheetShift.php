@@ -0,0 +1,214 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\TimesheetValidation;
+
+use App\Models\Location;
+use App\Models\Timesheet;
+use Carbon\CarbonImmutable;
+
+/**
+ * Time window of an entry on the calendar.
+ *
+ * An entry whose end_time is earlier than its start_time is an overnight shift: it starts on
+ * its date and ends on the next day. Windows are minutes from midnight of the entry date, so
+ * an overnight 22:00–06:00 entry is [1320, 1800].
+ *
+ * Date and times are wall-clock values in the entry timezone (the site it was worked at), so the
+ * daily cap applies to the calendar days of the site; overlaps are compared on absolute instants.
+ */
+final class TimesheetShift
+{
+    public const MINUTES_PER_DAY = 1440;
+
+    public function isOvernight(?string $start, ?string $end): bool
+    {
+        $window = $this->window($start, $end);
+
+        return $window !== null && $window[1] > self::MINUTES_PER_DAY;
+    }
+
+    /**
+     * @return array{0: int, 1: int}|null null when a time is missing or both are equal
+     */
+    public function window(?string $start, ?string $end): ?array
+    {
+        $startMinutes = $this->toMinutes($start);
+        $endMinutes = $this->toMinutes($end);
+
+        if ($startMinutes === null || $endMinutes === null || $startMinutes === $endMinutes) {
+            return null;
+        }
+
+        return [$startMinutes, $endMinutes > $startMinutes ? $endMinutes : $endMinutes + self::MINUTES_PER_DAY];
+    }
+
+    /**
+     * Hours worked per calendar date. Overnight entries are split at midnight in proportion to
+     * the work (breaks excluded) on each side, so the parts add up to hours_worked.
+     *
+     * @return array<string, float>
+     */
+    public function hoursByDay(Timesheet $timesheet): array
+    {
+        $date = CarbonImmutable::parse($timesheet->date)->toDateString();
+        $hours = max(0.0, (float) $timesheet->hours_worked);
+        $window = $this->window($timesheet->start_time, $timesheet->end_time);
+
+        if ($window === null || $window[1] <= self::MINUTES_PER_DAY) {
+            return [$date => $hours];
+        }
+
+        $breaks = $timesheet->relationLoaded('breaks') ? $timesheet->breaks : $timesheet->breaks()->get();
+        $before = self::MINUTES_PER_DAY - $window[0];
+        $after = $window[1] - self::MINUTES_PER_DAY;
+
+        foreach ($breaks as $break) {
+            $breakWindow = $this->breakWindow($window, $break->start_time, $break->end_time);
+            if ($breakWindow === null) {
+                continue;
+            }
+            $before -= max(0, min($breakWindow[1], self::MINUTES_PER_DAY) - $breakWindow[0]);
+            $after -= max(0, $breakWindow[1] - max($breakWindow[0], self::MINUTES_PER_DAY));
+        }
+
+        $worked = max(0, $before) + max(0, $after);
+        $firstDay = $worked > 0 ? round($hours * max(0, $before) / $worked, 2) : $hours;
+
+        return [
+            $date => $firstDay,
+            CarbonImmutable::parse($date)->addDay()->toDateString() => round($hours - $firstDay, 2),
+        ];
+    }
+
+    /**
+     * Break range inside the entry window; on overnight entries, break times before the
+     * entry start fall on the next day.
+     *
+     * @param array{0: int, 1: int} $entryWindow
+     * @return array{0: int, 1: int}|null
+     */
+    public function breakWindow(array $entryWindow, ?string $start, ?string $end): ?array
+    {
+        $breakStart = $this->toMinutes($start);
+        $breakEnd = $this->toMinutes($end);
+
+        if ($breakStart === null || $breakEnd === null) {
+            return null;
+        }
+
+        if ($entryWindow[1] > self::MINUTES_PER_DAY) {
+            if ($breakStart < $entryWindow[0]) {
+                $breakStart += self::MINUTES_PER_DAY;
+            }
+            if ($breakEnd < $entryWindow[0] || $breakEnd < $breakStart) {
+                $breakEnd += self::MINUTES_PER_DAY;
+            }
+        }
+
+        return [$breakStart, $breakEnd];
+    }
+
+    /**
+     * Timezone entries at the location are recorded in; the tenant timezone when the location
+     * has none (or an invalid one).
+     */
+    public function timezoneForLocation(?int $locationId): string
+    {
+        $timezone = $locationId ? Location::whereKey($locationId)->value('timezone') : null;
+
+        return $this->validTimezone($timezone) ?? $this->defaultTimezone();
+    }
+
+    public function timezoneOf(Timesheet $timesheet): string
+    {
+        return $this->validTimezone($timesheet->timezone) ?? $this->defaultTimezone();
+    }
+
+    /**
+     * Entry window as minutes since the Unix epoch, from the wall-clock times in the timezone.
+     *
+     * @return array{0: int, 1: int}|null
+     */
+    public function absoluteWindow(string $date, ?string $start, ?string $end, string $timezone): ?array
+    {
+        $window = $this->window($start, $end);
+        if ($window === null) {
+            return null;
+        }
+
+        $midnight = CarbonImmutable::parse($date, $timezone)->startOfDay();
+
+        return [$this->instant($midnight, $window[0]), $this->instant($midnight, $window[1])];
+    }
+
+    /**
+     * First entry of the technician whose window overlaps the given one. Entries are compared
+     * as absolute instants in their own timezones, looking two days either side so overnight
+     * shifts and entries recorded in other timezones are caught too.
+     */
+    public function findOverlap(int $technicianId, string $date, ?string $start, ?string $end, ?string $timezone = null, ?int $ignoreId = null): ?Timesheet
+    {
+        $window = $this->absoluteWindow($date, $start, $end, $this->validTimezone($timezone) ?? $this->defaultTimezone());
+        if ($window === null) {
+            return null;
+        }
+
+        $day = CarbonImmutable::parse($date)->startOfDay();
+
+        $candidates = Timesheet::where('technician_id', $technicianId)
+            ->whereDate('date', '>=', $day->subDays(2)->toDateString())
+            ->whereDate('date', '<=', $day->addDays(2)->toDateString())
+            ->whereNotNull('start_time')
+            ->whereNotNull('end_time')
+            ->when($ignoreId !== null, fn ($query) => $query->where('id', '!=', $ignoreId))
+            ->get();
+
+        foreach ($candidates as $candidate) {
+            $other = $this->absoluteWindow(
+                CarbonImmutable::parse($candidate->date)->toDateString(),
+                $candidate->start_time,
+                $candidate->end_time,
+                $this->timezoneOf($candidate)
+            );
+
+            if ($other !== null && $window[0] < $other[1] && $other[0] < $window[1]) {
+                return $candidate;
+            }
+        }
+
+        return null;
+    }
+
+    private function instant(CarbonImmutable $midnight, int $minutes): int
+    {
+        $at = $midnight
+            ->addDays(intdiv($minutes, self::MINUTES_PER_DAY))
+            ->setTime(intdiv($minutes % self::MINUTES_PER_DAY, 60), $minutes % 60);
+
+        return intdiv($at->getTimestamp(), 60);
+    }
+
+    private function validTimezone(?string $timezone): ?string
+    {
+        return $timezone !== null && in_array($timezone, timezone_identifiers_list(\DateTimeZone::ALL_WITH_BC), true)
+            ? $timezone
+            : null;
+    }
+
+    private function defaultTimezone(): string
+    {
+        // SetTenantContext points app.timezone at the tenant timezone.
+        return (string) (config('app.timezone') ?: 'UTC');
+    }
+
+    private function toMinutes(?string $time): ?int
+    {
+        if ($time === null || !preg_match('/(\d{1,2}):(\d{2})/', $time, $matches)) {
+            return null;
+        }
+
+        return ((int) $matches[1]) * 60 + (int) $matches[2];
+    }
+}
@@ -8,13 +8,15 @@
 use App\Models\Timesheet;
 use App\Models\User;
 use App\Services\TimesheetAIService;
+use Carbon\CarbonImmutable;
 
 class TimesheetValidationService
 {
-    private const DAILY_HOUR_CAP = 12.0;
+    public const DAILY_HOUR_CAP = 12.0;
 
     public function __construct(
-        private readonly TimesheetAIService $aiService
+        private readonly TimesheetAIService $aiService,
+        private readonly TimesheetShift $shift
     ) {
     }
 
@@ -45,11 +47,31 @@ public function summarize(Timesheet $timesheet, ?User $actingUser = null): Times
         return new TimesheetValidationResult($snapshot, $warnings, $notes, $status, $aiInsights);
     }
 
+    /**
+     * Highest calendar-day total among the days the entry covers; overnight entries count
+     * toward both days, split at midnight.
+     */
     private function calculateDailyTotal(Timesheet $timesheet): float
     {
-        return (float) Timesheet::where('technician_id', $timesheet->technician_id)
-            ->whereDate('date', $timesheet->date)
-            ->sum('hours_worked');
+        $date = CarbonImmutable::parse($timesheet->date);
+        $entryDays = array_keys($this->shift->hoursByDay($timesheet));
+
+        $totals = array_fill_keys($entryDays, 0.0);
+        $nearby = Timesheet::with('breaks')
+            ->where('technician_id', $timesheet->technician_id)
+            ->whereDate('date', '>=', $date->subDay()->toDateString())
+            ->whereDate('date', '<=', $date->addDay()->toDateString())
+            ->get();
+
+        foreach ($nearby as $entry) {
+            foreach ($this->shift->hoursByDay($entry) as $day => $hours) {
+                if (array_key_exists($day, $totals)) {
+                    $totals[$day] += $hours;
+                }
+            }
+        }
+
+        return (float) max($totals);
     }
 
     private function detectOverlap(Timesheet $timesheet): string
@@ -58,26 +80,16 @@ private function detectOverlap(Timesheet $timesheet): string
             return 'warning';
         }
 
-        $overlapExists = Timesheet::where('technician_id', $timesheet->technician_id)
-            ->where('date', $timesheet->date)
-            ->where('id', '!=', $timesheet->id)
-            ->whereNotNull('start_time')
-            ->whereNotNull('end_time')
-            ->where(function ($query) use ($timesheet) {
-                $query->where(function ($q) use ($timesheet) {
-                    $q->where('start_time', '<=', $timesheet->start_time)
-                        ->where('end_time', '>', $timesheet->start_time);
-                })->orWhere(function ($q) use ($timesheet) {
-                    $q->where('start_time', '<', $timesheet->end_time)
-                        ->where('end_time', '>=', $timesheet->end_time);
-                })->orWhere(function ($q) use ($timesheet) {
-                    $q->where('start_time', '>=', $timesheet->start_time)
-                        ->where('end_time', '<=', $timesheet->end_time);
-                });
-            })
-            ->exists();
-
-        return $overlapExists ? 'block' : 'ok';
+        $overlap = $this->shift->findOverlap(
+            (int) $timesheet->technician_id,
+            CarbonImmutable::parse($timesheet->date)->toDateString(),
+            $timesheet->start_time,
+            $timesheet->end_time,
+            $timesheet->timezone,
+            $timesheet->id
+        );
+
+        return $overlap !== null ? 'block' : 'ok';
     }
 
     private function checkMembership(?Project $project, Timesheet $timesheet): bool
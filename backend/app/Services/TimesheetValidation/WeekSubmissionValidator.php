@@ -0,0 +1,110 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Services\TimesheetValidation;
+
+use App\Models\Timesheet;
+use Illuminate\Support\Collection;
+
+/**
+ * Checks a technician's whole week before it is submitted: every entry needs a task and
+ * a location, entries must not overlap (across midnight and timezones too) and no calendar day
+ * of the site may exceed the cap.
+ */
+class WeekSubmissionValidator
+{
+    public function __construct(private readonly TimesheetShift $shift)
+    {
+    }
+
+    /**
+     * @param Collection<int, Timesheet> $timesheets
+     * @return array<int, array{code: string, date: string, timesheet_id: int|null, message: string}>
+     */
+    public function validate(Collection $timesheets): array
+    {
+        $issues = [];
+
+        foreach ($timesheets as $timesheet) {
+            $date = $timesheet->date->toDateString();
+
+            if (!$timesheet->task_id) {
+                $issues[] = $this->issue('missing_task', $date, $timesheet->id, 'Entry has no task.');
+            }
+
+            if (!$timesheet->location_id) {
+                $issues[] = $this->issue('missing_location', $date, $timesheet->id, 'Entry has no location.');
+            }
+        }
+
+        // Overnight entries count toward both calendar days.
+        $totals = [];
+        foreach ($timesheets as $timesheet) {
+            foreach ($this->shift->hoursByDay($timesheet) as $day => $hours) {
+                $totals[$day] = ($totals[$day] ?? 0.0) + $hours;
+            }
+        }
+        ksort($totals);
+
+        foreach ($totals as $date => $total) {
+            if ($total > TimesheetValidationService::DAILY_HOUR_CAP) {
+                $issues[] = $this->issue(
+                    'over_cap',
+                    (string) $date,
+                    null,
+                    sprintf(
+                        'Daily total (%.2f h) exceeds cap of %.0f h.',
+                        $total,
+                        TimesheetValidationService::DAILY_HOUR_CAP
+                    )
+                );
+            }
+        }
+
+        // Windows on one timeline (minutes since the epoch, each entry in its own timezone) so entries
+        // crossing midnight or recorded at sites in other timezones are compared too.
+        $timed = $timesheets
+            ->map(function (Timesheet $timesheet) {
+                $window = $this->shift->absoluteWindow(
+                    $timesheet->date->toDateString(),
+                    $timesheet->start_time,
+                    $timesheet->end_time,
+                    $this->shift->timezoneOf($timesheet)
+                );
+
+                return $window === null ? null : [$timesheet, $window[0], $window[1]];
+            })
+            ->filter()
+            ->sortBy(fn (array $item) => $item[1])
+            ->values();
+
+        $latestEnd = null;
+        foreach ($timed as [$timesheet, $start, $end]) {
+            if ($latestEnd !== null && $start < $latestEnd) {
+                $issues[] = $this->issue(
+                    'overlap',
+                    $timesheet->date->toDateString(),
+                    $timesheet->id,
+                    'Time interval overlaps with another entry.'
+                );
+            }
+            $latestEnd = max($latestEnd ?? 0, $end);
+        }
+
+        return $issues;
+    }
+
+    /**
+     * @return array{code: string, date: string, timesheet_id: int|null, message: string}
+     */
+    private function issue(string $code, string $date, ?int $timesheetId, string $message): array
+    {
+        return [
+            'code' => $code,
+            'date' => $date,
+            'timesheet_id' => $timesheetId,
+            'message' => $message,
+        ];
+    }
+}
@@ -0,0 +1,63 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tenancy;
+
+use App\Models\Tenant;
+
+final class TenantAbsenceTypes
+{
+    /**
+     * Returns the absence types people can request (vacation, sick leave, training...).
+     *
+     * Reads settings.absence_types as a list of {key, label, paid, color}; entries without a
+     * valid key are dropped, and an empty or missing list falls back to the timesheets config.
+     *
+     * @return list<array{key: string, label: string, paid: bool, color: string}>
+     */
+    public function resolve(?Tenant $tenant): array
+    {
+        $types = $this->normalize(data_get($tenant?->settings ?? [], 'absence_types'));
+
+        return $types !== [] ? $types : $this->normalize(config('timesheets.absence_types', []));
+    }
+
+    /**
+     * @return list<string>
+     */
+    public function keys(?Tenant $tenant): array
+    {
+        return array_column($this->resolve($tenant), 'key');
+    }
+
+    /**
+     * @return list<array{key: string, label: string, paid: bool, color: string}>
+     */
+    private function normalize(mixed $types): array
+    {
+        if (!is_array($types)) {
+            return [];
+        }
+
+        $normalized = [];
+        foreach ($types as $type) {
+            $key = is_array($type) ? trim((string) ($type['key'] ?? '')) : '';
+            if (!preg_match('/^[a-z0-9_]{1,32}$/', $key) || isset($normalized[$key])) {
+                continue;
+            }
+
+            $color = (string) ($type['color'] ?? '');
+            $label = trim((string) ($type['label'] ?? ''));
+
+            $normalized[$key] = [
+                'key' => $key,
+                'label' => $label !== '' ? $label : ucfirst(str_replace('_', ' ', $key)),
+                'paid' => (bool) ($type['paid'] ?? true),
+                'color' => preg_match('/^#[0-9a-fA-F]{6}$/', $color) ? $color : '#90a4ae',
+            ];
+        }
+
+        return array_values($normalized);
+    }
+}
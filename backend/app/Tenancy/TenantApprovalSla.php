@@ -0,0 +1,44 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tenancy;
+
+use App\Models\Tenant;
+
+final class TenantApprovalSla
+{
+    /**
+     * Returns how long submitted timesheets and expenses may wait for a decision.
+     *
+     * Reads settings.approval_sla.{warning_hours,overdue_hours,escalate_after_hours,reminders_enabled};
+     * missing or out-of-range values fall back to the timesheets config. The thresholds are kept
+     * in ascending order, so an item is never overdue before it is in warning.
+     *
+     * @return array{warning_hours: int, overdue_hours: int, escalate_after_hours: int, reminders_enabled: bool}
+     */
+    public function resolve(?Tenant $tenant): array
+    {
+        $settings = $tenant?->settings ?? [];
+        $default = (array) config('timesheets.approval_sla', []);
+
+        $warning = $this->hours(data_get($settings, 'approval_sla.warning_hours'), $default['warning_hours'] ?? 24);
+        $overdue = max($warning, $this->hours(data_get($settings, 'approval_sla.overdue_hours'), $default['overdue_hours'] ?? 48));
+        $escalate = max($overdue, $this->hours(data_get($settings, 'approval_sla.escalate_after_hours'), $default['escalate_after_hours'] ?? 96));
+        $remindersEnabled = data_get($settings, 'approval_sla.reminders_enabled');
+
+        return [
+            'warning_hours' => $warning,
+            'overdue_hours' => $overdue,
+            'escalate_after_hours' => $escalate,
+            'reminders_enabled' => is_bool($remindersEnabled)
+                ? $remindersEnabled
+                : (bool) ($default['reminders_enabled'] ?? true),
+        ];
+    }
+
+    private function hours(mixed $value, mixed $fallback): int
+    {
+        return is_numeric($value) && (int) $value > 0 && (int) $value <= 720 ? (int) $value : (int) $fallback;
+    }
+}
@@ -0,0 +1,114 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tenancy;
+
+use App\Models\Tenant;
+
+final class TenantApprovalWorkflow
+{
+    public const APPROVER_PROJECT_MANAGER = 'project_manager';
+    public const APPROVER_ROLE = 'role';
+
+    private const MAX_STEPS = 5;
+
+    /**
+     * Returns the approval chain submitted timesheets go through.
+     *
+     * Reads settings.timesheet_approval.steps as a list of {key, label, approver, role}, where
+     * approver is "project_manager" or "role" (the latter naming the role that signs the step),
+     * and settings.timesheet_approval.auto_approve as {max_hours, require_no_ai_flag}. Invalid
+     * steps are dropped; without any valid step the timesheets config applies.
+     *
+     * @return array{
+     *     steps: list<array{key: string, label: string, approver: string, role: ?string}>,
+     *     auto_approve: ?array{max_hours: float, require_no_ai_flag: bool}
+     * }
+     */
+    public function resolve(?Tenant $tenant): array
+    {
+        $settings = $tenant?->settings ?? [];
+        $default = (array) config('timesheets.approval_workflow', []);
+
+        $steps = $this->normalizeSteps(data_get($settings, 'timesheet_approval.steps'));
+        if ($steps === []) {
+            $steps = $this->normalizeSteps($default['steps'] ?? null);
+        }
+        if ($steps === []) {
+            $steps = [[
+                'key' => 'project_manager',
+                'label' => 'Project manager',
+                'approver' => self::APPROVER_PROJECT_MANAGER,
+                'role' => null,
+            ]];
+        }
+
+        $autoApprove = data_get($settings, 'timesheet_approval.auto_approve', $default['auto_approve'] ?? null);
+
+        return [
+            'steps' => $steps,
+            'auto_approve' => $this->normalizeAutoApprove($autoApprove),
+        ];
+    }
+
+    /**
+     * @return list<array{key: string, label: string, approver: string, role: ?string}>
+     */
+    private function normalizeSteps(mixed $steps): array
+    {
+        if (!is_array($steps)) {
+            return [];
+        }
+
+        $normalized = [];
+        foreach ($steps as $step) {
+            if (!is_array($step)) {
+                continue;
+            }
+
+            $key = is_string($step['key'] ?? null) ? trim($step['key']) : '';
+            $approver = $step['approver'] ?? self::APPROVER_PROJECT_MANAGER;
+            $role = is_string($step['role'] ?? null) && trim($step['role']) !== '' ? trim($step['role']) : null;
+
+            if ($key === '' || isset($normalized[$key])) {
+                continue;
+            }
+            if ($approver !== self::APPROVER_PROJECT_MANAGER && ($approver !== self::APPROVER_ROLE || $role === null)) {
+                continue;
+            }
+
+            $label = is_string($step['label'] ?? null) && trim($step['label']) !== '' ? trim($step['label']) : $key;
+            $normalized[$key] = [
+                'key' => $key,
+                'label' => $label,
+                'approver' => $approver,
+                'role' => $approver === self::APPROVER_ROLE ? $role : null,
+            ];
+        }
+
+        return array_slice(array_values($normalized), 0, self::MAX_STEPS);
+    }
+
+    /**
+     * @return ?array{max_hours: float, require_no_ai_flag: bool}
+     */
+    private function normalizeAutoApprove(mixed $rule): ?array
+    {
+        if (!is_array($rule)) {
+            return null;
+        }
+
+        $maxHours = $rule['max_hours'] ?? null;
+        if (!is_numeric($maxHours) || (float) $maxHours <= 0 || (float) $maxHours > 24) {
+            return null;
+        }
+
+        $requireNoFlag = $rule['require_no_ai_flag'] ?? true;
+
+        return [
+            'max_hours' => (float) $maxHours,
+            'require_no_ai_flag' => is_bool($requireNoFlag) ? $requireNoFlag : true,
+        ];
+    }
+}
@@ -0,0 +1,37 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tenancy;
+
+use App\Models\Tenant;
+
+final class TenantBreakRule
+{
+    /**
+     * Returns the minimum-break rule checked when entries are saved.
+     *
+     * Reads settings.break_rule.{required_after_hours,min_minutes,enforce}; missing or
+     * out-of-range values fall back to the timesheets config.
+     *
+     * @return array{required_after_hours: float, min_minutes: int, enforce: bool}
+     */
+    public function resolve(?Tenant $tenant): array
+    {
+        $settings = $tenant?->settings ?? [];
+
+        $requiredAfter = data_get($settings, 'break_rule.required_after_hours');
+        $minMinutes = data_get($settings, 'break_rule.min_minutes');
+        $enforce = data_get($settings, 'break_rule.enforce');
+
+        return [
+            'required_after_hours' => is_numeric($requiredAfter) && (float) $requiredAfter > 0 && (float) $requiredAfter <= 24
+                ? (float) $requiredAfter
+                : (float) config('timesheets.break_required_after_hours', 6.0),
+            'min_minutes' => is_numeric($minMinutes) && (int) $minMinutes > 0 && (int) $minMinutes <= 240
+                ? (int) $minMinutes
+                : (int) config('timesheets.break_min_minutes', 30),
+            'enforce' => is_bool($enforce) ? $enforce : (bool) config('timesheets.enforce_breaks', false),
+        ];
+    }
+}
@@ -53,6 +53,22 @@ public function __construct(
          * Time format pattern (display-focused).
          */
         public string $timeFormat,
+        /**
+         * Rounding rule for tracked time: {increment_minutes: int, mode: 'nearest'|'up'|'down'}.
+         */
+        public array $timeRounding = [],
+        /**
+         * Minimum-break rule: {required_after_hours: float, min_minutes: int, enforce: bool}.
+         */
+        public array $breakRule = [],
+        /**
+         * Absence types people can request: list of {key, label, paid, color}.
+         */
+        public array $absenceTypes = [],
+        /**
+         * Approval waiting-time thresholds: {warning_hours, overdue_hours, escalate_after_hours, reminders_enabled}.
+         */
+        public array $approvalSla = [],
     ) {
     }
 
@@ -84,6 +100,11 @@ public static function fromTenant(Tenant $tenant): self
         $dateFormat = (string) $localeConfig['date_format'];
         $timeFormat = (string) $localeConfig['time_format'];
 
+        $timeRounding = app(TenantTimeRounding::class)->resolve($tenant);
+        $breakRule = app(TenantBreakRule::class)->resolve($tenant);
+        $absenceTypes = app(TenantAbsenceTypes::class)->resolve($tenant);
+        $approvalSla = app(TenantApprovalSla::class)->resolve($tenant);
+
         $decimalSeparator = (string) $localeConfig['decimal_separator'];
         $thousandsSeparator = (string) $localeConfig['thousands_separator'];
 
@@ -103,6 +124,10 @@ public static function fromTenant(Tenant $tenant): self
             thousandsSeparator: $thousandsSeparator,
             dateFormat: $dateFormat,
             timeFormat: $timeFormat,
+            timeRounding: $timeRounding,
+            breakRule: $breakRule,
+            absenceTypes: $absenceTypes,
+            approvalSla: $approvalSla,
         );
     }
 
@@ -121,6 +146,10 @@ public function toTenantContextArray(): array
             'date_format' => $this->dateFormat,
             'currency' => $this->currency,
             'currency_symbol' => $this->currencySymbol,
+            'time_rounding' => $this->timeRounding,
+            'break_rule' => $this->breakRule,
+            'absence_types' => $this->absenceTypes,
+            'approval_sla' => $this->approvalSla,
         ];
     }
 }
@@ -0,0 +1,47 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tenancy;
+
+use App\Models\Tenant;
+
+final class TenantTimeRounding
+{
+    public const MODE_NEAREST = 'nearest';
+    public const MODE_UP = 'up';
+    public const MODE_DOWN = 'down';
+
+    private const MODES = [
+        self::MODE_NEAREST,
+        self::MODE_UP,
+        self::MODE_DOWN,
+    ];
+
+    /**
+     * Increments (in minutes) a tenant may round tracked time to.
+     */
+    private const INCREMENTS = [1, 5, 6, 10, 15, 30];
+
+    /**
+     * Returns the rounding rule applied to timer-tracked start/end times.
+     *
+     * Reads settings.time_rounding.{increment_minutes,mode}; unknown values fall back to
+     * config('timesheets.time_rounding').
+     *
+     * @return array{increment_minutes: int, mode: string}
+     */
+    public function resolve(Tenant $tenant): array
+    {
+        $defaultIncrement = (int) config('timesheets.time_rounding.increment_minutes', 15);
+        $defaultMode = (string) config('timesheets.time_rounding.mode', self::MODE_NEAREST);
+
+        $increment = (int) data_get($tenant->settings ?? [], 'time_rounding.increment_minutes', 0);
+        $mode = strtolower(trim((string) data_get($tenant->settings ?? [], 'time_rounding.mode', '')));
+
+        return [
+            'increment_minutes' => in_array($increment, self::INCREMENTS, true) ? $increment : $defaultIncrement,
+            'mode' => in_array($mode, self::MODES, true) ? $mode : $defaultMode,
+        ];
+    }
+}
@@ -0,0 +1,48 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Traits;
+
+/**
+ * Stamps when a record starts and stops waiting for approval.
+ *
+ * Entering "submitted" starts the clock (submitted_at) and clears the previous decision and
+ * reminders; leaving it records decided_at. Moving a timesheet to the next approval step
+ * clears the reminders so the next approver is chased on their own.
+ */
+trait TracksApprovalSla
+{
+    protected static function bootTracksApprovalSla(): void
+    {
+        static::saving(function ($model) {
+            if (!$model->isDirty('status')) {
+                if ($model->isDirty('approval_step')) {
+                    $model->sla_reminded_at = null;
+                    $model->sla_escalated_at = null;
+                }
+
+                return;
+            }
+
+            if ($model->status === 'submitted') {
+                $model->submitted_at = now();
+                $model->decided_at = null;
+                $model->sla_reminded_at = null;
+                $model->sla_escalated_at = null;
+            } elseif ($model->getOriginal('status') === 'submitted') {
+                $model->decided_at = now();
+            }
+        });
+    }
+
+    public function initializeTracksApprovalSla(): void
+    {
+        $this->mergeCasts([
+            'submitted_at' => 'datetime',
+            'decided_at' => 'datetime',
+            'sla_reminded_at' => 'datetime',
+            'sla_escalated_at' => 'datetime',
+        ]);
+    }
+}
@@ -4,7 +4,29 @@
 
 return [
     'daily_hour_cap' => 12.0,
+    'expected_daily_hours' => 8.0,
     'break_required_after_hours' => 6.0,
     'break_min_minutes' => 30,
     'enforce_breaks' => false,
+    'time_rounding' => [
+        'increment_minutes' => 15,
+        'mode' => 'nearest',
+    ],
+    'absence_types' => [
+        ['key' => 'vacation', 'label' => 'Vacation', 'paid' => true, 'color' => '#26a69a'],
+        ['key' => 'sick', 'label' => 'Sick leave', 'paid' => true, 'color' => '#ef5350'],
+        ['key' => 'training', 'label' => 'Training', 'paid' => true, 'color' => '#7e57c2'],
+    ],
+    'approval_workflow' => [
+        'steps' => [
+            ['key' => 'project_manager', 'label' => 'Project manager', 'approver' => 'project_manager'],
+        ],
+        'auto_approve' => null,
+    ],
+    'approval_sla' => [
+        'warning_hours' => 24,
+        'overdue_hours' => 48,
+        'escalate_after_hours' => 96,
+        'reminders_enabled' => true,
+    ],
 ];
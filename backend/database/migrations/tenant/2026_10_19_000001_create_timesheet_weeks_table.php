@@ -0,0 +1,35 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('timesheet_weeks', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('technician_id')->constrained('technicians')->restrictOnDelete();
+            $table->date('week_start');
+            $table->date('week_end');
+            $table->enum('status', ['submitted', 'approved', 'rejected'])->default('submitted');
+            $table->unsignedBigInteger('submitted_by')->nullable();
+            $table->timestamp('submitted_at')->nullable();
+            $table->unsignedBigInteger('reviewed_by')->nullable();
+            $table->timestamp('reviewed_at')->nullable();
+            $table->text('rejection_reason')->nullable();
+            $table->timestamps();
+
+            $table->unique(['technician_id', 'week_start']);
+            $table->index(['status', 'week_start']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('timesheet_weeks');
+    }
+};
@@ -0,0 +1,29 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('timesheet_comments', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('timesheet_id')->constrained('timesheets')->cascadeOnDelete();
+            $table->unsignedBigInteger('user_id')->nullable();
+            $table->enum('kind', ['comment', 'rejection', 'resubmission'])->default('comment');
+            $table->text('body');
+            $table->timestamps();
+
+            $table->index(['timesheet_id', 'created_at']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('timesheet_comments');
+    }
+};
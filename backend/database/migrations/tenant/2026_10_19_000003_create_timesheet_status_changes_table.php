@@ -0,0 +1,29 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('timesheet_status_changes', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('timesheet_id')->constrained('timesheets')->cascadeOnDelete();
+            $table->string('from_status', 20)->nullable();
+            $table->string('to_status', 20);
+            $table->unsignedBigInteger('changed_by')->nullable();
+            $table->timestamp('created_at')->nullable();
+
+            $table->index(['timesheet_id', 'created_at']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('timesheet_status_changes');
+    }
+};
@@ -0,0 +1,28 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('timesheet_breaks', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('timesheet_id')->constrained('timesheets')->cascadeOnDelete();
+            $table->time('start_time');
+            $table->time('end_time');
+            $table->timestamps();
+
+            $table->index(['timesheet_id', 'start_time']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('timesheet_breaks');
+    }
+};
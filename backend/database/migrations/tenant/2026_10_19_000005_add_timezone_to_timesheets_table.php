@@ -0,0 +1,23 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('timesheets', function (Blueprint $table) {
+            // IANA timezone of the site the times were recorded in; null means the tenant timezone.
+            $table->string('timezone', 64)->nullable()->after('end_time');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('timesheets', function (Blueprint $table) {
+            $table->dropColumn('timezone');
+        });
+    }
+};
@@ -0,0 +1,37 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('absences', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('technician_id')->constrained('technicians')->cascadeOnDelete();
+            $table->string('absence_type', 32);
+            $table->date('start_date');
+            $table->date('end_date');
+            $table->enum('half_day', ['morning', 'afternoon'])->nullable();
+            $table->enum('status', ['pending', 'approved', 'rejected', 'cancelled'])->default('pending');
+            $table->text('reason')->nullable();
+            $table->unsignedBigInteger('requested_by')->nullable();
+            $table->unsignedBigInteger('reviewed_by')->nullable();
+            $table->timestamp('reviewed_at')->nullable();
+            $table->text('rejection_reason')->nullable();
+            $table->timestamps();
+
+            $table->index(['technician_id', 'start_date', 'end_date']);
+            $table->index(['status', 'start_date']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('absences');
+    }
+};
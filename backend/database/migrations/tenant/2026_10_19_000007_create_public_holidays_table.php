@@ -0,0 +1,29 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('public_holidays', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('country_id')->constrained('countries')->cascadeOnDelete();
+            $table->date('date');
+            $table->string('name');
+            $table->timestamps();
+
+            $table->unique(['country_id', 'date']);
+            $table->index('date');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('public_holidays');
+    }
+};
@@ -0,0 +1,46 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('timesheet_signoffs', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('technician_id')->constrained('technicians')->cascadeOnDelete();
+            $table->foreignId('location_id')->nullable()->constrained('locations')->nullOnDelete();
+            $table->date('period_start');
+            $table->date('period_end');
+            $table->decimal('total_hours', 8, 2)->default(0);
+            $table->string('signer_name', 120);
+            $table->string('signer_email')->nullable();
+            // JPEG data URL of the signature drawn by the customer
+            $table->longText('signature');
+            $table->text('notes')->nullable();
+            $table->unsignedBigInteger('signed_by')->nullable();
+            $table->timestamp('signed_at');
+            $table->timestamps();
+
+            $table->index(['technician_id', 'period_start']);
+        });
+
+        Schema::table('timesheets', function (Blueprint $table) {
+            $table->foreignId('signoff_id')->nullable()->after('status')
+                ->constrained('timesheet_signoffs')->nullOnDelete();
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('timesheets', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('signoff_id');
+        });
+
+        Schema::dropIfExists('timesheet_signoffs');
+    }
+};
@@ -0,0 +1,36 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('timesheet_templates', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained('users')->cascadeOnDelete();
+            $table->string('name', 120);
+            $table->foreignId('project_id')->constrained('projects')->cascadeOnDelete();
+            $table->foreignId('task_id')->constrained('tasks')->cascadeOnDelete();
+            $table->foreignId('location_id')->nullable()->constrained('locations')->nullOnDelete();
+            $table->time('start_time')->nullable();
+            $table->time('end_time')->nullable();
+            $table->text('description')->nullable();
+            // Favourites are pinned project/task/location combinations, listed first
+            $table->boolean('is_favourite')->default(false);
+            $table->timestamp('last_used_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['user_id', 'is_favourite']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('timesheet_templates');
+    }
+};
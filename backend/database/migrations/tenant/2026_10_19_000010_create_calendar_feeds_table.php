@@ -0,0 +1,35 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('calendar_feeds', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained('users')->cascadeOnDelete();
+            $table->string('name', 120);
+            // Feeds are looked up by the SHA-256 of their token; the token itself is stored
+            // encrypted so the subscription URLs can be shown again
+            $table->char('token_hash', 64)->unique();
+            $table->text('token');
+            $table->boolean('include_timesheets')->default(true);
+            $table->boolean('include_travels')->default(true);
+            $table->boolean('include_planning')->default(true);
+            $table->timestamp('last_accessed_at')->nullable();
+            $table->timestamps();
+
+            $table->index('user_id');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('calendar_feeds');
+    }
+};
@@ -0,0 +1,52 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('approval_delegations', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('delegator_id')->constrained('users')->cascadeOnDelete();
+            $table->foreignId('delegate_id')->constrained('users')->cascadeOnDelete();
+            $table->string('scope', 20);
+            // Null covers every project the delegator manages
+            $table->foreignId('project_id')->nullable()->constrained('projects')->cascadeOnDelete();
+            $table->date('starts_on');
+            $table->date('ends_on');
+            $table->timestamp('revoked_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['delegate_id', 'starts_on', 'ends_on']);
+            $table->index('delegator_id');
+        });
+
+        Schema::table('timesheet_status_changes', function (Blueprint $table) {
+            $table->unsignedBigInteger('on_behalf_of')->nullable()->after('changed_by');
+        });
+
+        Schema::table('expenses', function (Blueprint $table) {
+            $table->unsignedBigInteger('reviewed_by')->nullable();
+            $table->unsignedBigInteger('reviewed_on_behalf_of')->nullable();
+            $table->timestamp('reviewed_at')->nullable();
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('expenses', function (Blueprint $table) {
+            $table->dropColumn(['reviewed_by', 'reviewed_on_behalf_of', 'reviewed_at']);
+        });
+
+        Schema::table('timesheet_status_changes', function (Blueprint $table) {
+            $table->dropColumn('on_behalf_of');
+        });
+
+        Schema::dropIfExists('approval_delegations');
+    }
+};
@@ -0,0 +1,40 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('timesheets', function (Blueprint $table) {
+            // Index into the tenant's approval chain while the entry is submitted
+            $table->unsignedTinyInteger('approval_step')->default(0)->after('status');
+        });
+
+        Schema::create('timesheet_step_approvals', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('timesheet_id')->constrained('timesheets')->cascadeOnDelete();
+            $table->unsignedTinyInteger('step');
+            $table->string('step_key', 40);
+            // Null when the entry was approved automatically
+            $table->unsignedBigInteger('approved_by')->nullable();
+            $table->unsignedBigInteger('on_behalf_of')->nullable();
+            $table->timestamp('created_at')->nullable();
+
+            $table->index(['timesheet_id', 'step']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('timesheet_step_approvals');
+
+        Schema::table('timesheets', function (Blueprint $table) {
+            $table->dropColumn('approval_step');
+        });
+    }
+};
@@ -0,0 +1,42 @@
+<?php
+
+declare(strict_types=1);
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        foreach (['timesheets', 'expenses'] as $tableName) {
+            Schema::table($tableName, function (Blueprint $table) {
+                // Waiting time runs from submission to the approver's decision
+                $table->timestamp('submitted_at')->nullable()->after('status');
+                $table->timestamp('decided_at')->nullable()->after('submitted_at');
+                // Last SLA reminder/escalation sent for the current approver
+                $table->timestamp('sla_reminded_at')->nullable()->after('decided_at');
+                $table->timestamp('sla_escalated_at')->nullable()->after('sla_reminded_at');
+
+                $table->index(['status', 'submitted_at']);
+            });
+
+            // Items already waiting start their clock at their last change
+            DB::table($tableName)
+                ->where('status', 'submitted')
+                ->update(['submitted_at' => DB::raw('updated_at')]);
+        }
+    }
+
+    public function down(): void
+    {
+        foreach (['timesheets', 'expenses'] as $tableName) {
+            Schema::table($tableName, function (Blueprint $table) {
+                $table->dropIndex(['status', 'submitted_at']);
+                $table->dropColumn(['submitted_at', 'decided_at', 'sla_reminded_at', 'sla_escalated_at']);
+            });
+        }
+    }
+};
@@ -0,0 +1,72 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Approvals Waiting</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #0d6efd; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+        .header.escalation { background-color: #dc3545; }
+        .content { background-color: #f8f9fa; padding: 30px; border-radius: 0 0 5px 5px; }
+        .details { background-color: white; padding: 15px; margin: 20px 0; border-radius: 5px; }
+        .details table { width: 100%; border-collapse: collapse; font-size: 14px; }
+        .details th, .details td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #e9ecef; }
+        .button { display: inline-block; background-color: #0d6efd; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #6c757d; }
+    </style>
+</head>
+<body>
+    <div class="header{{ count($escalations) > 0 ? ' escalation' : '' }}">
+        <h1>{{ count($escalations) > 0 ? 'Approvals Escalated' : 'Approvals Waiting' }}</h1>
+    </div>
+
+    <div class="content">
+        <p>Hello {{ $recipient->name }},</p>
+
+        <p>The items below have been waiting for a decision longer than the agreed <strong>{{ $thresholds['overdue_hours'] }} hours</strong>.</p>
+
+        @foreach ([
+            ['title' => 'Escalated (waiting over ' . $thresholds['escalate_after_hours'] . ' hours)', 'items' => $escalations],
+            ['title' => 'Overdue', 'items' => $reminders],
+        ] as $section)
+            @if (count($section['items']) > 0)
+                <div class="details">
+                    <h3>{{ $section['title'] }}</h3>
+                    <table>
+                        <tr>
+                            <th>Type</th>
+                            <th>Technician</th>
+                            <th>Project</th>
+                            <th>Date</th>
+                            <th></th>
+                            <th>Waiting</th>
+                        </tr>
+                        @foreach ($section['items'] as $item)
+                            <tr>
+                                <td>{{ $item['type'] === 'timesheets' ? 'Timesheet' : 'Expense' }}</td>
+                                <td>{{ $item['technician'] }}</td>
+                                <td>{{ $item['project'] }}</td>
+                                <td>{{ $item['date'] }}</td>
+                                <td>{{ $item['summary'] }}</td>
+                                <td>{{ $item['waiting_hours'] }} h</td>
+                            </tr>
+                        @endforeach
+                    </table>
+                </div>
+            @endif
+        @endforeach
+
+        <p style="text-align: center;">
+            <a href="{{ config('app.frontend_url') }}/approvals" class="button">Open Approvals</a>
+        </p>
+
+        <p>Best regards,<br>The TimePerk Team</p>
+    </div>
+
+    <div class="footer">
+        <p>This is an automated message from TimePerk. Please do not reply to this email.</p>
+        <p>© {{ now()->year }} TimePerk. All rights reserved.</p>
+    </div>
+</body>
+</html>
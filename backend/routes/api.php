@@ -6,6 +6,14 @@
 use App\Http\Controllers\Api\TechnicianController;
 use App\Http\Controllers\Api\ProjectController;
 use App\Http\Controllers\Api\TimesheetController;
+use App\Http\Controllers\Api\TimesheetWeekController;
+use App\Http\Controllers\Api\AbsenceController;
+use App\Http\Controllers\Api\TimesheetImportController;
+use App\Http\Controllers\Api\TimesheetSignoffController;
+use App\Http\Controllers\Api\TimesheetTemplateController;
+use App\Http\Controllers\Api\TimesheetActivityController;
+use App\Http\Controllers\Api\CalendarFeedController;
+use App\Http\Controllers\Api\ApprovalDelegationController;
 use App\Http\Controllers\Api\ExpenseController;
 use App\Http\Controllers\Api\AuthController;
 use App\Http\Controllers\Api\SocialAuthController;
@@ -22,6 +30,7 @@
 use App\Http\Controllers\StripeWebhookController;
 use App\Http\Controllers\PublicContactController;
 use App\Http\Controllers\CountryController;
+use App\Http\Controllers\PublicHolidayController;
 
 Route::post('/public/contact', [PublicContactController::class, 'submit']);
 /*
@@ -112,6 +121,11 @@
     Route::get('expenses/{expense}/attachment', [ExpenseController::class, 'downloadAttachment'])
         ->middleware(['auth.token', 'throttle:read']);
 
+    // Personal iCalendar feeds - fetched by calendar apps, the secret token in the URL is the credential
+    Route::get('calendar-feeds/{token}/{calendar}.ics', [CalendarFeedController::class, 'show'])
+        ->where(['token' => '[A-Za-z0-9]{48}', 'calendar' => 'timesheets|travels|planning'])
+        ->middleware('throttle:read');
+
     // Protected routes with tenant context and authentication
     // Note: SetSanctumTenantConnection runs globally via bootstrap/app.php prependToGroup('api')
     Route::middleware(['auth:sanctum', 'tenant.auth', 'subscription.write', 'user.last_seen'])->group(function () {
@@ -174,6 +188,8 @@
             // Reports (Approvals heatmap)
             Route::post('reports/approvals/heatmap', [ReportsController::class, 'approvalHeatmap'])
                 ->middleware(['permission:approve-timesheets|approve-expenses', 'throttle:read']);
+            Route::post('reports/approvals/heatmap/items', [ReportsController::class, 'approvalHeatmapItems'])
+                ->middleware(['permission:approve-timesheets|approve-expenses', 'throttle:read']);
 
             // AI (Approvals interpretation)
             Route::post('ai/approvals/query', [AiApprovalsController::class, 'query'])
@@ -233,15 +249,62 @@
     Route::post('timesheets', [TimesheetController::class, 'store'])->middleware(['tenant.bootstrapped', 'permission:create-timesheets', 'throttle:create']);
     
     // Specific routes BEFORE parameterized routes
+    // Bulk import of the caller's history from CSV / .ics files (mapped in the import wizard)
+    Route::post('timesheets/import/preview', [TimesheetImportController::class, 'preview'])->middleware(['tenant.bootstrapped', 'permission:create-timesheets', 'throttle:create']);
+    Route::post('timesheets/import', [TimesheetImportController::class, 'store'])->middleware(['tenant.bootstrapped', 'permission:create-timesheets', 'throttle:critical']);
+
     Route::get('timesheets/summary', [TimesheetController::class, 'summary'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
     Route::get('timesheets/week', [TimesheetController::class, 'week'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
     Route::get('timesheets/manager-view', [TimesheetController::class, 'managerView'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:read']);
     Route::get('timesheets/pending-counts', [TimesheetController::class, 'pendingCounts'])->middleware(['tenant.bootstrapped', 'throttle:read']);
     Route::get('timesheets/pending', [TimesheetController::class, 'pending'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:read']);
+
+    // Week-based submission and approval
+    Route::get('timesheets/weeks/status', [TimesheetWeekController::class, 'status'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::post('timesheets/weeks/submit', [TimesheetWeekController::class, 'submit'])->middleware(['tenant.bootstrapped', 'can.edit.timesheets', 'throttle:create']);
+    Route::get('timesheets/weeks/pending', [TimesheetWeekController::class, 'pending'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:read']);
+    Route::put('timesheets/weeks/{timesheetWeek}/approve', [TimesheetWeekController::class, 'approve'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:critical']);
+    Route::put('timesheets/weeks/{timesheetWeek}/reject', [TimesheetWeekController::class, 'reject'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:critical']);
+
+    // Absences (vacation, sick leave, training...) with manager approval
+    Route::get('absences', [AbsenceController::class, 'index'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::post('absences', [AbsenceController::class, 'store'])->middleware(['tenant.bootstrapped', 'can.edit.timesheets', 'throttle:create']);
+    Route::get('absences/pending', [AbsenceController::class, 'pending'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:read']);
+    Route::put('absences/{absence}/cancel', [AbsenceController::class, 'cancel'])->middleware(['tenant.bootstrapped', 'can.edit.timesheets', 'throttle:create']);
+    Route::put('absences/{absence}/approve', [AbsenceController::class, 'approve'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:critical']);
+    Route::put('absences/{absence}/reject', [AbsenceController::class, 'reject'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:critical']);
+
+    // Customer sign-off of field timesheets (signature captured on site, PDF service report)
+    Route::get('timesheet-signoffs', [TimesheetSignoffController::class, 'index'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::post('timesheet-signoffs', [TimesheetSignoffController::class, 'store'])->middleware(['tenant.bootstrapped', 'can.edit.timesheets', 'throttle:create']);
+    Route::get('timesheet-signoffs/{signoff}', [TimesheetSignoffController::class, 'show'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::get('timesheet-signoffs/{signoff}/pdf', [TimesheetSignoffController::class, 'pdf'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::delete('timesheet-signoffs/{signoff}', [TimesheetSignoffController::class, 'destroy'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets', 'throttle:critical']);
+
+    // Personal timesheet templates and recent project/task/location combinations
+    Route::get('timesheet-templates', [TimesheetTemplateController::class, 'index'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::get('timesheet-templates/recent', [TimesheetTemplateController::class, 'recent'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::post('timesheet-templates', [TimesheetTemplateController::class, 'store'])->middleware(['tenant.bootstrapped', 'permission:create-timesheets', 'throttle:create']);
+    Route::put('timesheet-templates/{template}', [TimesheetTemplateController::class, 'update'])->middleware(['tenant.bootstrapped', 'permission:create-timesheets', 'throttle:create']);
+    Route::post('timesheet-templates/{template}/use', [TimesheetTemplateController::class, 'use'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::delete('timesheet-templates/{template}', [TimesheetTemplateController::class, 'destroy'])->middleware(['tenant.bootstrapped', 'permission:create-timesheets', 'throttle:create']);
+
+    // Personal calendar feed URLs (timesheets, travels and planned tasks as .ics subscriptions)
+    Route::get('calendar-feeds', [CalendarFeedController::class, 'index'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::post('calendar-feeds', [CalendarFeedController::class, 'store'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:create']);
+    Route::put('calendar-feeds/{feed}', [CalendarFeedController::class, 'update'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:edit']);
+    Route::delete('calendar-feeds/{feed}', [CalendarFeedController::class, 'destroy'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:delete']);
+
+    // Out-of-office delegation of timesheet/expense approvals to a substitute approver
+    Route::get('approval-delegations', [ApprovalDelegationController::class, 'index'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets|approve-expenses', 'throttle:read']);
+    Route::post('approval-delegations', [ApprovalDelegationController::class, 'store'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets|approve-expenses', 'throttle:create']);
+    Route::delete('approval-delegations/{delegation}', [ApprovalDelegationController::class, 'destroy'])->middleware(['tenant.bootstrapped', 'permission:approve-timesheets|approve-expenses', 'throttle:delete']);
     
     // Parameterized routes
     Route::get('timesheets/{timesheet}', [TimesheetController::class, 'show'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
     Route::get('timesheets/{timesheet}/validation', [TimesheetController::class, 'validation'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::get('timesheets/{timesheet}/activity', [TimesheetActivityController::class, 'index'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:read']);
+    Route::post('timesheets/{timesheet}/comments', [TimesheetActivityController::class, 'store'])->middleware(['tenant.bootstrapped', 'permission:view-timesheets', 'throttle:create']);
     Route::put('timesheets/{timesheet}', [TimesheetController::class, 'update'])->middleware(['tenant.bootstrapped', 'can.edit.timesheets', 'throttle:edit']);
     Route::delete('timesheets/{timesheet}', [TimesheetController::class, 'destroy'])->middleware(['tenant.bootstrapped', 'can.edit.timesheets', 'throttle:delete']);
     
@@ -284,6 +347,13 @@
     Route::apiResource('countries', CountryController::class)
         ->only(['index', 'show', 'store', 'update', 'destroy']);
 
+    // Public holiday calendars per country
+    Route::get('public-holidays', [PublicHolidayController::class, 'range']);
+    Route::post('countries/{country}/holidays/import', [PublicHolidayController::class, 'import']);
+    Route::apiResource('countries.holidays', PublicHolidayController::class)
+        ->only(['index', 'store', 'update', 'destroy'])
+        ->scoped();
+
     // Locations - View for all, manage for admins
     Route::get('locations/active', [\App\Http\Controllers\LocationController::class, 'active'])->middleware('throttle:read');
     Route::get('locations', [\App\Http\Controllers\LocationController::class, 'index'])->middleware('throttle:read');
@@ -377,4 +377,137 @@ public function test_empty_range_returns_empty_days(): void
         $res->assertOk();
         $this->assertSame([], $res->json('days'));
     }
+
+    public function test_long_ranges_switch_to_monthly_buckets_with_project_breakdown(): void
+    {
+        $this->seedTenant();
+
+        [$owner] = $this->makeUserWithDeps('Owner', 'owner5@example.com', 'Owner');
+        $owner->givePermissionTo('approve-timesheets');
+        $owner->givePermissionTo('approve-expenses');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+        [$u1, $t1, $p1, $task, $loc] = $this->makeUserWithDeps('User 1', 'u5@example.com', 'Technician');
+
+        foreach (['2026-01-05' => 'submitted', '2026-01-20' => 'submitted', '2026-03-10' => 'approved'] as $date => $status) {
+            Timesheet::create([
+                'technician_id' => $t1->id,
+                'project_id' => $p1->id,
+                'task_id' => $task->id,
+                'location_id' => $loc->id,
+                'date' => $date,
+                'hours_worked' => 2,
+                'status' => $status,
+                'description' => $status,
+            ]);
+        }
+
+        Sanctum::actingAs($owner);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/reports/approvals/heatmap', [
+                'range' => ['from' => '2026-01-01', 'to' => '2026-12-31'],
+                'include' => ['timesheets' => true, 'expenses' => true],
+                'granularity' => 'day',
+            ])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('granularity');
+
+        $res = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/reports/approvals/heatmap', [
+                'range' => ['from' => '2026-01-01', 'to' => '2026-12-31'],
+                'include' => ['timesheets' => true, 'expenses' => true],
+                'breakdown' => 'project',
+            ]);
+
+        $res->assertOk()
+            ->assertJsonPath('meta.granularity', 'month')
+            ->assertJsonCount(12, 'meta.buckets')
+            ->assertJsonPath('meta.buckets.1', ['from' => '2026-02-01', 'to' => '2026-02-28'])
+            ->assertJsonPath('days.2026-01-01.timesheets.pending', 2)
+            ->assertJsonPath('days.2026-03-01.timesheets.approved', 1)
+            ->assertJsonPath('breakdown.by', 'project')
+            ->assertJsonPath('breakdown.rows.0.key', "project:{$p1->id}")
+            ->assertJsonPath('breakdown.rows.0.label', 'Project for User 1')
+            ->assertJsonPath('breakdown.rows.0.pending', 2)
+            ->assertJsonPath('breakdown.rows.0.buckets.2026-03-01.approved', 1);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/reports/approvals/heatmap', [
+                'range' => ['from' => '2026-01-01', 'to' => '2027-01-02'],
+                'include' => ['timesheets' => true, 'expenses' => true],
+            ])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('range');
+    }
+
+    public function test_cell_drill_down_lists_entries_pending_first(): void
+    {
+        $this->seedTenant();
+
+        [$owner] = $this->makeUserWithDeps('Owner', 'owner6@example.com', 'Owner');
+        $owner->givePermissionTo('approve-timesheets');
+        $owner->givePermissionTo('approve-expenses');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+        [$u1, $t1, $p1, $task, $loc] = $this->makeUserWithDeps('User 1', 'u6@example.com', 'Technician');
+
+        $approved = Timesheet::create([
+            'technician_id' => $t1->id,
+            'project_id' => $p1->id,
+            'task_id' => $task->id,
+            'location_id' => $loc->id,
+            'date' => '2026-01-08',
+            'hours_worked' => 3,
+            'status' => 'approved',
+            'description' => 'approved',
+        ]);
+        $pending = Timesheet::create([
+            'technician_id' => $t1->id,
+            'project_id' => $p1->id,
+            'task_id' => $task->id,
+            'location_id' => $loc->id,
+            'date' => '2026-01-06',
+            'hours_worked' => 5,
+            'status' => 'submitted',
+            'description' => 'pending',
+        ]);
+        $expense = Expense::create([
+            'technician_id' => $t1->id,
+            'project_id' => $p1->id,
+            'date' => '2026-01-07',
+            'amount' => 12.5,
+            'category' => 'meal',
+            'description' => 'pending',
+            'status' => 'submitted',
+        ]);
+
+        Sanctum::actingAs($owner);
+
+        $res = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/reports/approvals/heatmap/items', [
+                'range' => ['from' => '2026-01-05', 'to' => '2026-01-11'],
+                'include' => ['timesheets' => true, 'expenses' => true],
+            ]);
+
+        $res->assertOk()
+            ->assertJsonPath('meta.total', 3)
+            ->assertJsonPath('meta.truncated', false)
+            ->assertJsonPath('items.0.type', 'expenses')
+            ->assertJsonPath('items.0.id', $expense->id)
+            ->assertJsonPath('items.0.amount', 12.5)
+            ->assertJsonPath('items.1.id', $pending->id)
+            ->assertJsonPath('items.1.state', 'pending')
+            ->assertJsonPath('items.1.project.id', $p1->id)
+            ->assertJsonPath('items.2.id', $approved->id)
+            ->assertJsonPath('items.2.state', 'approved');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/reports/approvals/heatmap/items', [
+                'range' => ['from' => '2026-01-05', 'to' => '2026-01-11'],
+                'include' => ['timesheets' => true, 'expenses' => false],
+                'group' => 'awaiting',
+            ])
+            ->assertOk()
+            ->assertJsonPath('meta.total', 1)
+            ->assertJsonPath('items.0.id', $pending->id);
+    }
 }
@@ -0,0 +1,46 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Tenancy;
+
+use App\Models\User;
+use App\Tenancy\TenantContext;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+class TenantTimeRoundingTest extends TenantTestCase
+{
+    public function test_tenant_rounding_rule_is_exposed_in_the_tenant_context(): void
+    {
+        $this->tenant->forceFill([
+            'settings' => [
+                'region' => 'EU',
+                'time_rounding' => ['increment_minutes' => 6, 'mode' => 'up'],
+            ],
+        ])->saveQuietly();
+
+        $context = TenantContext::fromTenant($this->tenant);
+        $this->assertSame(['increment_minutes' => 6, 'mode' => 'up'], $context->timeRounding);
+
+        Sanctum::actingAs(User::factory()->create());
+
+        $response = $this->getJson('/api/user', $this->tenantHeaders());
+        $response->assertOk();
+        $response->assertJsonPath('tenant_context.time_rounding.increment_minutes', 6);
+        $response->assertJsonPath('tenant_context.time_rounding.mode', 'up');
+    }
+
+    public function test_unknown_rounding_settings_fall_back_to_the_configured_default(): void
+    {
+        $this->tenant->forceFill([
+            'settings' => [
+                'time_rounding' => ['increment_minutes' => 7, 'mode' => 'sideways'],
+            ],
+        ])->saveQuietly();
+
+        $context = TenantContext::fromTenant($this->tenant);
+
+        $this->assertSame(['increment_minutes' => 15, 'mode' => 'nearest'], $context->timeRounding);
+    }
+}
@@ -0,0 +1,257 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Absence;
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Tenancy\TenantContext;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class AbsencesTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location,5:User}
+     */
+    private function makeMemberWithManager(): array
+    {
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.absence@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $manager = User::create([
+            'name' => 'Manager',
+            'email' => 'manager.absence@example.com',
+            'password' => 'password',
+        ]);
+        $manager->assignRole('Manager');
+        $manager->givePermissionTo('approve-timesheets');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        Technician::create([
+            'name' => 'Manager',
+            'email' => $manager->email,
+            'role' => 'manager',
+            'user_id' => $manager->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Absence Project',
+            'description' => 'A',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $manager->id,
+            'project_role' => 'manager',
+            'expense_role' => 'manager',
+        ]);
+
+        return [$user, $tech, $project, $task, $location, $manager];
+    }
+
+    /**
+     * @return array<string, mixed>
+     */
+    private function entryPayload(Project $project, Task $task, Location $location, string $start, string $end, float $hours): array
+    {
+        return [
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => self::DAY,
+            'start_time' => $start,
+            'end_time' => $end,
+            'hours_worked' => $hours,
+            'description' => 'Work',
+        ];
+    }
+
+    public function test_technician_requests_and_manager_approves_an_absence(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, , , , $manager] = $this->makeMemberWithManager();
+
+        Sanctum::actingAs($user);
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/absences', [
+                'absence_type' => 'vacation',
+                'start_date' => self::DAY,
+                'end_date' => '2026-03-06',
+                'reason' => 'Family trip',
+            ]);
+
+        $created->assertCreated();
+        $this->assertSame('pending', $created->json('data.status'));
+        $this->assertEquals(3, $created->json('data.days'));
+        $absenceId = $created->json('data.id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/absences', ['absence_type' => 'sick', 'start_date' => '2026-03-05', 'end_date' => '2026-03-05'])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('start_date');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/absences/{$absenceId}/approve")
+            ->assertForbidden();
+
+        Sanctum::actingAs($manager);
+
+        $pending = $this->withHeaders($this->tenantHeaders())->getJson('/api/absences/pending');
+        $pending->assertOk();
+        $this->assertCount(1, $pending->json('data'));
+        $this->assertSame($tech->id, $pending->json('data.0.technician.id'));
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/absences/{$absenceId}/approve")
+            ->assertOk()
+            ->assertJsonPath('data.status', 'approved');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/absences/{$absenceId}/reject", ['reason' => 'Too late'])
+            ->assertUnprocessable();
+
+        $listed = $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/absences?from=2026-03-01&to=2026-03-31');
+        $listed->assertOk();
+        $this->assertSame([$absenceId], array_column($listed->json('data'), 'id'));
+    }
+
+    public function test_approved_absences_block_conflicting_time_entries(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location] = $this->makeMemberWithManager();
+
+        $absence = Absence::create([
+            'technician_id' => $tech->id,
+            'absence_type' => 'training',
+            'start_date' => self::DAY,
+            'end_date' => self::DAY,
+            'half_day' => 'morning',
+            'status' => 'approved',
+        ]);
+
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->entryPayload($project, $task, $location, '09:00', '13:00', 4))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('absence_conflict');
+
+        $afternoon = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->entryPayload($project, $task, $location, '13:00', '17:00', 4));
+        $afternoon->assertCreated();
+
+        $absence->update(['half_day' => null]);
+
+        $timesheetId = Timesheet::query()->value('id');
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$timesheetId}", ['start_time' => '14:00', 'end_time' => '17:00'])
+            ->assertUnprocessable();
+
+        // A pending absence does not block anything yet.
+        $absence->update(['status' => 'pending']);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$timesheetId}", ['start_time' => '14:00', 'end_time' => '17:00'])
+            ->assertOk();
+    }
+
+    public function test_half_days_and_tenant_absence_types_are_validated(): void
+    {
+        $this->tenant->forceFill([
+            'settings' => [
+                'absence_types' => [
+                    ['key' => 'parental', 'label' => 'Parental leave', 'paid' => true, 'color' => '#123456'],
+                    ['key' => 'Not A Key'],
+                ],
+            ],
+        ])->saveQuietly();
+
+        $this->assertSame(
+            [['key' => 'parental', 'label' => 'Parental leave', 'paid' => true, 'color' => '#123456']],
+            TenantContext::fromTenant($this->tenant)->absenceTypes
+        );
+
+        $this->seedTenant();
+        [$user] = $this->makeMemberWithManager();
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/absences', ['absence_type' => 'vacation', 'start_date' => self::DAY, 'end_date' => self::DAY])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('absence_type');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/absences', [
+                'absence_type' => 'parental',
+                'start_date' => self::DAY,
+                'end_date' => '2026-03-05',
+                'half_day' => 'afternoon',
+            ])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('half_day');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/absences', ['absence_type' => 'parental', 'start_date' => self::DAY, 'end_date' => self::DAY, 'half_day' => 'morning'])
+            ->assertCreated()
+            ->assertJsonPath('data.days', 0.5);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/absences', ['absence_type' => 'parental', 'start_date' => self::DAY, 'end_date' => self::DAY, 'half_day' => 'afternoon'])
+            ->assertCreated();
+    }
+}
@@ -0,0 +1,289 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\ApprovalDelegation;
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Carbon\CarbonImmutable;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class ApprovalDelegationTest extends TenantTestCase
+{
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    private function makeUser(string $name, string $email, string $role): User
+    {
+        $user = User::create([
+            'name' => $name,
+            'email' => $email,
+            'password' => 'password',
+        ]);
+        $user->assignRole($role);
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        Technician::create([
+            'name' => $name,
+            'email' => $email,
+            'role' => strtolower($role),
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        return $user;
+    }
+
+    private function makeProject(string $name, User $manager, User $member, string $managerExpenseRole = 'manager'): Project
+    {
+        $project = Project::create(['name' => $name, 'description' => 'D', 'status' => 'active']);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $manager->id,
+            'project_role' => 'manager',
+            'expense_role' => $managerExpenseRole,
+        ]);
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $member->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        return $project;
+    }
+
+    private function makeEntry(User $owner, Project $project, string $status = 'submitted'): Timesheet
+    {
+        $task = Task::create(['project_id' => $project->id, 'name' => 'Inspection', 'task_type' => 'maintenance', 'is_active' => true]);
+        $location = Location::create([
+            'name' => 'Yard',
+            'country' => 'PRT',
+            'city' => 'Braga',
+            'address' => 'Yard 1',
+            'postal_code' => '4700-000',
+            'is_active' => true,
+        ]);
+
+        return Timesheet::create([
+            'technician_id' => $owner->technician->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => CarbonImmutable::today()->subDay()->toDateString(),
+            'start_time' => '08:00',
+            'end_time' => '12:00',
+            'hours_worked' => 4,
+            'status' => $status,
+            'description' => 'Work',
+        ]);
+    }
+
+    public function test_substitute_approves_on_behalf_of_the_manager_until_revoked(): void
+    {
+        $this->seedTenant();
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $substitute = $this->makeUser('Sam Substitute', 'sam@example.com', 'Manager');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+
+        $project = $this->makeProject('Harbour Cranes', $manager, $worker);
+        $first = $this->makeEntry($worker, $project);
+        $second = $this->makeEntry($worker, $project);
+
+        Sanctum::actingAs($substitute);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/pending-counts')
+            ->assertOk()
+            ->assertJsonPath('timesheets', 0);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$first->id}/approve")
+            ->assertForbidden();
+
+        Sanctum::actingAs($manager);
+        $delegationId = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', [
+                'delegate_id' => $substitute->id,
+                'scope' => 'timesheets',
+                'project_id' => $project->id,
+                'starts_on' => CarbonImmutable::today()->toDateString(),
+                'ends_on' => CarbonImmutable::today()->addWeek()->toDateString(),
+            ])
+            ->assertCreated()
+            ->assertJsonPath('data.delegate.id', $substitute->id)
+            ->assertJsonPath('data.is_active', true)
+            ->json('data.id');
+
+        Sanctum::actingAs($substitute);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/pending-counts')
+            ->assertOk()
+            ->assertJsonPath('timesheets', 2)
+            ->assertJsonPath('expenses', 0);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/manager-view')
+            ->assertOk()
+            ->assertJsonCount(2, 'data')
+            ->assertJsonPath('data.0.on_behalf_of.id', $manager->id);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/approval-delegations')
+            ->assertOk()
+            ->assertJsonCount(0, 'given')
+            ->assertJsonPath('received.0.delegator.name', 'Maria Manager');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$first->id}/approve")
+            ->assertOk();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/timesheets/{$first->id}/activity")
+            ->assertOk()
+            ->assertJsonPath('history.1.to_status', 'approved')
+            ->assertJsonPath('history.1.changed_by.id', $substitute->id)
+            ->assertJsonPath('history.1.on_behalf_of.name', 'Maria Manager');
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/approval-delegations/{$delegationId}")
+            ->assertOk();
+        $this->assertNotNull(ApprovalDelegation::findOrFail($delegationId)->revoked_at);
+
+        Sanctum::actingAs($substitute);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$second->id}/reject", ['reason' => 'Wrong task'])
+            ->assertForbidden();
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/pending-counts')
+            ->assertOk()
+            ->assertJsonPath('timesheets', 0);
+    }
+
+    public function test_substitute_week_approval_is_recorded_on_behalf_of_the_manager(): void
+    {
+        $this->seedTenant();
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $substitute = $this->makeUser('Sam Substitute', 'sam@example.com', 'Manager');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+
+        $project = $this->makeProject('Harbour Cranes', $manager, $worker);
+        $entry = $this->makeEntry($worker, $project, 'draft');
+
+        Sanctum::actingAs($worker);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => $entry->date->toDateString()])
+            ->assertOk();
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', [
+                'delegate_id' => $substitute->id,
+                'scope' => 'timesheets',
+                'project_id' => $project->id,
+                'starts_on' => CarbonImmutable::today()->toDateString(),
+                'ends_on' => CarbonImmutable::today()->addWeek()->toDateString(),
+            ])
+            ->assertCreated();
+
+        Sanctum::actingAs($substitute);
+        $weekId = $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/weeks/pending')
+            ->assertOk()
+            ->assertJsonPath('data.0.can_review', true)
+            ->json('data.0.id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/weeks/{$weekId}/reject", ['reason' => 'Wrong task'])
+            ->assertOk()
+            ->assertJsonPath('status', 'rejected');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/timesheets/{$entry->id}/activity")
+            ->assertOk()
+            ->assertJsonPath('history.2.to_status', 'rejected')
+            ->assertJsonPath('history.2.changed_by.id', $substitute->id)
+            ->assertJsonPath('history.2.on_behalf_of.name', 'Maria Manager');
+
+        Sanctum::actingAs($worker);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => $entry->date->toDateString()])
+            ->assertOk();
+
+        Sanctum::actingAs($substitute);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/weeks/{$weekId}/approve")
+            ->assertOk()
+            ->assertJsonPath('status', 'approved');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/timesheets/{$entry->id}/activity")
+            ->assertOk()
+            ->assertJsonPath('history.4.to_status', 'approved')
+            ->assertJsonPath('history.4.changed_by.id', $substitute->id)
+            ->assertJsonPath('history.4.on_behalf_of.name', 'Maria Manager');
+    }
+
+    public function test_only_held_rights_can_be_delegated(): void
+    {
+        $this->seedTenant();
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $substitute = $this->makeUser('Sam Substitute', 'sam@example.com', 'Manager');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+        $otherManager = $this->makeUser('Olga Other', 'olga@example.com', 'Manager');
+
+        $this->makeProject('Harbour Cranes', $manager, $worker, 'member');
+        $foreign = $this->makeProject('Rail Depot', $otherManager, $worker);
+
+        $payload = [
+            'delegate_id' => $substitute->id,
+            'scope' => 'timesheets',
+            'starts_on' => CarbonImmutable::today()->toDateString(),
+            'ends_on' => CarbonImmutable::today()->addDays(3)->toDateString(),
+        ];
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', [...$payload, 'project_id' => $foreign->id])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('project_id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', [...$payload, 'delegate_id' => $manager->id])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('delegate_id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', [...$payload, 'delegate_id' => $worker->id])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('delegate_id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', [...$payload, 'scope' => 'expenses'])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors('scope');
+
+        $delegationId = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/approval-delegations', $payload)
+            ->assertCreated()
+            ->json('data.id');
+
+        Sanctum::actingAs($substitute);
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/approval-delegations/{$delegationId}")
+            ->assertNotFound();
+        $this->assertNull(ApprovalDelegation::findOrFail($delegationId)->revoked_at);
+    }
+}
@@ -0,0 +1,163 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Mail\ApprovalSlaReminderMail;
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Services\TimesheetApproval\ApprovalSlaTracker;
+use Carbon\CarbonImmutable;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Illuminate\Support\Facades\Mail;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class ApprovalSlaTest extends TenantTestCase
+{
+    private function makeUser(string $name, string $email, string $role): User
+    {
+        $user = User::create([
+            'name' => $name,
+            'email' => $email,
+            'password' => 'password',
+        ]);
+        $user->assignRole($role);
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        Technician::create([
+            'name' => $name,
+            'email' => $email,
+            'role' => strtolower($role),
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        return $user;
+    }
+
+    private function makeSubmittedEntry(User $manager, User $worker): Timesheet
+    {
+        $project = Project::create(['name' => 'Harbour Cranes', 'description' => 'D', 'status' => 'active']);
+        foreach ([[$manager, 'manager'], [$worker, 'member']] as [$user, $role]) {
+            ProjectMember::create([
+                'project_id' => $project->id,
+                'user_id' => $user->id,
+                'project_role' => $role,
+                'expense_role' => $role,
+            ]);
+        }
+
+        $task = Task::create(['project_id' => $project->id, 'name' => 'Inspection', 'task_type' => 'maintenance', 'is_active' => true]);
+        $location = Location::create([
+            'name' => 'Yard',
+            'country' => 'PRT',
+            'city' => 'Braga',
+            'address' => 'Yard 1',
+            'postal_code' => '4700-000',
+            'is_active' => true,
+        ]);
+
+        return Timesheet::create([
+            'technician_id' => $worker->technician->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => CarbonImmutable::today()->subDay()->toDateString(),
+            'start_time' => '08:00',
+            'end_time' => '12:00',
+            'hours_worked' => 4,
+            'status' => 'submitted',
+            'description' => 'Work',
+        ]);
+    }
+
+    public function test_waiting_entries_turn_overdue_and_stop_the_clock_when_decided(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+        $this->tenant->forceFill([
+            'settings' => ['approval_sla' => ['warning_hours' => 8, 'overdue_hours' => 24]],
+        ])->saveQuietly();
+
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+        $entry = $this->makeSubmittedEntry($manager, $worker);
+
+        $this->assertNotNull($entry->submitted_at);
+
+        Sanctum::actingAs($manager);
+        $this->travel(10)->hours();
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/manager-view')
+            ->assertOk()
+            ->assertJsonPath('data.0.sla.state', 'warning');
+
+        $this->travel(20)->hours();
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/manager-view')
+            ->assertOk()
+            ->assertJsonPath('data.0.sla.state', 'overdue')
+            ->assertJsonPath('summary.overdue_count', 1);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/pending-counts')
+            ->assertOk()
+            ->assertJsonPath('timesheets', 1)
+            ->assertJsonPath('overdue.timesheets', 1)
+            ->assertJsonPath('overdue.total', 1);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/approve")
+            ->assertOk()
+            ->assertJsonPath('status', 'approved');
+
+        $entry->refresh();
+        $this->assertNotNull($entry->decided_at);
+        $this->assertEqualsWithDelta(30, $entry->submitted_at->diffInMinutes($entry->decided_at, true) / 60, 0.1);
+    }
+
+    public function test_overdue_entries_are_reminded_once_then_escalated_to_admins(): void
+    {
+        Mail::fake();
+        $this->seed(RolesAndPermissionsSeeder::class);
+        $this->tenant->forceFill([
+            'settings' => ['approval_sla' => ['overdue_hours' => 24, 'escalate_after_hours' => 72]],
+        ])->saveQuietly();
+
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $admin = $this->makeUser('Alice Admin', 'alice@example.com', 'Admin');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+        $this->makeSubmittedEntry($manager, $worker);
+
+        $tracker = app(ApprovalSlaTracker::class);
+
+        $this->travel(12)->hours();
+        $this->assertSame(0, $tracker->sendReminders()['reminded']);
+
+        $this->travel(14)->hours();
+        $this->assertSame(1, $tracker->sendReminders()['reminded']);
+        Mail::assertQueued(ApprovalSlaReminderMail::class, 1);
+        Mail::assertQueued(
+            ApprovalSlaReminderMail::class,
+            fn (ApprovalSlaReminderMail $mail) => $mail->hasTo($manager->email) && count($mail->reminders) === 1
+        );
+
+        // Already reminded: nothing new until the escalation threshold
+        $this->assertSame(0, $tracker->sendReminders()['reminded']);
+
+        $this->travel(48)->hours();
+        $this->assertSame(1, $tracker->sendReminders()['escalated']);
+        Mail::assertQueued(
+            ApprovalSlaReminderMail::class,
+            fn (ApprovalSlaReminderMail $mail) => $mail->hasTo($admin->email) && count($mail->escalations) === 1
+        );
+        Mail::assertNotQueued(ApprovalSlaReminderMail::class, fn (ApprovalSlaReminderMail $mail) => $mail->hasTo($worker->email));
+        $this->assertSame(['reminded' => 0, 'escalated' => 0, 'recipients' => 0], $tracker->sendReminders());
+    }
+}
@@ -0,0 +1,149 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\CalendarFeed;
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Carbon\CarbonImmutable;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class CalendarFeedsTest extends TenantTestCase
+{
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    private function makeTechnicianUser(string $email): User
+    {
+        $user = User::create([
+            'name' => 'Feed Owner',
+            'email' => $email,
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        Technician::create([
+            'name' => 'Feed Owner',
+            'email' => $email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        return $user;
+    }
+
+    private function feedPath(string $url): string
+    {
+        return (string) parse_url($url, PHP_URL_PATH) . '?' . (string) parse_url($url, PHP_URL_QUERY);
+    }
+
+    public function test_timesheets_calendar_is_served_by_token_until_revoked(): void
+    {
+        $this->seedTenant();
+        $user = $this->makeTechnicianUser('feed@example.com');
+
+        $project = Project::create(['name' => 'Plant Overhaul', 'description' => 'I', 'status' => 'active']);
+        $task = Task::create(['project_id' => $project->id, 'name' => 'Pump service', 'task_type' => 'maintenance', 'is_active' => true]);
+        $location = Location::create([
+            'name' => 'Dock 4',
+            'country' => 'PRT',
+            'city' => 'Porto',
+            'address' => 'Dock 4',
+            'postal_code' => '4000-000',
+            'is_active' => true,
+        ]);
+
+        $date = CarbonImmutable::today()->subDays(3);
+        Timesheet::create([
+            'technician_id' => $user->technician->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => $date->toDateString(),
+            'start_time' => '09:00',
+            'end_time' => '11:30',
+            'timezone' => 'UTC',
+            'hours_worked' => 2.5,
+            'description' => 'Seals, gaskets; flange',
+            'status' => 'submitted',
+        ]);
+
+        Sanctum::actingAs($user);
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/calendar-feeds', ['name' => 'Phone', 'include_travels' => false])
+            ->assertCreated()
+            ->assertJsonPath('data.name', 'Phone')
+            ->assertJsonPath('data.include_travels', false)
+            ->assertJsonPath('data.urls.travels', null);
+
+        $url = (string) $created->json('data.urls.timesheets');
+        $this->assertStringContainsString('/api/calendar-feeds/', $url);
+        $this->assertStringContainsString('tenant=' . $this->tenant->slug, $url);
+
+        $response = $this->get($this->feedPath($url));
+        $response->assertOk();
+        $this->assertStringStartsWith('text/calendar', (string) $response->headers->get('Content-Type'));
+
+        $ics = $response->getContent();
+        $this->assertStringContainsString("BEGIN:VCALENDAR\r\n", $ics);
+        $this->assertStringContainsString('DTSTART:' . $date->format('Ymd') . 'T090000Z', $ics);
+        $this->assertStringContainsString('DTEND:' . $date->format('Ymd') . 'T113000Z', $ics);
+        $this->assertStringContainsString('SUMMARY:Plant Overhaul · Pump service', $ics);
+        $this->assertStringContainsString('LOCATION:Dock 4', $ics);
+        $this->assertStringContainsString('Seals\, gaskets\; flange', $ics);
+        $this->assertNotNull(CalendarFeed::findOrFail($created->json('data.id'))->last_accessed_at);
+
+        $this->get(str_replace('/timesheets.ics', '/travels.ics', $this->feedPath($url)))->assertNotFound();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson('/api/calendar-feeds/' . $created->json('data.id'))
+            ->assertOk();
+
+        $this->get($this->feedPath($url))->assertNotFound();
+    }
+
+    public function test_feeds_are_private_to_their_owner(): void
+    {
+        $this->seedTenant();
+        $owner = $this->makeTechnicianUser('owner@example.com');
+        $other = $this->makeTechnicianUser('other@example.com');
+
+        Sanctum::actingAs($owner);
+        $feedId = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/calendar-feeds', ['name' => 'Laptop'])
+            ->assertCreated()
+            ->json('data.id');
+
+        $feed = CalendarFeed::findOrFail($feedId);
+        $this->assertNotSame($feed->token, $feed->token_hash);
+        $this->assertSame($feed->id, CalendarFeed::findByToken($feed->token)?->id);
+
+        Sanctum::actingAs($other);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/calendar-feeds')
+            ->assertOk()
+            ->assertJsonCount(0, 'data');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson('/api/calendar-feeds/' . $feedId, ['include_timesheets' => false])
+            ->assertNotFound();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson('/api/calendar-feeds/' . $feedId)
+            ->assertNotFound();
+
+        $this->assertTrue(CalendarFeed::findOrFail($feedId)->include_timesheets);
+    }
+}
@@ -0,0 +1,196 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Country;
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\PublicHoliday;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Illuminate\Http\UploadedFile;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class PublicHolidaysTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+
+    private const ICS = "BEGIN:VCALENDAR\r\n"
+        . "VERSION:2.0\r\n"
+        . "BEGIN:VEVENT\r\n"
+        . "DTSTART;VALUE=DATE:20260101\r\n"
+        . "DTEND;VALUE=DATE:20260102\r\n"
+        . "SUMMARY:New Year\\, observed\r\n"
+        . "END:VEVENT\r\n"
+        . "BEGIN:VEVENT\r\n"
+        . "DTSTART;VALUE=DATE:20261224\r\n"
+        . "DTEND;VALUE=DATE:20261226\r\n"
+        . "SUMMARY:Christmas \r\n"
+        . " holidays\r\n"
+        . "END:VEVENT\r\n"
+        . "BEGIN:VEVENT\r\n"
+        . "DTSTART:20260405T000000Z\r\n"
+        . "END:VEVENT\r\n"
+        . "END:VCALENDAR\r\n";
+
+    private function makeUser(string $role, string $email): User
+    {
+        $user = User::create([
+            'name' => $role,
+            'email' => $email,
+            'password' => 'password',
+        ]);
+        $user->assignRole($role);
+
+        return $user;
+    }
+
+    public function test_admin_imports_and_edits_a_country_holiday_calendar(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+        $country = Country::create(['name' => 'Portugal', 'iso2' => 'PT']);
+
+        Sanctum::actingAs($this->makeUser('Technician', 'tech.holidays@example.com'));
+        $this->withHeaders($this->tenantHeaders())
+            ->post("/api/countries/{$country->id}/holidays/import", [
+                'file' => UploadedFile::fake()->createWithContent('pt.ics', self::ICS),
+            ])
+            ->assertForbidden();
+
+        Sanctum::actingAs($this->makeUser('Admin', 'admin.holidays@example.com'));
+
+        $this->withHeaders($this->tenantHeaders())
+            ->post("/api/countries/{$country->id}/holidays/import", [
+                'file' => UploadedFile::fake()->createWithContent('pt.ics', self::ICS),
+            ])
+            ->assertOk()
+            ->assertJson(['created' => 3, 'updated' => 0]);
+
+        // Importing again renames the existing dates instead of duplicating them.
+        $this->withHeaders($this->tenantHeaders())
+            ->post("/api/countries/{$country->id}/holidays/import", [
+                'file' => UploadedFile::fake()->createWithContent('pt.ics', self::ICS),
+            ])
+            ->assertOk()
+            ->assertJson(['created' => 0, 'updated' => 3]);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/countries/{$country->id}/holidays?year=2026")
+            ->assertOk()
+            ->assertJsonCount(3, 'data')
+            ->assertJsonPath('data.0.name', 'New Year, observed')
+            ->assertJsonPath('data.1.date', '2026-12-24')
+            ->assertJsonPath('data.1.name', 'Christmas holidays')
+            ->assertJsonPath('data.2.date', '2026-12-25');
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson("/api/countries/{$country->id}/holidays", ['date' => self::DAY, 'name' => 'Carnival'])
+            ->assertCreated()
+            ->assertJsonPath('data.country_iso2', 'PT');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson("/api/countries/{$country->id}/holidays", ['date' => self::DAY, 'name' => 'Duplicate'])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('date');
+
+        $holidayId = $created->json('data.id');
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/countries/{$country->id}/holidays/{$holidayId}", ['date' => '2026-02-17', 'name' => 'Carnival'])
+            ->assertOk()
+            ->assertJsonPath('data.date', '2026-02-17');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/public-holidays?from=2026-02-01&to=2026-02-28')
+            ->assertOk()
+            ->assertJsonCount(1, 'data')
+            ->assertJsonPath('data.0.country_iso2', 'PT');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/countries/{$country->id}/holidays/{$holidayId}")
+            ->assertOk();
+
+        $this->assertSame(3, PublicHoliday::count());
+
+        $this->withHeaders($this->tenantHeaders())
+            ->post("/api/countries/{$country->id}/holidays/import", [
+                'file' => UploadedFile::fake()->createWithContent('empty.ics', "BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n"),
+            ])
+            ->assertUnprocessable();
+    }
+
+    public function test_hours_on_a_contract_country_holiday_are_overtime_and_not_expected(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+
+        $portugal = Country::create(['name' => 'Portugal', 'iso2' => 'PT']);
+        $spain = Country::create(['name' => 'Spain', 'iso2' => 'ES']);
+        $portugal->holidays()->create(['date' => self::DAY, 'name' => 'Local holiday']);
+        $spain->holidays()->create(['date' => '2026-03-05', 'name' => 'Other holiday']);
+
+        $user = $this->makeUser('Technician', 'worker.holidays@example.com');
+        Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+            'worker_contract_country' => 'pt',
+        ]);
+
+        $project = Project::create(['name' => 'Holiday Project', 'description' => 'A', 'status' => 'active']);
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'is_active' => true,
+        ]);
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        Sanctum::actingAs($user);
+
+        foreach ([self::DAY, '2026-03-05'] as $date) {
+            $this->withHeaders($this->tenantHeaders())
+                ->postJson('/api/timesheets', [
+                    'project_id' => $project->id,
+                    'task_id' => $task->id,
+                    'location_id' => $location->id,
+                    'date' => $date,
+                    'start_time' => '09:00',
+                    'end_time' => '17:00',
+                    'hours_worked' => 8,
+                    'description' => 'Work',
+                ])
+                ->assertCreated();
+        }
+
+        // Only the Portuguese holiday applies: 8h at 1.5x, 8h regular, one weekday less expected.
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/summary?date=' . self::DAY)
+            ->assertOk()
+            ->assertJsonPath('holiday_hours', 8.0)
+            ->assertJsonPath('overtime_hours', 8.0)
+            ->assertJsonPath('regular_hours', 8.0)
+            ->assertJsonPath('expected_hours', 32.0)
+            ->assertJsonCount(1, 'holidays')
+            ->assertJsonPath('holidays.0.name', 'Local holiday');
+    }
+}
@@ -0,0 +1,195 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class TimesheetActivityTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location,5:User}
+     */
+    private function makeMemberWithManager(): array
+    {
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.thread@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $manager = User::create([
+            'name' => 'Manager',
+            'email' => 'manager.thread@example.com',
+            'password' => 'password',
+        ]);
+        $manager->assignRole('Manager');
+        $manager->givePermissionTo('approve-timesheets');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        Technician::create([
+            'name' => 'Manager',
+            'email' => $manager->email,
+            'role' => 'manager',
+            'user_id' => $manager->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Thread Project',
+            'description' => 'A',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $manager->id,
+            'project_role' => 'manager',
+            'expense_role' => 'manager',
+        ]);
+
+        return [$user, $tech, $project, $task, $location, $manager];
+    }
+
+    private function makeEntry(Technician $tech, Project $project, Task $task, Location $location, string $status = 'submitted'): Timesheet
+    {
+        return Timesheet::create([
+            'technician_id' => $tech->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => self::DAY,
+            'start_time' => '08:00',
+            'end_time' => '12:00',
+            'hours_worked' => 4,
+            'status' => $status,
+            'description' => 'Work',
+        ]);
+    }
+
+    public function test_rejection_reply_and_resubmission_form_one_thread_with_history(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location, $manager] = $this->makeMemberWithManager();
+
+        Sanctum::actingAs($user);
+        $entry = $this->makeEntry($tech, $project, $task, $location);
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/reject", ['reason' => 'Wrong task'])
+            ->assertOk();
+
+        Sanctum::actingAs($user);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson("/api/timesheets/{$entry->id}/comments", ['body' => 'It was the inspection, fixing it now.'])
+            ->assertCreated()
+            ->assertJsonPath('kind', 'comment')
+            ->assertJsonPath('user.id', $user->id);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}", [
+                'description' => 'Inspection',
+                'status' => 'submitted',
+                'resubmission_note' => 'Moved to the inspection task.',
+            ])
+            ->assertOk();
+
+        Sanctum::actingAs($manager);
+        $res = $this->withHeaders($this->tenantHeaders())->getJson("/api/timesheets/{$entry->id}/activity");
+
+        $res->assertOk();
+        $this->assertSame(['rejection', 'comment', 'resubmission'], array_column($res->json('comments'), 'kind'));
+        $this->assertSame('Wrong task', $res->json('comments.0.body'));
+        $this->assertSame($manager->id, $res->json('comments.0.user.id'));
+        $this->assertSame(
+            [[null, 'submitted'], ['submitted', 'rejected'], ['rejected', 'submitted']],
+            array_map(fn (array $row) => [$row['from_status'], $row['to_status']], $res->json('history'))
+        );
+        $this->assertSame($manager->id, $res->json('history.1.changed_by.id'));
+    }
+
+    public function test_users_who_cannot_view_the_entry_cannot_read_or_post_to_the_thread(): void
+    {
+        $this->seedTenant();
+        [, $tech, $project, $task, $location] = $this->makeMemberWithManager();
+
+        $entry = $this->makeEntry($tech, $project, $task, $location);
+
+        $outsider = User::create([
+            'name' => 'Outsider',
+            'email' => 'outsider.thread@example.com',
+            'password' => 'password',
+        ]);
+        $outsider->assignRole('Technician');
+        Technician::create([
+            'name' => 'Outsider',
+            'email' => $outsider->email,
+            'role' => 'technician',
+            'user_id' => $outsider->id,
+            'is_active' => true,
+        ]);
+
+        Sanctum::actingAs($outsider);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/timesheets/{$entry->id}/activity")
+            ->assertForbidden();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson("/api/timesheets/{$entry->id}/comments", ['body' => 'Hello'])
+            ->assertForbidden();
+
+        $this->assertSame(0, $entry->comments()->count());
+    }
+}
@@ -0,0 +1,190 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Carbon\CarbonImmutable;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class TimesheetApprovalWorkflowTest extends TenantTestCase
+{
+    private function useWorkflow(array $workflow): void
+    {
+        $this->tenant->forceFill([
+            'settings' => ['timesheet_approval' => $workflow],
+        ])->saveQuietly();
+    }
+
+    private function makeUser(string $name, string $email, string $role): User
+    {
+        $user = User::create([
+            'name' => $name,
+            'email' => $email,
+            'password' => 'password',
+        ]);
+        $user->assignRole($role);
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        Technician::create([
+            'name' => $name,
+            'email' => $email,
+            'role' => strtolower($role),
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        return $user;
+    }
+
+    private function makeProject(User $manager, User $member): Project
+    {
+        $project = Project::create(['name' => 'Harbour Cranes', 'description' => 'D', 'status' => 'active']);
+
+        foreach ([[$manager, 'manager'], [$member, 'member']] as [$user, $role]) {
+            ProjectMember::create([
+                'project_id' => $project->id,
+                'user_id' => $user->id,
+                'project_role' => $role,
+                'expense_role' => $role,
+            ]);
+        }
+
+        return $project;
+    }
+
+    private function makeEntry(User $owner, Project $project, string $status, float $hours = 4, ?bool $aiFlagged = null): Timesheet
+    {
+        $task = Task::create(['project_id' => $project->id, 'name' => 'Inspection', 'task_type' => 'maintenance', 'is_active' => true]);
+        $location = Location::create([
+            'name' => 'Yard',
+            'country' => 'PRT',
+            'city' => 'Braga',
+            'address' => 'Yard 1',
+            'postal_code' => '4700-000',
+            'is_active' => true,
+        ]);
+
+        return Timesheet::create([
+            'technician_id' => $owner->technician->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => CarbonImmutable::today()->subDay()->toDateString(),
+            'start_time' => '08:00',
+            'end_time' => sprintf('%02d:00', 8 + (int) $hours),
+            'hours_worked' => $hours,
+            'status' => $status,
+            'ai_flagged' => $aiFlagged,
+            'description' => 'Work',
+        ]);
+    }
+
+    public function test_entries_pass_each_step_before_they_are_approved(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+        $this->useWorkflow([
+            'steps' => [
+                ['key' => 'project_manager', 'label' => 'Project manager', 'approver' => 'project_manager'],
+                ['key' => 'director', 'label' => 'Director', 'approver' => 'role', 'role' => 'Owner'],
+            ],
+        ]);
+
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $director = $this->makeUser('Dora Director', 'dora@example.com', 'Owner');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+        $entry = $this->makeEntry($worker, $this->makeProject($manager, $worker), 'submitted');
+
+        Sanctum::actingAs($director);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/pending-counts')
+            ->assertOk()
+            ->assertJsonPath('timesheets', 0);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/approve")
+            ->assertForbidden();
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/manager-view')
+            ->assertOk()
+            ->assertJsonCount(1, 'data')
+            ->assertJsonPath('data.0.approval.current_step', 0)
+            ->assertJsonPath('data.0.approval.steps.1.state', 'pending');
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/approve")
+            ->assertOk()
+            ->assertJsonPath('status', 'submitted')
+            ->assertJsonPath('approval.current_step', 1);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/pending-counts')
+            ->assertOk()
+            ->assertJsonPath('timesheets', 0);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/approve")
+            ->assertForbidden();
+
+        Sanctum::actingAs($director);
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/manager-view')
+            ->assertOk()
+            ->assertJsonCount(1, 'data')
+            ->assertJsonPath('data.0.approval.steps.0.state', 'done')
+            ->assertJsonPath('data.0.approval.steps.0.approved_by.id', $manager->id)
+            ->assertJsonPath('data.0.approval.steps.1.state', 'current');
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/approve")
+            ->assertOk()
+            ->assertJsonPath('status', 'approved')
+            ->assertJsonPath('approval.steps.1.approved_by.id', $director->id);
+
+        // A rejection sends the next submission back to the first step
+        $entry->refresh()->reject('Wrong task');
+        $entry->submit();
+        $this->assertSame(0, $entry->refresh()->approval_step);
+        $this->assertSame(0, $entry->stepApprovals()->count());
+    }
+
+    public function test_short_unflagged_entries_are_approved_on_submission(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+        $this->useWorkflow([
+            'auto_approve' => ['max_hours' => 4, 'require_no_ai_flag' => true],
+        ]);
+
+        $manager = $this->makeUser('Maria Manager', 'maria@example.com', 'Manager');
+        $worker = $this->makeUser('Walter Worker', 'walter@example.com', 'Technician');
+        $project = $this->makeProject($manager, $worker);
+
+        $short = $this->makeEntry($worker, $project, 'draft', 4, false);
+        $long = $this->makeEntry($worker, $project, 'draft', 6, false);
+        $flagged = $this->makeEntry($worker, $project, 'draft', 3, true);
+
+        Sanctum::actingAs($worker);
+        foreach ([$short, $long, $flagged] as $entry) {
+            $this->withHeaders($this->tenantHeaders())
+                ->putJson("/api/timesheets/{$entry->id}/submit")
+                ->assertOk();
+        }
+
+        $this->assertSame('approved', $short->refresh()->status);
+        $this->assertSame('submitted', $long->refresh()->status);
+        $this->assertSame('submitted', $flagged->refresh()->status);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/timesheets/{$short->id}/activity")
+            ->assertOk()
+            ->assertJsonPath('history.2.to_status', 'approved')
+            ->assertJsonPath('history.2.changed_by', null);
+    }
+}
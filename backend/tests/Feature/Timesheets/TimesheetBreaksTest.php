@@ -0,0 +1,184 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Tenancy\TenantContext;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class TimesheetBreaksTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location}
+     */
+    private function makeMember(): array
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.breaks@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Breaks Project',
+            'description' => 'A',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        return [$user, $tech, $project, $task, $location];
+    }
+
+    /**
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     * @return array<string, mixed>
+     */
+    private function payload(Project $project, Task $task, Location $location, string $start, string $end, array $breaks): array
+    {
+        return [
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => self::DAY,
+            'start_time' => $start,
+            'end_time' => $end,
+            'hours_worked' => 8,
+            'description' => 'Work',
+            'breaks' => $breaks,
+        ];
+    }
+
+    public function test_breaks_are_stored_and_deducted_from_hours_worked(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        $res = $this->withHeaders($this->tenantHeaders())->postJson('/api/timesheets', $this->payload(
+            $project, $task, $location, '08:00', '17:00',
+            [['start_time' => '12:30', 'end_time' => '13:00'], ['start_time' => '10:00', 'end_time' => '10:15']]
+        ));
+
+        $res->assertCreated();
+        $res->assertJsonPath('data.hours_worked', '8.25');
+        $this->assertSame(
+            ['10:00', '12:30'],
+            array_map(fn (string $time) => substr($time, 0, 5), array_column($res->json('data.breaks'), 'start_time'))
+        );
+
+        $entry = Timesheet::findOrFail($res->json('data.id'));
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}", ['breaks' => []])
+            ->assertOk()
+            ->assertJsonPath('data.breaks', []);
+
+        $this->assertSame(0, $entry->breaks()->count());
+    }
+
+    public function test_breaks_outside_the_entry_or_overlapping_are_rejected(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload(
+                $project, $task, $location, '08:00', '12:00',
+                [['start_time' => '11:30', 'end_time' => '12:30']]
+            ))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('breaks');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload(
+                $project, $task, $location, '08:00', '12:00',
+                [['start_time' => '09:00', 'end_time' => '10:00'], ['start_time' => '09:30', 'end_time' => '10:30']]
+            ))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('breaks');
+
+        $this->assertSame(0, Timesheet::count());
+    }
+
+    public function test_enforced_tenant_break_rule_blocks_long_stretches_without_a_break(): void
+    {
+        $this->tenant->forceFill([
+            'settings' => [
+                'break_rule' => ['required_after_hours' => 5, 'min_minutes' => 30, 'enforce' => true],
+            ],
+        ])->saveQuietly();
+
+        $this->assertSame(
+            ['required_after_hours' => 5.0, 'min_minutes' => 30, 'enforce' => true],
+            TenantContext::fromTenant($this->tenant)->breakRule
+        );
+
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        // A 15 minute pause is shorter than the minimum and does not split the stretch.
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload(
+                $project, $task, $location, '08:00', '16:00',
+                [['start_time' => '12:00', 'end_time' => '12:15']]
+            ))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('breaks');
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload(
+                $project, $task, $location, '08:00', '16:00',
+                [['start_time' => '12:00', 'end_time' => '12:30']]
+            ))
+            ->assertCreated();
+
+        // Moving the end time keeps the stored break, which no longer satisfies the rule.
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$created->json('data.id')}", ['start_time' => '06:00', 'end_time' => '16:00'])
+            ->assertUnprocessable();
+    }
+}
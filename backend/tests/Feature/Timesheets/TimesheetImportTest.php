@@ -0,0 +1,157 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class TimesheetImportTest extends TenantTestCase
+{
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location}
+     */
+    private function makeMember(): array
+    {
+        $user = User::create([
+            'name' => 'Importer',
+            'email' => 'importer@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Importer',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Plant Overhaul',
+            'description' => 'I',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Pump service',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'Estação Norte',
+            'country' => 'PRT',
+            'city' => 'Porto',
+            'address' => 'Dock 4',
+            'postal_code' => '4000-000',
+            'is_active' => true,
+        ]);
+        $task->locations()->attach($location->id);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        return [$user, $tech, $project, $task, $location];
+    }
+
+    public function test_preview_matches_names_leniently_and_reports_row_errors(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location] = $this->makeMember();
+
+        Project::create(['name' => 'Secret Project', 'description' => 'S', 'status' => 'active']);
+
+        Timesheet::create([
+            'technician_id' => $tech->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => '2026-03-03',
+            'start_time' => '08:00',
+            'end_time' => '12:00',
+            'hours_worked' => 4,
+            'description' => 'Existing',
+            'status' => 'draft',
+        ]);
+
+        Sanctum::actingAs($user);
+
+        $response = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/import/preview', [
+                'source' => 'csv',
+                'rows' => [
+                    ['date' => '2026-03-02', 'start_time' => '9:00', 'end_time' => '13:00', 'project' => 'plant overhal', 'task' => 'PUMP SERVICE', 'location' => 'estacao norte', 'description' => 'Imported'],
+                    ['date' => '2026-03-02', 'start_time' => '12:00', 'end_time' => '14:00', 'project' => 'Plant Overhaul', 'description' => 'Clashes with row 1'],
+                    ['date' => '2026-03-03', 'start_time' => '11:00', 'end_time' => '15:00', 'project' => 'Plant Overhaul'],
+                    ['date' => '2026-03-04', 'start_time' => '09:00', 'end_time' => '10:00', 'project' => 'Secret Project'],
+                    ['date' => '04/03/2026', 'start_time' => '09:00', 'end_time' => '10:00', 'project' => 'Unknown'],
+                ],
+            ]);
+
+        $response->assertOk()
+            ->assertJsonPath('summary.total', 5)
+            ->assertJsonPath('summary.valid', 1)
+            ->assertJsonPath('data.0.valid', true)
+            ->assertJsonPath('data.0.entry.start_time', '09:00')
+            ->assertJsonPath('data.0.entry.hours_worked', 4.0)
+            ->assertJsonPath('data.0.entry.task_id', $task->id)
+            ->assertJsonPath('data.0.entry.location_id', $location->id)
+            ->assertJsonPath('data.1.errors.0', 'Overlaps with another imported row on 2026-03-02.')
+            ->assertJsonPath('data.2.errors.0', 'Overlaps with an existing entry on 2026-03-03.')
+            ->assertJsonPath('data.3.errors.0', 'You are not a member of project "Secret Project".');
+
+        $this->assertCount(2, $response->json('data.4.errors'));
+        $this->assertSame(1, Timesheet::count());
+    }
+
+    public function test_import_creates_only_the_valid_rows_as_drafts(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, , $task] = $this->makeMember();
+
+        Sanctum::actingAs($user);
+
+        $response = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/import', [
+                'source' => 'ics',
+                'rows' => [
+                    ['date' => '2026-03-02', 'start_time' => '22:00', 'end_time' => '02:00', 'project' => 'Plant Overhaul'],
+                    ['date' => '2026-03-05', 'start_time' => '08:00', 'end_time' => '21:00', 'project' => 'Plant Overhaul', 'description' => 'Too long'],
+                ],
+            ]);
+
+        $response->assertCreated()
+            ->assertJsonPath('summary.valid', 1)
+            ->assertJsonPath('data.0.warnings.0', 'No description; the task name is used.')
+            ->assertJsonPath('data.1.valid', false);
+
+        $created = Timesheet::findOrFail($response->json('created_ids.0'));
+        $this->assertSame($tech->id, $created->technician_id);
+        $this->assertSame('draft', $created->status);
+        $this->assertSame('Pump service', $created->description);
+        $this->assertSame($task->id, $created->task_id);
+        $this->assertEquals(4.0, (float) $created->hours_worked);
+        $this->assertSame(1, Timesheet::count());
+    }
+}
@@ -0,0 +1,152 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use App\Services\TimesheetValidation\TimesheetShift;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class TimesheetOvernightTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+    private const NEXT_DAY = '2026-03-05';
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location}
+     */
+    private function makeMember(): array
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.overnight@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Night Project',
+            'description' => 'A',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        return [$user, $tech, $project, $task, $location];
+    }
+
+    /**
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     * @return array<string, mixed>
+     */
+    private function payload(Project $project, Task $task, Location $location, string $date, string $start, string $end, array $breaks = []): array
+    {
+        return [
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => $date,
+            'start_time' => $start,
+            'end_time' => $end,
+            'hours_worked' => 8,
+            'description' => 'Work',
+            'breaks' => $breaks,
+        ];
+    }
+
+    public function test_night_shift_is_stored_as_one_entry_and_split_per_calendar_day(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        $res = $this->withHeaders($this->tenantHeaders())->postJson('/api/timesheets', $this->payload(
+            $project, $task, $location, self::DAY, '22:00', '06:00',
+            [['start_time' => '02:00', 'end_time' => '02:30']]
+        ));
+
+        $res->assertCreated();
+        $res->assertJsonPath('data.hours_worked', '7.50');
+
+        $entry = Timesheet::with('breaks')->findOrFail($res->json('data.id'));
+
+        // 2h before midnight, 5.5h after it once the break is taken out.
+        $this->assertSame(
+            [self::DAY => 2.0, self::NEXT_DAY => 5.5],
+            app(TimesheetShift::class)->hoursByDay($entry)
+        );
+    }
+
+    public function test_entries_on_the_next_morning_overlapping_a_night_shift_are_rejected(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, self::DAY, '22:00', '06:00'))
+            ->assertCreated();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, self::NEXT_DAY, '05:00', '09:00'))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('time_overlap');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, self::NEXT_DAY, '06:00', '09:00'))
+            ->assertCreated();
+
+        $this->assertSame(2, Timesheet::count());
+    }
+
+    public function test_entries_with_equal_start_and_end_are_rejected(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, self::DAY, '08:00', '08:00'))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('end_time');
+
+        $this->assertSame(0, Timesheet::count());
+    }
+}
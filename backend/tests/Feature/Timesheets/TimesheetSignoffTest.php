@@ -0,0 +1,228 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class TimesheetSignoffTest extends TenantTestCase
+{
+    /** 1x1 JPEG, as exported by the signature pad. */
+    private const SIGNATURE = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=';
+
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location,5:User}
+     */
+    private function makeMemberWithManager(): array
+    {
+        $user = User::create([
+            'name' => 'Field Worker',
+            'email' => 'worker.signoff@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Field Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $manager = User::create([
+            'name' => 'Manager',
+            'email' => 'manager.signoff@example.com',
+            'password' => 'password',
+        ]);
+        $manager->assignRole('Manager');
+        $manager->givePermissionTo('approve-timesheets');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        $project = Project::create([
+            'name' => 'Plant Overhaul',
+            'description' => 'S',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Pump service',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'Customer Plant',
+            'country' => 'PRT',
+            'city' => 'Porto',
+            'address' => 'Dock 4',
+            'postal_code' => '4000-000',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $manager->id,
+            'project_role' => 'manager',
+            'expense_role' => 'manager',
+        ]);
+
+        return [$user, $tech, $project, $task, $location, $manager];
+    }
+
+    private function makeEntry(Technician $tech, Project $project, Task $task, ?Location $location, string $date, string $status = 'draft'): Timesheet
+    {
+        return Timesheet::create([
+            'technician_id' => $tech->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location?->id,
+            'date' => $date,
+            'start_time' => '08:00',
+            'end_time' => '12:00',
+            'hours_worked' => 4,
+            'description' => 'Service',
+            'status' => $status,
+        ]);
+    }
+
+    public function test_customer_signs_off_entries_which_become_frozen(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location, $manager] = $this->makeMemberWithManager();
+
+        $monday = $this->makeEntry($tech, $project, $task, $location, '2026-03-02', 'submitted');
+        $tuesday = $this->makeEntry($tech, $project, $task, $location, '2026-03-03', 'submitted');
+
+        Sanctum::actingAs($user);
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-signoffs', [
+                'timesheet_ids' => [$monday->id, $tuesday->id],
+                'signer_name' => 'Ana Customer',
+                'signer_email' => 'ana@customer.example',
+                'signature' => self::SIGNATURE,
+            ]);
+
+        $created->assertCreated()
+            ->assertJsonPath('data.period_start', '2026-03-02')
+            ->assertJsonPath('data.period_end', '2026-03-03')
+            ->assertJsonPath('data.total_hours', 8.0)
+            ->assertJsonPath('data.location_id', $location->id);
+        $signoffId = $created->json('data.id');
+
+        $this->assertSame($signoffId, $monday->fresh()->signoff_id);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$monday->id}", ['description' => 'Changed'])
+            ->assertStatus(423)
+            ->assertJsonPath('code', 'signed_off');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/timesheets/{$tuesday->id}")
+            ->assertStatus(423);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-signoffs', [
+                'timesheet_ids' => [$monday->id],
+                'signer_name' => 'Ana Customer',
+                'signature' => self::SIGNATURE,
+            ])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('timesheet_ids');
+
+        $pdf = $this->withHeaders($this->tenantHeaders())->get("/api/timesheet-signoffs/{$signoffId}/pdf");
+        $pdf->assertOk();
+        $this->assertSame('application/pdf', $pdf->headers->get('Content-Type'));
+        $this->assertStringStartsWith('%PDF-1.4', $pdf->getContent());
+        $this->assertStringContainsString('/DCTDecode', $pdf->getContent());
+
+        Sanctum::actingAs($manager);
+
+        $view = $this->withHeaders($this->tenantHeaders())->getJson('/api/timesheets/manager-view?status=submitted');
+        $view->assertOk();
+        $this->assertSame('Ana Customer', $view->json('data.0.signoff.signer_name'));
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson("/api/timesheet-signoffs/{$signoffId}")
+            ->assertOk()
+            ->assertJsonPath('data.signature', self::SIGNATURE)
+            ->assertJsonPath('data.entries.0.task_name', 'Pump service');
+
+        // Only Admins may void a sign-off.
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/timesheet-signoffs/{$signoffId}")
+            ->assertForbidden();
+
+        $admin = User::create([
+            'name' => 'Admin',
+            'email' => 'admin.signoff@example.com',
+            'password' => 'password',
+        ]);
+        $admin->assignRole('Admin');
+        Sanctum::actingAs($admin);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$monday->id}", ['description' => 'Changed'])
+            ->assertStatus(423);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/timesheet-signoffs/{$signoffId}")
+            ->assertOk();
+
+        $this->assertNull($monday->fresh()->signoff_id);
+    }
+
+    public function test_signoff_requires_one_location_and_at_most_a_week(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location] = $this->makeMemberWithManager();
+
+        $first = $this->makeEntry($tech, $project, $task, $location, '2026-03-02');
+        $nextWeek = $this->makeEntry($tech, $project, $task, $location, '2026-03-09');
+        $noLocation = $this->makeEntry($tech, $project, $task, null, '2026-03-03');
+
+        Sanctum::actingAs($user);
+
+        $payload = ['signer_name' => 'Ana Customer', 'signature' => self::SIGNATURE];
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-signoffs', $payload + ['timesheet_ids' => [$first->id, $nextWeek->id]])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('timesheet_ids');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-signoffs', $payload + ['timesheet_ids' => [$first->id, $noLocation->id]])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('timesheet_ids');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-signoffs', ['signer_name' => 'Ana', 'signature' => 'data:image/png;base64,AAAA', 'timesheet_ids' => [$first->id]])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('signature');
+    }
+}
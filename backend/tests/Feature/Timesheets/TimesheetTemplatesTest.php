@@ -0,0 +1,206 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\TimesheetTemplate;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class TimesheetTemplatesTest extends TenantTestCase
+{
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location,5:ProjectMember}
+     */
+    private function makeMember(): array
+    {
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.templates@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Template Project',
+            'description' => 'T',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Inspection',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'Depot',
+            'country' => 'PRT',
+            'city' => 'Braga',
+            'address' => 'Yard 2',
+            'postal_code' => '4700-000',
+            'is_active' => true,
+        ]);
+
+        $membership = ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        return [$user, $tech, $project, $task, $location, $membership];
+    }
+
+    public function test_templates_are_saved_and_invalidated_with_the_task_or_membership(): void
+    {
+        $this->seedTenant();
+        [$user, , $project, $task, $location, $membership] = $this->makeMember();
+
+        Sanctum::actingAs($user);
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-templates', [
+                'name' => 'Morning inspection',
+                'project_id' => $project->id,
+                'task_id' => $task->id,
+                'location_id' => $location->id,
+                'start_time' => '08:00',
+                'end_time' => '12:30',
+                'description' => 'Routine inspection',
+                'is_favourite' => true,
+            ]);
+
+        $created->assertCreated()
+            ->assertJsonPath('data.task_name', 'Inspection')
+            ->assertJsonPath('data.start_time', '08:00')
+            ->assertJsonPath('data.valid', true);
+        $templateId = $created->json('data.id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheet-templates')
+            ->assertOk()
+            ->assertJsonPath('data.0.id', $templateId)
+            ->assertJsonPath('data.0.is_favourite', true);
+
+        $task->update(['is_active' => false]);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheet-templates')
+            ->assertJsonPath('data.0.valid', false)
+            ->assertJsonPath('data.0.invalid_reason', TimesheetTemplate::INVALID_TASK_INACTIVE);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheet-templates/{$templateId}", ['name' => 'Renamed'])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('task_id');
+
+        $task->update(['is_active' => true]);
+        $membership->delete();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheet-templates')
+            ->assertJsonPath('data.0.valid', false)
+            ->assertJsonPath('data.0.invalid_reason', TimesheetTemplate::INVALID_NOT_MEMBER);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheet-templates', [
+                'name' => 'Another',
+                'project_id' => $project->id,
+                'task_id' => $task->id,
+            ])
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('project_id');
+
+        // Templates stay private to their owner.
+        $other = User::create([
+            'name' => 'Other',
+            'email' => 'other.templates@example.com',
+            'password' => 'password',
+        ]);
+        $other->assignRole('Technician');
+        Sanctum::actingAs($other);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheet-templates')
+            ->assertOk()
+            ->assertJsonCount(0, 'data');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/timesheet-templates/{$templateId}")
+            ->assertNotFound();
+
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->deleteJson("/api/timesheet-templates/{$templateId}")
+            ->assertOk();
+
+        $this->assertNull(TimesheetTemplate::find($templateId));
+    }
+
+    public function test_recent_combinations_are_distinct_and_skip_unusable_tasks(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location] = $this->makeMember();
+
+        $retired = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Retired task',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        foreach ([['2026-03-02', $task, $location], ['2026-03-03', $task, $location], ['2026-03-04', $task, null], ['2026-03-05', $retired, $location]] as [$date, $entryTask, $entryLocation]) {
+            Timesheet::create([
+                'technician_id' => $tech->id,
+                'project_id' => $project->id,
+                'task_id' => $entryTask->id,
+                'location_id' => $entryLocation?->id,
+                'date' => $date,
+                'start_time' => '09:00',
+                'end_time' => '13:00',
+                'hours_worked' => 4,
+                'description' => 'Work',
+                'status' => 'draft',
+            ]);
+        }
+
+        $retired->update(['is_active' => false]);
+
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheet-templates/recent')
+            ->assertOk()
+            ->assertJsonCount(2, 'data')
+            ->assertJsonPath('data.0.location_id', null)
+            ->assertJsonPath('data.0.last_used_on', '2026-03-04')
+            ->assertJsonPath('data.1.location_name', 'Depot')
+            ->assertJsonPath('data.1.last_used_on', '2026-03-03')
+            ->assertJsonPath('data.1.start_time', '09:00');
+    }
+}
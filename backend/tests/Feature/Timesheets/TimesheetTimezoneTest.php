@@ -0,0 +1,155 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Tests\TenantTestCase;
+
+final class TimesheetTimezoneTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location}
+     */
+    private function makeMember(): array
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.timezone@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Travel Project',
+            'description' => 'A',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'timezone' => 'Europe/Lisbon',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        return [$user, $tech, $project, $task, $location];
+    }
+
+    /**
+     * @param array<int, array{start_time: string, end_time: string}> $breaks
+     * @return array<string, mixed>
+     */
+    private function payload(Project $project, Task $task, Location $location, string $start, string $end, array $breaks = []): array
+    {
+        return [
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => self::DAY,
+            'start_time' => $start,
+            'end_time' => $end,
+            'hours_worked' => 8,
+            'description' => 'Work',
+            'breaks' => $breaks,
+        ];
+    }
+
+    public function test_entries_record_the_timezone_of_their_site(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, '09:00', '12:00'))
+            ->assertCreated()
+            ->assertJsonPath('data.timezone', 'Europe/Lisbon');
+
+        $site = $this->newYorkSite();
+
+        $created = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, '18:00', '19:00'))
+            ->assertCreated();
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$created->json('data.id')}", ['location_id' => $site->id])
+            ->assertOk()
+            ->assertJsonPath('data.timezone', 'America/New_York');
+    }
+
+    public function test_overlaps_are_checked_on_absolute_time_across_timezones(): void
+    {
+        [$user, , $project, $task, $location] = $this->makeMember();
+        Sanctum::actingAs($user);
+        $site = $this->newYorkSite();
+
+        // 14:00–16:00 in Lisbon (UTC+0 in March).
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $location, '14:00', '16:00'))
+            ->assertCreated();
+
+        // 09:00–10:00 in New York (UTC-5) is 14:00–15:00 in Lisbon.
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $site, '09:00', '10:00'))
+            ->assertUnprocessable()
+            ->assertJsonValidationErrors('time_overlap');
+
+        // Same wall-clock times as the Lisbon entry, but five hours later.
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', $this->payload($project, $task, $site, '14:00', '16:00'))
+            ->assertCreated();
+
+        $this->assertSame(2, Timesheet::count());
+    }
+
+    private function newYorkSite(): Location
+    {
+        return Location::create([
+            'name' => 'NY Site',
+            'country' => 'USA',
+            'city' => 'New York',
+            'address' => 'Broadway',
+            'postal_code' => '10001',
+            'timezone' => 'America/New_York',
+            'is_active' => true,
+        ]);
+    }
+}
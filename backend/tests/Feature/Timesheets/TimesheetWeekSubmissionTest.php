@@ -0,0 +1,268 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Feature\Timesheets;
+
+use App\Models\Location;
+use App\Models\Project;
+use App\Models\ProjectMember;
+use App\Models\Task;
+use App\Models\Technician;
+use App\Models\Timesheet;
+use App\Models\TimesheetWeek;
+use App\Models\User;
+use Database\Seeders\RolesAndPermissionsSeeder;
+use Laravel\Sanctum\Sanctum;
+use Spatie\Permission\PermissionRegistrar;
+use Tests\TenantTestCase;
+
+final class TimesheetWeekSubmissionTest extends TenantTestCase
+{
+    private const DAY = '2026-03-04';
+
+    private function seedTenant(): void
+    {
+        $this->seed(RolesAndPermissionsSeeder::class);
+    }
+
+    /**
+     * @return array{0:User,1:Technician,2:Project,3:Task,4:Location,5:User}
+     */
+    private function makeMemberWithManager(): array
+    {
+        $user = User::create([
+            'name' => 'Worker',
+            'email' => 'worker.week@example.com',
+            'password' => 'password',
+        ]);
+        $user->assignRole('Technician');
+
+        $tech = Technician::create([
+            'name' => 'Worker',
+            'email' => $user->email,
+            'role' => 'technician',
+            'user_id' => $user->id,
+            'is_active' => true,
+        ]);
+
+        $manager = User::create([
+            'name' => 'Manager',
+            'email' => 'manager.week@example.com',
+            'password' => 'password',
+        ]);
+        $manager->assignRole('Manager');
+        $manager->givePermissionTo('approve-timesheets');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        Technician::create([
+            'name' => 'Manager',
+            'email' => $manager->email,
+            'role' => 'manager',
+            'user_id' => $manager->id,
+            'is_active' => true,
+        ]);
+
+        $project = Project::create([
+            'name' => 'Week Project',
+            'description' => 'A',
+            'status' => 'active',
+        ]);
+
+        $task = Task::create([
+            'project_id' => $project->id,
+            'name' => 'Task A',
+            'task_type' => 'maintenance',
+            'is_active' => true,
+        ]);
+
+        $location = Location::create([
+            'name' => 'HQ',
+            'country' => 'PRT',
+            'city' => 'Lisbon',
+            'address' => 'Main St',
+            'postal_code' => '1000-000',
+            'is_active' => true,
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $user->id,
+            'project_role' => 'member',
+            'expense_role' => 'member',
+        ]);
+
+        ProjectMember::create([
+            'project_id' => $project->id,
+            'user_id' => $manager->id,
+            'project_role' => 'manager',
+            'expense_role' => 'manager',
+        ]);
+
+        return [$user, $tech, $project, $task, $location, $manager];
+    }
+
+    private function makeEntry(Technician $tech, Project $project, Task $task, Location $location, string $start, string $end): Timesheet
+    {
+        return Timesheet::create([
+            'technician_id' => $tech->id,
+            'project_id' => $project->id,
+            'task_id' => $task->id,
+            'location_id' => $location->id,
+            'date' => self::DAY,
+            'start_time' => $start,
+            'end_time' => $end,
+            'hours_worked' => 4,
+            'status' => 'draft',
+            'description' => 'Work',
+        ]);
+    }
+
+    public function test_submit_week_submits_all_drafts_and_locks_the_week(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location] = $this->makeMemberWithManager();
+
+        $first = $this->makeEntry($tech, $project, $task, $location, '08:00', '12:00');
+        $second = $this->makeEntry($tech, $project, $task, $location, '13:00', '17:00');
+
+        Sanctum::actingAs($user);
+
+        $res = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => self::DAY]);
+
+        $res->assertOk();
+        $this->assertSame(2, $res->json('submitted_count'));
+        $this->assertSame('submitted', $res->json('status'));
+        $this->assertTrue($res->json('locked'));
+        $this->assertSame('submitted', $first->fresh()->status);
+        $this->assertSame('submitted', $second->fresh()->status);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$first->id}", ['start_time' => '08:30', 'end_time' => '12:00'])
+            ->assertStatus(423);
+
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets', [
+                'project_id' => $project->id,
+                'task_id' => $task->id,
+                'location_id' => $location->id,
+                'date' => self::DAY,
+                'start_time' => '18:00',
+                'end_time' => '19:00',
+                'hours_worked' => 1,
+            ])
+            ->assertStatus(423);
+    }
+
+    public function test_submit_week_is_rejected_when_entries_overlap(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location] = $this->makeMemberWithManager();
+
+        $this->makeEntry($tech, $project, $task, $location, '08:00', '12:00');
+        $overlapping = $this->makeEntry($tech, $project, $task, $location, '11:00', '15:00');
+
+        Sanctum::actingAs($user);
+
+        $res = $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => self::DAY]);
+
+        $res->assertStatus(422);
+        $this->assertSame('overlap', $res->json('issues.0.code'));
+        $this->assertSame($overlapping->id, $res->json('issues.0.timesheet_id'));
+        $this->assertSame('draft', $overlapping->fresh()->status);
+        $this->assertSame(0, TimesheetWeek::count());
+    }
+
+    public function test_manager_rejects_then_approves_a_technician_week(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location, $manager] = $this->makeMemberWithManager();
+
+        $entry = $this->makeEntry($tech, $project, $task, $location, '08:00', '12:00');
+
+        Sanctum::actingAs($user);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => self::DAY])
+            ->assertOk();
+
+        Sanctum::actingAs($manager);
+
+        $pending = $this->withHeaders($this->tenantHeaders())->getJson('/api/timesheets/weeks/pending');
+        $pending->assertOk();
+        $this->assertCount(1, $pending->json('data'));
+        $this->assertTrue($pending->json('data.0.can_review'));
+        $weekId = $pending->json('data.0.id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/weeks/{$weekId}/reject", ['reason' => 'Wrong task on Wednesday'])
+            ->assertOk()
+            ->assertJsonPath('status', 'rejected')
+            ->assertJsonPath('locked', false);
+
+        $this->assertSame('rejected', $entry->fresh()->status);
+
+        Sanctum::actingAs($user);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => self::DAY])
+            ->assertOk();
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/weeks/{$weekId}/approve")
+            ->assertOk()
+            ->assertJsonPath('status', 'approved');
+
+        $this->assertSame('approved', $entry->fresh()->status);
+    }
+
+    public function test_week_is_closed_once_its_entries_were_approved_one_by_one(): void
+    {
+        $this->seedTenant();
+        [$user, $tech, $project, $task, $location, $manager] = $this->makeMemberWithManager();
+
+        $entry = $this->makeEntry($tech, $project, $task, $location, '08:00', '12:00');
+
+        Sanctum::actingAs($user);
+        $this->withHeaders($this->tenantHeaders())
+            ->postJson('/api/timesheets/weeks/submit', ['date' => self::DAY])
+            ->assertOk();
+
+        Sanctum::actingAs($manager);
+        $weekId = $this->withHeaders($this->tenantHeaders())
+            ->getJson('/api/timesheets/weeks/pending')
+            ->assertOk()
+            ->json('data.0.id');
+
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/{$entry->id}/approve")
+            ->assertOk();
+
+        // Approvers outside the project, and the technician, cannot close the week
+        $outsider = User::create([
+            'name' => 'Other Manager',
+            'email' => 'other.manager.week@example.com',
+            'password' => 'password',
+        ]);
+        $outsider->assignRole('Manager');
+        $outsider->givePermissionTo('approve-timesheets');
+        $user->givePermissionTo('approve-timesheets');
+        app(PermissionRegistrar::class)->forgetCachedPermissions();
+
+        foreach ([$outsider, $user] as $intruder) {
+            Sanctum::actingAs($intruder);
+            $this->withHeaders($this->tenantHeaders())
+                ->putJson("/api/timesheets/weeks/{$weekId}/approve")
+                ->assertForbidden();
+        }
+        $this->assertSame('submitted', TimesheetWeek::findOrFail($weekId)->status);
+
+        Sanctum::actingAs($manager);
+        $this->withHeaders($this->tenantHeaders())
+            ->putJson("/api/timesheets/weeks/{$weekId}/approve")
+            ->assertOk()
+            ->assertJsonPath('status', 'approved')
+            ->assertJsonPath('approved_count', 0);
+    }
+}
@@ -24,6 +24,7 @@ import { FeatureProvider } from './contexts/FeatureContext';
 import RequireFeature from './components/Guards/RequireFeature';
 import { useLocation, useNavigate } from 'react-router-dom';
 import SideMenu from './components/Layout/SideMenu';
+import HeaderTimer from './components/Layout/HeaderTimer';
 import { RightPanelProvider } from './components/RightPanel/RightPanelProvider';
 import { RightPanelEntrypointProvider } from './components/RightPanel/RightPanelEntrypointProvider';
 import { GlobalRightPanelTabs } from './components/RightPanel/GlobalRightPanelTabs';
@@ -71,6 +72,7 @@ const TenantDateLocalizationProvider: React.FC<React.PropsWithChildren> = ({ chi
 };
 const AdminAccessManagerPage = React.lazy(() => import('./pages/AdminAccessManager'));
 const TravelsList = React.lazy(() => import('./components/Travels/TravelsList'));
+const CalendarFeedsSettings = React.lazy(() => import('./components/Timesheets/CalendarFeedsSettings'));
 const BillingPage = React.lazy(() => import('./components/Billing/BillingPage'));
 const PaymentMethodsPage = React.lazy(() => import('./pages/Billing/PaymentMethodsPage'));
 const TimesheetPivotReport = React.lazy(() => import('./components/Timesheets/TimesheetPivotReport'));
@@ -108,7 +110,7 @@ const queryClient = new QueryClient({
 });
 
 // Page type definition
-type Page = 'timesheets' | 'timesheets-pivot-report' | 'approvals-heatmap-report' | 'expenses-analysis-report' | 'expenses' | 'approvals' | 'dashboard' | 'ai-insights' | 'team' | 'admin' | 'admin-projects' | 'admin-clients' | 'admin-tasks' | 'admin-locations' | 'admin-countries' | 'admin-users' | 'planning' | 'planning-locations' | 'planning-users' | 'admin-access' | 'travels' | 'billing' | 'payment-methods' | 'legal-terms' | 'legal-privacy' | 'legal-acceptable-use';
+type Page = 'timesheets' | 'timesheets-pivot-report' | 'approvals-heatmap-report' | 'expenses-analysis-report' | 'expenses' | 'approvals' | 'dashboard' | 'ai-insights' | 'team' | 'admin' | 'admin-projects' | 'admin-clients' | 'admin-tasks' | 'admin-locations' | 'admin-countries' | 'admin-users' | 'planning' | 'planning-locations' | 'planning-users' | 'admin-access' | 'travels' | 'calendar-feeds' | 'billing' | 'payment-methods' | 'legal-terms' | 'legal-privacy' | 'legal-acceptable-use';
 
 const DEFAULT_PAGE: Page = 'timesheets';
 
@@ -126,6 +128,7 @@ const pageToPath: Record<Page, string> = {
   'planning-locations': '/planning/locations',
   'planning-users': '/planning/users',
   travels: '/travels',
+  'calendar-feeds': '/settings/calendar-feeds',
   billing: '/billing',
   'payment-methods': '/settings/billing/payment-methods',
   'legal-terms': '/legal/terms',
@@ -378,6 +381,8 @@ const AppContent: React.FC = () => {
             <TravelsList />
           </RequireFeature>
         );
+      case 'calendar-feeds':
+        return <CalendarFeedsSettings />;
       case 'admin':
         return <AdminDashboard />;
       case 'admin-projects':
@@ -453,6 +458,7 @@ const AppContent: React.FC = () => {
         }}
       >
         {!hasFloatingTrigger ? <AiHelpTriggerFab /> : null}
+        <HeaderTimer sx={{ justifyContent: 'flex-end', mb: 2 }} />
         {billingSummary?.read_only === true && !isTrialActive && (
           <Alert
             severity="warning"
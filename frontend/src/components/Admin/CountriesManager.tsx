@@ -17,8 +17,10 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Public as PublicIcon,
+  EventAvailable as HolidaysIcon,
 } from '@mui/icons-material';
 import AdminLayout from './AdminLayout';
+import CountryHolidaysDialog from './CountryHolidaysDialog';
 import ConfirmationDialog from '../Common/ConfirmationDialog';
 import EmptyState from '../Common/EmptyState';
 import { useNotification } from '../../contexts/NotificationContext';
@@ -73,6 +75,7 @@ const CountriesManager: React.FC = () => {
 
   const [openDialog, setOpenDialog] = useState(false);
   const [editingCountry, setEditingCountry] = useState<Country | null>(null);
+  const [holidaysCountry, setHolidaysCountry] = useState<Country | null>(null);
 
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>({
     open: false,
@@ -224,10 +227,13 @@ const CountriesManager: React.FC = () => {
     {
       field: 'actions',
       headerName: t('admin.shared.columns.actions'),
-      width: 140,
+      width: 160,
       sortable: false,
       renderCell: ({ row }: GridRenderCellParams<Country>) => (
         <Box sx={{ display: 'flex', gap: 1 }}>
+          <IconButton size="small" onClick={() => setHolidaysCountry(row)} title={t('admin.countries.holidays.open')}>
+            <HolidaysIcon fontSize="small" />
+          </IconButton>
           <IconButton size="small" onClick={() => handleOpenDialog(row)} disabled={isReadOnly}>
             <EditIcon fontSize="small" />
           </IconButton>
@@ -327,6 +333,13 @@ const CountriesManager: React.FC = () => {
         </Box>
       </Dialog>
 
+      <CountryHolidaysDialog
+        open={holidaysCountry !== null}
+        country={holidaysCountry}
+        readOnly={isReadOnly}
+        onClose={() => setHolidaysCountry(null)}
+      />
+
       <ConfirmationDialog
         open={confirmDialog.open}
         title={confirmDialog.title}
@@ -0,0 +1,275 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  UploadFile as ImportIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../Auth/AuthContext';
+import { useNotification } from '../../contexts/NotificationContext';
+import { publicHolidaysApi } from '../../services/api';
+import type { PublicHoliday } from '../../types';
+import { formatTenantDate, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+
+interface CountryHolidaysDialogProps {
+  open: boolean;
+  country: { id: number; name: string; iso2: string } | null;
+  readOnly: boolean;
+  onClose: () => void;
+}
+
+const getErrorMessage = (error: unknown): string | null => {
+  const data = (error as { response?: { data?: { message?: unknown } } })?.response?.data;
+  return typeof data?.message === 'string' ? data.message : null;
+};
+
+/**
+ * Public holiday calendar of one country: edited by hand or imported from an .ics file.
+ * Technicians get the holidays of their contract country.
+ */
+const CountryHolidaysDialog: React.FC<CountryHolidaysDialogProps> = ({ open, country, readOnly, onClose }) => {
+  const { t } = useTranslation();
+  const { tenantContext } = useAuth();
+  const { showSuccess, showError } = useNotification();
+  const datePickerFormat = getTenantDatePickerFormat(tenantContext);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [year, setYear] = useState(dayjs().year());
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [date, setDate] = useState<string>(dayjs().format('YYYY-MM-DD'));
+  const [name, setName] = useState('');
+
+  const loadHolidays = useCallback(async () => {
+    if (!country) return;
+    setLoading(true);
+    try {
+      const response = await publicHolidaysApi.getForCountry(country.id, year);
+      setHolidays(response.data);
+    } catch {
+      showError(t('admin.countries.holidays.loadFailed'));
+      setHolidays([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [country, year, showError, t]);
+
+  useEffect(() => {
+    if (open) void loadHolidays();
+  }, [open, loadHolidays]);
+
+  useEffect(() => {
+    if (!open) return;
+    setYear(dayjs().year());
+    setEditingId(null);
+    setName('');
+  }, [open, country?.id]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+  };
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!country || readOnly || !name.trim()) return;
+
+    setSaving(true);
+    try {
+      const payload = { date, name: name.trim() };
+      if (editingId) {
+        await publicHolidaysApi.update(country.id, editingId, payload);
+      } else {
+        await publicHolidaysApi.create(country.id, payload);
+      }
+      showSuccess(t('admin.countries.holidays.saved'));
+      resetForm();
+      if (dayjs(date).year() !== year) {
+        setYear(dayjs(date).year());
+      } else {
+        void loadHolidays();
+      }
+    } catch (error) {
+      showError(getErrorMessage(error) || t('admin.countries.holidays.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (holiday: PublicHoliday) => {
+    setEditingId(holiday.id);
+    setDate(holiday.date.slice(0, 10));
+    setName(holiday.name);
+  };
+
+  const handleDelete = async (holiday: PublicHoliday) => {
+    if (!country || readOnly) return;
+    setSaving(true);
+    try {
+      await publicHolidaysApi.delete(country.id, holiday.id);
+      showSuccess(t('admin.countries.holidays.deleted'));
+      if (editingId === holiday.id) resetForm();
+      void loadHolidays();
+    } catch (error) {
+      showError(getErrorMessage(error) || t('admin.countries.holidays.deleteFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !country || readOnly) return;
+
+    setSaving(true);
+    try {
+      const result = await publicHolidaysApi.import(country.id, file);
+      showSuccess(t('admin.countries.holidays.imported', { created: result.created, updated: result.updated }));
+      void loadHolidays();
+    } catch (error) {
+      showError(getErrorMessage(error) || t('admin.countries.holidays.importFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('admin.countries.holidays.title', { country: country?.name ?? '' })}</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <IconButton size="small" onClick={() => setYear((value) => value - 1)} aria-label={t('admin.countries.holidays.previousYear')}>
+              <PreviousIcon fontSize="small" />
+            </IconButton>
+            <Typography variant="subtitle1" sx={{ fontWeight: 600, minWidth: 56, textAlign: 'center' }}>
+              {year}
+            </Typography>
+            <IconButton size="small" onClick={() => setYear((value) => value + 1)} aria-label={t('admin.countries.holidays.nextYear')}>
+              <NextIcon fontSize="small" />
+            </IconButton>
+          </Box>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<ImportIcon fontSize="small" />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={readOnly || saving}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('admin.countries.holidays.import')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            hidden
+            onChange={(e) => void handleImport(e)}
+          />
+        </Box>
+
+        <Box component="form" onSubmit={handleSave} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+          <DatePicker
+            label={t('admin.countries.holidays.date')}
+            value={dayjs(date)}
+            onChange={(value) => value && value.isValid() && setDate(value.format('YYYY-MM-DD'))}
+            format={datePickerFormat}
+            disabled={readOnly}
+            slotProps={{ textField: { size: 'small', sx: { width: 170, flexShrink: 0 } } }}
+          />
+          <TextField
+            size="small"
+            fullWidth
+            label={t('admin.countries.holidays.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            inputProps={{ maxLength: 255 }}
+            disabled={readOnly}
+          />
+          <Button type="submit" variant="contained" disabled={readOnly || saving || !name.trim()}>
+            {editingId ? t('common.update') : t('admin.countries.holidays.add')}
+          </Button>
+          {editingId && (
+            <Button color="inherit" onClick={resetForm} disabled={saving}>
+              {t('common.cancel')}
+            </Button>
+          )}
+        </Box>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : holidays.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+            {t('admin.countries.holidays.empty', { year })}
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('admin.countries.holidays.date')}</TableCell>
+                <TableCell>{t('admin.countries.holidays.name')}</TableCell>
+                <TableCell align="right">{t('admin.shared.columns.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {holidays.map((holiday) => (
+                <TableRow key={holiday.id} selected={holiday.id === editingId}>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    {formatTenantDate(holiday.date, tenantContext)} · {dayjs(holiday.date).format('ddd')}
+                  </TableCell>
+                  <TableCell>{holiday.name}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton size="small" onClick={() => handleEdit(holiday)} disabled={readOnly || saving}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => void handleDelete(holiday)}
+                      disabled={readOnly || saving}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.close')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CountryHolidaysDialog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Button,
@@ -12,7 +12,8 @@ import {
   Switch,
   Chip,
   Fab,
-  MenuItem
+  MenuItem,
+  Autocomplete
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -27,6 +28,7 @@ import ConfirmationDialog from '../Common/ConfirmationDialog';
 import EmptyState from '../Common/EmptyState';
 import { useNotification } from '../../contexts/NotificationContext';
 import api from '../../services/api';
+import { listTimezones } from '../../utils/timesheetTimezone';
 import { useReadOnlyGuard } from '../../hooks/useReadOnlyGuard';
 import { useTranslation } from 'react-i18next';
 import useDataGridLocaleText from '../../hooks/useDataGridLocaleText';
@@ -41,6 +43,7 @@ interface Location {
   postal_code?: string;
   latitude?: number | null;
   longitude?: number | null;
+  timezone?: string | null;
   is_active: boolean;
 }
 
@@ -92,9 +95,12 @@ const LocationsManager: React.FC = () => {
     postal_code: '',
     latitude: '',
     longitude: '',
+    timezone: '',
     is_active: true
   });
 
+  const timezoneOptions = useMemo(() => listTimezones(), []);
+
   useEffect(() => {
     fetchLocations();
     fetchCountries();
@@ -141,6 +147,7 @@ const LocationsManager: React.FC = () => {
           location.longitude !== null && location.longitude !== undefined
             ? location.longitude.toString()
             : '',
+        timezone: location.timezone || '',
         is_active: location.is_active
       });
     } else {
@@ -153,6 +160,7 @@ const LocationsManager: React.FC = () => {
         postal_code: '',
         latitude: '',
         longitude: '',
+        timezone: '',
         is_active: true
       });
     }
@@ -192,6 +200,7 @@ const LocationsManager: React.FC = () => {
         postal_code: formData.postal_code || null,
         latitude: formData.latitude && formData.latitude.trim() !== '' ? parseFloat(formData.latitude) : null,
         longitude: formData.longitude && formData.longitude.trim() !== '' ? parseFloat(formData.longitude) : null,
+        timezone: formData.timezone || null,
         is_active: formData.is_active
       };
 
@@ -476,6 +485,18 @@ const LocationsManager: React.FC = () => {
               value={formData.postal_code}
               onChange={(e) => setFormData({ ...formData, postal_code: e.target.value })}
             />
+            <Autocomplete
+              options={timezoneOptions}
+              value={formData.timezone || null}
+              onChange={(_, value) => setFormData({ ...formData, timezone: value ?? '' })}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label={t('admin.locations.fields.timezone')}
+                  helperText={t('admin.locations.helpers.timezone')}
+                />
+              )}
+            />
             <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', sm: 'row' } }}>
               <TextField
                 label={t('admin.locations.fields.latitude')}
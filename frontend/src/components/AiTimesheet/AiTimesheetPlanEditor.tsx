@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Box, Divider, IconButton, MenuItem, Stack, TextField, Tooltip, Typography } from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { useTranslation } from 'react-i18next';
+import type { AiTimesheetPlan, AiTimesheetPlanWorkBlock } from '../../types';
+import { locationsApi, projectsApi, tasksApi } from '../../services/api';
+import {
+  formatMinutesAsHours,
+  getAiTimesheetPlanBlockIssues,
+  getAiTimesheetPlanMetrics,
+  removeAiTimesheetPlanDay,
+  updateAiTimesheetPlanBlock,
+} from '../../utils/aiTimesheetPreview';
+
+type Option = { id: number; name: string; project_id?: number };
+
+type AiTimesheetPlanEditorProps = {
+  plan: AiTimesheetPlan;
+  onChange: (plan: AiTimesheetPlan) => void;
+  disabled?: boolean;
+};
+
+const toOptions = (data: unknown): Option[] => {
+  const list = Array.isArray(data) ? data : (data as { data?: unknown } | null)?.data;
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((item): item is Option => typeof item?.id === 'number' && typeof item?.name === 'string')
+    .map((item) => ({ id: item.id, name: item.name, project_id: item.project_id }));
+};
+
+// Keep the AI's pick selectable even when it is not in the loaded list (e.g. lists still loading).
+const withCurrent = (options: Option[], current: { id: number | null; name: string | null }): Option[] =>
+  current.id && !options.some((option) => option.id === current.id)
+    ? [{ id: current.id, name: current.name ?? `#${current.id}` }, ...options]
+    : options;
+
+const AiTimesheetPlanEditor: React.FC<AiTimesheetPlanEditorProps> = ({ plan, onChange, disabled = false }) => {
+  const { t } = useTranslation();
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [tasks, setTasks] = useState<Option[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    Promise.allSettled([projectsApi.getForCurrentUser(), tasksApi.getAll(), locationsApi.getAll()]).then(
+      ([projectsResult, tasksResult, locationsResult]) => {
+        if (!active) return;
+        if (projectsResult.status === 'fulfilled') setProjects(toOptions(projectsResult.value));
+        if (tasksResult.status === 'fulfilled') setTasks(toOptions(tasksResult.value));
+        if (locationsResult.status === 'fulfilled') setLocations(toOptions(locationsResult.value));
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const metrics = useMemo(() => getAiTimesheetPlanMetrics(plan), [plan]);
+  const issues = useMemo(() => getAiTimesheetPlanBlockIssues(plan), [plan]);
+
+  const startDate = plan.range?.start_date ?? null;
+  const endDate = plan.range?.end_date ?? null;
+  const rangeLabel = startDate
+    ? endDate && endDate !== startDate
+      ? `${startDate} - ${endDate}`
+      : startDate
+    : t('aiTimesheet.previewSummary.unknown');
+
+  const updateBlock = (date: string, index: number, patch: Partial<AiTimesheetPlanWorkBlock>) =>
+    onChange(updateAiTimesheetPlanBlock(plan, date, index, patch));
+
+  const handleProjectChange = (date: string, index: number, block: AiTimesheetPlanWorkBlock, projectId: number) => {
+    const project = projects.find((option) => option.id === projectId);
+    const taskStillValid = tasks.some((task) => task.id === block.task?.id && task.project_id === projectId);
+    updateBlock(date, index, {
+      project: { id: projectId, name: project?.name ?? null },
+      ...(taskStillValid ? {} : { task: { id: null, name: null } }),
+    });
+  };
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack spacing={0.25}>
+        <Typography variant="subtitle2">{t('aiTimesheet.planEditor.title')}</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('aiTimesheet.planEditor.hint')}
+        </Typography>
+      </Stack>
+
+      <Stack spacing={0.5}>
+        <Typography variant="body2">
+          {t('aiTimesheet.previewSummary.dateRange')}: {rangeLabel}
+        </Typography>
+        <Typography variant="body2">
+          {t('aiTimesheet.previewSummary.totalWork')}: {formatMinutesAsHours(metrics.workMinutes)}h
+        </Typography>
+        <Typography variant="body2">
+          {t('aiTimesheet.previewSummary.totalBreaks')}: {formatMinutesAsHours(metrics.breakMinutes)}h
+        </Typography>
+      </Stack>
+
+      {plan.days.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('aiTimesheet.planEditor.empty')}
+        </Typography>
+      ) : (
+        <Box sx={{ minHeight: 0, maxHeight: { xs: 320, sm: 420 }, overflowY: 'auto', pr: 1 }}>
+          {plan.days.map((day) => {
+            const dayMinutes = getAiTimesheetPlanMetrics({ ...plan, days: [day] }).workMinutes;
+
+            return (
+              <Box key={day.date} sx={{ mb: 1.5 }}>
+                <Stack direction="row" alignItems="center" justifyContent="space-between">
+                  <Typography variant="subtitle2">
+                    {day.date} · {formatMinutesAsHours(dayMinutes)}h
+                  </Typography>
+                  <Tooltip title={t('aiTimesheet.planEditor.removeDay')}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        aria-label={t('aiTimesheet.planEditor.removeDay')}
+                        onClick={() => onChange(removeAiTimesheetPlanDay(plan, day.date))}
+                        disabled={disabled}
+                      >
+                        <DeleteOutlineIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Stack>
+
+                <Stack spacing={1.25} sx={{ mt: 0.5 }}>
+                  {day.work_blocks.map((block, index) => {
+                    const blockIssues = issues[`${day.date}:${index}`] ?? [];
+                    const timeInvalid = blockIssues.includes('time');
+                    const projectTasks = tasks.filter((task) => task.project_id === block.project?.id);
+
+                    return (
+                      <Stack key={`${day.date}-${index}`} spacing={1}>
+                        <Stack direction="row" spacing={1}>
+                          <TextField
+                            size="small"
+                            type="time"
+                            label={t('aiTimesheet.planEditor.start')}
+                            value={block.start_time ?? ''}
+                            onChange={(e) => updateBlock(day.date, index, { start_time: e.target.value || null })}
+                            error={timeInvalid}
+                            disabled={disabled}
+                            InputLabelProps={{ shrink: true }}
+                            fullWidth
+                          />
+                          <TextField
+                            size="small"
+                            type="time"
+                            label={t('aiTimesheet.planEditor.end')}
+                            value={block.end_time ?? ''}
+                            onChange={(e) => updateBlock(day.date, index, { end_time: e.target.value || null })}
+                            error={timeInvalid}
+                            helperText={timeInvalid ? t('aiTimesheet.planEditor.invalidTime') : undefined}
+                            disabled={disabled}
+                            InputLabelProps={{ shrink: true }}
+                            fullWidth
+                          />
+                        </Stack>
+                        <TextField
+                          select
+                          size="small"
+                          label={t('aiTimesheet.previewSummary.project')}
+                          value={block.project?.id ?? ''}
+                          onChange={(e) => handleProjectChange(day.date, index, block, Number(e.target.value))}
+                          error={blockIssues.includes('project')}
+                          helperText={
+                            blockIssues.includes('project') ? t('aiTimesheet.planEditor.projectRequired') : undefined
+                          }
+                          disabled={disabled}
+                          fullWidth
+                        >
+                          {withCurrent(projects, block.project).map((option) => (
+                            <MenuItem key={option.id} value={option.id}>
+                              {option.name}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                        <Stack direction="row" spacing={1}>
+                          <TextField
+                            select
+                            size="small"
+                            label={t('aiTimesheet.previewSummary.task')}
+                            value={block.task?.id ?? ''}
+                            onChange={(e) => {
+                              const taskId = Number(e.target.value) || null;
+                              const task = tasks.find((option) => option.id === taskId);
+                              updateBlock(day.date, index, { task: { id: taskId, name: task?.name ?? null } });
+                            }}
+                            disabled={disabled}
+                            fullWidth
+                          >
+                            <MenuItem value="">{t('aiTimesheet.planEditor.noTask')}</MenuItem>
+                            {withCurrent(projectTasks, block.task).map((option) => (
+                              <MenuItem key={option.id} value={option.id}>
+                                {option.name}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                          <TextField
+                            select
+                            size="small"
+                            label={t('aiTimesheet.previewSummary.location')}
+                            value={block.location?.id ?? ''}
+                            onChange={(e) => {
+                              const locationId = Number(e.target.value) || null;
+                              const location = locations.find((option) => option.id === locationId);
+                              updateBlock(day.date, index, {
+                                location: { id: locationId, name: location?.name ?? null },
+                              });
+                            }}
+                            disabled={disabled}
+                            fullWidth
+                          >
+                            <MenuItem value="">{t('aiTimesheet.planEditor.noLocation')}</MenuItem>
+                            {withCurrent(locations, block.location).map((option) => (
+                              <MenuItem key={option.id} value={option.id}>
+                                {option.name}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        </Stack>
+                        {block.notes?.trim() ? (
+                          <Typography variant="caption" color="text.secondary">
+                            {t('aiTimesheet.previewSummary.notes')}: {block.notes.trim()}
+                          </Typography>
+                        ) : null}
+                      </Stack>
+                    );
+                  })}
+                </Stack>
+                <Divider sx={{ mt: 1.5 }} />
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+    </Stack>
+  );
+};
+
+export default AiTimesheetPlanEditor;
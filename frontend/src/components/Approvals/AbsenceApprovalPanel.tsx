@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Check, Close } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { Absence } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantDateTime, formatTenantNumber } from '../../utils/tenantFormatting';
+import { findAbsenceType, getAbsenceTypes } from '../Timesheets/timesheetAbsences';
+
+interface AbsenceApprovalPanelProps {
+  absences: Absence[];
+  loading: boolean;
+  busyAbsenceId: number | null;
+  disabled: boolean;
+  tenantContext: TenantContext | null;
+  onApprove: (absence: Absence) => void;
+  onReject: (absence: Absence) => void;
+}
+
+const AbsenceApprovalPanel: React.FC<AbsenceApprovalPanelProps> = ({
+  absences,
+  loading,
+  busyAbsenceId,
+  disabled,
+  tenantContext,
+  onApprove,
+  onReject,
+}) => {
+  const { t } = useTranslation();
+  const types = getAbsenceTypes(tenantContext);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+
+  if (absences.length === 0) {
+    return (
+      <Paper variant="outlined" sx={{ p: 3, textAlign: 'center' }}>
+        <Typography variant="body2" color="text.secondary">
+          {t('approvals.absences.empty')}
+        </Typography>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper variant="outlined">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('approvals.absences.columns.technician')}</TableCell>
+            <TableCell>{t('approvals.absences.columns.type')}</TableCell>
+            <TableCell>{t('approvals.absences.columns.dates')}</TableCell>
+            <TableCell align="right">{t('approvals.absences.columns.days')}</TableCell>
+            <TableCell>{t('approvals.absences.columns.reason')}</TableCell>
+            <TableCell>{t('approvals.absences.columns.requestedAt')}</TableCell>
+            <TableCell align="right">{t('approvals.absences.columns.actions')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {absences.map((absence) => {
+            const type = findAbsenceType(types, absence.absence_type);
+            const actionsDisabled = disabled || busyAbsenceId === absence.id;
+
+            return (
+              <TableRow key={absence.id} hover>
+                <TableCell>{absence.technician?.name ?? t('common.notAvailable')}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    label={t(`timesheets.absences.types.${type.key}`, { defaultValue: type.label })}
+                    sx={{ bgcolor: type.color, color: '#fff' }}
+                  />
+                </TableCell>
+                <TableCell>
+                  {formatTenantDate(absence.start_date, tenantContext)}
+                  {absence.end_date !== absence.start_date && ` – ${formatTenantDate(absence.end_date, tenantContext)}`}
+                  {absence.half_day && ` · ${t(`timesheets.absences.halfDay.${absence.half_day}`)}`}
+                </TableCell>
+                <TableCell align="right">{formatTenantNumber(absence.days, tenantContext, 1)}</TableCell>
+                <TableCell sx={{ maxWidth: 240 }}>
+                  <Typography variant="body2" noWrap title={absence.reason ?? ''}>
+                    {absence.reason || '—'}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  {absence.created_at ? formatTenantDateTime(absence.created_at, tenantContext) : t('common.notAvailable')}
+                </TableCell>
+                <TableCell align="right">
+                  <Box component="span" sx={{ display: 'inline-flex', gap: 1 }}>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      color="success"
+                      startIcon={<Check fontSize="small" />}
+                      onClick={() => onApprove(absence)}
+                      disabled={actionsDisabled}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      {t('approvals.absences.approve')}
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      color="error"
+                      startIcon={<Close fontSize="small" />}
+                      onClick={() => onReject(absence)}
+                      disabled={actionsDisabled}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      {t('approvals.absences.reject')}
+                    </Button>
+                  </Box>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+};
+
+export default AbsenceApprovalPanel;
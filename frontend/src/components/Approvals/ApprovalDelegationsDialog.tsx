@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { Delete as RevokeIcon } from '@mui/icons-material';
+import dayjs, { Dayjs } from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import ConfirmationDialog from '../Common/ConfirmationDialog';
+import { useNotification } from '../../contexts/NotificationContext';
+import { approvalDelegationsApi } from '../../services/api';
+import type { ApprovalDelegation, ApprovalDelegationOverview, ApprovalDelegationScope } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+
+interface ApprovalDelegationsDialogProps {
+  open: boolean;
+  tenantContext: TenantContext | null;
+  onClose: () => void;
+  /** Called after a delegation was created or revoked. */
+  onChanged?: () => void;
+}
+
+const SCOPES: ApprovalDelegationScope[] = ['timesheets', 'expenses', 'both'];
+
+const coversScope = (item: { timesheets: boolean; expenses: boolean }, scope: ApprovalDelegationScope) =>
+  scope === 'both' ? item.timesheets && item.expenses : item[scope];
+
+/**
+ * Out-of-office delegation of approvals: the manager picks a substitute, what they cover
+ * (timesheets, expenses or both, on all their projects or one) and for which dates. Also lists
+ * the delegations the user received.
+ */
+const ApprovalDelegationsDialog: React.FC<ApprovalDelegationsDialogProps> = ({ open, tenantContext, onClose, onChanged }) => {
+  const { t } = useTranslation();
+  const { showSuccess, showError } = useNotification();
+  const datePickerFormat = useMemo(() => getTenantDatePickerFormat(tenantContext), [tenantContext]);
+
+  const [overview, setOverview] = useState<ApprovalDelegationOverview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [delegateId, setDelegateId] = useState<number | ''>('');
+  const [scope, setScope] = useState<ApprovalDelegationScope>('both');
+  const [projectId, setProjectId] = useState<number | ''>('');
+  const [startsOn, setStartsOn] = useState<Dayjs>(dayjs());
+  const [endsOn, setEndsOn] = useState<Dayjs>(dayjs().add(1, 'week'));
+  const [revoking, setRevoking] = useState<ApprovalDelegation | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    setLoading(true);
+    try {
+      setOverview(await approvalDelegationsApi.getOverview());
+    } catch {
+      showError(t('approvals.delegations.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    if (open) void loadOverview();
+  }, [open, loadOverview]);
+
+  const managedProjects = useMemo(() => overview?.managed_projects ?? [], [overview]);
+  const availableScopes = useMemo(
+    () => SCOPES.filter((value) => managedProjects.some((project) => coversScope(project, value))),
+    [managedProjects]
+  );
+  const projectOptions = managedProjects.filter((project) => coversScope(project, scope));
+  const candidates = (overview?.candidates ?? []).filter((candidate) => coversScope(candidate, scope));
+
+  // Managers of only timesheets or only expenses cannot delegate both
+  useEffect(() => {
+    if (availableScopes.length > 0 && !availableScopes.includes(scope)) setScope(availableScopes[0]);
+  }, [availableScopes, scope]);
+
+  const canCreate = delegateId !== '' && availableScopes.includes(scope) && !endsOn.isBefore(startsOn, 'day') && !endsOn.isBefore(dayjs(), 'day');
+
+  const handleCreate = async () => {
+    if (delegateId === '') return;
+    setSaving(true);
+    try {
+      await approvalDelegationsApi.create({
+        delegate_id: delegateId,
+        scope,
+        project_id: projectId === '' ? null : projectId,
+        starts_on: startsOn.format('YYYY-MM-DD'),
+        ends_on: endsOn.format('YYYY-MM-DD'),
+      });
+      showSuccess(t('approvals.delegations.created'));
+      setDelegateId('');
+      setProjectId('');
+      await loadOverview();
+      onChanged?.();
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { message?: unknown } } }).response?.data?.message;
+      showError(typeof message === 'string' ? message : t('approvals.delegations.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    const delegation = revoking;
+    setRevoking(null);
+    try {
+      await approvalDelegationsApi.revoke(delegation.id);
+      showSuccess(t('approvals.delegations.revoked'));
+      await loadOverview();
+      onChanged?.();
+    } catch {
+      showError(t('approvals.delegations.saveFailed'));
+    }
+  };
+
+  const renderDelegation = (delegation: ApprovalDelegation, direction: 'given' | 'received') => {
+    const person = direction === 'given' ? delegation.delegate : delegation.delegator;
+    return (
+      <Paper key={delegation.id} variant="outlined" sx={{ p: 1.25, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+            {t(direction === 'given' ? 'approvals.delegations.toDelegate' : 'approvals.delegations.fromDelegator', {
+              name: person?.name ?? t('common.notAvailable'),
+            })}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {t(`approvals.delegations.scopes.${delegation.scope}`)}
+            {' · '}
+            {delegation.project?.name ?? t('approvals.delegations.allProjects')}
+            {' · '}
+            {t('approvals.delegations.range', {
+              from: formatTenantDate(delegation.starts_on, tenantContext),
+              to: formatTenantDate(delegation.ends_on, tenantContext),
+            })}
+          </Typography>
+        </Box>
+        <Chip
+          size="small"
+          color={delegation.is_active ? 'success' : 'default'}
+          variant={delegation.is_active ? 'filled' : 'outlined'}
+          label={t(delegation.is_active ? 'approvals.delegations.active' : 'approvals.delegations.upcoming')}
+          sx={{ height: 20, fontSize: '0.7rem' }}
+        />
+        {direction === 'given' && (
+          <Button
+            size="small"
+            color="error"
+            startIcon={<RevokeIcon fontSize="small" />}
+            onClick={() => setRevoking(delegation)}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('approvals.delegations.revoke')}
+          </Button>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('approvals.delegations.title')}</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t('approvals.delegations.subtitle')}
+        </Typography>
+
+        {loading && !overview ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : (
+          <>
+            {availableScopes.length === 0 ? (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {t('approvals.delegations.nothingToDelegate')}
+              </Alert>
+            ) : (
+              <Paper variant="outlined" sx={{ p: 2, mb: 2, display: 'flex', gap: 1.5, flexWrap: 'wrap', alignItems: 'center' }}>
+                <FormControl size="small" sx={{ minWidth: 200 }}>
+                  <InputLabel>{t('approvals.delegations.delegateLabel')}</InputLabel>
+                  <Select
+                    label={t('approvals.delegations.delegateLabel')}
+                    value={delegateId}
+                    onChange={(e) => setDelegateId(e.target.value === '' ? '' : Number(e.target.value))}
+                  >
+                    {candidates.map((candidate) => (
+                      <MenuItem key={candidate.id} value={candidate.id}>
+                        {candidate.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl size="small" sx={{ minWidth: 180 }}>
+                  <InputLabel>{t('approvals.delegations.scopeLabel')}</InputLabel>
+                  <Select
+                    label={t('approvals.delegations.scopeLabel')}
+                    value={scope}
+                    onChange={(e) => {
+                      setScope(e.target.value as ApprovalDelegationScope);
+                      setProjectId('');
+                      setDelegateId('');
+                    }}
+                  >
+                    {availableScopes.map((value) => (
+                      <MenuItem key={value} value={value}>
+                        {t(`approvals.delegations.scopes.${value}`)}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl size="small" sx={{ minWidth: 200 }}>
+                  <InputLabel shrink>{t('approvals.delegations.projectLabel')}</InputLabel>
+                  <Select
+                    label={t('approvals.delegations.projectLabel')}
+                    value={projectId}
+                    displayEmpty
+                    notched
+                    onChange={(e) => setProjectId(e.target.value === '' ? '' : Number(e.target.value))}
+                  >
+                    <MenuItem value="">{t('approvals.delegations.allProjects')}</MenuItem>
+                    {projectOptions.map((project) => (
+                      <MenuItem key={project.id} value={project.id}>
+                        {project.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <DatePicker
+                  label={t('approvals.delegations.startsOn')}
+                  value={startsOn}
+                  onChange={(value) => value && setStartsOn(value)}
+                  format={datePickerFormat}
+                  slotProps={{ textField: { size: 'small', sx: { width: 160 } } }}
+                />
+                <DatePicker
+                  label={t('approvals.delegations.endsOn')}
+                  value={endsOn}
+                  minDate={startsOn}
+                  onChange={(value) => value && setEndsOn(value)}
+                  format={datePickerFormat}
+                  slotProps={{ textField: { size: 'small', sx: { width: 160 } } }}
+                />
+                <Button
+                  variant="contained"
+                  onClick={() => void handleCreate()}
+                  disabled={saving || !canCreate}
+                  sx={{ ml: 'auto', textTransform: 'none' }}
+                >
+                  {t('approvals.delegations.create')}
+                </Button>
+              </Paper>
+            )}
+
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              {t('approvals.delegations.given')}
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+              {overview?.given.length ? (
+                overview.given.map((delegation) => renderDelegation(delegation, 'given'))
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  {t('approvals.delegations.noneGiven')}
+                </Typography>
+              )}
+            </Box>
+
+            <Divider sx={{ mb: 2 }} />
+
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              {t('approvals.delegations.received')}
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              {overview?.received.length ? (
+                overview.received.map((delegation) => renderDelegation(delegation, 'received'))
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  {t('approvals.delegations.noneReceived')}
+                </Typography>
+              )}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+
+      <ConfirmationDialog
+        open={revoking !== null}
+        title={t('approvals.delegations.revokeTitle')}
+        message={t('approvals.delegations.revokeMessage')}
+        recordDetails={revoking ? { name: revoking.delegate?.name ?? '' } : undefined}
+        confirmText={t('approvals.delegations.revoke')}
+        cancelText={t('common.cancel')}
+        confirmColor="error"
+        onConfirm={() => void handleRevoke()}
+        onCancel={() => setRevoking(null)}
+      />
+    </Dialog>
+  );
+};
+
+export default ApprovalDelegationsDialog;
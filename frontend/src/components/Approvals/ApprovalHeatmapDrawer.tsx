@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  Drawer,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { OpenInNew as OpenIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import api from '../../services/api';
+import { useAuth } from '../Auth/AuthContext';
+import { formatTenantDate, formatTenantMoney, formatTenantNumber } from '../../utils/tenantFormatting';
+import { splitWaitingTime } from './approvalSla';
+import { buildApprovalsLink, type ApprovalsLinkTab } from './approvalHeatmap';
+
+/** A clicked heatmap cell: its bucket's range, and the breakdown row when there is one. */
+export interface HeatmapCellSelection {
+  from: string;
+  to: string;
+  title: string;
+  /** Breakdown row key ("project:<id>", "user:<id>", "awaiting" or "unassigned"). */
+  group?: string | null;
+}
+
+type HeatmapItemState = 'pending' | 'approved' | 'rejected';
+
+type HeatmapItem = {
+  type: ApprovalsLinkTab;
+  id: number;
+  date: string;
+  status: string;
+  state: HeatmapItemState;
+  technician: { id: number; name: string } | null;
+  project: { id: number; name: string } | null;
+  hours_worked: number | null;
+  amount: number | null;
+  submitted_at: string | null;
+  decided_at: string | null;
+  wait_hours: number | null;
+  decided_by: { id: number; name: string } | null;
+};
+
+type HeatmapItemsResponse = {
+  meta: { from: string; to: string; total: number; truncated: boolean };
+  items: HeatmapItem[];
+};
+
+interface ApprovalHeatmapDrawerProps {
+  selection: HeatmapCellSelection | null;
+  include: { timesheets: boolean; expenses: boolean };
+  onClose: () => void;
+}
+
+const STATE_COLORS = {
+  pending: 'warning',
+  approved: 'success',
+  rejected: 'error',
+} as const;
+
+const projectIdOf = (group?: string | null): number | null =>
+  group?.startsWith('project:') ? Number(group.slice('project:'.length)) : null;
+
+/**
+ * Side list of the timesheets and expenses behind a heatmap cell. Pending entries link into
+ * ApprovalManager filtered to the entry's day, project and technician.
+ */
+const ApprovalHeatmapDrawer: React.FC<ApprovalHeatmapDrawerProps> = ({ selection, include, onClose }) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { tenantContext } = useAuth();
+  const [data, setData] = useState<HeatmapItemsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!selection) {
+      setData(null);
+      setError(null);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+
+    api
+      .post<HeatmapItemsResponse>('/api/reports/approvals/heatmap/items', {
+        range: { from: selection.from, to: selection.to },
+        include,
+        group: selection.group ?? null,
+      })
+      .then((response) => {
+        if (mounted) setData(response.data);
+      })
+      .catch((e: { response?: { data?: { message?: unknown } } }) => {
+        if (!mounted) return;
+        const message = e?.response?.data?.message;
+        setData(null);
+        setError(typeof message === 'string' ? message : t('approvalHeatmap.drillDown.loadFailed'));
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [selection, include, t]);
+
+  const formatWait = (hours: number): string => {
+    const age = splitWaitingTime(hours);
+    return age.days > 0 ? t('approvals.sla.ageDays', age) : t('approvals.sla.ageHours', age);
+  };
+
+  const describeItem = (item: HeatmapItem): string => {
+    const parts = [
+      formatTenantDate(item.date, tenantContext),
+      item.type === 'timesheets'
+        ? t('approvalHeatmap.drillDown.hours', { hours: formatTenantNumber(item.hours_worked ?? 0, tenantContext, 2) })
+        : formatTenantMoney(item.amount ?? 0, tenantContext),
+    ];
+    if (item.wait_hours !== null) {
+      parts.push(
+        t(item.state === 'pending' ? 'approvalHeatmap.drillDown.waiting' : 'approvalHeatmap.drillDown.waited', {
+          wait: formatWait(item.wait_hours),
+        })
+      );
+    }
+    if (item.decided_by) {
+      parts.push(t('approvalHeatmap.drillDown.decidedBy', { name: item.decided_by.name }));
+    }
+    return parts.join(' · ');
+  };
+
+  const pendingTypes = (['timesheets', 'expenses'] as const).filter((type) =>
+    data?.items.some((item) => item.type === type && item.state === 'pending')
+  );
+
+  const openInApprovals = (filters: Parameters<typeof buildApprovalsLink>[0]) => {
+    onClose();
+    navigate(buildApprovalsLink(filters));
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={selection !== null}
+      onClose={onClose}
+      PaperProps={{ sx: { width: { xs: '100%', sm: 440 } } }}
+    >
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="h6" noWrap>
+            {selection?.title}
+          </Typography>
+          {data && (
+            <Typography variant="caption" color="text.secondary">
+              {t('approvalHeatmap.drillDown.total', { count: data.meta.total })}
+            </Typography>
+          )}
+        </Box>
+        <IconButton aria-label={t('common.close')} onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      {selection && pendingTypes.length > 0 && (
+        <Stack direction="row" spacing={1} sx={{ px: 2, pb: 1.5 }} flexWrap="wrap" useFlexGap>
+          {pendingTypes.map((type) => (
+            <Button
+              key={type}
+              size="small"
+              variant="outlined"
+              startIcon={<OpenIcon fontSize="small" />}
+              sx={{ textTransform: 'none' }}
+              onClick={() =>
+                openInApprovals({ tab: type, from: selection.from, to: selection.to, projectId: projectIdOf(selection.group) })
+              }
+            >
+              {t(type === 'timesheets' ? 'approvalHeatmap.drillDown.openTimesheets' : 'approvalHeatmap.drillDown.openExpenses')}
+            </Button>
+          ))}
+        </Stack>
+      )}
+
+      <Divider />
+
+      <Box sx={{ flex: 1, overflow: 'auto' }}>
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ m: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!loading && data && data.items.length === 0 && (
+          <Alert severity="info" sx={{ m: 2 }}>
+            {t('approvalHeatmap.drillDown.empty')}
+          </Alert>
+        )}
+
+        {!loading && data && data.items.length > 0 && (
+          <List dense disablePadding>
+            {data.items.map((item) => (
+              <ListItem
+                key={`${item.type}-${item.id}`}
+                divider
+                secondaryAction={
+                  item.state === 'pending' ? (
+                    <Tooltip title={t('approvalHeatmap.drillDown.openEntry')}>
+                      <IconButton
+                        edge="end"
+                        size="small"
+                        aria-label={t('approvalHeatmap.drillDown.openEntry')}
+                        onClick={() =>
+                          openInApprovals({
+                            tab: item.type,
+                            from: item.date,
+                            to: item.date,
+                            projectId: item.project?.id,
+                            technicianId: item.technician?.id,
+                          })
+                        }
+                      >
+                        <OpenIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  ) : undefined
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Chip
+                        size="small"
+                        label={t(`approvalHeatmap.drillDown.states.${item.state}`)}
+                        color={STATE_COLORS[item.state]}
+                        variant={item.state === 'pending' ? 'filled' : 'outlined'}
+                      />
+                      <Typography variant="body2" noWrap>
+                        {item.technician?.name ?? t('common.notAvailable')} · {item.project?.name ?? t('common.notAvailable')}
+                      </Typography>
+                    </Stack>
+                  }
+                  secondary={
+                    <>
+                      {t(item.type === 'timesheets' ? 'approvalHeatmap.filters.timesheets' : 'approvalHeatmap.filters.expenses')}
+                      {' · '}
+                      {describeItem(item)}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {data?.meta.truncated && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', p: 2 }}>
+            {t('approvalHeatmap.drillDown.truncated', { shown: data.items.length, total: data.meta.total })}
+          </Typography>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default ApprovalHeatmapDrawer;
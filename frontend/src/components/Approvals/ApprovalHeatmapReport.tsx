@@ -6,9 +6,15 @@ import {
   CardContent,
   Checkbox,
   CircularProgress,
+  FormControl,
   FormControlLabel,
   Grid,
+  InputLabel,
+  MenuItem,
+  Select,
   Stack,
+  ToggleButton,
+  ToggleButtonGroup,
   Tooltip,
   Typography,
   alpha,
@@ -24,9 +30,19 @@ import { getTenantAiState } from '../Common/aiState';
 import ReportFiltersCard from '../Common/ReportFiltersCard';
 import ReportAISideTab from '../Common/ReportAISideTab';
 import { useAuth } from '../Auth/AuthContext';
-import { formatTenantDate, formatTenantDayMonth, formatTenantNumber, getTenantDatePickerFormat, getTenantUiLocale } from '../../utils/tenantFormatting';
+import {
+  formatTenantDate,
+  formatTenantDayMonth,
+  formatTenantMonth,
+  formatTenantNumber,
+  getTenantDatePickerFormat,
+  getTenantUiLocale,
+} from '../../utils/tenantFormatting';
 import { weekStartToFirstDay } from '../../utils/weekStartToFirstDay';
 import { useTranslation } from 'react-i18next';
+import { getWaitState, resolveApprovalSla, splitWaitingTime } from './approvalSla';
+import { isHeatmapRangeAllowed, type HeatmapBreakdown, type HeatmapGranularity } from './approvalHeatmap';
+import ApprovalHeatmapDrawer, { type HeatmapCellSelection } from './ApprovalHeatmapDrawer';
 
 dayjs.extend(customParseFormat);
 
@@ -39,6 +55,8 @@ type HeatmapRequestPayload = {
     timesheets: boolean;
     expenses: boolean;
   };
+  granularity: HeatmapGranularity;
+  breakdown: Exclude<HeatmapBreakdown, 'none'> | null;
 };
 
 type HeatmapEntityCounts = {
@@ -46,10 +64,33 @@ type HeatmapEntityCounts = {
   approved: number;
 };
 
+type HeatmapWait = {
+  median_hours: number | null;
+  samples: number;
+};
+
 type HeatmapDay = {
   timesheets?: HeatmapEntityCounts;
   expenses?: HeatmapEntityCounts;
   total_pending: number;
+  /** Median hours the day's entries waited for a decision (or have waited so far). */
+  wait?: HeatmapWait;
+};
+
+type HeatmapBucket = {
+  from: string;
+  to: string;
+};
+
+type HeatmapBreakdownRow = {
+  /** "project:<id>", "user:<id>", "awaiting" (still pending) or "unassigned". */
+  key: string;
+  id: number | null;
+  label: string | null;
+  pending: number;
+  approved: number;
+  wait: HeatmapWait;
+  buckets: Record<string, HeatmapEntityCounts & { wait: HeatmapWait }>;
 };
 
 type HeatmapResponse = {
@@ -57,11 +98,24 @@ type HeatmapResponse = {
     from: string;
     to: string;
     scoped: string;
+    granularity?: Exclude<HeatmapGranularity, 'auto'>;
+    buckets?: HeatmapBucket[];
     [key: string]: unknown;
   };
+  /** Keyed by the first day of each bucket (every day when the granularity is "day"). */
   days: Record<string, HeatmapDay>;
+  breakdown?: {
+    by: Exclude<HeatmapBreakdown, 'none'>;
+    rows: HeatmapBreakdownRow[];
+  };
 };
 
+const WAIT_STATE_PALETTE = {
+  ok: 'success',
+  warning: 'warning',
+  overdue: 'error',
+} as const;
+
 const toStrictYmdKey = (dayStr: string): string => {
   const parsed = dayjs(dayStr, 'YYYY-MM-DD', true);
   return parsed.isValid() ? parsed.format('YYYY-MM-DD') : dayStr;
@@ -146,6 +200,24 @@ const ApprovalHeatmapReport: React.FC = () => {
     return weekStartToFirstDay(typeof raw === 'string' ? raw : null);
   }, [rawWeekStart]);
   const datePickerFormat = getTenantDatePickerFormat(tenantContext);
+  const approvalSla = resolveApprovalSla(tenantContext);
+
+  const formatWait = (hours: number): string => {
+    const age = splitWaitingTime(hours);
+    return age.days > 0 ? t('approvals.sla.ageDays', age) : t('approvals.sla.ageHours', age);
+  };
+
+  // Coloured by the median wait against the tenant's approval SLA;
+  // cells without tracked waiting times stay grey.
+  const waitBackground = (medianWait: number | null): string =>
+    medianWait === null
+      ? theme.palette.action.hover
+      : alpha(theme.palette[WAIT_STATE_PALETTE[getWaitState(medianWait, approvalSla)]].main, 0.35);
+
+  const formatRange = (range: HeatmapBucket): string =>
+    range.from === range.to
+      ? formatTenantDate(range.from, tenantContext)
+      : `${formatTenantDate(range.from, tenantContext)} → ${formatTenantDate(range.to, tenantContext)}`;
 
   const { billingSummary, tenantAiEnabled, openCheckoutForAddon } = useBilling();
   const aiState = getTenantAiState(billingSummary, tenantAiEnabled);
@@ -157,6 +229,8 @@ const ApprovalHeatmapReport: React.FC = () => {
       to: todayAsYmd(),
       includeTimesheets: true,
       includeExpenses: true,
+      granularity: 'auto' as HeatmapGranularity,
+      breakdown: 'none' as HeatmapBreakdown,
     }),
     []
   );
@@ -165,6 +239,9 @@ const ApprovalHeatmapReport: React.FC = () => {
   const [to, setTo] = useState<string>(baselineFilters.to);
   const [includeTimesheets, setIncludeTimesheets] = useState(baselineFilters.includeTimesheets);
   const [includeExpenses, setIncludeExpenses] = useState(baselineFilters.includeExpenses);
+  const [granularity, setGranularity] = useState<HeatmapGranularity>(baselineFilters.granularity);
+  const [breakdown, setBreakdown] = useState<HeatmapBreakdown>(baselineFilters.breakdown);
+  const [selectedCell, setSelectedCell] = useState<HeatmapCellSelection | null>(null);
 
   const [data, setData] = useState<HeatmapResponse | null>(null);
   const [loading, setLoading] = useState(false);
@@ -174,8 +251,10 @@ const ApprovalHeatmapReport: React.FC = () => {
     () => ({
       range: { from, to },
       include: { timesheets: includeTimesheets, expenses: includeExpenses },
+      granularity,
+      breakdown: breakdown === 'none' ? null : breakdown,
     }),
-    [from, to, includeTimesheets, includeExpenses]
+    [from, to, includeTimesheets, includeExpenses, granularity, breakdown]
   );
 
   const fromDate = useMemo(() => ymdToDate(from), [from]);
@@ -185,9 +264,8 @@ const ApprovalHeatmapReport: React.FC = () => {
     if (!fromDate || !toDate) return false;
     if (fromDate.getTime() > toDate.getTime()) return false;
     if (!includeTimesheets && !includeExpenses) return false;
-    const days = diffDaysInclusive(fromDate, toDate);
-    return days >= 1 && days <= 62;
-  }, [fromDate, toDate, includeTimesheets, includeExpenses]);
+    return isHeatmapRangeAllowed(diffDaysInclusive(fromDate, toDate), granularity);
+  }, [fromDate, toDate, includeTimesheets, includeExpenses, granularity]);
 
   useEffect(() => {
     let mounted = true;
@@ -312,14 +390,18 @@ const ApprovalHeatmapReport: React.FC = () => {
     if (to !== baselineFilters.to) count++;
     if (includeTimesheets !== baselineFilters.includeTimesheets) count++;
     if (includeExpenses !== baselineFilters.includeExpenses) count++;
+    if (granularity !== baselineFilters.granularity) count++;
+    if (breakdown !== baselineFilters.breakdown) count++;
     return count;
-  }, [baselineFilters, from, to, includeTimesheets, includeExpenses]);
+  }, [baselineFilters, from, to, includeTimesheets, includeExpenses, granularity, breakdown]);
 
   const clearAllFilters = () => {
     setFrom(baselineFilters.from);
     setTo(baselineFilters.to);
     setIncludeTimesheets(baselineFilters.includeTimesheets);
     setIncludeExpenses(baselineFilters.includeExpenses);
+    setGranularity(baselineFilters.granularity);
+    setBreakdown(baselineFilters.breakdown);
   };
 
   const fromPickerValue = useMemo(() => {
@@ -332,6 +414,60 @@ const ApprovalHeatmapReport: React.FC = () => {
     return parsed.isValid() ? parsed : null;
   }, [to]);
 
+  const buckets = useMemo(
+    (): HeatmapBucket[] => data?.meta.buckets ?? Object.keys(data?.days ?? {}).map((day) => ({ from: day, to: day })),
+    [data]
+  );
+
+  const showCalendar = (data?.meta.granularity ?? 'day') === 'day' && !data?.breakdown;
+
+  const formatBucket = (bucket: HeatmapBucket): string => {
+    switch (data?.meta.granularity) {
+      case 'month':
+        return formatTenantMonth(bucket.from.slice(0, 7), tenantContext);
+      case 'week':
+        return t('approvalHeatmap.bucketWeek', { date: formatTenantDayMonth(bucket.from, tenantContext) });
+      default:
+        return formatTenantDayMonth(bucket.from, tenantContext);
+    }
+  };
+
+  // Totals first, then one row per project or approver; group is the drill-down filter.
+  const matrixRows = useMemo(() => {
+    const totalsRow = {
+      key: 'total',
+      group: null as string | null,
+      label: t('approvalHeatmap.breakdowns.total'),
+      summary: t('approvalHeatmap.tooltip.pending', { count: totals.totalPending }),
+      cells: Object.fromEntries(
+        Object.entries(data?.days ?? {}).map(([key, day]) => [
+          key,
+          {
+            pending: day.total_pending,
+            approved: (day.timesheets?.approved ?? 0) + (day.expenses?.approved ?? 0),
+            wait: day.wait,
+          },
+        ])
+      ) as Record<string, { pending: number; approved: number; wait?: HeatmapWait }>,
+    };
+
+    const breakdownRows = (data?.breakdown?.rows ?? []).map((row) => ({
+      key: row.key,
+      group: row.key as string | null,
+      label:
+        row.label ??
+        (row.key === 'awaiting'
+          ? t('approvalHeatmap.breakdowns.awaiting')
+          : data?.breakdown?.by === 'project'
+            ? t('approvalHeatmap.breakdowns.noProject')
+            : t('approvalHeatmap.breakdowns.noApprover')),
+      summary: t('approvalHeatmap.tooltip.pending', { count: row.pending }),
+      cells: row.buckets as Record<string, { pending: number; approved: number; wait?: HeatmapWait }>,
+    }));
+
+    return [totalsRow, ...breakdownRows];
+  }, [data, totals.totalPending, t]);
+
   const heatmapInsights = useMemo(() => {
     const days = data?.days ?? {};
     let peakDate: string | null = null;
@@ -504,6 +640,39 @@ const ApprovalHeatmapReport: React.FC = () => {
                 sx={{ m: 0 }}
               />
             </Grid>
+
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel>{t('approvalHeatmap.filters.granularity')}</InputLabel>
+                <Select
+                  value={granularity}
+                  label={t('approvalHeatmap.filters.granularity')}
+                  onChange={(e) => setGranularity(e.target.value as HeatmapGranularity)}
+                >
+                  {(['auto', 'day', 'week', 'month'] as const).map((value) => (
+                    <MenuItem key={value} value={value}>
+                      {t(`approvalHeatmap.granularities.${value}`)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <ToggleButtonGroup
+                value={breakdown}
+                exclusive
+                onChange={(_, value: HeatmapBreakdown | null) => value && setBreakdown(value)}
+                size="small"
+                fullWidth
+              >
+                {(['none', 'project', 'approver'] as const).map((value) => (
+                  <ToggleButton key={value} value={value} sx={{ textTransform: 'none' }}>
+                    {t(`approvalHeatmap.breakdowns.${value}`)}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Grid>
           </Grid>
         </ReportFiltersCard>
 
@@ -581,117 +750,232 @@ const ApprovalHeatmapReport: React.FC = () => {
 
         {data && canQuery && (
           <Box>
-            <Box
-              sx={{
-                display: 'grid',
-                gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
-                gap: 1,
-                maxWidth: 980,
-              }}
-            >
-              {weekdayLabels.map((dow) => (
-                <Typography
-                  key={dow}
-                  variant="caption"
-                  sx={{
-                    color: 'text.secondary',
-                    textAlign: 'center',
-                    fontWeight: 700,
-                    letterSpacing: 0.3,
-                  }}
-                >
-                  {dow}
-                </Typography>
-              ))}
-
-              {calendarCells.map((ymd) => {
-                const cellKey = toStrictYmdKey(ymd);
-                const inRange = allDates.includes(cellKey);
-                const day = data.days?.[cellKey];
-                const pending = inRange && day ? day.total_pending : 0;
-
-                if (debugHeatmap && !debugLoggedRef.current && inRange && pending > 0) {
-                  debugLoggedRef.current = true;
-                  // eslint-disable-next-line no-console
-                  console.debug('[ApprovalHeatmap] cell data', { cellKey, hasData: !!data.days?.[cellKey], pending });
-                }
-
-                const bg = (() => {
-                  if (!inRange) return alpha(theme.palette.common.white, 0.02);
-
-                  // Spec thresholds:
-                  // 0 -> grey
-                  // 1-2 -> yellow
-                  // 3-5 -> orange
-                  // 6+ -> red
-                  if (pending <= 0) return theme.palette.action.hover;
-                  if (pending <= 2) return alpha(theme.palette.warning.light, 0.35);
-                  if (pending <= 5) return alpha(theme.palette.warning.main, 0.35);
-                  return alpha(theme.palette.error.main, 0.35);
-                })();
-
-                const dayNumber = Number(cellKey.slice(8, 10)).toString();
-
-                const tooltip = (() => {
-                  if (!inRange) return null;
-
-                  const header = dayjs(cellKey, 'YYYY-MM-DD', true).isValid() ? formatTenantDayMonth(cellKey, tenantContext) : cellKey;
+            {showCalendar ? (
+              <Box
+                sx={{
+                  display: 'grid',
+                  gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
+                  gap: 1,
+                  maxWidth: 980,
+                }}
+              >
+                {weekdayLabels.map((dow) => (
+                  <Typography
+                    key={dow}
+                    variant="caption"
+                    sx={{
+                      color: 'text.secondary',
+                      textAlign: 'center',
+                      fontWeight: 700,
+                      letterSpacing: 0.3,
+                    }}
+                  >
+                    {dow}
+                  </Typography>
+                ))}
 
-                  const tsPending = day?.timesheets?.pending ?? 0;
-                  const exPending = day?.expenses?.pending ?? 0;
+                {calendarCells.map((ymd) => {
+                  const cellKey = toStrictYmdKey(ymd);
+                  const inRange = allDates.includes(cellKey);
+                  const day = data.days?.[cellKey];
+                  const pending = inRange && day ? day.total_pending : 0;
 
-                  const lines: string[] = [header];
-                  if (includeTimesheets) {
-                    lines.push(t('approvalHeatmap.tooltip.timesheetsPending', { count: tsPending }));
+                  if (debugHeatmap && !debugLoggedRef.current && inRange && pending > 0) {
+                    debugLoggedRef.current = true;
+                    console.debug('[ApprovalHeatmap] cell data', { cellKey, hasData: !!data.days?.[cellKey], pending });
                   }
-                  if (includeExpenses) {
-                    lines.push(t('approvalHeatmap.tooltip.expensesPending', { count: exPending }));
-                  }
-                  return lines.join('\n');
-                })();
 
-                const cell = (
-                  <Box
-                    sx={{
-                      borderRadius: 1.5,
-                      bgcolor: bg,
-                      minHeight: 60,
-                      px: 1,
-                      py: 0.75,
-                      display: 'flex',
-                      flexDirection: 'column',
-                      justifyContent: 'space-between',
-                      border: `1px solid ${alpha(theme.palette.common.white, 0.06)}`,
-                      opacity: inRange ? 1 : 0.45,
-                    }}
-                  >
-                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>
-                      {dayNumber}
-                    </Typography>
-                    {inRange && pending > 0 && (
-                      <Typography variant="body2" sx={{ fontWeight: 700, textAlign: 'right' }}>
-                        {pending}
+                  const medianWait = inRange ? day?.wait?.median_hours ?? null : null;
+
+                  const bg = inRange ? waitBackground(medianWait) : alpha(theme.palette.common.white, 0.02);
+
+                  const dayNumber = Number(cellKey.slice(8, 10)).toString();
+
+                  const tooltip = (() => {
+                    if (!inRange) return null;
+
+                    const header = dayjs(cellKey, 'YYYY-MM-DD', true).isValid() ? formatTenantDayMonth(cellKey, tenantContext) : cellKey;
+
+                    const tsPending = day?.timesheets?.pending ?? 0;
+                    const exPending = day?.expenses?.pending ?? 0;
+
+                    const lines: string[] = [header];
+                    if (includeTimesheets) {
+                      lines.push(t('approvalHeatmap.tooltip.timesheetsPending', { count: tsPending }));
+                    }
+                    if (includeExpenses) {
+                      lines.push(t('approvalHeatmap.tooltip.expensesPending', { count: exPending }));
+                    }
+                    if (medianWait !== null) {
+                      lines.push(t('approvalHeatmap.tooltip.medianWait', { wait: formatWait(medianWait), count: day?.wait?.samples ?? 0 }));
+                    }
+                    return lines.join('\n');
+                  })();
+
+                  const cell = (
+                    <Box
+                      onClick={inRange ? () => setSelectedCell({ from: cellKey, to: cellKey, title: formatRange({ from: cellKey, to: cellKey }) }) : undefined}
+                      sx={{
+                        borderRadius: 1.5,
+                        bgcolor: bg,
+                        cursor: inRange ? 'pointer' : 'default',
+                        minHeight: 60,
+                        px: 1,
+                        py: 0.75,
+                        display: 'flex',
+                        flexDirection: 'column',
+                        justifyContent: 'space-between',
+                        border: `1px solid ${alpha(theme.palette.common.white, 0.06)}`,
+                        opacity: inRange ? 1 : 0.45,
+                      }}
+                    >
+                      <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                        {dayNumber}
                       </Typography>
-                    )}
-                  </Box>
-                );
-
-                if (!tooltip) return <Box key={cellKey}>{cell}</Box>;
-
-                return (
-                  <Tooltip
-                    key={cellKey}
-                    title={<Box component="span" sx={{ whiteSpace: 'pre-line' }}>{tooltip}</Box>}
-                    placement="top"
-                    arrow
-                  >
-                    <Box>{cell}</Box>
-                  </Tooltip>
-                );
-              })}
-            </Box>
+                      {inRange && (pending > 0 || medianWait !== null) && (
+                        <Stack direction="row" justifyContent="space-between" alignItems="baseline">
+                          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                            {medianWait !== null ? formatWait(medianWait) : ''}
+                          </Typography>
+                          {pending > 0 && (
+                            <Typography variant="body2" sx={{ fontWeight: 700 }}>
+                              {pending}
+                            </Typography>
+                          )}
+                        </Stack>
+                      )}
+                    </Box>
+                  );
+
+                  if (!tooltip) return <Box key={cellKey}>{cell}</Box>;
+
+                  return (
+                    <Tooltip
+                      key={cellKey}
+                      title={<Box component="span" sx={{ whiteSpace: 'pre-line' }}>{tooltip}</Box>}
+                      placement="top"
+                      arrow
+                    >
+                      <Box>{cell}</Box>
+                    </Tooltip>
+                  );
+                })}
+              </Box>
+            ) : (
+              <Box sx={{ overflowX: 'auto', pb: 1 }}>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: `minmax(140px, 220px) repeat(${buckets.length}, minmax(56px, 1fr))`,
+                    gap: 0.75,
+                    minWidth: 160 + buckets.length * 60,
+                  }}
+                >
+                  <Box />
+                  {buckets.map((bucket) => (
+                    <Typography
+                      key={bucket.from}
+                      variant="caption"
+                      noWrap
+                      sx={{ color: 'text.secondary', textAlign: 'center', fontWeight: 700 }}
+                    >
+                      {formatBucket(bucket)}
+                    </Typography>
+                  ))}
+
+                  {matrixRows.map((row) => (
+                    <React.Fragment key={row.key}>
+                      <Tooltip title={row.summary} placement="left">
+                        <Typography
+                          variant="body2"
+                          noWrap
+                          sx={{ alignSelf: 'center', fontWeight: row.group === null ? 700 : 400 }}
+                        >
+                          {row.label}
+                        </Typography>
+                      </Tooltip>
+                      {buckets.map((bucket) => {
+                        const cell = row.cells[bucket.from];
+                        const pending = cell?.pending ?? 0;
+                        const medianWait = cell?.wait?.median_hours ?? null;
+                        const lines = [
+                          formatRange(bucket),
+                          t('approvalHeatmap.tooltip.pending', { count: pending }),
+                          t('approvalHeatmap.tooltip.approved', { count: cell?.approved ?? 0 }),
+                          ...(medianWait !== null
+                            ? [t('approvalHeatmap.tooltip.medianWait', { wait: formatWait(medianWait), count: cell?.wait?.samples ?? 0 })]
+                            : []),
+                        ];
+
+                        return (
+                          <Tooltip
+                            key={bucket.from}
+                            title={<Box component="span" sx={{ whiteSpace: 'pre-line' }}>{lines.join('\n')}</Box>}
+                            placement="top"
+                            arrow
+                          >
+                            <Box
+                              onClick={() =>
+                                setSelectedCell({
+                                  from: bucket.from,
+                                  to: bucket.to,
+                                  group: row.group,
+                                  title: row.group === null ? formatRange(bucket) : `${row.label} · ${formatRange(bucket)}`,
+                                })
+                              }
+                              sx={{
+                                borderRadius: 1,
+                                bgcolor: waitBackground(medianWait),
+                                minHeight: 40,
+                                px: 0.75,
+                                py: 0.5,
+                                cursor: 'pointer',
+                                display: 'flex',
+                                flexDirection: 'column',
+                                justifyContent: 'space-between',
+                                border: `1px solid ${alpha(theme.palette.common.white, 0.06)}`,
+                              }}
+                            >
+                              <Typography variant="caption" sx={{ color: 'text.secondary' }} noWrap>
+                                {medianWait !== null ? formatWait(medianWait) : ''}
+                              </Typography>
+                              {pending > 0 && (
+                                <Typography variant="body2" sx={{ fontWeight: 700, textAlign: 'right' }}>
+                                  {pending}
+                                </Typography>
+                              )}
+                            </Box>
+                          </Tooltip>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                </Box>
+              </Box>
+            )}
+
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1.5 }}>
+              {t('approvalHeatmap.drillDown.hint')}
+            </Typography>
+
+            <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" sx={{ mt: 2 }}>
+              <Typography variant="caption" color="text.secondary">
+                {t('approvalHeatmap.legend.title')}
+              </Typography>
+              {(['ok', 'warning', 'overdue'] as const).map((state) => (
+                <Stack key={state} direction="row" spacing={0.5} alignItems="center">
+                  <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: alpha(theme.palette[WAIT_STATE_PALETTE[state]].main, 0.35) }} />
+                  <Typography variant="caption" color="text.secondary">
+                    {t(`approvalHeatmap.legend.${state}`, {
+                      warning: approvalSla.warning_hours,
+                      overdue: approvalSla.overdue_hours,
+                    })}
+                  </Typography>
+                </Stack>
+              ))}
+            </Stack>
 
-            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
               {t('approvalHeatmap.rangeLabel', {
                 from: formatTenantDate(String(data.meta.from ?? ''), tenantContext),
                 to: formatTenantDate(String(data.meta.to ?? ''), tenantContext),
@@ -702,6 +986,8 @@ const ApprovalHeatmapReport: React.FC = () => {
         )}
       </Stack>
 
+      <ApprovalHeatmapDrawer selection={selectedCell} include={payload.include} onClose={() => setSelectedCell(null)} />
+
       <ReportAISideTab
         aiState={aiState}
         title={t('rightPanel.tabs.ai')}
@@ -38,15 +38,19 @@ import {
   ExpandMore,
   ExpandLess,
   AccessTime,
-  Warning as WarningIcon
+  Warning as WarningIcon,
+  ForumOutlined as CommentsIcon,
+  Draw as SignoffIcon,
+  SupervisorAccount as DelegationIcon,
+  PlaylistPlay as ReviewModeIcon
 } from '@mui/icons-material';
 import { DataGrid } from '@mui/x-data-grid';
 import type { GridColDef, GridRowSelectionModel } from '@mui/x-data-grid';
 import dayjs, { Dayjs } from 'dayjs';
-import type { TimesheetManagerRow, TimesheetManagerSummary, Technician, Expense, Project, Task, Location, Timesheet, TravelSegment } from '../../types';
+import type { TimesheetManagerRow, TimesheetManagerSummary, Technician, Expense, Project, Task, Location, Timesheet, TravelSegment, PendingTimesheetWeek, Absence } from '../../types';
 import { useAuth } from '../Auth/AuthContext';
 import { useNotification } from '../../contexts/NotificationContext';
-import api, { timesheetsApi, projectsApi, tasksApi, locationsApi, fetchWithAuth, API_URL } from '../../services/api';
+import api, { absencesApi, timesheetsApi, timesheetWeeksApi, projectsApi, tasksApi, locationsApi, fetchWithAuth, API_URL } from '../../services/api';
 import { useTenantGuard } from '../../hooks/useTenantGuard';
 import { formatTenantDate, formatTenantDateTime, formatTenantTime, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
 import TimesheetEditDialog from '../Timesheets/TimesheetEditDialog';
@@ -55,11 +59,20 @@ import { useApprovalCounts } from '../../hooks/useApprovalCounts';
 import ConfirmationDialog from '../Common/ConfirmationDialog';
 import InputDialog from '../Common/InputDialog';
 import ExpenseApprovalPanel from './ExpenseApprovalPanel';
+import WeekApprovalPanel from './WeekApprovalPanel';
+import AbsenceApprovalPanel from './AbsenceApprovalPanel';
+import SignoffDetailsDialog from './SignoffDetailsDialog';
+import ApprovalDelegationsDialog from './ApprovalDelegationsDialog';
+import ApprovalStepTracker from './ApprovalStepTracker';
+import ApprovalReviewMode from './ApprovalReviewMode';
+import ApprovalSlaChip from './ApprovalSlaChip';
+import { parseApprovalsLink } from './approvalHeatmap';
 import { useReadOnlyGuard } from '../../hooks/useReadOnlyGuard';
 import { useTranslation } from 'react-i18next';
+import { useLocation } from 'react-router-dom';
 import useDataGridLocaleText from '../../hooks/useDataGridLocaleText';
 
-type TabKey = 'timesheets' | 'expenses';
+type TabKey = 'timesheets' | 'weeks' | 'absences' | 'expenses';
 
 const formatDate = (value: Dayjs) => value.format('YYYY-MM-DD');
 
@@ -67,7 +80,7 @@ const ApprovalManager: React.FC = () => {
   const { t } = useTranslation();
   const dataGridLocaleText = useDataGridLocaleText();
   const { isManager, isAdmin, user, tenantContext } = useAuth();
-  const { counts } = useApprovalCounts(); // Hook para counts
+  const { counts, refresh: refreshCounts } = useApprovalCounts(); // Hook para counts
   useTenantGuard(); // Ensure tenant_slug exists
 
   const datePickerFormat = useMemo(() => getTenantDatePickerFormat(tenantContext), [tenantContext]);
@@ -78,14 +91,18 @@ const ApprovalManager: React.FC = () => {
     (Array.isArray((user as any)?.permissions) && (user as any).permissions.includes('approve-timesheets'));
   const { showSuccess, showError } = useNotification();
   const { isReadOnly, ensureWritable } = useReadOnlyGuard('approvals');
+  const location = useLocation();
+  // Drill-down links (e.g. from the approvals heatmap) open the page pre-filtered.
+  const [linkFilters] = useState(() => parseApprovalsLink(location.search));
 
-  const [tabValue, setTabValue] = useState<TabKey>('timesheets');
+  const [tabValue, setTabValue] = useState<TabKey>(linkFilters.tab ?? 'timesheets');
   const [managerRows, setManagerRows] = useState<TimesheetManagerRow[]>([]);
   const [managerSummary, setManagerSummary] = useState<TimesheetManagerSummary | null>(null);
   const [managerLoading, setManagerLoading] = useState(false);
-  const [dateFrom, setDateFrom] = useState<Dayjs>(dayjs().subtract(1, 'month')); // Last month
-  const [dateTo, setDateTo] = useState<Dayjs>(dayjs().add(1, 'month')); // Next month
-  const [technicianFilter, setTechnicianFilter] = useState<number[]>([]);
+  const [dateFrom, setDateFrom] = useState<Dayjs>(() => (linkFilters.from ? dayjs(linkFilters.from) : dayjs().subtract(1, 'month'))); // Last month
+  const [dateTo, setDateTo] = useState<Dayjs>(() => (linkFilters.to ? dayjs(linkFilters.to) : dayjs().add(1, 'month'))); // Next month
+  const [technicianFilter, setTechnicianFilter] = useState<number[]>(linkFilters.technicianId ? [linkFilters.technicianId] : []);
+  const [projectFilter, setProjectFilter] = useState<number | null>(linkFilters.projectId ?? null);
   const [searchTerm, setSearchTerm] = useState('');
   const [minHours, setMinHours] = useState<number | ''>('');
   const [maxHours, setMaxHours] = useState<number | ''>('');
@@ -123,20 +140,31 @@ const ApprovalManager: React.FC = () => {
 
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [expenseLoading, setExpenseLoading] = useState(false);
+  const [pendingWeeks, setPendingWeeks] = useState<PendingTimesheetWeek[]>([]);
+  const [weeksLoading, setWeeksLoading] = useState(false);
+  const [busyWeekId, setBusyWeekId] = useState<number | null>(null);
+  const [pendingAbsences, setPendingAbsences] = useState<Absence[]>([]);
+  const [absencesLoading, setAbsencesLoading] = useState(false);
+  const [busyAbsenceId, setBusyAbsenceId] = useState<number | null>(null);
+  const [signoffDetailsId, setSignoffDetailsId] = useState<number | null>(null);
+  const [delegationsOpen, setDelegationsOpen] = useState(false);
+  const [reviewModeOpen, setReviewModeOpen] = useState(false);
 
   // Contar filtros ativos
   const activeFiltersCount = useMemo(() => {
     let count = 0;
     if (technicianFilter.length > 0) count++;
+    if (projectFilter !== null) count++;
     if (searchTerm) count++;
     if (minHours !== '') count++;
     if (maxHours !== '') count++;
     return count;
-  }, [technicianFilter, searchTerm, minHours, maxHours]);
+  }, [technicianFilter, projectFilter, searchTerm, minHours, maxHours]);
 
   // Limpar todos os filtros
   const clearAllFilters = () => {
     setTechnicianFilter([]);
+    setProjectFilter(null);
     setSearchTerm('');
     setMinHours('');
     setMaxHours('');
@@ -249,10 +277,163 @@ const ApprovalManager: React.FC = () => {
     }
   }, [tabValue, loadExpensePending]);
 
+  const loadPendingWeeks = useCallback(async () => {
+    setWeeksLoading(true);
+    try {
+      const response = await timesheetWeeksApi.getPending();
+      setPendingWeeks(Array.isArray(response?.data) ? response.data : []);
+    } catch (error) {
+      console.error('Failed to load pending weeks:', error);
+      setPendingWeeks([]);
+      showError(t('approvals.weeks.loadFailed'));
+    } finally {
+      setWeeksLoading(false);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    if (tabValue === 'weeks') {
+      loadPendingWeeks();
+    }
+  }, [tabValue, loadPendingWeeks]);
+
+  const describeWeek = (week: PendingTimesheetWeek) => ({
+    technician: week.technician?.name ?? t('common.notAvailable'),
+    range: `${formatTenantDate(week.week_start, tenantContext)} – ${formatTenantDate(week.week_end, tenantContext)}`,
+  });
+
+  const handleApproveWeek = (week: PendingTimesheetWeek) => {
+    if (!ensureWritable()) return;
+    setConfirmDialog({
+      open: true,
+      title: t('approvals.weeks.approveTitle'),
+      message: t('approvals.weeks.approveMessage', { ...describeWeek(week), count: week.entry_count }),
+      action: async () => {
+        setConfirmDialog((prev) => ({ ...prev, open: false }));
+        setBusyWeekId(week.id);
+        try {
+          const result = await timesheetWeeksApi.approve(week.id);
+          showSuccess(
+            result.advanced_count
+              ? t('approvals.workflow.weekAdvanced', { ...describeWeek(week), count: result.advanced_count })
+              : t('approvals.weeks.approveSuccess', describeWeek(week))
+          );
+          await loadPendingWeeks();
+        } catch (error) {
+          console.error('Failed to approve week:', error);
+          showError(t('approvals.weeks.approveFailed'));
+        } finally {
+          setBusyWeekId(null);
+        }
+      }
+    });
+  };
+
+  const handleRejectWeek = (week: PendingTimesheetWeek) => {
+    if (!ensureWritable()) return;
+    setInputDialog({
+      open: true,
+      title: t('approvals.weeks.rejectTitle'),
+      message: t('approvals.weeks.rejectMessage', describeWeek(week)),
+      action: async (reason: string) => {
+        setInputDialog((prev) => ({ ...prev, open: false }));
+        setBusyWeekId(week.id);
+        try {
+          await timesheetWeeksApi.reject(week.id, reason);
+          showSuccess(t('approvals.weeks.rejectSuccess', describeWeek(week)));
+          await loadPendingWeeks();
+        } catch (error) {
+          console.error('Failed to reject week:', error);
+          showError(t('approvals.weeks.rejectFailed'));
+        } finally {
+          setBusyWeekId(null);
+        }
+      }
+    });
+  };
+
+  const loadPendingAbsences = useCallback(async () => {
+    setAbsencesLoading(true);
+    try {
+      const response = await absencesApi.getPending();
+      setPendingAbsences(Array.isArray(response?.data) ? response.data : []);
+    } catch (error) {
+      console.error('Failed to load pending absences:', error);
+      setPendingAbsences([]);
+      showError(t('approvals.absences.loadFailed'));
+    } finally {
+      setAbsencesLoading(false);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    if (tabValue === 'absences') {
+      loadPendingAbsences();
+    }
+  }, [tabValue, loadPendingAbsences]);
+
+  const describeAbsence = (absence: Absence) => ({
+    technician: absence.technician?.name ?? t('common.notAvailable'),
+    range:
+      absence.start_date === absence.end_date
+        ? formatTenantDate(absence.start_date, tenantContext)
+        : `${formatTenantDate(absence.start_date, tenantContext)} – ${formatTenantDate(absence.end_date, tenantContext)}`,
+  });
+
+  const handleApproveAbsence = (absence: Absence) => {
+    if (!ensureWritable()) return;
+    setConfirmDialog({
+      open: true,
+      title: t('approvals.absences.approveTitle'),
+      message: t('approvals.absences.approveMessage', { ...describeAbsence(absence), count: absence.days }),
+      action: async () => {
+        setConfirmDialog((prev) => ({ ...prev, open: false }));
+        setBusyAbsenceId(absence.id);
+        try {
+          await absencesApi.approve(absence.id);
+          showSuccess(t('approvals.absences.approveSuccess', describeAbsence(absence)));
+          await loadPendingAbsences();
+        } catch (error) {
+          console.error('Failed to approve absence:', error);
+          showError(t('approvals.absences.approveFailed'));
+        } finally {
+          setBusyAbsenceId(null);
+        }
+      }
+    });
+  };
+
+  const handleRejectAbsence = (absence: Absence) => {
+    if (!ensureWritable()) return;
+    setInputDialog({
+      open: true,
+      title: t('approvals.absences.rejectTitle'),
+      message: t('approvals.absences.rejectMessage', describeAbsence(absence)),
+      action: async (reason: string) => {
+        setInputDialog((prev) => ({ ...prev, open: false }));
+        setBusyAbsenceId(absence.id);
+        try {
+          await absencesApi.reject(absence.id, reason);
+          showSuccess(t('approvals.absences.rejectSuccess', describeAbsence(absence)));
+          await loadPendingAbsences();
+        } catch (error) {
+          console.error('Failed to reject absence:', error);
+          showError(t('approvals.absences.rejectFailed'));
+        } finally {
+          setBusyAbsenceId(null);
+        }
+      }
+    });
+  };
+
   const handleApproveSingle = async (id: number) => {
     if (!ensureWritable()) return;
     try {
-      await timesheetsApi.approve(id);
+      const result = await timesheetsApi.approve(id);
+      const nextStep = result.approval?.current_step != null ? result.approval.steps[result.approval.current_step] : null;
+      if (result.status === 'submitted' && nextStep) {
+        showSuccess(t('approvals.workflow.advanced', { step: nextStep.label }));
+      }
       fetchManagerData();
     } catch (error) {
       console.error('Failed to approve entry:', error);
@@ -364,11 +545,17 @@ const ApprovalManager: React.FC = () => {
 
     // For approve action
     try {
+      let advanced = 0;
       for (const id of ids) {
-        await timesheetsApi.approve(Number(id));
+        const result = await timesheetsApi.approve(Number(id));
+        if (result.status === 'submitted') advanced += 1;
       }
       setSelectionModel([]);
-      showSuccess(t('approvals.timesheets.approveSuccess', { count: ids.length }));
+      if (advanced > 0) {
+        showSuccess(t('approvals.workflow.advancedBulk', { count: ids.length, advanced }));
+      } else {
+        showSuccess(t('approvals.timesheets.approveSuccess', { count: ids.length }));
+      }
       fetchManagerData();
     } catch (error: any) {
       console.error(error);
@@ -499,7 +686,7 @@ const ApprovalManager: React.FC = () => {
   };
 
   // Section 14.2 - Travel cell click handler
-  const handleTravelCellClick = async (e: React.MouseEvent, row: TimesheetManagerRow) => {
+  const handleTravelCellClick = useCallback(async (e: React.MouseEvent, row: TimesheetManagerRow) => {
     e.stopPropagation(); // Prevent row click event from firing
     
     if (!row.travels || row.travels.count === 0) return;
@@ -547,19 +734,19 @@ const ApprovalManager: React.FC = () => {
     } finally {
       setLoadingTravels(false);
     }
-  };
+  }, [showError, t]);
 
   // Section 14.3 - Flag translation helper
-  const getFlagLabel = (flag: string): string => {
+  const getFlagLabel = useCallback((flag: string): string => {
     const labels: Record<string, string> = {
       'travels_without_work': t('approvals.flags.travelWithoutWork'),
       'excessive_travel_time': t('approvals.flags.excessiveTravelTime'),
       'expenses_without_work': t('approvals.flags.expensesWithoutWork'),
     };
     return labels[flag] || flag;
-  };
+  }, [t]);
 
-  const statusChip = (status: string) => {
+  const statusChip = useCallback((status: string) => {
     const statusLabel = (() => {
       switch (status) {
         case 'draft':
@@ -580,7 +767,13 @@ const ApprovalManager: React.FC = () => {
       closed: 'default'
     };
     return <Chip label={statusLabel} color={colors[status] ?? 'default'} size="small" />;
-  };
+  }, [t]);
+
+  // The step tracker only earns its column when the tenant chains more than one approval step
+  const approvalStepCount = useMemo(
+    () => managerRows.reduce((max, row) => Math.max(max, row.approval?.steps.length ?? 0), 0),
+    [managerRows]
+  );
 
   const columns = useMemo<GridColDef<TimesheetManagerRow>[]>(() => [
     {
@@ -590,6 +783,22 @@ const ApprovalManager: React.FC = () => {
       renderCell: ({ value }) => statusChip(value as string),
       filterable: true,
     },
+    ...(approvalStepCount > 1 ? [{
+      field: 'approval',
+      headerName: t('approvals.workflow.column'),
+      width: 30 + 28 * approvalStepCount,
+      sortable: false,
+      filterable: false,
+      renderCell: ({ row }) => row.approval ? <ApprovalStepTracker progress={row.approval} tenantContext={tenantContext} /> : null,
+    } satisfies GridColDef<TimesheetManagerRow>] : []),
+    {
+      field: 'sla',
+      headerName: t('approvals.sla.column'),
+      width: 100,
+      filterable: false,
+      valueGetter: (_value: unknown, row: TimesheetManagerRow) => row.sla?.age_hours ?? null,
+      renderCell: ({ row }) => row.sla ? <ApprovalSlaChip sla={row.sla} tenantContext={tenantContext} /> : null,
+    },
     {
       field: 'technician',
       headerName: t('approvals.table.technician'),
@@ -680,6 +889,22 @@ const ApprovalManager: React.FC = () => {
       flex: 1,
       minWidth: 130,
       valueGetter: (_value: any, row: any) => row?.project?.name ?? '—',
+      renderCell: ({ row, value }) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0, height: '100%' }}>
+          <Typography variant="body2" noWrap>{value}</Typography>
+          {row.on_behalf_of && (
+            <Chip
+              icon={<DelegationIcon sx={{ fontSize: 14 }} />}
+              label={row.on_behalf_of.name}
+              size="small"
+              color="secondary"
+              variant="outlined"
+              title={t('approvals.delegations.onBehalfOf', { name: row.on_behalf_of.name })}
+              sx={{ fontSize: '0.7rem', height: 20, maxWidth: 120 }}
+            />
+          )}
+        </Box>
+      ),
       filterable: true,
     },
     {
@@ -822,6 +1047,53 @@ const ApprovalManager: React.FC = () => {
       ),
       filterable: true,
     },
+    {
+      field: 'comments_count',
+      headerName: t('approvals.table.comments'),
+      width: 90,
+      renderCell: ({ value }) => {
+        if (!value) {
+          return <Typography variant="body2" color="text.secondary">—</Typography>;
+        }
+        return (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }} title={t('approvals.table.commentsHint')}>
+            <CommentsIcon sx={{ fontSize: 16 }} color="primary" />
+            <Typography variant="body2" fontWeight={600}>
+              {value}
+            </Typography>
+          </Box>
+        );
+      },
+      filterable: false,
+    },
+    {
+      field: 'signoff',
+      headerName: t('approvals.table.signoff'),
+      width: 140,
+      valueGetter: (_value: unknown, row: TimesheetManagerRow) => row.signoff?.signer_name ?? '',
+      renderCell: ({ row }) => {
+        if (!row.signoff) {
+          return <Typography variant="body2" color="text.secondary">—</Typography>;
+        }
+        const signoffId = row.signoff.id;
+        return (
+          <Chip
+            icon={<SignoffIcon sx={{ fontSize: 14 }} />}
+            label={row.signoff.signer_name}
+            size="small"
+            color="success"
+            variant="outlined"
+            title={t('approvals.table.signoffHint', { date: formatTenantDateTime(row.signoff.signed_at, tenantContext) })}
+            onClick={(e) => {
+              e.stopPropagation();
+              setSignoffDetailsId(signoffId);
+            }}
+            sx={{ fontSize: '0.7rem', height: 22, maxWidth: '100%' }}
+          />
+        );
+      },
+      filterable: true,
+    },
     {
       field: 'description',
       headerName: t('approvals.table.description'),
@@ -830,7 +1102,7 @@ const ApprovalManager: React.FC = () => {
       valueGetter: (value: any) => value ?? '—',
       filterable: true,
     },
-  ], [t, user, tenantContext, handleTravelCellClick]);
+  ], [t, user, tenantContext, handleTravelCellClick, approvalStepCount, getFlagLabel, statusChip]);
 
   if (!canManageTimesheets) {
     return (
@@ -870,6 +1142,15 @@ const ApprovalManager: React.FC = () => {
                 variant="outlined"
               />
             )}
+            {projectFilter !== null && (
+              <Chip
+                label={t('approvals.filters.projectChip', {
+                  name: managerRows.find((row) => row.project?.id === projectFilter)?.project?.name ?? `#${projectFilter}`,
+                })}
+                size="small"
+                onDelete={() => setProjectFilter(null)}
+              />
+            )}
           </Box>
           <Box sx={{ display: 'flex', gap: 1 }}>
             <Button 
@@ -1028,12 +1309,14 @@ const ApprovalManager: React.FC = () => {
         row.task_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         row.description?.toLowerCase().includes(searchTerm.toLowerCase());
       
+      const projectMatch = projectFilter === null || row.project?.id === projectFilter;
+
       // Hours range
       const hours = parseFloat(String(row.total_hours)) || 0;
       const minMatch = minHours === '' || hours >= minHours;
       const maxMatch = maxHours === '' || hours <= maxHours;
       
-      return searchMatch && minMatch && maxMatch;
+      return searchMatch && projectMatch && minMatch && maxMatch;
     });
 
     // Sorting
@@ -1059,7 +1342,7 @@ const ApprovalManager: React.FC = () => {
     });
 
     return result;
-  }, [managerRows, searchTerm, minHours, maxHours, sortBy, sortOrder]);
+  }, [managerRows, projectFilter, searchTerm, minHours, maxHours, sortBy, sortOrder]);
 
   const renderTimesheetTable = () => {
     if (managerLoading) {
@@ -1121,6 +1404,18 @@ const ApprovalManager: React.FC = () => {
               })}
             </Typography>
           )}
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<ReviewModeIcon />}
+            disabled={isReadOnly || !filteredRows.some((row) => row.status === 'submitted')}
+            onClick={() => {
+              if (ensureWritable()) setReviewModeOpen(true);
+            }}
+            sx={{ ml: 'auto', fontSize: '0.875rem' }}
+          >
+            {t('approvals.review.open', { count: filteredRows.filter((row) => row.ai_flagged).length })}
+          </Button>
         </Box>
         <DataGrid
           autoHeight
@@ -1178,8 +1473,27 @@ const ApprovalManager: React.FC = () => {
                 sx={{ ml: 0.5, height: 20, fontWeight: 600 }} 
               />
             )}
+            {counts.overdue.total > 0 && (
+              <Chip
+                size="small"
+                label={t('approvals.sla.overdueCount', { count: counts.overdue.total })}
+                color="error"
+                sx={{ ml: 0.5, height: 20, fontWeight: 600 }}
+              />
+            )}
           </>
         }
+        actions={
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<DelegationIcon />}
+            onClick={() => setDelegationsOpen(true)}
+            sx={{ color: 'white', borderColor: 'rgba(255,255,255,0.6)', textTransform: 'none' }}
+          >
+            {t('approvals.delegations.button')}
+          </Button>
+        }
       />
       
       <Box sx={{ flex: 1, overflow: 'auto', px: 2, py: 1 }}>
@@ -1199,6 +1513,32 @@ const ApprovalManager: React.FC = () => {
             } 
             value="timesheets" 
           />
+          {canManageTimesheets && (
+            <Tab
+              label={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  {t('approvals.tabs.weeks')}
+                  {pendingWeeks.length > 0 && (
+                    <Chip size="small" label={pendingWeeks.length} color="error" sx={{ height: 18, fontSize: '0.7rem', minWidth: 18 }} />
+                  )}
+                </Box>
+              }
+              value="weeks"
+            />
+          )}
+          {canManageTimesheets && (
+            <Tab
+              label={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  {t('approvals.tabs.absences')}
+                  {pendingAbsences.length > 0 && (
+                    <Chip size="small" label={pendingAbsences.length} color="error" sx={{ height: 18, fontSize: '0.7rem', minWidth: 18 }} />
+                  )}
+                </Box>
+              }
+              value="absences"
+            />
+          )}
           <Tab 
             label={
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
@@ -1219,6 +1559,30 @@ const ApprovalManager: React.FC = () => {
           </>
         )}
 
+        {tabValue === 'weeks' && (
+          <WeekApprovalPanel
+            weeks={pendingWeeks}
+            loading={weeksLoading}
+            busyWeekId={busyWeekId}
+            disabled={isReadOnly}
+            tenantContext={tenantContext}
+            onApprove={handleApproveWeek}
+            onReject={handleRejectWeek}
+          />
+        )}
+
+        {tabValue === 'absences' && (
+          <AbsenceApprovalPanel
+            absences={pendingAbsences}
+            loading={absencesLoading}
+            busyAbsenceId={busyAbsenceId}
+            disabled={isReadOnly}
+            tenantContext={tenantContext}
+            onApprove={handleApproveAbsence}
+            onReject={handleRejectAbsence}
+          />
+        )}
+
         {tabValue === 'expenses' && (
           <ExpenseApprovalPanel
             expenses={expenses}
@@ -1227,11 +1591,38 @@ const ApprovalManager: React.FC = () => {
             onReject={handleExpenseReject}
             onMarkPaid={handleExpenseMarkPaid}
             userRole={expenseUserRole}
+            initialFilters={linkFilters.tab === 'expenses' ? linkFilters : undefined}
           />
         )}
       </Box>
 
       {/* Reusable Timesheet Edit Dialog */}
+      <SignoffDetailsDialog
+        signoffId={signoffDetailsId}
+        tenantContext={tenantContext}
+        onClose={() => setSignoffDetailsId(null)}
+      />
+
+      <ApprovalDelegationsDialog
+        open={delegationsOpen}
+        tenantContext={tenantContext}
+        onClose={() => setDelegationsOpen(false)}
+        onChanged={() => void refreshCounts()}
+      />
+
+      <ApprovalReviewMode
+        open={reviewModeOpen}
+        rows={filteredRows}
+        tenantContext={tenantContext}
+        onClose={(changed) => {
+          setReviewModeOpen(false);
+          if (changed) {
+            fetchManagerData();
+            void refreshCounts();
+          }
+        }}
+      />
+
       <TimesheetEditDialog
         open={detailsOpen}
         onClose={() => setDetailsOpen(false)}
@@ -0,0 +1,418 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  LinearProgress,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Check,
+  Close,
+  SkipNext as SkipIcon,
+  NavigateBefore as PreviousIcon,
+  Warning as WarningIcon,
+} from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useNotification } from '../../contexts/NotificationContext';
+import { timesheetsApi } from '../../services/api';
+import { travelsApi } from '../../services/travels';
+import type { Timesheet, TimesheetManagerRow, TravelSegment } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantTime } from '../../utils/tenantFormatting';
+import {
+  REJECT_REASON_TEMPLATES,
+  buildRejectReason,
+  explainTriageFlags,
+  getReviewShortcut,
+  sortForTriage,
+  type RejectReasonTemplate,
+} from './approvalTriage';
+
+interface ApprovalReviewModeProps {
+  open: boolean;
+  /** Rows of the approvals grid; review mode walks the submitted ones, riskiest first. */
+  rows: TimesheetManagerRow[];
+  tenantContext: TenantContext | null;
+  /** Called on close when at least one entry was approved or rejected. */
+  onClose: (changed: boolean) => void;
+}
+
+type Outcome = 'approved' | 'advanced' | 'rejected' | 'skipped';
+
+const SEVERITY_COLORS = { error: 'error', warning: 'warning', info: 'info' } as const;
+
+const toRows = (payload: unknown): TravelSegment[] => {
+  if (Array.isArray(payload)) return payload;
+  const data = (payload as { data?: unknown } | null)?.data;
+  return Array.isArray(data) ? data : [];
+};
+
+/**
+ * Focused, keyboard-driven review of pending timesheets: one entry at a time, riskiest first,
+ * next to the technician's other entries and travels of that day, with every flag explained.
+ * A approves, R rejects with a reason template, S skips and ← goes back.
+ */
+const ApprovalReviewMode: React.FC<ApprovalReviewModeProps> = ({ open, rows, tenantContext, onClose }) => {
+  const { t } = useTranslation();
+  const { showError } = useNotification();
+
+  const [queue, setQueue] = useState<TimesheetManagerRow[]>([]);
+  const [index, setIndex] = useState(0);
+  const [outcomes, setOutcomes] = useState<Record<number, Outcome>>({});
+  const [busy, setBusy] = useState(false);
+  const [rejecting, setRejecting] = useState(false);
+  const [template, setTemplate] = useState<RejectReasonTemplate | null>(null);
+  const [details, setDetails] = useState('');
+  const [dayEntries, setDayEntries] = useState<Timesheet[]>([]);
+  const [dayTravels, setDayTravels] = useState<TravelSegment[]>([]);
+  const [contextLoading, setContextLoading] = useState(false);
+
+  // The queue is fixed when review mode opens so reviewed rows keep their place
+  useEffect(() => {
+    if (!open) return;
+    setQueue(sortForTriage(rows));
+    setIndex(0);
+    setOutcomes({});
+    setRejecting(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const current = index < queue.length ? queue[index] : null;
+  const flags = useMemo(() => (current ? explainTriageFlags(current) : []), [current]);
+
+  useEffect(() => {
+    const technicianId = current?.technician?.id;
+    if (!open || !current || !technicianId) {
+      setDayEntries([]);
+      setDayTravels([]);
+      return;
+    }
+
+    let cancelled = false;
+    setContextLoading(true);
+    Promise.all([
+      timesheetsApi.getAll({ technician_id: technicianId, date_from: current.date, date_to: current.date }).catch(() => []),
+      // Tenants without the travels module answer 403; the day context then has no travels
+      travelsApi.getAll({ technician_id: technicianId, start_date: current.date, end_date: current.date }).catch(() => []),
+    ]).then(([entries, travels]) => {
+      if (cancelled) return;
+      setDayEntries((Array.isArray(entries) ? entries : []).filter((entry) => entry.id !== current.id));
+      setDayTravels(toRows(travels));
+      setContextLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, current]);
+
+  const counts = useMemo(() => {
+    const values = Object.values(outcomes);
+    return {
+      approved: values.filter((value) => value === 'approved' || value === 'advanced').length,
+      rejected: values.filter((value) => value === 'rejected').length,
+      skipped: values.filter((value) => value === 'skipped').length,
+    };
+  }, [outcomes]);
+
+  const templateText = template && template !== 'other' ? t(`approvals.review.templates.${template}`) : '';
+  const rejectReason = buildRejectReason(templateText, details);
+  const canConfirmReject = template !== null && rejectReason.trim() !== '' && (template !== 'other' || details.trim() !== '');
+
+  const settle = (outcome: Outcome) => {
+    if (!current) return;
+    setOutcomes((prev) => ({ ...prev, [current.id]: outcome }));
+    setRejecting(false);
+    setTemplate(null);
+    setDetails('');
+    setIndex((prev) => prev + 1);
+  };
+
+  const handleApprove = async () => {
+    if (!current || busy || outcomes[current.id]) return;
+    setBusy(true);
+    try {
+      const result = await timesheetsApi.approve(current.id);
+      settle(result.status === 'submitted' ? 'advanced' : 'approved');
+    } catch {
+      showError(t('approvals.timesheets.approveFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!current || busy || !canConfirmReject) return;
+    setBusy(true);
+    try {
+      await timesheetsApi.reject(current.id, rejectReason);
+      settle('rejected');
+    } catch {
+      showError(t('approvals.timesheets.rejectFailedSingle'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShortcut = (shortcut: ReturnType<typeof getReviewShortcut>) => {
+    if (!current && shortcut !== 'previous') return;
+    switch (shortcut) {
+      case 'approve':
+        if (!rejecting) void handleApprove();
+        break;
+      case 'reject':
+        if (current && !outcomes[current.id]) setRejecting(true);
+        break;
+      case 'skip':
+        if (!rejecting) {
+          if (current && !outcomes[current.id]) settle('skipped');
+          else setIndex((prev) => Math.min(prev + 1, queue.length));
+        }
+        break;
+      case 'previous':
+        if (!rejecting) setIndex((prev) => Math.max(prev - 1, 0));
+        break;
+      default:
+        break;
+    }
+  };
+
+  const shortcutRef = useRef(handleShortcut);
+  useEffect(() => {
+    shortcutRef.current = handleShortcut;
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getReviewShortcut(event);
+      if (!shortcut) return;
+      event.preventDefault();
+      shortcutRef.current(shortcut);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  const handleClose = () => onClose(counts.approved + counts.rejected > 0);
+
+  const renderTime = (value?: string | null) => (value ? formatTenantTime(`2000-01-01T${value.slice(0, 5)}`, tenantContext) : '—');
+
+  const renderEntry = (entry: TimesheetManagerRow) => (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        <Typography variant="h6">{entry.technician?.name ?? '—'}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {formatTenantDate(entry.date, tenantContext)} · {renderTime(entry.start_time)}–{renderTime(entry.end_time)} ·{' '}
+          {t('approvals.review.hours', { hours: Number(entry.hours_worked).toFixed(2) })}
+        </Typography>
+        {outcomes[entry.id] && (
+          <Chip
+            size="small"
+            color={outcomes[entry.id] === 'rejected' ? 'error' : outcomes[entry.id] === 'skipped' ? 'default' : 'success'}
+            label={t(`approvals.review.outcomes.${outcomes[entry.id]}`)}
+            sx={{ ml: 'auto' }}
+          />
+        )}
+      </Box>
+      <Typography variant="body2">
+        <strong>{entry.project?.name ?? '—'}</strong> · {entry.task?.name ?? '—'}
+        {entry.location ? ` · ${entry.location.name}` : ''}
+      </Typography>
+      {entry.description && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1, whiteSpace: 'pre-wrap' }}>
+          {entry.description}
+        </Typography>
+      )}
+
+      <Divider sx={{ my: 1.5 }} />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle2">{t('approvals.review.flagsTitle')}</Typography>
+        <Chip
+          size="small"
+          color={entry.ai_flagged ? 'error' : 'default'}
+          label={t('approvals.review.aiScore', { score: entry.ai_score != null ? Number(entry.ai_score).toFixed(2) : '—' })}
+          sx={{ height: 20, fontSize: '0.7rem' }}
+        />
+      </Box>
+      {flags.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('approvals.review.noFlags')}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+          {flags.map((flag) => (
+            <Alert key={flag.key} severity={SEVERITY_COLORS[flag.severity]} icon={<WarningIcon fontSize="small" />} sx={{ py: 0 }}>
+              {t(`approvals.review.flags.${flag.key}`, flag.params)}
+            </Alert>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+
+  const renderDayContext = (entry: TimesheetManagerRow) => (
+    <Paper variant="outlined" sx={{ p: 2, height: '100%' }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        {t('approvals.review.sameDay', { date: formatTenantDate(entry.date, tenantContext) })}
+      </Typography>
+      {contextLoading ? (
+        <CircularProgress size={20} />
+      ) : (
+        <>
+          {dayEntries.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t('approvals.review.noOtherEntries')}
+            </Typography>
+          ) : (
+            dayEntries.map((other) => (
+              <Box key={other.id} sx={{ display: 'flex', gap: 1, py: 0.5, alignItems: 'center' }}>
+                <Typography variant="body2" sx={{ minWidth: 110 }}>
+                  {renderTime(other.start_time)}–{renderTime(other.end_time)}
+                </Typography>
+                <Typography variant="body2" noWrap sx={{ flex: 1 }}>
+                  {other.project?.name ?? '—'}
+                </Typography>
+                <Chip size="small" label={t(`timesheets.status.${other.status}`)} sx={{ height: 20, fontSize: '0.7rem' }} />
+              </Box>
+            ))
+          )}
+
+          <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+            {t('approvals.review.travels')}
+          </Typography>
+          {dayTravels.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t('approvals.review.noTravels')}
+            </Typography>
+          ) : (
+            dayTravels.map((travel) => (
+              <Typography key={travel.id} variant="body2" sx={{ py: 0.25 }}>
+                {travel.origin_city || travel.origin_country} → {travel.destination_city || travel.destination_country}
+                {travel.duration_minutes ? ` · ${t('approvals.review.minutes', { minutes: travel.duration_minutes })}` : ''}
+              </Typography>
+            ))
+          )}
+        </>
+      )}
+    </Paper>
+  );
+
+  const renderRejectPanel = () => (
+    <Paper variant="outlined" sx={{ p: 2, mt: 2, borderColor: 'error.main' }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        {t('approvals.review.rejectTitle')}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1.5 }}>
+        {REJECT_REASON_TEMPLATES.map((key) => (
+          <Chip
+            key={key}
+            label={t(`approvals.review.templateLabels.${key}`)}
+            color={template === key ? 'error' : 'default'}
+            variant={template === key ? 'filled' : 'outlined'}
+            onClick={() => setTemplate(key)}
+          />
+        ))}
+      </Box>
+      <TextField
+        fullWidth
+        size="small"
+        multiline
+        minRows={2}
+        label={t(template === 'other' ? 'approvals.review.detailsRequired' : 'approvals.review.detailsOptional')}
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        helperText={templateText || t('approvals.review.pickTemplate')}
+      />
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1.5 }}>
+        <Button onClick={() => setRejecting(false)}>{t('common.cancel')}</Button>
+        <Button variant="contained" color="error" disabled={busy || !canConfirmReject} onClick={() => void handleReject()}>
+          {t('common.reject')}
+        </Button>
+      </Box>
+    </Paper>
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        {t('approvals.review.title')}
+        <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto' }}>
+          {t('approvals.review.position', { current: Math.min(index + 1, queue.length), total: queue.length })}
+        </Typography>
+      </DialogTitle>
+      <LinearProgress variant="determinate" value={queue.length ? (Math.min(index, queue.length) / queue.length) * 100 : 100} />
+      <DialogContent dividers>
+        {current ? (
+          <>
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '3fr 2fr' }, gap: 2 }}>
+              {renderEntry(current)}
+              {renderDayContext(current)}
+            </Box>
+            {rejecting && renderRejectPanel()}
+          </>
+        ) : (
+          <Box sx={{ textAlign: 'center', py: 4 }}>
+            <Check sx={{ fontSize: 48, color: 'success.light', mb: 1 }} />
+            <Typography variant="h6" gutterBottom>
+              {t(queue.length ? 'approvals.review.doneTitle' : 'approvals.review.emptyTitle')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {t('approvals.review.summary', counts)}
+            </Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between' }}>
+        <Typography variant="caption" color="text.secondary">
+          {t('approvals.review.shortcuts')}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button startIcon={<PreviousIcon />} disabled={index === 0 || rejecting} onClick={() => handleShortcut('previous')}>
+            {t('approvals.review.previous')}
+          </Button>
+          {current && (
+            <>
+              <Button startIcon={<SkipIcon />} disabled={rejecting} onClick={() => handleShortcut('skip')}>
+                {t('approvals.review.skip')}
+              </Button>
+              <Button
+                color="error"
+                variant="outlined"
+                startIcon={<Close />}
+                disabled={busy || rejecting || Boolean(outcomes[current.id])}
+                onClick={() => handleShortcut('reject')}
+              >
+                {t('common.reject')}
+              </Button>
+              <Button
+                color="success"
+                variant="contained"
+                startIcon={<Check />}
+                disabled={busy || rejecting || Boolean(outcomes[current.id])}
+                onClick={() => void handleApprove()}
+              >
+                {t('common.approve')}
+              </Button>
+            </>
+          )}
+          <Button onClick={handleClose}>{t('common.close')}</Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ApprovalReviewMode;
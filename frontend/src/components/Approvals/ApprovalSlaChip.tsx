@@ -0,0 +1,47 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { AlarmOutlined as OverdueIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { ApprovalSlaStatus } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDateTime } from '../../utils/tenantFormatting';
+import { splitWaitingTime } from './approvalSla';
+
+interface ApprovalSlaChipProps {
+  sla: ApprovalSlaStatus;
+  tenantContext: TenantContext | null;
+}
+
+const STATE_COLORS = {
+  ok: 'default',
+  warning: 'warning',
+  overdue: 'error',
+} as const;
+
+/**
+ * How long a pending item has waited for a decision, coloured by the tenant's approval SLA.
+ */
+const ApprovalSlaChip: React.FC<ApprovalSlaChipProps> = ({ sla, tenantContext }) => {
+  const { t } = useTranslation();
+  const age = splitWaitingTime(sla.age_hours);
+  const label = age.days > 0 ? t('approvals.sla.ageDays', age) : t('approvals.sla.ageHours', age);
+
+  return (
+    <Tooltip
+      title={t(`approvals.sla.states.${sla.state}`, {
+        date: sla.submitted_at ? formatTenantDateTime(sla.submitted_at, tenantContext) : '—',
+      })}
+    >
+      <Chip
+        size="small"
+        label={label}
+        color={STATE_COLORS[sla.state]}
+        variant={sla.state === 'ok' ? 'outlined' : 'filled'}
+        icon={sla.state === 'overdue' ? <OverdueIcon /> : undefined}
+        sx={{ height: 22, fontWeight: sla.state === 'ok' ? 400 : 600 }}
+      />
+    </Tooltip>
+  );
+};
+
+export default ApprovalSlaChip;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { Check as DoneIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { TimesheetApprovalProgress, TimesheetApprovalStep } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDateTime } from '../../utils/tenantFormatting';
+
+interface ApprovalStepTrackerProps {
+  progress: TimesheetApprovalProgress;
+  tenantContext: TenantContext | null;
+}
+
+const DOT_SIZE = 18;
+
+/**
+ * Compact tracker of a timesheet's approval chain: one numbered dot per step, filled once the
+ * step is signed off and outlined while the entry waits at it. The tooltip names the step and
+ * who signed it.
+ */
+const ApprovalStepTracker: React.FC<ApprovalStepTrackerProps> = ({ progress, tenantContext }) => {
+  const { t } = useTranslation();
+
+  const describeStep = (step: TimesheetApprovalStep): string => {
+    if (step.state === 'current') return t('approvals.workflow.waitingAt', { step: step.label });
+    if (step.state === 'pending') return t('approvals.workflow.pendingStep', { step: step.label });
+    if (step.automatic) return t('approvals.workflow.autoApproved', { step: step.label });
+    if (!step.approved_by) return t('approvals.workflow.doneStep', { step: step.label });
+
+    return t('approvals.workflow.signedBy', {
+      step: step.label,
+      name: step.on_behalf_of
+        ? t('timesheets.thread.onBehalfOf', { name: step.approved_by.name, manager: step.on_behalf_of.name })
+        : step.approved_by.name,
+      date: step.approved_at ? formatTenantDateTime(step.approved_at, tenantContext) : '—',
+    });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', height: '100%' }}>
+      {progress.steps.map((step, index) => (
+        <React.Fragment key={step.key}>
+          {index > 0 && (
+            <Box
+              sx={{
+                width: 10,
+                height: 2,
+                bgcolor: step.state === 'pending' ? 'divider' : 'success.main',
+              }}
+            />
+          )}
+          <Tooltip title={describeStep(step)}>
+            <Box
+              sx={{
+                width: DOT_SIZE,
+                height: DOT_SIZE,
+                borderRadius: '50%',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                flexShrink: 0,
+                border: 2,
+                borderColor: step.state === 'pending' ? 'divider' : step.state === 'current' ? 'warning.main' : 'success.main',
+                bgcolor: step.state === 'done' ? 'success.main' : 'transparent',
+                color: step.state === 'done' ? 'success.contrastText' : 'text.secondary',
+              }}
+            >
+              {step.state === 'done' ? (
+                <DoneIcon sx={{ fontSize: 12 }} />
+              ) : (
+                <Typography component="span" sx={{ fontSize: '0.65rem', fontWeight: 600, lineHeight: 1 }}>
+                  {index + 1}
+                </Typography>
+              )}
+            </Box>
+          </Tooltip>
+        </React.Fragment>
+      ))}
+    </Box>
+  );
+};
+
+export default ApprovalStepTracker;
@@ -65,6 +65,8 @@ import { useNotification } from '../../contexts/NotificationContext';
 import { useReadOnlyGuard } from '../../hooks/useReadOnlyGuard';
 import { useAuth } from '../Auth/AuthContext';
 import { useTranslation } from 'react-i18next';
+import ApprovalSlaChip from './ApprovalSlaChip';
+import type { ApprovalsLinkFilters } from './approvalHeatmap';
 import {
   formatTenantDate,
   formatTenantDistanceKm,
@@ -89,6 +91,8 @@ interface ExpenseApprovalPanelProps {
   onReject: (expenseIds: number[], reason: string) => Promise<void>;
   onMarkPaid: (expenseIds: number[], paymentRef: string) => Promise<void>;
   userRole: 'manager' | 'finance' | 'admin';
+  /** Filters of a drill-down link (e.g. from the approvals heatmap), applied on mount. */
+  initialFilters?: Partial<ApprovalsLinkFilters>;
 }
 
 const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
@@ -97,7 +101,8 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
   onApprove,
   onReject,
   onMarkPaid,
-  userRole
+  userRole,
+  initialFilters
 }) => {
   const { t } = useTranslation();
   const { showSuccess, showError } = useNotification();
@@ -106,8 +111,10 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
   const currencySymbol = tenantContext?.currency_symbol || '$';
   const { isReadOnly, ensureWritable } = useReadOnlyGuard('approvals-expenses');
   const [selectedExpenses, setSelectedExpenses] = useState<Set<number>>(new Set());
-  const [dateFrom, setDateFrom] = useState<Dayjs>(dayjs().subtract(1, 'month'));
-  const [dateTo, setDateTo] = useState<Dayjs>(dayjs().add(1, 'month'));
+  const [dateFrom, setDateFrom] = useState<Dayjs>(() => (initialFilters?.from ? dayjs(initialFilters.from) : dayjs().subtract(1, 'month')));
+  const [dateTo, setDateTo] = useState<Dayjs>(() => (initialFilters?.to ? dayjs(initialFilters.to) : dayjs().add(1, 'month')));
+  const [linkedProjectId, setLinkedProjectId] = useState<number | null>(initialFilters?.projectId ?? null);
+  const [linkedTechnicianId, setLinkedTechnicianId] = useState<number | null>(initialFilters?.technicianId ?? null);
   const [statusFilter, setStatusFilter] = useState<string[]>(['submitted', 'finance_review', 'finance_approved']);
   const [typeFilter, setTypeFilter] = useState<string[]>([]);
   const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
@@ -143,11 +150,13 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
     if (typeFilter.length > 0) count++;
     if (categoryFilter.length > 0) count++;
     if (projectFilter.length > 0) count++;
+    if (linkedProjectId !== null) count++;
+    if (linkedTechnicianId !== null) count++;
     if (searchTerm) count++;
     if (minAmount !== '') count++;
     if (maxAmount !== '') count++;
     return count;
-  }, [statusFilter, typeFilter, categoryFilter, projectFilter, searchTerm, minAmount, maxAmount]);
+  }, [statusFilter, typeFilter, categoryFilter, projectFilter, linkedProjectId, linkedTechnicianId, searchTerm, minAmount, maxAmount]);
 
   // Limpar todos os filtros
   const clearAllFilters = () => {
@@ -155,6 +164,8 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
     setTypeFilter([]);
     setCategoryFilter([]);
     setProjectFilter([]);
+    setLinkedProjectId(null);
+    setLinkedTechnicianId(null);
     setSearchTerm('');
     setMinAmount('');
     setMaxAmount('');
@@ -170,6 +181,9 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
       const typeMatch = typeFilter.length === 0 || typeFilter.includes(exp.expense_type);
       const categoryMatch = categoryFilter.length === 0 || categoryFilter.includes(exp.category ?? '');
       const projectMatch = projectFilter.length === 0 || projectFilter.includes(exp.project?.name ?? '');
+      const linkedMatch =
+        (linkedProjectId === null || exp.project_id === linkedProjectId) &&
+        (linkedTechnicianId === null || exp.technician_id === linkedTechnicianId);
       
       // Search term (description, category, project name)
       const searchMatch = !searchTerm || 
@@ -182,7 +196,7 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
       const minMatch = minAmount === '' || amount >= minAmount;
       const maxMatch = maxAmount === '' || amount <= maxAmount;
       
-      return dateMatch && statusMatch && typeMatch && categoryMatch && projectMatch && searchMatch && minMatch && maxMatch;
+      return dateMatch && statusMatch && typeMatch && categoryMatch && projectMatch && linkedMatch && searchMatch && minMatch && maxMatch;
     });
 
     // Sorting
@@ -205,7 +219,7 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
     });
 
     return result;
-  }, [expenses, dateFrom, dateTo, statusFilter, typeFilter, categoryFilter, projectFilter, searchTerm, minAmount, maxAmount, sortBy, sortOrder]);
+  }, [expenses, dateFrom, dateTo, statusFilter, typeFilter, categoryFilter, projectFilter, linkedProjectId, linkedTechnicianId, searchTerm, minAmount, maxAmount, sortBy, sortOrder]);
 
   // Agrupar por status
   const expensesByStatus = useMemo(() => {
@@ -505,6 +519,20 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
                 </Stack>
               </Grid>
 
+              {expense.sla && expense.sla.state !== 'ok' && (
+                <Grid item xs={12}>
+                  <ApprovalSlaChip sla={expense.sla} tenantContext={tenantContext} />
+                </Grid>
+              )}
+
+              {expense.on_behalf_of && (
+                <Grid item xs={12}>
+                  <Typography variant="caption" color="secondary.main" noWrap fontSize="0.7rem" fontWeight={600}>
+                    {t('approvals.delegations.onBehalfOf', { name: expense.on_behalf_of.name })}
+                  </Typography>
+                </Grid>
+              )}
+
               {expense.expense_type === 'mileage' && (
                 <Grid item xs={12}>
                   <Typography variant="caption" color="text.secondary" fontSize="0.7rem">
@@ -833,6 +861,24 @@ const ExpenseApprovalPanel: React.FC<ExpenseApprovalPanelProps> = ({
                   variant="outlined"
                 />
               )}
+              {linkedProjectId !== null && (
+                <Chip
+                  label={t('approvals.filters.projectChip', {
+                    name: expenses.find((exp) => exp.project_id === linkedProjectId)?.project?.name ?? `#${linkedProjectId}`,
+                  })}
+                  size="small"
+                  onDelete={() => setLinkedProjectId(null)}
+                />
+              )}
+              {linkedTechnicianId !== null && (
+                <Chip
+                  label={t('approvals.filters.technicianChip', {
+                    name: expenses.find((exp) => exp.technician_id === linkedTechnicianId)?.technician?.name ?? `#${linkedTechnicianId}`,
+                  })}
+                  size="small"
+                  onDelete={() => setLinkedTechnicianId(null)}
+                />
+              )}
             </Box>
             <Box sx={{ display: 'flex', gap: 1 }}>
               {activeFiltersCount > 0 && (
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { timesheetSignoffsApi } from '../../services/api';
+import type { TimesheetSignoff } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantDateTime, formatTenantNumber } from '../../utils/tenantFormatting';
+import { downloadSignoffReport } from '../Timesheets/timesheetSignoff';
+
+interface SignoffDetailsDialogProps {
+  /** Sign-off to show; the dialog is closed when null. */
+  signoffId: number | null;
+  tenantContext: TenantContext | null;
+  onClose: () => void;
+}
+
+/**
+ * Customer sign-off as seen by approvers: who signed, the signature and the signed entries.
+ */
+const SignoffDetailsDialog: React.FC<SignoffDetailsDialogProps> = ({ signoffId, tenantContext, onClose }) => {
+  const { t } = useTranslation();
+  const [signoff, setSignoff] = useState<TimesheetSignoff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (signoffId === null) return;
+    let cancelled = false;
+    setSignoff(null);
+    setError(null);
+    setLoading(true);
+    timesheetSignoffsApi
+      .getById(signoffId)
+      .then((response) => {
+        if (!cancelled) setSignoff(response.data);
+      })
+      .catch(() => {
+        if (!cancelled) setError(t('timesheets.signoff.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [signoffId, t]);
+
+  const handleDownload = async () => {
+    if (!signoff) return;
+    setDownloading(true);
+    try {
+      await downloadSignoffReport(signoff);
+    } catch {
+      setError(t('timesheets.signoff.downloadFailed'));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const formatTime = (value: string | null) => (value ? value.slice(0, 5) : '');
+
+  return (
+    <Dialog open={signoffId !== null} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('timesheets.signoff.detailsTitle')}</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          signoff && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+              <Box>
+                <Typography variant="subtitle2">
+                  {signoff.signer_name}
+                  {signoff.signer_email && (
+                    <Typography component="span" variant="body2" color="text.secondary">
+                      {` · ${signoff.signer_email}`}
+                    </Typography>
+                  )}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {t('timesheets.signoff.signedAt', { date: formatTenantDateTime(signoff.signed_at, tenantContext) })}
+                </Typography>
+                <Typography variant="body2">
+                  {[signoff.technician?.name, signoff.location?.name].filter(Boolean).join(' · ')}
+                  {' · '}
+                  {signoff.period_start === signoff.period_end
+                    ? formatTenantDate(signoff.period_start, tenantContext)
+                    : t('timesheets.signoff.range', {
+                        from: formatTenantDate(signoff.period_start, tenantContext),
+                        to: formatTenantDate(signoff.period_end, tenantContext),
+                      })}
+                </Typography>
+              </Box>
+
+              {signoff.signature && (
+                <Box
+                  component="img"
+                  src={signoff.signature}
+                  alt={t('timesheets.signoff.signatureAlt', { name: signoff.signer_name })}
+                  sx={{ maxWidth: 320, maxHeight: 140, border: 1, borderColor: 'divider', borderRadius: 1, bgcolor: '#fff' }}
+                />
+              )}
+
+              {signoff.notes && <Typography variant="body2">{signoff.notes}</Typography>}
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('approvals.table.date')}</TableCell>
+                    <TableCell>{t('approvals.table.project')}</TableCell>
+                    <TableCell>{t('approvals.table.task')}</TableCell>
+                    <TableCell>{t('timesheets.signoff.time')}</TableCell>
+                    <TableCell align="right">{t('approvals.table.hours')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {(signoff.entries ?? []).map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTenantDate(entry.date, tenantContext)}</TableCell>
+                      <TableCell>{entry.project_name ?? '—'}</TableCell>
+                      <TableCell>{entry.task_name ?? '—'}</TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        {entry.start_time && entry.end_time ? `${formatTime(entry.start_time)}–${formatTime(entry.end_time)}` : '—'}
+                      </TableCell>
+                      <TableCell align="right">{formatTenantNumber(entry.hours_worked, tenantContext, 2)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={4} sx={{ fontWeight: 600 }}>
+                      {t('timesheets.signoff.total')}
+                    </TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>
+                      {formatTenantNumber(signoff.total_hours, tenantContext, 2)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </Box>
+          )
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+        <Button
+          variant="contained"
+          startIcon={<PdfIcon />}
+          onClick={() => void handleDownload()}
+          disabled={!signoff || downloading}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('timesheets.signoff.downloadReport')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SignoffDetailsDialog;
@@ -0,0 +1,135 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Check, Close } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { PendingTimesheetWeek } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantDateTime, formatTenantNumber } from '../../utils/tenantFormatting';
+
+interface WeekApprovalPanelProps {
+  weeks: PendingTimesheetWeek[];
+  loading: boolean;
+  busyWeekId: number | null;
+  disabled: boolean;
+  tenantContext: TenantContext | null;
+  onApprove: (week: PendingTimesheetWeek) => void;
+  onReject: (week: PendingTimesheetWeek) => void;
+}
+
+const WeekApprovalPanel: React.FC<WeekApprovalPanelProps> = ({
+  weeks,
+  loading,
+  busyWeekId,
+  disabled,
+  tenantContext,
+  onApprove,
+  onReject,
+}) => {
+  const { t } = useTranslation();
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+
+  if (weeks.length === 0) {
+    return (
+      <Paper variant="outlined" sx={{ p: 3, textAlign: 'center' }}>
+        <Typography variant="body2" color="text.secondary">
+          {t('approvals.weeks.empty')}
+        </Typography>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper variant="outlined">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('approvals.weeks.columns.technician')}</TableCell>
+            <TableCell>{t('approvals.weeks.columns.week')}</TableCell>
+            <TableCell>{t('approvals.weeks.columns.projects')}</TableCell>
+            <TableCell align="right">{t('approvals.weeks.columns.entries')}</TableCell>
+            <TableCell align="right">{t('approvals.weeks.columns.hours')}</TableCell>
+            <TableCell>{t('approvals.weeks.columns.submittedAt')}</TableCell>
+            <TableCell align="right">{t('approvals.weeks.columns.actions')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {weeks.map((week) => {
+            const busy = busyWeekId === week.id;
+            const actionsDisabled = disabled || busy || !week.can_review;
+
+            return (
+              <TableRow key={week.id} hover>
+                <TableCell>{week.technician?.name ?? t('common.notAvailable')}</TableCell>
+                <TableCell>
+                  {formatTenantDate(week.week_start, tenantContext)} – {formatTenantDate(week.week_end, tenantContext)}
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {week.projects.map((project) => (
+                      <Chip key={project} label={project} size="small" variant="outlined" />
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell align="right">{week.entry_count}</TableCell>
+                <TableCell align="right">{formatTenantNumber(week.total_hours, tenantContext, 2)}</TableCell>
+                <TableCell>
+                  {week.submitted_at ? formatTenantDateTime(week.submitted_at, tenantContext) : t('common.notAvailable')}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title={week.can_review ? '' : t('approvals.weeks.cannotReview')}>
+                    <Box component="span" sx={{ display: 'inline-flex', gap: 1 }}>
+                      <Button
+                        size="small"
+                        variant="contained"
+                        color="success"
+                        startIcon={<Check fontSize="small" />}
+                        onClick={() => onApprove(week)}
+                        disabled={actionsDisabled}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        {t('approvals.weeks.approve')}
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        color="error"
+                        startIcon={<Close fontSize="small" />}
+                        onClick={() => onReject(week)}
+                        disabled={actionsDisabled}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        {t('approvals.weeks.reject')}
+                      </Button>
+                    </Box>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+};
+
+export default WeekApprovalPanel;
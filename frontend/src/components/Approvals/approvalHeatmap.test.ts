@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { buildApprovalsLink, isHeatmapRangeAllowed, parseApprovalsLink } from './approvalHeatmap';
+
+describe('isHeatmapRangeAllowed', () => {
+  it('allows a year with automatic buckets but daily buckets only up to 62 days', () => {
+    expect(isHeatmapRangeAllowed(366, 'auto')).toBe(true);
+    expect(isHeatmapRangeAllowed(367, 'month')).toBe(false);
+    expect(isHeatmapRangeAllowed(62, 'day')).toBe(true);
+    expect(isHeatmapRangeAllowed(63, 'day')).toBe(false);
+    expect(isHeatmapRangeAllowed(0, 'auto')).toBe(false);
+  });
+});
+
+describe('approvals links', () => {
+  it('round-trips the drill-down filters', () => {
+    const link = buildApprovalsLink({ tab: 'expenses', from: '2026-03-01', to: '2026-03-31', projectId: 4, technicianId: null });
+
+    expect(link).toBe('/approvals?tab=expenses&from=2026-03-01&to=2026-03-31&project=4');
+    expect(parseApprovalsLink(link.slice(link.indexOf('?')))).toEqual({
+      tab: 'expenses',
+      from: '2026-03-01',
+      to: '2026-03-31',
+      projectId: 4,
+    });
+  });
+
+  it('drops malformed values', () => {
+    expect(parseApprovalsLink('?tab=weeks&from=03/01/2026&project=abc&technician=0')).toEqual({});
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Range limits of the approvals heatmap and the links from its drill-down into ApprovalManager.
+ *
+ * Limits mirror ApprovalReports on the backend: any range up to a year, daily buckets only up
+ * to 62 days. "auto" lets the server pick days, weeks or months from the range length.
+ */
+
+export type HeatmapGranularity = 'auto' | 'day' | 'week' | 'month';
+
+export type HeatmapBreakdown = 'none' | 'project' | 'approver';
+
+export const HEATMAP_MAX_RANGE_DAYS = 366;
+export const HEATMAP_MAX_DAILY_DAYS = 62;
+
+export const isHeatmapRangeAllowed = (days: number, granularity: HeatmapGranularity): boolean =>
+  days >= 1 && days <= (granularity === 'day' ? HEATMAP_MAX_DAILY_DAYS : HEATMAP_MAX_RANGE_DAYS);
+
+export type ApprovalsLinkTab = 'timesheets' | 'expenses';
+
+export interface ApprovalsLinkFilters {
+  tab: ApprovalsLinkTab;
+  from?: string;
+  to?: string;
+  projectId?: number | null;
+  technicianId?: number | null;
+}
+
+const YMD_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseId = (value: string | null): number | undefined => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const id = Number(value);
+  return id > 0 ? id : undefined;
+};
+
+/** `/approvals` pre-filtered to a tab, a date range and optionally one project or technician. */
+export const buildApprovalsLink = ({ tab, from, to, projectId, technicianId }: ApprovalsLinkFilters): string => {
+  const params = new URLSearchParams({ tab });
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  if (projectId) params.set('project', String(projectId));
+  if (technicianId) params.set('technician', String(technicianId));
+
+  return `/approvals?${params.toString()}`;
+};
+
+/** Reads the filters of an approvals link back; malformed values are dropped. */
+export const parseApprovalsLink = (search: string): Partial<ApprovalsLinkFilters> => {
+  const params = new URLSearchParams(search);
+  const filters: Partial<ApprovalsLinkFilters> = {};
+
+  const tab = params.get('tab');
+  if (tab === 'timesheets' || tab === 'expenses') filters.tab = tab;
+
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from && YMD_PATTERN.test(from)) filters.from = from;
+  if (to && YMD_PATTERN.test(to)) filters.to = to;
+
+  const projectId = parseId(params.get('project'));
+  const technicianId = parseId(params.get('technician'));
+  if (projectId) filters.projectId = projectId;
+  if (technicianId) filters.technicianId = technicianId;
+
+  return filters;
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_APPROVAL_SLA, getWaitState, resolveApprovalSla, splitWaitingTime } from './approvalSla';
+
+describe('getWaitState', () => {
+  const sla = { warning_hours: 8, overdue_hours: 24, escalate_after_hours: 72, reminders_enabled: true };
+
+  it('turns warning and overdue once the thresholds are reached', () => {
+    expect(getWaitState(7.9, sla)).toBe('ok');
+    expect(getWaitState(8, sla)).toBe('warning');
+    expect(getWaitState(23.9, sla)).toBe('warning');
+    expect(getWaitState(24, sla)).toBe('overdue');
+  });
+
+  it('falls back to the default thresholds without a tenant setting', () => {
+    expect(resolveApprovalSla(null)).toBe(DEFAULT_APPROVAL_SLA);
+    expect(resolveApprovalSla({ approval_sla: sla })).toBe(sla);
+  });
+});
+
+describe('splitWaitingTime', () => {
+  it('splits hours into whole days and remaining hours', () => {
+    expect(splitWaitingTime(5.7)).toEqual({ days: 0, hours: 5 });
+    expect(splitWaitingTime(50.2)).toEqual({ days: 2, hours: 2 });
+    expect(splitWaitingTime(-1)).toEqual({ days: 0, hours: 0 });
+  });
+});
@@ -0,0 +1,33 @@
+import type { ApprovalSlaState } from '../../types';
+import type { ApprovalSla, TenantContext } from '../../types/tenant';
+
+/**
+ * Waiting-time helpers for the approval SLA badges and the heatmap.
+ *
+ * The API reports each pending item's age and state; these helpers cover what the browser
+ * derives itself, such as the colour of a heatmap day from its median wait.
+ */
+
+/** Mirrors config('timesheets.approval_sla') for tenants on older API builds. */
+export const DEFAULT_APPROVAL_SLA: ApprovalSla = {
+  warning_hours: 24,
+  overdue_hours: 48,
+  escalate_after_hours: 96,
+  reminders_enabled: true,
+};
+
+export const resolveApprovalSla = (tenantContext: TenantContext | null | undefined): ApprovalSla =>
+  tenantContext?.approval_sla ?? DEFAULT_APPROVAL_SLA;
+
+/** Same thresholds as ApprovalSlaTracker::describe: warning and overdue are inclusive. */
+export const getWaitState = (hours: number, sla: ApprovalSla): ApprovalSlaState => {
+  if (hours >= sla.overdue_hours) return 'overdue';
+  if (hours >= sla.warning_hours) return 'warning';
+  return 'ok';
+};
+
+/** Whole days and remaining hours of a waiting time, for `approvals.sla.age*` messages. */
+export const splitWaitingTime = (hours: number): { days: number; hours: number } => {
+  const total = Math.max(0, Math.floor(hours));
+  return { days: Math.floor(total / 24), hours: total % 24 };
+};
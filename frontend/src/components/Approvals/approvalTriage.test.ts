@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { TimesheetManagerRow, TimesheetValidationSnapshot } from '../../types';
+import { buildRejectReason, explainTriageFlags, getReviewShortcut, getTriageRisk, sortForTriage } from './approvalTriage';
+
+const snapshot = (overrides: Partial<TimesheetValidationSnapshot> = {}): TimesheetValidationSnapshot => ({
+  technician_id: 7,
+  project_id: 3,
+  task_id: 4,
+  location_id: 5,
+  date: '2026-03-04',
+  hours_worked: 4,
+  daily_total_hours: 4,
+  overlap_risk: 'ok',
+  membership_ok: true,
+  project_active: true,
+  ai_flagged: false,
+  ...overrides,
+});
+
+const row = (overrides: Partial<TimesheetManagerRow> = {}, snapshotOverrides: Partial<TimesheetValidationSnapshot> = {}): TimesheetManagerRow => ({
+  id: 1,
+  date: '2026-03-04',
+  hours_worked: 4,
+  status: 'submitted',
+  ai_flagged: false,
+  ai_score: 0.15,
+  consistency_flags: [],
+  validation: { status: 'ok', warnings: [], notes: {}, snapshot: snapshot(snapshotOverrides) },
+  ...overrides,
+});
+
+describe('explainTriageFlags', () => {
+  it('explains validation problems before consistency flags, most severe first', () => {
+    const flags = explainTriageFlags(
+      row({ hours_worked: 11, consistency_flags: ['excessive_travel_time'] }, { overlap_risk: 'block', daily_total_hours: 13 })
+    );
+
+    expect(flags.map((flag) => flag.key)).toEqual(['overlap', 'dailyCap', 'longShift', 'excessiveTravelTime']);
+    expect(flags[1]).toEqual({ key: 'dailyCap', severity: 'error', params: { hours: 13, cap: 12 } });
+  });
+
+  it('has nothing to say about a clean entry', () => {
+    expect(explainTriageFlags(row())).toEqual([]);
+  });
+});
+
+describe('sortForTriage', () => {
+  it('puts flagged and riskier submitted entries first, oldest first on ties', () => {
+    const clean = row({ id: 1, date: '2026-03-05' });
+    const olderClean = row({ id: 2, date: '2026-03-03' });
+    const flagged = row({ id: 3, ai_flagged: true, ai_score: 0.6 }, { membership_ok: false });
+    const travel = row({ id: 4, consistency_flags: ['travels_without_work'] });
+    const approved = row({ id: 5, status: 'approved', ai_flagged: true });
+
+    expect(sortForTriage([clean, olderClean, flagged, travel, approved]).map((entry) => entry.id)).toEqual([3, 4, 2, 1]);
+    expect(getTriageRisk(flagged)).toBeCloseTo(2.1);
+  });
+});
+
+describe('buildRejectReason', () => {
+  it('appends the reviewer details to the template text', () => {
+    expect(buildRejectReason('Hours do not match the work order', ' ends at 16:00 ')).toBe('Hours do not match the work order: ends at 16:00');
+    expect(buildRejectReason('Wrong project', '')).toBe('Wrong project');
+    expect(buildRejectReason('', 'Call me')).toBe('Call me');
+  });
+});
+
+describe('getReviewShortcut', () => {
+  const press = (key: string, overrides: Partial<KeyboardEvent> = {}) =>
+    getReviewShortcut({ key, ctrlKey: false, metaKey: false, altKey: false, target: null, ...overrides });
+
+  it('maps single keys to review actions', () => {
+    expect(press('a')).toBe('approve');
+    expect(press('R')).toBe('reject');
+    expect(press('s')).toBe('skip');
+    expect(press('ArrowRight')).toBe('skip');
+    expect(press('ArrowLeft')).toBe('previous');
+    expect(press('x')).toBeNull();
+  });
+
+  it('ignores modified keys and typing in fields', () => {
+    expect(press('a', { ctrlKey: true })).toBeNull();
+    expect(press('a', { target: { tagName: 'TEXTAREA', isContentEditable: false } as unknown as EventTarget })).toBeNull();
+  });
+});
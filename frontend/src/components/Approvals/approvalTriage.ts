@@ -0,0 +1,124 @@
+import type { TimesheetManagerRow } from '../../types';
+
+/**
+ * Risk ordering and flag explanations for the keyboard review mode of ApprovalManager.
+ *
+ * The explanations are derived from the validation snapshot rather than the free-text AI
+ * feedback, so they follow the user's language. Thresholds mirror
+ * TimesheetAIService::analyzeTimesheet and the consistency flags of managerView.
+ */
+
+export type TriageSeverity = 'error' | 'warning' | 'info';
+
+export interface TriageFlag {
+  key: string;
+  severity: TriageSeverity;
+  /** Interpolation values for the `approvals.review.flags.<key>` message. */
+  params?: Record<string, string | number>;
+}
+
+/** Rejections in review mode start from one of these; `other` needs a written reason. */
+export const REJECT_REASON_TEMPLATES = [
+  'wrongProject',
+  'hoursMismatch',
+  'overlap',
+  'missingDescription',
+  'travelMismatch',
+  'other',
+] as const;
+
+export type RejectReasonTemplate = (typeof REJECT_REASON_TEMPLATES)[number];
+
+const LONG_SHIFT_HOURS = 10;
+const DAILY_CAP_HOURS = 12;
+
+const CONSISTENCY_FLAG_KEYS: Record<string, string> = {
+  travels_without_work: 'travelWithoutWork',
+  excessive_travel_time: 'excessiveTravelTime',
+  expenses_without_work: 'expensesWithoutWork',
+};
+
+/** Why the entry deserves a closer look, most severe first. */
+export const explainTriageFlags = (row: TimesheetManagerRow): TriageFlag[] => {
+  const flags: TriageFlag[] = [];
+  const snapshot = row.validation?.snapshot;
+
+  if (snapshot?.overlap_risk === 'block') {
+    flags.push({ key: 'overlap', severity: 'error' });
+  }
+  if (snapshot && !snapshot.membership_ok) {
+    flags.push({ key: 'notMember', severity: 'error' });
+  }
+  if (snapshot && snapshot.daily_total_hours > DAILY_CAP_HOURS) {
+    flags.push({ key: 'dailyCap', severity: 'error', params: { hours: snapshot.daily_total_hours, cap: DAILY_CAP_HOURS } });
+  }
+  if (Number(row.hours_worked) >= LONG_SHIFT_HOURS) {
+    flags.push({ key: 'longShift', severity: 'warning', params: { hours: Number(row.hours_worked) } });
+  }
+  if (snapshot && !snapshot.project_active) {
+    flags.push({ key: 'projectInactive', severity: 'warning' });
+  }
+  if (snapshot?.overlap_risk === 'warning') {
+    flags.push({ key: 'overlapUnknown', severity: 'info' });
+  }
+  for (const flag of row.consistency_flags ?? []) {
+    flags.push({ key: CONSISTENCY_FLAG_KEYS[flag] ?? flag, severity: 'warning' });
+  }
+
+  return flags;
+};
+
+/**
+ * Higher is riskier: the AI score (0..1), plus one for an AI flag, plus a share per
+ * validation problem and consistency flag.
+ */
+export const getTriageRisk = (row: TimesheetManagerRow): number => {
+  const weights: Record<TriageSeverity, number> = { error: 0.5, warning: 0.25, info: 0.1 };
+  const flagsWeight = explainTriageFlags(row).reduce((sum, flag) => sum + weights[flag.severity], 0);
+
+  return Number(row.ai_score ?? 0) + (row.ai_flagged ? 1 : 0) + flagsWeight;
+};
+
+/** Submitted rows, riskiest first; ties go to the oldest entry. */
+export const sortForTriage = (rows: TimesheetManagerRow[]): TimesheetManagerRow[] =>
+  rows
+    .filter((row) => row.status === 'submitted')
+    .map((row) => ({ row, risk: getTriageRisk(row) }))
+    .sort((a, b) => b.risk - a.risk || a.row.date.localeCompare(b.row.date) || a.row.id - b.row.id)
+    .map(({ row }) => row);
+
+/** Rejection reason sent to the technician: the template text plus the reviewer's details. */
+export const buildRejectReason = (templateText: string, details: string): string => {
+  const extra = details.trim();
+  if (!templateText) return extra;
+  return extra ? `${templateText}: ${extra}` : templateText;
+};
+
+export type ReviewShortcut = 'approve' | 'reject' | 'skip' | 'previous';
+
+/**
+ * Single-key review actions: A approves, R rejects, S or → skips and ← goes back. Keys typed
+ * into form fields or combined with a modifier are left alone.
+ */
+export const getReviewShortcut = (
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'target'>
+): ReviewShortcut | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+
+  const target = event.target as HTMLElement | null;
+  if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return null;
+
+  switch (event.key.toLowerCase()) {
+    case 'a':
+      return 'approve';
+    case 'r':
+      return 'reject';
+    case 's':
+    case 'arrowright':
+      return 'skip';
+    case 'arrowleft':
+      return 'previous';
+    default:
+      return null;
+  }
+};
@@ -2,6 +2,7 @@ import { AppBar, Toolbar, Typography, Button, Box } from '@mui/material';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../Auth/AuthContext';
+import HeaderTimer from './HeaderTimer';
 
 export const Header = () => {
   const navigate = useNavigate();
@@ -35,7 +36,8 @@ export const Header = () => {
         </Box>
         
         {user && (
-          <Box sx={{ display: 'flex', gap: 2 }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <HeaderTimer color="inherit" />
             <Button 
               color="inherit" 
               onClick={() => navigate('/timesheets')}
@@ -0,0 +1,412 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Popover,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import TimerOutlinedIcon from '@mui/icons-material/TimerOutlined';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import StopIcon from '@mui/icons-material/Stop';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { getTenantSlug, locationsApi, projectsApi, tasksApi, timesheetsApi } from '../../services/api';
+import type { Location, Project, Task, Timesheet } from '../../types';
+import { useAuth } from '../Auth/AuthContext';
+import { useNotification } from '../../contexts/NotificationContext';
+import { useReadOnlyGuard } from '../../hooks/useReadOnlyGuard';
+import {
+  LIVE_TIMER_CHANGED_EVENT,
+  buildLiveTimerEntry,
+  formatLiveTimerElapsed,
+  getLiveTimerElapsedMs,
+  liveTimerStorageKey,
+  pauseLiveTimer,
+  readLiveTimer,
+  resumeLiveTimer,
+  startLiveTimer,
+  writeLiveTimer,
+} from '../Timesheets/liveTimer';
+import type { LiveTimerState, LiveTimerStopIssue } from '../Timesheets/liveTimer';
+
+interface HeaderTimerProps {
+  /** Light variant for dark app bars. */
+  color?: 'default' | 'inherit';
+  sx?: SxProps<Theme>;
+}
+
+const DAILY_HOUR_CAP = 12;
+
+const asArray = <T,>(data: unknown): T[] => {
+  if (Array.isArray(data)) return data as T[];
+  const nested = (data as { data?: unknown } | null)?.data;
+  return Array.isArray(nested) ? (nested as T[]) : [];
+};
+
+const HeaderTimer: React.FC<HeaderTimerProps> = ({ color = 'default', sx }) => {
+  const { t } = useTranslation();
+  const { user, tenantContext, hasPermission } = useAuth();
+  const { showSuccess, showError, showWarning } = useNotification();
+  const { isReadOnly, ensureWritable } = useReadOnlyGuard('timer');
+
+  const storageKey = useMemo(
+    () => (user ? liveTimerStorageKey(getTenantSlug(), user.id) : null),
+    [user]
+  );
+
+  const [timer, setTimer] = useState<LiveTimerState | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [projectId, setProjectId] = useState<number | ''>('');
+  const [taskId, setTaskId] = useState<number | ''>('');
+  const [locationId, setLocationId] = useState<number | ''>('');
+  const [description, setDescription] = useState('');
+  const [stopping, setStopping] = useState(false);
+  const [stopIssue, setStopIssue] = useState<LiveTimerStopIssue | null>(null);
+
+  // Pick up the stored timer on load and whenever another tab (storage event) or another
+  // mounted timer (custom event) changes it.
+  useEffect(() => {
+    if (!storageKey) {
+      setTimer(null);
+      return;
+    }
+    const sync = () => setTimer(readLiveTimer(storageKey));
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === storageKey) sync();
+    };
+    sync();
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener(LIVE_TIMER_CHANGED_EVENT, sync);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(LIVE_TIMER_CHANGED_EVENT, sync);
+    };
+  }, [storageKey]);
+
+  const running = Boolean(timer?.runningSince);
+
+  useEffect(() => {
+    setNow(new Date());
+    if (!running) return;
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [running]);
+
+  const persist = useCallback(
+    (next: LiveTimerState | null) => {
+      if (!storageKey) return;
+      writeLiveTimer(storageKey, next);
+      setTimer(next);
+      setStopIssue(null);
+      window.dispatchEvent(new Event(LIVE_TIMER_CHANGED_EVENT));
+    },
+    [storageKey]
+  );
+
+  const open = Boolean(anchorEl);
+
+  useEffect(() => {
+    if (!open || projects.length > 0) return;
+    projectsApi
+      .getForCurrentUser()
+      .then((data) => setProjects(asArray<Project>(data)))
+      .catch((error) => {
+        console.error('Failed to load timer projects:', error);
+        showError(t('timesheets.timer.loadFailed'));
+      });
+    locationsApi
+      .getAll()
+      .then((data) => setLocations(asArray<Location>(data)))
+      .catch((error) => console.error('Failed to load timer locations:', error));
+  }, [open, projects.length, showError, t]);
+
+  useEffect(() => {
+    setTaskId('');
+    setLocationId('');
+    if (!projectId) {
+      setTasks([]);
+      return;
+    }
+    tasksApi
+      .getByProject(projectId)
+      .then((data) => setTasks(asArray<Task>(data).filter((task) => task.is_active !== false)))
+      .catch((error) => {
+        console.error('Failed to load timer tasks:', error);
+        setTasks([]);
+      });
+  }, [projectId]);
+
+  const taskLocations = useMemo(() => {
+    const task = tasks.find((item) => item.id === taskId);
+    const linked = task?.locations ?? [];
+    return (linked.length > 0 ? linked : locations).filter((location) => location.is_active !== false);
+  }, [tasks, taskId, locations]);
+
+  const labelFor = useCallback(
+    (current: LiveTimerState) => {
+      const project = projects.find((item) => item.id === current.project_id);
+      return project?.name ?? t('timesheets.timer.projectFallback', { id: current.project_id });
+    },
+    [projects, t]
+  );
+
+  if (!user || !hasPermission('create-timesheets')) {
+    return null;
+  }
+
+  const handleStart = () => {
+    if (!storageKey || !projectId || !taskId || !locationId || !description.trim() || !ensureWritable()) return;
+    const result = startLiveTimer(storageKey, {
+      project_id: projectId,
+      task_id: taskId,
+      location_id: locationId,
+      description,
+    });
+    if (!result.started) {
+      showWarning(t('timesheets.timer.alreadyRunning'));
+    }
+    setTimer(result.timer);
+    setDescription('');
+    setProjectId('');
+    window.dispatchEvent(new Event(LIVE_TIMER_CHANGED_EVENT));
+    setAnchorEl(null);
+  };
+
+  const handlePauseResume = () => {
+    if (!timer) return;
+    persist(running ? pauseLiveTimer(timer) : resumeLiveTimer(timer));
+  };
+
+  const handleDiscard = () => {
+    persist(null);
+    setAnchorEl(null);
+  };
+
+  const handleStop = async (confirmOverCap = false) => {
+    if (!timer || !ensureWritable()) return;
+    const stopAt = new Date();
+    const date = dayjs(timer.startedAt).format('YYYY-MM-DD');
+
+    setStopping(true);
+    try {
+      // The day either side too: overnight entries there can overlap the tracked time
+      const dayEntries = (
+        await timesheetsApi.getAll({
+          start_date: dayjs(date).subtract(1, 'day').format('YYYY-MM-DD'),
+          end_date: dayjs(date).add(1, 'day').format('YYYY-MM-DD'),
+        })
+      ).filter(
+        (entry: Timesheet) =>
+          entry.technician?.user_id ? entry.technician.user_id === user.id : entry.technician?.email === user.email
+      );
+      const result = buildLiveTimerEntry(timer, dayEntries, {
+        now: stopAt,
+        rounding: tenantContext?.time_rounding,
+        dailyHourCap: confirmOverCap ? undefined : DAILY_HOUR_CAP,
+      });
+
+      if (!result.ok) {
+        setStopIssue(result.issue);
+        return;
+      }
+
+      await timesheetsApi.create(result.data);
+      persist(null);
+      setAnchorEl(null);
+      showSuccess(
+        t('timesheets.timer.saved', {
+          start: result.data.start_time,
+          end: result.data.end_time,
+        })
+      );
+      window.dispatchEvent(new Event('timesheets:refresh'));
+    } catch (error: unknown) {
+      console.error('Failed to save timer entry:', error);
+      const response = (error as { response?: { data?: { message?: string; errors?: Record<string, unknown> } } })
+        ?.response?.data;
+      if (response?.errors?.time_overlap) {
+        setStopIssue('overlap');
+      } else {
+        showError(response?.message || t('timesheets.timer.saveFailed'));
+      }
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  const elapsed = timer ? formatLiveTimerElapsed(getLiveTimerElapsedMs(timer, now)) : null;
+
+  return (
+    <Box sx={[{ display: 'flex', alignItems: 'center', gap: 0.5 }, ...(Array.isArray(sx) ? sx : [sx])]}>
+      <Tooltip title={timer ? t('timesheets.timer.details') : t('timesheets.timer.start')}>
+        <Button
+          size="small"
+          color={color === 'inherit' ? 'inherit' : running ? 'success' : 'primary'}
+          variant={timer ? 'contained' : 'outlined'}
+          startIcon={<TimerOutlinedIcon fontSize="small" />}
+          onClick={(event) => setAnchorEl(event.currentTarget)}
+          sx={{ textTransform: 'none', fontVariantNumeric: 'tabular-nums', minWidth: 0 }}
+          aria-label={t('timesheets.timer.title')}
+        >
+          {elapsed ?? t('timesheets.timer.title')}
+        </Button>
+      </Tooltip>
+
+      {timer && (
+        <>
+          <Tooltip title={running ? t('timesheets.timer.pause') : t('timesheets.timer.resume')}>
+            <IconButton size="small" color={color === 'inherit' ? 'inherit' : 'default'} onClick={handlePauseResume}>
+              {running ? <PauseIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('timesheets.timer.stop')}>
+            <span>
+              <IconButton
+                size="small"
+                color={color === 'inherit' ? 'inherit' : 'error'}
+                onClick={(event) => {
+                  setAnchorEl(event.currentTarget);
+                  void handleStop();
+                }}
+                disabled={stopping || isReadOnly}
+              >
+                {stopping ? <CircularProgress size={16} color="inherit" /> : <StopIcon fontSize="small" />}
+              </IconButton>
+            </span>
+          </Tooltip>
+        </>
+      )}
+
+      <Popover
+        open={open}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ p: 2, width: 320, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+          <Typography variant="subtitle2" fontWeight={600}>
+            {t('timesheets.timer.title')}
+          </Typography>
+
+          {timer ? (
+            <>
+              <Typography variant="body2">
+                {labelFor(timer)}
+                {timer.description && ` · ${timer.description}`}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {t('timesheets.timer.startedAt', { time: dayjs(timer.startedAt).format('HH:mm') })}
+                {' · '}
+                {running ? t('timesheets.timer.running') : t('timesheets.timer.paused')}
+              </Typography>
+
+              {stopIssue && (
+                <Alert severity={stopIssue === 'over_cap' ? 'warning' : 'error'}>
+                  {t(`timesheets.timer.issues.${stopIssue}`, { cap: DAILY_HOUR_CAP })}
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                <Button size="small" color="inherit" onClick={handleDiscard} sx={{ textTransform: 'none' }}>
+                  {t('timesheets.timer.discard')}
+                </Button>
+                <Button size="small" variant="outlined" onClick={handlePauseResume} sx={{ textTransform: 'none' }}>
+                  {running ? t('timesheets.timer.pause') : t('timesheets.timer.resume')}
+                </Button>
+                <Button
+                  size="small"
+                  variant="contained"
+                  color={stopIssue === 'over_cap' ? 'warning' : 'error'}
+                  onClick={() => void handleStop(stopIssue === 'over_cap')}
+                  disabled={stopping || isReadOnly}
+                  sx={{ textTransform: 'none' }}
+                >
+                  {stopIssue === 'over_cap' ? t('timesheets.timer.saveAnyway') : t('timesheets.timer.stop')}
+                </Button>
+              </Box>
+            </>
+          ) : (
+            <>
+              <TextField
+                select
+                size="small"
+                label={t('timesheets.timer.project')}
+                value={projectId}
+                onChange={(event) => setProjectId(Number(event.target.value) || '')}
+              >
+                {projects.map((project) => (
+                  <MenuItem key={project.id} value={project.id}>
+                    {project.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label={t('timesheets.timer.task')}
+                value={taskId}
+                onChange={(event) => {
+                  setTaskId(Number(event.target.value) || '');
+                  setLocationId('');
+                }}
+                disabled={!projectId}
+              >
+                {tasks.map((task) => (
+                  <MenuItem key={task.id} value={task.id}>
+                    {task.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label={t('timesheets.timer.location')}
+                value={locationId}
+                onChange={(event) => setLocationId(Number(event.target.value) || '')}
+                disabled={!taskId}
+              >
+                {taskLocations.map((location) => (
+                  <MenuItem key={location.id} value={location.id}>
+                    {location.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                required
+                label={t('timesheets.timer.description')}
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                inputProps={{ maxLength: 1000 }}
+              />
+              <Button
+                variant="contained"
+                startIcon={<PlayArrowIcon />}
+                onClick={handleStart}
+                disabled={!projectId || !taskId || !locationId || !description.trim() || isReadOnly}
+                sx={{ textTransform: 'none' }}
+              >
+                {t('timesheets.timer.start')}
+              </Button>
+            </>
+          )}
+        </Box>
+      </Popover>
+    </Box>
+  );
+};
+
+export default HeaderTimer;
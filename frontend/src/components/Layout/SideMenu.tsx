@@ -32,6 +32,7 @@ import {
   Assignment as ApprovalIcon,
   Assignment as PlanningIcon,
   Flight as TravelsIcon,
+  EventRepeat as CalendarFeedsIcon,
   Settings as SettingsIcon,
   Logout as LogoutIcon,
   ChevronLeft as ChevronLeftIcon,
@@ -44,7 +45,8 @@ import {
   Business as ClientsIcon,
   AdminPanelSettings as AdminIcon,
   DeleteSweep as ResetIcon,
-  Language as LanguageIcon
+  Language as LanguageIcon,
+  AlarmOutlined as OverdueIcon
 } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../Auth/AuthContext';
@@ -143,6 +145,13 @@ export const SideMenu: React.FC<SideMenuProps> = ({ currentPage, onPageChange })
       path: 'travels',
       show: hasTravels && (hasPermission('view-timesheets') || isAdmin())
     },
+    {
+      id: 'calendar-feeds',
+      label: t('nav.calendarFeeds'),
+      icon: <CalendarFeedsIcon />,
+      path: 'calendar-feeds',
+      show: hasPermission('view-timesheets')
+    },
     {
       id: 'expenses',
       label: t('nav.expenses'), 
@@ -157,7 +166,8 @@ export const SideMenu: React.FC<SideMenuProps> = ({ currentPage, onPageChange })
       path: 'approvals',
       show: hasPermission('approve-timesheets') || hasPermission('approve-expenses'),
       badge: counts.total > 0 ? counts.total.toString() : undefined, // Badge dinâmico
-      badgeColor: counts.total > 0 ? 'error' : 'default' as 'error' | 'default'
+      badgeColor: counts.total > 0 ? 'error' : 'default' as 'error' | 'default',
+      overdueBadge: counts.overdue.total > 0 ? counts.overdue.total : undefined
     }
   ];
 
@@ -528,6 +538,18 @@ export const SideMenu: React.FC<SideMenuProps> = ({ currentPage, onPageChange })
                         sx={{ ml: 1, minWidth: 20, height: 20, fontWeight: 600 }}
                       />
                     )}
+                    {item.overdueBadge && (
+                      <Tooltip title={t('approvals.sla.overdueCount', { count: item.overdueBadge })}>
+                        <Chip
+                          icon={<OverdueIcon />}
+                          label={item.overdueBadge}
+                          size="small"
+                          color="error"
+                          variant="outlined"
+                          sx={{ ml: 0.5, height: 20, fontWeight: 600, '& .MuiChip-icon': { fontSize: 14 } }}
+                        />
+                      </Tooltip>
+                    )}
                   </>
                 )}
               </ListItemButton>
@@ -237,13 +237,15 @@ import {
   GridOn as GridOnIcon,
 } from '@mui/icons-material';
 import dayjs from 'dayjs';
-import api from '../../services/api';
+import api, { absencesApi } from '../../services/api';
 import { useTenantGuard } from '../../hooks/useTenantGuard';
 import ProjectMembersDialog from './ProjectMembersDialog';
 import { useAuth } from '../Auth/AuthContext';
 import { formatTenantDate } from '../../utils/tenantFormatting';
 import { useTranslation } from 'react-i18next';
 import type { TFunction } from 'i18next';
+import type { Absence } from '../../types';
+import { findAbsenceType, getAbsenceEventRange, getAbsenceTypes } from '../Timesheets/timesheetAbsences';
 
 interface User {
   id: number;
@@ -277,6 +279,9 @@ interface DhtmlxTask {
   type?: string;
   parent?: string | number;
   open?: boolean;
+  color?: string;
+  /** Approved absence shown as an unavailable bar under its user. */
+  absence?: boolean;
 }
 
 declare global {
@@ -392,7 +397,7 @@ const buildColumns = (
       width: 80,
       align: 'center',
       template: (task: any) => {
-        if (task.type === 'project') return '';
+        if (task.type === 'project' || task.absence) return '';
         return `${Math.round((task.progress || 0) * 100)}%`;
       },
     });
@@ -462,6 +467,14 @@ const injectCustomStyles = () => {
       background: #a1a1a1;
     }
 
+    .gantt-absence-bar {
+      opacity: 0.85;
+      background-image: repeating-linear-gradient(45deg, rgba(255,255,255,0.25) 0 6px, transparent 6px 12px);
+    }
+    .gantt-absence-bar .gantt_task_progress_wrapper {
+      display: none;
+    }
+
     .tp-role-badge {
       display: inline-block;
       margin-left: 8px;
@@ -753,6 +766,34 @@ const buildUsersPlanning = (
   return ganttData;
 };
 
+/**
+ * Unavailable bars: one row per approved absence, under the user it belongs to.
+ */
+const buildAbsenceRows = (
+  absences: Absence[],
+  userIds: Set<number>,
+  describe: (absence: Absence) => { text: string; color: string }
+): DhtmlxTask[] =>
+  absences.flatMap((absence) => {
+    const userId = absence.technician?.user_id;
+    if (absence.status !== 'approved' || !userId || !userIds.has(userId)) return [];
+
+    const range = getAbsenceEventRange(absence);
+    const { text, color } = describe(absence);
+    return [
+      {
+        id: `user_${userId}_absence_${absence.id}`,
+        text,
+        start_date: range.start,
+        end_date: range.end,
+        progress: 0,
+        parent: `user_${userId}`,
+        color,
+        absence: true,
+      },
+    ];
+  });
+
 const PlanningGanttUsers: React.FC = () => {
   const { t, i18n } = useTranslation();
   const language = i18n.resolvedLanguage || i18n.language || 'en-US';
@@ -804,6 +845,7 @@ const PlanningGanttUsers: React.FC = () => {
 
   const [projects, setProjects] = useState<Project[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [absences, setAbsences] = useState<Absence[]>([]);
 
   const [selectedProjectIdForMembers, setSelectedProjectIdForMembers] = useState<number | null>(null);
   const [openMembersDialog, setOpenMembersDialog] = useState(false);
@@ -1070,6 +1112,25 @@ const PlanningGanttUsers: React.FC = () => {
     fetchTasks();
   }, []);
 
+  // Fetch approved absences (shown as unavailable bars); planning still works without them
+  useEffect(() => {
+    const fetchAbsences = async () => {
+      try {
+        const response = await absencesApi.getAll({
+          status: 'approved',
+          from: dayjs().subtract(6, 'month').format('YYYY-MM-DD'),
+          to: dayjs().add(12, 'month').format('YYYY-MM-DD'),
+        });
+        setAbsences(Array.isArray(response?.data) ? response.data : []);
+      } catch (err) {
+        console.warn('Failed to fetch absences:', err);
+        setAbsences([]);
+      }
+    };
+
+    fetchAbsences();
+  }, []);
+
   const applyScaleInternal = (gantt: any, mode: ViewMode, t: TFunction) => {
     switch (mode) {
       case 'Day':
@@ -1188,6 +1249,9 @@ const PlanningGanttUsers: React.FC = () => {
             if (task.type === 'project') {
               classes.push('gantt-project-group');
             }
+            if (task.absence) {
+              classes.push('gantt-absence-bar');
+            }
             if (selectedTaskId && task.id === selectedTaskId) {
               classes.push('task-selected');
             }
@@ -1210,6 +1274,13 @@ const PlanningGanttUsers: React.FC = () => {
             if (task.type === 'project') {
               return `<b>${task.text}</b>`;
             }
+            if (task.absence) {
+              return `
+                <b>${escapeHtml(String(task.text ?? ''))}</b><br/>
+                <b>${t('planning.gantt.columns.start')}:</b> ${gantt.templates.tooltip_date_format(start)}<br/>
+                <b>${t('planning.gantt.columns.end')}:</b> ${gantt.templates.tooltip_date_format(gantt.date.add(end, -1, 'day'))}
+              `;
+            }
             return `
               <b>${task.text}</b><br/>
               <b>${t('planning.gantt.columns.start')}:</b> ${gantt.templates.tooltip_date_format(start)}<br/>
@@ -1288,7 +1359,20 @@ const PlanningGanttUsers: React.FC = () => {
       // no-op
     }
 
-    const allData = buildUsersPlanning(projects, tasks);
+    const planning = buildUsersPlanning(projects, tasks);
+    const userIds = new Set(
+      planning.flatMap((row) => (typeof row.id === 'string' && /^user_\d+$/.test(row.id) ? [Number(row.id.slice(5))] : []))
+    );
+    const absenceTypes = getAbsenceTypes(tenantContext);
+    const allData = [
+      ...planning,
+      ...buildAbsenceRows(absences, userIds, (absence) => {
+        const type = findAbsenceType(absenceTypes, absence.absence_type);
+        const label = t(`timesheets.absences.types.${type.key}`, { defaultValue: type.label });
+        const half = absence.half_day ? ` · ${t(`timesheets.absences.halfDay.${absence.half_day}`)}` : '';
+        return { text: `${t('planning.gantt.unavailable', { type: label })}${half}`, color: type.color };
+      }),
+    ];
     let filteredData = allData;
 
     if (selectedUserIds.length > 0) {
@@ -1319,7 +1403,7 @@ const PlanningGanttUsers: React.FC = () => {
 
     gantt.parse({ data: filteredData });
     gantt.render();
-  }, [projects, tasks, loadingProjects, loadingTasks, selectedUserIds, ganttInitialized]);
+  }, [projects, tasks, absences, loadingProjects, loadingTasks, selectedUserIds, ganttInitialized, tenantContext, t]);
 
   const loading = loadingProjects || loadingTasks;
 
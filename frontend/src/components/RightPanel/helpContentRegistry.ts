@@ -20,6 +20,8 @@ export const helpContentRegistry: Record<string, HelpContent> = {
         bulletKeys: [
           'rightPanel.help.timesheets.sections.calendar.bullets.switchViews',
           'rightPanel.help.timesheets.sections.calendar.bullets.createEdit',
+          'rightPanel.help.timesheets.sections.calendar.bullets.dragRange',
+          'rightPanel.help.timesheets.sections.calendar.bullets.dragEdit',
           'rightPanel.help.timesheets.sections.calendar.bullets.scope',
         ],
       },
@@ -49,7 +51,6 @@ export const helpContentRegistry: Record<string, HelpContent> = {
     comingSoon: {
       titleKey: 'rightPanel.help.timesheets.comingSoon.title',
       bulletKeys: [
-        'rightPanel.help.timesheets.comingSoon.bullets.dragRange',
         'rightPanel.help.timesheets.comingSoon.bullets.aiDrafts',
       ],
     },
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   AlertTitle,
@@ -16,25 +16,36 @@ import { getTenantAiState } from '../../Common/aiState';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { commitTimesheetPlan, previewTimesheetPlan } from '../../../services/aiTimesheet';
-import { API_URL, expensesApi, fetchWithAuth, tasksApi, timesheetsApi } from '../../../services/api';
+import { API_URL, expensesApi, fetchWithAuth, tasksApi, timesheetsApi, timesheetTemplatesApi } from '../../../services/api';
 import type {
   AiTimesheetPlan,
   AiTimesheetPreviewResponse,
   Expense,
+  RecentTimesheetCombo,
   Task,
   Timesheet,
   TimesheetManagerRow,
+  TimesheetTemplate,
 } from '../../../types';
 import { useNotification } from '../../../contexts/NotificationContext';
 import { useAuth } from '../../Auth/AuthContext';
 import AiAssistantMessage from '../../AiTimesheet/AiAssistantMessage';
 import AiTimesheetPreviewDetails from '../../AiTimesheet/AiTimesheetPreviewDetails';
+import AiTimesheetPlanEditor from '../../AiTimesheet/AiTimesheetPlanEditor';
 import {
+  getAiTimesheetPlanBlockIssues,
   mapAiTimesheetMissingFields,
   mapAiTimesheetPreviewError,
 } from '../../../utils/aiTimesheetPreview';
 import { looksLikeTimesheetBuilder } from '../../../utils/looksLikeTimesheetBuilder';
 import { formatTenantDate, formatTenantMoney, formatTenantNumber } from '../../../utils/tenantFormatting';
+import {
+  applyQuickPickToPlan,
+  buildQuickPickPrompt,
+  getComboLabel,
+  getQuickPicks,
+} from '../../Timesheets/timesheetTemplates';
+import type { QuickPick } from '../../Timesheets/timesheetTemplates';
 
 type ChatMessage = {
   role: 'user' | 'assistant';
@@ -269,6 +280,10 @@ export const AiChatTab: React.FC = () => {
   const [pendingGuided, setPendingGuided] = useState<GuidedIntent | null>(null);
   const [pendingFilterType, setPendingFilterType] = useState<'project' | 'technician' | null>(null);
   const [footerQuickReplies, setFooterQuickReplies] = useState<FooterQuickReply[]>([]);
+  const [templates, setTemplates] = useState<TimesheetTemplate[]>([]);
+  const [recentCombos, setRecentCombos] = useState<RecentTimesheetCombo[]>([]);
+  // Quick pick behind the current builder prompt; its task and location fill the preview
+  const pendingQuickPickRef = useRef<QuickPick | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const transcriptRef = useRef<HTMLDivElement | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
@@ -313,6 +328,32 @@ export const AiChatTab: React.FC = () => {
     [t]
   );
 
+  useEffect(() => {
+    if (aiState !== 'enabled') return;
+    let cancelled = false;
+    Promise.all([timesheetTemplatesApi.getAll(), timesheetTemplatesApi.getRecent()])
+      .then(([templateResponse, recentResponse]) => {
+        if (cancelled) return;
+        setTemplates(templateResponse.data);
+        setRecentCombos(recentResponse.data);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [aiState]);
+
+  const quickPicks = useMemo(() => getQuickPicks(templates, recentCombos, { recentLimit: 3 }), [templates, recentCombos]);
+
+  const handleQuickPick = (pick: QuickPick) => {
+    pendingQuickPickRef.current = pick;
+    if (pick.kind === 'template') {
+      void timesheetTemplatesApi.markUsed(pick.template.id).catch(() => undefined);
+    }
+    setQuestion(buildQuickPickPrompt(pick, new Date().toISOString()));
+    inputRef.current?.focus();
+  };
+
   const collapsedPrompts = useMemo(() => examplePrompts.slice(0, 3), [examplePrompts]);
   const expandedPrompts = useMemo(
     () => [...examplePrompts, ...suggestionChips],
@@ -1290,8 +1331,11 @@ export const AiChatTab: React.FC = () => {
         const previewPayload = { prompt: q, timezone };
         logAiTimesheet('preview payload', previewPayload);
         const response = await withLoading(() => previewTimesheetPlan(previewPayload.prompt, previewPayload.timezone));
-        setPreview(response);
-        setPreviewPlan(response.plan);
+        const quickPick = pendingQuickPickRef.current;
+        pendingQuickPickRef.current = null;
+        const plan = quickPick ? applyQuickPickToPlan(response.plan, quickPick) : response.plan;
+        setPreview({ ...response, plan });
+        setPreviewPlan(plan);
 
         setMessages((prev) => [
           ...prev,
@@ -1299,7 +1343,7 @@ export const AiChatTab: React.FC = () => {
             role: 'assistant',
             content: (
               <AiAssistantMessage severity="info" title={t('aiTimesheet.previewSummary.title')}>
-                <AiTimesheetPreviewDetails plan={response.plan} />
+                <AiTimesheetPreviewDetails plan={plan} />
               </AiAssistantMessage>
             ),
           },
@@ -1399,8 +1443,16 @@ export const AiChatTab: React.FC = () => {
     }
   };
 
+  const previewPlanCommittable = useMemo(
+    () =>
+      !!previewPlan &&
+      previewPlan.days.some((day) => day.work_blocks.length > 0) &&
+      Object.keys(getAiTimesheetPlanBlockIssues(previewPlan)).length === 0,
+    [previewPlan]
+  );
+
   const handleApply = async () => {
-    if (!previewPlan || applyLoading || !preview) return;
+    if (!previewPlan || applyLoading || !preview || !previewPlanCommittable) return;
 
     setApplyLoading(true);
     setError(null);
@@ -1566,6 +1618,26 @@ export const AiChatTab: React.FC = () => {
               </Stack>
             ) : null}
 
+            {aiState === 'enabled' && quickPicks.length > 0 ? (
+              <Stack spacing={1}>
+                <Typography variant="caption" color="text.secondary">
+                  {t('timesheets.templates.title')}
+                </Typography>
+                <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap' }}>
+                  {quickPicks.map((pick) => (
+                    <Chip
+                      key={pick.key}
+                      label={pick.kind === 'template' ? pick.template.name : getComboLabel(pick.combo)}
+                      size="small"
+                      color={pick.kind === 'template' ? 'primary' : 'default'}
+                      variant="outlined"
+                      onClick={() => handleQuickPick(pick)}
+                    />
+                  ))}
+                </Stack>
+              </Stack>
+            ) : null}
+
             {aiState === 'enabled' ? (
               <Stack spacing={1}>
                 <Typography variant="caption" color="text.secondary">
@@ -1614,9 +1686,16 @@ export const AiChatTab: React.FC = () => {
             ) : null}
 
             {preview && previewPlan ? (
-              <Button variant="contained" onClick={() => void handleApply()} disabled={applyLoading}>
-                {applyLoading ? t('common.saving') : t('aiTimesheet.confirmCreate')}
-              </Button>
+              <>
+                <AiTimesheetPlanEditor plan={previewPlan} onChange={setPreviewPlan} disabled={applyLoading} />
+                <Button
+                  variant="contained"
+                  onClick={() => void handleApply()}
+                  disabled={applyLoading || !previewPlanCommittable}
+                >
+                  {applyLoading ? t('common.saving') : t('aiTimesheet.confirmCreate')}
+                </Button>
+              </>
             ) : null}
 
             <Stack spacing={1.5}>
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { absencesApi } from '../../services/api';
+import type { Absence, AbsenceHalfDay } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+import { countAbsenceDays, findAbsenceType, getAbsenceTypes } from './timesheetAbsences';
+
+interface AbsenceRequestDialogProps {
+  open: boolean;
+  /** Existing absence to show (and cancel); a new request form when null. */
+  absence: Absence | null;
+  /** Pre-selected first day of a new request. */
+  defaultDate: string | null;
+  tenantContext: TenantContext | null;
+  /** Whether the user may cancel the shown absence (their own, or one they manage). */
+  canCancel: boolean;
+  onClose: () => void;
+  onSaved: (absence: Absence, action: 'requested' | 'cancelled') => void;
+}
+
+type HalfDayChoice = 'full' | AbsenceHalfDay;
+
+const STATUS_COLOR: Record<Absence['status'], 'warning' | 'success' | 'error' | 'default'> = {
+  pending: 'warning',
+  approved: 'success',
+  rejected: 'error',
+  cancelled: 'default',
+};
+
+const AbsenceRequestDialog: React.FC<AbsenceRequestDialogProps> = ({
+  open,
+  absence,
+  defaultDate,
+  tenantContext,
+  canCancel,
+  onClose,
+  onSaved,
+}) => {
+  const { t } = useTranslation();
+  const types = getAbsenceTypes(tenantContext);
+  const datePickerFormat = getTenantDatePickerFormat(tenantContext);
+
+  const [absenceType, setAbsenceType] = useState(types[0]?.key ?? '');
+  const [startDate, setStartDate] = useState(dayjs().format('YYYY-MM-DD'));
+  const [endDate, setEndDate] = useState(dayjs().format('YYYY-MM-DD'));
+  const [halfDay, setHalfDay] = useState<HalfDayChoice>('full');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || absence) return;
+    const day = defaultDate ?? dayjs().format('YYYY-MM-DD');
+    setAbsenceType(types[0]?.key ?? '');
+    setStartDate(day);
+    setEndDate(day);
+    setHalfDay('full');
+    setReason('');
+    setError(null);
+    // Reset only when the dialog opens.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, absence, defaultDate]);
+
+  const singleDay = startDate === endDate;
+  const selectedHalfDay = singleDay && halfDay !== 'full' ? halfDay : null;
+  const days = countAbsenceDays(startDate, endDate, selectedHalfDay);
+  const typeLabel = (key: string) => {
+    const type = findAbsenceType(types, key);
+    return t(`timesheets.absences.types.${type.key}`, { defaultValue: type.label });
+  };
+
+  const getErrorMessage = (err: unknown): string => {
+    const response = (err as { response?: { data?: { message?: unknown; error?: unknown } } }).response;
+    return (
+      (typeof response?.data?.message === 'string' && response.data.message) ||
+      (typeof response?.data?.error === 'string' && response.data.error) ||
+      t('timesheets.absences.saveFailed')
+    );
+  };
+
+  const handleRequest = async () => {
+    if (!absenceType || days <= 0) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await absencesApi.create({
+        absence_type: absenceType,
+        start_date: startDate,
+        end_date: endDate,
+        half_day: selectedHalfDay,
+        reason: reason.trim() || undefined,
+      });
+      onSaved(result.data, 'requested');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelAbsence = async () => {
+    if (!absence) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await absencesApi.cancel(absence.id);
+      onSaved(result.data, 'cancelled');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderDatePicker = (label: string, value: string, onChange: (value: string) => void) => (
+    <DatePicker
+      label={label}
+      value={dayjs(value)}
+      onChange={(val) => val && val.isValid() && onChange(val.format('YYYY-MM-DD'))}
+      format={datePickerFormat}
+      slotProps={{ textField: { size: 'small', fullWidth: true } }}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{absence ? typeLabel(absence.absence_type) : t('timesheets.absences.requestTitle')}</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {absence ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <Box>
+              <Chip
+                size="small"
+                color={STATUS_COLOR[absence.status]}
+                label={t(`timesheets.absences.status.${absence.status}`)}
+              />
+            </Box>
+            {absence.technician?.name && <Typography variant="body2">{absence.technician.name}</Typography>}
+            <Typography variant="body2">
+              {absence.start_date === absence.end_date
+                ? formatTenantDate(absence.start_date, tenantContext)
+                : t('timesheets.absences.range', {
+                    from: formatTenantDate(absence.start_date, tenantContext),
+                    to: formatTenantDate(absence.end_date, tenantContext),
+                  })}
+              {absence.half_day && ` · ${t(`timesheets.absences.halfDay.${absence.half_day}`)}`}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {t('timesheets.absences.days', { count: absence.days })}
+            </Typography>
+            {absence.reason && <Typography variant="body2">{absence.reason}</Typography>}
+            {absence.rejection_reason && (
+              <Alert severity="error" sx={{ py: 0 }}>
+                {absence.rejection_reason}
+              </Alert>
+            )}
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 0.5 }}>
+            <TextField
+              select
+              size="small"
+              label={t('timesheets.absences.type')}
+              value={absenceType}
+              onChange={(e) => setAbsenceType(e.target.value)}
+            >
+              {types.map((type) => (
+                <MenuItem key={type.key} value={type.key}>
+                  <Box component="span" sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: type.color, mr: 1 }} />
+                  {typeLabel(type.key)}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {renderDatePicker(t('timesheets.absences.startDate'), startDate, (value) => {
+                setStartDate(value);
+                if (value > endDate) setEndDate(value);
+              })}
+              {renderDatePicker(t('timesheets.absences.endDate'), endDate, setEndDate)}
+            </Box>
+            {singleDay && (
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={halfDay}
+                onChange={(_, value: HalfDayChoice | null) => value && setHalfDay(value)}
+                sx={{ '& .MuiToggleButton-root': { py: 0.25, px: 1, textTransform: 'none' } }}
+              >
+                <ToggleButton value="full">{t('timesheets.absences.halfDay.full')}</ToggleButton>
+                <ToggleButton value="morning">{t('timesheets.absences.halfDay.morning')}</ToggleButton>
+                <ToggleButton value="afternoon">{t('timesheets.absences.halfDay.afternoon')}</ToggleButton>
+              </ToggleButtonGroup>
+            )}
+            <TextField
+              size="small"
+              multiline
+              minRows={2}
+              label={t('timesheets.absences.reason')}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              inputProps={{ maxLength: 1000 }}
+            />
+            <Typography variant="caption" color={days > 0 ? 'text.secondary' : 'error'}>
+              {days > 0 ? t('timesheets.absences.days', { count: days }) : t('timesheets.absences.invalidRange')}
+              {days > 0 && ` · ${t('timesheets.absences.approvalHint')}`}
+            </Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.close')}
+        </Button>
+        {absence ? (
+          canCancel &&
+          (absence.status === 'pending' || absence.status === 'approved') && (
+            <Button color="error" variant="outlined" onClick={() => void handleCancelAbsence()} disabled={saving}>
+              {t('timesheets.absences.cancel')}
+            </Button>
+          )
+        ) : (
+          <Button variant="contained" onClick={() => void handleRequest()} disabled={saving || !absenceType || days <= 0}>
+            {t('timesheets.absences.submit')}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AbsenceRequestDialog;
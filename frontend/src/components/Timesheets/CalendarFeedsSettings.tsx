@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  Paper,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as CopyIcon,
+  Delete as RevokeIcon,
+  EventRepeat as SubscribeIcon,
+} from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import ConfirmationDialog from '../Common/ConfirmationDialog';
+import { useNotification } from '../../contexts/NotificationContext';
+import { useAuth } from '../Auth/AuthContext';
+import { calendarFeedsApi } from '../../services/api';
+import type { CalendarFeed, CalendarFeedCalendar } from '../../types';
+import { formatTenantDateTime } from '../../utils/tenantFormatting';
+
+const includeKey = (calendar: CalendarFeedCalendar) => `include_${calendar}` as const;
+
+/** webcal:// makes the browser hand the URL to the default calendar app as a subscription. */
+const toWebcal = (url: string) => url.replace(/^https?:/, 'webcal:');
+
+/**
+ * Settings screen for the user's personal calendar feeds: one secret URL per calendar
+ * (timesheets, travels, planned tasks) to subscribe to from Outlook, Google or Apple Calendar.
+ */
+const CalendarFeedsSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { tenantContext } = useAuth();
+  const { showSuccess, showError } = useNotification();
+
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [available, setAvailable] = useState<CalendarFeedCalendar[]>(['timesheets']);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<Record<CalendarFeedCalendar, boolean>>({ timesheets: true, travels: true, planning: true });
+  const [revoking, setRevoking] = useState<CalendarFeed | null>(null);
+
+  const loadFeeds = useCallback(async () => {
+    try {
+      const response = await calendarFeedsApi.getAll();
+      setFeeds(response.data);
+      setAvailable(response.available_calendars);
+    } catch {
+      showError(t('calendarFeeds.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    void loadFeeds();
+  }, [loadFeeds]);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await calendarFeedsApi.create({
+        name: name.trim() || t('calendarFeeds.defaultName'),
+        include_timesheets: selected.timesheets,
+        include_travels: selected.travels,
+        include_planning: selected.planning,
+      });
+      setFeeds((current) => [...current, response.data]);
+      setName('');
+      showSuccess(t('calendarFeeds.created'));
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { message?: unknown } } }).response?.data?.message;
+      showError(typeof message === 'string' ? message : t('calendarFeeds.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (feed: CalendarFeed, calendar: CalendarFeedCalendar, enabled: boolean) => {
+    try {
+      const response = await calendarFeedsApi.update(feed.id, { [includeKey(calendar)]: enabled });
+      setFeeds((current) => current.map((item) => (item.id === feed.id ? response.data : item)));
+    } catch {
+      showError(t('calendarFeeds.saveFailed'));
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    const feed = revoking;
+    setRevoking(null);
+    try {
+      await calendarFeedsApi.delete(feed.id);
+      setFeeds((current) => current.filter((item) => item.id !== feed.id));
+      showSuccess(t('calendarFeeds.revoked'));
+    } catch {
+      showError(t('calendarFeeds.saveFailed'));
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccess(t('calendarFeeds.copied'));
+    } catch {
+      showError(t('calendarFeeds.copyFailed'));
+    }
+  };
+
+  const canCreate = available.some((calendar) => selected[calendar]);
+
+  return (
+    <Box sx={{ p: { xs: 2, sm: 3 }, maxWidth: 960 }}>
+      <Typography variant="h5" sx={{ fontWeight: 600, mb: 0.5 }}>
+        {t('calendarFeeds.title')}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t('calendarFeeds.subtitle')}
+      </Typography>
+
+      <Alert severity="info" sx={{ mb: 2 }}>
+        {t('calendarFeeds.privacyHint')}
+      </Alert>
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 3, display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label={t('calendarFeeds.name')}
+          placeholder={t('calendarFeeds.defaultName')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          inputProps={{ maxLength: 120 }}
+          sx={{ minWidth: 220 }}
+        />
+        {available.map((calendar) => (
+          <FormControlLabel
+            key={calendar}
+            control={
+              <Checkbox
+                size="small"
+                checked={selected[calendar]}
+                onChange={(e) => setSelected((current) => ({ ...current, [calendar]: e.target.checked }))}
+              />
+            }
+            label={t(`calendarFeeds.calendars.${calendar}`)}
+          />
+        ))}
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => void handleCreate()}
+          disabled={saving || !canCreate}
+          sx={{ ml: 'auto', textTransform: 'none' }}
+        >
+          {t('calendarFeeds.create')}
+        </Button>
+      </Paper>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : feeds.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('calendarFeeds.empty')}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {feeds.map((feed) => (
+            <Paper key={feed.id} variant="outlined" sx={{ p: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600 }} noWrap>
+                    {feed.name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {feed.last_accessed_at
+                      ? t('calendarFeeds.lastAccessed', { when: formatTenantDateTime(feed.last_accessed_at, tenantContext) })
+                      : t('calendarFeeds.neverAccessed')}
+                  </Typography>
+                </Box>
+                <Button
+                  size="small"
+                  color="error"
+                  startIcon={<RevokeIcon fontSize="small" />}
+                  onClick={() => setRevoking(feed)}
+                  sx={{ textTransform: 'none' }}
+                >
+                  {t('calendarFeeds.revoke')}
+                </Button>
+              </Box>
+
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                {available.map((calendar) => {
+                  const url = feed.urls[calendar];
+                  return (
+                    <Box key={calendar} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: { xs: 'wrap', sm: 'nowrap' } }}>
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            size="small"
+                            checked={feed[includeKey(calendar)]}
+                            onChange={(e) => void handleToggle(feed, calendar, e.target.checked)}
+                          />
+                        }
+                        label={t(`calendarFeeds.calendars.${calendar}`)}
+                        sx={{ minWidth: 170 }}
+                      />
+                      {url && (
+                        <TextField
+                          size="small"
+                          fullWidth
+                          value={url}
+                          onFocus={(e) => e.target.select()}
+                          InputProps={{
+                            readOnly: true,
+                            sx: { fontFamily: 'monospace', fontSize: '0.8rem' },
+                            endAdornment: (
+                              <InputAdornment position="end">
+                                <Tooltip title={t('calendarFeeds.copy')}>
+                                  <IconButton size="small" onClick={() => void handleCopy(url)} aria-label={t('calendarFeeds.copy')}>
+                                    <CopyIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                                <Tooltip title={t('calendarFeeds.subscribe')}>
+                                  <IconButton size="small" component="a" href={toWebcal(url)} aria-label={t('calendarFeeds.subscribe')}>
+                                    <SubscribeIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                              </InputAdornment>
+                            ),
+                          }}
+                        />
+                      )}
+                    </Box>
+                  );
+                })}
+              </Box>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      <ConfirmationDialog
+        open={revoking !== null}
+        title={t('calendarFeeds.revokeTitle')}
+        message={t('calendarFeeds.revokeMessage')}
+        recordDetails={revoking ? { name: revoking.name } : undefined}
+        confirmText={t('calendarFeeds.revoke')}
+        cancelText={t('common.cancel')}
+        confirmColor="error"
+        onConfirm={() => void handleRevoke()}
+        onCancel={() => setRevoking(null)}
+      />
+    </Box>
+  );
+};
+
+export default CalendarFeedsSettings;
@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { timesheetsApi } from '../../services/api';
+import type { Timesheet } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { getVisibleTimesheets } from '../../utils/getVisibleTimesheets';
+import { formatTenantDate, formatTenantNumber, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+import { getHomeTimezone } from '../../utils/timesheetTimezone';
+import { buildDayCopyDateMap, buildPreviousWeekDateMap, planTimesheetCopy } from './timesheetCopy';
+import type { TimesheetCopyOutcome, TimesheetCopyPlanItem } from './timesheetCopy';
+
+export type CopyTimesheetsMode = 'week' | 'day';
+
+export interface CopyTimesheetsResult {
+  created: number;
+  failed: number;
+}
+
+interface CopyTimesheetsDialogProps {
+  open: boolean;
+  mode: CopyTimesheetsMode;
+  /** First day of the week to copy into (week mode). */
+  targetWeekStart: string | null;
+  /** Pre-selected source day (day mode). */
+  defaultSourceDate: string | null;
+  dailyHourCap: number;
+  tenantContext: TenantContext | null;
+  /** Restricts which loaded entries may be copied (e.g. only the user's own). */
+  canCopyEntry: (timesheet: Timesheet) => boolean;
+  onClose: () => void;
+  onCopied: (result: CopyTimesheetsResult) => void;
+}
+
+type ArrayResponse<T> = { data: T[] };
+
+const toTimesheetArray = (response: unknown): Timesheet[] => {
+  if (Array.isArray(response)) return response as Timesheet[];
+  const data = (response as ArrayResponse<Timesheet> | null | undefined)?.data;
+  return Array.isArray(data) ? data : [];
+};
+
+const planItemKey = (item: TimesheetCopyPlanItem) => `${item.source.id}-${item.draft.date}`;
+
+const toErrorMessage = (error: unknown): string | null => {
+  const data = (error as { response?: { data?: { message?: unknown; error?: unknown } } } | null)?.response?.data;
+  if (typeof data?.message === 'string' && data.message) return data.message;
+  return typeof data?.error === 'string' && data.error ? data.error : null;
+};
+
+const OUTCOME_COLOR: Record<TimesheetCopyOutcome, 'success' | 'default' | 'warning' | 'error'> = {
+  create: 'success',
+  skip_existing: 'default',
+  overlap: 'error',
+  over_cap: 'warning',
+};
+
+const CopyTimesheetsDialog: React.FC<CopyTimesheetsDialogProps> = ({
+  open,
+  mode,
+  targetWeekStart,
+  defaultSourceDate,
+  dailyHourCap,
+  tenantContext,
+  canCopyEntry,
+  onClose,
+  onCopied,
+}) => {
+  const { t } = useTranslation();
+  const datePickerFormat = getTenantDatePickerFormat(tenantContext);
+
+  const [sourceDate, setSourceDate] = useState<string>(dayjs().format('YYYY-MM-DD'));
+  const [targetFrom, setTargetFrom] = useState<string>(dayjs().add(1, 'day').format('YYYY-MM-DD'));
+  const [targetTo, setTargetTo] = useState<string>(dayjs().add(1, 'day').format('YYYY-MM-DD'));
+  const [includeWeekends, setIncludeWeekends] = useState(false);
+  const [plan, setPlan] = useState<TimesheetCopyPlanItem[]>([]);
+  const [loadingPlan, setLoadingPlan] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  // Filled once a copy ran with failures: the dialog stays open so each failed row shows why.
+  const [copyResult, setCopyResult] = useState<CopyTimesheetsResult | null>(null);
+  const [failures, setFailures] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    if (!open || mode !== 'day') return;
+    const source = dayjs(defaultSourceDate ?? undefined);
+    setSourceDate(source.format('YYYY-MM-DD'));
+    setTargetFrom(source.add(1, 'day').format('YYYY-MM-DD'));
+    setTargetTo(source.add(1, 'day').format('YYYY-MM-DD'));
+  }, [open, mode, defaultSourceDate]);
+
+  const dateMap = useMemo(() => {
+    if (mode === 'week') {
+      return targetWeekStart ? buildPreviousWeekDateMap(targetWeekStart) : [];
+    }
+    if (dayjs(targetTo).isBefore(dayjs(targetFrom))) return [];
+    return buildDayCopyDateMap(sourceDate, targetFrom, targetTo, includeWeekends);
+  }, [mode, targetWeekStart, sourceDate, targetFrom, targetTo, includeWeekends]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (dateMap.length === 0) {
+      setPlan([]);
+      return;
+    }
+
+    let cancelled = false;
+    setCopyResult(null);
+    setFailures({});
+    const allDates = dateMap.flatMap(({ from, to }) => [from, to]).sort();
+
+    const loadPlan = async () => {
+      setLoadingPlan(true);
+      setLoadError(null);
+      try {
+        // One day either side: overnight entries there spill into the target days
+        const response: unknown = await timesheetsApi.getAll({
+          start_date: dayjs(allDates[0]).subtract(1, 'day').format('YYYY-MM-DD'),
+          end_date: dayjs(allDates[allDates.length - 1]).add(1, 'day').format('YYYY-MM-DD'),
+        });
+        if (cancelled) return;
+
+        const loaded = getVisibleTimesheets(toTimesheetArray(response));
+        const sourceDates = new Set(dateMap.map(({ from }) => from));
+        const nearTargetDates = new Set(
+          dateMap.flatMap(({ to }) => [-1, 0, 1].map((offset) => dayjs(to).add(offset, 'day').format('YYYY-MM-DD')))
+        );
+        const dayOf = (entry: Timesheet) => dayjs(entry.date).format('YYYY-MM-DD');
+
+        setPlan(
+          planTimesheetCopy({
+            sourceEntries: loaded.filter((entry) => sourceDates.has(dayOf(entry)) && canCopyEntry(entry)),
+            dateMap,
+            existingEntries: loaded.filter((entry) => nearTargetDates.has(dayOf(entry))),
+            dailyHourCap,
+            homeTimezone: getHomeTimezone(tenantContext),
+          })
+        );
+      } catch (error) {
+        console.error('Error loading entries to copy:', error);
+        if (!cancelled) {
+          setPlan([]);
+          setLoadError(t('timesheets.copy.loadFailed'));
+        }
+      } finally {
+        if (!cancelled) setLoadingPlan(false);
+      }
+    };
+
+    void loadPlan();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, dateMap, dailyHourCap, canCopyEntry, tenantContext, t]);
+
+  const toCreate = plan.filter((item) => item.outcome === 'create');
+
+  const handleConfirm = async () => {
+    setCreating(true);
+    let created = 0;
+    const failed: Record<string, string | null> = {};
+
+    // Sequential on purpose: the API checks overlaps against entries saved a moment earlier. A
+    // rejected entry does not stop the others.
+    for (const item of toCreate) {
+      try {
+        await timesheetsApi.create(item.draft);
+        created += 1;
+      } catch (error) {
+        console.error('Error copying timesheet entry:', error);
+        failed[planItemKey(item)] = toErrorMessage(error);
+      }
+    }
+
+    setCreating(false);
+    const result = { created, failed: Object.keys(failed).length };
+    if (result.failed === 0) {
+      onCopied(result);
+      return;
+    }
+    setFailures(failed);
+    setCopyResult(result);
+  };
+
+  const handleClose = () => {
+    if (copyResult) {
+      onCopied(copyResult);
+    } else {
+      onClose();
+    }
+  };
+
+  const renderResult = (item: TimesheetCopyPlanItem) => {
+    const key = planItemKey(item);
+    if (copyResult && item.outcome === 'create') {
+      const failed = key in failures;
+      const chip = (
+        <Chip
+          size="small"
+          color={failed ? 'error' : 'success'}
+          variant="filled"
+          label={t(failed ? 'timesheets.copy.outcome.failed' : 'timesheets.copy.outcome.copied')}
+        />
+      );
+      return failed && failures[key] ? <Tooltip title={failures[key]}>{chip}</Tooltip> : chip;
+    }
+    return (
+      <Chip
+        size="small"
+        color={OUTCOME_COLOR[item.outcome]}
+        variant={item.outcome === 'create' ? 'filled' : 'outlined'}
+        label={t(`timesheets.copy.outcome.${item.outcome}`, { cap: dailyHourCap })}
+      />
+    );
+  };
+
+  const renderDatePicker = (label: string, value: string, onChange: (value: string) => void) => (
+    <DatePicker
+      label={label}
+      value={dayjs(value)}
+      onChange={(val) => val && val.isValid() && onChange(val.format('YYYY-MM-DD'))}
+      format={datePickerFormat}
+      slotProps={{ textField: { size: 'small' } }}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={creating ? undefined : handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{mode === 'week' ? t('timesheets.copy.weekTitle') : t('timesheets.copy.dayTitle')}</DialogTitle>
+      <DialogContent dividers>
+        {mode === 'week' ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {targetWeekStart
+              ? t('timesheets.copy.weekIntro', {
+                  from: formatTenantDate(dayjs(targetWeekStart).subtract(7, 'day').format('YYYY-MM-DD'), tenantContext),
+                  to: formatTenantDate(targetWeekStart, tenantContext),
+                })
+              : t('timesheets.copy.weekViewRequired')}
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center', mb: 2 }}>
+            {renderDatePicker(t('timesheets.copy.sourceDay'), sourceDate, setSourceDate)}
+            {renderDatePicker(t('timesheets.copy.targetFrom'), targetFrom, setTargetFrom)}
+            {renderDatePicker(t('timesheets.copy.targetTo'), targetTo, setTargetTo)}
+            <FormControlLabel
+              control={<Checkbox checked={includeWeekends} onChange={(e) => setIncludeWeekends(e.target.checked)} />}
+              label={t('timesheets.copy.includeWeekends')}
+            />
+          </Box>
+        )}
+
+        {copyResult && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('timesheets.copy.toast.partial', { created: copyResult.created, failed: copyResult.failed })}
+          </Alert>
+        )}
+
+        {loadError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {loadError}
+          </Alert>
+        )}
+
+        {loadingPlan ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : plan.length === 0 ? (
+          !loadError && (
+            <Typography variant="body2" color="text.secondary">
+              {t('timesheets.copy.nothingToCopy')}
+            </Typography>
+          )
+        ) : (
+          <>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              {t('timesheets.copy.summary', { create: toCreate.length, skipped: plan.length - toCreate.length })}
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('timesheets.copy.columns.from')}</TableCell>
+                  <TableCell>{t('timesheets.copy.columns.to')}</TableCell>
+                  <TableCell>{t('timesheets.copy.columns.time')}</TableCell>
+                  <TableCell>{t('timesheets.copy.columns.project')}</TableCell>
+                  <TableCell align="right">{t('timesheets.copy.columns.hours')}</TableCell>
+                  <TableCell>{t('timesheets.copy.columns.result')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {plan.map((item) => (
+                  <TableRow
+                    key={planItemKey(item)}
+                    sx={{ opacity: item.outcome === 'create' ? 1 : 0.6 }}
+                  >
+                    <TableCell>{formatTenantDate(dayjs(item.source.date).format('YYYY-MM-DD'), tenantContext)}</TableCell>
+                    <TableCell>{formatTenantDate(item.draft.date, tenantContext)}</TableCell>
+                    <TableCell>
+                      {item.draft.start_time && item.draft.end_time
+                        ? `${item.draft.start_time}–${item.draft.end_time}`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {item.source.project?.name ?? t('timesheets.labels.projectFallback')}
+                      {item.source.task?.name ? ` · ${item.source.task.name}` : ''}
+                    </TableCell>
+                    <TableCell align="right">{formatTenantNumber(item.draft.hours_worked, tenantContext, 2)}</TableCell>
+                    <TableCell>{renderResult(item)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={creating}>
+          {copyResult ? t('common.close') : t('common.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => void handleConfirm()}
+          disabled={creating || loadingPlan || copyResult !== null || toCreate.length === 0}
+          startIcon={creating ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {t('timesheets.copy.confirm', { count: toCreate.length })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CopyTimesheetsDialog;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Alert, AlertTitle, Box, Button, Chip, Typography } from '@mui/material';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import SyncIcon from '@mui/icons-material/Sync';
+import { useTranslation } from 'react-i18next';
+import type { Project } from '../../types';
+import type { OfflineTimesheetMutation } from '../../services/offlineTimesheetQueue';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate } from '../../utils/tenantFormatting';
+
+interface OfflineSyncPanelProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pending: OfflineTimesheetMutation[];
+  conflicts: OfflineTimesheetMutation[];
+  projects: Project[];
+  tenantContext: TenantContext | null;
+  onSyncNow: () => void;
+  onEdit: (mutation: OfflineTimesheetMutation) => void;
+  onRetry: (mutation: OfflineTimesheetMutation) => void;
+  onDiscard: (mutation: OfflineTimesheetMutation) => void;
+}
+
+const OfflineSyncPanel: React.FC<OfflineSyncPanelProps> = ({
+  isOnline,
+  isSyncing,
+  pending,
+  conflicts,
+  projects,
+  tenantContext,
+  onSyncNow,
+  onEdit,
+  onRetry,
+  onDiscard,
+}) => {
+  const { t } = useTranslation();
+
+  if (isOnline && pending.length === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  const describeEntry = (mutation: OfflineTimesheetMutation): string => {
+    const project = projects.find((p) => p.id === Number(mutation.payload.project_id));
+    const parts = [
+      mutation.payload.date ? formatTenantDate(mutation.payload.date, tenantContext) : null,
+      mutation.payload.start_time && mutation.payload.end_time
+        ? `${mutation.payload.start_time}–${mutation.payload.end_time}`
+        : null,
+      project?.name ?? null,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(' · ') : t('timesheets.offline.entryFallback', { id: mutation.timesheetId });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75, mb: 0.5 }}>
+      {(!isOnline || pending.length > 0) && (
+        <Alert
+          severity={isOnline ? 'info' : 'warning'}
+          icon={isOnline ? <SyncIcon fontSize="inherit" /> : <CloudOffIcon fontSize="inherit" />}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              onClick={onSyncNow}
+              disabled={!isOnline || isSyncing || pending.length === 0}
+              sx={{ textTransform: 'none' }}
+            >
+              {isSyncing ? t('timesheets.offline.syncing') : t('timesheets.offline.syncNow')}
+            </Button>
+          }
+        >
+          {isOnline
+            ? t('timesheets.offline.pending', { count: pending.length })
+            : t('timesheets.offline.offlinePending', { count: pending.length })}
+        </Alert>
+      )}
+
+      {conflicts.map((mutation) => {
+        const savedOnServer = Boolean(mutation.syncedTimesheetId);
+        const warnings = mutation.validation?.warnings ?? [];
+
+        return (
+          <Alert
+            key={mutation.id}
+            severity={mutation.status === 'failed' ? 'error' : 'warning'}
+            action={
+              <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
+                {mutation.kind !== 'delete' && (
+                  <Button color="inherit" size="small" onClick={() => onEdit(mutation)} sx={{ textTransform: 'none' }}>
+                    {savedOnServer ? t('timesheets.offline.actions.open') : t('timesheets.offline.actions.edit')}
+                  </Button>
+                )}
+                {!savedOnServer && (
+                  <Button
+                    color="inherit"
+                    size="small"
+                    onClick={() => onRetry(mutation)}
+                    disabled={!isOnline}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    {t('timesheets.offline.actions.retry')}
+                  </Button>
+                )}
+                <Button color="inherit" size="small" onClick={() => onDiscard(mutation)} sx={{ textTransform: 'none' }}>
+                  {savedOnServer ? t('timesheets.offline.actions.dismiss') : t('timesheets.offline.actions.discard')}
+                </Button>
+              </Box>
+            }
+          >
+            <AlertTitle sx={{ mb: 0.25 }}>
+              {t(`timesheets.offline.kind.${mutation.kind}`)} · {describeEntry(mutation)}
+            </AlertTitle>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 0.5 }}>
+              {(mutation.conflicts ?? []).map((conflict) => (
+                <Chip key={conflict} size="small" label={t(`timesheets.offline.conflicts.${conflict}`)} />
+              ))}
+            </Box>
+            {savedOnServer && (
+              <Typography variant="body2">{t('timesheets.offline.savedNeedsReview')}</Typography>
+            )}
+            {mutation.error && !warnings.includes(mutation.error) && (
+              <Typography variant="body2">{mutation.error}</Typography>
+            )}
+            {warnings.map((warning) => (
+              <Typography key={warning} variant="body2">
+                {warning}
+              </Typography>
+            ))}
+          </Alert>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default OfflineSyncPanel;
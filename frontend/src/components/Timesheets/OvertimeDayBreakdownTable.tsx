@@ -0,0 +1,95 @@
+import React from 'react';
+import { Chip, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { TenantContext } from '../../types/tenant';
+import type { OvertimeDayBreakdown } from '../../utils/overtimePolicy';
+import { formatTenantDate, formatTenantNumber } from '../../utils/tenantFormatting';
+
+interface OvertimeDayBreakdownTableProps {
+  days: OvertimeDayBreakdown[];
+  tenantContext: TenantContext | null;
+  /** Technician names by id; the technician column is shown when provided. */
+  technicianNames?: Map<number, string>;
+  emptyLabel?: string;
+}
+
+const OvertimeDayBreakdownTable: React.FC<OvertimeDayBreakdownTableProps> = ({
+  days,
+  tenantContext,
+  technicianNames,
+  emptyLabel,
+}) => {
+  const { t } = useTranslation();
+  const hours = (value: number) => formatTenantNumber(value, tenantContext, 2);
+
+  if (days.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {emptyLabel ?? t('timesheets.overtime.empty')}
+      </Typography>
+    );
+  }
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>{t('timesheets.overtime.columns.date')}</TableCell>
+          {technicianNames && <TableCell>{t('timesheets.overtime.columns.technician')}</TableCell>}
+          <TableCell align="right">{t('timesheets.overtime.columns.total')}</TableCell>
+          <TableCell align="right">{t('timesheets.overtime.columns.regular')}</TableCell>
+          <TableCell align="right">{t('timesheets.overtime.columns.ot15')}</TableCell>
+          <TableCell align="right">{t('timesheets.overtime.columns.ot20')}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {days.map((day) => {
+          const hasOvertime = day.overtime_hours_1_5 > 0 || day.overtime_hours_2_0 > 0;
+          return (
+            <TableRow key={`${day.technician_id}-${day.date}`} sx={hasOvertime ? { bgcolor: 'rgba(237, 108, 2, 0.06)' } : undefined}>
+              <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                {formatTenantDate(day.date, tenantContext)}
+                {day.seventh_day && (
+                  <Chip
+                    label={t('timesheets.overtime.seventhDay')}
+                    size="small"
+                    color="warning"
+                    variant="outlined"
+                    sx={{ ml: 0.75, height: 18, fontSize: '0.65rem' }}
+                  />
+                )}
+                {day.holiday && (
+                  <Chip
+                    label={t('timesheets.overtime.holiday')}
+                    size="small"
+                    color="info"
+                    variant="outlined"
+                    sx={{ ml: 0.75, height: 18, fontSize: '0.65rem' }}
+                  />
+                )}
+              </TableCell>
+              {technicianNames && (
+                <TableCell>
+                  {technicianNames.get(day.technician_id) ?? t('common.notAvailable')}
+                </TableCell>
+              )}
+              <TableCell align="right">{hours(day.total_hours)}</TableCell>
+              <TableCell align="right">{hours(day.regular_hours)}</TableCell>
+              <TableCell align="right" sx={day.overtime_hours_1_5 > 0 ? { fontWeight: 600 } : undefined}>
+                {hours(day.overtime_hours_1_5)}
+              </TableCell>
+              <TableCell
+                align="right"
+                sx={day.overtime_hours_2_0 > 0 ? { fontWeight: 600, color: 'error.main' } : undefined}
+              >
+                {hours(day.overtime_hours_2_0)}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default OvertimeDayBreakdownTable;
@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Box, Button, Typography } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+
+interface SignaturePadProps {
+  /** JPEG data URL of the drawing, or null while the pad is empty. */
+  onChange: (signature: string | null) => void;
+  disabled?: boolean;
+  height?: number;
+}
+
+const STROKE_COLOR = '#0d1b2a';
+
+/**
+ * Drawing surface for a handwritten signature (finger, pen or mouse). Exported as a JPEG on a
+ * white background, the only image format the PDF service report embeds.
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled = false, height = 180 }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const hasInkRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const resetCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.round(canvas.clientWidth * ratio));
+    canvas.height = Math.max(1, Math.round(height * ratio));
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.lineWidth = 2.2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = STROKE_COLOR;
+    hasInkRef.current = false;
+  }, [height]);
+
+  useEffect(() => {
+    resetCanvas();
+  }, [resetCanvas]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+
+    // A tap leaves a dot
+    const point = getPoint(event);
+    const context = event.currentTarget.getContext('2d');
+    if (context) {
+      context.beginPath();
+      context.arc(point.x, point.y, context.lineWidth / 2, 0, Math.PI * 2);
+      context.fillStyle = STROKE_COLOR;
+      context.fill();
+    }
+    lastPointRef.current = point;
+    hasInkRef.current = true;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    const last = lastPointRef.current;
+    const point = getPoint(event);
+    if (context && last) {
+      context.beginPath();
+      context.moveTo(last.x, last.y);
+      context.lineTo(point.x, point.y);
+      context.stroke();
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    const canvas = canvasRef.current;
+    if (canvas && hasInkRef.current) {
+      onChange(canvas.toDataURL('image/jpeg', 0.85));
+    }
+  };
+
+  const handleClear = () => {
+    resetCanvas();
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        aria-label={t('timesheets.signoff.signatureArea')}
+        sx={{
+          display: 'block',
+          width: '100%',
+          height,
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          bgcolor: '#ffffff',
+          // Keep the page from scrolling while signing on a touch screen
+          touchAction: 'none',
+          cursor: disabled ? 'not-allowed' : 'crosshair',
+        }}
+      />
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">
+          {t('timesheets.signoff.signatureHint')}
+        </Typography>
+        <Button size="small" onClick={handleClear} disabled={disabled} sx={{ textTransform: 'none' }}>
+          {t('timesheets.signoff.clearSignature')}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SignaturePad;
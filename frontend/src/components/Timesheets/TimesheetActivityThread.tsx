@@ -0,0 +1,223 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import ForumIcon from '@mui/icons-material/Forum';
+import SendIcon from '@mui/icons-material/Send';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { useTranslation } from 'react-i18next';
+import { timesheetsApi } from '../../services/api';
+import type { Timesheet, TimesheetActivity, TimesheetCommentKind } from '../../types';
+import { useAuth } from '../Auth/AuthContext';
+import { useNotification } from '../../contexts/NotificationContext';
+import { formatTenantDateTime } from '../../utils/tenantFormatting';
+import { buildTimesheetThread } from './timesheetThread';
+
+interface TimesheetActivityThreadProps {
+  timesheetId: number | null;
+  /** Hides the reply box (read-only tenants, offline mode). */
+  disabled?: boolean;
+  /** Bump to reload after the entry's status changed elsewhere. */
+  refreshKey?: unknown;
+}
+
+const KIND_COLORS: Record<Exclude<TimesheetCommentKind, 'comment'>, 'error' | 'info'> = {
+  rejection: 'error',
+  resubmission: 'info',
+};
+
+const TimesheetActivityThread: React.FC<TimesheetActivityThreadProps> = ({
+  timesheetId,
+  disabled = false,
+  refreshKey,
+}) => {
+  const { t } = useTranslation();
+  const { user, tenantContext } = useAuth();
+  const { showError } = useNotification();
+  const [activity, setActivity] = useState<TimesheetActivity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const loadActivity = useCallback(async () => {
+    if (!timesheetId) {
+      setActivity(null);
+      return;
+    }
+    setLoading(true);
+    setLoadFailed(false);
+    try {
+      setActivity(await timesheetsApi.getActivity(timesheetId));
+    } catch (error) {
+      console.error('Failed to load timesheet activity:', error);
+      setLoadFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [timesheetId]);
+
+  useEffect(() => {
+    setDraft('');
+    void loadActivity();
+  }, [loadActivity, refreshKey]);
+
+  const thread = useMemo(() => buildTimesheetThread(activity), [activity]);
+
+  const statusLabel = (status: Timesheet['status'] | null) =>
+    status ? t(`timesheets.status.${status}`, { defaultValue: status }) : '';
+
+  const handlePost = async () => {
+    const body = draft.trim();
+    if (!timesheetId || !body) return;
+    setPosting(true);
+    try {
+      const comment = await timesheetsApi.addComment(timesheetId, body);
+      setActivity((prev) => (prev ? { ...prev, comments: [...prev.comments, comment] } : prev));
+      setDraft('');
+    } catch (error) {
+      console.error('Failed to post timesheet comment:', error);
+      showError(t('timesheets.thread.postFailed'));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (!timesheetId) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 2, borderRadius: 1.5 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1.5, display: 'flex', alignItems: 'center', gap: 1, fontWeight: 600 }}>
+        <ForumIcon color="primary" fontSize="small" />
+        {t('timesheets.thread.title')}
+      </Typography>
+
+      {loading && !activity && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+          <CircularProgress size={20} />
+        </Box>
+      )}
+
+      {loadFailed && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {t('timesheets.thread.loadFailed')}
+        </Alert>
+      )}
+
+      {activity && thread.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          {t('timesheets.thread.empty')}
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, maxHeight: 260, overflowY: 'auto' }}>
+        {thread.map((item) => {
+          const when = item.createdAt ? formatTenantDateTime(item.createdAt, tenantContext) : '';
+
+          if (item.type === 'status') {
+            const { change } = item;
+            return (
+              <Box key={item.key} sx={{ display: 'flex', alignItems: 'center', gap: 0.75, color: 'text.secondary' }}>
+                <SwapHorizIcon sx={{ fontSize: 16 }} />
+                <Typography variant="caption">
+                  {change.from_status
+                    ? t('timesheets.thread.statusChanged', {
+                        from: statusLabel(change.from_status),
+                        to: statusLabel(change.to_status),
+                      })
+                    : t('timesheets.thread.created', { status: statusLabel(change.to_status) })}
+                  {' · '}
+                  {change.changed_by && change.on_behalf_of
+                    ? t('timesheets.thread.onBehalfOf', { name: change.changed_by.name, manager: change.on_behalf_of.name })
+                    : change.changed_by?.name ?? t('timesheets.thread.system')}
+                  {when && ` · ${when}`}
+                </Typography>
+              </Box>
+            );
+          }
+
+          const { comment } = item;
+          const own = comment.user?.id === user?.id;
+          return (
+            <Box
+              key={item.key}
+              sx={{
+                alignSelf: own ? 'flex-end' : 'flex-start',
+                maxWidth: '85%',
+                bgcolor: own ? 'rgba(102, 126, 234, 0.08)' : 'grey.100',
+                border: 1,
+                borderColor: comment.kind === 'rejection' ? 'error.light' : 'divider',
+                borderRadius: 1.5,
+                px: 1.25,
+                py: 0.75,
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, mb: 0.25 }}>
+                <Typography variant="caption" fontWeight={600}>
+                  {comment.user?.name ?? t('timesheets.thread.system')}
+                </Typography>
+                {comment.kind !== 'comment' && (
+                  <Chip
+                    label={t(`timesheets.thread.kinds.${comment.kind}`)}
+                    size="small"
+                    color={KIND_COLORS[comment.kind]}
+                    variant="outlined"
+                    sx={{ height: 18, fontSize: '0.65rem' }}
+                  />
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {when}
+                </Typography>
+              </Box>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                {comment.body}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Box>
+
+      {!disabled && activity && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 1.5, alignItems: 'flex-start' }}>
+          <TextField
+            fullWidth
+            multiline
+            maxRows={4}
+            size="small"
+            placeholder={t('timesheets.thread.placeholder')}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                void handlePost();
+              }
+            }}
+            inputProps={{ maxLength: 2000 }}
+          />
+          <Button
+            variant="contained"
+            size="small"
+            onClick={() => void handlePost()}
+            disabled={posting || !draft.trim()}
+            startIcon={<SendIcon fontSize="small" />}
+            sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+          >
+            {t('timesheets.thread.send')}
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default TimesheetActivityThread;
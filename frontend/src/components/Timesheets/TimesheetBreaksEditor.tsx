@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Alert, Box, Button, Chip, IconButton, Tooltip, Typography } from '@mui/material';
+import { TimePicker } from '@mui/x-date-pickers/TimePicker';
+import { Add as AddIcon, Delete as DeleteIcon, FreeBreakfast as BreakIcon } from '@mui/icons-material';
+import dayjs, { Dayjs } from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import type { TimesheetBreak } from '../../types';
+import { useAuth } from '../Auth/AuthContext';
+import { getTenantHourCycle, getTenantTimeFormat } from '../../utils/tenantFormatting';
+import {
+  DEFAULT_BREAK_RULE,
+  MAX_BREAKS_PER_ENTRY,
+  getBreakMinutes,
+  isBlockingBreakIssue,
+  suggestBreak,
+  validateBreaks,
+} from './timesheetBreaks';
+
+interface TimesheetBreaksEditorProps {
+  breaks: TimesheetBreak[];
+  onChange: (breaks: TimesheetBreak[]) => void;
+  /** Entry start/end (HH:mm); breaks can only be added once both are set. */
+  startTime: string | null;
+  endTime: string | null;
+  disabled?: boolean;
+}
+
+const toDayjs = (time: string): Dayjs | null => {
+  const parsed = dayjs(`2000-01-01 ${time}`);
+  return parsed.isValid() ? parsed : null;
+};
+
+const TimesheetBreaksEditor: React.FC<TimesheetBreaksEditorProps> = ({
+  breaks,
+  onChange,
+  startTime,
+  endTime,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const { tenantContext } = useAuth();
+  const rule = tenantContext?.break_rule ?? DEFAULT_BREAK_RULE;
+  const ampm = getTenantHourCycle(tenantContext) === 12;
+  const timeFormat = getTenantTimeFormat(tenantContext);
+
+  const issue = useMemo(() => validateBreaks(startTime, endTime, breaks, rule), [startTime, endTime, breaks, rule]);
+  const breakMinutes = getBreakMinutes(breaks, startTime, endTime);
+  const suggestion = suggestBreak(startTime, endTime, breaks, rule);
+
+  const updateBreak = (index: number, field: keyof TimesheetBreak, value: Dayjs | null) => {
+    if (!value || !value.isValid()) return;
+    onChange(breaks.map((item, i) => (i === index ? { ...item, [field]: value.format('HH:mm') } : item)));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.75, fontWeight: 600 }}>
+          <BreakIcon fontSize="small" color="action" />
+          {t('timesheets.breaks.title')}
+          {breakMinutes > 0 && (
+            <Chip
+              size="small"
+              variant="outlined"
+              label={t('timesheets.breaks.total', { minutes: breakMinutes })}
+              sx={{ height: 20, fontSize: '0.7rem' }}
+            />
+          )}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          disabled={disabled || !suggestion || breaks.length >= MAX_BREAKS_PER_ENTRY}
+          onClick={() => suggestion && onChange([...breaks, suggestion])}
+        >
+          {t('timesheets.breaks.add')}
+        </Button>
+      </Box>
+
+      {breaks.length === 0 && (
+        <Typography variant="caption" color="text.secondary">
+          {t('timesheets.breaks.none')}
+        </Typography>
+      )}
+
+      {breaks.map((item, index) => (
+        <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <TimePicker
+            label={t('timesheets.breaks.start')}
+            value={toDayjs(item.start_time)}
+            onChange={(value) => updateBreak(index, 'start_time', value)}
+            ampm={ampm}
+            format={timeFormat}
+            minutesStep={5}
+            disabled={disabled}
+            slotProps={{ textField: { size: 'small', fullWidth: true } }}
+          />
+          <TimePicker
+            label={t('timesheets.breaks.end')}
+            value={toDayjs(item.end_time)}
+            onChange={(value) => updateBreak(index, 'end_time', value)}
+            ampm={ampm}
+            format={timeFormat}
+            minutesStep={5}
+            disabled={disabled}
+            slotProps={{ textField: { size: 'small', fullWidth: true } }}
+          />
+          <Tooltip title={t('timesheets.breaks.remove')}>
+            <span>
+              <IconButton
+                size="small"
+                disabled={disabled}
+                aria-label={t('timesheets.breaks.remove')}
+                onClick={() => onChange(breaks.filter((_, i) => i !== index))}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      ))}
+
+      {issue && (
+        <Alert severity={isBlockingBreakIssue(issue, rule) ? 'error' : 'warning'} sx={{ mt: 1, py: 0 }}>
+          {t(`timesheets.breaks.issues.${issue}`, {
+            minutes: rule.min_minutes,
+            hours: rule.required_after_hours,
+          })}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default TimesheetBreaksEditor;
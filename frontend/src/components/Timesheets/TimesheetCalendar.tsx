@@ -6,9 +6,23 @@ import listPlugin from '@fullcalendar/list';
 import interactionPlugin from '@fullcalendar/interaction';
 import enGbLocale from '@fullcalendar/core/locales/en-gb';
 import ptLocale from '@fullcalendar/core/locales/pt';
-import { timesheetsApi, projectsApi, tasksApi, locationsApi, techniciansApi } from '../../services/api';
+import { absencesApi, publicHolidaysApi, timesheetsApi, timesheetWeeksApi, projectsApi, tasksApi, locationsApi, techniciansApi } from '../../services/api';
 import { travelsApi } from '../../services/travels';
-import type { Project, Timesheet, Task, Location, Technician, ProjectMember } from '../../types';
+import type {
+  Absence,
+  PublicHoliday,
+  Project,
+  Timesheet,
+  TimesheetBreak,
+  TimesheetFormData,
+  TimesheetSignoff,
+  Task,
+  Location,
+  Technician,
+  ProjectMember,
+  TimesheetWeekIssue,
+  TimesheetWeekStatus,
+} from '../../types';
 import type { TravelSegment } from '../../services/travels';
 import { useAuth } from '../Auth/AuthContext';
 import { useNotification } from '../../contexts/NotificationContext';
@@ -28,8 +42,61 @@ import {
 } from '../../utils/tenantFormatting';
 import { getPolicyAlertModel } from '../../utils/policyAlert';
 import { computeCaDailyOt2Candidates } from '../../utils/computeCaDailyOt2Candidates';
+import { computeOvertimeBreakdown, resolveOvertimePolicyKey } from '../../utils/overtimePolicy';
 import { getVisibleTimesheets } from '../../utils/getVisibleTimesheets';
+import { getShiftWindow, isOvernightShift, splitHoursByDay } from '../../utils/timesheetShift';
+import {
+  getDisplayedEntryRange,
+  getEntryTimezone,
+  getHomeTimezone,
+  getTimezoneLabel,
+  isValidTimezone,
+} from '../../utils/timesheetTimezone';
+import type { TimesheetTimeDisplay } from '../../utils/timesheetTimezone';
 import { applyTimesheetUiFilters } from './timesheetUiFilters';
+import { applyOfflineMutations } from './offlineTimesheets';
+import { buildTimesheetTimeChange, isTimesheetLocked } from './timesheetEventDrag';
+import {
+  EMPTY_HISTORY,
+  dropAction,
+  getHistoryShortcut,
+  getHistoryStep,
+  getStepBlocker,
+  isUndoableAction,
+  peekAction,
+  recordAction,
+  remapEntryId,
+  shiftAction,
+} from './timesheetHistory';
+import type { TimesheetHistory, TimesheetHistoryAction, TimesheetHistoryDirection } from './timesheetHistory';
+import OfflineSyncPanel from './OfflineSyncPanel';
+import CopyTimesheetsDialog from './CopyTimesheetsDialog';
+import WeekSubmissionBanner from './WeekSubmissionBanner';
+import TimesheetActivityThread from './TimesheetActivityThread';
+import TimesheetWeekGrid from './TimesheetWeekGrid';
+import OvertimeDayBreakdownTable from './OvertimeDayBreakdownTable';
+import TimesheetBreaksEditor from './TimesheetBreaksEditor';
+import AbsenceRequestDialog from './AbsenceRequestDialog';
+import TimesheetSignoffDialog from './TimesheetSignoffDialog';
+import TimesheetImportDialog from './TimesheetImportDialog';
+import TimesheetQuickPicks from './TimesheetQuickPicks';
+import type { QuickPickValues } from './timesheetTemplates';
+import { findAbsenceConflict, findAbsenceType, getAbsenceEventRange, getAbsenceTypes } from './timesheetAbsences';
+import { buildHolidayLookup, getCalendarHolidays } from './timesheetHolidays';
+import {
+  DEFAULT_BREAK_RULE,
+  computeWorkedHours,
+  getBreakGapSegments,
+  isBlockingBreakIssue,
+  normalizeBreaks,
+  validateBreaks,
+} from './timesheetBreaks';
+import { getWeekGridDates } from './weekGrid';
+import { findTimesheetWeekIssues, isDateInTimesheetWeek, isSignedOffError, isWeekLockedError } from './timesheetWeek';
+import type { CopyTimesheetsMode, CopyTimesheetsResult } from './CopyTimesheetsDialog';
+import { useOfflineTimesheetQueue } from '../../hooks/useOfflineTimesheetQueue';
+import { isNetworkError } from '../../services/offlineTimesheetQueue';
+import type { OfflineTimesheetMutation } from '../../services/offlineTimesheetQueue';
 import { weekStartToFirstDay } from '../../utils/weekStartToFirstDay';
 import { useRightPanel } from '../RightPanel/useRightPanel';
 import { useRegisterRightPanelTab } from '../RightPanel/useRegisterRightPanelTab';
@@ -77,7 +144,15 @@ import {
   Close as CloseIcon,
   Save as SaveIcon,
   Edit as EditIcon,
-  Add as AddIcon
+  Add as AddIcon,
+  ContentCopy as CopyIcon,
+  CalendarViewWeek as CalendarLayoutIcon,
+  GridOn as GridLayoutIcon,
+  EventBusy as AbsenceIcon,
+  Draw as SignoffIcon,
+  UploadFile as ImportIcon,
+  Undo as UndoIcon,
+  Redo as RedoIcon
 } from '@mui/icons-material';
 import SmartToyIcon from '@mui/icons-material/SmartToy';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
@@ -93,6 +168,7 @@ import type {
   DayCellContentArg,
   DayCellMountArg,
   DatesSetArg,
+  EventChangeArg,
   EventClickArg,
   EventInput,
   EventMountArg,
@@ -196,6 +272,16 @@ const TimesheetCalendar: React.FC = () => {
   const timePickerFormat = useMemo(() => getTenantTimeFormat(tenantContext), [tenantContext]);
 
   const policyAlert = useMemo(() => getPolicyAlertModel(tenantContext), [tenantContext]);
+  const homeTimezone = useMemo(() => getHomeTimezone(tenantContext), [tenantContext]);
+  // Site time shows entries as recorded at their location; home time converts them to the tenant timezone
+  const [timeDisplay, setTimeDisplay] = useState<TimesheetTimeDisplay>(() =>
+    localStorage.getItem('timesheet_time_display') === 'home' ? 'home' : 'site'
+  );
+  const handleTimeDisplayChange = (_event: React.MouseEvent<HTMLElement>, value: TimesheetTimeDisplay | null) => {
+    if (!value) return;
+    setTimeDisplay(value);
+    localStorage.setItem('timesheet_time_display', value);
+  };
 
   const sourceWeekStart = tenantContext?.week_start ?? tenant?.week_start;
   const weekFirstDay = useMemo(() => weekStartToFirstDay(sourceWeekStart), [sourceWeekStart]);
@@ -247,7 +333,20 @@ const TimesheetCalendar: React.FC = () => {
   const [selectedEntry, setSelectedEntry] = useState<Timesheet | null>(null);
   const [currentCalendarViewType, setCurrentCalendarViewType] = useState<string>('dayGridMonth');
   const [currentWeekStartDate, setCurrentWeekStartDate] = useState<string | null>(null);
+  // Week view can be shown as the calendar or as a keyboard-driven hours grid.
+  const [weekLayout, setWeekLayout] = useState<'calendar' | 'grid'>('calendar');
   const [visibleMonths, setVisibleMonths] = useState<string[]>([dayjs().format('YYYY-MM')]);
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [publicHolidays, setPublicHolidays] = useState<PublicHoliday[]>([]);
+  const [absenceDialog, setAbsenceDialog] = useState<{ open: boolean; absence: Absence | null; date: string | null }>({
+    open: false,
+    absence: null,
+    date: null,
+  });
+  const [signoffDialog, setSignoffDialog] = useState<{ open: boolean; date: string | null }>({ open: false, date: null });
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [history, setHistory] = useState<TimesheetHistory>(EMPTY_HISTORY);
+  const [historyBusy, setHistoryBusy] = useState(false);
 
   const isTenantDrivenFirstDayView =
     currentCalendarViewType === 'timeGridWeek' ||
@@ -283,6 +382,9 @@ const TimesheetCalendar: React.FC = () => {
     overtime_hours: number;
     overtime_rate: number;
     overtime_hours_2_0: number;
+    holiday_hours?: number;
+    expected_hours?: number | null;
+    holidays?: Array<{ date: string; name: string }>;
     workweek_start: string | null;
     policy_key?: 'US-CA' | 'US-NY' | 'US-FLSA' | 'NON-US' | string;
   } | null>(null);
@@ -309,6 +411,12 @@ const TimesheetCalendar: React.FC = () => {
     action: () => void | Promise<void>;
   };
 
+  const [copyDialogMode, setCopyDialogMode] = useState<CopyTimesheetsMode | null>(null);
+
+  // Week-based submission for the current user's own week
+  const [weekStatus, setWeekStatus] = useState<TimesheetWeekStatus | null>(null);
+  const [weekIssues, setWeekIssues] = useState<TimesheetWeekIssue[]>([]);
+  const [weekSubmitting, setWeekSubmitting] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>({
     open: false,
     title: '',
@@ -318,7 +426,7 @@ const TimesheetCalendar: React.FC = () => {
   });
   
   // Global notification hook
-  const { showSuccess, showError, showWarning } = useNotification();
+  const { showSuccess, showError, showWarning, showInfo } = useNotification();
 
   const { isReadOnly: isReadOnlyMode, warn: showReadOnlyWarning } = useReadOnlyGuard('timesheets');
   
@@ -338,6 +446,8 @@ const TimesheetCalendar: React.FC = () => {
   const [locationId, setLocationId] = useState<string>('');
   const [hoursWorked, setHoursWorked] = useState<number>(0);
   const [description, setDescription] = useState('');
+  const [resubmissionNote, setResubmissionNote] = useState('');
+  const [breaks, setBreaks] = useState<TimesheetBreak[]>([]);
   const [startTimeObj, setStartTimeObj] = useState<Dayjs | null>(dayjs().hour(9).minute(0).second(0));
   const [endTimeObj, setEndTimeObj] = useState<Dayjs | null>(dayjs().hour(10).minute(0).second(0));
   const queryFilters = useMemo<{
@@ -423,7 +533,12 @@ const TimesheetCalendar: React.FC = () => {
   const [aiSuggestionExpanded, setAiSuggestionExpanded] = useState<boolean>(false);
 
   // AI Suggestion Hook
-  const aiSuggestion = useTimesheetAISuggestion();
+  // Local fallback for suggestions: the selected worker's loaded entries
+  const aiHistoryEntries = useMemo(
+    () => timesheets.filter((ts) => typeof selectedTechnicianId === 'number' && ts.technician_id === selectedTechnicianId),
+    [timesheets, selectedTechnicianId]
+  );
+  const aiSuggestion = useTimesheetAISuggestion({ recentEntries: aiHistoryEntries });
 
   // Calculate available technicians based on user role and visibility rules
   const availableTechnicians = useMemo(() => {
@@ -504,9 +619,27 @@ const TimesheetCalendar: React.FC = () => {
     return currentUserTechnician ? [currentUserTechnician] : [];
   }, [technicians, user, userIsManager, userIsAdmin, timesheetScope, projectId, projects]);
 
+  const offlineQueue = useOfflineTimesheetQueue({
+    onReplayed: (result) => {
+      window.dispatchEvent(new Event('timesheets:refresh'));
+      if (result.conflicts > 0) {
+        showWarning(t('timesheets.offline.toast.conflicts', { count: result.conflicts }));
+      } else if (result.synced > 0) {
+        showSuccess(t('timesheets.offline.toast.synced', { count: result.synced }));
+      }
+    },
+  });
+
+  // Loaded entries with queued offline writes applied on top (pending creates/edits/deletes).
+  const offlineOverlay = useMemo(
+    () => applyOfflineMutations(timesheets, offlineQueue.mutations, { projects, tasks, locations, technicians }),
+    [timesheets, offlineQueue.mutations, projects, tasks, locations, technicians]
+  );
+  const timesheetsWithOffline = offlineOverlay.timesheets;
+
   const policyVisibleTimesheets = useMemo(() => {
-    return getVisibleTimesheets(timesheets);
-  }, [timesheets]);
+    return getVisibleTimesheets(timesheetsWithOffline);
+  }, [timesheetsWithOffline]);
 
   const validationSummary = useMemo(() => {
     const aiFlaggedIds = new Set<number>();
@@ -519,15 +652,15 @@ const TimesheetCalendar: React.FC = () => {
       }
 
       if (ts.technician_id && ts.date) {
-        const key = `${ts.technician_id}-${dayjs(ts.date).format('YYYY-MM-DD')}`;
-        const entry = totals.get(key) ?? { hours: 0, ids: [] };
-        const decimal =
-          typeof ts.hours_worked === 'string'
-            ? parseFloat(ts.hours_worked)
-            : ts.hours_worked;
-        entry.hours += Number.isFinite(decimal) ? decimal : 0;
-        entry.ids.push(ts.id);
-        totals.set(key, entry);
+        // Overnight entries count towards the cap of both calendar days they cover.
+        const hoursByDay = splitHoursByDay({ ...ts, date: dayjs(ts.date).format('YYYY-MM-DD') });
+        Object.entries(hoursByDay).forEach(([date, hours]) => {
+          const key = `${ts.technician_id}-${date}`;
+          const entry = totals.get(key) ?? { hours: 0, ids: [] };
+          entry.hours += hours;
+          entry.ids.push(ts.id);
+          totals.set(key, entry);
+        });
       }
     });
 
@@ -574,7 +707,10 @@ const TimesheetCalendar: React.FC = () => {
       setTimesheets(timesheetsData);
     } catch (error: unknown) {
       console.error('Error loading timesheets:', error);
-      showError(t('timesheets.errors.loadTimesheets'));
+      // Offline: keep the last loaded entries; the offline banner already explains why.
+      if (!isNetworkError(error)) {
+        showError(t('timesheets.errors.loadTimesheets'));
+      }
     } finally {
       setLoading(false);
     }
@@ -845,6 +981,62 @@ const TimesheetCalendar: React.FC = () => {
     }
   }, [authLoading, user]);
 
+  const loadWeekStatus = useCallback(async (date: string) => {
+    try {
+      setWeekStatus(await timesheetWeeksApi.getStatus({ date }));
+    } catch (error) {
+      console.warn('[TimesheetCalendar] Week status unavailable:', error);
+      setWeekStatus(null);
+    }
+  }, []);
+
+  // Entry changes can move the week's counts, so reload the status with the entries.
+  useEffect(() => {
+    if (authLoading || !user || currentCalendarViewType !== 'timeGridWeek' || !currentWeekStartDate) return;
+    void loadWeekStatus(currentWeekStartDate);
+  }, [authLoading, user, currentCalendarViewType, currentWeekStartDate, timesheets, loadWeekStatus]);
+
+  // Pending and approved absences of the visible months (own, plus managed workers' for managers)
+  const loadAbsences = useCallback(async () => {
+    if (visibleMonths.length === 0) return;
+    try {
+      const response = await absencesApi.getAll({
+        from: dayjs(`${visibleMonths[0]}-01`).format('YYYY-MM-DD'),
+        to: dayjs(`${visibleMonths[visibleMonths.length - 1]}-01`).endOf('month').format('YYYY-MM-DD'),
+      });
+      setAbsences(response.data.filter((absence) => absence.status === 'pending' || absence.status === 'approved'));
+    } catch (error) {
+      console.warn('[TimesheetCalendar] Absences unavailable:', error);
+      setAbsences([]);
+    }
+  }, [visibleMonths]);
+
+  useEffect(() => {
+    if (authLoading || !user) return;
+    void loadAbsences();
+  }, [authLoading, user, loadAbsences]);
+
+  // Public holidays of every country for the visible months; matched per worker contract country
+  useEffect(() => {
+    if (authLoading || !user || visibleMonths.length === 0) return;
+    let cancelled = false;
+    publicHolidaysApi
+      .getRange({
+        from: dayjs(`${visibleMonths[0]}-01`).format('YYYY-MM-DD'),
+        to: dayjs(`${visibleMonths[visibleMonths.length - 1]}-01`).endOf('month').format('YYYY-MM-DD'),
+      })
+      .then((response) => {
+        if (!cancelled) setPublicHolidays(response.data);
+      })
+      .catch((error) => {
+        console.warn('[TimesheetCalendar] Public holidays unavailable:', error);
+        if (!cancelled) setPublicHolidays([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading, user, visibleMonths]);
+
   // Handle view change - reload data when switching to Week view
   const handleViewChange = useCallback(
     (info: DatesSetArg) => {
@@ -855,6 +1047,7 @@ const TimesheetCalendar: React.FC = () => {
 
       if (info.view.type === 'timeGridWeek') {
         setCurrentWeekStartDate(info.startStr);
+        setWeekIssues([]);
         void loadWeekSummary(info.startStr);
       }
 
@@ -890,15 +1083,14 @@ const TimesheetCalendar: React.FC = () => {
     }
     
     try {
-      const start = startTime;
-      const end = endTime;
-      
-      if (end.isBefore(start) || end.isSame(start)) {
-        console.log('Invalid time range - end before or equal to start');
+      // An end before the start is on the next day (overnight shift).
+      const window = getShiftWindow(timeToString(startTime), timeToString(endTime));
+      if (!window) {
+        console.log('Invalid time range - end equal to start');
         return 0;
       }
       
-      const diffInMinutes = end.diff(start, 'minute');
+      const diffInMinutes = window[1] - window[0];
       const hours = diffInMinutes / 60;
       
       // Round to nearest quarter hour and cap at 24 hours
@@ -931,7 +1123,7 @@ const TimesheetCalendar: React.FC = () => {
       setDescription(selectedDescription);
     }
     
-    aiSuggestion.applySuggestion();
+    aiSuggestion.applySuggestion(selectedHours, selectedDescription);
   };
 
   const handleDismissAISuggestion = () => {
@@ -960,14 +1152,28 @@ const TimesheetCalendar: React.FC = () => {
     // Only calculate if both times are set and valid
     if (startTimeObj && endTimeObj && startTimeObj.isValid() && endTimeObj.isValid()) {
       const timer = setTimeout(() => {
-        const calculatedHours = calculateHours(startTimeObj, endTimeObj);
+        // Unpaid breaks come off the span exactly, as the API stores them.
+        const calculatedHours = breaks.length
+          ? computeWorkedHours(timeToString(startTimeObj), timeToString(endTimeObj), breaks)
+          : calculateHours(startTimeObj, endTimeObj);
         console.log(`Calculating hours: ${timeToString(startTimeObj)} -> ${timeToString(endTimeObj)} = ${calculatedHours}h`);
         setHoursWorked(calculatedHours);
       }, 100); // Small delay to handle rapid changes
 
       return () => clearTimeout(timer);
     }
-  }, [startTimeObj, endTimeObj]);
+  }, [startTimeObj, endTimeObj, breaks]);
+
+  const breaksBlocked = useMemo(() => {
+    const rule = tenantContext?.break_rule ?? DEFAULT_BREAK_RULE;
+    const issue = validateBreaks(
+      startTimeObj?.isValid() ? timeToString(startTimeObj) : null,
+      endTimeObj?.isValid() ? timeToString(endTimeObj) : null,
+      breaks,
+      rule
+    );
+    return isBlockingBreakIssue(issue, rule);
+  }, [startTimeObj, endTimeObj, breaks, tenantContext]);
 
   // Generate AI suggestions when dialog opens for new entry
   useEffect(() => {
@@ -978,6 +1184,8 @@ const TimesheetCalendar: React.FC = () => {
       
       if (project && task && location) {
         const context = {
+          project_id: project.id,
+          task_id: task.id,
           project_name: project.name,
           task_name: task.name,
           location_name: location.name,
@@ -993,11 +1201,19 @@ const TimesheetCalendar: React.FC = () => {
     }
   }, [dialogOpen, selectedEntry, selectedDate, projectId, taskId, locationId, projects, tasks, locations, user]);
 
+  // Managers and admins may still add entries for others in a week their own submission locked.
+  const isOwnWeekLocked = (date: string): boolean =>
+    Boolean(weekStatus?.locked) && isDateInTimesheetWeek(date, weekStatus) && !userIsManager && !userIsAdmin;
+
   const handleDateSelect = (selectInfo: DateSelectArg) => {
     if (isReadOnlyMode) {
       showReadOnlyWarning();
       return;
     }
+    if (isOwnWeekLocked(selectInfo.startStr)) {
+      showWarning(t('timesheets.week.lockedError'));
+      return;
+    }
     console.log('Date select:', selectInfo.startStr, 'allDay:', selectInfo.allDay, 'isMobile:', isMobile);
     
     const startDateTime = dayjs(selectInfo.startStr);
@@ -1032,6 +1248,10 @@ const TimesheetCalendar: React.FC = () => {
       console.log('🛫 Ignoring dateClick - clicked on travel indicator');
       return;
     }
+    if (isOwnWeekLocked(clickInfo.dateStr)) {
+      showWarning(t('timesheets.week.lockedError'));
+      return;
+    }
     
     console.log('Date click:', clickInfo.dateStr, 'allDay:', clickInfo.allDay, 'isMobile:', isMobile);
     
@@ -1064,79 +1284,211 @@ const TimesheetCalendar: React.FC = () => {
     setTravelDetailsOpen(true);
   };
 
+  // Drag/resize in the week view: optimistic update, rolled back if the API rejects or blocks it
+  const handleEventTimeChange = async (changeInfo: EventChangeArg) => {
+    const timesheet = changeInfo.oldEvent.extendedProps.timesheet as Timesheet | undefined;
+    if (isReadOnlyMode) {
+      changeInfo.revert();
+      showReadOnlyWarning();
+      return;
+    }
+    if (!timesheet || isTimesheetLocked(timesheet)) {
+      changeInfo.revert();
+      showWarning(t('timesheets.drag.locked'));
+      return;
+    }
+
+    const change = buildTimesheetTimeChange(changeInfo.event.start, changeInfo.event.end, timesheet);
+    if (!change) {
+      changeInfo.revert();
+      showWarning(t('timesheets.drag.invalidRange'));
+      return;
+    }
+
+    if (timesheet.id < 0 || !offlineQueue.isOnline) {
+      await offlineQueue.enqueue('update', change, timesheet.id);
+      showInfo(t('timesheets.offline.toast.queued'));
+      return;
+    }
+
+    const dateOnly = dayjs(timesheet.date).format('YYYY-MM-DD');
+    const previous = {
+      date: dateOnly,
+      start_time: parseTimesheetDateTime(dateOnly, timesheet.start_time)?.format('HH:mm'),
+      end_time: parseTimesheetDateTime(dateOnly, timesheet.end_time)?.format('HH:mm'),
+      hours_worked: Number(timesheet.hours_worked),
+      ...(change.breaks ? { breaks: normalizeBreaks(timesheet.breaks) } : {}),
+    };
+    const applyToState = (patch: Partial<Timesheet>) => {
+      setTimesheets((prev) => prev.map((item) => (item.id === timesheet.id ? { ...item, ...patch } : item)));
+    };
+    const rollback = () => {
+      changeInfo.revert();
+      applyToState(previous);
+    };
+
+    applyToState(change);
+
+    try {
+      const result = await timesheetsApi.update(timesheet.id, change);
+      const warnings = result.validation?.warnings ?? [];
+
+      if (result.validation?.status === 'block') {
+        rollback();
+        // The API stores the change before validating it; put the original times back.
+        await timesheetsApi.update(timesheet.id, previous).catch((restoreError: unknown) => {
+          console.error('Error restoring timesheet after blocked drag:', restoreError);
+          void loadTimesheets();
+        });
+        showError(warnings[0] ?? t('timesheets.drag.blocked'));
+        return;
+      }
+
+      applyToState(result.data ?? change);
+      recordHistory({ kind: 'update', before: timesheet, after: { ...timesheet, ...(result.data ?? change) } });
+      await discardQueuedFor(timesheet.id);
+
+      if (result.validation?.status === 'warning' && warnings[0]) {
+        showWarning(warnings[0]);
+      } else {
+        showSuccess(t('timesheets.toast.updated'));
+      }
+    } catch (err: unknown) {
+      console.error('Error moving timesheet:', err);
+      rollback();
+
+      if (isNetworkError(err)) {
+        await offlineQueue.enqueue('update', change, timesheet.id);
+        showInfo(t('timesheets.offline.toast.queued'));
+        return;
+      }
+
+      if (isWeekLockedError(err)) {
+        showWarning(t('timesheets.week.lockedError'));
+        return;
+      }
+      if (isSignedOffError(err)) {
+        showWarning(t('timesheets.signoff.lockedError'));
+        return;
+      }
+
+      const error = err as { response?: { status?: number; data?: { message?: unknown; error?: unknown } } };
+      if (error.response?.status === 409) {
+        showError(t('timesheets.errors.timeConflict', { timeRange: `${change.start_time} - ${change.end_time}` }));
+        return;
+      }
+      const message =
+        (typeof error.response?.data?.error === 'string' && error.response.data.error) ||
+        (typeof error.response?.data?.message === 'string' && error.response.data.message) ||
+        t('timesheets.errors.saveFailed');
+      showError(message);
+    }
+  };
+
   const handleEventClick = (clickInfo: EventClickArg) => {
     if (isReadOnlyMode) {
       showReadOnlyWarning();
       return;
     }
+    const clickedAbsence = clickInfo.event.extendedProps.absence as Absence | undefined;
+    if (clickedAbsence) {
+      setAbsenceDialog({ open: true, absence: clickedAbsence, date: null });
+      return;
+    }
+
     const timesheetId = parseInt(clickInfo.event.id);
     console.log('Event clicked:', timesheetId);
     
-    const timesheet = timesheets.find(t => t.id === timesheetId);
+    const timesheet = timesheetsWithOffline.find(t => t.id === timesheetId);
     if (timesheet) {
-      // Check if user owns this entry
-      const isOwner = isTimesheetOwnedByUser(timesheet);
-      
-      // Check if user manages this project
-      const managesProject = Boolean(userIsManager && user?.managed_projects?.includes(timesheet.project_id));
-      
-      // Owner, Manager of project, or Admin can edit timesheets
-      const canEdit = isOwner || userIsAdmin || managesProject;
-      
-      if (!canEdit) {
-        console.log('User cannot edit this entry - not owner, not manager of project, and not admin');
-        // Show warning notification
-        showWarning(t('timesheets.permissions.editOwnOrManaged'));
-        return;
-      }
-      
-      console.log('Opening timesheet for editing:', timesheet);
-      
-      // Convert hours_worked to decimal format (e.g., 5.5 for 5h30m)
-      const decimalHours = typeof timesheet.hours_worked === 'string' 
-        ? parseFloat(timesheet.hours_worked)
-        : timesheet.hours_worked;
-      
-      console.log('Duration conversion:', {
-        original: timesheet.hours_worked,
-        decimal: decimalHours,
-        formatted: `${Math.floor(decimalHours)}h${Math.round((decimalHours % 1) * 60)}m`
-      });
-      
-      setSelectedEntry(timesheet);
-      setSelectedDate(dayjs(timesheet.date));
-      setProjectId(timesheet.project_id);
-      setTaskId(timesheet.task_id || 0);
-      setLocationId(timesheet.location_id ? timesheet.location_id.toString() : '');
-      
-      // Debug: Log technician info
-      console.log('Setting technician ID:', {
-        technician_id: timesheet.technician_id,
-        technician_object: timesheet.technician,
-        available_technicians: availableTechnicians.map(t => ({ id: t.id, name: t.name }))
-      });
-      
-      setSelectedTechnicianId(timesheet.technician_id || '');
-      setHoursWorked(decimalHours);
-      setDescription(timesheet.description || '');
+      openTimesheetForEdit(timesheet);
+    }
+  };
 
-      const entryDate = dayjs(timesheet.date).format('YYYY-MM-DD');
-      const parsedStart = parseTimesheetDateTime(entryDate, timesheet.start_time);
-      const parsedEnd = parseTimesheetDateTime(entryDate, timesheet.end_time);
-      
-      console.log('Time parsing:', {
-        date: entryDate,
-        start_time: timesheet.start_time,
-        end_time: timesheet.end_time,
-        parsedStart: parsedStart?.format('HH:mm'),
-        parsedEnd: parsedEnd?.format('HH:mm')
-      });
+  const openTimesheetForEdit = (timesheet: Timesheet) => {
+    // Check if user owns this entry
+    const isOwner = isTimesheetOwnedByUser(timesheet);
+    
+    // Check if user manages this project
+    const managesProject = Boolean(userIsManager && user?.managed_projects?.includes(timesheet.project_id));
+    
+    // Owner, Manager of project, or Admin can edit timesheets
+    const canEdit = isOwner || userIsAdmin || managesProject;
+    
+    if (!canEdit) {
+      console.log('User cannot edit this entry - not owner, not manager of project, and not admin');
+      // Show warning notification
+      showWarning(t('timesheets.permissions.editOwnOrManaged'));
+      return;
+    }
+    
+    console.log('Opening timesheet for editing:', timesheet);
+    
+    // Convert hours_worked to decimal format (e.g., 5.5 for 5h30m)
+    const decimalHours = typeof timesheet.hours_worked === 'string' 
+      ? parseFloat(timesheet.hours_worked)
+      : timesheet.hours_worked;
+    
+    console.log('Duration conversion:', {
+      original: timesheet.hours_worked,
+      decimal: decimalHours,
+      formatted: `${Math.floor(decimalHours)}h${Math.round((decimalHours % 1) * 60)}m`
+    });
+    
+    setSelectedEntry(timesheet);
+    setSelectedDate(dayjs(timesheet.date));
+    setProjectId(timesheet.project_id);
+    setTaskId(timesheet.task_id || 0);
+    setLocationId(timesheet.location_id ? timesheet.location_id.toString() : '');
+    
+    // Debug: Log technician info
+    console.log('Setting technician ID:', {
+      technician_id: timesheet.technician_id,
+      technician_object: timesheet.technician,
+      available_technicians: availableTechnicians.map(t => ({ id: t.id, name: t.name }))
+    });
+    
+    setSelectedTechnicianId(timesheet.technician_id || '');
+    setHoursWorked(decimalHours);
+    setDescription(timesheet.description || '');
+    setResubmissionNote('');
+    setBreaks(normalizeBreaks(timesheet.breaks));
+
+    const entryDate = dayjs(timesheet.date).format('YYYY-MM-DD');
+    const parsedStart = parseTimesheetDateTime(entryDate, timesheet.start_time);
+    const parsedEnd = parseTimesheetDateTime(entryDate, timesheet.end_time);
+    
+    console.log('Time parsing:', {
+      date: entryDate,
+      start_time: timesheet.start_time,
+      end_time: timesheet.end_time,
+      parsedStart: parsedStart?.format('HH:mm'),
+      parsedEnd: parsedEnd?.format('HH:mm')
+    });
 
-      setStartTimeObj(parsedStart);
-      setEndTimeObj(parsedEnd);
-      
-      setDialogOpen(true);
+    setStartTimeObj(parsedStart);
+    setEndTimeObj(parsedEnd);
+    
+    setDialogOpen(true);
+  };
+
+  const handleOfflineEdit = (mutation: OfflineTimesheetMutation) => {
+    if (isReadOnlyMode) {
+      showReadOnlyWarning();
+      return;
     }
+    const targetId = mutation.syncedTimesheetId ?? mutation.timesheetId;
+    const timesheet = timesheetsWithOffline.find((item) => item.id === targetId);
+    if (!timesheet) {
+      showWarning(t('timesheets.offline.entryNotLoaded'));
+      return;
+    }
+    openTimesheetForEdit(timesheet);
+  };
+
+  const handleOfflineRetry = async (mutation: OfflineTimesheetMutation) => {
+    await offlineQueue.retry(mutation.id);
+    void offlineQueue.syncNow();
   };
 
   const resetForm = () => {
@@ -1145,6 +1497,8 @@ const TimesheetCalendar: React.FC = () => {
     setLocationId('');
     setHoursWorked(0);
     setDescription('');
+    setResubmissionNote('');
+    setBreaks([]);
     // Set default working hours (9:00 AM + 1 hour = 10:00 AM)
     const defaultStart = dayjs().hour(9).minute(0).second(0);
     const defaultEnd = defaultStart.add(1, 'hour'); // Auto-increment by 1 hour
@@ -1156,6 +1510,170 @@ const TimesheetCalendar: React.FC = () => {
     aiSuggestion.dismissSuggestion();
   };
 
+  // Template or recent combination picked in the entry dialog
+  const handleApplyQuickPick = (values: QuickPickValues) => {
+    setProjectId(values.project_id);
+    setTaskId(values.task_id);
+    setLocationId(values.location_id ? values.location_id.toString() : '');
+    const dateOnly = (selectedDate ?? dayjs()).format('YYYY-MM-DD');
+    const start = parseTimesheetDateTime(dateOnly, values.start_time);
+    const end = parseTimesheetDateTime(dateOnly, values.end_time);
+    if (start && end) {
+      setStartTimeObj(start);
+      setEndTimeObj(end);
+    }
+    if (values.description) {
+      setDescription(values.description);
+    }
+  };
+
+  const quickPickCurrent =
+    projectId && taskId
+      ? {
+          project_id: Number(projectId),
+          task_id: taskId,
+          location_id: locationId ? Number(locationId) : null,
+          start_time: startTimeObj ? timeToString(startTimeObj) : null,
+          end_time: endTimeObj ? timeToString(endTimeObj) : null,
+          description: description.trim() || null,
+        }
+      : null;
+  const quickPickLabel = [
+    tasks.find((task) => task.id === taskId)?.name,
+    locations.find((location) => String(location.id) === locationId)?.name,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const discardQueuedFor = async (timesheetId: number) => {
+    const queued = offlineQueue.mutations.filter(
+      (item) => item.timesheetId === timesheetId || item.syncedTimesheetId === timesheetId
+    );
+    await Promise.all(queued.map((item) => offlineQueue.discard(item.id)));
+  };
+
+  // Only changes saved online are recorded; queued offline ones are managed in the offline panel.
+  const recordHistory = (action: TimesheetHistoryAction) => {
+    if (!isUndoableAction(action)) {
+      showInfo(t('timesheets.history.statusChangeNotUndoable'));
+      return;
+    }
+    setHistory((current) => recordAction(current, action));
+  };
+
+  const handleHistoryStep = async (direction: TimesheetHistoryDirection) => {
+    const action = peekAction(history, direction);
+    if (!action || historyBusy) return;
+    if (isReadOnlyMode) {
+      showReadOnlyWarning();
+      return;
+    }
+    if (!offlineQueue.isOnline) {
+      showWarning(t('timesheets.history.offline'));
+      return;
+    }
+
+    const step = getHistoryStep(action, direction);
+    setHistoryBusy(true);
+    try {
+      if (step.op !== 'create') {
+        const current = await timesheetsApi
+          .getById(step.id)
+          .then((response) => ({ ...response.data, permissions: response.data.permissions ?? response.permissions }))
+          .catch((err: unknown) => {
+            if ((err as { response?: { status?: number } }).response?.status === 404) return null;
+            throw err;
+          });
+        const blocker = getStepBlocker(step, current);
+        if (blocker) {
+          setHistory((state) => dropAction(state, direction));
+          showWarning(t(`timesheets.history.blocked.${blocker}`));
+          return;
+        }
+      }
+
+      let next = shiftAction(history, direction);
+      if (step.op === 'create') {
+        const result = await timesheetsApi.create(step.payload);
+        next = remapEntryId(next, step.replacesId, result.data.id);
+      } else if (step.op === 'update') {
+        const result = await timesheetsApi.update(step.id, step.payload);
+        if (result.validation?.status === 'block') {
+          setHistory((state) => dropAction(state, direction));
+          showError(result.validation.warnings?.[0] ?? t('timesheets.history.failed'));
+          await loadTimesheets();
+          return;
+        }
+      } else {
+        await timesheetsApi.delete(step.id);
+      }
+
+      setHistory(next);
+      showSuccess(t(direction === 'undo' ? 'timesheets.history.undone' : 'timesheets.history.redone'));
+      await loadTimesheets();
+    } catch (err: unknown) {
+      console.error(`Error during timesheet ${direction}:`, err);
+      if (isNetworkError(err)) {
+        showWarning(t('timesheets.history.offline'));
+        return;
+      }
+      // The server refused (week locked, overlap, permissions...): the action cannot be replayed.
+      setHistory((state) => dropAction(state, direction));
+      if (isWeekLockedError(err)) {
+        showWarning(t('timesheets.week.lockedError'));
+        return;
+      }
+      if (isSignedOffError(err)) {
+        showWarning(t('timesheets.signoff.lockedError'));
+        return;
+      }
+      const message = (err as { response?: { data?: { message?: unknown } } }).response?.data?.message;
+      showError(typeof message === 'string' && message ? message : t('timesheets.history.failed'));
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const historyStepRef = useRef(handleHistoryStep);
+  useEffect(() => {
+    historyStepRef.current = handleHistoryStep;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const direction = dialogOpen ? null : getHistoryShortcut(event);
+      if (!direction) return;
+      event.preventDefault();
+      void historyStepRef.current(direction);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dialogOpen]);
+
+  const historyLabel = (direction: TimesheetHistoryDirection) => {
+    const action = peekAction(history, direction);
+    return action
+      ? t(`timesheets.history.${direction}Action`, { action: t(`timesheets.history.kinds.${action.kind}`) })
+      : t(`timesheets.history.${direction}`);
+  };
+
+  const queueOfflineSave = async (payload: Partial<TimesheetFormData>) => {
+    if (selectedEntry) {
+      await offlineQueue.enqueue('update', payload, selectedEntry.id);
+    } else {
+      await offlineQueue.enqueue('create', payload);
+    }
+
+    showInfo(t('timesheets.offline.toast.queued'));
+    setDialogOpen(false);
+    resetForm();
+
+    if (offlineQueue.isOnline) {
+      void offlineQueue.syncNow();
+    }
+  };
+
   const handleSave = async () => {
     if (isReadOnlyMode) {
       showReadOnlyWarning();
@@ -1203,6 +1721,14 @@ const TimesheetCalendar: React.FC = () => {
       showError(t('timesheets.validation.hoursMax'));
       return;
     }
+    if (breaksBlocked) {
+      showError(t('timesheets.breaks.saveBlocked'));
+      return;
+    }
+    if (formAbsenceConflict) {
+      showError(formAbsenceConflict);
+      return;
+    }
 
     try {
       setLoading(true);
@@ -1230,7 +1756,8 @@ const TimesheetCalendar: React.FC = () => {
         description: description.trim(),
         start_time: timeToString(startTimeObj),
         end_time: timeToString(endTimeObj),
-        status: 'submitted'
+        status: 'submitted' as const,
+        breaks
       };
 
       console.log('Saving timesheet:', timesheet);
@@ -1239,6 +1766,13 @@ const TimesheetCalendar: React.FC = () => {
 
       const requestedTechnicianId = typeof selectedTechnicianId === 'number' ? selectedTechnicianId : null;
 
+      // Entries created offline only exist in the queue until it replays; offline edits go there too.
+      const isQueuedEntry = Boolean(selectedEntry && selectedEntry.id < 0);
+      if (isQueuedEntry || !offlineQueue.isOnline) {
+        await queueOfflineSave(timesheet);
+        return;
+      }
+
       const extractWarningMessage = (result: unknown): string | null => {
         const w = (result as { warning?: unknown } | null | undefined)?.warning;
         if (!w) return null;
@@ -1254,7 +1788,14 @@ const TimesheetCalendar: React.FC = () => {
 
       if (selectedEntry) {
         // Update existing timesheet
-        const result: unknown = await timesheetsApi.update(selectedEntry.id, timesheet);
+        const note = selectedEntry.status === 'rejected' ? resubmissionNote.trim() : '';
+        const result: unknown = await timesheetsApi.update(
+          selectedEntry.id,
+          note ? { ...timesheet, resubmission_note: note } : timesheet
+        );
+        await discardQueuedFor(selectedEntry.id);
+        const updated = (result as { data?: Timesheet } | null | undefined)?.data;
+        recordHistory({ kind: 'update', before: selectedEntry, after: updated?.id ? updated : { ...selectedEntry, ...timesheet } });
         const warningMessage = extractWarningMessage(result);
         if (warningMessage) {
           showWarning(warningMessage);
@@ -1269,6 +1810,9 @@ const TimesheetCalendar: React.FC = () => {
         }
 
         const resultData = (result as { data?: unknown } | null | undefined)?.data;
+        if ((resultData as Timesheet | undefined)?.id) {
+          recordHistory({ kind: 'create', entry: resultData as Timesheet });
+        }
         const savedTechnicianId = Number(
           (resultData as { technician_id?: unknown; technician?: { id?: unknown } } | null | undefined)?.technician_id ??
             (resultData as { technician?: { id?: unknown } } | null | undefined)?.technician?.id
@@ -1300,6 +1844,22 @@ const TimesheetCalendar: React.FC = () => {
     } catch (err: unknown) {
       console.error('Error saving timesheet:', err);
 
+      if (isNetworkError(err)) {
+        await queueOfflineSave({
+          technician_id: typeof selectedTechnicianId === 'number' ? selectedTechnicianId : undefined,
+          project_id: projectId,
+          task_id: taskId,
+          location_id: parseInt(locationId, 10),
+          date: formatDate(selectedDate),
+          hours_worked: hoursWorked,
+          description: description.trim(),
+          start_time: timeToString(startTimeObj),
+          end_time: timeToString(endTimeObj),
+          breaks,
+        });
+        return;
+      }
+
       const error = err as {
         response?: {
           status?: number;
@@ -1313,6 +1873,15 @@ const TimesheetCalendar: React.FC = () => {
       };
       let shouldRefresh = false;
 
+      if (isWeekLockedError(err)) {
+        showWarning(t('timesheets.week.lockedError'));
+        return;
+      }
+      if (isSignedOffError(err)) {
+        showWarning(t('timesheets.signoff.lockedError'));
+        return;
+      }
+
       if (error.response?.status === 403) {
         const message =
           (typeof error.response?.data?.message === 'string' && error.response.data.message) ||
@@ -1415,8 +1984,20 @@ const TimesheetCalendar: React.FC = () => {
         try {
           setLoading(true);
           
+          if (selectedEntry.id < 0 || !offlineQueue.isOnline) {
+            await offlineQueue.enqueue('delete', {}, selectedEntry.id);
+            showInfo(
+              selectedEntry.id < 0 ? t('timesheets.toast.deleted') : t('timesheets.offline.toast.deleteQueued')
+            );
+            setDialogOpen(false);
+            resetForm();
+            return;
+          }
+
           console.log('Deleting timesheet:', selectedEntry.id);
           await timesheetsApi.delete(selectedEntry.id);
+          await discardQueuedFor(selectedEntry.id);
+          recordHistory({ kind: 'delete', entry: selectedEntry });
           
           console.log('Timesheet deleted successfully');
           showSuccess(t('timesheets.toast.deleted'));
@@ -1425,6 +2006,21 @@ const TimesheetCalendar: React.FC = () => {
           resetForm();
         } catch (error: unknown) {
           console.error('Error deleting timesheet:', error);
+          if (isNetworkError(error)) {
+            await offlineQueue.enqueue('delete', {}, selectedEntry.id);
+            showInfo(t('timesheets.offline.toast.deleteQueued'));
+            setDialogOpen(false);
+            resetForm();
+            return;
+          }
+          if (isWeekLockedError(error)) {
+            showWarning(t('timesheets.week.lockedError'));
+            return;
+          }
+          if (isSignedOffError(error)) {
+            showWarning(t('timesheets.signoff.lockedError'));
+            return;
+          }
           const axiosish = error as { response?: { data?: { message?: unknown } }; message?: unknown };
           const errorMessage =
             (typeof axiosish.response?.data?.message === 'string' && axiosish.response.data.message) ||
@@ -1456,6 +2052,110 @@ const TimesheetCalendar: React.FC = () => {
 
     return false;
   }, [user]);
+
+  const handleOpenCopyDialog = (mode: CopyTimesheetsMode) => {
+    if (isReadOnlyMode) {
+      showReadOnlyWarning();
+      return;
+    }
+    setCopyDialogMode(mode);
+  };
+
+  const weekGridDates = useMemo(
+    () => (currentWeekStartDate ? getWeekGridDates(currentWeekStartDate) : []),
+    [currentWeekStartDate]
+  );
+
+  const weekGridEntries = useMemo(
+    () =>
+      policyVisibleTimesheets.filter(
+        (ts) => ts.id > 0 && isTimesheetOwnedByUser(ts) && weekGridDates.includes(dayjs(ts.date).format('YYYY-MM-DD'))
+      ),
+    [policyVisibleTimesheets, isTimesheetOwnedByUser, weekGridDates]
+  );
+
+  const showWeekGrid = weekLayout === 'grid' && currentCalendarViewType === 'timeGridWeek';
+
+  const handleWeekGridSaved = async () => {
+    await loadTimesheets();
+    if (currentWeekStartDate) {
+      // The summary loader dedupes by week start; force a reload for the edited week.
+      lastSummaryDateRef.current = null;
+      await loadWeekSummary(currentWeekStartDate);
+    }
+  };
+
+  // Customer sign-offs can be collected for own entries and those of managed projects
+  const canSignTimesheet = useCallback(
+    (timesheet: Timesheet): boolean =>
+      isTimesheetOwnedByUser(timesheet) ||
+      userIsAdmin ||
+      Boolean(userIsManager && user?.managed_projects?.includes(timesheet.project_id)),
+    [isTimesheetOwnedByUser, userIsAdmin, userIsManager, user?.managed_projects]
+  );
+
+  const handleSignoffSigned = (signoff: TimesheetSignoff) => {
+    showSuccess(t('timesheets.signoff.signedToast', { name: signoff.signer_name }));
+    void loadTimesheets();
+  };
+
+  const handleImported = (createdCount: number) => {
+    if (createdCount === 0) return;
+    showSuccess(t('timesheets.import.importedToast', { count: createdCount }));
+    void loadTimesheets();
+  };
+
+  const handleCopied = async ({ created, failed }: CopyTimesheetsResult) => {
+    setCopyDialogMode(null);
+    if (failed > 0) {
+      showWarning(t('timesheets.copy.toast.partial', { created, failed }));
+    } else {
+      showSuccess(t('timesheets.copy.toast.created', { count: created }));
+    }
+    await loadTimesheets();
+  };
+
+  const handleSubmitWeek = async () => {
+    if (!weekStatus) return;
+    if (isReadOnlyMode) {
+      showReadOnlyWarning();
+      return;
+    }
+
+    const weekEntries = policyVisibleTimesheets.filter(
+      (ts) => isTimesheetOwnedByUser(ts) && isDateInTimesheetWeek(ts.date, weekStatus)
+    );
+    const issues = findTimesheetWeekIssues(weekEntries, DAILY_HOUR_CAP, homeTimezone);
+    setWeekIssues(issues);
+    if (issues.length > 0) {
+      showWarning(t('timesheets.week.toast.invalid'));
+      return;
+    }
+
+    setWeekSubmitting(true);
+    try {
+      const result = await timesheetWeeksApi.submit({ date: weekStatus.week_start });
+      setWeekStatus(result);
+      showSuccess(t('timesheets.week.toast.submitted', { count: result.submitted_count }));
+      await loadTimesheets();
+    } catch (err: unknown) {
+      console.error('Error submitting week:', err);
+      const error = err as { response?: { data?: { message?: unknown; error?: unknown; issues?: unknown } } };
+      const serverIssues = error.response?.data?.issues;
+      if (Array.isArray(serverIssues)) {
+        setWeekIssues(serverIssues as TimesheetWeekIssue[]);
+        showWarning(t('timesheets.week.toast.invalid'));
+        return;
+      }
+      const message =
+        (typeof error.response?.data?.message === 'string' && error.response.data.message) ||
+        (typeof error.response?.data?.error === 'string' && error.response.data.error) ||
+        t('timesheets.week.toast.failed');
+      showError(message);
+    } finally {
+      setWeekSubmitting(false);
+    }
+  };
   const uiFilteredTimesheets = useMemo(() => {
     if (!user) {
       return [] as Timesheet[];
@@ -1489,6 +2189,48 @@ const TimesheetCalendar: React.FC = () => {
     );
   }, [currentCalendarViewType, currentWeekStartDate, weekSummary?.workweek_start, policyVisibleTimesheets]);
 
+  // Holidays of each worker's contract country; entry technicians carry the country too.
+  const holidayLookup = useMemo(() => {
+    const byId = new Map<number, Technician>();
+    technicians.forEach((technician) => byId.set(technician.id, technician));
+    policyVisibleTimesheets.forEach((ts) => {
+      if (ts.technician && !byId.has(ts.technician.id)) byId.set(ts.technician.id, ts.technician);
+    });
+    return buildHolidayLookup(publicHolidays, Array.from(byId.values()));
+  }, [publicHolidays, technicians, policyVisibleTimesheets]);
+
+  // Per-technician, per-day split of the visible week, for the insights weekly tab.
+  const weekOvertimeDays = useMemo(() => {
+    if (currentCalendarViewType !== 'timeGridWeek') return [];
+
+    const weekStart = dayjs(weekSummary?.workweek_start ?? currentWeekStartDate, 'YYYY-MM-DD', true);
+    if (!weekStart.isValid()) return [];
+    const weekEndExclusive = weekStart.add(7, 'day');
+
+    const inWeek = policyVisibleTimesheets.filter((ts) => {
+      const date = dayjs(String(ts.date ?? '').slice(0, 10), 'YYYY-MM-DD', true);
+      return date.isValid() && !date.isBefore(weekStart) && date.isBefore(weekEndExclusive);
+    });
+
+    const policyKey = resolveOvertimePolicyKey(
+      weekSummary?.policy_key ? { ...tenantContext, policy_key: weekSummary.policy_key } : tenantContext
+    );
+    return computeOvertimeBreakdown(inWeek, {
+      policyKey,
+      weekFirstDay: weekStart.day(),
+      isHoliday: (technicianId, date) => holidayLookup(technicianId, date) !== null,
+    });
+  }, [currentCalendarViewType, currentWeekStartDate, weekSummary?.workweek_start, weekSummary?.policy_key, policyVisibleTimesheets, tenantContext, holidayLookup]);
+
+  const weekOvertimeTechnicianNames = useMemo(() => {
+    const names = new Map<number, string>();
+    policyVisibleTimesheets.forEach((ts) => {
+      if (ts.technician?.name) names.set(ts.technician_id, ts.technician.name);
+    });
+    // Only label technicians when the week holds more than one.
+    return new Set(weekOvertimeDays.map((day) => day.technician_id)).size > 1 ? names : undefined;
+  }, [policyVisibleTimesheets, weekOvertimeDays]);
+
   const policyPillLabel = useMemo(() => {
     const raw = weekSummary?.policy_key ?? tenantContext?.policy_key;
     if (typeof raw !== 'string') return null;
@@ -1787,8 +2529,58 @@ const TimesheetCalendar: React.FC = () => {
                               })}
                             </Typography>
                           </Grid>
+                          {typeof weekSummary.expected_hours === 'number' && (
+                            <Grid item xs={12} sm={4}>
+                              <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                                {t('rightPanel.timesheets.weeklyExpected')}
+                              </Typography>
+                              <Typography variant="body2" sx={{ fontWeight: 700 }}>
+                                {t('common.hoursShort', {
+                                  value: formatTenantNumber(weekSummary.expected_hours, tenantContext, 2),
+                                })}
+                              </Typography>
+                            </Grid>
+                          )}
+                          {(weekSummary.holiday_hours ?? 0) > 0 && (
+                            <Grid item xs={12} sm={4}>
+                              <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                                {t('rightPanel.timesheets.weeklyHolidayHours')}
+                              </Typography>
+                              <Typography variant="body2" sx={{ fontWeight: 700 }}>
+                                {t('common.hoursShort', {
+                                  value: formatTenantNumber(weekSummary.holiday_hours ?? 0, tenantContext, 2),
+                                })}
+                              </Typography>
+                            </Grid>
+                          )}
+                          {(weekSummary.holidays?.length ?? 0) > 0 && (
+                            <Grid item xs={12}>
+                              <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                                {t('rightPanel.timesheets.weeklyHolidays', {
+                                  holidays: (weekSummary.holidays ?? [])
+                                    .map((holiday) => `${formatTenantDate(holiday.date, tenantContext)} ${holiday.name}`)
+                                    .join(', '),
+                                })}
+                              </Typography>
+                            </Grid>
+                          )}
                         </Grid>
                       )}
+
+                      {weekOvertimeDays.length > 0 && (
+                        <Box sx={{ mt: 1.5 }}>
+                          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mb: 0.5 }}>
+                            {t('timesheets.overtime.perDayTitle')}
+                          </Typography>
+                          <Box sx={{ overflowX: 'auto' }}>
+                            <OvertimeDayBreakdownTable
+                              days={weekOvertimeDays}
+                              tenantContext={tenantContext}
+                              technicianNames={weekOvertimeTechnicianNames}
+                            />
+                          </Box>
+                        </Box>
+                      )}
                     </CardContent>
                   </Card>
                 )}
@@ -1810,6 +2602,8 @@ const TimesheetCalendar: React.FC = () => {
       handleSwitchToWeekView,
       weekSummaryStatus,
       weekSummary,
+      weekOvertimeDays,
+      weekOvertimeTechnicianNames,
       t,
     ]
   );
@@ -1842,6 +2636,91 @@ const TimesheetCalendar: React.FC = () => {
     return (locations || []).filter(loc => taskLocationIds.includes(loc.id));
   }, [taskId, tasks, locations]);
 
+  // Times in the dialog are the site's wall-clock times; tell the user when the site is in another timezone
+  const selectedSiteTimezone = useMemo(() => {
+    const selectedLocation = (locations || []).find((loc) => String(loc.id) === String(locationId));
+    const siteTimezone = selectedLocation?.timezone;
+    return siteTimezone && isValidTimezone(siteTimezone) && siteTimezone !== homeTimezone ? siteTimezone : null;
+  }, [locations, locationId, homeTimezone]);
+
+  const absenceTypes = useMemo(() => getAbsenceTypes(tenantContext), [tenantContext]);
+  const getAbsenceTypeLabel = useCallback(
+    (key: string) => {
+      const type = findAbsenceType(absenceTypes, key);
+      return t(`timesheets.absences.types.${type.key}`, { defaultValue: type.label });
+    },
+    [absenceTypes, t]
+  );
+
+  // Approved absences block entries of the worker on their days (the API rejects them too)
+  const formAbsenceConflict = useMemo(() => {
+    if (!selectedDate || typeof selectedTechnicianId !== 'number') return null;
+    const conflict = findAbsenceConflict(absences, {
+      technician_id: selectedTechnicianId,
+      date: formatDate(selectedDate),
+      start_time: timeToString(startTimeObj),
+      end_time: timeToString(endTimeObj),
+    });
+    return conflict
+      ? t(conflict.half_day ? 'timesheets.absences.conflictHalfDay' : 'timesheets.absences.conflict', {
+          type: getAbsenceTypeLabel(conflict.absence_type),
+        })
+      : null;
+  }, [absences, selectedDate, selectedTechnicianId, startTimeObj, endTimeObj, getAbsenceTypeLabel, t]);
+
+  const absenceEvents = useMemo((): EventInput[] => {
+    return absences.map((absence) => {
+      const type = findAbsenceType(absenceTypes, absence.absence_type);
+      const isOwn = Boolean(user?.id && absence.technician?.user_id === user.id);
+      const parts = [getAbsenceTypeLabel(absence.absence_type)];
+      if (absence.half_day) parts.push(t(`timesheets.absences.halfDay.${absence.half_day}`));
+      if (absence.status === 'pending') parts.push(t('timesheets.absences.status.pending'));
+      const title = `${isOwn || !absence.technician?.name ? '' : `${absence.technician.name}: `}${parts.join(' · ')}`;
+
+      return {
+        id: `absence-${absence.id}`,
+        title,
+        ...getAbsenceEventRange(absence),
+        allDay: true,
+        editable: false,
+        backgroundColor: absence.status === 'approved' ? type.color : 'transparent',
+        borderColor: type.color,
+        textColor: absence.status === 'approved' ? '#fff' : type.color,
+        className: `absence-event absence-${absence.status}`,
+        extendedProps: { absence },
+      };
+    });
+  }, [absences, absenceTypes, getAbsenceTypeLabel, user, t]);
+
+  // Holidays of the user's own contract country and of the workers whose entries are shown
+  const holidayEvents = useMemo((): EventInput[] => {
+    const countries = new Set<string>();
+    const own = technicians.find((technician) => technician.email === user?.email);
+    if (own?.worker_contract_country) countries.add(own.worker_contract_country);
+    uiFilteredTimesheets.forEach((ts) => {
+      if (ts.technician?.worker_contract_country) countries.add(ts.technician.worker_contract_country);
+    });
+
+    const marked = getCalendarHolidays(publicHolidays, Array.from(countries));
+    const showCountry = new Set(marked.map((holiday) => holiday.country_id)).size > 1;
+
+    return marked.map((holiday) => ({
+      id: `holiday-${holiday.id}`,
+      title: showCountry && holiday.country_iso2 ? `${holiday.name} (${holiday.country_iso2})` : holiday.name,
+      start: holiday.date.slice(0, 10),
+      allDay: true,
+      display: 'background',
+      className: 'holiday-event',
+      extendedProps: { holiday },
+    }));
+  }, [publicHolidays, technicians, uiFilteredTimesheets, user?.email]);
+
+  const handleAbsenceSaved = (_absence: Absence, action: 'requested' | 'cancelled') => {
+    setAbsenceDialog({ open: false, absence: null, date: null });
+    showSuccess(t(action === 'requested' ? 'timesheets.absences.requested' : 'timesheets.absences.cancelled'));
+    void loadAbsences();
+  };
+
   const handleTimesheetScopeChange = (_event: React.MouseEvent<HTMLElement>, newScope: 'mine' | 'others' | 'all' | null) => {
     if (!newScope) {
       return;
@@ -1862,6 +2741,18 @@ const TimesheetCalendar: React.FC = () => {
       const managesProject = Boolean(userIsManager && user?.managed_projects?.includes(timesheet.project_id));
       const canEdit = isOwner || userIsAdmin || managesProject;
       const eventClassNames = [canEdit ? 'editable-event' : 'readonly-event'];
+      const dateOnly = dayjs(timesheet.date).format('YYYY-MM-DD');
+      const displayedRange = getDisplayedEntryRange({ ...timesheet, date: dateOnly }, timeDisplay, homeTimezone);
+      const siteTimezone = getEntryTimezone(timesheet, homeTimezone);
+      // Drag/resize only in the week time grid, and never for locked entries, in read-only mode
+      // or while the entry is shown converted to home time
+      const canDrag =
+        canEdit &&
+        !isReadOnlyMode &&
+        currentCalendarViewType === 'timeGridWeek' &&
+        !isTimesheetLocked(timesheet) &&
+        timesheet.permissions?.can_edit !== false &&
+        !displayedRange?.converted;
 
       const statusKey = timesheet.status && STATUS_STYLE_MAP[timesheet.status]
         ? timesheet.status
@@ -1875,15 +2766,26 @@ const TimesheetCalendar: React.FC = () => {
         eventClassNames.push('member-event');
       }
 
+      const isPendingSync = offlineOverlay.pendingIds.has(timesheet.id);
+      if (isPendingSync) {
+        eventClassNames.push('pending-sync-event');
+      }
+      if (timesheet.signoff_id) {
+        eventClassNames.push('signed-event');
+      }
+
       const statusStyle = STATUS_STYLE_MAP[statusKey] ?? STATUS_STYLE_MAP.default;
       const eventTextColor = '#0d47a1';
 
-      // Extract date in YYYY-MM-DD format
-      const dateOnly = dayjs(timesheet.date).format('YYYY-MM-DD');
+      // Entries recorded at a site in another timezone are labelled with it
+      const timezoneSuffix =
+        siteTimezone !== homeTimezone && displayedRange
+          ? ` (${getTimezoneLabel(siteTimezone, displayedRange.start.toDate())})`
+          : '';
 
       const eventData: EventInput = {
         id: timesheet.id.toString(),
-        title: `${timesheet.project?.name || t('timesheets.labels.projectFallback')} - ${decimalToHHMM(timesheet.hours_worked)}`,
+        title: `${isPendingSync ? '⟳ ' : ''}${timesheet.signoff_id ? '✍ ' : ''}${timesheet.project?.name || t('timesheets.labels.projectFallback')} - ${decimalToHHMM(timesheet.hours_worked)}${timezoneSuffix}`,
         backgroundColor: statusStyle.background,
         borderColor: '#e0e0e0',
         textColor: eventTextColor,
@@ -1898,10 +2800,16 @@ const TimesheetCalendar: React.FC = () => {
           status: timesheet.status,
           start_time: timesheet.start_time,
           end_time: timesheet.end_time,
+          breaks: timesheet.breaks,
+          timezone: siteTimezone,
+          convertedToHome: Boolean(displayedRange?.converted),
           isOwner,
           canEdit,
-          managesProject
+          managesProject,
+          isPendingSync
         },
+        startEditable: canDrag,
+        durationEditable: canDrag,
         className: eventClassNames.join(' ')
       };
 
@@ -1914,10 +2822,15 @@ const TimesheetCalendar: React.FC = () => {
         : timesheet.hours_worked;
       const workedMinutes = hoursDecimal * 60; // Convert to minutes
 
-      if (startDateTime) {
+      if (displayedRange) {
+        // Site or home wall-clock times; an end before the start is on the next day (overnight shift).
+        eventData.start = displayedRange.start.toDate();
+        eventData.end = displayedRange.end.toDate();
+        eventData.allDay = false;
+      } else if (startDateTime) {
         eventData.start = startDateTime.toDate();
 
-        // Use endDateTime if available and valid, otherwise calculate from duration
+        // Use endDateTime if available and valid, otherwise calculate from duration.
         if (endDateTime && endDateTime.isAfter(startDateTime)) {
           eventData.end = endDateTime.toDate();
         } else {
@@ -1932,7 +2845,25 @@ const TimesheetCalendar: React.FC = () => {
 
       return eventData;
     });
-  }, [uiFilteredTimesheets, user, userIsManager, userIsAdmin, isTimesheetOwnedByUser, t]);
+  }, [
+    uiFilteredTimesheets,
+    offlineOverlay.pendingIds,
+    user,
+    userIsManager,
+    userIsAdmin,
+    isReadOnlyMode,
+    currentCalendarViewType,
+    isTimesheetOwnedByUser,
+    timeDisplay,
+    homeTimezone,
+    t,
+  ]);
+
+  // Holidays and absences are drawn as all-day blocks behind the entries
+  const allCalendarEvents = useMemo(
+    () => [...holidayEvents, ...absenceEvents, ...calendarEvents],
+    [holidayEvents, absenceEvents, calendarEvents]
+  );
 
   const renderDayCellContent = (arg: DayCellContentArg) => {
     // Only month view gets the badge (same as before)
@@ -2091,6 +3022,11 @@ const TimesheetCalendar: React.FC = () => {
   // Custom event content renderer to show technician name
   // Event rendering - use eventDidMount instead of eventContent to preserve height calculation
   const handleEventDidMount = (info: EventMountArg) => {
+    if (info.event.extendedProps.absence || info.event.extendedProps.holiday) {
+      info.el.title = info.event.title;
+      return;
+    }
+
     const { technician, isOwner, project, task, location } = info.event.extendedProps;
     const technicianName = technician?.name || t('common.unknown');
     
@@ -2221,6 +3157,30 @@ const TimesheetCalendar: React.FC = () => {
           }
         }
       }
+
+      // Unpaid breaks show as hatched gaps across the event block.
+      // Overnight entries render as one block per day (split at the site midnight, so blocks of
+      // entries converted to home time are left without gaps).
+      const { start_time: startTime, end_time: endTime, breaks, convertedToHome } = info.event.extendedProps;
+      const blockPart = info.isStart && info.isEnd ? 'whole' : info.isStart ? 'first_day' : 'next_day';
+      const gapSegments = convertedToHome && blockPart !== 'whole' ? [] : getBreakGapSegments(startTime, endTime, breaks, blockPart);
+      gapSegments.forEach((segment) => {
+        const gap = document.createElement('div');
+        gap.className = 'timesheet-break-gap';
+        gap.style.cssText = `
+          position: absolute;
+          left: 0;
+          right: 0;
+          top: ${(segment.offset * 100).toFixed(2)}%;
+          height: ${(segment.size * 100).toFixed(2)}%;
+          background: repeating-linear-gradient(135deg, rgba(255,255,255,0.95) 0 4px, rgba(224,224,224,0.95) 4px 8px);
+          border-top: 1px dashed rgba(0,0,0,0.25);
+          border-bottom: 1px dashed rgba(0,0,0,0.25);
+          pointer-events: none;
+          z-index: 2;
+        `;
+        info.el.appendChild(gap);
+      });
     }
     
     // Customize dayGrid events (Month view) - add badge to title
@@ -2512,6 +3472,118 @@ const TimesheetCalendar: React.FC = () => {
               variant="outlined"
             />
           )}
+          <Tooltip title={`${historyLabel('undo')} (Ctrl+Z)`}>
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => void handleHistoryStep('undo')}
+                disabled={!history.past.length || historyBusy || isReadOnlyMode || !offlineQueue.isOnline}
+                aria-label={historyLabel('undo')}
+              >
+                <UndoIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={`${historyLabel('redo')} (Ctrl+Y)`}>
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => void handleHistoryStep('redo')}
+                disabled={!history.future.length || historyBusy || isReadOnlyMode || !offlineQueue.isOnline}
+                aria-label={historyLabel('redo')}
+              >
+                <RedoIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={currentCalendarViewType === 'timeGridWeek' ? '' : t('timesheets.copy.weekViewRequired')}>
+            <span>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<CopyIcon fontSize="small" />}
+                onClick={() => handleOpenCopyDialog('week')}
+                disabled={isReadOnlyMode || !offlineQueue.isOnline || currentCalendarViewType !== 'timeGridWeek'}
+                sx={{ textTransform: 'none' }}
+              >
+                {t('timesheets.copy.weekButton')}
+              </Button>
+            </span>
+          </Tooltip>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<CopyIcon fontSize="small" />}
+            onClick={() => handleOpenCopyDialog('day')}
+            disabled={isReadOnlyMode || !offlineQueue.isOnline}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.copy.dayButton')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<AbsenceIcon fontSize="small" />}
+            onClick={() =>
+              setAbsenceDialog({ open: true, absence: null, date: selectedDate ? formatDate(selectedDate) : currentWeekStartDate })
+            }
+            disabled={isReadOnlyMode || !offlineQueue.isOnline}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.absences.requestButton')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<SignoffIcon fontSize="small" />}
+            onClick={() =>
+              setSignoffDialog({ open: true, date: selectedDate ? formatDate(selectedDate) : currentWeekStartDate })
+            }
+            disabled={isReadOnlyMode || !offlineQueue.isOnline}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.signoff.button')}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<ImportIcon fontSize="small" />}
+            onClick={() => setImportDialogOpen(true)}
+            disabled={isReadOnlyMode || !offlineQueue.isOnline}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.import.button')}
+          </Button>
+          {currentCalendarViewType === 'timeGridWeek' && (
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={weekLayout}
+              onChange={(_, value: 'calendar' | 'grid' | null) => value && setWeekLayout(value)}
+              sx={{ '& .MuiToggleButton-root': { py: 0.25, px: 1, textTransform: 'none' } }}
+            >
+              <ToggleButton value="calendar" aria-label={t('timesheets.grid.layoutCalendar')}>
+                <CalendarLayoutIcon fontSize="small" sx={{ mr: 0.5 }} />
+                {t('timesheets.grid.layoutCalendar')}
+              </ToggleButton>
+              <ToggleButton value="grid" aria-label={t('timesheets.grid.layoutGrid')}>
+                <GridLayoutIcon fontSize="small" sx={{ mr: 0.5 }} />
+                {t('timesheets.grid.layoutGrid')}
+              </ToggleButton>
+            </ToggleButtonGroup>
+          )}
+          <Tooltip title={t('timesheets.timezone.displayTooltip', { timezone: homeTimezone })}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={timeDisplay}
+              onChange={handleTimeDisplayChange}
+              sx={{ '& .MuiToggleButton-root': { py: 0.25, px: 1, textTransform: 'none' } }}
+            >
+              <ToggleButton value="site">{t('timesheets.timezone.siteTime')}</ToggleButton>
+              <ToggleButton value="home">{t('timesheets.timezone.homeTime')}</ToggleButton>
+            </ToggleButtonGroup>
+          </Tooltip>
         </Box>
 
         <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center', justifyContent: 'flex-end' }}>
@@ -2525,6 +3597,30 @@ const TimesheetCalendar: React.FC = () => {
         </Box>
       </Box>
 
+      {currentCalendarViewType === 'timeGridWeek' && (
+        <WeekSubmissionBanner
+          week={weekStatus}
+          issues={weekIssues}
+          submitting={weekSubmitting}
+          disabled={isReadOnlyMode || !offlineQueue.isOnline || offlineQueue.pending.length > 0}
+          tenantContext={tenantContext}
+          onSubmit={() => void handleSubmitWeek()}
+        />
+      )}
+
+      <OfflineSyncPanel
+        isOnline={offlineQueue.isOnline}
+        isSyncing={offlineQueue.isSyncing}
+        pending={offlineQueue.pending}
+        conflicts={offlineQueue.conflicts}
+        projects={projects}
+        tenantContext={tenantContext}
+        onSyncNow={() => void offlineQueue.syncNow()}
+        onEdit={handleOfflineEdit}
+        onRetry={(mutation) => void handleOfflineRetry(mutation)}
+        onDiscard={(mutation) => void offlineQueue.discard(mutation.id)}
+      />
+
       <RightPanelTrigger
         tabId="timesheet-insights"
         tooltip={t('rightPanel.trigger.tooltip')}
@@ -2545,8 +3641,28 @@ const TimesheetCalendar: React.FC = () => {
         sx={{ zIndex: theme.zIndex.drawer + 2 }}
       />
 
-      {/* Calendar Container - Scrollable */}
-      <Box ref={calendarContainerRef} sx={{ flex: 1, minWidth: 0, display: 'flex' }}>
+      {showWeekGrid && (
+        <TimesheetWeekGrid
+          dates={weekGridDates}
+          entries={weekGridEntries}
+          projects={projects}
+          tasks={tasks}
+          locations={locations}
+          readOnly={
+            isReadOnlyMode ||
+            !offlineQueue.isOnline ||
+            Boolean(weekStatus?.locked && !userIsManager && !userIsAdmin)
+          }
+          summaryLabel={weeklySummaryPillLabel}
+          tenantContext={tenantContext}
+          onPrevWeek={() => calendarRef.current?.getApi().prev()}
+          onNextWeek={() => calendarRef.current?.getApi().next()}
+          onSaved={handleWeekGridSaved}
+        />
+      )}
+
+      {/* Calendar Container - Scrollable (kept mounted under the grid so week navigation keeps working) */}
+      <Box ref={calendarContainerRef} sx={{ flex: 1, minWidth: 0, display: showWeekGrid ? 'none' : 'flex' }}>
         <Paper 
           elevation={0}
           data-tour="timesheets-calendar"
@@ -2782,6 +3898,28 @@ const TimesheetCalendar: React.FC = () => {
               fontWeight: 400
             }
           },
+          // Entries waiting in the offline queue
+          '& .pending-sync-event': {
+            borderStyle: 'dashed !important',
+            borderColor: '#f9a825 !important'
+          },
+          // Entries signed off by the customer (frozen)
+          '& .signed-event': {
+            borderLeft: '3px solid #2e7d32 !important'
+          },
+          // Public holidays of the shown workers
+          '& .holiday-event': {
+            backgroundColor: 'rgba(2, 136, 209, 0.12)',
+            color: '#01579b',
+            fontSize: '0.7rem',
+            fontStyle: 'italic',
+            opacity: 1
+          },
+          // Absences waiting for approval
+          '& .absence-pending': {
+            borderStyle: 'dashed !important',
+            fontStyle: 'italic'
+          },
           '& .readonly-event': {
             opacity: 0.6,
             cursor: 'not-allowed !important',
@@ -2810,7 +3948,7 @@ const TimesheetCalendar: React.FC = () => {
               listWeek: t('timesheets.calendar.weekList'),
               listMonth: t('timesheets.calendar.monthList')
             }}
-            events={calendarEvents}
+            events={allCalendarEvents}
             selectable={!isReadOnlyMode}
             selectMirror={true}
             selectOverlap={true}
@@ -2826,6 +3964,9 @@ const TimesheetCalendar: React.FC = () => {
             weekends={true}
             select={handleDateSelect}
             eventClick={handleEventClick}
+            eventChange={(changeInfo) => void handleEventTimeChange(changeInfo)}
+            // Overnight spans are fine; buildTimesheetTimeChange refuses whatever the API would not take.
+            eventAllow={(dropInfo) => !isReadOnlyMode && dayjs(dropInfo.end).diff(dayjs(dropInfo.start), 'minute') < 24 * 60}
             dateClick={handleDateClick}
             height="100%" // Usar 100% da altura disponível
             locale={fullCalendarLocaleInput}
@@ -2893,7 +4034,7 @@ const TimesheetCalendar: React.FC = () => {
             eventLongPressDelay={isMobile ? 150 : 1000}
             // Improve touch interactions  
             selectMinDistance={isMobile ? 3 : 0}
-            // Ensure events are clickable on all devices
+            // Drag/resize is enabled per event (week view only, see calendarEvents)
             eventStartEditable={false}
             eventDurationEditable={false}
             // Additional mobile optimizations
@@ -2903,7 +4044,7 @@ const TimesheetCalendar: React.FC = () => {
                 ? (isMobile ? { weekday: 'short' } : { weekday: 'long' })
                 : (isMobile ? { weekday: 'short', day: 'numeric' } : { weekday: 'long', day: 'numeric' })
             }
-            allDaySlot={false} // Remove all-day slot - not used
+            allDaySlot={absenceEvents.length > 0 || holidayEvents.length > 0} // Only absences and holidays use the all-day slot
             nowIndicator={true} // Mostrar linha do horário atual
           />
         </Paper>
@@ -3076,6 +4217,17 @@ const TimesheetCalendar: React.FC = () => {
                 )}
 
                 <Grid container spacing={1.5}>
+                  {!selectedEntry && (
+                    <Grid item xs={12}>
+                      <TimesheetQuickPicks
+                        active={dialogOpen && !selectedEntry}
+                        current={quickPickCurrent}
+                        currentLabel={quickPickLabel}
+                        onApply={handleApplyQuickPick}
+                      />
+                    </Grid>
+                  )}
+
                   {/* Worker Selection Row - FIRST */}
                   <Grid item xs={12}>
                     <Paper sx={{ p: 1.5, borderRadius: 2, bgcolor: 'white' }}>
@@ -3147,10 +4299,10 @@ const TimesheetCalendar: React.FC = () => {
                             value={startTimeObj}
                             onChange={(newTime) => {
                               setStartTimeObj(newTime);
-                              // Only auto-adjust end time if it would become invalid (before start time)
+                              // Only auto-adjust end time if it would become invalid (equal to start time);
+                              // an end before the start is the next day (overnight shift)
                               if (newTime && endTimeObj) {
-                                // If new start time is after current end time, adjust end time
-                                if (newTime.isAfter(endTimeObj) || newTime.isSame(endTimeObj)) {
+                                if (timeToString(newTime) === timeToString(endTimeObj)) {
                                   const newEndTime = newTime.add(1, 'hour');
                                   setEndTimeObj(newEndTime);
                                 }
@@ -3186,11 +4338,39 @@ const TimesheetCalendar: React.FC = () => {
                               textField: {
                                 fullWidth: true,
                                 variant: 'outlined',
-                                size: 'small'
+                                size: 'small',
+                                helperText: isOvernightShift(timeToString(startTimeObj), timeToString(endTimeObj))
+                                  ? t('timesheets.overnight.endsNextDay')
+                                  : undefined
                               }
                             }}
                           />
                         </Grid>
+
+                        {formAbsenceConflict && (
+                          <Grid item xs={12}>
+                            <Alert severity="error" sx={{ py: 0 }}>
+                              {formAbsenceConflict}
+                            </Alert>
+                          </Grid>
+                        )}
+
+                        {selectedSiteTimezone && (
+                          <Grid item xs={12}>
+                            <Typography variant="caption" color="text.secondary">
+                              {t('timesheets.timezone.siteTimeHint', { timezone: selectedSiteTimezone })}
+                            </Typography>
+                          </Grid>
+                        )}
+
+                        <Grid item xs={12}>
+                          <TimesheetBreaksEditor
+                            breaks={breaks}
+                            onChange={setBreaks}
+                            startTime={startTimeObj?.isValid() ? timeToString(startTimeObj) : null}
+                            endTime={endTimeObj?.isValid() ? timeToString(endTimeObj) : null}
+                          />
+                        </Grid>
                       </Grid>
                     </Paper>
                   </Grid>
@@ -3372,6 +4552,34 @@ const TimesheetCalendar: React.FC = () => {
                       />
                     </Paper>
                   </Grid>
+
+                  {selectedEntry?.status === 'rejected' && (
+                    <Grid item xs={12}>
+                      <TextField
+                        fullWidth
+                        multiline
+                        size="small"
+                        minRows={1}
+                        maxRows={3}
+                        label={t('timesheets.thread.resubmissionNote')}
+                        helperText={t('timesheets.thread.resubmissionNoteHelp')}
+                        value={resubmissionNote}
+                        onChange={(e) => setResubmissionNote(e.target.value)}
+                        inputProps={{ maxLength: 1000 }}
+                        sx={{ bgcolor: 'white' }}
+                      />
+                    </Grid>
+                  )}
+
+                  {selectedEntry && selectedEntry.id > 0 && offlineQueue.isOnline && (
+                    <Grid item xs={12}>
+                      <TimesheetActivityThread
+                        timesheetId={selectedEntry.id}
+                        disabled={isReadOnlyMode}
+                        refreshKey={selectedEntry.status}
+                      />
+                    </Grid>
+                  )}
                 </Grid>
               </Box>
             </Fade>
@@ -3562,6 +4770,49 @@ const TimesheetCalendar: React.FC = () => {
           </DialogActions>
         </Dialog>
 
+        <AbsenceRequestDialog
+          open={absenceDialog.open}
+          absence={absenceDialog.absence}
+          defaultDate={absenceDialog.date}
+          tenantContext={tenantContext}
+          canCancel={Boolean(
+            absenceDialog.absence &&
+              (absenceDialog.absence.technician?.user_id === user?.id || userIsManager || userIsAdmin)
+          )}
+          onClose={() => setAbsenceDialog({ open: false, absence: null, date: null })}
+          onSaved={handleAbsenceSaved}
+        />
+
+        <TimesheetSignoffDialog
+          open={signoffDialog.open}
+          timesheets={uiFilteredTimesheets}
+          defaultDate={signoffDialog.date}
+          weekFirstDay={weekFirstDay}
+          tenantContext={tenantContext}
+          canSign={canSignTimesheet}
+          onClose={() => setSignoffDialog({ open: false, date: null })}
+          onSigned={handleSignoffSigned}
+        />
+
+        <TimesheetImportDialog
+          open={importDialogOpen}
+          tenantContext={tenantContext}
+          onClose={() => setImportDialogOpen(false)}
+          onImported={handleImported}
+        />
+
+        <CopyTimesheetsDialog
+          open={copyDialogMode !== null}
+          mode={copyDialogMode ?? 'week'}
+          targetWeekStart={currentWeekStartDate}
+          defaultSourceDate={selectedDate ? formatDate(selectedDate) : currentWeekStartDate}
+          dailyHourCap={DAILY_HOUR_CAP}
+          tenantContext={tenantContext}
+          canCopyEntry={isTimesheetOwnedByUser}
+          onClose={() => setCopyDialogMode(null)}
+          onCopied={(result) => void handleCopied(result)}
+        />
+
         <ConfirmationDialog
           open={confirmDialog.open}
           title={confirmDialog.title}
@@ -12,9 +12,13 @@ import {
 } from '@mui/icons-material';
 import dayjs, { Dayjs } from 'dayjs';
 import { useTranslation } from 'react-i18next';
-import type { Timesheet, Project, Task, Location } from '../../types';
+import type { Timesheet, TimesheetBreak, Project, Task, Location } from '../../types';
 import { useAuth } from '../Auth/AuthContext';
 import { getTenantDatePickerFormat, getTenantHourCycle, getTenantTimeFormat } from '../../utils/tenantFormatting';
+import TimesheetActivityThread from './TimesheetActivityThread';
+import TimesheetBreaksEditor from './TimesheetBreaksEditor';
+import { DEFAULT_BREAK_RULE, computeWorkedHours, isBlockingBreakIssue, normalizeBreaks, validateBreaks } from './timesheetBreaks';
+import { isOvernightShift } from '../../utils/timesheetShift';
 
 interface TimesheetEditDialogProps {
   open: boolean;
@@ -57,13 +61,15 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
   const [startTimeObj, setStartTimeObj] = useState<Dayjs | null>(null);
   const [endTimeObj, setEndTimeObj] = useState<Dayjs | null>(null);
   const [description, setDescription] = useState('');
+  const [breaks, setBreaks] = useState<TimesheetBreak[]>([]);
 
-  // Calculate hours worked
-  const hoursWorked = useMemo(() => {
-    if (!startTimeObj || !endTimeObj) return 0;
-    const diff = endTimeObj.diff(startTimeObj, 'minute');
-    return Math.max(0, Math.round((diff / 60) * 100) / 100);
-  }, [startTimeObj, endTimeObj]);
+  const startTime = startTimeObj?.isValid() ? startTimeObj.format('HH:mm') : null;
+  const endTime = endTimeObj?.isValid() ? endTimeObj.format('HH:mm') : null;
+
+  // Calculate hours worked (unpaid breaks excluded)
+  const hoursWorked = useMemo(() => computeWorkedHours(startTime, endTime, breaks), [startTime, endTime, breaks]);
+  const breakRule = tenantContext?.break_rule ?? DEFAULT_BREAK_RULE;
+  const breaksBlocked = isBlockingBreakIssue(validateBreaks(startTime, endTime, breaks, breakRule), breakRule);
 
   // Filter tasks by selected project
   const filteredTasks = useMemo(() => {
@@ -92,6 +98,7 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
       setTaskId(timesheet.task_id || (timesheet as any).task?.id || 0);
       setLocationId(timesheet.location_id || (timesheet as any).location?.id || 0);
       setDescription(timesheet.description || '');
+      setBreaks(normalizeBreaks(timesheet.breaks));
       
       if (timesheet.start_time) {
         setStartTimeObj(dayjs(`2023-01-01 ${timesheet.start_time}`));
@@ -108,6 +115,7 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
       setStartTimeObj(dayjs().hour(9).minute(0));
       setEndTimeObj(dayjs().hour(17).minute(0));
       setDescription('');
+      setBreaks([]);
     }
   }, [timesheet, open]);
 
@@ -139,6 +147,10 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
       return;
     }
 
+    if (breaksBlocked) {
+      return;
+    }
+
     try {
       setLoading(true);
       
@@ -150,7 +162,8 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
         start_time: startTimeObj.format('HH:mm'),
         end_time: endTimeObj.format('HH:mm'),
         hours_worked: hoursWorked,
-        description: description.trim()
+        description: description.trim(),
+        breaks
       };
 
       await onSave(data);
@@ -299,7 +312,13 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
                         format={timePickerFormat}
                         minutesStep={15}
                         disabled={!isEditable}
-                        slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+                        slotProps={{
+                          textField: {
+                            fullWidth: true,
+                            size: 'small',
+                            helperText: isOvernightShift(startTime, endTime) ? t('timesheets.overnight.endsNextDay') : undefined,
+                          },
+                        }}
                       />
                     </Grid>
                     
@@ -320,6 +339,15 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
                         }}
                       />
                     </Grid>
+                    <Grid item xs={12}>
+                      <TimesheetBreaksEditor
+                        breaks={breaks}
+                        onChange={setBreaks}
+                        startTime={startTime}
+                        endTime={endTime}
+                        disabled={!isEditable}
+                      />
+                    </Grid>
                   </Grid>
                 </Paper>
               </Grid>
@@ -417,6 +445,17 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
                   />
                 </Paper>
               </Grid>
+
+              {/* Discussion & status history */}
+              {timesheet?.id && (
+                <Grid item xs={12}>
+                  <TimesheetActivityThread
+                    timesheetId={timesheet.id}
+                    disabled={readOnly}
+                    refreshKey={timesheet.status}
+                  />
+                </Grid>
+              )}
             </Grid>
           </Box>
         </Fade>
@@ -432,7 +471,7 @@ const TimesheetEditDialog: React.FC<TimesheetEditDialogProps> = ({
             onClick={handleSave}
             color="primary"
             variant="contained"
-            disabled={loading}
+            disabled={loading || breaksBlocked}
           >
             {loading ? t('common.saving') : t('common.save')}
           </Button>
@@ -0,0 +1,401 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Download as DownloadIcon, UploadFile as UploadIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { timesheetImportApi } from '../../services/api';
+import type { TimesheetImportResponse, TimesheetImportRow } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantNumber, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  applyImportDefaults,
+  buildRejectionReport,
+  detectDateFormat,
+  downloadTextFile,
+  guessColumnMapping,
+  isIcsFile,
+  mapCsvRows,
+  parseCsv,
+  parseIcsEvents,
+} from './timesheetImport';
+import type { ImportColumnMapping, ImportDateFormat, ImportDefaults, ImportField } from './timesheetImport';
+
+interface TimesheetImportDialogProps {
+  open: boolean;
+  tenantContext: TenantContext | null;
+  onClose: () => void;
+  onImported: (createdCount: number) => void;
+}
+
+const MAX_ROWS = 500;
+const EMPTY_DEFAULTS: ImportDefaults = { project: '', task: '', location: '' };
+
+/**
+ * Import wizard for the user's timesheet history: upload a CSV or .ics file, map the columns,
+ * check every row on the server, then create the valid ones and download the rejected ones.
+ */
+const TimesheetImportDialog: React.FC<TimesheetImportDialogProps> = ({ open, tenantContext, onClose, onImported }) => {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState<'csv' | 'ics'>('csv');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [icsRows, setIcsRows] = useState<TimesheetImportRow[]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [defaults, setDefaults] = useState<ImportDefaults>(EMPTY_DEFAULTS);
+  const [preview, setPreview] = useState<TimesheetImportResponse | null>(null);
+  const [result, setResult] = useState<TimesheetImportResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep(0);
+    setFileName('');
+    setCsvRows([]);
+    setIcsRows([]);
+    setMapping({});
+    setDefaults(EMPTY_DEFAULTS);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+  }, [open]);
+
+  const rows = useMemo(() => {
+    const mapped = source === 'ics' ? icsRows : mapCsvRows(hasHeader ? csvRows.slice(1) : csvRows, mapping, dateFormat);
+    return applyImportDefaults(mapped, defaults);
+  }, [source, icsRows, csvRows, hasHeader, mapping, dateFormat, defaults]);
+
+  const columnCount = csvRows.reduce((max, cells) => Math.max(max, cells.length), 0);
+  const columnLabels = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && csvRows[0]?.[index] ? csvRows[0][index] : t('timesheets.import.column', { index: index + 1 })
+  );
+
+  const fieldLabel = (field: ImportField) => t(`timesheets.import.fields.${field}`);
+
+  const getErrorMessage = (err: unknown): string => {
+    const response = (err as { response?: { data?: { message?: unknown } } }).response;
+    return (typeof response?.data?.message === 'string' && response.data.message) || t('timesheets.import.failed');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setPreview(null);
+    const text = await file.text();
+    setFileName(file.name);
+
+    if (isIcsFile(file.name, text)) {
+      const events = parseIcsEvents(text);
+      setSource('ics');
+      setIcsRows(events);
+      setCsvRows([]);
+      if (events.length === 0) {
+        setError(t('timesheets.import.noEvents'));
+        return;
+      }
+    } else {
+      const parsed = parseCsv(text);
+      setSource('csv');
+      setCsvRows(parsed);
+      setIcsRows([]);
+      setHasHeader(true);
+      const guessed = guessColumnMapping(parsed[0] ?? []);
+      setMapping(guessed);
+      const fallback = getTenantDatePickerFormat(tenantContext) as ImportDateFormat;
+      setDateFormat(
+        guessed.date !== undefined ? detectDateFormat(parsed.slice(1).map((cells) => cells[guessed.date ?? 0] ?? ''), fallback) : fallback
+      );
+      if (parsed.length < 2) {
+        setError(t('timesheets.import.noRows'));
+        return;
+      }
+    }
+
+    setStep(1);
+  };
+
+  const handleCheck = async () => {
+    if (rows.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await timesheetImportApi.preview(rows, source));
+      setStep(2);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await timesheetImportApi.import(rows, source);
+      setResult(response);
+      setStep(3);
+      onImported(response.created_ids?.length ?? 0);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownloadReport = (response: TimesheetImportResponse) => {
+    const headers = {
+      row: t('timesheets.import.row'),
+      errors: t('timesheets.import.errors'),
+      ...Object.fromEntries(IMPORT_FIELDS.map((field) => [field, fieldLabel(field)])),
+    } as { row: string; errors: string } & Record<ImportField, string>;
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'timesheets';
+    downloadTextFile(buildRejectionReport(rows, response.data, headers), `${baseName}-rejected.csv`);
+  };
+
+  const mappingComplete = source === 'ics' || (mapping.date !== undefined && mapping.start_time !== undefined && mapping.end_time !== undefined);
+
+  const renderMapping = () => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        {t(source === 'ics' ? 'timesheets.import.icsSummary' : 'timesheets.import.csvSummary', { count: rows.length, file: fileName })}
+      </Typography>
+
+      {source === 'csv' && (
+        <>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <FormControlLabel
+              control={<Checkbox size="small" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />}
+              label={t('timesheets.import.hasHeader')}
+            />
+            <TextField
+              select
+              size="small"
+              label={t('timesheets.import.dateFormat')}
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+              sx={{ minWidth: 160 }}
+            >
+              {IMPORT_DATE_FORMATS.map((format) => (
+                <MenuItem key={format} value={format}>
+                  {format}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 1.5 }}>
+            {IMPORT_FIELDS.map((field) => (
+              <TextField
+                key={field}
+                select
+                size="small"
+                label={fieldLabel(field)}
+                required={field === 'date' || field === 'start_time' || field === 'end_time'}
+                value={mapping[field] ?? ''}
+                onChange={(e) =>
+                  setMapping((current) => ({ ...current, [field]: e.target.value === '' ? undefined : Number(e.target.value) }))
+                }
+              >
+                <MenuItem value="">{t('timesheets.import.notMapped')}</MenuItem>
+                {columnLabels.map((label, index) => (
+                  <MenuItem key={index} value={index}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            ))}
+          </Box>
+        </>
+      )}
+
+      <Typography variant="subtitle2">{t('timesheets.import.defaultsTitle')}</Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ mt: -1.5 }}>
+        {t('timesheets.import.defaultsHint')}
+      </Typography>
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 1.5 }}>
+        {(['project', 'task', 'location'] as const).map((field) => (
+          <TextField
+            key={field}
+            size="small"
+            label={fieldLabel(field)}
+            value={defaults[field]}
+            onChange={(e) => setDefaults((current) => ({ ...current, [field]: e.target.value }))}
+            inputProps={{ maxLength: 255 }}
+          />
+        ))}
+      </Box>
+
+      {rows.length > MAX_ROWS && <Alert severity="warning">{t('timesheets.import.tooManyRows', { max: MAX_ROWS })}</Alert>}
+    </Box>
+  );
+
+  const renderResults = (response: TimesheetImportResponse) => (
+    <Table size="small" stickyHeader>
+      <TableHead>
+        <TableRow>
+          <TableCell>{t('timesheets.import.row')}</TableCell>
+          <TableCell>{fieldLabel('date')}</TableCell>
+          <TableCell>{t('timesheets.import.time')}</TableCell>
+          <TableCell>{t('timesheets.import.entry')}</TableCell>
+          <TableCell>{t('timesheets.import.status')}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {response.data.map((item) => {
+          const row = rows[item.row - 1];
+          return (
+            <TableRow key={item.row} sx={item.valid ? undefined : { bgcolor: 'rgba(211, 47, 47, 0.04)' }}>
+              <TableCell>{item.row}</TableCell>
+              <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                {item.entry ? formatTenantDate(item.entry.date, tenantContext) : row?.date || '—'}
+              </TableCell>
+              <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                {item.entry
+                  ? `${item.entry.start_time}–${item.entry.end_time} · ${formatTenantNumber(item.entry.hours_worked, tenantContext, 2)} h`
+                  : `${row?.start_time || '?'}–${row?.end_time || '?'}`}
+              </TableCell>
+              <TableCell>
+                <Typography variant="body2">
+                  {item.entry
+                    ? [item.entry.project_name, item.entry.task_name, item.entry.location_name].join(' · ')
+                    : [row?.project, row?.task, row?.location].filter(Boolean).join(' · ') || '—'}
+                </Typography>
+                {[...item.errors, ...item.warnings].map((message) => (
+                  <Typography key={message} variant="caption" display="block" color={item.errors.includes(message) ? 'error' : 'text.secondary'}>
+                    {message}
+                  </Typography>
+                ))}
+              </TableCell>
+              <TableCell>
+                <Chip
+                  size="small"
+                  color={item.valid ? 'success' : 'error'}
+                  variant="outlined"
+                  label={item.valid ? t('timesheets.import.valid') : t('timesheets.import.invalid')}
+                />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+
+  const steps = [t('timesheets.import.steps.upload'), t('timesheets.import.steps.map'), t('timesheets.import.steps.preview'), t('timesheets.import.steps.done')];
+  const report = step === 3 ? result : preview;
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('timesheets.import.title')}</DialogTitle>
+      <DialogContent dividers>
+        <Stepper activeStep={step} alternativeLabel sx={{ mb: 2 }}>
+          {steps.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {step === 0 && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1.5, py: 3 }}>
+            <Typography variant="body2" color="text.secondary" align="center">
+              {t('timesheets.import.uploadHint')}
+            </Typography>
+            <Button variant="contained" startIcon={<UploadIcon />} onClick={() => fileInputRef.current?.click()}>
+              {t('timesheets.import.chooseFile')}
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".csv,.ics,text/csv,text/calendar" hidden onChange={(e) => void handleFile(e)} />
+          </Box>
+        )}
+
+        {step === 1 && renderMapping()}
+
+        {step === 2 && preview && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            <Alert severity={preview.summary.invalid > 0 ? 'warning' : 'success'}>
+              {t('timesheets.import.previewSummary', { valid: preview.summary.valid, invalid: preview.summary.invalid })}
+            </Alert>
+            <Box sx={{ maxHeight: 380, overflow: 'auto' }}>{renderResults(preview)}</Box>
+          </Box>
+        )}
+
+        {step === 3 && result && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            <Alert severity={result.summary.invalid > 0 ? 'warning' : 'success'}>
+              {t('timesheets.import.doneSummary', { created: result.created_ids?.length ?? 0, rejected: result.summary.invalid })}
+            </Alert>
+            {result.summary.invalid > 0 && <Box sx={{ maxHeight: 300, overflow: 'auto' }}>{renderResults(result)}</Box>}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {report && report.summary.invalid > 0 && (
+          <Button startIcon={<DownloadIcon />} onClick={() => handleDownloadReport(report)} sx={{ mr: 'auto', textTransform: 'none' }}>
+            {t('timesheets.import.downloadReport')}
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={busy}>
+          {step === 3 ? t('common.close') : t('common.cancel')}
+        </Button>
+        {(step === 1 || step === 2) && (
+          <Button onClick={() => setStep(step - 1)} disabled={busy}>
+            {t('timesheets.import.back')}
+          </Button>
+        )}
+        {step === 1 && (
+          <Button
+            variant="contained"
+            onClick={() => void handleCheck()}
+            disabled={busy || !mappingComplete || rows.length === 0 || rows.length > MAX_ROWS}
+          >
+            {t('timesheets.import.check')}
+          </Button>
+        )}
+        {step === 2 && preview && (
+          <Button variant="contained" onClick={() => void handleImport()} disabled={busy || preview.summary.valid === 0}>
+            {t('timesheets.import.importValid', { count: preview.summary.valid })}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TimesheetImportDialog;
@@ -22,7 +22,7 @@ import {
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import dayjs from 'dayjs';
-import api from '../../services/api';
+import api, { timesheetsApi } from '../../services/api';
 import PageHeader from '../Common/PageHeader';
 import { useBilling } from '../../contexts/BillingContext';
 import { getTenantAiState } from '../Common/aiState';
@@ -32,6 +32,16 @@ import { useTranslation } from 'react-i18next';
 import type { TFunction } from 'i18next';
 import { useAuth } from '../Auth/AuthContext';
 import { formatTenantDate, formatTenantNumber, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+import { getVisibleTimesheets } from '../../utils/getVisibleTimesheets';
+import { weekStartToFirstDay } from '../../utils/weekStartToFirstDay';
+import {
+  computeOvertimeBreakdown,
+  getWorkweekStart,
+  resolveOvertimePolicyKey,
+  sumOvertime,
+} from '../../utils/overtimePolicy';
+import type { OvertimeDayBreakdown } from '../../utils/overtimePolicy';
+import OvertimeDayBreakdownTable from './OvertimeDayBreakdownTable';
 
 type Period = 'day' | 'week' | 'month';
 type Dimension = 'user' | 'project';
@@ -347,7 +357,7 @@ const getFilenameFromContentDisposition = (headerValue: string | undefined): str
 
 const TimesheetPivotReport: React.FC = () => {
   const { t } = useTranslation();
-  const { tenantContext } = useAuth();
+  const { tenant, tenantContext } = useAuth();
   const datePickerFormat = getTenantDatePickerFormat(tenantContext);
   const { billingSummary, tenantAiEnabled, openCheckoutForAddon } = useBilling();
   const aiState = getTenantAiState(billingSummary, tenantAiEnabled);
@@ -472,6 +482,62 @@ const TimesheetPivotReport: React.FC = () => {
     }
   }, [data]);
 
+  const overtimePolicyKey = useMemo(() => resolveOvertimePolicyKey(tenantContext), [tenantContext]);
+  const weekFirstDay = weekStartToFirstDay(tenantContext?.week_start ?? tenant?.week_start);
+
+  const [overtime, setOvertime] = useState<{ days: OvertimeDayBreakdown[]; technicianNames: Map<number, string> } | null>(
+    null
+  );
+  const [overtimeLoading, setOvertimeLoading] = useState(false);
+
+  // Weekly overtime needs whole workweeks, so the entries are loaded from the start of the first
+  // workweek to the end of the last one and only the days inside the range are reported.
+  useEffect(() => {
+    let mounted = true;
+
+    const run = async () => {
+      if (!canQuery || overtimePolicyKey === 'NON-US') {
+        setOvertime(null);
+        return;
+      }
+
+      const rangeStart = getWorkweekStart(from, weekFirstDay);
+      const rangeEnd = dayjs(getWorkweekStart(to, weekFirstDay)).add(6, 'day').format('YYYY-MM-DD');
+
+      setOvertimeLoading(true);
+      try {
+        const entries = getVisibleTimesheets(await timesheetsApi.getAll({ start_date: rangeStart, end_date: rangeEnd }));
+        if (!mounted) return;
+
+        const technicianNames = new Map<number, string>();
+        entries.forEach((entry) => {
+          if (entry.technician?.name) technicianNames.set(entry.technician_id, entry.technician.name);
+        });
+        const days = computeOvertimeBreakdown(entries, { policyKey: overtimePolicyKey, weekFirstDay }).filter(
+          (day) => day.date >= from && day.date <= to
+        );
+        setOvertime({ days, technicianNames });
+      } catch (e) {
+        console.error('Failed to load overtime breakdown:', e);
+        if (mounted) setOvertime(null);
+      } finally {
+        if (mounted) setOvertimeLoading(false);
+      }
+    };
+
+    void run();
+
+    return () => {
+      mounted = false;
+    };
+  }, [canQuery, from, to, overtimePolicyKey, weekFirstDay]);
+
+  const overtimeTotals = useMemo(() => (overtime ? sumOvertime(overtime.days) : null), [overtime]);
+  const overtimeDaysWithOvertime = useMemo(
+    () => (overtime?.days ?? []).filter((day) => day.overtime_hours_1_5 > 0 || day.overtime_hours_2_0 > 0),
+    [overtime]
+  );
+
   const handleExport = async (format: 'csv' | 'xlsx') => {
     if (!canQuery) return;
 
@@ -956,6 +1022,55 @@ const TimesheetPivotReport: React.FC = () => {
             </TableContainer>
           </>
         )}
+
+        {overtimePolicyKey !== 'NON-US' && canQuery && (
+          <Card variant="outlined">
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1, mb: 1.5 }}>
+                <Typography variant="subtitle1" fontWeight={600}>
+                  {t('timesheets.overtime.reportTitle')}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {t('timesheets.overtime.policy', { policy: overtimePolicyKey })}
+                </Typography>
+              </Box>
+
+              {overtimeLoading && <CircularProgress size={20} />}
+
+              {!overtimeLoading && overtime && overtimeTotals && (
+                <Stack spacing={1.5}>
+                  <Grid container spacing={1}>
+                    {(
+                      [
+                        ['regular', overtimeTotals.regular_hours],
+                        ['ot15', overtimeTotals.overtime_hours_1_5],
+                        ['ot20', overtimeTotals.overtime_hours_2_0],
+                      ] as const
+                    ).map(([key, value]) => (
+                      <Grid key={key} item xs={12} sm={4}>
+                        <Typography variant="caption" color="text.secondary">
+                          {t(`timesheets.overtime.columns.${key}`)}
+                        </Typography>
+                        <Typography variant="body1" fontWeight={700}>
+                          {t('common.hoursShort', { value: formatTenantNumber(value, tenantContext, 2) })}
+                        </Typography>
+                      </Grid>
+                    ))}
+                  </Grid>
+
+                  <TableContainer>
+                    <OvertimeDayBreakdownTable
+                      days={overtimeDaysWithOvertime}
+                      tenantContext={tenantContext}
+                      technicianNames={overtime.technicianNames}
+                      emptyLabel={t('timesheets.overtime.noOvertimeDays')}
+                    />
+                  </TableContainer>
+                </Stack>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </Stack>
 
       <ReportAISideTab
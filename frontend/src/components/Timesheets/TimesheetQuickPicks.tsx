@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Button, Chip, Paper, TextField, Tooltip, Typography } from '@mui/material';
+import {
+  BookmarkAdd as SaveTemplateIcon,
+  History as RecentIcon,
+  PushPin as PinIcon,
+  Star as FavouriteIcon,
+} from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { timesheetTemplatesApi } from '../../services/api';
+import type { RecentTimesheetCombo, TimesheetTemplate, TimesheetTemplateFormData } from '../../types';
+import { getComboLabel, getQuickPicks, getQuickPickValues } from './timesheetTemplates';
+import type { QuickPick, QuickPickValues } from './timesheetTemplates';
+
+interface TimesheetQuickPicksProps {
+  /** Loads the templates when it turns true (the entry dialog opened for a new entry). */
+  active: boolean;
+  /** Current form values, offered as a new template; null until project and task are chosen. */
+  current: Omit<TimesheetTemplateFormData, 'name'> | null;
+  currentLabel: string;
+  onApply: (values: QuickPickValues) => void;
+}
+
+/**
+ * One-click templates and recent project/task/location combinations for the entry dialog.
+ * Recent combinations can be pinned as favourites and the current form saved as a template.
+ */
+const TimesheetQuickPicks: React.FC<TimesheetQuickPicksProps> = ({ active, current, currentLabel, onApply }) => {
+  const { t } = useTranslation();
+  const [templates, setTemplates] = useState<TimesheetTemplate[]>([]);
+  const [recents, setRecents] = useState<RecentTimesheetCombo[]>([]);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [templateResponse, recentResponse] = await Promise.all([
+        timesheetTemplatesApi.getAll(),
+        timesheetTemplatesApi.getRecent(),
+      ]);
+      setTemplates(templateResponse.data);
+      setRecents(recentResponse.data);
+    } catch {
+      // Quick picks are optional; the form works without them
+      setTemplates([]);
+      setRecents([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    setNaming(false);
+    setError(null);
+    void load();
+  }, [active, load]);
+
+  const picks = useMemo(() => getQuickPicks(templates, recents, { includeInvalid: true }), [templates, recents]);
+
+  const getErrorMessage = (err: unknown): string => {
+    const response = (err as { response?: { data?: { message?: unknown } } }).response;
+    return (typeof response?.data?.message === 'string' && response.data.message) || t('timesheets.templates.saveFailed');
+  };
+
+  const save = async (data: TimesheetTemplateFormData) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await timesheetTemplatesApi.create(data);
+      setNaming(false);
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = (pick: QuickPick) => {
+    if (pick.kind === 'template') {
+      if (!pick.template.valid) return;
+      void timesheetTemplatesApi.markUsed(pick.template.id).catch(() => undefined);
+    }
+    onApply(getQuickPickValues(pick));
+  };
+
+  const handlePin = (combo: RecentTimesheetCombo) =>
+    void save({
+      name: getComboLabel(combo) || t('timesheets.templates.untitled'),
+      project_id: combo.project_id,
+      task_id: combo.task_id,
+      location_id: combo.location_id,
+      start_time: combo.start_time,
+      end_time: combo.end_time,
+      is_favourite: true,
+    });
+
+  const handleDelete = async (template: TimesheetTemplate) => {
+    try {
+      await timesheetTemplatesApi.delete(template.id);
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const startNaming = () => {
+    setName(currentLabel);
+    setNaming(true);
+  };
+
+  const renderChip = (pick: QuickPick) => {
+    if (pick.kind === 'recent') {
+      return (
+        <Chip
+          key={pick.key}
+          size="small"
+          variant="outlined"
+          icon={<RecentIcon />}
+          label={getComboLabel(pick.combo)}
+          onClick={() => handleApply(pick)}
+          onDelete={() => handlePin(pick.combo)}
+          deleteIcon={
+            <Tooltip title={t('timesheets.templates.pin')}>
+              <PinIcon />
+            </Tooltip>
+          }
+          disabled={saving}
+        />
+      );
+    }
+
+    const { template } = pick;
+    const chip = (
+      <Chip
+        key={pick.key}
+        size="small"
+        color={template.valid ? 'primary' : 'default'}
+        variant={template.valid ? 'filled' : 'outlined'}
+        icon={template.is_favourite ? <FavouriteIcon /> : undefined}
+        label={template.name}
+        onClick={template.valid ? () => handleApply(pick) : undefined}
+        onDelete={() => void handleDelete(template)}
+        sx={template.valid ? undefined : { opacity: 0.6, textDecoration: 'line-through' }}
+      />
+    );
+
+    return template.valid ? (
+      chip
+    ) : (
+      <Tooltip key={pick.key} title={t(`timesheets.templates.invalid.${template.invalid_reason ?? 'task_inactive'}`)}>
+        {chip}
+      </Tooltip>
+    );
+  };
+
+  return (
+    <Paper sx={{ p: 1.5, borderRadius: 2, bgcolor: 'white' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">{t('timesheets.templates.title')}</Typography>
+        {!naming && (
+          <Button
+            size="small"
+            startIcon={<SaveTemplateIcon />}
+            onClick={startNaming}
+            disabled={!current || saving}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.templates.saveCurrent')}
+          </Button>
+        )}
+      </Box>
+
+      {naming && current && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <TextField
+            size="small"
+            fullWidth
+            autoFocus
+            label={t('timesheets.templates.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            inputProps={{ maxLength: 120 }}
+          />
+          <Button size="small" onClick={() => setNaming(false)} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            onClick={() => void save({ ...current, name: name.trim() })}
+            disabled={!name.trim() || saving}
+          >
+            {t('common.save')}
+          </Button>
+        </Box>
+      )}
+
+      {error && (
+        <Typography variant="caption" color="error" sx={{ display: 'block', mb: 1 }}>
+          {error}
+        </Typography>
+      )}
+
+      {picks.length === 0 ? (
+        <Typography variant="caption" color="text.secondary">
+          {t('timesheets.templates.empty')}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75 }}>{picks.map(renderChip)}</Box>
+      )}
+    </Paper>
+  );
+};
+
+export default TimesheetQuickPicks;
@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { timesheetSignoffsApi } from '../../services/api';
+import type { Timesheet, TimesheetSignoff } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantNumber, getTenantDatePickerFormat } from '../../utils/tenantFormatting';
+import SignaturePad from './SignaturePad';
+import { downloadSignoffReport, getSignoffPeriod, groupSignoffCandidates } from './timesheetSignoff';
+import type { SignoffScope } from './timesheetSignoff';
+
+interface TimesheetSignoffDialogProps {
+  open: boolean;
+  /** Loaded calendar entries; the candidates are taken from these. */
+  timesheets: Timesheet[];
+  defaultDate: string | null;
+  weekFirstDay: number;
+  tenantContext: TenantContext | null;
+  /** Whether the user may collect a sign-off for the entry (their own, or one they manage). */
+  canSign: (timesheet: Timesheet) => boolean;
+  onClose: () => void;
+  onSigned: (signoff: TimesheetSignoff) => void;
+}
+
+/**
+ * On-site customer sign-off: pick the day or week and the location, let the customer check the
+ * entries and sign on the device, then hand over the PDF service report.
+ */
+const TimesheetSignoffDialog: React.FC<TimesheetSignoffDialogProps> = ({
+  open,
+  timesheets,
+  defaultDate,
+  weekFirstDay,
+  tenantContext,
+  canSign,
+  onClose,
+  onSigned,
+}) => {
+  const { t } = useTranslation();
+  const datePickerFormat = getTenantDatePickerFormat(tenantContext);
+
+  const [scope, setScope] = useState<SignoffScope>('day');
+  const [date, setDate] = useState(dayjs().format('YYYY-MM-DD'));
+  const [groupKey, setGroupKey] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [signerName, setSignerName] = useState('');
+  const [signerEmail, setSignerEmail] = useState('');
+  const [notes, setNotes] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signed, setSigned] = useState<TimesheetSignoff | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setScope('day');
+    setDate(defaultDate ?? dayjs().format('YYYY-MM-DD'));
+    setSignerName('');
+    setSignerEmail('');
+    setNotes('');
+    setSignature(null);
+    setError(null);
+    setSigned(null);
+  }, [open, defaultDate]);
+
+  const period = useMemo(() => getSignoffPeriod(scope, date, weekFirstDay), [scope, date, weekFirstDay]);
+  const groups = useMemo(() => groupSignoffCandidates(timesheets, period, canSign), [timesheets, period, canSign]);
+  const group = groups.find((item) => item.key === groupKey) ?? null;
+
+  const candidatesKey = groups.map((item) => `${item.key}=${item.entries.map((entry) => entry.id).join(',')}`).join('|');
+
+  // Keep the chosen location (or take the first) and select all its entries when the candidates change
+  useEffect(() => {
+    const next = groups.find((item) => item.key === groupKey) ?? groups[0] ?? null;
+    setGroupKey(next?.key ?? '');
+    setSelectedIds(next ? next.entries.map((entry) => entry.id) : []);
+    // Tracked through candidatesKey: the groups array is rebuilt on every calendar refresh.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [candidatesKey]);
+
+  const selectedHours =
+    group?.entries.filter((entry) => selectedIds.includes(entry.id)).reduce((sum, entry) => sum + (Number(entry.hours_worked) || 0), 0) ?? 0;
+  const canSubmit = Boolean(group && selectedIds.length > 0 && signerName.trim() && signature) && !saving;
+
+  const handleGroupChange = (key: string) => {
+    setGroupKey(key);
+    setSelectedIds(groups.find((item) => item.key === key)?.entries.map((entry) => entry.id) ?? []);
+  };
+
+  const toggleEntry = (id: number) => {
+    setSelectedIds((current) => (current.includes(id) ? current.filter((value) => value !== id) : [...current, id]));
+  };
+
+  const getErrorMessage = (err: unknown): string => {
+    const response = (err as { response?: { data?: { message?: unknown; error?: unknown } } }).response;
+    return (
+      (typeof response?.data?.message === 'string' && response.data.message) ||
+      (typeof response?.data?.error === 'string' && response.data.error) ||
+      t('timesheets.signoff.saveFailed')
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !signature) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await timesheetSignoffsApi.create({
+        timesheet_ids: selectedIds,
+        signer_name: signerName.trim(),
+        signer_email: signerEmail.trim() || undefined,
+        signature,
+        notes: notes.trim() || undefined,
+      });
+      setSigned(result.data);
+      onSigned(result.data);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!signed) return;
+    setDownloading(true);
+    try {
+      await downloadSignoffReport(signed);
+    } catch {
+      setError(t('timesheets.signoff.downloadFailed'));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const formatTime = (value?: string | null) => (value ? value.slice(0, 5) : '');
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('timesheets.signoff.title')}</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {signed ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, alignItems: 'flex-start' }}>
+            <Alert severity="success" sx={{ width: '100%' }}>
+              {t('timesheets.signoff.signed', {
+                name: signed.signer_name,
+                count: signed.timesheet_ids.length,
+                hours: formatTenantNumber(signed.total_hours, tenantContext, 2),
+              })}
+            </Alert>
+            <Button
+              variant="contained"
+              startIcon={<PdfIcon />}
+              onClick={() => void handleDownload()}
+              disabled={downloading}
+              sx={{ textTransform: 'none' }}
+            >
+              {t('timesheets.signoff.downloadReport')}
+            </Button>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 0.5 }}>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={scope}
+                onChange={(_, value: SignoffScope | null) => value && setScope(value)}
+                sx={{ '& .MuiToggleButton-root': { py: 0.25, px: 1, textTransform: 'none' } }}
+              >
+                <ToggleButton value="day">{t('timesheets.signoff.scopeDay')}</ToggleButton>
+                <ToggleButton value="week">{t('timesheets.signoff.scopeWeek')}</ToggleButton>
+              </ToggleButtonGroup>
+              <DatePicker
+                label={t('timesheets.signoff.date')}
+                value={dayjs(date)}
+                onChange={(value) => value && value.isValid() && setDate(value.format('YYYY-MM-DD'))}
+                format={datePickerFormat}
+                slotProps={{ textField: { size: 'small', sx: { width: 170 } } }}
+              />
+              {scope === 'week' && (
+                <Typography variant="caption" color="text.secondary">
+                  {t('timesheets.signoff.range', {
+                    from: formatTenantDate(period.from, tenantContext),
+                    to: formatTenantDate(period.to, tenantContext),
+                  })}
+                </Typography>
+              )}
+            </Box>
+
+            {groups.length === 0 ? (
+              <Alert severity="info">{t('timesheets.signoff.noEntries')}</Alert>
+            ) : (
+              <>
+                <TextField
+                  select
+                  size="small"
+                  label={t('timesheets.signoff.location')}
+                  value={groupKey}
+                  onChange={(e) => handleGroupChange(e.target.value)}
+                >
+                  {groups.map((item) => (
+                    <MenuItem key={item.key} value={item.key}>
+                      {item.locationName ?? t('common.notAvailable')}
+                      {item.technicianName ? ` · ${item.technicianName}` : ''}
+                    </MenuItem>
+                  ))}
+                </TextField>
+
+                <List dense disablePadding sx={{ border: 1, borderColor: 'divider', borderRadius: 1, maxHeight: 220, overflow: 'auto' }}>
+                  {group?.entries.map((entry) => (
+                    <ListItem key={entry.id} dense onClick={() => toggleEntry(entry.id)} sx={{ cursor: 'pointer' }}>
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        <Checkbox edge="start" size="small" checked={selectedIds.includes(entry.id)} tabIndex={-1} disableRipple />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={`${entry.project?.name ?? t('timesheets.labels.projectFallback')}${entry.task?.name ? ` · ${entry.task.name}` : ''}`}
+                        secondary={`${formatTenantDate(String(entry.date).slice(0, 10), tenantContext)} ${formatTime(entry.start_time)}–${formatTime(entry.end_time)} · ${formatTenantNumber(Number(entry.hours_worked) || 0, tenantContext, 2)} h`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+                <Typography variant="caption" color="text.secondary">
+                  {t('timesheets.signoff.selectedTotal', {
+                    count: selectedIds.length,
+                    hours: formatTenantNumber(selectedHours, tenantContext, 2),
+                  })}
+                </Typography>
+
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    required
+                    label={t('timesheets.signoff.signerName')}
+                    value={signerName}
+                    onChange={(e) => setSignerName(e.target.value)}
+                    inputProps={{ maxLength: 120 }}
+                  />
+                  <TextField
+                    size="small"
+                    fullWidth
+                    type="email"
+                    label={t('timesheets.signoff.signerEmail')}
+                    value={signerEmail}
+                    onChange={(e) => setSignerEmail(e.target.value)}
+                    inputProps={{ maxLength: 255 }}
+                  />
+                </Box>
+                <TextField
+                  size="small"
+                  multiline
+                  minRows={2}
+                  label={t('timesheets.signoff.notes')}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  inputProps={{ maxLength: 1000 }}
+                />
+                <SignaturePad onChange={setSignature} disabled={saving} />
+                <Typography variant="caption" color="text.secondary">
+                  {t('timesheets.signoff.freezeHint')}
+                </Typography>
+              </>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.close')}
+        </Button>
+        {!signed && (
+          <Button variant="contained" onClick={() => void handleSubmit()} disabled={!canSubmit}>
+            {t('timesheets.signoff.submit')}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TimesheetSignoffDialog;
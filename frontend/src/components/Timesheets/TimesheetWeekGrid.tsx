@@ -0,0 +1,538 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableFooter,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import AddIcon from '@mui/icons-material/Add';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import SaveIcon from '@mui/icons-material/Save';
+import UndoIcon from '@mui/icons-material/Undo';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { timesheetsApi } from '../../services/api';
+import type { Location, Project, Task, Timesheet } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { useNotification } from '../../contexts/NotificationContext';
+import { formatTenantDate, formatTenantNumber } from '../../utils/tenantFormatting';
+import { isSignedOffError, isWeekLockedError } from './timesheetWeek';
+import {
+  buildWeekGridRows,
+  parseClipboardGrid,
+  parseGridHours,
+  planWeekGridSave,
+  weekGridCellKey,
+  type WeekGridEdits,
+  type WeekGridRowKey,
+} from './weekGrid';
+
+interface TimesheetWeekGridProps {
+  /** The 7 dates of the displayed week (YYYY-MM-DD). */
+  dates: string[];
+  /** The current user's entries; the grid only edits the signed-in technician's own week. */
+  entries: Timesheet[];
+  projects: Project[];
+  tasks: Task[];
+  locations: Location[];
+  readOnly: boolean;
+  /** Weekly regular/overtime summary, formatted by the calendar. */
+  summaryLabel: string | null;
+  tenantContext: TenantContext | null;
+  onPrevWeek: () => void;
+  onNextWeek: () => void;
+  onSaved: () => Promise<void> | void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: '#9e9e9e',
+  submitted: '#2196f3',
+  approved: '#4caf50',
+  rejected: '#f44336',
+  closed: '#757575',
+};
+
+const DIRTY_COLOR = '#f9a825';
+
+const formatHours = (hours: number): string => (hours ? String(Math.round(hours * 100) / 100) : '');
+
+const TimesheetWeekGrid: React.FC<TimesheetWeekGridProps> = ({
+  dates,
+  entries,
+  projects,
+  tasks,
+  locations,
+  readOnly,
+  summaryLabel,
+  tenantContext,
+  onPrevWeek,
+  onNextWeek,
+  onSaved,
+}) => {
+  const { t } = useTranslation();
+  const { showSuccess, showWarning, showError } = useNotification();
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [extraRows, setExtraRows] = useState<Array<WeekGridRowKey & { description: string }>>([]);
+  const [conflictKeys, setConflictKeys] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [newRow, setNewRow] = useState<{ project_id: number; task_id: number; location_id: number; description: string }>({
+    project_id: 0,
+    task_id: 0,
+    location_id: 0,
+    description: '',
+  });
+  const inputRefs = useRef(new Map<string, HTMLInputElement>());
+
+  const weekStart = dates[0];
+
+  // Unsaved edits belong to the week they were typed in.
+  useEffect(() => {
+    setEdits({});
+    setExtraRows([]);
+    setConflictKeys(new Set());
+  }, [weekStart]);
+
+  const rows = useMemo(() => buildWeekGridRows(entries, dates, extraRows), [entries, dates, extraRows]);
+
+  const projectNames = useMemo(() => new Map(projects.map((project) => [project.id, project.name])), [projects]);
+  const taskNames = useMemo(() => new Map(tasks.map((task) => [task.id, task.name])), [tasks]);
+  const locationNames = useMemo(() => new Map(locations.map((location) => [location.id, location.name])), [locations]);
+
+  const parsedEdits = useMemo(() => {
+    const numeric: WeekGridEdits = {};
+    const invalid = new Set<string>();
+    Object.entries(edits).forEach(([key, raw]) => {
+      const value = parseGridHours(raw);
+      if (value === null) invalid.add(key);
+      else numeric[key] = value;
+    });
+    return { numeric, invalid };
+  }, [edits]);
+
+  const dirtyKeys = useMemo(() => {
+    const keys = new Set<string>();
+    rows.forEach((row) =>
+      row.cells.forEach((cell) => {
+        const key = weekGridCellKey(row.key, cell.date);
+        if (key in parsedEdits.numeric && Math.abs(parsedEdits.numeric[key] - cell.hours) > 0.001) keys.add(key);
+      })
+    );
+    return keys;
+  }, [rows, parsedEdits]);
+
+  const cellHours = (rowKey: string, date: string, saved: number): number => {
+    const key = weekGridCellKey(rowKey, date);
+    return key in parsedEdits.numeric ? parsedEdits.numeric[key] : saved;
+  };
+
+  const dayTotals = dates.map((date, dayIndex) =>
+    rows.reduce((sum, row) => sum + cellHours(row.key, date, row.cells[dayIndex].hours), 0)
+  );
+  const weekTotal = dayTotals.reduce((sum, hours) => sum + hours, 0);
+
+  const setCellEdit = (key: string, value: string) => {
+    setEdits((prev) => ({ ...prev, [key]: value }));
+    setConflictKeys((prev) => {
+      if (!prev.has(key)) return prev;
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+  };
+
+  const focusCell = (rowIndex: number, dayIndex: number) => {
+    inputRefs.current.get(`${rowIndex}:${dayIndex}`)?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, rowIndex: number, dayIndex: number, key: string) => {
+    if (event.key === 'Enter' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      focusCell(event.shiftKey && event.key === 'Enter' ? rowIndex - 1 : rowIndex + 1, dayIndex);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      focusCell(rowIndex - 1, dayIndex);
+    } else if (event.key === 'Escape') {
+      setEdits((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  // Pasting a block copied from a spreadsheet fills the grid from the focused cell down/right.
+  const handlePaste = (event: React.ClipboardEvent, rowIndex: number, dayIndex: number) => {
+    const block = parseClipboardGrid(event.clipboardData.getData('text/plain'));
+    if (block.length === 1 && block[0].length === 1) return;
+    event.preventDefault();
+
+    const pasted: Record<string, string> = {};
+    block.forEach((values, rowOffset) => {
+      const row = rows[rowIndex + rowOffset];
+      if (!row) return;
+      values.forEach((value, dayOffset) => {
+        const cell = row.cells[dayIndex + dayOffset];
+        if (cell?.editable) pasted[weekGridCellKey(row.key, cell.date)] = value.trim();
+      });
+    });
+    setEdits((prev) => ({ ...prev, ...pasted }));
+  };
+
+  const handleAddRow = () => {
+    const { project_id, task_id, location_id } = newRow;
+    if (!project_id || !task_id || !location_id) return;
+    const description = newRow.description.trim() || taskNames.get(task_id) || '';
+    setExtraRows((prev) => [...prev, { project_id, task_id, location_id, description }]);
+    setNewRow({ project_id: 0, task_id: 0, location_id: 0, description: '' });
+  };
+
+  const handleDiscard = () => {
+    setEdits({});
+    setExtraRows([]);
+    setConflictKeys(new Set());
+  };
+
+  const handleSave = async () => {
+    if (parsedEdits.invalid.size > 0) {
+      showWarning(t('timesheets.grid.toast.invalid'));
+      return;
+    }
+
+    const plan = planWeekGridSave(rows, parsedEdits.numeric, entries);
+    setConflictKeys(new Set(plan.conflicts.map((conflict) => conflict.cellKey)));
+
+    if (plan.operations.length === 0) {
+      if (plan.conflicts.length > 0) {
+        showWarning(t('timesheets.grid.toast.conflicts', { count: plan.conflicts.length }));
+      }
+      return;
+    }
+
+    setSaving(true);
+    const savedKeys: string[] = [];
+    const failedKeys: string[] = [];
+    let locked = false;
+    let signedOff = false;
+
+    // Sequential on purpose: the plan places new entries after the ones it deletes or shrinks.
+    for (const operation of plan.operations) {
+      try {
+        if (operation.type === 'create') {
+          await timesheetsApi.create(operation.data);
+        } else if (operation.type === 'update') {
+          await timesheetsApi.update(operation.id, operation.data);
+        } else {
+          await timesheetsApi.delete(operation.id);
+        }
+        savedKeys.push(operation.cellKey);
+      } catch (error) {
+        console.error('Failed to save grid cell:', operation.cellKey, error);
+        locked = locked || isWeekLockedError(error);
+        signedOff = signedOff || isSignedOffError(error);
+        failedKeys.push(operation.cellKey);
+      }
+    }
+
+    setEdits((prev) => {
+      const next = { ...prev };
+      savedKeys.forEach((key) => delete next[key]);
+      return next;
+    });
+    setConflictKeys((prev) => new Set([...prev, ...failedKeys]));
+    setSaving(false);
+
+    if (locked) {
+      showError(t('timesheets.week.lockedError'));
+    } else if (signedOff) {
+      showError(t('timesheets.signoff.lockedError'));
+    } else if (failedKeys.length > 0 || plan.conflicts.length > 0) {
+      showWarning(
+        t('timesheets.grid.toast.partial', {
+          saved: savedKeys.length,
+          failed: failedKeys.length + plan.conflicts.length,
+        })
+      );
+    } else {
+      showSuccess(t('timesheets.grid.toast.saved', { count: savedKeys.length }));
+    }
+
+    await onSaved();
+  };
+
+  const rowTasks = tasks.filter((task) => task.project_id === newRow.project_id);
+  const selectedTask = tasks.find((task) => task.id === newRow.task_id);
+  const rowLocations = selectedTask?.locations?.length
+    ? locations.filter((location) => selectedTask.locations?.some((taskLocation) => taskLocation.id === location.id))
+    : locations;
+
+  const hasChanges = dirtyKeys.size > 0 || parsedEdits.invalid.size > 0;
+  const rangeLabel = dates.length
+    ? `${formatTenantDate(dates[0], tenantContext)} – ${formatTenantDate(dates[dates.length - 1], tenantContext)}`
+    : '';
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5, borderRadius: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <IconButton size="small" onClick={onPrevWeek} disabled={saving} aria-label={t('timesheets.grid.previousWeek')}>
+            <ChevronLeftIcon fontSize="small" />
+          </IconButton>
+          <Typography variant="subtitle2" fontWeight={600}>
+            {rangeLabel}
+          </Typography>
+          <IconButton size="small" onClick={onNextWeek} disabled={saving} aria-label={t('timesheets.grid.nextWeek')}>
+            <ChevronRightIcon fontSize="small" />
+          </IconButton>
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          {t('timesheets.grid.hint')}
+        </Typography>
+      </Box>
+
+      <TableContainer>
+        <Table size="small" sx={{ '& td, & th': { px: 0.75 } }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ minWidth: 220 }}>{t('timesheets.grid.row')}</TableCell>
+              {dates.map((date) => (
+                <TableCell key={date} align="center" sx={{ minWidth: 72 }}>
+                  <Typography variant="caption" display="block" fontWeight={600}>
+                    {dayjs(date).format('ddd')}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatTenantDate(date, tenantContext)}
+                  </Typography>
+                </TableCell>
+              ))}
+              <TableCell align="right">{t('timesheets.grid.total')}</TableCell>
+            </TableRow>
+          </TableHead>
+
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={dates.length + 2}>
+                  <Typography variant="body2" color="text.secondary">
+                    {t('timesheets.grid.empty')}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+
+            {rows.map((row, rowIndex) => {
+              const rowTotal = row.cells.reduce((sum, cell) => sum + cellHours(row.key, cell.date, cell.hours), 0);
+              return (
+                <TableRow key={row.key} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={600} noWrap>
+                      {projectNames.get(row.project_id) ?? t('timesheets.labels.projectFallback')}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" noWrap display="block">
+                      {[taskNames.get(row.task_id), locationNames.get(row.location_id)].filter(Boolean).join(' · ')}
+                    </Typography>
+                  </TableCell>
+
+                  {row.cells.map((cell, dayIndex) => {
+                    const key = weekGridCellKey(row.key, cell.date);
+                    const statusColor = cell.status ? STATUS_COLORS[cell.status] : undefined;
+                    const invalid = parsedEdits.invalid.has(key);
+                    const conflict = conflictKeys.has(key);
+                    const dirty = dirtyKeys.has(key);
+                    const borderColor = invalid || conflict ? '#f44336' : dirty ? DIRTY_COLOR : statusColor;
+                    const tooltip = !cell.editable
+                      ? cell.entries.length > 1
+                        ? t('timesheets.grid.multipleEntries', { count: cell.entries.length })
+                        : t('timesheets.grid.lockedStatus', { status: t(`timesheets.status.${cell.status}`) })
+                      : conflict
+                        ? t('timesheets.grid.conflict')
+                        : '';
+
+                    return (
+                      <TableCell key={cell.date} align="center" sx={{ p: 0.5 }}>
+                        <Tooltip title={tooltip} disableInteractive>
+                          <TextField
+                            size="small"
+                            value={edits[key] ?? formatHours(cell.hours)}
+                            onChange={(event) => setCellEdit(key, event.target.value)}
+                            onKeyDown={(event) => handleKeyDown(event, rowIndex, dayIndex, key)}
+                            onPaste={(event) => handlePaste(event, rowIndex, dayIndex)}
+                            onFocus={(event) => event.target.select()}
+                            disabled={readOnly || saving || !cell.editable}
+                            error={invalid || conflict}
+                            inputRef={(node: HTMLInputElement | null) => {
+                              const refKey = `${rowIndex}:${dayIndex}`;
+                              if (node) inputRefs.current.set(refKey, node);
+                              else inputRefs.current.delete(refKey);
+                            }}
+                            inputProps={{
+                              inputMode: 'decimal',
+                              'aria-label': `${projectNames.get(row.project_id) ?? ''} ${cell.date}`,
+                              style: { textAlign: 'center', padding: '6px 4px' },
+                            }}
+                            sx={{
+                              width: 68,
+                              '& .MuiOutlinedInput-root': {
+                                bgcolor: dirty ? alpha(DIRTY_COLOR, 0.12) : statusColor ? alpha(statusColor, 0.1) : undefined,
+                              },
+                              '& .MuiOutlinedInput-notchedOutline': borderColor ? { borderColor, borderWidth: 2 } : undefined,
+                            }}
+                          />
+                        </Tooltip>
+                      </TableCell>
+                    );
+                  })}
+
+                  <TableCell align="right">
+                    <Typography variant="body2" fontWeight={600}>
+                      {formatTenantNumber(rowTotal, tenantContext, 2)}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+
+          <TableFooter>
+            <TableRow>
+              <TableCell>
+                <Typography variant="body2" fontWeight={700}>
+                  {t('timesheets.grid.dailyTotal')}
+                </Typography>
+              </TableCell>
+              {dayTotals.map((hours, index) => (
+                <TableCell key={dates[index]} align="center">
+                  <Typography variant="body2" fontWeight={700}>
+                    {formatTenantNumber(hours, tenantContext, 2)}
+                  </Typography>
+                </TableCell>
+              ))}
+              <TableCell align="right">
+                <Typography variant="body2" fontWeight={700}>
+                  {formatTenantNumber(weekTotal, tenantContext, 2)}
+                </Typography>
+              </TableCell>
+            </TableRow>
+            {summaryLabel && (
+              <TableRow>
+                <TableCell colSpan={dates.length + 2}>
+                  <Typography variant="caption" color="text.secondary">
+                    {summaryLabel}
+                    {hasChanges && ` · ${t('timesheets.grid.summaryAfterSave')}`}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableFooter>
+        </Table>
+      </TableContainer>
+
+      {!readOnly && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 1.5, alignItems: 'center', flexWrap: 'wrap' }}>
+          <TextField
+            select
+            size="small"
+            label={t('timesheets.labels.project')}
+            value={newRow.project_id}
+            onChange={(event) =>
+              setNewRow((prev) => ({ ...prev, project_id: Number(event.target.value), task_id: 0, location_id: 0 }))
+            }
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value={0}>{t('timesheets.placeholders.selectProject')}</MenuItem>
+            {projects.map((project) => (
+              <MenuItem key={project.id} value={project.id}>
+                {project.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label={t('timesheets.labels.task')}
+            value={newRow.task_id}
+            onChange={(event) => setNewRow((prev) => ({ ...prev, task_id: Number(event.target.value), location_id: 0 }))}
+            disabled={!newRow.project_id}
+            sx={{ minWidth: 150 }}
+          >
+            <MenuItem value={0}>{t('timesheets.placeholders.selectTask')}</MenuItem>
+            {rowTasks.map((task) => (
+              <MenuItem key={task.id} value={task.id}>
+                {task.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label={t('timesheets.labels.location')}
+            value={newRow.location_id}
+            onChange={(event) => setNewRow((prev) => ({ ...prev, location_id: Number(event.target.value) }))}
+            disabled={!newRow.task_id}
+            sx={{ minWidth: 150 }}
+          >
+            <MenuItem value={0}>{t('timesheets.placeholders.selectLocation')}</MenuItem>
+            {rowLocations.map((location) => (
+              <MenuItem key={location.id} value={location.id}>
+                {location.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label={t('timesheets.labels.workDescription')}
+            value={newRow.description}
+            onChange={(event) => setNewRow((prev) => ({ ...prev, description: event.target.value }))}
+            sx={{ flex: 1, minWidth: 160 }}
+          />
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<AddIcon fontSize="small" />}
+            onClick={handleAddRow}
+            disabled={!newRow.project_id || !newRow.task_id || !newRow.location_id}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.grid.addRow')}
+          </Button>
+
+          <Box sx={{ flexGrow: 1 }} />
+
+          <Button
+            size="small"
+            startIcon={<UndoIcon fontSize="small" />}
+            onClick={handleDiscard}
+            disabled={saving || (!hasChanges && extraRows.length === 0)}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('timesheets.grid.discard')}
+          </Button>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<SaveIcon fontSize="small" />}
+            onClick={() => void handleSave()}
+            disabled={saving || !hasChanges}
+            sx={{ textTransform: 'none' }}
+          >
+            {saving ? t('common.saving') : t('timesheets.grid.save', { count: dirtyKeys.size })}
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default TimesheetWeekGrid;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Alert, AlertTitle, Box, Button, Typography } from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import SendIcon from '@mui/icons-material/Send';
+import { useTranslation } from 'react-i18next';
+import type { TimesheetWeekIssue, TimesheetWeekStatus } from '../../types';
+import type { TenantContext } from '../../types/tenant';
+import { formatTenantDate, formatTenantNumber } from '../../utils/tenantFormatting';
+
+interface WeekSubmissionBannerProps {
+  week: TimesheetWeekStatus | null;
+  issues: TimesheetWeekIssue[];
+  submitting: boolean;
+  disabled: boolean;
+  tenantContext: TenantContext | null;
+  onSubmit: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 5;
+
+const WeekSubmissionBanner: React.FC<WeekSubmissionBannerProps> = ({
+  week,
+  issues,
+  submitting,
+  disabled,
+  tenantContext,
+  onSubmit,
+}) => {
+  const { t } = useTranslation();
+
+  if (!week) {
+    return null;
+  }
+
+  const range = `${formatTenantDate(week.week_start, tenantContext)} – ${formatTenantDate(week.week_end, tenantContext)}`;
+  const submittable = week.counts.draft + week.counts.rejected;
+  const canSubmit = !week.locked && submittable > 0;
+
+  const severity =
+    week.status === 'approved' ? 'success' : week.status === 'rejected' ? 'warning' : 'info';
+
+  const message = (() => {
+    switch (week.status) {
+      case 'submitted':
+        return t('timesheets.week.submitted', { range });
+      case 'approved':
+        return t('timesheets.week.approved', { range });
+      case 'rejected':
+        return t('timesheets.week.rejected', { range, count: submittable });
+      default:
+        return t('timesheets.week.open', {
+          range,
+          count: submittable,
+          hours: formatTenantNumber(week.total_hours, tenantContext, 2),
+        });
+    }
+  })();
+
+  return (
+    <Box sx={{ mb: 0.5 }}>
+      <Alert
+        severity={severity}
+        icon={week.locked ? <LockIcon fontSize="inherit" /> : undefined}
+        action={
+          canSubmit ? (
+            <Button
+              color="inherit"
+              size="small"
+              startIcon={<SendIcon fontSize="small" />}
+              onClick={onSubmit}
+              disabled={disabled || submitting}
+              sx={{ textTransform: 'none' }}
+            >
+              {submitting ? t('timesheets.week.submitting') : t('timesheets.week.submit')}
+            </Button>
+          ) : undefined
+        }
+      >
+        {message}
+        {week.status === 'rejected' && week.rejection_reason && (
+          <Typography variant="body2" sx={{ mt: 0.5 }}>
+            {t('timesheets.week.rejectionReason', { reason: week.rejection_reason })}
+          </Typography>
+        )}
+      </Alert>
+
+      {issues.length > 0 && (
+        <Alert severity="error" sx={{ mt: 0.75 }}>
+          <AlertTitle>{t('timesheets.week.issuesTitle', { count: issues.length })}</AlertTitle>
+          <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+            {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+              <li key={`${issue.code}-${issue.date}-${issue.timesheet_id ?? index}`}>
+                {t(`timesheets.week.issues.${issue.code}`, {
+                  date: formatTenantDate(issue.date, tenantContext),
+                })}
+              </li>
+            ))}
+          </Box>
+          {issues.length > MAX_VISIBLE_ISSUES && (
+            <Typography variant="body2" sx={{ mt: 0.5 }}>
+              {t('timesheets.week.moreIssues', { count: issues.length - MAX_VISIBLE_ISSUES })}
+            </Typography>
+          )}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default WeekSubmissionBanner;
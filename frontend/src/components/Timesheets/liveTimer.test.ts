@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLiveTimerEntry,
+  formatLiveTimerElapsed,
+  getLiveTimerElapsedMs,
+  pauseLiveTimer,
+  readLiveTimer,
+  resumeLiveTimer,
+  roundMinutes,
+  startLiveTimer,
+  writeLiveTimer,
+} from './liveTimer';
+import type { LiveTimerState } from './liveTimer';
+import type { Timesheet } from '../../types';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+const selection = { project_id: 5, task_id: 7, location_id: 3, description: ' Pump check ' };
+
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2026, 2, 2, hours, minutes, seconds);
+
+const timer = (overrides: Partial<LiveTimerState> = {}): LiveTimerState => ({
+  project_id: 5,
+  task_id: 7,
+  location_id: 3,
+  description: 'Pump check',
+  startedAt: at(9, 7).toISOString(),
+  runningSince: at(9, 7).toISOString(),
+  accumulatedMs: 0,
+  ...overrides,
+});
+
+const entry = (overrides: Record<string, unknown>) =>
+  ({
+    id: 1,
+    project_id: 5,
+    task_id: 7,
+    location_id: 3,
+    date: '2026-03-02',
+    start_time: '13:00:00',
+    end_time: '15:00:00',
+    hours_worked: '2.00',
+    status: 'submitted',
+    ...overrides,
+  }) as unknown as Timesheet;
+
+describe('live timer storage', () => {
+  it('persists the running timer and refuses to start a second one', () => {
+    const storage = memoryStorage();
+    const first = startLiveTimer('key', selection, at(9, 0), storage);
+    expect(first.started).toBe(true);
+    expect(first.timer.description).toBe('Pump check');
+    expect(readLiveTimer('key', storage)).toEqual(first.timer);
+
+    const second = startLiveTimer('key', { ...selection, project_id: 6 }, at(9, 30), storage);
+    expect(second.started).toBe(false);
+    expect(second.timer.project_id).toBe(5);
+
+    writeLiveTimer('key', null, storage);
+    expect(readLiveTimer('key', storage)).toBeNull();
+  });
+
+  it('ignores malformed stored values', () => {
+    const storage = memoryStorage();
+    storage.setItem('key', '{"project_id":"x"}');
+    expect(readLiveTimer('key', storage)).toBeNull();
+    storage.setItem('key', 'not json');
+    expect(readLiveTimer('key', storage)).toBeNull();
+  });
+});
+
+describe('live timer pause and resume', () => {
+  it('leaves paused time out of the elapsed time', () => {
+    const paused = pauseLiveTimer(timer({ runningSince: at(9, 0).toISOString() }), at(10, 0));
+    expect(paused.runningSince).toBeNull();
+    expect(getLiveTimerElapsedMs(paused, at(11, 0))).toBe(60 * 60 * 1000);
+
+    const resumed = resumeLiveTimer(paused, at(11, 0));
+    expect(getLiveTimerElapsedMs(resumed, at(11, 30))).toBe(90 * 60 * 1000);
+    expect(formatLiveTimerElapsed(getLiveTimerElapsedMs(resumed, at(11, 30, 5)))).toBe('1:30:05');
+  });
+});
+
+describe('roundMinutes', () => {
+  it('rounds to the tenant increment in the configured direction', () => {
+    expect(roundMinutes(67, { increment_minutes: 15, mode: 'nearest' })).toBe(60);
+    expect(roundMinutes(67, { increment_minutes: 15, mode: 'up' })).toBe(75);
+    expect(roundMinutes(74, { increment_minutes: 15, mode: 'down' })).toBe(60);
+    expect(roundMinutes(67, { increment_minutes: 6, mode: 'nearest' })).toBe(66);
+  });
+});
+
+describe('buildLiveTimerEntry', () => {
+  it('rounds the start time and the tracked duration', () => {
+    const result = buildLiveTimerEntry(timer(), [], { now: at(11, 0) });
+    expect(result).toEqual({
+      ok: true,
+      data: expect.objectContaining({
+        date: '2026-03-02',
+        start_time: '09:00',
+        end_time: '11:00',
+        hours_worked: 2,
+        description: 'Pump check',
+        status: 'submitted',
+      }),
+    });
+  });
+
+  it('rejects timers shorter than the minimum entry or running a whole day', () => {
+    expect(buildLiveTimerEntry(timer(), [], { now: at(9, 12) })).toEqual({ ok: false, issue: 'too_short' });
+    expect(buildLiveTimerEntry(timer(), [], { now: new Date(2026, 2, 3, 9, 7) })).toEqual({
+      ok: false,
+      issue: 'too_long',
+    });
+  });
+
+  it('turns a timer running past midnight into an overnight entry', () => {
+    const late = timer({ startedAt: at(23, 0).toISOString(), runningSince: at(23, 0).toISOString() });
+    expect(buildLiveTimerEntry(late, [], { now: new Date(2026, 2, 3, 1, 0) })).toEqual({
+      ok: true,
+      data: expect.objectContaining({ date: '2026-03-02', start_time: '23:00', end_time: '01:00', hours_worked: 2 }),
+    });
+    expect(
+      buildLiveTimerEntry(late, [entry({ date: '2026-03-03', start_time: '00:30', end_time: '04:00' })], {
+        now: new Date(2026, 2, 3, 1, 0),
+      })
+    ).toMatchObject({ ok: false, issue: 'overlap' });
+  });
+
+  it('checks overnight entries of the day and of the day before', () => {
+    const now = at(14, 0);
+    expect(
+      buildLiveTimerEntry(timer(), [entry({ date: '2026-03-01', start_time: '22:00', end_time: '10:00' })], { now })
+    ).toMatchObject({ ok: false, issue: 'overlap' });
+    const evening = timer({ startedAt: at(20, 0).toISOString(), runningSince: at(20, 0).toISOString() });
+    expect(
+      buildLiveTimerEntry(evening, [entry({ start_time: '22:00', end_time: '06:00' })], { now: at(23, 0) })
+    ).toMatchObject({ ok: false, issue: 'overlap' });
+  });
+
+  it('flags overlaps and days over the cap against the same day only', () => {
+    const now = at(14, 0);
+    expect(buildLiveTimerEntry(timer(), [entry({})], { now })).toMatchObject({ ok: false, issue: 'overlap' });
+    expect(buildLiveTimerEntry(timer(), [entry({ date: '2026-03-03' })], { now }).ok).toBe(true);
+    expect(
+      buildLiveTimerEntry(timer(), [entry({ start_time: '15:00', end_time: '23:00', hours_worked: 8 })], {
+        now,
+        dailyHourCap: 12,
+      })
+    ).toMatchObject({ ok: false, issue: 'over_cap' });
+  });
+});
@@ -0,0 +1,222 @@
+import dayjs from 'dayjs';
+import type { Timesheet, TimesheetFormData } from '../../types';
+import type { TimeRoundingRule } from '../../types/tenant';
+import { MINUTES_PER_DAY, getShiftWindow, splitHoursByDay } from '../../utils/timesheetShift';
+
+/**
+ * Start/stop timer shown in the header.
+ *
+ * The running timer lives in localStorage (one key per tenant and user) so it survives page
+ * reloads and is shared by every open tab; a tab only starts a timer after re-reading storage,
+ * which keeps a second concurrent timer from being started.
+ */
+
+export const LIVE_TIMER_CHANGED_EVENT = 'timesheets:live-timer-changed';
+
+const STORAGE_PREFIX = 'timesheet_live_timer';
+/** StoreTimesheetRequest rejects entries shorter than 15 minutes. */
+const MIN_ENTRY_MINUTES = 15;
+
+export const DEFAULT_TIME_ROUNDING: TimeRoundingRule = { increment_minutes: 15, mode: 'nearest' };
+
+export interface LiveTimerSelection {
+  project_id: number;
+  task_id: number;
+  location_id: number;
+  description: string;
+}
+
+export interface LiveTimerState extends LiveTimerSelection {
+  /** When the timer was first started (ISO). */
+  startedAt: string;
+  /** Start of the current running segment (ISO); null while paused. */
+  runningSince: string | null;
+  /** Time tracked by earlier running segments. */
+  accumulatedMs: number;
+}
+
+export type LiveTimerStopIssue = 'too_short' | 'too_long' | 'overlap' | 'over_cap';
+
+export type LiveTimerStopResult =
+  | { ok: true; data: TimesheetFormData }
+  | { ok: false; issue: LiveTimerStopIssue; data?: TimesheetFormData };
+
+type TimerStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const isPositiveId = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+export const liveTimerStorageKey = (tenantSlug: string | null, userId: number): string =>
+  `${STORAGE_PREFIX}:${tenantSlug ?? 'default'}:${userId}`;
+
+const parseLiveTimer = (raw: string | null): LiveTimerState | null => {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw) as Partial<LiveTimerState>;
+    if (
+      !isPositiveId(value.project_id) ||
+      !isPositiveId(value.task_id) ||
+      !isPositiveId(value.location_id) ||
+      typeof value.startedAt !== 'string' ||
+      !dayjs(value.startedAt).isValid()
+    ) {
+      return null;
+    }
+    return {
+      project_id: value.project_id,
+      task_id: value.task_id,
+      location_id: value.location_id,
+      description: typeof value.description === 'string' ? value.description : '',
+      startedAt: value.startedAt,
+      runningSince: typeof value.runningSince === 'string' ? value.runningSince : null,
+      accumulatedMs: Number(value.accumulatedMs) > 0 ? Number(value.accumulatedMs) : 0,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const readLiveTimer = (key: string, storage: TimerStorage = localStorage): LiveTimerState | null =>
+  parseLiveTimer(storage.getItem(key));
+
+export const writeLiveTimer = (
+  key: string,
+  state: LiveTimerState | null,
+  storage: TimerStorage = localStorage
+): void => {
+  if (state) {
+    storage.setItem(key, JSON.stringify(state));
+  } else {
+    storage.removeItem(key);
+  }
+};
+
+/**
+ * Starts a timer unless one is already stored under the key (possibly by another tab).
+ * Returns the stored timer and whether this call created it.
+ */
+export const startLiveTimer = (
+  key: string,
+  selection: LiveTimerSelection,
+  now: Date = new Date(),
+  storage: TimerStorage = localStorage
+): { started: boolean; timer: LiveTimerState } => {
+  const existing = readLiveTimer(key, storage);
+  if (existing) {
+    return { started: false, timer: existing };
+  }
+  const timer: LiveTimerState = {
+    ...selection,
+    description: selection.description.trim(),
+    startedAt: now.toISOString(),
+    runningSince: now.toISOString(),
+    accumulatedMs: 0,
+  };
+  writeLiveTimer(key, timer, storage);
+  return { started: true, timer };
+};
+
+export const pauseLiveTimer = (timer: LiveTimerState, now: Date = new Date()): LiveTimerState =>
+  timer.runningSince
+    ? { ...timer, runningSince: null, accumulatedMs: getLiveTimerElapsedMs(timer, now) }
+    : timer;
+
+export const resumeLiveTimer = (timer: LiveTimerState, now: Date = new Date()): LiveTimerState =>
+  timer.runningSince ? timer : { ...timer, runningSince: now.toISOString() };
+
+export const getLiveTimerElapsedMs = (timer: LiveTimerState, now: Date = new Date()): number => {
+  const running = timer.runningSince ? Math.max(0, now.getTime() - new Date(timer.runningSince).getTime()) : 0;
+  return timer.accumulatedMs + running;
+};
+
+/** Formats a duration as H:MM:SS for the header. */
+export const formatLiveTimerElapsed = (elapsedMs: number): string => {
+  const totalSeconds = Math.floor(Math.max(0, elapsedMs) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+/** Rounds a number of minutes to the tenant's increment ('nearest', 'up' or 'down'). */
+export const roundMinutes = (minutes: number, rule: TimeRoundingRule = DEFAULT_TIME_ROUNDING): number => {
+  const increment = rule.increment_minutes > 0 ? rule.increment_minutes : 1;
+  const steps = minutes / increment;
+  const rounded = rule.mode === 'up' ? Math.ceil(steps) : rule.mode === 'down' ? Math.floor(steps) : Math.round(steps);
+  return rounded * increment;
+};
+
+/**
+ * Builds the entry a stopped timer creates and pre-validates it against the technician's other
+ * entries around that day. The start time and the tracked duration are both rounded with the
+ * tenant rule, so paused time is left out and the end time never runs ahead of the rounded
+ * duration. A timer running past midnight becomes an overnight entry; it is checked against
+ * the next day, and the previous day's overnight entries against its morning.
+ */
+export const buildLiveTimerEntry = (
+  timer: LiveTimerState,
+  dayEntries: Timesheet[],
+  options: { now?: Date; rounding?: TimeRoundingRule; dailyHourCap?: number } = {}
+): LiveTimerStopResult => {
+  const rounding = options.rounding ?? DEFAULT_TIME_ROUNDING;
+  const started = dayjs(timer.startedAt);
+  // Rounding a start just before midnight up moves the entry onto the next day
+  const startAt = started
+    .startOf('day')
+    .add(roundMinutes(started.hour() * 60 + started.minute(), rounding), 'minute');
+  const start = startAt.hour() * 60 + startAt.minute();
+  const duration = roundMinutes(getLiveTimerElapsedMs(timer, options.now) / 60000, rounding);
+
+  if (duration < MIN_ENTRY_MINUTES) {
+    return { ok: false, issue: 'too_short' };
+  }
+
+  // The API takes overnight entries, but no entry spans a whole day
+  if (duration >= MINUTES_PER_DAY) {
+    return { ok: false, issue: 'too_long' };
+  }
+
+  const end = start + duration;
+
+  const date = startAt.format('YYYY-MM-DD');
+  const data: TimesheetFormData = {
+    project_id: timer.project_id,
+    task_id: timer.task_id,
+    location_id: timer.location_id,
+    date,
+    start_time: toTime(start),
+    end_time: toTime(end % MINUTES_PER_DAY),
+    hours_worked: duration / 60,
+    description: timer.description,
+    status: 'submitted',
+  };
+
+  // Shift windows are minutes from midnight of the entry's own date; move them onto the timer's.
+  const overlaps = dayEntries.some((entry) => {
+    const window = getShiftWindow(entry.start_time, entry.end_time);
+    if (!window) return false;
+    const offset = dayjs(entry.date).startOf('day').diff(startAt.startOf('day'), 'day') * MINUTES_PER_DAY;
+    return start < window[1] + offset && window[0] + offset < end;
+  });
+  if (overlaps) {
+    return { ok: false, issue: 'overlap', data };
+  }
+
+  if (options.dailyHourCap !== undefined) {
+    const cap = options.dailyHourCap;
+    const totals = new Map<string, number>();
+    [...dayEntries, data].forEach((entry) => {
+      Object.entries(splitHoursByDay({ ...entry, date: dayjs(entry.date).format('YYYY-MM-DD') })).forEach(
+        ([day, hours]) => totals.set(day, (totals.get(day) ?? 0) + hours)
+      );
+    });
+    const timerDays = Object.keys(splitHoursByDay(data));
+    if (timerDays.some((day) => (totals.get(day) ?? 0) > cap)) {
+      return { ok: false, issue: 'over_cap', data };
+    }
+  }
+
+  return { ok: true, data };
+};
@@ -0,0 +1,86 @@
+import type { Location, Project, Task, Technician, Timesheet } from '../../types';
+import type { OfflineTimesheetMutation } from '../../services/offlineTimesheetQueue';
+
+export type OfflineTimesheetLookups = {
+  projects: Project[];
+  tasks: Task[];
+  locations: Location[];
+  technicians: Technician[];
+};
+
+/**
+ * Overlays queued (not yet synced) writes on top of the timesheets loaded from the API,
+ * so the calendar shows what the user will have once the queue replays:
+ * - queued creates become "pending sync" entries with their negative temp id
+ * - queued updates replace the loaded entry's fields
+ * - queued deletes hide the loaded entry
+ *
+ * Conflicts that were already saved server-side are not overlaid; the loaded entry is the truth.
+ */
+export function applyOfflineMutations(
+  timesheets: Timesheet[],
+  mutations: OfflineTimesheetMutation[],
+  lookups: OfflineTimesheetLookups
+): { timesheets: Timesheet[]; pendingIds: Set<number> } {
+  const pendingIds = new Set<number>();
+  if (!Array.isArray(mutations) || mutations.length === 0) {
+    return { timesheets, pendingIds };
+  }
+
+  const relevant = mutations.filter((item) => !item.syncedTimesheetId);
+  const deletedIds = new Set(relevant.filter((item) => item.kind === 'delete').map((item) => item.timesheetId));
+  const updatesById = new Map(
+    relevant.filter((item) => item.kind === 'update').map((item) => [item.timesheetId, item])
+  );
+
+  const resolveRelations = (
+    payload: Pick<OfflineTimesheetMutation['payload'], 'project_id' | 'task_id' | 'location_id' | 'technician_id'>
+  ): Partial<Timesheet> => ({
+    project: lookups.projects.find((project) => project.id === Number(payload.project_id)),
+    task: lookups.tasks.find((task) => task.id === Number(payload.task_id)),
+    location: lookups.locations.find((location) => location.id === Number(payload.location_id)),
+    technician: lookups.technicians.find((technician) => technician.id === Number(payload.technician_id)),
+  });
+
+  const merged = timesheets
+    .filter((timesheet) => !deletedIds.has(timesheet.id))
+    .map((timesheet) => {
+      const update = updatesById.get(timesheet.id);
+      if (!update) return timesheet;
+
+      pendingIds.add(timesheet.id);
+      const relations = resolveRelations({ ...timesheet, ...update.payload });
+      return {
+        ...timesheet,
+        ...update.payload,
+        project: relations.project ?? timesheet.project,
+        task: relations.task ?? timesheet.task,
+        location: relations.location ?? timesheet.location,
+        technician: relations.technician ?? timesheet.technician,
+      } as Timesheet;
+    });
+
+  const created = relevant
+    .filter((item) => item.kind === 'create')
+    .map((item) => {
+      pendingIds.add(item.timesheetId);
+      return {
+        id: item.timesheetId,
+        technician_id: Number(item.payload.technician_id ?? 0),
+        project_id: Number(item.payload.project_id ?? 0),
+        task_id: item.payload.task_id,
+        location_id: item.payload.location_id,
+        date: item.payload.date ?? '',
+        start_time: item.payload.start_time,
+        end_time: item.payload.end_time,
+        hours_worked: Number(item.payload.hours_worked ?? 0),
+        description: item.payload.description,
+        status: 'draft',
+        created_at: item.enqueuedAt,
+        updated_at: item.enqueuedAt,
+        ...resolveRelations(item.payload),
+      } as Timesheet;
+    });
+
+  return { timesheets: [...merged, ...created], pendingIds };
+}
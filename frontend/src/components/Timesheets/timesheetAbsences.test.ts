@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Absence } from '../../types';
+import {
+  DEFAULT_ABSENCE_TYPES,
+  countAbsenceDays,
+  findAbsenceConflict,
+  findAbsenceType,
+  getAbsenceEventRange,
+  getAbsenceTypes,
+} from './timesheetAbsences';
+
+const absence = (overrides: Partial<Absence>): Absence => ({
+  id: 1,
+  technician_id: 7,
+  technician: null,
+  absence_type: 'vacation',
+  start_date: '2026-03-04',
+  end_date: '2026-03-06',
+  half_day: null,
+  days: 3,
+  status: 'approved',
+  reason: null,
+  rejection_reason: null,
+  reviewed_at: null,
+  created_at: null,
+  ...overrides,
+});
+
+describe('findAbsenceConflict', () => {
+  it('blocks every entry on a full-day approved absence', () => {
+    const absences = [absence({})];
+    expect(findAbsenceConflict(absences, { technician_id: 7, date: '2026-03-05', start_time: '08:00', end_time: '12:00' })).toBe(absences[0]);
+    expect(findAbsenceConflict(absences, { technician_id: 7, date: '2026-03-06' })).toBe(absences[0]);
+    expect(findAbsenceConflict(absences, { technician_id: 7, date: '2026-03-07', start_time: '08:00', end_time: '12:00' })).toBeNull();
+    expect(findAbsenceConflict(absences, { technician_id: 8, date: '2026-03-05', start_time: '08:00', end_time: '12:00' })).toBeNull();
+  });
+
+  it('ignores absences that are not approved', () => {
+    expect(findAbsenceConflict([absence({ status: 'pending' })], { date: '2026-03-05' })).toBeNull();
+  });
+
+  it('only blocks the half of a half-day absence', () => {
+    const absences = [absence({ start_date: '2026-03-04', end_date: '2026-03-04', half_day: 'morning', days: 0.5 })];
+    expect(findAbsenceConflict(absences, { date: '2026-03-04', start_time: '11:00', end_time: '13:00' })).toBe(absences[0]);
+    expect(findAbsenceConflict(absences, { date: '2026-03-04', start_time: '12:00', end_time: '17:00' })).toBeNull();
+    expect(findAbsenceConflict(absences, { date: '2026-03-04' })).toBeNull();
+  });
+
+  it('checks the next day of an overnight entry', () => {
+    const absences = [absence({ start_date: '2026-03-05', end_date: '2026-03-05', half_day: 'morning', days: 0.5 })];
+    expect(findAbsenceConflict(absences, { date: '2026-03-04', start_time: '22:00', end_time: '06:00' })).toBe(absences[0]);
+    expect(findAbsenceConflict(absences, { date: '2026-03-04', start_time: '18:00', end_time: '23:00' })).toBeNull();
+  });
+});
+
+describe('absence helpers', () => {
+  it('counts days with halves', () => {
+    expect(countAbsenceDays('2026-03-04', '2026-03-06', null)).toBe(3);
+    expect(countAbsenceDays('2026-03-04', '2026-03-04', 'afternoon')).toBe(0.5);
+    expect(countAbsenceDays('2026-03-06', '2026-03-04', null)).toBe(0);
+  });
+
+  it('uses an exclusive end for the all-day calendar block', () => {
+    expect(getAbsenceEventRange(absence({}))).toEqual({ start: '2026-03-04', end: '2026-03-07' });
+  });
+
+  it('falls back to the default types and to a neutral unknown type', () => {
+    expect(getAbsenceTypes(null)).toBe(DEFAULT_ABSENCE_TYPES);
+    expect(getAbsenceTypes({ absence_types: [{ key: 'parental', label: 'Parental', paid: true, color: '#123456' }] })).toHaveLength(1);
+    expect(findAbsenceType(DEFAULT_ABSENCE_TYPES, 'sick').label).toBe('Sick leave');
+    expect(findAbsenceType(DEFAULT_ABSENCE_TYPES, 'other').color).toBe('#90a4ae');
+  });
+});
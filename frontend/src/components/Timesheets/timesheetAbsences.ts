@@ -0,0 +1,84 @@
+import dayjs from 'dayjs';
+import type { Absence, AbsenceHalfDay } from '../../types';
+import type { AbsenceType, TenantContext } from '../../types/tenant';
+import { MINUTES_PER_DAY, getShiftWindow } from '../../utils/timesheetShift';
+import type { ShiftWindow } from '../../utils/timesheetShift';
+
+/**
+ * Absences (vacation, sick leave, training...) on the timesheet calendar.
+ *
+ * Approved absences block time entries: a full day blocks the whole day, a half day blocks the
+ * morning (before noon) or the afternoon. Mirrors App\Models\Absence::conflictFor.
+ */
+
+/** Same defaults as config/timesheets.php, for tenants whose context has no absence types yet. */
+export const DEFAULT_ABSENCE_TYPES: AbsenceType[] = [
+  { key: 'vacation', label: 'Vacation', paid: true, color: '#26a69a' },
+  { key: 'sick', label: 'Sick leave', paid: true, color: '#ef5350' },
+  { key: 'training', label: 'Training', paid: true, color: '#7e57c2' },
+];
+
+const NOON = 12 * 60;
+
+export const getAbsenceTypes = (tenantContext: TenantContext | null | undefined): AbsenceType[] =>
+  tenantContext?.absence_types?.length ? tenantContext.absence_types : DEFAULT_ABSENCE_TYPES;
+
+export const findAbsenceType = (types: AbsenceType[], key: string): AbsenceType =>
+  types.find((type) => type.key === key) ?? { key, label: key, paid: true, color: '#90a4ae' };
+
+type AbsenceRange = Pick<Absence, 'start_date' | 'end_date' | 'half_day'>;
+
+export const absenceCoversDate = (absence: AbsenceRange, date: string): boolean => {
+  const day = date.slice(0, 10);
+  return absence.start_date.slice(0, 10) <= day && absence.end_date.slice(0, 10) >= day;
+};
+
+/** Blocked minutes of the day, or null when the whole day is blocked. */
+export const getAbsenceBlockedWindow = (halfDay: AbsenceHalfDay | null): ShiftWindow | null => {
+  if (halfDay === 'morning') return [0, NOON];
+  if (halfDay === 'afternoon') return [NOON, MINUTES_PER_DAY];
+  return null;
+};
+
+/** Working days requested: half a day for half-day absences, otherwise every calendar day. */
+export const countAbsenceDays = (startDate: string, endDate: string, halfDay: AbsenceHalfDay | null): number => {
+  if (halfDay) return 0.5;
+  const days = dayjs(endDate).diff(dayjs(startDate), 'day') + 1;
+  return days > 0 ? days : 0;
+};
+
+/**
+ * Approved absence an entry would be logged on. Untimed entries only conflict with full-day
+ * absences; timed ones also with the half they overlap, on both days of an overnight entry.
+ */
+export const findAbsenceConflict = (
+  absences: Absence[],
+  entry: { technician_id?: number | null; date: string; start_time?: string | null; end_time?: string | null }
+): Absence | null => {
+  const date = String(entry.date ?? '').slice(0, 10);
+  const window = getShiftWindow(entry.start_time, entry.end_time);
+
+  const parts: Array<[string, ShiftWindow | null]> = [[date, window ? [window[0], Math.min(window[1], MINUTES_PER_DAY)] : null]];
+  if (window && window[1] > MINUTES_PER_DAY) {
+    parts.push([dayjs(date).add(1, 'day').format('YYYY-MM-DD'), [0, window[1] - MINUTES_PER_DAY]]);
+  }
+
+  return (
+    absences.find((absence) => {
+      if (absence.status !== 'approved') return false;
+      if (entry.technician_id && absence.technician_id !== entry.technician_id) return false;
+
+      return parts.some(([day, part]) => {
+        if (!absenceCoversDate(absence, day)) return false;
+        const blocked = getAbsenceBlockedWindow(absence.half_day);
+        return blocked === null || (part !== null && part[0] < blocked[1] && blocked[0] < part[1]);
+      });
+    }) ?? null
+  );
+};
+
+/** Calendar range of an absence: all-day, with an exclusive end date. */
+export const getAbsenceEventRange = (absence: AbsenceRange): { start: string; end: string } => ({
+  start: absence.start_date.slice(0, 10),
+  end: dayjs(absence.end_date.slice(0, 10)).add(1, 'day').format('YYYY-MM-DD'),
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeWorkedHours,
+  getBreakGapSegments,
+  isBlockingBreakIssue,
+  normalizeBreaks,
+  suggestBreak,
+  validateBreaks,
+} from './timesheetBreaks';
+
+const lunch = { start_time: '12:30', end_time: '13:00' };
+const rule = { required_after_hours: 5, min_minutes: 30, enforce: true };
+
+describe('normalizeBreaks', () => {
+  it('trims API times to HH:mm and sorts by start', () => {
+    expect(
+      normalizeBreaks([
+        { id: 2, start_time: '15:00:00', end_time: '15:15:00' },
+        { id: 1, start_time: '12:30:00', end_time: '13:00:00' },
+        { start_time: 'bad', end_time: '10:00' },
+      ])
+    ).toEqual([lunch, { start_time: '15:00', end_time: '15:15' }]);
+    expect(normalizeBreaks(undefined)).toEqual([]);
+  });
+});
+
+describe('computeWorkedHours', () => {
+  it('deducts the breaks from the entry span', () => {
+    expect(computeWorkedHours('08:00', '17:00', [lunch, { start_time: '10:00', end_time: '10:15' }])).toBe(8.25);
+    expect(computeWorkedHours('08:00', '17:00')).toBe(9);
+    expect(computeWorkedHours(null, '17:00', [lunch])).toBe(0);
+  });
+
+  it('counts overnight entries up to the end on the next day', () => {
+    expect(computeWorkedHours('22:00', '06:00', [{ start_time: '23:45', end_time: '00:15' }])).toBe(7.5);
+  });
+});
+
+describe('validateBreaks', () => {
+  it('rejects breaks outside the entry, overlapping or inverted', () => {
+    expect(validateBreaks('08:00', '12:00', [{ start_time: '11:45', end_time: '12:15' }])).toBe('outside_entry');
+    expect(
+      validateBreaks('08:00', '17:00', [lunch, { start_time: '12:45', end_time: '13:15' }])
+    ).toBe('overlap');
+    expect(validateBreaks('08:00', '17:00', [{ start_time: '13:00', end_time: '12:30' }])).toBe('invalid');
+    expect(validateBreaks('08:00', '17:00', [lunch])).toBeNull();
+  });
+
+  it('accepts breaks after midnight on overnight entries', () => {
+    expect(validateBreaks('22:00', '06:00', [{ start_time: '02:00', end_time: '02:30' }])).toBeNull();
+    expect(validateBreaks('22:00', '06:00', [{ start_time: '06:00', end_time: '06:30' }])).toBe('outside_entry');
+    expect(validateBreaks('22:00', '06:00', [], rule)).toBe('break_required');
+  });
+
+  it('requires a long enough break after the tenant stretch of continuous work', () => {
+    expect(validateBreaks('08:00', '14:00', [], rule)).toBe('break_required');
+    // 15 minutes is shorter than the minimum break and does not split the stretch.
+    expect(validateBreaks('08:00', '14:00', [{ start_time: '11:00', end_time: '11:15' }], rule)).toBe('break_required');
+    expect(validateBreaks('08:00', '14:00', [{ start_time: '11:00', end_time: '11:30' }], rule)).toBeNull();
+    expect(validateBreaks('08:00', '13:00', [], rule)).toBeNull();
+  });
+
+  it('only blocks saving for enforced rules', () => {
+    expect(isBlockingBreakIssue('break_required', rule)).toBe(true);
+    expect(isBlockingBreakIssue('break_required', { ...rule, enforce: false })).toBe(false);
+    expect(isBlockingBreakIssue('overlap', { ...rule, enforce: false })).toBe(true);
+    expect(isBlockingBreakIssue(null, rule)).toBe(false);
+  });
+});
+
+describe('suggestBreak', () => {
+  it('places a minimum-length break in the middle of the remaining work', () => {
+    expect(suggestBreak('08:00', '17:00', [], rule)).toEqual({ start_time: '12:15', end_time: '12:45' });
+    expect(suggestBreak('08:00', '17:00', [{ start_time: '10:00', end_time: '10:15' }], rule)).toEqual({
+      start_time: '13:15',
+      end_time: '13:45',
+    });
+    expect(suggestBreak('08:00', '08:30', [], rule)).toBeNull();
+    expect(suggestBreak('22:00', '06:00', [], rule)).toEqual({ start_time: '01:45', end_time: '02:15' });
+  });
+});
+
+describe('getBreakGapSegments', () => {
+  it('returns break positions as fractions of the entry', () => {
+    expect(getBreakGapSegments('08:00', '12:00', [{ start_time: '10:00', end_time: '11:00' }])).toEqual([
+      { offset: 0.5, size: 0.25 },
+    ]);
+    expect(getBreakGapSegments('08:00', '12:00', [])).toEqual([]);
+  });
+
+  it('measures overnight breaks against the block of the day they fall on', () => {
+    const night = [{ start_time: '02:00', end_time: '03:00' }];
+    expect(getBreakGapSegments('22:00', '06:00', night, 'first_day')).toEqual([]);
+    expect(getBreakGapSegments('22:00', '06:00', night, 'next_day')).toEqual([{ offset: 2 / 6, size: 1 / 6 }]);
+  });
+});
@@ -0,0 +1,168 @@
+import type { TimesheetBreak } from '../../types';
+import type { BreakRule } from '../../types/tenant';
+import { MINUTES_PER_DAY, getBreakWindow, getShiftWindow, timeToMinutes as toMinutes } from '../../utils/timesheetShift';
+
+/**
+ * Unpaid breaks inside a timesheet entry.
+ *
+ * Breaks are HH:mm ranges within the entry; their time is left out of hours_worked. The
+ * checks mirror App\Services\TimesheetValidation\TimesheetBreakValidator, so the dialogs can
+ * flag an entry before the API rejects it. On overnight entries, break times before the entry
+ * start are on the next day.
+ */
+
+/** StoreTimesheetRequest accepts at most this many breaks per entry. */
+export const MAX_BREAKS_PER_ENTRY = 5;
+
+export const DEFAULT_BREAK_RULE: BreakRule = { required_after_hours: 6, min_minutes: 30, enforce: false };
+
+export type TimesheetBreakIssue = 'invalid' | 'outside_entry' | 'overlap' | 'break_required';
+
+/** Part of an entry covered by a break, as fractions (0–1) of the entry span. */
+export interface BreakGapSegment {
+  offset: number;
+  size: number;
+}
+
+const toTime = (minutes: number): string => {
+  const inDay = minutes % MINUTES_PER_DAY;
+  return `${String(Math.floor(inDay / 60)).padStart(2, '0')}:${String(inDay % 60).padStart(2, '0')}`;
+};
+
+/** Break ranges sorted by start, placed inside the entry window when there is one. */
+const toIntervals = (
+  breaks: TimesheetBreak[],
+  startTime?: string | null,
+  endTime?: string | null
+): Array<[number, number]> => {
+  const window = getShiftWindow(startTime, endTime);
+  return breaks
+    .map((item): [number, number] =>
+      (window && getBreakWindow(window, item.start_time, item.end_time)) ?? [
+        toMinutes(item.start_time) ?? 0,
+        toMinutes(item.end_time) ?? 0,
+      ]
+    )
+    .sort((a, b) => a[0] - b[0]);
+};
+
+/** Breaks as returned by the API (HH:mm:ss, any order) trimmed to HH:mm and sorted by start. */
+export const normalizeBreaks = (breaks: TimesheetBreak[] | null | undefined): TimesheetBreak[] =>
+  (Array.isArray(breaks) ? breaks : [])
+    .map((item) => ({ start: toMinutes(item?.start_time), end: toMinutes(item?.end_time) }))
+    .filter((item): item is { start: number; end: number } => item.start !== null && item.end !== null)
+    .sort((a, b) => a.start - b.start)
+    .map((item) => ({ start_time: toTime(item.start), end_time: toTime(item.end) }));
+
+/** Total break minutes; pass the entry times so breaks across midnight count on overnight entries. */
+export const getBreakMinutes = (
+  breaks: TimesheetBreak[],
+  startTime?: string | null,
+  endTime?: string | null
+): number =>
+  toIntervals(breaks, startTime, endTime).reduce((sum, [start, end]) => sum + Math.max(0, end - start), 0);
+
+/** Hours between start and end (next day when end < start) minus the breaks, rounded to 2 decimals (as the API stores it). */
+export const computeWorkedHours = (
+  startTime: string | null | undefined,
+  endTime: string | null | undefined,
+  breaks: TimesheetBreak[] = []
+): number => {
+  const window = getShiftWindow(startTime, endTime);
+  if (!window) return 0;
+  const worked = Math.max(0, window[1] - window[0] - getBreakMinutes(breaks, startTime, endTime));
+  return Math.round((worked / 60) * 100) / 100;
+};
+
+/** Longest stretch of work not interrupted by a break of at least minBreakMinutes. */
+const longestWorkStretch = (
+  start: number,
+  end: number,
+  intervals: Array<[number, number]>,
+  minBreakMinutes: number
+): number => {
+  let longest = 0;
+  let stretchStart = start;
+  intervals.forEach(([breakStart, breakEnd]) => {
+    if (breakEnd - breakStart < minBreakMinutes) return;
+    longest = Math.max(longest, breakStart - stretchStart);
+    stretchStart = breakEnd;
+  });
+  return Math.max(longest, end - stretchStart);
+};
+
+/**
+ * First problem with an entry's breaks, or null. 'break_required' is reported whatever
+ * rule.enforce says; only enforced rules block saving.
+ */
+export const validateBreaks = (
+  startTime: string | null | undefined,
+  endTime: string | null | undefined,
+  breaks: TimesheetBreak[],
+  rule: BreakRule = DEFAULT_BREAK_RULE
+): TimesheetBreakIssue | null => {
+  const window = getShiftWindow(startTime, endTime);
+  if (!window) return null;
+  const [start, end] = window;
+
+  const intervals = toIntervals(breaks, startTime, endTime);
+  if (breaks.some((item) => toMinutes(item.start_time) === null || toMinutes(item.end_time) === null)) {
+    return 'invalid';
+  }
+  if (intervals.some(([breakStart, breakEnd]) => breakEnd <= breakStart)) return 'invalid';
+  if (intervals.some(([breakStart, breakEnd]) => breakStart < start || breakEnd > end)) return 'outside_entry';
+  if (intervals.some(([breakStart], index) => index > 0 && breakStart < intervals[index - 1][1])) return 'overlap';
+
+  const limit = Math.round(rule.required_after_hours * 60);
+  return longestWorkStretch(start, end, intervals, rule.min_minutes) > limit ? 'break_required' : null;
+};
+
+export const isBlockingBreakIssue = (issue: TimesheetBreakIssue | null, rule: BreakRule = DEFAULT_BREAK_RULE): boolean =>
+  issue !== null && (issue !== 'break_required' || rule.enforce);
+
+/**
+ * Default range for a newly added break: min_minutes long, in the middle of the work left after
+ * the last break, on a quarter hour. Null when the entry has no room for one.
+ */
+export const suggestBreak = (
+  startTime: string | null | undefined,
+  endTime: string | null | undefined,
+  breaks: TimesheetBreak[],
+  rule: BreakRule = DEFAULT_BREAK_RULE
+): TimesheetBreak | null => {
+  const window = getShiftWindow(startTime, endTime);
+  if (!window) return null;
+  const [start, end] = window;
+
+  const from = toIntervals(breaks, startTime, endTime).reduce((latest, [, breakEnd]) => Math.max(latest, breakEnd), start);
+  if (end - from <= rule.min_minutes) return null;
+
+  const middle = from + Math.floor((end - from - rule.min_minutes) / 2);
+  const breakStart = Math.max(from, Math.floor(middle / 15) * 15);
+
+  return { start_time: toTime(breakStart), end_time: toTime(breakStart + rule.min_minutes) };
+};
+
+/**
+ * Where the breaks fall inside the entry, for drawing them as gaps in the calendar. Overnight
+ * entries are drawn as one block per day; part selects the block the fractions refer to.
+ */
+export const getBreakGapSegments = (
+  startTime: string | null | undefined,
+  endTime: string | null | undefined,
+  breaks: TimesheetBreak[] | null | undefined,
+  part: 'whole' | 'first_day' | 'next_day' = 'whole'
+): BreakGapSegment[] => {
+  const window = getShiftWindow(startTime, endTime);
+  if (!window || !breaks?.length) return [];
+
+  const start = part === 'next_day' ? Math.max(window[0], MINUTES_PER_DAY) : window[0];
+  const end = part === 'first_day' ? Math.min(window[1], MINUTES_PER_DAY) : window[1];
+  const span = end - start;
+  if (span <= 0) return [];
+
+  return toIntervals(breaks, startTime, endTime)
+    .map(([breakStart, breakEnd]) => [Math.max(start, breakStart), Math.min(end, breakEnd)])
+    .filter(([breakStart, breakEnd]) => breakEnd > breakStart)
+    .map(([breakStart, breakEnd]) => ({ offset: (breakStart - start) / span, size: (breakEnd - breakStart) / span }));
+};
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { buildDayCopyDateMap, buildPreviousWeekDateMap, planTimesheetCopy } from './timesheetCopy';
+import type { Timesheet } from '../../types';
+
+const entry = (overrides: Record<string, unknown>) =>
+  ({
+    id: 1,
+    technician_id: 10,
+    project_id: 5,
+    task_id: 7,
+    location_id: 3,
+    date: '2026-03-02',
+    start_time: '09:00:00',
+    end_time: '13:00:00',
+    hours_worked: '4.00',
+    description: 'Site survey',
+    status: 'approved',
+    ...overrides,
+  }) as unknown as Timesheet;
+
+describe('copy date maps', () => {
+  it('maps the previous week day by day onto the target week', () => {
+    const map = buildPreviousWeekDateMap('2026-03-09');
+
+    expect(map).toHaveLength(7);
+    expect(map[0]).toEqual({ from: '2026-03-02', to: '2026-03-09' });
+    expect(map[6]).toEqual({ from: '2026-03-08', to: '2026-03-15' });
+  });
+
+  it('copies a day to a range, skipping the source day and weekends unless asked', () => {
+    // 2026-03-06 is a Friday
+    const weekdays = buildDayCopyDateMap('2026-03-06', '2026-03-06', '2026-03-09', false);
+    expect(weekdays.map((item) => item.to)).toEqual(['2026-03-09']);
+
+    const withWeekends = buildDayCopyDateMap('2026-03-06', '2026-03-06', '2026-03-09', true);
+    expect(withWeekends.map((item) => item.to)).toEqual(['2026-03-07', '2026-03-08', '2026-03-09']);
+  });
+});
+
+describe('planTimesheetCopy', () => {
+  it('builds draft entries for the target day with normalised times', () => {
+    const [item] = planTimesheetCopy({
+      sourceEntries: [entry({})],
+      dateMap: [{ from: '2026-03-02', to: '2026-03-09' }],
+      existingEntries: [],
+      dailyHourCap: 12,
+    });
+
+    expect(item.outcome).toBe('create');
+    expect(item.draft).toEqual({
+      technician_id: 10,
+      project_id: 5,
+      task_id: 7,
+      location_id: 3,
+      date: '2026-03-09',
+      start_time: '09:00',
+      end_time: '13:00',
+      hours_worked: 4,
+      description: 'Site survey',
+      status: 'draft',
+      breaks: [],
+    });
+  });
+
+  it('keeps the source breaks and timezone so the copy has the same hours', () => {
+    const [item] = planTimesheetCopy({
+      sourceEntries: [
+        entry({
+          start_time: '08:00:00',
+          end_time: '17:00:00',
+          hours_worked: '8.00',
+          timezone: 'Europe/Lisbon',
+          breaks: [{ start_time: '12:00:00', end_time: '13:00:00' }],
+        }),
+      ],
+      dateMap: [{ from: '2026-03-02', to: '2026-03-09' }],
+      existingEntries: [],
+      dailyHourCap: 12,
+    });
+
+    expect(item.draft).toMatchObject({
+      hours_worked: 8,
+      timezone: 'Europe/Lisbon',
+      breaks: [{ start_time: '12:00', end_time: '13:00' }],
+    });
+  });
+
+  it('skips target days that already have entries for the same technician', () => {
+    const plan = planTimesheetCopy({
+      sourceEntries: [entry({})],
+      dateMap: [{ from: '2026-03-02', to: '2026-03-09' }],
+      existingEntries: [entry({ id: 99, date: '2026-03-09', start_time: '18:00', end_time: '19:00' })],
+      dailyHourCap: 12,
+    });
+
+    expect(plan.map((item) => item.outcome)).toEqual(['skip_existing']);
+  });
+
+  it('does not treat another technician entries as occupying the day', () => {
+    const plan = planTimesheetCopy({
+      sourceEntries: [entry({})],
+      dateMap: [{ from: '2026-03-02', to: '2026-03-09' }],
+      existingEntries: [entry({ id: 99, technician_id: 11, date: '2026-03-09' })],
+      dailyHourCap: 12,
+    });
+
+    expect(plan.map((item) => item.outcome)).toEqual(['create']);
+  });
+
+  it('rejects overlapping drafts and drafts that exceed the daily cap', () => {
+    const plan = planTimesheetCopy({
+      sourceEntries: [
+        entry({ id: 1, start_time: '06:00', end_time: '14:00', hours_worked: 8 }),
+        entry({ id: 2, start_time: '13:00', end_time: '15:00', hours_worked: 2 }),
+        entry({ id: 3, start_time: '15:00', end_time: '20:00', hours_worked: 5 }),
+      ],
+      dateMap: [{ from: '2026-03-02', to: '2026-03-09' }],
+      existingEntries: [],
+      dailyHourCap: 12,
+    });
+
+    expect(plan.map((item) => [item.source.id, item.outcome])).toEqual([
+      [1, 'create'],
+      [2, 'overlap'],
+      [3, 'over_cap'],
+    ]);
+  });
+
+  it('checks overnight drafts against the next day', () => {
+    const plan = planTimesheetCopy({
+      sourceEntries: [
+        entry({ id: 1, date: '2026-03-02', start_time: '22:00', end_time: '06:00', hours_worked: 8 }),
+        entry({ id: 2, date: '2026-03-03', start_time: '05:00', end_time: '09:00', hours_worked: 4 }),
+      ],
+      dateMap: [
+        { from: '2026-03-02', to: '2026-03-09' },
+        { from: '2026-03-03', to: '2026-03-10' },
+      ],
+      existingEntries: [],
+      dailyHourCap: 12,
+    });
+
+    expect(plan.map((item) => [item.source.id, item.outcome])).toEqual([
+      [1, 'create'],
+      [2, 'overlap'],
+    ]);
+  });
+
+  it('sees overnight entries of the day before spilling into the target day', () => {
+    const plan = planTimesheetCopy({
+      sourceEntries: [entry({ id: 1, start_time: '05:00', end_time: '09:00', hours_worked: 4 })],
+      dateMap: [{ from: '2026-03-02', to: '2026-03-09' }],
+      existingEntries: [entry({ id: 99, date: '2026-03-08', start_time: '22:00', end_time: '06:00', hours_worked: 8 })],
+      dailyHourCap: 12,
+    });
+
+    expect(plan.map((item) => item.outcome)).toEqual(['overlap']);
+  });
+});
@@ -0,0 +1,148 @@
+import dayjs from 'dayjs';
+import type { Timesheet, TimesheetFormData } from '../../types';
+import { normalizeBreaks } from './timesheetBreaks';
+import { findTimesheetWeekIssues } from './timesheetWeek';
+
+export type TimesheetCopyOutcome = 'create' | 'skip_existing' | 'overlap' | 'over_cap';
+
+export type TimesheetCopyDateMapping = { from: string; to: string };
+
+export interface TimesheetCopyPlanItem {
+  source: Timesheet;
+  draft: TimesheetFormData;
+  outcome: TimesheetCopyOutcome;
+}
+
+const toDateOnly = (value: string): string => dayjs(value).format('YYYY-MM-DD');
+
+// Timesheet times come back as "HH:mm", "HH:mm:ss" or full datetimes; the API expects "HH:mm".
+const toTimeOnly = (value: string | null | undefined): string | undefined => {
+  if (!value) return undefined;
+  const match = String(value).match(/(\d{2}):(\d{2})/);
+  return match ? `${match[1]}:${match[2]}` : undefined;
+};
+
+/** Maps each day of the previous week onto the same weekday of the week starting at targetWeekStart. */
+export const buildPreviousWeekDateMap = (targetWeekStart: string): TimesheetCopyDateMapping[] => {
+  const start = dayjs(targetWeekStart).startOf('day');
+  return Array.from({ length: 7 }, (_, index) => {
+    const to = start.add(index, 'day');
+    return { from: to.subtract(7, 'day').format('YYYY-MM-DD'), to: to.format('YYYY-MM-DD') };
+  });
+};
+
+/** Maps one source day onto every day in [targetFrom, targetTo], optionally skipping weekends. */
+export const buildDayCopyDateMap = (
+  sourceDate: string,
+  targetFrom: string,
+  targetTo: string,
+  includeWeekends: boolean
+): TimesheetCopyDateMapping[] => {
+  const source = dayjs(sourceDate).format('YYYY-MM-DD');
+  const end = dayjs(targetTo).startOf('day');
+  const mappings: TimesheetCopyDateMapping[] = [];
+
+  for (let cursor = dayjs(targetFrom).startOf('day'); !cursor.isAfter(end); cursor = cursor.add(1, 'day')) {
+    const isWeekend = cursor.day() === 0 || cursor.day() === 6;
+    const to = cursor.format('YYYY-MM-DD');
+    if (to === source || (!includeWeekends && isWeekend)) continue;
+    mappings.push({ from: source, to });
+  }
+
+  return mappings;
+};
+
+/**
+ * Builds the draft entries for a copy and decides, per draft, whether it can be created.
+ *
+ * A target day that already has entries for the technician is skipped entirely. Otherwise each
+ * draft is checked against the technician's drafts already accepted and existing entries, with
+ * the same overlap and daily cap rules as a week submission (findTimesheetWeekIssues), instead
+ * of failing one by one against the API. existingEntries should include the days around the
+ * targets: an overnight entry of the day before spills into a target day.
+ */
+export const planTimesheetCopy = ({
+  sourceEntries,
+  dateMap,
+  existingEntries,
+  dailyHourCap,
+  homeTimezone = 'UTC',
+}: {
+  sourceEntries: Timesheet[];
+  dateMap: TimesheetCopyDateMapping[];
+  existingEntries: Timesheet[];
+  dailyHourCap: number;
+  homeTimezone?: string;
+}): TimesheetCopyPlanItem[] => {
+  const dayKey = (technicianId: number | undefined, date: string) => `${technicianId ?? 0}-${date}`;
+
+  const occupiedDays = new Set(existingEntries.map((entry) => dayKey(entry.technician_id, toDateOnly(entry.date))));
+  // Existing entries and accepted drafts per technician, drafts shaped as entries (in the
+  // source's timezone) so an overnight copy is checked against the next day too.
+  const accepted = new Map<number, Timesheet[]>();
+  existingEntries.forEach((entry) => {
+    accepted.set(entry.technician_id, [...(accepted.get(entry.technician_id) ?? []), entry]);
+  });
+  const issueKeys = (entries: Timesheet[]) =>
+    new Set(
+      findTimesheetWeekIssues(entries, dailyHourCap, homeTimezone)
+        .filter((issue) => issue.code === 'overlap' || issue.code === 'over_cap')
+        .map((issue) => `${issue.code}-${issue.date}-${issue.timesheet_id}`)
+    );
+  const plan: TimesheetCopyPlanItem[] = [];
+
+  dateMap.forEach(({ from, to }) => {
+    const sources = sourceEntries
+      .filter((entry) => toDateOnly(entry.date) === from)
+      .sort((a, b) => (toTimeOnly(a.start_time) ?? '').localeCompare(toTimeOnly(b.start_time) ?? ''));
+
+    sources.forEach((source) => {
+      const draft: TimesheetFormData = {
+        technician_id: source.technician_id,
+        project_id: source.project_id,
+        task_id: source.task_id,
+        location_id: source.location_id,
+        date: to,
+        start_time: toTimeOnly(source.start_time),
+        end_time: toTimeOnly(source.end_time),
+        hours_worked: Number(source.hours_worked),
+        description: source.description,
+        timezone: source.timezone,
+        status: 'draft',
+        // hours_worked is net of the breaks: without them the API would see the gross span
+        breaks: normalizeBreaks(source.breaks),
+      };
+
+      const technicianDrafts = accepted.get(source.technician_id) ?? [];
+      const candidate = {
+        ...source,
+        id: -(plan.length + 1),
+        date: to,
+        start_time: draft.start_time,
+        end_time: draft.end_time,
+        status: 'draft',
+      } as Timesheet;
+
+      let outcome: TimesheetCopyOutcome = 'create';
+      if (occupiedDays.has(dayKey(draft.technician_id, to))) {
+        outcome = 'skip_existing';
+      } else {
+        // Only issues the candidate adds count: existing entries may already have some.
+        const before = issueKeys(technicianDrafts);
+        const added = Array.from(issueKeys([...technicianDrafts, candidate])).filter((key) => !before.has(key));
+        if (added.some((key) => key.startsWith('overlap-'))) {
+          outcome = 'overlap';
+        } else if (added.some((key) => key.startsWith('over_cap-'))) {
+          outcome = 'over_cap';
+        }
+      }
+
+      if (outcome === 'create') {
+        accepted.set(source.technician_id, [...technicianDrafts, candidate]);
+      }
+      plan.push({ source, draft, outcome });
+    });
+  });
+
+  return plan;
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimesheetTimeChange, isTimesheetLocked } from './timesheetEventDrag';
+
+describe('buildTimesheetTimeChange', () => {
+  it('maps the dropped event bounds to date, times and quarter-hour rounded hours', () => {
+    const change = buildTimesheetTimeChange(new Date(2026, 2, 3, 9, 0), new Date(2026, 2, 3, 11, 40));
+
+    expect(change).toEqual({
+      date: '2026-03-03',
+      start_time: '09:00',
+      end_time: '11:40',
+      hours_worked: 2.75,
+    });
+  });
+
+  it('moves the breaks with the entry and leaves them out of the hours', () => {
+    const original = { start_time: '08:00:00', breaks: [{ start_time: '12:00:00', end_time: '12:30:00' }] };
+
+    expect(buildTimesheetTimeChange(new Date(2026, 2, 3, 9, 0), new Date(2026, 2, 3, 17, 0), original)).toEqual({
+      date: '2026-03-03',
+      start_time: '09:00',
+      end_time: '17:00',
+      hours_worked: 7.5,
+      breaks: [{ start_time: '13:00', end_time: '13:30' }],
+    });
+    expect(
+      buildTimesheetTimeChange(new Date(2026, 2, 3, 8, 0), new Date(2026, 2, 3, 18, 0), original)?.breaks
+    ).toEqual([{ start_time: '12:00', end_time: '12:30' }]);
+  });
+
+  it('keeps ranges that cross midnight as overnight entries on the start date', () => {
+    expect(buildTimesheetTimeChange(new Date(2026, 2, 3, 22, 0), new Date(2026, 2, 4, 1, 0))).toEqual({
+      date: '2026-03-03',
+      start_time: '22:00',
+      end_time: '01:00',
+      hours_worked: 3,
+    });
+  });
+
+  it('rejects ranges of a day or more or that are empty', () => {
+    expect(buildTimesheetTimeChange(new Date(2026, 2, 3, 22, 0), new Date(2026, 2, 4, 22, 0))).toBeNull();
+    expect(buildTimesheetTimeChange(new Date(2026, 2, 3, 9, 0), new Date(2026, 2, 3, 9, 0))).toBeNull();
+    expect(buildTimesheetTimeChange(new Date(2026, 2, 3, 9, 0), null)).toBeNull();
+  });
+});
+
+describe('isTimesheetLocked', () => {
+  it('locks approved and closed entries only', () => {
+    expect(isTimesheetLocked({ status: 'approved' })).toBe(true);
+    expect(isTimesheetLocked({ status: 'closed' })).toBe(true);
+    expect(isTimesheetLocked({ status: 'submitted' })).toBe(false);
+    expect(isTimesheetLocked({ status: 'rejected' })).toBe(false);
+  });
+
+  it('locks entries signed off by the customer', () => {
+    expect(isTimesheetLocked({ status: 'submitted', signoff_id: 4 })).toBe(true);
+    expect(isTimesheetLocked({ status: 'draft', signoff_id: null })).toBe(false);
+  });
+});
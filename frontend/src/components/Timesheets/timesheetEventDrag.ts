@@ -0,0 +1,67 @@
+import dayjs from 'dayjs';
+import type { Timesheet, TimesheetBreak, TimesheetFormData } from '../../types';
+import { computeWorkedHours, normalizeBreaks } from './timesheetBreaks';
+
+export type TimesheetTimeChange = Required<Pick<TimesheetFormData, 'date' | 'start_time' | 'end_time' | 'hours_worked'>> &
+  Pick<TimesheetFormData, 'breaks'>;
+
+const LOCKED_STATUSES: ReadonlyArray<Timesheet['status']> = ['approved', 'closed'];
+
+/**
+ * Approved/closed and customer-signed entries are immutable server-side; the calendar must not
+ * let them be dragged.
+ */
+export const isTimesheetLocked = (timesheet: Pick<Timesheet, 'status' | 'signoff_id'>): boolean =>
+  LOCKED_STATUSES.includes(timesheet.status) || Boolean(timesheet.signoff_id);
+
+const shiftBreaks = (breaks: TimesheetBreak[], fromStart: string | undefined, toStart: string): TimesheetBreak[] => {
+  const fromTime = fromStart?.match(/\d{2}:\d{2}/)?.[0];
+  const from = fromTime ? dayjs(`2000-01-01 ${fromTime}`) : null;
+  if (!breaks.length || !from?.isValid()) return breaks;
+
+  const delta = dayjs(`2000-01-01 ${toStart}`).diff(from, 'minute');
+  const shift = (time: string) => dayjs(`2000-01-01 ${time}`).add(delta, 'minute').format('HH:mm');
+  return breaks.map((item) => ({ start_time: shift(item.start_time), end_time: shift(item.end_time) }));
+};
+
+/**
+ * Converts the new bounds of a dragged/resized calendar event into the timesheet fields
+ * sent to the API. Returns null when the range is empty or 24h or longer; an end on the next day
+ * is stored as an end_time before the start_time.
+ * Hours follow the entry dialog: rounded to the nearest quarter hour.
+ *
+ * When the original entry is given, its breaks move with the start time and are left out of
+ * the hours (resizing from the end keeps them in place).
+ */
+export const buildTimesheetTimeChange = (
+  start: Date | null | undefined,
+  end: Date | null | undefined,
+  original?: Pick<Timesheet, 'start_time' | 'breaks'>
+): TimesheetTimeChange | null => {
+  if (!start || !end) return null;
+
+  const startAt = dayjs(start);
+  const endAt = dayjs(end);
+
+  // The end may fall on the next day (overnight shift), but an entry never spans 24h or more.
+  if (!endAt.isAfter(startAt) || endAt.diff(startAt, 'minute') >= 24 * 60) {
+    return null;
+  }
+
+  const startTime = startAt.format('HH:mm');
+  const endTime = endAt.format('HH:mm');
+  const breaks = shiftBreaks(normalizeBreaks(original?.breaks), original?.start_time, startTime);
+
+  const hours = breaks.length
+    ? computeWorkedHours(startTime, endTime, breaks)
+    : Math.round((endAt.diff(startAt, 'minute') / 60) * 4) / 4;
+  if (hours <= 0) return null;
+
+  return {
+    date: startAt.format('YYYY-MM-DD'),
+    start_time: startTime,
+    end_time: endTime,
+    hours_worked: hours,
+    ...(breaks.length ? { breaks } : {}),
+  };
+};
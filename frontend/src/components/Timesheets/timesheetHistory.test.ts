@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { Timesheet } from '../../types';
+import {
+  EMPTY_HISTORY,
+  MAX_HISTORY,
+  getHistoryShortcut,
+  getHistoryStep,
+  getStepBlocker,
+  isUndoableAction,
+  recordAction,
+  remapEntryId,
+  shiftAction,
+} from './timesheetHistory';
+
+const entry = (overrides: Partial<Timesheet> = {}): Timesheet => ({
+  id: 41,
+  technician_id: 3,
+  project_id: 7,
+  task_id: 12,
+  location_id: 5,
+  date: '2026-03-02T00:00:00.000000Z',
+  start_time: '09:00:00',
+  end_time: '12:30:00',
+  hours_worked: 3.5,
+  description: 'Pump service',
+  status: 'submitted',
+  created_at: '2026-03-02T12:31:00Z',
+  updated_at: '2026-03-02T12:31:00Z',
+  breaks: [],
+  ...overrides,
+});
+
+describe('timesheetHistory', () => {
+  it('replays the inverse request and moves actions between the stacks', () => {
+    const before = entry();
+    const after = entry({ start_time: '10:00', end_time: '13:30' });
+    let history = recordAction(EMPTY_HISTORY, { kind: 'update', before, after });
+
+    expect(getHistoryStep(history.past[0], 'undo')).toEqual({
+      op: 'update',
+      id: 41,
+      expectedStatus: 'submitted',
+      payload: {
+        technician_id: 3,
+        project_id: 7,
+        task_id: 12,
+        location_id: 5,
+        date: '2026-03-02',
+        start_time: '09:00',
+        end_time: '12:30',
+        hours_worked: 3.5,
+        description: 'Pump service',
+        status: 'submitted',
+        breaks: [],
+      },
+    });
+
+    history = shiftAction(history, 'undo');
+    expect(history.past).toHaveLength(0);
+    expect(getHistoryStep(history.future[0], 'redo')).toMatchObject({ op: 'update', payload: { start_time: '10:00' } });
+
+    // A new change drops what could be redone
+    history = recordAction(history, { kind: 'create', entry: entry({ id: 42 }) });
+    expect(history.future).toHaveLength(0);
+    expect(getHistoryStep(history.past[0], 'undo')).toEqual({ op: 'delete', id: 42, expectedStatus: 'submitted' });
+  });
+
+  it('follows a deleted entry to the id it gets when recreated', () => {
+    const deleted = entry({ status: 'rejected' });
+    let history = recordAction(EMPTY_HISTORY, { kind: 'update', before: deleted, after: { ...deleted, description: 'Fixed' } });
+    history = recordAction(history, { kind: 'delete', entry: { ...deleted, description: 'Fixed' } });
+
+    const step = getHistoryStep(history.past[1], 'undo');
+    expect(step).toMatchObject({ op: 'create', replacesId: 41 });
+    expect(step.op === 'create' && 'status' in step.payload).toBe(false);
+
+    history = remapEntryId(shiftAction(history, 'undo'), 41, 99);
+    expect(getHistoryStep(history.past[0], 'undo')).toMatchObject({ op: 'update', id: 99 });
+    expect(getHistoryStep(history.future[0], 'redo')).toMatchObject({ op: 'delete', id: 99 });
+  });
+
+  it('keeps at most MAX_HISTORY actions', () => {
+    let history = EMPTY_HISTORY;
+    for (let id = 1; id <= MAX_HISTORY + 5; id += 1) {
+      history = recordAction(history, { kind: 'create', entry: entry({ id }) });
+    }
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0]).toMatchObject({ entry: { id: 6 } });
+  });
+
+  it('leaves edits that change the status out of the history', () => {
+    expect(isUndoableAction({ kind: 'update', before: entry(), after: entry({ description: 'Other' }) })).toBe(true);
+    expect(
+      isUndoableAction({ kind: 'update', before: entry({ status: 'rejected' }), after: entry({ status: 'submitted' }) })
+    ).toBe(false);
+  });
+
+  it('refuses steps once the entry changed server-side', () => {
+    const step = getHistoryStep({ kind: 'create', entry: entry() }, 'undo');
+
+    expect(getStepBlocker(step, entry())).toBeNull();
+    expect(getStepBlocker(step, null)).toBe('missing');
+    expect(getStepBlocker(step, entry({ status: 'approved' }))).toBe('status_changed');
+    expect(getStepBlocker(step, entry({ signoff_id: 4 }))).toBe('locked');
+    expect(getStepBlocker(step, entry({ permissions: { can_delete: false } }))).toBe('forbidden');
+    expect(getStepBlocker(getHistoryStep({ kind: 'delete', entry: entry() }, 'undo'), null)).toBeNull();
+  });
+
+  it('maps keyboard shortcuts outside text fields', () => {
+    const key = (overrides: Partial<KeyboardEvent>) =>
+      getHistoryShortcut({ key: 'z', ctrlKey: true, metaKey: false, shiftKey: false, altKey: false, target: null, ...overrides });
+
+    expect(key({})).toBe('undo');
+    expect(key({ shiftKey: true, key: 'Z' })).toBe('redo');
+    expect(key({ key: 'y' })).toBe('redo');
+    expect(key({ ctrlKey: false, metaKey: true })).toBe('undo');
+    expect(key({ ctrlKey: false })).toBeNull();
+    expect(key({ target: document.createElement('textarea') })).toBeNull();
+  });
+});
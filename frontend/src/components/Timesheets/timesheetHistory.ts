@@ -0,0 +1,134 @@
+import type { Timesheet, TimesheetFormData } from '../../types';
+import { normalizeBreaks } from './timesheetBreaks';
+import { isTimesheetLocked } from './timesheetEventDrag';
+
+/**
+ * Undo/redo history of the entries created, changed and deleted in the calendar session.
+ *
+ * Each action keeps full snapshots of the entry, so undoing and redoing replays the inverse
+ * request through the API. Before touching an existing entry the current server copy is
+ * compared with the snapshot: once its status changed (submitted, approved, rejected...) or it
+ * is locked or no longer editable, the step is refused and the action dropped. Edits that change
+ * the status themselves (resubmitting a rejected entry) are not recorded: the API cannot put an
+ * entry back to rejected.
+ */
+
+export type TimesheetHistoryAction =
+  | { kind: 'create'; entry: Timesheet }
+  | { kind: 'update'; before: Timesheet; after: Timesheet }
+  | { kind: 'delete'; entry: Timesheet };
+
+export interface TimesheetHistory {
+  past: TimesheetHistoryAction[];
+  future: TimesheetHistoryAction[];
+}
+
+export type TimesheetHistoryDirection = 'undo' | 'redo';
+
+/** Request that performs one undo or redo. */
+export type TimesheetHistoryStep =
+  | { op: 'create'; payload: TimesheetFormData; replacesId: number }
+  | { op: 'update'; id: number; payload: TimesheetFormData; expectedStatus: Timesheet['status'] }
+  | { op: 'delete'; id: number; expectedStatus: Timesheet['status'] };
+
+export type TimesheetHistoryBlocker = 'missing' | 'status_changed' | 'locked' | 'forbidden';
+
+export const MAX_HISTORY = 50;
+export const EMPTY_HISTORY: TimesheetHistory = { past: [], future: [] };
+
+export const isUndoableAction = (action: TimesheetHistoryAction): boolean =>
+  action.kind !== 'update' || action.before.status === action.after.status;
+
+/** A new action clears the redo stack; the oldest actions are forgotten past MAX_HISTORY. */
+export const recordAction = (history: TimesheetHistory, action: TimesheetHistoryAction): TimesheetHistory => ({
+  past: [...history.past, action].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const peekAction = (history: TimesheetHistory, direction: TimesheetHistoryDirection): TimesheetHistoryAction | null =>
+  (direction === 'undo' ? history.past : history.future).at(-1) ?? null;
+
+/** Moves the next action to the other stack once its step succeeded. */
+export const shiftAction = (history: TimesheetHistory, direction: TimesheetHistoryDirection): TimesheetHistory => {
+  const action = peekAction(history, direction);
+  if (!action) return history;
+
+  return direction === 'undo'
+    ? { past: history.past.slice(0, -1), future: [...history.future, action] }
+    : { past: [...history.past, action], future: history.future.slice(0, -1) };
+};
+
+/** Forgets the next action, e.g. when its step was refused. */
+export const dropAction = (history: TimesheetHistory, direction: TimesheetHistoryDirection): TimesheetHistory =>
+  direction === 'undo' ? { ...history, past: history.past.slice(0, -1) } : { ...history, future: history.future.slice(0, -1) };
+
+/** A deleted entry comes back with a new id; the actions that refer to it follow. */
+export const remapEntryId = (history: TimesheetHistory, fromId: number, toId: number): TimesheetHistory => {
+  const remap = (entry: Timesheet): Timesheet => (entry.id === fromId ? { ...entry, id: toId } : entry);
+  const remapAction = (action: TimesheetHistoryAction): TimesheetHistoryAction =>
+    action.kind === 'update'
+      ? { ...action, before: remap(action.before), after: remap(action.after) }
+      : { ...action, entry: remap(action.entry) };
+
+  return { past: history.past.map(remapAction), future: history.future.map(remapAction) };
+};
+
+const timeOf = (value: string | undefined): string | undefined => value?.match(/\d{2}:\d{2}/)?.[0];
+
+/** Fields of an entry snapshot as sent to the API to recreate or restore it. */
+export const toTimesheetPayload = (entry: Timesheet): TimesheetFormData => ({
+  technician_id: entry.technician_id,
+  project_id: entry.project_id,
+  task_id: entry.task_id,
+  location_id: entry.location_id,
+  date: entry.date.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? entry.date,
+  start_time: timeOf(entry.start_time),
+  end_time: timeOf(entry.end_time),
+  hours_worked: Number(entry.hours_worked),
+  description: entry.description,
+  ...(entry.status === 'draft' || entry.status === 'submitted' ? { status: entry.status } : {}),
+  breaks: normalizeBreaks(entry.breaks),
+});
+
+export const getHistoryStep = (action: TimesheetHistoryAction, direction: TimesheetHistoryDirection): TimesheetHistoryStep => {
+  switch (action.kind) {
+    case 'create':
+      return direction === 'undo'
+        ? { op: 'delete', id: action.entry.id, expectedStatus: action.entry.status }
+        : { op: 'create', payload: toTimesheetPayload(action.entry), replacesId: action.entry.id };
+    case 'delete':
+      return direction === 'undo'
+        ? { op: 'create', payload: toTimesheetPayload(action.entry), replacesId: action.entry.id }
+        : { op: 'delete', id: action.entry.id, expectedStatus: action.entry.status };
+    case 'update': {
+      const [from, to] = direction === 'undo' ? [action.after, action.before] : [action.before, action.after];
+      return { op: 'update', id: from.id, payload: toTimesheetPayload(to), expectedStatus: from.status };
+    }
+  }
+};
+
+/** Why the step must not run against the current server copy of the entry, if at all. */
+export const getStepBlocker = (step: TimesheetHistoryStep, current: Timesheet | null): TimesheetHistoryBlocker | null => {
+  if (step.op === 'create') return null;
+  if (!current) return 'missing';
+  if (current.status !== step.expectedStatus) return 'status_changed';
+  if (isTimesheetLocked(current)) return 'locked';
+
+  const allowed = step.op === 'update' ? current.permissions?.can_edit : current.permissions?.can_delete;
+  return allowed === false ? 'forbidden' : null;
+};
+
+/** Ctrl/Cmd+Z undoes, Ctrl+Y or Ctrl/Cmd+Shift+Z redoes; text fields keep their own undo. */
+export const getHistoryShortcut = (
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey' | 'target'>
+): TimesheetHistoryDirection | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  const target = event.target as HTMLElement | null;
+  if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return null;
+
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !event.shiftKey) return 'redo';
+  return null;
+};
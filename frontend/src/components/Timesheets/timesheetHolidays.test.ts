@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { PublicHoliday } from '../../types';
+import { buildHolidayLookup, getCalendarHolidays, matchesContractCountry } from './timesheetHolidays';
+
+const holiday = (overrides: Partial<PublicHoliday>): PublicHoliday => ({
+  id: 1,
+  country_id: 1,
+  country_iso2: 'PT',
+  country_name: 'Portugal',
+  date: '2026-04-25',
+  name: 'Freedom Day',
+  ...overrides,
+});
+
+const holidays = [
+  holiday({}),
+  holiday({ id: 2, country_id: 2, country_iso2: 'ES', country_name: 'Spain', date: '2026-10-12', name: 'Fiesta Nacional' }),
+];
+
+describe('public holidays', () => {
+  it('matches the contract country on the ISO-2 code or the name', () => {
+    expect(matchesContractCountry(holidays[0], 'pt')).toBe(true);
+    expect(matchesContractCountry(holidays[0], ' Portugal ')).toBe(true);
+    expect(matchesContractCountry(holidays[0], 'ES')).toBe(false);
+    expect(matchesContractCountry(holidays[0], null)).toBe(false);
+  });
+
+  it('looks holidays up per technician', () => {
+    const lookup = buildHolidayLookup(holidays, [
+      { id: 7, worker_contract_country: 'PT' },
+      { id: 8, worker_contract_country: 'ES' },
+      { id: 9 },
+    ]);
+
+    expect(lookup(7, '2026-04-25')?.name).toBe('Freedom Day');
+    expect(lookup(8, '2026-04-25')).toBeNull();
+    expect(lookup(8, '2026-10-12')?.name).toBe('Fiesta Nacional');
+    expect(lookup(9, '2026-04-25')).toBeNull();
+  });
+
+  it('marks the holidays of the given countries once', () => {
+    expect(getCalendarHolidays(holidays, ['PT', 'Portugal'])).toEqual([holidays[0]]);
+    expect(getCalendarHolidays(holidays, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { PublicHoliday, Technician } from '../../types';
+
+/**
+ * Public holidays on the timesheet calendar.
+ *
+ * Technicians get the holidays of their contract country: worker_contract_country is free text,
+ * matched against the country ISO-2 code or name. Mirrors App\Services\Holidays\HolidayCalendar.
+ */
+
+type ContractTechnician = Pick<Technician, 'id'> & Partial<Pick<Technician, 'worker_contract_country'>>;
+
+export type HolidayLookup = (technicianId: number, date: string) => PublicHoliday | null;
+
+export const matchesContractCountry = (holiday: PublicHoliday, contractCountry: string | null | undefined): boolean => {
+  const value = String(contractCountry ?? '').trim().toUpperCase();
+  if (!value) return false;
+  return (holiday.country_iso2 ?? '').toUpperCase() === value || (holiday.country_name ?? '').trim().toUpperCase() === value;
+};
+
+export const getHolidaysForCountry = (
+  holidays: PublicHoliday[],
+  contractCountry: string | null | undefined
+): PublicHoliday[] => holidays.filter((holiday) => matchesContractCountry(holiday, contractCountry));
+
+/** Holiday of a technician on a date, from the holidays of every country. */
+export const buildHolidayLookup = (holidays: PublicHoliday[], technicians: ContractTechnician[]): HolidayLookup => {
+  const byTechnician = new Map<number, Map<string, PublicHoliday>>();
+
+  technicians.forEach((technician) => {
+    const dates = new Map<string, PublicHoliday>();
+    getHolidaysForCountry(holidays, technician.worker_contract_country).forEach((holiday) => {
+      dates.set(holiday.date.slice(0, 10), holiday);
+    });
+    byTechnician.set(technician.id, dates);
+  });
+
+  return (technicianId, date) => byTechnician.get(technicianId)?.get(date.slice(0, 10)) ?? null;
+};
+
+/**
+ * Holidays to mark on the calendar: those of the given contract countries, once per date and
+ * country. Without any contract country, nothing is marked.
+ */
+export const getCalendarHolidays = (
+  holidays: PublicHoliday[],
+  contractCountries: Array<string | null | undefined>
+): PublicHoliday[] => {
+  const seen = new Set<string>();
+  return holidays.filter((holiday) => {
+    const key = `${holiday.country_id}:${holiday.date.slice(0, 10)}`;
+    if (seen.has(key) || !contractCountries.some((country) => matchesContractCountry(holiday, country))) return false;
+    seen.add(key);
+    return true;
+  });
+};
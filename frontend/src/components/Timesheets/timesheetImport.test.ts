@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import dayjs from 'dayjs';
+import {
+  buildRejectionReport,
+  guessColumnMapping,
+  mapCsvRows,
+  normalizeImportDate,
+  normalizeImportTime,
+  parseCsv,
+  parseIcsEvents,
+} from './timesheetImport';
+
+describe('timesheetImport', () => {
+  it('parses semicolon CSV exports and maps Portuguese headers', () => {
+    const rows = parseCsv('\uFEFFData;Início;Fim;Projeto;Descrição\r\n04/03/2026;9h30;17:00;Plant Overhaul;"Pump; seals ""B"""\r\n\r\n');
+
+    expect(rows).toEqual([
+      ['Data', 'Início', 'Fim', 'Projeto', 'Descrição'],
+      ['04/03/2026', '9h30', '17:00', 'Plant Overhaul', 'Pump; seals "B"'],
+    ]);
+
+    const mapping = guessColumnMapping(rows[0]);
+    expect(mapping).toEqual({ date: 0, start_time: 1, end_time: 2, project: 3, description: 4 });
+    expect(mapCsvRows(rows.slice(1), mapping, 'DD/MM/YYYY')[0]).toMatchObject({
+      date: '2026-03-04',
+      start_time: '09:30',
+      end_time: '17:00',
+      task: '',
+    });
+  });
+
+  it('normalizes dates and times, leaving unreadable values for the server to reject', () => {
+    expect(normalizeImportDate('3/4/26', 'MM/DD/YYYY')).toBe('2026-03-04');
+    expect(normalizeImportDate('2026-3-4', 'DD/MM/YYYY')).toBe('2026-03-04');
+    expect(normalizeImportDate('31/02/2026', 'DD/MM/YYYY')).toBe('31/02/2026');
+    expect(normalizeImportTime('5:30 PM')).toBe('17:30');
+    expect(normalizeImportTime('12 am')).toBe('00:00');
+    expect(normalizeImportTime('08:15:00')).toBe('08:15');
+    expect(normalizeImportTime('25:00')).toBe('25:00');
+  });
+
+  it('reads timed events from an .ics file', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Lisbon:20260303T140000',
+      'DURATION:PT1H30M',
+      'SUMMARY:Site visit\\, north',
+      ' dock',
+      'CATEGORIES:Plant Overhaul,Billable',
+      'LOCATION:Estação Norte',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260302',
+      'DTEND;VALUE=DATE:20260303',
+      'SUMMARY:Holiday',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260302T090000Z',
+      'DTEND:20260302T100000Z',
+      'SUMMARY:Stand-up',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const utcStart = dayjs(new Date(Date.UTC(2026, 2, 2, 9, 0)));
+    const rows = parseIcsEvents(ics);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      date: utcStart.format('YYYY-MM-DD'),
+      start_time: utcStart.format('HH:mm'),
+      end_time: utcStart.add(1, 'hour').format('HH:mm'),
+      description: 'Stand-up',
+    });
+    expect(rows[1]).toEqual({
+      date: '2026-03-03',
+      start_time: '14:00',
+      end_time: '15:30',
+      project: 'Plant Overhaul',
+      task: '',
+      location: 'Estação Norte',
+      description: 'Site visit, northdock',
+    });
+  });
+
+  it('builds a CSV report of the rejected rows only', () => {
+    const rows = [
+      { date: '2026-03-02', start_time: '09:00', end_time: '10:00', project: 'A', task: '', location: '', description: 'ok' },
+      { date: '2026-03-02', start_time: '09:30', end_time: '11:00', project: 'A', task: '', location: '', description: 'Say "hi", then go' },
+    ];
+    const report = buildRejectionReport(
+      rows,
+      [
+        { row: 1, valid: true, errors: [], warnings: [], entry: null },
+        { row: 2, valid: false, errors: ['Overlap.', 'Cap.'], warnings: [], entry: null },
+      ],
+      {
+        row: 'Row',
+        errors: 'Errors',
+        date: 'Date',
+        start_time: 'Start',
+        end_time: 'End',
+        project: 'Project',
+        task: 'Task',
+        location: 'Location',
+        description: 'Description',
+      }
+    );
+
+    expect(report).toBe(
+      'Row,Date,Start,End,Project,Task,Location,Description,Errors\r\n' +
+        '2,2026-03-02,09:30,11:00,A,,,"Say ""hi"", then go",Overlap. | Cap.\r\n'
+    );
+  });
+});
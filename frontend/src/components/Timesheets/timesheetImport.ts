@@ -0,0 +1,302 @@
+import dayjs from 'dayjs';
+import type { TimesheetImportRow, TimesheetImportRowResult } from '../../types';
+
+/**
+ * Timesheet import from spreadsheets (CSV) and calendars (.ics).
+ *
+ * Files are read here and turned into rows of plain values (date, times and names); the
+ * backend (TimesheetImportService) matches the names and checks each row.
+ */
+
+export type ImportField = keyof TimesheetImportRow;
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+export type ImportDefaults = Pick<TimesheetImportRow, 'project' | 'task' | 'location'>;
+
+export const IMPORT_FIELDS: ImportField[] = ['date', 'start_time', 'end_time', 'project', 'task', 'location', 'description'];
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+/** Header names recognised per field (English and Portuguese, accents and case ignored). */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'data', 'day', 'dia', 'start date'],
+  start_time: ['start', 'start time', 'from', 'begin', 'inicio', 'hora inicio', 'hora de inicio', 'entrada'],
+  end_time: ['end', 'end time', 'to', 'finish', 'fim', 'hora fim', 'hora de fim', 'saida'],
+  project: ['project', 'projeto', 'project name', 'client', 'cliente'],
+  task: ['task', 'tarefa', 'activity', 'atividade'],
+  location: ['location', 'local', 'localizacao', 'site'],
+  description: ['description', 'descricao', 'notes', 'notas', 'subject', 'assunto', 'comment', 'comentario'],
+};
+
+const normalizeHeader = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/** Delimiter used most on the first line: comma, semicolon (European Excel) or tab. */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  const [best] = [',', ';', '\t']
+    .map((delimiter) => ({ delimiter, count: unquoted.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+/** RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.map((cells) => cells.map((cell) => cell.trim())).filter((cells) => cells.some((cell) => cell !== ''));
+};
+
+/** Column of each field, guessed from the header row. */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex((header, column) => HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(column));
+    if (index >= 0) mapping[field] = index;
+  });
+
+  return mapping;
+};
+
+/** ISO dates win; otherwise a day or month above 12 tells DD/MM from MM/DD. */
+export const detectDateFormat = (values: string[], fallback: ImportDateFormat): ImportDateFormat => {
+  if (values.some((value) => /^\d{4}-\d{1,2}-\d{1,2}/.test(value.trim()))) return 'YYYY-MM-DD';
+
+  const parts = values.map((value) => value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/)).filter(Boolean) as RegExpMatchArray[];
+  if (parts.some((match) => Number(match[1]) > 12)) return 'DD/MM/YYYY';
+  if (parts.some((match) => Number(match[2]) > 12)) return 'MM/DD/YYYY';
+
+  return fallback;
+};
+
+/** YYYY-MM-DD, or the trimmed value when it cannot be read (the backend reports it). */
+export const normalizeImportDate = (value: string, format: ImportDateFormat): string => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  }
+
+  const match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (!match || format === 'YYYY-MM-DD') return trimmed;
+
+  const [day, month] = format === 'DD/MM/YYYY' ? [match[1], match[2]] : [match[2], match[1]];
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  const candidate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+
+  // dayjs rolls 31/02 over to March; only keep dates that exist
+  return dayjs(candidate).format('YYYY-MM-DD') === candidate ? candidate : trimmed;
+};
+
+/** HH:mm from "9:00", "09:00:00", "9h30", "9.30" or "5:30 PM"; otherwise the trimmed value. */
+export const normalizeImportTime = (value: string): string => {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d{1,2})(?:[:h.](\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!match || (!match[2] && !match[3])) return trimmed;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+  if (hour > 23 || minute > 59) return trimmed;
+
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+const emptyRow = (): TimesheetImportRow => ({
+  date: '',
+  start_time: '',
+  end_time: '',
+  project: '',
+  task: '',
+  location: '',
+  description: '',
+});
+
+/** Rows of a parsed CSV (header row excluded) mapped to import fields. */
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  dateFormat: ImportDateFormat
+): TimesheetImportRow[] =>
+  rows.map((cells) => {
+    const row = emptyRow();
+    IMPORT_FIELDS.forEach((field) => {
+      const column = mapping[field];
+      if (column !== undefined) row[field] = cells[column] ?? '';
+    });
+    row.date = normalizeImportDate(row.date, dateFormat);
+    row.start_time = normalizeImportTime(row.start_time);
+    row.end_time = normalizeImportTime(row.end_time);
+    return row;
+  });
+
+/** Fills the project, task and location left empty in the file. */
+export const applyImportDefaults = (rows: TimesheetImportRow[], defaults: ImportDefaults): TimesheetImportRow[] =>
+  rows.map((row) => ({
+    ...row,
+    project: row.project.trim() || defaults.project.trim(),
+    task: row.task.trim() || defaults.task.trim(),
+    location: row.location.trim() || defaults.location.trim(),
+  }));
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\[nN]/g, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Local date and time of an iCalendar DATE-TIME. UTC values (ending in Z) are shown in the
+ * browser timezone; values with TZID or floating ones are taken as wall-clock times.
+ */
+const parseIcsDateTime = (value: string): dayjs.Dayjs | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '00', utc] = match;
+  return utc
+    ? dayjs(new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))))
+    : dayjs(`${year}-${month}-${day}T${hour}:${minute}:${second}`);
+};
+
+/** Minutes of an iCalendar DURATION such as PT1H30M or P1DT2H. */
+const parseIcsDuration = (value: string): number | null => {
+  const match = value.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) return null;
+  return Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+};
+
+/**
+ * Timed events of an .ics file (e.g. an Outlook calendar export) as import rows. All-day events
+ * are skipped, SUMMARY becomes the description, LOCATION the location and the first category
+ * the project.
+ */
+export const parseIcsEvents = (text: string): TimesheetImportRow[] => {
+  const lines: string[] = [];
+  text.split(/\r\n|\r|\n/).forEach((raw) => {
+    if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else if (raw.trim() !== '') {
+      lines.push(raw);
+    }
+  });
+
+  const rows: TimesheetImportRow[] = [];
+  let event: Record<string, string> | null = null;
+
+  lines.forEach((line) => {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (upper === 'END:VEVENT') {
+      const current: Record<string, string> = event ?? {};
+      event = null;
+
+      const start = parseIcsDateTime(current.DTSTART ?? '');
+      const duration = current.DURATION ? parseIcsDuration(current.DURATION) : null;
+      const end = current.DTEND ? parseIcsDateTime(current.DTEND) : start && duration !== null ? start.add(duration, 'minute') : null;
+      if (!start || !end || !end.isAfter(start)) return;
+
+      rows.push({
+        ...emptyRow(),
+        date: start.format('YYYY-MM-DD'),
+        start_time: start.format('HH:mm'),
+        end_time: end.format('HH:mm'),
+        project: unescapeIcsText((current.CATEGORIES ?? '').split(',')[0] ?? ''),
+        location: unescapeIcsText(current.LOCATION ?? ''),
+        description: unescapeIcsText(current.SUMMARY ?? ''),
+      });
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    if (event === null || separator < 0) return;
+    const name = line.slice(0, separator).split(';', 1)[0].toUpperCase();
+    if (['DTSTART', 'DTEND', 'DURATION', 'SUMMARY', 'LOCATION', 'CATEGORIES'].includes(name)) {
+      event[name] = line.slice(separator + 1);
+    }
+  });
+
+  return rows.sort((a, b) => `${a.date} ${a.start_time}`.localeCompare(`${b.date} ${b.start_time}`));
+};
+
+export const isIcsFile = (fileName: string, text: string): boolean =>
+  /\.ics$/i.test(fileName) || /^\s*BEGIN:VCALENDAR/i.test(text);
+
+const csvCell = (value: string): string => (/[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** CSV of the rejected rows with their errors, to fix and import again. */
+export const buildRejectionReport = (
+  rows: TimesheetImportRow[],
+  results: TimesheetImportRowResult[],
+  headers: { row: string; errors: string } & Record<ImportField, string>
+): string => {
+  const lines = [
+    [headers.row, ...IMPORT_FIELDS.map((field) => headers[field]), headers.errors],
+    ...results
+      .filter((result) => !result.valid)
+      .map((result) => {
+        const row = rows[result.row - 1] ?? emptyRow();
+        return [String(result.row), ...IMPORT_FIELDS.map((field) => row[field]), result.errors.join(' | ')];
+      }),
+  ];
+
+  return `${lines.map((cells) => cells.map(csvCell).join(',')).join('\r\n')}\r\n`;
+};
+
+export const downloadTextFile = (content: string, fileName: string, type = 'text/csv;charset=utf-8'): void => {
+  const url = window.URL.createObjectURL(new Blob(['\uFEFF', content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+};
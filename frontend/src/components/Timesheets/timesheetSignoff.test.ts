@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { Timesheet } from '../../types';
+import { getSignoffPeriod, getSignoffReportFilename, groupSignoffCandidates } from './timesheetSignoff';
+
+const entry = (overrides: Partial<Timesheet>): Timesheet => ({
+  id: 1,
+  technician_id: 7,
+  project_id: 3,
+  location_id: 5,
+  date: '2026-03-04',
+  start_time: '08:00',
+  end_time: '12:00',
+  hours_worked: 4,
+  status: 'draft',
+  created_at: '',
+  updated_at: '',
+  ...overrides,
+});
+
+describe('getSignoffPeriod', () => {
+  it('covers the day or the week containing it', () => {
+    expect(getSignoffPeriod('day', '2026-03-04T00:00:00')).toEqual({ from: '2026-03-04', to: '2026-03-04' });
+    expect(getSignoffPeriod('week', '2026-03-04')).toEqual({ from: '2026-03-02', to: '2026-03-08' });
+    expect(getSignoffPeriod('week', '2026-03-04', 0)).toEqual({ from: '2026-03-01', to: '2026-03-07' });
+    expect(getSignoffPeriod('week', '2026-03-01', 1)).toEqual({ from: '2026-02-23', to: '2026-03-01' });
+  });
+});
+
+describe('groupSignoffCandidates', () => {
+  it('groups unsigned entries of the period by technician and location', () => {
+    const groups = groupSignoffCandidates(
+      [
+        entry({ id: 1, date: '2026-03-03', hours_worked: 4 }),
+        entry({ id: 2, date: '2026-03-02', hours_worked: 3.5 }),
+        entry({ id: 3, location_id: 6 }),
+        entry({ id: 4, location_id: undefined }),
+        entry({ id: 5, signoff_id: 9 }),
+        entry({ id: 6, date: '2026-03-10' }),
+        entry({ id: 7, technician_id: 8 }),
+      ],
+      { from: '2026-03-02', to: '2026-03-08' },
+      (timesheet) => timesheet.technician_id === 7
+    );
+
+    expect(groups.map((group) => group.key)).toEqual(['7:5', '7:6']);
+    expect(groups[0].entries.map((item) => item.id)).toEqual([2, 1]);
+    expect(groups[0].totalHours).toBe(7.5);
+  });
+});
+
+describe('getSignoffReportFilename', () => {
+  it('names the report like the backend', () => {
+    expect(getSignoffReportFilename({ id: 12, period_start: '2026-03-02' })).toBe('service-report-12-2026-03-02.pdf');
+  });
+});
@@ -0,0 +1,94 @@
+import dayjs from 'dayjs';
+import type { Timesheet, TimesheetSignoff } from '../../types';
+import { timesheetSignoffsApi } from '../../services/api';
+
+/**
+ * Customer sign-off of field timesheets.
+ *
+ * The site customer signs a technician's entries of a day or a week at one location; signed
+ * entries are frozen until an Admin voids the sign-off. Mirrors the checks of
+ * TimesheetSignoffController::store.
+ */
+
+export type SignoffScope = 'day' | 'week';
+
+export interface SignoffGroup {
+  key: string;
+  technicianId: number;
+  technicianName: string | null;
+  locationId: number;
+  locationName: string | null;
+  entries: Timesheet[];
+  totalHours: number;
+}
+
+/** Day of the date, or the week containing it (weekFirstDay: 0 = Sunday ... 6 = Saturday). */
+export const getSignoffPeriod = (scope: SignoffScope, date: string, weekFirstDay = 1): { from: string; to: string } => {
+  const day = dayjs(date.slice(0, 10));
+  if (scope === 'day') {
+    const value = day.format('YYYY-MM-DD');
+    return { from: value, to: value };
+  }
+
+  const start = day.subtract((day.day() - weekFirstDay + 7) % 7, 'day');
+  return { from: start.format('YYYY-MM-DD'), to: start.add(6, 'day').format('YYYY-MM-DD') };
+};
+
+/**
+ * Entries of the period that can still be signed off, grouped by technician and location
+ * (a sign-off covers one of each). Entries without a location cannot be signed off.
+ */
+export const groupSignoffCandidates = (
+  timesheets: Timesheet[],
+  period: { from: string; to: string },
+  canSign: (timesheet: Timesheet) => boolean = () => true
+): SignoffGroup[] => {
+  const groups = new Map<string, SignoffGroup>();
+
+  timesheets.forEach((timesheet) => {
+    const date = String(timesheet.date ?? '').slice(0, 10);
+    if (date < period.from || date > period.to) return;
+    if (!timesheet.location_id || timesheet.signoff_id || !canSign(timesheet)) return;
+
+    const key = `${timesheet.technician_id}:${timesheet.location_id}`;
+    const group = groups.get(key) ?? {
+      key,
+      technicianId: timesheet.technician_id,
+      technicianName: timesheet.technician?.name ?? null,
+      locationId: timesheet.location_id,
+      locationName: timesheet.location?.name ?? null,
+      entries: [],
+      totalHours: 0,
+    };
+
+    group.entries.push(timesheet);
+    group.totalHours += Number(timesheet.hours_worked) || 0;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      totalHours: Math.round(group.totalHours * 100) / 100,
+      entries: [...group.entries].sort((a, b) =>
+        `${String(a.date).slice(0, 10)} ${a.start_time ?? ''}`.localeCompare(`${String(b.date).slice(0, 10)} ${b.start_time ?? ''}`)
+      ),
+    }))
+    .sort((a, b) => (a.technicianName ?? '').localeCompare(b.technicianName ?? '') || (a.locationName ?? '').localeCompare(b.locationName ?? ''));
+};
+
+/** Same name as TimesheetSignoffReport::filename. */
+export const getSignoffReportFilename = (signoff: Pick<TimesheetSignoff, 'id' | 'period_start'>): string =>
+  `service-report-${signoff.id}-${signoff.period_start.slice(0, 10)}.pdf`;
+
+export const downloadSignoffReport = async (signoff: Pick<TimesheetSignoff, 'id' | 'period_start'>): Promise<void> => {
+  const blob = await timesheetSignoffsApi.downloadPdf(signoff.id);
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = getSignoffReportFilename(signoff);
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import type { AiTimesheetPlan, RecentTimesheetCombo, TimesheetTemplate } from '../../types';
+import { applyQuickPickToPlan, buildQuickPickPrompt, getQuickPicks, isComboPinned } from './timesheetTemplates';
+
+const template = (overrides: Partial<TimesheetTemplate>): TimesheetTemplate => ({
+  id: 1,
+  name: 'Morning inspection',
+  project_id: 3,
+  project_name: 'Plant Overhaul',
+  task_id: 8,
+  task_name: 'Inspection',
+  location_id: 5,
+  location_name: 'Depot',
+  start_time: '08:00',
+  end_time: '12:30',
+  description: null,
+  is_favourite: false,
+  last_used_at: null,
+  valid: true,
+  invalid_reason: null,
+  ...overrides,
+});
+
+const recent = (overrides: Partial<RecentTimesheetCombo>): RecentTimesheetCombo => ({
+  project_id: 3,
+  project_name: 'Plant Overhaul',
+  task_id: 8,
+  task_name: 'Inspection',
+  location_id: 5,
+  location_name: 'Depot',
+  start_time: '09:00',
+  end_time: '13:00',
+  last_used_on: '2026-03-04',
+  ...overrides,
+});
+
+describe('getQuickPicks', () => {
+  it('lists templates then the recent combinations no valid template covers', () => {
+    const templates = [template({ id: 1 }), template({ id: 2, task_id: 9, valid: false, invalid_reason: 'task_inactive' })];
+    const recents = [recent({}), recent({ location_id: null }), recent({ task_id: 9 })];
+
+    expect(isComboPinned(recents[0], templates)).toBe(true);
+    expect(isComboPinned(recents[2], templates)).toBe(false);
+    expect(getQuickPicks(templates, recents).map((pick) => pick.key)).toEqual([
+      'template-1',
+      'recent-3:8:0',
+      'recent-3:9:5',
+    ]);
+    expect(getQuickPicks(templates, recents, { includeInvalid: true, recentLimit: 1 }).map((pick) => pick.key)).toEqual([
+      'template-1',
+      'template-2',
+      'recent-3:8:0',
+    ]);
+  });
+});
+
+describe('buildQuickPickPrompt', () => {
+  it('writes a single-day builder prompt', () => {
+    const pick = { kind: 'template' as const, key: 'template-1', template: template({ description: 'Check "pumps"\nand valves' }) };
+    expect(buildQuickPickPrompt(pick, '2026-03-04T10:00:00')).toBe(
+      [
+        'DATE_RANGE=2026-03-04..2026-03-04',
+        'Project: "Plant Overhaul"',
+        'Task: "Inspection"',
+        "Description: \"Check 'pumps' and valves\"",
+        'Block 1: 08:00-12:30',
+      ].join('\n')
+    );
+    expect(buildQuickPickPrompt({ kind: 'recent', key: 'recent-3:8:5', combo: recent({ task_name: null }) }, '2026-03-05')).toBe(
+      ['DATE_RANGE=2026-03-05..2026-03-05', 'Project: "Plant Overhaul"', 'Block 1: 09:00-13:00'].join('\n')
+    );
+  });
+});
+
+describe('applyQuickPickToPlan', () => {
+  it('fills task and location into open blocks of the template project', () => {
+    const block = (projectId: number, taskId: number | null, locationId: number | null) => ({
+      start_time: '08:00',
+      end_time: '12:30',
+      project: { id: projectId, name: null },
+      task: { id: taskId, name: null },
+      location: { id: locationId, name: null },
+    });
+    const plan: AiTimesheetPlan = {
+      range: { start_date: '2026-03-04', end_date: '2026-03-04' },
+      days: [{ date: '2026-03-04', work_blocks: [block(3, null, null), block(3, 8, 6), block(3, 10, null), block(4, null, null)], breaks: [] }],
+    };
+
+    const blocks = applyQuickPickToPlan(plan, { kind: 'template', key: 'template-1', template: template({}) }).days[0].work_blocks;
+    expect(blocks.map((item) => [item.task.id, item.location.id])).toEqual([
+      [8, 5],
+      [8, 6],
+      [10, null],
+      [null, null],
+    ]);
+  });
+});
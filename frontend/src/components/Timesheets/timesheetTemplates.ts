@@ -0,0 +1,114 @@
+import dayjs from 'dayjs';
+import type { AiTimesheetPlan, RecentTimesheetCombo, TimesheetTemplate } from '../../types';
+
+/**
+ * Saved entry templates and recent project/task/location combinations, picked in one click from
+ * the entry dialog and the AI chat. Validity is decided by TimesheetTemplateController.
+ */
+
+type Combo = Pick<TimesheetTemplate, 'project_id' | 'task_id' | 'location_id'>;
+
+export type QuickPick =
+  | { kind: 'template'; key: string; template: TimesheetTemplate }
+  | { kind: 'recent'; key: string; combo: RecentTimesheetCombo };
+
+export const comboKey = (combo: Combo): string => `${combo.project_id}:${combo.task_id}:${combo.location_id ?? 0}`;
+
+/** Whether a usable template already covers the combination. */
+export const isComboPinned = (combo: Combo, templates: TimesheetTemplate[]): boolean => {
+  const key = comboKey(combo);
+  return templates.some((template) => template.valid && comboKey(template) === key);
+};
+
+/**
+ * Templates first (in server order: favourites, then most recently used), then the recent
+ * combinations no template covers yet. Invalid templates are kept only when requested, so the
+ * dialog can show them greyed out while the AI chat leaves them out.
+ */
+export const getQuickPicks = (
+  templates: TimesheetTemplate[],
+  recents: RecentTimesheetCombo[],
+  options: { includeInvalid?: boolean; recentLimit?: number } = {}
+): QuickPick[] => {
+  const { includeInvalid = false, recentLimit = 4 } = options;
+
+  const templatePicks: QuickPick[] = templates
+    .filter((template) => includeInvalid || template.valid)
+    .map((template) => ({ kind: 'template', key: `template-${template.id}`, template }));
+
+  const recentPicks: QuickPick[] = recents
+    .filter((combo) => !isComboPinned(combo, templates))
+    .slice(0, recentLimit)
+    .map((combo) => ({ kind: 'recent', key: `recent-${comboKey(combo)}`, combo }));
+
+  return [...templatePicks, ...recentPicks];
+};
+
+/** Entry fields a quick pick fills in. */
+export interface QuickPickValues {
+  project_id: number;
+  task_id: number;
+  location_id: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  description: string | null;
+}
+
+export const getQuickPickValues = (pick: QuickPick): QuickPickValues => {
+  const source = pick.kind === 'template' ? pick.template : pick.combo;
+  return {
+    project_id: source.project_id,
+    task_id: source.task_id,
+    location_id: source.location_id,
+    start_time: source.start_time,
+    end_time: source.end_time,
+    description: pick.kind === 'template' ? pick.template.description : null,
+  };
+};
+
+/** Default template name for a combination, e.g. "Inspection · Depot". */
+export const getComboLabel = (combo: Pick<RecentTimesheetCombo, 'project_name' | 'task_name' | 'location_name'>): string =>
+  [combo.task_name ?? combo.project_name, combo.location_name].filter(Boolean).join(' · ');
+
+const quote = (value: string): string => `"${value.replace(/"/g, "'").replace(/\s*\n\s*/g, ' ').trim()}"`;
+
+/** Builder prompt for the AI chat that creates the picked entry on the given day. */
+export const buildQuickPickPrompt = (pick: QuickPick, date: string): string => {
+  const source = pick.kind === 'template' ? pick.template : pick.combo;
+  const values = getQuickPickValues(pick);
+  const day = dayjs(date.slice(0, 10)).format('YYYY-MM-DD');
+  const lines = [`DATE_RANGE=${day}..${day}`, `Project: ${quote(source.project_name ?? String(source.project_id))}`];
+
+  if (source.task_name) {
+    lines.push(`Task: ${quote(source.task_name)}`);
+  }
+  if (values.description?.trim()) {
+    lines.push(`Description: ${quote(values.description)}`);
+  }
+  lines.push(`Block 1: ${values.start_time ?? '09:00'}-${values.end_time ?? '17:00'}`);
+
+  return lines.join('\n');
+};
+
+/**
+ * Fills the picked task and location into the work blocks of a previewed plan that belong to
+ * the picked project and left them open (the builder prompt has no location label).
+ */
+export const applyQuickPickToPlan = (plan: AiTimesheetPlan, pick: QuickPick): AiTimesheetPlan => {
+  const source = pick.kind === 'template' ? pick.template : pick.combo;
+
+  return {
+    ...plan,
+    days: plan.days.map((day) => ({
+      ...day,
+      work_blocks: day.work_blocks.map((block) => {
+        if (block.project.id !== source.project_id) return block;
+        const task = block.task.id ? block.task : { id: source.task_id, name: source.task_name };
+        if (task.id !== source.task_id) return block;
+        const location =
+          block.location.id || !source.location_id ? block.location : { id: source.location_id, name: source.location_name };
+        return { ...block, task, location };
+      }),
+    })),
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimesheetThread } from './timesheetThread';
+import type { TimesheetComment, TimesheetStatusChange } from '../../types';
+
+const change = (id: number, from: string | null, to: string, created_at: string) =>
+  ({ id, from_status: from, to_status: to, changed_by: null, created_at }) as unknown as TimesheetStatusChange;
+
+const comment = (id: number, kind: string, created_at: string) =>
+  ({ id, kind, body: `c${id}`, user: null, created_at }) as unknown as TimesheetComment;
+
+describe('buildTimesheetThread', () => {
+  it('returns an empty thread without activity', () => {
+    expect(buildTimesheetThread(null)).toEqual([]);
+  });
+
+  it('interleaves comments and status changes chronologically', () => {
+    const thread = buildTimesheetThread({
+      history: [
+        change(1, null, 'submitted', '2026-03-04T08:00:00Z'),
+        change(2, 'submitted', 'rejected', '2026-03-05T10:00:00Z'),
+        change(3, 'rejected', 'submitted', '2026-03-05T15:00:00Z'),
+      ],
+      comments: [
+        comment(10, 'rejection', '2026-03-05T10:00:00Z'),
+        comment(11, 'comment', '2026-03-05T12:30:00Z'),
+        comment(12, 'resubmission', '2026-03-05T15:00:00Z'),
+      ],
+    });
+
+    expect(thread.map((item) => item.key)).toEqual([
+      'status-1',
+      'status-2',
+      'comment-10',
+      'comment-11',
+      'status-3',
+      'comment-12',
+    ]);
+  });
+});
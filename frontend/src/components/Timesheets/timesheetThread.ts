@@ -0,0 +1,44 @@
+import type { TimesheetActivity, TimesheetComment, TimesheetStatusChange } from '../../types';
+
+export type TimesheetThreadItem =
+  | { type: 'status'; key: string; createdAt: string | null; change: TimesheetStatusChange }
+  | { type: 'comment'; key: string; createdAt: string | null; comment: TimesheetComment };
+
+const toTime = (value: string | null): number => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Merges comments and status changes into one chronological thread. A status change sorts
+ * before a comment with the same timestamp, so a rejection reads "Submitted → Rejected"
+ * followed by the manager's reason.
+ */
+export const buildTimesheetThread = (activity: Pick<TimesheetActivity, 'comments' | 'history'> | null): TimesheetThreadItem[] => {
+  if (!activity) return [];
+
+  const items: TimesheetThreadItem[] = [
+    ...activity.history.map((change) => ({
+      type: 'status' as const,
+      key: `status-${change.id}`,
+      createdAt: change.created_at,
+      change,
+    })),
+    ...activity.comments.map((comment) => ({
+      type: 'comment' as const,
+      key: `comment-${comment.id}`,
+      createdAt: comment.created_at,
+      comment,
+    })),
+  ];
+
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const diff = toTime(a.item.createdAt) - toTime(b.item.createdAt);
+      if (diff !== 0) return diff;
+      if (a.item.type !== b.item.type) return a.item.type === 'status' ? -1 : 1;
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+};
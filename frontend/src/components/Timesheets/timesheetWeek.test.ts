@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findTimesheetWeekIssues,
+  getSubmittableWeekEntries,
+  isDateInTimesheetWeek,
+  isSignedOffError,
+  isWeekLockedError,
+} from './timesheetWeek';
+import type { Timesheet } from '../../types';
+
+const entry = (overrides: Record<string, unknown>) =>
+  ({
+    id: 1,
+    technician_id: 10,
+    project_id: 5,
+    task_id: 7,
+    location_id: 3,
+    date: '2026-03-02',
+    start_time: '09:00:00',
+    end_time: '13:00:00',
+    hours_worked: '4.00',
+    status: 'draft',
+    ...overrides,
+  }) as unknown as Timesheet;
+
+describe('findTimesheetWeekIssues', () => {
+  it('accepts a clean week', () => {
+    expect(
+      findTimesheetWeekIssues(
+        [entry({ id: 1 }), entry({ id: 2, start_time: '14:00', end_time: '18:00' }), entry({ id: 3, date: '2026-03-03' })],
+        12
+      )
+    ).toEqual([]);
+  });
+
+  it('reports missing tasks/locations, overlaps and days over the cap', () => {
+    const issues = findTimesheetWeekIssues(
+      [
+        entry({ id: 1, start_time: '06:00', end_time: '14:00', hours_worked: 8 }),
+        entry({ id: 2, start_time: '09:00', end_time: '10:00', hours_worked: 1 }),
+        entry({ id: 3, start_time: '11:00', end_time: '16:00', hours_worked: 5, task_id: null }),
+        entry({ id: 4, date: '2026-03-04', location_id: null }),
+      ],
+      12
+    );
+
+    expect(issues).toEqual([
+      { code: 'missing_task', date: '2026-03-02', timesheet_id: 3 },
+      { code: 'missing_location', date: '2026-03-04', timesheet_id: 4 },
+      { code: 'over_cap', date: '2026-03-02', timesheet_id: null },
+      { code: 'overlap', date: '2026-03-02', timesheet_id: 2 },
+      { code: 'overlap', date: '2026-03-02', timesheet_id: 3 },
+    ]);
+  });
+
+  it('splits overnight entries per calendar day and checks overlaps across midnight', () => {
+    const night = entry({ id: 1, start_time: '22:00', end_time: '06:00', hours_worked: 8 });
+
+    expect(
+      findTimesheetWeekIssues(
+        [night, entry({ id: 2, date: '2026-03-03', start_time: '06:00', end_time: '12:00', hours_worked: 6 })],
+        12
+      )
+    ).toEqual([]);
+    expect(
+      findTimesheetWeekIssues(
+        [night, entry({ id: 2, date: '2026-03-03', start_time: '05:00', end_time: '10:00', hours_worked: 5 })],
+        12
+      )
+    ).toEqual([{ code: 'overlap', date: '2026-03-03', timesheet_id: 2 }]);
+  });
+
+  it('compares entries recorded in different timezones on absolute time', () => {
+    const lisbon = entry({ id: 1, start_time: '14:00', end_time: '16:00', hours_worked: 2, timezone: 'Europe/Lisbon' });
+
+    expect(
+      findTimesheetWeekIssues([lisbon, entry({ id: 2, start_time: '09:00', end_time: '10:00', hours_worked: 1, timezone: 'America/New_York' })], 12)
+    ).toEqual([{ code: 'overlap', date: '2026-03-02', timesheet_id: 2 }]);
+    expect(
+      findTimesheetWeekIssues([lisbon, entry({ id: 2, start_time: '14:00', end_time: '16:00', hours_worked: 2, timezone: 'America/New_York' })], 12)
+    ).toEqual([]);
+  });
+
+  it('ignores closed entries', () => {
+    expect(
+      findTimesheetWeekIssues([entry({ id: 1, status: 'closed' }), entry({ id: 2, start_time: '10:00' })], 12)
+    ).toEqual([]);
+  });
+});
+
+describe('week helpers', () => {
+  it('only submits drafts and rejected entries', () => {
+    const entries = ['draft', 'rejected', 'submitted', 'approved'].map((status, id) => entry({ id, status }));
+    expect(getSubmittableWeekEntries(entries).map((item) => item.status)).toEqual(['draft', 'rejected']);
+  });
+
+  it('checks whether a date falls inside the week', () => {
+    const week = { week_start: '2026-03-02', week_end: '2026-03-08' };
+    expect(isDateInTimesheetWeek('2026-03-08T10:00:00', week)).toBe(true);
+    expect(isDateInTimesheetWeek('2026-03-09', week)).toBe(false);
+    expect(isDateInTimesheetWeek('2026-03-05', null)).toBe(false);
+  });
+
+  it('tells a locked week from a signed-off entry', () => {
+    const locked = (code: string) => ({ response: { status: 423, data: { code } } });
+    expect(isWeekLockedError(locked('week_locked'))).toBe(true);
+    expect(isWeekLockedError(locked('signed_off'))).toBe(false);
+    expect(isSignedOffError(locked('signed_off'))).toBe(true);
+    expect(isSignedOffError({ response: { status: 422, data: { code: 'signed_off' } } })).toBe(false);
+    expect(isWeekLockedError(null)).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import dayjs from 'dayjs';
+import type { Timesheet, TimesheetWeekIssue, TimesheetWeekStatus } from '../../types';
+import { splitHoursByDay } from '../../utils/timesheetShift';
+import { getEntryInstants } from '../../utils/timesheetTimezone';
+
+const toDateOnly = (value: string): string => dayjs(value).format('YYYY-MM-DD');
+
+export const isDateInTimesheetWeek = (
+  date: string,
+  week: Pick<TimesheetWeekStatus, 'week_start' | 'week_end'> | null
+): boolean => {
+  if (!week) return false;
+  const day = toDateOnly(date);
+  return day >= week.week_start && day <= week.week_end;
+};
+
+/** Entries of the week that a week submission would submit. */
+export const getSubmittableWeekEntries = (entries: Timesheet[]): Timesheet[] =>
+  entries.filter((entry) => entry.status === 'draft' || entry.status === 'rejected');
+
+/**
+ * Client-side pre-check mirroring the backend WeekSubmissionValidator: every entry needs a
+ * task and a location, entries must not overlap (across midnight and timezones too) and no
+ * calendar day of the site may exceed the cap. Entries without a timezone are taken to be in
+ * homeTimezone.
+ * Closed entries are ignored.
+ */
+export const findTimesheetWeekIssues = (
+  entries: Timesheet[],
+  dailyHourCap: number,
+  homeTimezone = 'UTC'
+): TimesheetWeekIssue[] => {
+  const issues: TimesheetWeekIssue[] = [];
+  const relevant = entries.filter((entry) => entry.status !== 'closed');
+
+  relevant.forEach((entry) => {
+    const date = toDateOnly(entry.date);
+    if (!entry.task_id) issues.push({ code: 'missing_task', date, timesheet_id: entry.id });
+    if (!entry.location_id) issues.push({ code: 'missing_location', date, timesheet_id: entry.id });
+  });
+
+  // Overnight entries count toward both calendar days.
+  const totals = new Map<string, number>();
+  relevant.forEach((entry) => {
+    Object.entries(splitHoursByDay({ ...entry, date: toDateOnly(entry.date) })).forEach(([date, hours]) => {
+      totals.set(date, (totals.get(date) ?? 0) + hours);
+    });
+  });
+  Array.from(totals.keys())
+    .sort()
+    .forEach((date) => {
+      if ((totals.get(date) ?? 0) > dailyHourCap) {
+        issues.push({ code: 'over_cap', date, timesheet_id: null });
+      }
+    });
+
+  // Windows on one timeline (each entry in its own timezone) so entries crossing midnight or
+  // recorded at sites in other timezones are compared too.
+  let latestEnd: number | null = null;
+  relevant
+    .map((entry) => {
+      const date = toDateOnly(entry.date);
+      const instants = getEntryInstants({ ...entry, date }, homeTimezone);
+      return instants ? { entry, date, start: instants.start.valueOf(), end: instants.end.valueOf() } : null;
+    })
+    .filter((item): item is { entry: Timesheet; date: string; start: number; end: number } => item !== null)
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ entry, date, start, end }) => {
+      if (latestEnd !== null && start < latestEnd) {
+        issues.push({ code: 'overlap', date, timesheet_id: entry.id });
+      }
+      latestEnd = Math.max(latestEnd ?? 0, end);
+    });
+
+  return issues;
+};
+
+type LockedErrorCode = 'week_locked' | 'signed_off';
+
+const isLockedError = (error: unknown, code: LockedErrorCode): boolean => {
+  const response = (error as { response?: { status?: number; data?: { code?: unknown } } } | null)?.response;
+  return response?.status === 423 && response.data?.code === code;
+};
+
+/** The API answers 423 `week_locked` when a technician changes an entry inside a submitted/approved week. */
+export const isWeekLockedError = (error: unknown): boolean => isLockedError(error, 'week_locked');
+
+/** The API answers 423 `signed_off` when an entry was signed off by the customer, whatever its week's state. */
+export const isSignedOffError = (error: unknown): boolean => isLockedError(error, 'signed_off');
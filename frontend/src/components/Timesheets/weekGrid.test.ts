@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildWeekGridRows,
+  getWeekGridDates,
+  parseClipboardGrid,
+  parseGridHours,
+  planWeekGridSave,
+  weekGridCellKey,
+} from './weekGrid';
+import type { Timesheet } from '../../types';
+
+const entry = (overrides: Record<string, unknown>) =>
+  ({
+    id: 1,
+    technician_id: 10,
+    project_id: 5,
+    task_id: 7,
+    location_id: 3,
+    date: '2026-03-02',
+    start_time: '09:00:00',
+    end_time: '13:00:00',
+    hours_worked: '4.00',
+    description: 'Maintenance',
+    status: 'draft',
+    ...overrides,
+  }) as unknown as Timesheet;
+
+const dates = getWeekGridDates('2026-03-02');
+
+describe('buildWeekGridRows', () => {
+  it('groups entries by project, task and location', () => {
+    const rows = buildWeekGridRows(
+      [
+        entry({ id: 1 }),
+        entry({ id: 2, date: '2026-03-03', hours_worked: 2 }),
+        entry({ id: 3, task_id: 8, start_time: '13:00', end_time: '15:00', hours_worked: 2 }),
+        entry({ id: 4, date: '2026-03-09' }),
+      ],
+      dates,
+      [{ project_id: 6, task_id: 9, location_id: 3, description: 'Audit' }]
+    );
+
+    expect(rows.map((row) => row.key)).toEqual(['5:7:3', '5:8:3', '6:9:3']);
+    expect(rows[0].cells.map((cell) => cell.hours)).toEqual([4, 2, 0, 0, 0, 0, 0]);
+    expect(rows[2].description).toBe('Audit');
+  });
+
+  it('locks cells with several entries or an approved entry', () => {
+    const [row] = buildWeekGridRows(
+      [
+        entry({ id: 1 }),
+        entry({ id: 2, start_time: '14:00', end_time: '15:00', hours_worked: 1 }),
+        entry({ id: 3, date: '2026-03-03', status: 'approved' }),
+      ],
+      dates
+    );
+
+    expect(row.cells[0]).toMatchObject({ hours: 5, editable: false, status: 'draft' });
+    expect(row.cells[1]).toMatchObject({ editable: false, status: 'approved' });
+    expect(row.cells[2]).toMatchObject({ editable: true, status: null });
+  });
+});
+
+describe('parseGridHours', () => {
+  it('accepts decimals, commas, clock times and blanks', () => {
+    expect(parseGridHours('7.5')).toBe(7.5);
+    expect(parseGridHours('7,5')).toBe(7.5);
+    expect(parseGridHours('7:45')).toBe(7.75);
+    expect(parseGridHours('8h')).toBe(8);
+    expect(parseGridHours('  ')).toBe(0);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseGridHours('abc')).toBeNull();
+    expect(parseGridHours('-2')).toBeNull();
+    expect(parseGridHours('25')).toBeNull();
+    expect(parseGridHours('7:75')).toBeNull();
+  });
+});
+
+describe('parseClipboardGrid', () => {
+  it('splits spreadsheet rows and drops the trailing newline', () => {
+    expect(parseClipboardGrid('8\t7,5\t\r\n4\t4\t4\r\n')).toEqual([
+      ['8', '7,5', ''],
+      ['4', '4', '4'],
+    ]);
+  });
+});
+
+describe('planWeekGridSave', () => {
+  it('creates, updates and deletes entries from edited cells', () => {
+    const existing = [
+      entry({ id: 1 }),
+      entry({ id: 2, date: '2026-03-03' }),
+      entry({ id: 3, date: '2026-03-04', task_id: 8 }),
+    ];
+    const rows = buildWeekGridRows(existing, dates);
+    const plan = planWeekGridSave(
+      rows,
+      {
+        [weekGridCellKey('5:7:3', '2026-03-02')]: 6,
+        [weekGridCellKey('5:7:3', '2026-03-03')]: 0,
+        [weekGridCellKey('5:7:3', '2026-03-04')]: 2.1,
+        [weekGridCellKey('5:7:3', '2026-03-05')]: 4,
+      },
+      existing
+    );
+
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.operations).toEqual([
+      {
+        type: 'update',
+        cellKey: '5:7:3@2026-03-02',
+        id: 1,
+        data: { date: '2026-03-02', start_time: '09:00', end_time: '15:00', hours_worked: 6, status: 'submitted' },
+      },
+      { type: 'delete', cellKey: '5:7:3@2026-03-03', id: 2 },
+      {
+        type: 'create',
+        cellKey: '5:7:3@2026-03-04',
+        data: expect.objectContaining({ task_id: 7, start_time: '13:00', end_time: '15:00', hours_worked: 2 }),
+      },
+      {
+        type: 'create',
+        cellKey: '5:7:3@2026-03-05',
+        data: expect.objectContaining({ start_time: '09:00', end_time: '13:00', description: 'Maintenance' }),
+      },
+    ]);
+  });
+
+  it('reports updates that would overlap or run past midnight', () => {
+    const existing = [entry({ id: 1 }), entry({ id: 2, task_id: 8, start_time: '13:00', end_time: '20:00', hours_worked: 7 })];
+    const rows = buildWeekGridRows(existing, dates);
+    const plan = planWeekGridSave(
+      rows,
+      {
+        [weekGridCellKey('5:7:3', '2026-03-02')]: 5,
+        [weekGridCellKey('5:8:3', '2026-03-02')]: 12,
+      },
+      existing
+    );
+
+    expect(plan.operations).toEqual([]);
+    expect(plan.conflicts).toEqual([
+      { cellKey: '5:7:3@2026-03-02', reason: 'overlap' },
+      { cellKey: '5:8:3@2026-03-02', reason: 'no_room' },
+    ]);
+  });
+});
@@ -0,0 +1,257 @@
+import dayjs from 'dayjs';
+import type { Timesheet, TimesheetFormData } from '../../types';
+
+/** Entries outside these statuses are shown in the grid but cannot be changed from it. */
+const EDITABLE_STATUSES: ReadonlyArray<Timesheet['status']> = ['draft', 'submitted', 'rejected'];
+
+const DEFAULT_DAY_START = 9 * 60;
+const MINUTES_PER_DAY = 24 * 60;
+const STEP_MINUTES = 15;
+
+export interface WeekGridRowKey {
+  project_id: number;
+  task_id: number;
+  location_id: number;
+}
+
+export interface WeekGridCell {
+  date: string;
+  entries: Timesheet[];
+  hours: number;
+  /** Only cells with no entry or a single editable entry can be typed into. */
+  editable: boolean;
+  /** Status of the cell's entries when they all agree, otherwise null. */
+  status: Timesheet['status'] | null;
+}
+
+export interface WeekGridRow extends WeekGridRowKey {
+  key: string;
+  description: string;
+  cells: WeekGridCell[];
+}
+
+export type WeekGridEdits = Record<string, number>;
+
+export type WeekGridOperation =
+  | { type: 'create'; cellKey: string; data: TimesheetFormData }
+  | { type: 'update'; cellKey: string; id: number; data: Partial<TimesheetFormData> }
+  | { type: 'delete'; cellKey: string; id: number };
+
+export type WeekGridConflictReason = 'overlap' | 'no_room';
+
+export interface WeekGridPlan {
+  operations: WeekGridOperation[];
+  conflicts: Array<{ cellKey: string; reason: WeekGridConflictReason }>;
+}
+
+const toDateOnly = (value: string): string => dayjs(value).format('YYYY-MM-DD');
+
+const toMinutes = (value: string | null | undefined): number | null => {
+  const match = value ? String(value).match(/(\d{2}):(\d{2})/) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const hoursOf = (entry: Timesheet): number => {
+  const value = Number(entry.hours_worked);
+  return Number.isFinite(value) ? value : 0;
+};
+
+export const weekGridRowKey = (key: WeekGridRowKey): string =>
+  `${key.project_id}:${key.task_id}:${key.location_id}`;
+
+export const weekGridCellKey = (rowKey: string, date: string): string => `${rowKey}@${date}`;
+
+/** The 7 dates (YYYY-MM-DD) of the week starting at weekStart. */
+export const getWeekGridDates = (weekStart: string): string[] => {
+  const start = dayjs(weekStart).startOf('day');
+  return Array.from({ length: 7 }, (_, index) => start.add(index, 'day').format('YYYY-MM-DD'));
+};
+
+/**
+ * Groups a week of entries into one row per project/task/location. Rows listed in extraRows
+ * (added by the user but still empty) are kept so they can be typed into.
+ */
+export const buildWeekGridRows = (
+  entries: Timesheet[],
+  dates: string[],
+  extraRows: Array<WeekGridRowKey & { description?: string }> = []
+): WeekGridRow[] => {
+  const inWeek = new Set(dates);
+  const rows = new Map<string, { key: WeekGridRowKey; description: string; byDate: Map<string, Timesheet[]> }>();
+
+  const ensureRow = (rowKey: WeekGridRowKey, description: string) => {
+    const key = weekGridRowKey(rowKey);
+    const existing = rows.get(key);
+    if (existing) {
+      if (!existing.description && description) existing.description = description;
+      return existing;
+    }
+    const created = { key: rowKey, description, byDate: new Map<string, Timesheet[]>() };
+    rows.set(key, created);
+    return created;
+  };
+
+  entries.forEach((entry) => {
+    const date = toDateOnly(entry.date);
+    if (!inWeek.has(date) || !entry.task_id || !entry.location_id) return;
+    const row = ensureRow(
+      { project_id: entry.project_id, task_id: entry.task_id, location_id: entry.location_id },
+      entry.description ?? ''
+    );
+    row.byDate.set(date, [...(row.byDate.get(date) ?? []), entry]);
+  });
+
+  extraRows.forEach((extra) => ensureRow(extra, extra.description ?? ''));
+
+  return Array.from(rows.entries()).map(([key, row]) => ({
+    ...row.key,
+    key,
+    description: row.description,
+    cells: dates.map((date) => {
+      const cellEntries = row.byDate.get(date) ?? [];
+      const statuses = new Set(cellEntries.map((entry) => entry.status));
+      return {
+        date,
+        entries: cellEntries,
+        hours: cellEntries.reduce((sum, entry) => sum + hoursOf(entry), 0),
+        editable:
+          cellEntries.length === 0 ||
+          (cellEntries.length === 1 && EDITABLE_STATUSES.includes(cellEntries[0].status)),
+        status: statuses.size === 1 ? cellEntries[0].status : null,
+      };
+    }),
+  }));
+};
+
+/**
+ * Parses what a user types into a grid cell: "7.5", "7,5", "7:30" or "7h". An empty cell is 0.
+ * Returns null for anything that is not a number of hours between 0 and 24.
+ */
+export const parseGridHours = (input: string): number | null => {
+  const value = input.trim().toLowerCase().replace(/h$/, '').trim();
+  if (value === '') return 0;
+
+  const clock = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const minutes = Number(clock[2]);
+    if (minutes >= 60) return null;
+    const hours = Number(clock[1]) + minutes / 60;
+    return hours <= 24 ? hours : null;
+  }
+
+  if (!/^\d+([.,]\d+)?$/.test(value)) return null;
+  const hours = Number(value.replace(',', '.'));
+  return hours <= 24 ? hours : null;
+};
+
+/** Splits text copied from a spreadsheet into rows of cells. */
+export const parseClipboardGrid = (text: string): string[][] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines.map((line) => line.split('\t'));
+};
+
+const roundToStep = (hours: number): number => Math.round((hours * 60) / STEP_MINUTES) * STEP_MINUTES;
+
+/**
+ * Turns the edited cells into API calls.
+ *
+ * A new cell becomes an entry placed right after the latest entry of that day (09:00 on an
+ * empty day); a changed single-entry cell keeps its start time and moves its end time; a cleared
+ * cell deletes its entry. Hours are rounded to 15 minutes. Changes that would overlap another
+ * entry or run past midnight are reported as conflicts instead of being sent.
+ */
+export const planWeekGridSave = (
+  rows: WeekGridRow[],
+  edits: WeekGridEdits,
+  dayEntries: Timesheet[]
+): WeekGridPlan => {
+  const operations: WeekGridOperation[] = [];
+  const conflicts: WeekGridPlan['conflicts'] = [];
+
+  // Occupied time ranges per day, updated as the plan places entries.
+  const occupied = new Map<string, Array<{ id: number | null; start: number; end: number }>>();
+  dayEntries.forEach((entry) => {
+    const start = toMinutes(entry.start_time);
+    const end = toMinutes(entry.end_time);
+    if (start === null || end === null) return;
+    const date = toDateOnly(entry.date);
+    occupied.set(date, [...(occupied.get(date) ?? []), { id: entry.id, start, end }]);
+  });
+
+  rows.forEach((row) => {
+    row.cells.forEach((cell) => {
+      const cellKey = weekGridCellKey(row.key, cell.date);
+      if (!(cellKey in edits) || !cell.editable) return;
+
+      const minutes = roundToStep(edits[cellKey]);
+      const existing = cell.entries[0];
+      const ranges = occupied.get(cell.date) ?? [];
+
+      if (!existing) {
+        if (minutes <= 0) return;
+        const start = ranges.reduce((latest, range) => Math.max(latest, range.end), DEFAULT_DAY_START);
+        const end = start + minutes;
+        if (end >= MINUTES_PER_DAY) {
+          conflicts.push({ cellKey, reason: 'no_room' });
+          return;
+        }
+        occupied.set(cell.date, [...ranges, { id: null, start, end }]);
+        operations.push({
+          type: 'create',
+          cellKey,
+          data: {
+            project_id: row.project_id,
+            task_id: row.task_id,
+            location_id: row.location_id,
+            date: cell.date,
+            start_time: toTime(start),
+            end_time: toTime(end),
+            hours_worked: minutes / 60,
+            description: row.description,
+            status: 'submitted',
+          },
+        });
+        return;
+      }
+
+      if (minutes <= 0) {
+        occupied.set(cell.date, ranges.filter((range) => range.id !== existing.id));
+        operations.push({ type: 'delete', cellKey, id: existing.id });
+        return;
+      }
+
+      if (minutes === roundToStep(cell.hours)) return;
+
+      const start = toMinutes(existing.start_time) ?? DEFAULT_DAY_START;
+      const end = start + minutes;
+      if (end >= MINUTES_PER_DAY) {
+        conflicts.push({ cellKey, reason: 'no_room' });
+        return;
+      }
+      const others = ranges.filter((range) => range.id !== existing.id);
+      if (others.some((range) => start < range.end && range.start < end)) {
+        conflicts.push({ cellKey, reason: 'overlap' });
+        return;
+      }
+      occupied.set(cell.date, [...others, { id: existing.id, start, end }]);
+      operations.push({
+        type: 'update',
+        cellKey,
+        id: existing.id,
+        data: {
+          date: cell.date,
+          start_time: toTime(start),
+          end_time: toTime(end),
+          hours_worked: minutes / 60,
+          status: 'submitted',
+        },
+      });
+    });
+  });
+
+  return { operations, conflicts };
+};
@@ -45,7 +45,7 @@ interface Project {
 interface Technician {
   id: number;
   name: string;
-  worker_contract_country?: string;
+  worker_contract_country?: string | null;
 }
 
 interface Location {
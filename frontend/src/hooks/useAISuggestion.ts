@@ -109,8 +109,8 @@ export const useAISuggestion = (
           accepted,
           feedback_notes: notes,
           // Include original suggestion data for learning
-          modified_hours: suggestion.suggested_hours,
-          modified_description: suggestion.suggested_description
+          actual_hours: suggestion.suggested_hours,
+          actual_description: suggestion.suggested_description
         };
 
         await aiService.provideFeedback(feedback);
@@ -6,19 +6,28 @@ interface ApprovalCounts {
   timesheets: number;
   expenses: number;
   total: number;
+  /** Pending items waiting past the tenant's approval SLA. */
+  overdue: {
+    timesheets: number;
+    expenses: number;
+    total: number;
+  };
 }
 
+const EMPTY_COUNTS: ApprovalCounts = {
+  timesheets: 0,
+  expenses: 0,
+  total: 0,
+  overdue: { timesheets: 0, expenses: 0, total: 0 }
+};
+
 /**
  * Hook to fetch pending approval counts without impacting performance
  * Uses lightweight count-only endpoint and caches results for 30 seconds
  */
 export const useApprovalCounts = (refreshInterval: number = 30000) => {
   const { hasPermission, user } = useAuth();
-  const [counts, setCounts] = useState<ApprovalCounts>({
-    timesheets: 0,
-    expenses: 0,
-    total: 0
-  });
+  const [counts, setCounts] = useState<ApprovalCounts>(EMPTY_COUNTS);
   const [loading, setLoading] = useState(false);
 
   const canApprove = hasPermission('approve-timesheets') || hasPermission('approve-expenses');
@@ -26,7 +35,7 @@ export const useApprovalCounts = (refreshInterval: number = 30000) => {
   const fetchCounts = useCallback(async () => {
     // Don't fetch if user is not authenticated or doesn't have permission
     if (!user || !canApprove) {
-      setCounts({ timesheets: 0, expenses: 0, total: 0 });
+      setCounts(EMPTY_COUNTS);
       return;
     }
 
@@ -39,7 +48,12 @@ export const useApprovalCounts = (refreshInterval: number = 30000) => {
       setCounts({
         timesheets: response.timesheets || 0,
         expenses: response.expenses || 0,
-        total: response.total || 0
+        total: response.total || 0,
+        overdue: {
+          timesheets: response.overdue?.timesheets || 0,
+          expenses: response.overdue?.expenses || 0,
+          total: response.overdue?.total || 0
+        }
       });
     } catch (error) {
       console.error('Failed to fetch approval counts:', error);
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  OFFLINE_QUEUE_CHANGED_EVENT,
+  offlineTimesheetQueue,
+} from '../services/offlineTimesheetQueue';
+import type {
+  OfflineMutationKind,
+  OfflineReplayResult,
+  OfflineTimesheetMutation,
+} from '../services/offlineTimesheetQueue';
+import type { TimesheetFormData } from '../types';
+
+export interface UseOfflineTimesheetQueueOptions {
+  /** Called after a replay that synced or flagged at least one entry (e.g. to reload timesheets). */
+  onReplayed?: (result: OfflineReplayResult) => void;
+}
+
+const readOnlineState = (): boolean =>
+  typeof navigator === 'undefined' || typeof navigator.onLine !== 'boolean' ? true : navigator.onLine;
+
+/**
+ * Exposes the offline timesheet queue to React and replays it whenever the browser
+ * reports connectivity again.
+ */
+export const useOfflineTimesheetQueue = (options: UseOfflineTimesheetQueueOptions = {}) => {
+  const [isOnline, setIsOnline] = useState<boolean>(readOnlineState);
+  const [mutations, setMutations] = useState<OfflineTimesheetMutation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const onReplayedRef = useRef(options.onReplayed);
+
+  useEffect(() => {
+    onReplayedRef.current = options.onReplayed;
+  }, [options.onReplayed]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setMutations(await offlineTimesheetQueue.list());
+    } catch (error) {
+      console.warn('[OfflineQueue] Failed to read queue:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async (): Promise<OfflineReplayResult | null> => {
+    if (!readOnlineState()) return null;
+
+    setIsSyncing(true);
+    try {
+      const result = await offlineTimesheetQueue.replay();
+      if (result.synced > 0 || result.conflicts > 0) {
+        onReplayedRef.current?.(result);
+      }
+      return result;
+    } catch (error) {
+      console.warn('[OfflineQueue] Replay failed:', error);
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh().then(() => syncNow());
+
+    const handleChanged = () => {
+      void refresh();
+    };
+    const handleOnline = () => {
+      setIsOnline(true);
+      void syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, handleChanged);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, handleChanged);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refresh, syncNow]);
+
+  const enqueue = useCallback(
+    (kind: OfflineMutationKind, payload: Partial<TimesheetFormData>, timesheetId?: number) =>
+      offlineTimesheetQueue.enqueue(kind, payload, timesheetId),
+    []
+  );
+
+  const pending = useMemo(() => mutations.filter((item) => item.status === 'pending'), [mutations]);
+  const conflicts = useMemo(() => mutations.filter((item) => item.status !== 'pending'), [mutations]);
+
+  return {
+    isOnline,
+    isSyncing,
+    mutations,
+    pending,
+    conflicts,
+    enqueue,
+    syncNow,
+    discard: offlineTimesheetQueue.discard,
+    retry: offlineTimesheetQueue.retry,
+  };
+};
@@ -1,76 +1,197 @@
-// Simplified hook for AI suggestions in timesheet calendar
-import { useState } from 'react';
+// AI suggestions for the timesheet calendar entry dialog
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { aiService } from '../services/aiService';
 import type { AISuggestion } from '../services/aiService';
+import { useBilling } from '../contexts/BillingContext';
+import { getTenantAiState } from '../components/Common/aiState';
+import { buildLocalTimesheetSuggestion } from '../utils/localTimesheetSuggestion';
+import type { Timesheet } from '../types';
+
+export interface TimesheetSuggestionContext {
+  project_id: number;
+  task_id?: number;
+  date: string;
+  project_name: string;
+  task_name: string;
+  location_name?: string;
+  technician_name?: string;
+}
+
+export interface UseTimesheetAISuggestionOptions {
+  /** The user's own loaded entries, used for the local fallback when AI is off or has nothing. */
+  recentEntries?: Timesheet[];
+}
 
 export interface UseAISuggestionReturn {
   suggestion: AISuggestion | null;
   isLoading: boolean;
   isAIAvailable: boolean;
   error: string | null;
-  getSuggestion: (context: any) => Promise<void>;
-  applySuggestion: () => void;
+  getSuggestion: (context: TimesheetSuggestionContext) => Promise<void>;
+  applySuggestion: (appliedHours: number | null, appliedDescription: string) => void;
   dismissSuggestion: () => void;
-  provideFeedback: (accepted: boolean) => void;
+  provideFeedback: (accepted: boolean, actual?: { hours: number; description: string }) => void;
 }
 
-export const useTimesheetAISuggestion = (): UseAISuggestionReturn => {
+type ActiveSuggestion = {
+  suggestion: AISuggestion;
+  applied: { hours: number; description: string } | null;
+  feedbackSent: boolean;
+};
+
+// The API suggests per project and date; the task only refines the local fallback.
+const cacheKey = (context: TimesheetSuggestionContext): string => `${context.project_id}:${context.date}`;
+
+export const useTimesheetAISuggestion = (
+  options: UseTimesheetAISuggestionOptions = {}
+): UseAISuggestionReturn => {
+  const { t } = useTranslation();
+  const { billingSummary, tenantAiEnabled } = useBilling();
+  const isAIAvailable = getTenantAiState(billingSummary, tenantAiEnabled) === 'enabled';
+
   const [suggestion, setSuggestion] = useState<AISuggestion | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isAIAvailable] = useState(true); // Assume available for now
   const [error, setError] = useState<string | null>(null);
 
-  const getSuggestion = async (context: any) => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      console.log('Getting AI suggestion with context:', context);
-      
-      // For now, use a simple fallback suggestion
-      const mockSuggestion: AISuggestion = {
-        suggested_hours: 8,
-        suggested_description: `Working on ${context.task_name} for ${context.project_name}`,
-        confidence: 0.85,
-        reasoning: 'Based on similar tasks and project patterns',
-        alternative_descriptions: [
-          `${context.task_name} development work`,
-          `Implementation of ${context.task_name} features`,
-          `${context.project_name} project tasks`
-        ]
+  // AI answers per (project, date); null means "asked, nothing useful".
+  const cacheRef = useRef(new Map<string, AISuggestion | null>());
+  const abortRef = useRef<AbortController | null>(null);
+  // Kept after dismiss so the card's follow-up feedback call still knows what was shown.
+  const activeRef = useRef<ActiveSuggestion | null>(null);
+
+  const recentEntriesRef = useRef<Timesheet[]>(options.recentEntries ?? []);
+  useEffect(() => {
+    recentEntriesRef.current = options.recentEntries ?? [];
+  }, [options.recentEntries]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const buildLocalSuggestion = useCallback(
+    (context: TimesheetSuggestionContext): AISuggestion | null => {
+      const local = buildLocalTimesheetSuggestion(recentEntriesRef.current, {
+        projectId: context.project_id,
+        taskId: context.task_id,
+        date: context.date,
+      });
+      if (!local) return null;
+
+      return {
+        suggested_hours: local.suggestedHours,
+        suggested_description: local.description,
+        confidence: local.confidence,
+        reasoning:
+          local.matchedOn === 'task'
+            ? t('timesheets.ai.localReasoningTask', { count: local.sampleSize })
+            : t('timesheets.ai.localReasoningProject', { count: local.sampleSize }),
+        alternative_descriptions: local.alternatives,
+        source: 'local',
       };
-      
-      setSuggestion(mockSuggestion);
-      
-    } catch (err) {
-      console.error('Error getting AI suggestion:', err);
-      setError('Failed to get AI suggestion');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const applySuggestion = () => {
-    if (suggestion) {
-      console.log('Applied AI suggestion');
-    }
-  };
-
-  const dismissSuggestion = () => {
+    },
+    [t]
+  );
+
+  const show = useCallback((next: AISuggestion | null) => {
+    activeRef.current = next ? { suggestion: next, applied: null, feedbackSent: false } : null;
+    setSuggestion(next);
+  }, []);
+
+  const getSuggestion = useCallback(
+    async (context: TimesheetSuggestionContext) => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setError(null);
+
+      if (!isAIAvailable) {
+        show(buildLocalSuggestion(context));
+        setIsLoading(false);
+        return;
+      }
+
+      const key = cacheKey(context);
+      if (cacheRef.current.has(key)) {
+        show(cacheRef.current.get(key) ?? buildLocalSuggestion(context));
+        setIsLoading(false);
+        return;
+      }
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsLoading(true);
+
+      try {
+        const result = await aiService.getSuggestion(
+          { project_id: context.project_id, target_date: context.date },
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        cacheRef.current.set(key, result);
+        show(result ?? buildLocalSuggestion(context));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error getting AI suggestion:', err);
+        setError(t('timesheets.ai.suggestionFailed'));
+        show(buildLocalSuggestion(context));
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [isAIAvailable, buildLocalSuggestion, show, t]
+  );
+
+  const applySuggestion = useCallback((appliedHours: number | null, appliedDescription: string) => {
+    const active = activeRef.current;
+    if (!active) return;
+    active.applied = {
+      hours: appliedHours ?? active.suggestion.suggested_hours,
+      description: appliedDescription || active.suggestion.suggested_description,
+    };
+  }, []);
+
+  const dismissSuggestion = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
     setSuggestion(null);
-  };
-
-  const provideFeedback = (accepted: boolean) => {
-    console.log('AI feedback provided:', accepted);
-  };
-
-  return {
-    suggestion,
-    isLoading,
-    isAIAvailable,
-    error,
-    getSuggestion,
-    applySuggestion,
-    dismissSuggestion,
-    provideFeedback
-  };
-};
\ No newline at end of file
+  }, []);
+
+  const provideFeedback = useCallback(
+    (accepted: boolean, actual?: { hours: number; description: string }) => {
+      const active = activeRef.current;
+      // One report per suggestion; local suggestions never came from the AI service.
+      if (!active || active.feedbackSent || active.suggestion.source === 'local' || !isAIAvailable) return;
+      active.feedbackSent = true;
+
+      const values = actual ?? active.applied ?? {
+        hours: active.suggestion.suggested_hours,
+        description: active.suggestion.suggested_description,
+      };
+
+      void aiService.provideFeedback({
+        accepted,
+        actual_hours: values.hours,
+        // The API requires a description; an untouched field means the suggested one was kept.
+        actual_description: values.description.trim() || active.suggestion.suggested_description,
+      });
+    },
+    [isAIAvailable]
+  );
+
+  return useMemo(
+    () => ({
+      suggestion,
+      isLoading,
+      isAIAvailable,
+      error,
+      getSuggestion,
+      applySuggestion,
+      dismissSuggestion,
+      provideFeedback,
+    }),
+    [suggestion, isLoading, isAIAvailable, error, getSuggestion, applySuggestion, dismissSuggestion, provideFeedback]
+  );
+};
@@ -7,6 +7,8 @@ export interface AISuggestion {
   confidence: number;
   reasoning: string;
   alternative_descriptions: string[];
+  /** Where the suggestion came from: the AI model, backend statistics, or the user's local history. */
+  source?: 'ai' | 'statistical' | 'default' | 'local';
 }
 
 export interface SuggestionRequest {
@@ -22,11 +24,51 @@ export interface SuggestionRequest {
 export interface SuggestionFeedback {
   suggestion_id?: string;
   accepted: boolean;
-  modified_hours?: number;
-  modified_description?: string;
+  actual_hours: number;
+  actual_description: string;
   feedback_notes?: string;
 }
 
+type RawSuggestion = {
+  suggested_hours?: unknown;
+  suggested_description?: unknown;
+  description?: unknown;
+  confidence?: unknown;
+  reasoning?: unknown;
+  alternative_descriptions?: unknown;
+  alternatives?: unknown;
+  source?: unknown;
+};
+
+/**
+ * The backend wraps the suggestion in { success, data } and uses description/alternatives;
+ * normalise it to the AISuggestion shape the UI expects.
+ */
+const normalizeSuggestion = (payload: unknown): AISuggestion | null => {
+  const raw = ((payload as { data?: unknown } | null)?.data ?? payload) as RawSuggestion | null;
+  if (!raw || typeof raw !== 'object') return null;
+
+  const hours = Number(raw.suggested_hours);
+  const description = [raw.suggested_description, raw.description].find(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  );
+  if (!Number.isFinite(hours) || !description) return null;
+
+  const alternatives = [raw.alternative_descriptions, raw.alternatives].find(Array.isArray) ?? [];
+  const source = ['ai', 'statistical', 'default'].includes(String(raw.source))
+    ? (raw.source as AISuggestion['source'])
+    : undefined;
+
+  return {
+    suggested_hours: hours,
+    suggested_description: description,
+    confidence: Number(raw.confidence) || 0,
+    reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : '',
+    alternative_descriptions: (alternatives as unknown[]).filter((item): item is string => typeof item === 'string'),
+    source,
+  };
+};
+
 class AIService {
   /**
    * Check if AI service is available and healthy
@@ -54,21 +96,31 @@ class AIService {
   /**
    * Get AI suggestions for timesheet entry
    */
-  async getSuggestion(request: SuggestionRequest): Promise<AISuggestion | null> {
+  async getSuggestion(request: SuggestionRequest, signal?: AbortSignal): Promise<AISuggestion | null> {
     try {
       console.log('Requesting AI suggestion:', request);
       
-      const response = await api.post('/api/ai/suggestions/timesheet', request);
+      const response = await api.get('/api/ai/suggestions/timesheet', {
+        params: {
+          project_id: request.project_id,
+          date: request.target_date,
+        },
+        signal,
+      });
+      const suggestion = normalizeSuggestion(response.data);
       
-      if (response.data && response.data.confidence > 0.3) {
-        console.log('AI suggestion received:', response.data);
-        return response.data;
+      if (suggestion && suggestion.confidence > 0.3) {
+        console.log('AI suggestion received:', suggestion);
+        return suggestion;
       }
       
       console.log('AI suggestion confidence too low or no data');
       return null;
     } catch (error) {
-      console.error('Failed to get AI suggestion:', error);
+      // A superseded request (user changed project/task/date) is not an error.
+      if (!signal?.aborted) {
+        console.error('Failed to get AI suggestion:', error);
+      }
       return null;
     }
   }
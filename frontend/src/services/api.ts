@@ -10,6 +10,29 @@ import type {
   TimesheetValidationResult,
   TimesheetPermissions,
   TimesheetManagerResponse,
+  TimesheetWeekStatus,
+  TimesheetApprovalProgress,
+  TimesheetActivity,
+  TimesheetComment,
+  PendingTimesheetWeek,
+  Absence,
+  AbsenceFormData,
+  AbsenceStatus,
+  PublicHoliday,
+  PublicHolidayFormData,
+  TimesheetSignoff,
+  TimesheetSignoffFormData,
+  TimesheetTemplate,
+  TimesheetTemplateFormData,
+  RecentTimesheetCombo,
+  TimesheetImportRow,
+  TimesheetImportResponse,
+  CalendarFeed,
+  CalendarFeedCalendar,
+  CalendarFeedFormData,
+  ApprovalDelegation,
+  ApprovalDelegationFormData,
+  ApprovalDelegationOverview,
   DashboardStatistics,
   TopProject
 } from '../types';
@@ -37,7 +60,7 @@ const api = axios.create({
  * Extract tenant slug from subdomain or localStorage
  * Order: subdomain > localStorage
  */
-const getTenantSlug = (): string | null => {
+export const getTenantSlug = (): string | null => {
   // Try subdomain first (e.g., "acme" from "acme.app.timeperk.com")
   const host = window.location.hostname;
   const parts = host.split('.');
@@ -236,6 +259,11 @@ export interface TimesheetWeekSummary {
   overtime_hours: number;
   overtime_rate: number;
   overtime_hours_2_0: number;
+  /** Hours worked on public holidays of the technicians; already included in overtime_hours. */
+  holiday_hours?: number;
+  /** Contracted hours of the week (weekdays that are not holidays); null without a single worker. */
+  expected_hours?: number | null;
+  holidays?: Array<{ date: string; name: string }>;
   workweek_start: string | null;
   policy_key?: 'US-CA' | 'US-NY' | 'US-FLSA' | 'NON-US' | string;
 }
@@ -331,18 +359,169 @@ export const timesheetsApi = {
   getManagerView: (params?: TimesheetManagerViewParams): Promise<TimesheetManagerResponse> =>
     api.get('/api/timesheets/manager-view', { params }).then(res => res.data),
   
-  getPendingCounts: (): Promise<{ timesheets: number; expenses: number; total: number }> =>
+  getPendingCounts: (): Promise<{
+    timesheets: number;
+    expenses: number;
+    total: number;
+    /** Of those, the ones waiting past the tenant's approval SLA. */
+    overdue?: { timesheets: number; expenses: number; total: number };
+  }> =>
     api.get('/api/timesheets/pending-counts').then(res => res.data),
   
   submit: (id: number): Promise<Timesheet> =>
     api.patch(`/api/timesheets/${id}/submit`).then(res => res.data),
   
-  approve: (id: number): Promise<Timesheet> =>
+  /** Signs off the entry's current approval step; it stays submitted until the last step. */
+  approve: (id: number): Promise<Timesheet & { approval?: TimesheetApprovalProgress }> =>
     api.put(`/api/timesheets/${id}/approve`).then(res => res.data),
   
   reject: (id: number, reason: string): Promise<Timesheet> =>
     api.put(`/api/timesheets/${id}/reject`, { reason }).then(res => res.data),
 
+  getActivity: (id: number): Promise<TimesheetActivity> =>
+    api.get(`/api/timesheets/${id}/activity`).then(res => res.data),
+
+  addComment: (id: number, body: string): Promise<TimesheetComment> =>
+    api.post(`/api/timesheets/${id}/comments`, { body }).then(res => res.data),
+
+};
+
+// Week-based submission (the technician submits a whole workweek; managers review it as one unit)
+export const timesheetWeeksApi = {
+  getStatus: (params: { date: string; technician_id?: number }): Promise<TimesheetWeekStatus> =>
+    api.get('/api/timesheets/weeks/status', { params }).then(res => res.data),
+
+  submit: (data: { date: string; technician_id?: number }): Promise<TimesheetWeekStatus & { submitted_count: number; auto_approved_count?: number }> =>
+    api.post('/api/timesheets/weeks/submit', data).then(res => res.data),
+
+  getPending: (): Promise<{ data: PendingTimesheetWeek[] }> =>
+    api.get('/api/timesheets/weeks/pending').then(res => res.data),
+
+  approve: (weekId: number): Promise<TimesheetWeekStatus & { approved_count: number; advanced_count?: number }> =>
+    api.put(`/api/timesheets/weeks/${weekId}/approve`).then(res => res.data),
+
+  reject: (weekId: number, reason: string): Promise<TimesheetWeekStatus & { rejected_count: number }> =>
+    api.put(`/api/timesheets/weeks/${weekId}/reject`, { reason }).then(res => res.data),
+};
+
+// Absences API (vacation, sick leave, training... with manager approval)
+export const absencesApi = {
+  getAll: (params?: { from?: string; to?: string; technician_id?: number; status?: AbsenceStatus }): Promise<{ data: Absence[] }> =>
+    api.get('/api/absences', { params }).then(res => res.data),
+
+  create: (data: AbsenceFormData): Promise<{ data: Absence }> =>
+    api.post('/api/absences', data).then(res => res.data),
+
+  cancel: (absenceId: number): Promise<{ data: Absence }> =>
+    api.put(`/api/absences/${absenceId}/cancel`).then(res => res.data),
+
+  getPending: (): Promise<{ data: Absence[] }> =>
+    api.get('/api/absences/pending').then(res => res.data),
+
+  approve: (absenceId: number): Promise<{ data: Absence }> =>
+    api.put(`/api/absences/${absenceId}/approve`).then(res => res.data),
+
+  reject: (absenceId: number, reason: string): Promise<{ data: Absence }> =>
+    api.put(`/api/absences/${absenceId}/reject`, { reason }).then(res => res.data),
+};
+
+// Public holidays API (holiday calendars per country)
+export const publicHolidaysApi = {
+  getRange: (params: { from: string; to: string }): Promise<{ data: PublicHoliday[] }> =>
+    api.get('/api/public-holidays', { params }).then(res => res.data),
+
+  getForCountry: (countryId: number, year?: number): Promise<{ data: PublicHoliday[] }> =>
+    api.get(`/api/countries/${countryId}/holidays`, { params: year ? { year } : undefined }).then(res => res.data),
+
+  create: (countryId: number, data: PublicHolidayFormData): Promise<{ data: PublicHoliday }> =>
+    api.post(`/api/countries/${countryId}/holidays`, data).then(res => res.data),
+
+  update: (countryId: number, holidayId: number, data: PublicHolidayFormData): Promise<{ data: PublicHoliday }> =>
+    api.put(`/api/countries/${countryId}/holidays/${holidayId}`, data).then(res => res.data),
+
+  delete: (countryId: number, holidayId: number): Promise<{ success: boolean }> =>
+    api.delete(`/api/countries/${countryId}/holidays/${holidayId}`).then(res => res.data),
+
+  import: (countryId: number, file: File): Promise<{ created: number; updated: number }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post(`/api/countries/${countryId}/holidays/import`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }).then(res => res.data);
+  },
+};
+
+// Customer sign-off API (signature captured on site, PDF service report)
+export const timesheetSignoffsApi = {
+  getAll: (params?: { from?: string; to?: string; technician_id?: number }): Promise<{ data: TimesheetSignoff[] }> =>
+    api.get('/api/timesheet-signoffs', { params }).then(res => res.data),
+
+  getById: (signoffId: number): Promise<{ data: TimesheetSignoff }> =>
+    api.get(`/api/timesheet-signoffs/${signoffId}`).then(res => res.data),
+
+  create: (data: TimesheetSignoffFormData): Promise<{ data: TimesheetSignoff }> =>
+    api.post('/api/timesheet-signoffs', data).then(res => res.data),
+
+  downloadPdf: (signoffId: number): Promise<Blob> =>
+    api.get(`/api/timesheet-signoffs/${signoffId}/pdf`, { responseType: 'blob' }).then(res => res.data),
+
+  void: (signoffId: number): Promise<{ message: string }> =>
+    api.delete(`/api/timesheet-signoffs/${signoffId}`).then(res => res.data),
+};
+
+export const timesheetImportApi = {
+  preview: (rows: TimesheetImportRow[], source: 'csv' | 'ics'): Promise<TimesheetImportResponse> =>
+    api.post('/api/timesheets/import/preview', { rows, source }).then(res => res.data),
+
+  import: (rows: TimesheetImportRow[], source: 'csv' | 'ics'): Promise<TimesheetImportResponse> =>
+    api.post('/api/timesheets/import', { rows, source }).then(res => res.data),
+};
+
+export const timesheetTemplatesApi = {
+  getAll: (): Promise<{ data: TimesheetTemplate[] }> =>
+    api.get('/api/timesheet-templates').then(res => res.data),
+
+  getRecent: (): Promise<{ data: RecentTimesheetCombo[] }> =>
+    api.get('/api/timesheet-templates/recent').then(res => res.data),
+
+  create: (data: TimesheetTemplateFormData): Promise<{ data: TimesheetTemplate }> =>
+    api.post('/api/timesheet-templates', data).then(res => res.data),
+
+  update: (templateId: number, data: Partial<TimesheetTemplateFormData>): Promise<{ data: TimesheetTemplate }> =>
+    api.put(`/api/timesheet-templates/${templateId}`, data).then(res => res.data),
+
+  markUsed: (templateId: number): Promise<{ data: TimesheetTemplate }> =>
+    api.post(`/api/timesheet-templates/${templateId}/use`).then(res => res.data),
+
+  delete: (templateId: number): Promise<{ message: string }> =>
+    api.delete(`/api/timesheet-templates/${templateId}`).then(res => res.data),
+};
+
+// Personal iCalendar feeds (timesheets, travels, planned tasks)
+export const calendarFeedsApi = {
+  getAll: (): Promise<{ data: CalendarFeed[]; available_calendars: CalendarFeedCalendar[] }> =>
+    api.get('/api/calendar-feeds').then(res => res.data),
+
+  create: (data: CalendarFeedFormData): Promise<{ data: CalendarFeed }> =>
+    api.post('/api/calendar-feeds', data).then(res => res.data),
+
+  update: (feedId: number, data: Partial<CalendarFeedFormData>): Promise<{ data: CalendarFeed }> =>
+    api.put(`/api/calendar-feeds/${feedId}`, data).then(res => res.data),
+
+  delete: (feedId: number): Promise<{ message: string }> =>
+    api.delete(`/api/calendar-feeds/${feedId}`).then(res => res.data),
+};
+
+// Out-of-office delegation of approvals to a substitute approver
+export const approvalDelegationsApi = {
+  getOverview: (): Promise<ApprovalDelegationOverview> =>
+    api.get('/api/approval-delegations').then(res => res.data),
+
+  create: (data: ApprovalDelegationFormData): Promise<{ data: ApprovalDelegation }> =>
+    api.post('/api/approval-delegations', data).then(res => res.data),
+
+  revoke: (delegationId: number): Promise<{ message: string }> =>
+    api.delete(`/api/approval-delegations/${delegationId}`).then(res => res.data),
 };
 
 // Expenses API
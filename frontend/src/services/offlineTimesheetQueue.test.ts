@@ -0,0 +1,217 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  coalesceMutation,
+  createMemoryStorage,
+  createOfflineTimesheetQueue,
+  describeValidationConflicts,
+  isNetworkError,
+} from './offlineTimesheetQueue';
+import type { OfflineTimesheetMutation } from './offlineTimesheetQueue';
+import type { TimesheetValidationResult } from '../types';
+
+type Executor = NonNullable<Parameters<typeof createOfflineTimesheetQueue>[1]>;
+
+const mutation = (overrides: Partial<OfflineTimesheetMutation>): OfflineTimesheetMutation => ({
+  id: 'm-1',
+  seq: 1,
+  tenantSlug: 'acme',
+  kind: 'create',
+  timesheetId: -1,
+  payload: { project_id: 1, date: '2026-03-02', hours_worked: 2 },
+  enqueuedAt: '2026-03-02T08:00:00.000Z',
+  status: 'pending',
+  ...overrides,
+});
+
+const networkError = () => Object.assign(new Error('Network Error'), { isAxiosError: true, code: 'ERR_NETWORK' });
+
+describe('coalesceMutation', () => {
+  it('folds an update of an offline-created entry into the queued create', () => {
+    const queue = [mutation({})];
+    const result = coalesceMutation(queue, mutation({ id: 'm-2', seq: 2, kind: 'update', payload: { hours_worked: 3 } }));
+
+    expect(result.removals).toEqual([]);
+    expect(result.upserts).toHaveLength(1);
+    expect(result.upserts[0].id).toBe('m-1');
+    expect(result.upserts[0].kind).toBe('create');
+    expect(result.upserts[0].payload).toEqual({ project_id: 1, date: '2026-03-02', hours_worked: 3 });
+  });
+
+  it('drops both records when an offline-created entry is deleted before syncing', () => {
+    const queue = [mutation({})];
+    const result = coalesceMutation(queue, mutation({ id: 'm-2', seq: 2, kind: 'delete', payload: {} }));
+
+    expect(result).toEqual({ upserts: [], removals: ['m-1'] });
+  });
+
+  it('resets a conflicting offline create to pending when it is edited', () => {
+    const queue = [mutation({ status: 'conflict', conflicts: ['overlap'], error: 'Overlap' })];
+    const result = coalesceMutation(queue, mutation({ id: 'm-2', seq: 2, kind: 'update', payload: { start_time: '10:00' } }));
+
+    expect(result.upserts[0].status).toBe('pending');
+    expect(result.upserts[0].conflicts).toEqual([]);
+    expect(result.upserts[0].error).toBeNull();
+  });
+
+  it('replaces a pending update with a delete of the same entry', () => {
+    const queue = [mutation({ kind: 'update', timesheetId: 42, seq: 5 })];
+    const result = coalesceMutation(queue, mutation({ id: 'm-2', seq: 9, kind: 'delete', timesheetId: 42, payload: {} }));
+
+    expect(result.removals).toEqual(['m-1']);
+    expect(result.upserts).toEqual([expect.objectContaining({ id: 'm-2', kind: 'delete', seq: 5 })]);
+  });
+
+  it('does not fold into a server-side conflict of an already synced entry', () => {
+    const queue = [mutation({ kind: 'update', timesheetId: 42, status: 'conflict' })];
+    const incoming = mutation({ id: 'm-2', kind: 'update', timesheetId: 42 });
+
+    expect(coalesceMutation(queue, incoming)).toEqual({ upserts: [incoming], removals: [] });
+  });
+});
+
+describe('describeValidationConflicts', () => {
+  it('maps the validation snapshot to conflict kinds', () => {
+    const conflicts = describeValidationConflicts({
+      status: 'warning',
+      warnings: [],
+      snapshot: {
+        overlap_risk: 'block',
+        daily_total_hours: 13,
+        membership_ok: false,
+        project_active: false,
+      },
+    } as unknown as TimesheetValidationResult);
+
+    expect(conflicts).toEqual(['overlap', 'over_cap', 'membership', 'project_inactive']);
+  });
+
+  it('returns no conflicts without a snapshot', () => {
+    expect(describeValidationConflicts(null)).toEqual([]);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('treats axios errors without a response as network errors', () => {
+    expect(isNetworkError(networkError())).toBe(true);
+    expect(isNetworkError({ isAxiosError: true, response: { status: 422 } })).toBe(false);
+    expect(isNetworkError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('createOfflineTimesheetQueue', () => {
+  beforeEach(() => {
+    localStorage.setItem('tenant_slug', 'acme');
+  });
+
+  const createExecutor = () => ({
+    create: vi.fn().mockResolvedValue({ data: { id: 100 } }),
+    update: vi.fn().mockResolvedValue({ data: { id: 42 } }),
+    delete: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('replays queued writes in order and empties the queue', async () => {
+    const executor = createExecutor();
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), executor as unknown as Executor);
+
+    await queue.enqueue('update', { hours_worked: 4 }, 42);
+    await queue.enqueue('create', { project_id: 1, date: '2026-03-02', hours_worked: 2 });
+    await queue.enqueue('delete', {}, 7);
+
+    const result = await queue.replay();
+
+    expect(result).toEqual({ synced: 3, conflicts: 0, interrupted: false });
+    expect(executor.update).toHaveBeenCalledWith(42, { hours_worked: 4 });
+    expect(executor.create.mock.invocationCallOrder[0]).toBeGreaterThan(executor.update.mock.invocationCallOrder[0]);
+    expect(executor.delete).toHaveBeenCalledWith(7);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('stops on a network error and keeps the remaining writes pending', async () => {
+    const executor = createExecutor();
+    executor.create.mockRejectedValueOnce(networkError());
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), executor as unknown as Executor);
+
+    await queue.enqueue('create', { project_id: 1, date: '2026-03-02', hours_worked: 2 });
+    await queue.enqueue('delete', {}, 7);
+
+    const result = await queue.replay();
+
+    expect(result.interrupted).toBe(true);
+    expect(executor.delete).not.toHaveBeenCalled();
+    expect((await queue.list()).map((item) => item.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('flags overlap rejections as conflicts the user must resolve', async () => {
+    const executor = createExecutor();
+    executor.create.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 409, data: { message: 'Time overlap detected' } },
+    });
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), executor as unknown as Executor);
+
+    await queue.enqueue('create', { project_id: 1, date: '2026-03-02', hours_worked: 2 });
+    const result = await queue.replay();
+    const [item] = await queue.list();
+
+    expect(result).toEqual({ synced: 0, conflicts: 1, interrupted: false });
+    expect(item.status).toBe('conflict');
+    expect(item.conflicts).toEqual(['overlap']);
+    expect(item.error).toBe('Time overlap detected');
+  });
+
+  it('keeps saved-but-flagged creates for review with the server id', async () => {
+    const executor = createExecutor();
+    executor.create.mockResolvedValueOnce({
+      data: { id: 100 },
+      validation: { status: 'warning', warnings: ['Daily total above cap'], snapshot: { daily_total_hours: 14 } },
+    });
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), executor as unknown as Executor);
+
+    await queue.enqueue('create', { project_id: 1, date: '2026-03-02', hours_worked: 2 });
+    await queue.replay();
+    const [item] = await queue.list();
+
+    expect(item.syncedTimesheetId).toBe(100);
+    expect(item.conflicts).toEqual(['over_cap']);
+  });
+
+  it('only lists writes queued for the current tenant', async () => {
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), createExecutor() as unknown as Executor);
+
+    await queue.enqueue('delete', {}, 7);
+    localStorage.setItem('tenant_slug', 'other');
+
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('sends an edit made while its create was in flight as an update of the saved entry', async () => {
+    const executor = createExecutor();
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), executor as unknown as Executor);
+    const created = await queue.enqueue('create', { project_id: 1, date: '2026-03-02', hours_worked: 2 });
+    executor.create.mockImplementationOnce(async () => {
+      await queue.enqueue('update', { hours_worked: 3 }, created.timesheetId);
+      return { data: { id: 100 } };
+    });
+
+    const result = await queue.replay();
+
+    expect(result).toEqual({ synced: 2, conflicts: 0, interrupted: false });
+    expect(executor.update).toHaveBeenCalledWith(100, { project_id: 1, date: '2026-03-02', hours_worked: 3 });
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('deletes the saved entry when it was deleted while its create was in flight', async () => {
+    const executor = createExecutor();
+    const queue = createOfflineTimesheetQueue(createMemoryStorage(), executor as unknown as Executor);
+    const created = await queue.enqueue('create', { project_id: 1, date: '2026-03-02', hours_worked: 2 });
+    executor.create.mockImplementationOnce(async () => {
+      await queue.enqueue('delete', {}, created.timesheetId);
+      return { data: { id: 100 } };
+    });
+
+    await queue.replay();
+
+    expect(executor.delete).toHaveBeenCalledWith(100);
+    expect(await queue.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,453 @@
+import { getTenantSlug, timesheetsApi } from './api';
+import type { TimesheetMutationResponse } from './api';
+import type { TimesheetFormData, TimesheetValidationResult } from '../types';
+
+/**
+ * Offline mutation queue for timesheet writes.
+ *
+ * Field technicians often work on sites without signal. Instead of losing the entry,
+ * the calendar enqueues the write here (persisted in IndexedDB) and the queue replays
+ * it in order once connectivity returns.
+ *
+ * Entries created offline get a negative temporary id so the calendar can render them
+ * as "pending sync" events and let the user keep editing them before they reach the API.
+ */
+
+export const OFFLINE_QUEUE_CHANGED_EVENT = 'timesheets:offline-queue-changed';
+
+const DB_NAME = 'timeperk-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'timesheet_mutations';
+
+export type OfflineMutationKind = 'create' | 'update' | 'delete';
+
+export type OfflineMutationStatus = 'pending' | 'conflict' | 'failed';
+
+export type OfflineConflictKind = 'overlap' | 'over_cap' | 'membership' | 'project_inactive' | 'rejected';
+
+export interface OfflineTimesheetMutation {
+  id: string;
+  seq: number;
+  tenantSlug: string | null;
+  kind: OfflineMutationKind;
+  /** Server id for update/delete of synced entries; negative temp id for offline-created entries. */
+  timesheetId: number;
+  payload: Partial<TimesheetFormData>;
+  enqueuedAt: string;
+  status: OfflineMutationStatus;
+  /** Server id assigned once a queued create reached the API (set when the result still needs review). */
+  syncedTimesheetId?: number | null;
+  validation?: TimesheetValidationResult | null;
+  conflicts?: OfflineConflictKind[];
+  error?: string | null;
+}
+
+export interface OfflineQueueStorage {
+  getAll: () => Promise<OfflineTimesheetMutation[]>;
+  put: (mutation: OfflineTimesheetMutation) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface OfflineReplayResult {
+  synced: number;
+  conflicts: number;
+  /** True when replay stopped because the network dropped again. */
+  interrupted: boolean;
+}
+
+type MutationExecutor = {
+  create: (data: TimesheetFormData) => Promise<TimesheetMutationResponse>;
+  update: (id: number, data: Partial<TimesheetFormData>) => Promise<TimesheetMutationResponse>;
+  delete: (id: number) => Promise<void>;
+};
+
+const DEFAULT_DAILY_HOUR_CAP = 12;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStorage = (): OfflineQueueStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, mode);
+    return requestToPromise(fn(tx.objectStore(STORE_NAME)));
+  };
+
+  return {
+    getAll: () => withStore('readonly', (store) => store.getAll() as IDBRequest<OfflineTimesheetMutation[]>),
+    put: async (mutation) => {
+      await withStore('readwrite', (store) => store.put(mutation));
+    },
+    remove: async (id) => {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+};
+
+export const createMemoryStorage = (): OfflineQueueStorage => {
+  const items = new Map<string, OfflineTimesheetMutation>();
+  return {
+    getAll: async () => Array.from(items.values()).map((item) => ({ ...item })),
+    put: async (mutation) => {
+      items.set(mutation.id, { ...mutation });
+    },
+    remove: async (id) => {
+      items.delete(id);
+    },
+  };
+};
+
+const createDefaultStorage = (): OfflineQueueStorage => {
+  if (typeof indexedDB === 'undefined') {
+    // Private browsing / very old browsers: the queue still works for the session.
+    return createMemoryStorage();
+  }
+  return createIndexedDbStorage();
+};
+
+/**
+ * Axios errors without a response never reached the server (offline, DNS, timeout).
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  const axiosish = error as { response?: unknown; code?: unknown; message?: unknown; isAxiosError?: unknown };
+  if (axiosish.response) return false;
+  if (axiosish.code === 'ERR_NETWORK' || axiosish.code === 'ECONNABORTED') return true;
+  return axiosish.isAxiosError === true || axiosish.message === 'Network Error';
+};
+
+/**
+ * Maps a server-side validation result to the conflict kinds the user has to resolve.
+ */
+export const describeValidationConflicts = (
+  validation: TimesheetValidationResult | null | undefined,
+  dailyHourCap: number = DEFAULT_DAILY_HOUR_CAP
+): OfflineConflictKind[] => {
+  if (!validation || !validation.snapshot) return [];
+
+  const conflicts: OfflineConflictKind[] = [];
+  const snapshot = validation.snapshot;
+
+  if (snapshot.overlap_risk === 'block') conflicts.push('overlap');
+  if (Number(snapshot.daily_total_hours) > dailyHourCap) conflicts.push('over_cap');
+  if (snapshot.membership_ok === false) conflicts.push('membership');
+  if (snapshot.project_active === false) conflicts.push('project_inactive');
+
+  return conflicts;
+};
+
+const extractErrorMessage = (error: unknown): string | null => {
+  const data = (error as { response?: { data?: { error?: unknown; message?: unknown } } })?.response?.data;
+  if (typeof data?.error === 'string' && data.error.trim()) return data.error;
+  if (typeof data?.message === 'string' && data.message.trim()) return data.message;
+  return null;
+};
+
+const isOverlapResponse = (error: unknown): boolean => {
+  const status = (error as { response?: { status?: number } })?.response?.status;
+  if (status === 409) return true;
+  const message = (extractErrorMessage(error) ?? '').toLowerCase();
+  return message.includes('overlap') || message.includes('sobreposição');
+};
+
+/**
+ * Folds a new mutation into the queue so each entry has at most one pending write.
+ *
+ * - update after create (same temp id) => the create carries the merged payload
+ * - delete after create (same temp id) => both disappear, nothing ever hits the API
+ * - update after update => merged payload
+ * - delete after update => a single delete
+ */
+export const coalesceMutation = (
+  queue: OfflineTimesheetMutation[],
+  incoming: OfflineTimesheetMutation
+): { upserts: OfflineTimesheetMutation[]; removals: string[] } => {
+  // Offline-created entries only exist in the queue, so any of their records (even one
+  // awaiting conflict resolution) is the one to fold into.
+  const existing = queue.find(
+    (item) =>
+      item.timesheetId === incoming.timesheetId && (item.status === 'pending' || item.timesheetId < 0)
+  );
+
+  if (!existing || incoming.kind === 'create') {
+    return { upserts: [incoming], removals: [] };
+  }
+
+  if (existing.kind === 'create') {
+    if (incoming.kind === 'delete') {
+      return { upserts: [], removals: [existing.id] };
+    }
+    return {
+      upserts: [
+        {
+          ...existing,
+          payload: { ...existing.payload, ...incoming.payload },
+          status: 'pending',
+          validation: null,
+          conflicts: [],
+          error: null,
+        },
+      ],
+      removals: [],
+    };
+  }
+
+  if (existing.kind === 'update') {
+    if (incoming.kind === 'delete') {
+      return { upserts: [{ ...incoming, seq: existing.seq }], removals: [existing.id] };
+    }
+    return {
+      upserts: [{ ...existing, payload: { ...existing.payload, ...incoming.payload } }],
+      removals: [],
+    };
+  }
+
+  // A delete is already queued: nothing left to update.
+  return { upserts: [], removals: [] };
+};
+
+const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `offline-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const notifyChanged = (): void => {
+  try {
+    window.dispatchEvent(new Event(OFFLINE_QUEUE_CHANGED_EVENT));
+  } catch {
+    // ignore event errors (non-browser environments)
+  }
+};
+
+export const createOfflineTimesheetQueue = (
+  storage: OfflineQueueStorage = createDefaultStorage(),
+  executor: MutationExecutor = timesheetsApi
+) => {
+  let seqCounter = 0;
+  let replaying: Promise<OfflineReplayResult> | null = null;
+
+  const nextSeq = (): number => {
+    seqCounter += 1;
+    return Date.now() * 1000 + (seqCounter % 1000);
+  };
+
+  const list = async (): Promise<OfflineTimesheetMutation[]> => {
+    const tenantSlug = getTenantSlug();
+    const all = await storage.getAll();
+    return all
+      .filter((item) => item.tenantSlug === tenantSlug)
+      .sort((a, b) => a.seq - b.seq);
+  };
+
+  const nextTempId = async (): Promise<number> => {
+    const all = await storage.getAll();
+    const lowest = all.reduce((min, item) => Math.min(min, item.timesheetId), 0);
+    return lowest - 1;
+  };
+
+  const enqueue = async (
+    kind: OfflineMutationKind,
+    payload: Partial<TimesheetFormData>,
+    timesheetId?: number
+  ): Promise<OfflineTimesheetMutation> => {
+    const mutation: OfflineTimesheetMutation = {
+      id: generateId(),
+      seq: nextSeq(),
+      tenantSlug: getTenantSlug(),
+      kind,
+      timesheetId: kind === 'create' ? await nextTempId() : Number(timesheetId),
+      payload,
+      enqueuedAt: new Date().toISOString(),
+      status: 'pending',
+    };
+
+    const { upserts, removals } = coalesceMutation(await list(), mutation);
+    await Promise.all(removals.map((id) => storage.remove(id)));
+    await Promise.all(upserts.map((item) => storage.put(item)));
+    notifyChanged();
+
+    return upserts[0] ?? mutation;
+  };
+
+  const discard = async (id: string): Promise<void> => {
+    await storage.remove(id);
+    notifyChanged();
+  };
+
+  /** Puts a conflicting/failed mutation back in the queue, optionally with a corrected payload. */
+  const retry = async (id: string, payload?: Partial<TimesheetFormData>): Promise<void> => {
+    const item = (await list()).find((candidate) => candidate.id === id);
+    if (!item) return;
+
+    // A create that already reached the server is retried as an update of the saved entry.
+    const syncedId = item.syncedTimesheetId ?? null;
+    await storage.put({
+      ...item,
+      kind: item.kind === 'create' && syncedId ? 'update' : item.kind,
+      timesheetId: item.kind === 'create' && syncedId ? syncedId : item.timesheetId,
+      payload: { ...item.payload, ...(payload ?? {}) },
+      status: 'pending',
+      seq: nextSeq(),
+      validation: null,
+      conflicts: [],
+      error: null,
+    });
+    notifyChanged();
+  };
+
+  /** The stored record as it is now: edits made while its request was in flight fold into it. */
+  const reread = async (id: string): Promise<OfflineTimesheetMutation | null> =>
+    (await storage.getAll()).find((candidate) => candidate.id === id) ?? null;
+
+  const isEditedSince = (current: OfflineTimesheetMutation, sent: OfflineTimesheetMutation): boolean =>
+    JSON.stringify(current.payload) !== JSON.stringify(sent.payload);
+
+  const runReplay = async (): Promise<OfflineReplayResult> => {
+    const result: OfflineReplayResult = { synced: 0, conflicts: 0, interrupted: false };
+    const pending = (await list()).filter((item) => item.status === 'pending');
+
+    // Records edited mid-request are pushed back onto this list, so they replay in the same run.
+    for (const item of pending) {
+      try {
+        let response: TimesheetMutationResponse | null = null;
+
+        if (item.kind === 'create') {
+          response = await executor.create(item.payload as TimesheetFormData);
+        } else if (item.kind === 'update') {
+          response = await executor.update(item.timesheetId, item.payload);
+        } else {
+          await executor.delete(item.timesheetId);
+        }
+
+        const validation = response?.validation ?? null;
+        const conflicts = describeValidationConflicts(validation);
+        const serverId = response?.data?.id ?? (item.timesheetId > 0 ? item.timesheetId : null);
+        const current = await reread(item.id);
+
+        if (!current) {
+          // Deleted while its create was in flight: the entry now exists on the server only.
+          if (item.kind === 'create' && serverId) {
+            const deletion: OfflineTimesheetMutation = {
+              ...item,
+              id: generateId(),
+              seq: nextSeq(),
+              kind: 'delete',
+              timesheetId: serverId,
+              payload: {},
+            };
+            await storage.put(deletion);
+            pending.push(deletion);
+          }
+          result.synced += 1;
+        } else if (validation && validation.status !== 'ok' && conflicts.length > 0) {
+          // Saved on the server, but the user must review it (overlap / over-cap / membership).
+          await storage.put({
+            ...current,
+            status: 'conflict',
+            syncedTimesheetId: serverId,
+            validation,
+            conflicts,
+            error: validation.warnings?.[0] ?? null,
+          });
+          result.conflicts += 1;
+        } else if (isEditedSince(current, item) && serverId) {
+          // An edit was folded into this record mid-request: send it on as an update of the saved entry.
+          const followUp: OfflineTimesheetMutation = {
+            ...current,
+            kind: 'update',
+            timesheetId: serverId,
+            seq: nextSeq(),
+          };
+          await storage.put(followUp);
+          pending.push(followUp);
+          result.synced += 1;
+        } else {
+          await storage.remove(item.id);
+          result.synced += 1;
+        }
+      } catch (error: unknown) {
+        if (isNetworkError(error)) {
+          result.interrupted = true;
+          break;
+        }
+
+        const status = (error as { response?: { status?: number } })?.response?.status;
+        const validation =
+          (error as { response?: { data?: { validation?: TimesheetValidationResult } } })?.response?.data
+            ?.validation ?? null;
+        const conflicts = describeValidationConflicts(validation);
+
+        if (conflicts.length === 0) {
+          if (isOverlapResponse(error)) conflicts.push('overlap');
+          else if (status === 403) conflicts.push('membership');
+          else conflicts.push('rejected');
+        }
+
+        // Deleted meanwhile: nothing was saved, so nothing is left to resolve.
+        const current = await reread(item.id);
+        if (!current) continue;
+
+        await storage.put({
+          ...current,
+          status: status && status >= 500 ? 'failed' : 'conflict',
+          validation,
+          conflicts,
+          error: extractErrorMessage(error),
+        });
+        result.conflicts += 1;
+      }
+    }
+
+    notifyChanged();
+    return result;
+  };
+
+  /**
+   * Replays pending mutations in enqueue order. Concurrent calls share the same run,
+   * so the "online" event and a manual "Sync now" never double-submit an entry.
+   */
+  const replay = (): Promise<OfflineReplayResult> => {
+    if (!replaying) {
+      replaying = runReplay().finally(() => {
+        replaying = null;
+      });
+    }
+    return replaying;
+  };
+
+  return { list, enqueue, discard, retry, replay };
+};
+
+export type OfflineTimesheetQueue = ReturnType<typeof createOfflineTimesheetQueue>;
+
+export const offlineTimesheetQueue = createOfflineTimesheetQueue();
@@ -68,6 +68,8 @@ export interface Technician {
   is_active?: boolean;
   worker_id?: string | null;
   worker_name?: string | null;
+  /** Free text: the country ISO-2 code or name, matched against the public holiday calendars. */
+  worker_contract_country?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -110,6 +112,8 @@ export interface Location {
   postal_code?: string;
   latitude?: number;
   longitude?: number;
+  /** IANA timezone of the site; entries there are recorded in it. */
+  timezone?: string | null;
   is_active: boolean;
   asset_id?: number | null;
   oem_id?: number | null;
@@ -167,6 +171,13 @@ export interface AiTimesheetIntent {
   missing_fields: string[];
 }
 
+/** Unpaid break inside an entry (HH:mm); not counted in hours_worked. */
+export interface TimesheetBreak {
+  id?: number;
+  start_time: string;
+  end_time: string;
+}
+
 export interface Timesheet {
   id: number;
   technician_id: number;
@@ -176,6 +187,8 @@ export interface Timesheet {
   date: string;
   start_time?: string;
   end_time?: string;
+  /** Timezone the date and times were recorded in (the site's); null on older entries. */
+  timezone?: string | null;
   hours_worked: number;
   description?: string;
   status: 'submitted' | 'approved' | 'rejected' | 'closed' | 'draft';
@@ -189,6 +202,9 @@ export interface Timesheet {
   ai_flagged?: boolean;
   ai_score?: number | null;
   ai_feedback?: string[] | null;
+  breaks?: TimesheetBreak[];
+  /** Customer sign-off covering the entry; signed entries are frozen until it is voided. */
+  signoff_id?: number | null;
 }
 
 export interface AiTimesheetPlanWorkBlock {
@@ -300,6 +316,10 @@ export interface Expense {
   updated_at: string;
   technician?: Technician;
   project?: Project;
+  /** Manager the caller reviews the expense for through an approval delegation. */
+  on_behalf_of?: Pick<User, 'id' | 'name'> | null;
+  /** Waiting time against the approval SLA; null once decided. */
+  sla?: ApprovalSlaStatus | null;
 }
 
 export interface TimesheetManagerRow {
@@ -331,6 +351,40 @@ export interface TimesheetManagerRow {
     segment_ids: number[];
   } | null;
   consistency_flags?: string[];
+  comments_count?: number;
+  signoff?: Pick<TimesheetSignoff, 'id' | 'signer_name' | 'signed_at'> | null;
+  /** Manager the caller reviews the entry for through an approval delegation. */
+  on_behalf_of?: Pick<User, 'id' | 'name'> | null;
+  approval?: TimesheetApprovalProgress;
+  sla?: ApprovalSlaStatus | null;
+}
+
+export type ApprovalSlaState = 'ok' | 'warning' | 'overdue';
+
+export interface ApprovalSlaStatus {
+  submitted_at: string | null;
+  age_hours: number;
+  state: ApprovalSlaState;
+}
+
+export type TimesheetApprovalStepState = 'done' | 'current' | 'pending';
+
+/** One step of the tenant's timesheet approval chain, as signed in the entry's current round. */
+export interface TimesheetApprovalStep {
+  key: string;
+  label: string;
+  state: TimesheetApprovalStepState;
+  /** Passed by the tenant's auto-approve rule rather than a person. */
+  automatic: boolean;
+  approved_by: Pick<User, 'id' | 'name'> | null;
+  on_behalf_of: Pick<User, 'id' | 'name'> | null;
+  approved_at: string | null;
+}
+
+export interface TimesheetApprovalProgress {
+  /** Index of the step a submitted entry waits at; null otherwise. */
+  current_step: number | null;
+  steps: TimesheetApprovalStep[];
 }
 
 export interface TimesheetManagerSummary {
@@ -339,6 +393,7 @@ export interface TimesheetManagerSummary {
   over_cap_count: number;
   overlap_count: number;
   pending_count: number;
+  overdue_count?: number;
   average_ai_score: number | null;
 }
 
@@ -347,6 +402,300 @@ export interface TimesheetManagerResponse {
   summary: TimesheetManagerSummary;
 }
 
+export type TimesheetWeekState = 'open' | 'submitted' | 'approved' | 'rejected';
+
+export interface TimesheetWeekStatus {
+  technician_id: number;
+  week_start: string;
+  week_end: string;
+  status: TimesheetWeekState;
+  /** Submitted and approved weeks are locked for the technician until a manager rejects them. */
+  locked: boolean;
+  week_id: number | null;
+  rejection_reason: string | null;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  counts: Record<Timesheet['status'], number>;
+  total_hours: number;
+}
+
+export type TimesheetWeekIssueCode = 'missing_task' | 'missing_location' | 'over_cap' | 'overlap';
+
+export interface TimesheetWeekIssue {
+  code: TimesheetWeekIssueCode;
+  date: string;
+  timesheet_id: number | null;
+  message?: string;
+}
+
+export interface PendingTimesheetWeek {
+  id: number;
+  technician: Pick<Technician, 'id' | 'name' | 'email'> | null;
+  week_start: string;
+  week_end: string;
+  submitted_at: string | null;
+  entry_count: number;
+  total_hours: number;
+  projects: string[];
+  /** False when some entries belong to projects the current user cannot approve. */
+  can_review: boolean;
+}
+
+export type AbsenceStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type AbsenceHalfDay = 'morning' | 'afternoon';
+
+export interface Absence {
+  id: number;
+  technician_id: number;
+  technician: (Pick<Technician, 'id' | 'name' | 'email'> & { user_id?: number | null }) | null;
+  /** Key of one of the tenant absence types (TenantContext.absence_types). */
+  absence_type: string;
+  start_date: string;
+  end_date: string;
+  /** Half-day absences are single-day and block only the morning (before noon) or the afternoon. */
+  half_day: AbsenceHalfDay | null;
+  days: number;
+  status: AbsenceStatus;
+  reason: string | null;
+  rejection_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string | null;
+}
+
+export interface AbsenceFormData {
+  technician_id?: number;
+  absence_type: string;
+  start_date: string;
+  end_date: string;
+  half_day?: AbsenceHalfDay | null;
+  reason?: string;
+}
+
+export interface PublicHoliday {
+  id: number;
+  country_id: number;
+  country_iso2: string | null;
+  country_name: string | null;
+  date: string;
+  name: string;
+}
+
+export interface PublicHolidayFormData {
+  date: string;
+  name: string;
+}
+
+export interface TimesheetSignoffEntry {
+  id: number;
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  hours_worked: number;
+  project_name: string | null;
+  task_name: string | null;
+  location_name: string | null;
+}
+
+/** Site customer's sign-off of a technician's entries at one location, over a day or a week. */
+export interface TimesheetSignoff {
+  id: number;
+  technician_id: number;
+  technician: (Pick<Technician, 'id' | 'name' | 'email'> & { user_id?: number | null }) | null;
+  location_id: number | null;
+  location: Pick<Location, 'id' | 'name' | 'address' | 'city'> | null;
+  period_start: string;
+  period_end: string;
+  total_hours: number;
+  signer_name: string;
+  signer_email: string | null;
+  notes: string | null;
+  signed_by: number | null;
+  signed_at: string;
+  timesheet_ids: number[];
+  /** JPEG data URL; only on the detail endpoints. */
+  signature?: string;
+  entries?: TimesheetSignoffEntry[];
+}
+
+export interface TimesheetSignoffFormData {
+  timesheet_ids: number[];
+  signer_name: string;
+  signer_email?: string;
+  signature: string;
+  notes?: string;
+}
+
+export type TimesheetTemplateInvalidReason = 'task_inactive' | 'not_member';
+
+/**
+ * Saved entry template or pinned favourite combination. Invalid ones (task deactivated, project
+ * membership lost) are still listed so the user can see and remove them.
+ */
+export interface TimesheetTemplate {
+  id: number;
+  name: string;
+  project_id: number;
+  project_name: string | null;
+  task_id: number;
+  task_name: string | null;
+  location_id: number | null;
+  location_name: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  description: string | null;
+  is_favourite: boolean;
+  last_used_at: string | null;
+  valid: boolean;
+  invalid_reason: TimesheetTemplateInvalidReason | null;
+}
+
+export interface TimesheetTemplateFormData {
+  name: string;
+  project_id: number;
+  task_id: number;
+  location_id?: number | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  description?: string | null;
+  is_favourite?: boolean;
+}
+
+/** Project/task/location combination taken from the user's latest entries. */
+export interface RecentTimesheetCombo {
+  project_id: number;
+  project_name: string | null;
+  task_id: number;
+  task_name: string | null;
+  location_id: number | null;
+  location_name: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  last_used_on: string;
+}
+
+/** Row of an imported CSV/.ics file, with project, task and location as names. */
+export interface TimesheetImportRow {
+  date: string;
+  start_time: string;
+  end_time: string;
+  project: string;
+  task: string;
+  location: string;
+  description: string;
+}
+
+export interface TimesheetImportRowResult {
+  /** 1-based position in the submitted rows. */
+  row: number;
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  entry: {
+    date: string;
+    start_time: string;
+    end_time: string;
+    hours_worked: number;
+    project_id: number;
+    project_name: string;
+    task_id: number;
+    task_name: string;
+    location_id: number;
+    location_name: string;
+    description: string;
+  } | null;
+}
+
+export interface TimesheetImportResponse {
+  data: TimesheetImportRowResult[];
+  summary: { total: number; valid: number; invalid: number };
+  created_ids?: number[];
+}
+
+export type CalendarFeedCalendar = 'timesheets' | 'travels' | 'planning';
+
+/**
+ * Personal iCalendar subscription. Each calendar has its own URL (null while switched off or
+ * when the tenant lacks the module); the token in the URLs is the only credential.
+ */
+export interface CalendarFeed {
+  id: number;
+  name: string;
+  include_timesheets: boolean;
+  include_travels: boolean;
+  include_planning: boolean;
+  urls: Record<CalendarFeedCalendar, string | null>;
+  last_accessed_at: string | null;
+  created_at: string | null;
+}
+
+export interface CalendarFeedFormData {
+  name: string;
+  include_timesheets?: boolean;
+  include_travels?: boolean;
+  include_planning?: boolean;
+}
+
+export type ApprovalDelegationScope = 'timesheets' | 'expenses' | 'both';
+
+export interface ApprovalDelegation {
+  id: number;
+  delegator: Pick<User, 'id' | 'name'> | null;
+  delegate: Pick<User, 'id' | 'name'> | null;
+  scope: ApprovalDelegationScope;
+  /** Null covers every project the delegator manages. */
+  project: Pick<Project, 'id' | 'name'> | null;
+  starts_on: string;
+  ends_on: string;
+  is_active: boolean;
+  created_at: string | null;
+}
+
+export interface ApprovalDelegationFormData {
+  delegate_id: number;
+  scope: ApprovalDelegationScope;
+  project_id?: number | null;
+  starts_on: string;
+  ends_on: string;
+}
+
+export interface ApprovalDelegationOverview {
+  given: ApprovalDelegation[];
+  received: ApprovalDelegation[];
+  /** Projects the caller approves timesheets and/or expenses on. */
+  managed_projects: Array<Pick<Project, 'id' | 'name'> & { timesheets: boolean; expenses: boolean }>;
+  /** Users holding approval permissions who can stand in for the caller. */
+  candidates: Array<Pick<User, 'id' | 'name' | 'email'> & { timesheets: boolean; expenses: boolean }>;
+}
+
+export type TimesheetCommentKind = 'comment' | 'rejection' | 'resubmission';
+
+export interface TimesheetComment {
+  id: number;
+  kind: TimesheetCommentKind;
+  body: string;
+  user: Pick<User, 'id' | 'name'> | null;
+  created_at: string | null;
+}
+
+export interface TimesheetStatusChange {
+  id: number;
+  /** Null for the entry's creation. */
+  from_status: Timesheet['status'] | null;
+  to_status: Timesheet['status'];
+  changed_by: Pick<User, 'id' | 'name'> | null;
+  /** Manager a substitute approver made the change for. */
+  on_behalf_of?: Pick<User, 'id' | 'name'> | null;
+  created_at: string | null;
+}
+
+export interface TimesheetActivity {
+  timesheet_id: number;
+  status: Timesheet['status'];
+  comments: TimesheetComment[];
+  history: TimesheetStatusChange[];
+}
+
 export interface ApiResponse<T> {
   data: T;
   message?: string;
@@ -371,6 +720,13 @@ export interface TimesheetFormData {
   end_time?: string;
   hours_worked: number;
   description?: string;
+  /** Timezone the times are in (the site's); the API stores the location's timezone. */
+  timezone?: string | null;
+  status?: 'draft' | 'submitted';
+  /** Sent when re-submitting a rejected entry; stored in the entry's discussion thread. */
+  resubmission_note?: string;
+  /** Replaces the entry's breaks when present. */
+  breaks?: TimesheetBreak[];
 }
 
 export interface ExpenseFormData {
@@ -1,5 +1,36 @@
 export type WeekStart = 'mon' | 'sun';
 
+export type TimeRoundingMode = 'nearest' | 'up' | 'down';
+
+export interface TimeRoundingRule {
+  increment_minutes: number;
+  mode: TimeRoundingMode;
+}
+
+export interface BreakRule {
+  required_after_hours: number;
+  min_minutes: number;
+  /** When false the rule only warns; the API does not reject the entry. */
+  enforce: boolean;
+}
+
+export interface AbsenceType {
+  key: string;
+  label: string;
+  paid: boolean;
+  color: string;
+}
+
+export interface ApprovalSla {
+  /** Hours a submitted item may wait before it is flagged as ageing. */
+  warning_hours: number;
+  /** Hours after which the item is overdue and its approvers are reminded. */
+  overdue_hours: number;
+  /** Hours after which Owners and Admins are told as well. */
+  escalate_after_hours: number;
+  reminders_enabled: boolean;
+}
+
 export interface TenantContext {
   region?: string;
   week_start?: WeekStart;
@@ -11,4 +42,12 @@ export interface TenantContext {
   date_format?: string;
   currency?: string;
   currency_symbol?: string;
+  /** Rounding applied to timer-tracked start/end times. */
+  time_rounding?: TimeRoundingRule;
+  /** Minimum unpaid break required after a stretch of continuous work. */
+  break_rule?: BreakRule;
+  /** Absence types people can request (vacation, sick leave, training...). */
+  absence_types?: AbsenceType[];
+  /** How long timesheets and expenses may wait for an approver. */
+  approval_sla?: ApprovalSla;
 }
@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'vitest';
-import { mapAiTimesheetPreviewError } from './aiTimesheetPreview';
+import {
+  getAiTimesheetPlanBlockIssues,
+  getAiTimesheetPlanMetrics,
+  mapAiTimesheetPreviewError,
+  removeAiTimesheetPlanDay,
+  updateAiTimesheetPlanBlock,
+} from './aiTimesheetPreview';
+import type { AiTimesheetPlan, AiTimesheetPlanWorkBlock } from '../types';
 
 const t = (key: string) => key;
 
@@ -77,3 +84,60 @@ describe('mapAiTimesheetPreviewError', () => {
     ]);
   });
 });
+
+const block = (overrides: Partial<AiTimesheetPlanWorkBlock> = {}): AiTimesheetPlanWorkBlock => ({
+  start_time: '09:00',
+  end_time: '13:00',
+  project: { id: 1, name: 'Alpha' },
+  task: { id: 2, name: 'Design' },
+  location: { id: 3, name: 'Lisbon' },
+  ...overrides,
+});
+
+const plan: AiTimesheetPlan = {
+  range: { start_date: '2026-02-02', end_date: '2026-02-04' },
+  days: [
+    { date: '2026-02-02', work_blocks: [block(), block({ start_time: '14:00', end_time: '18:00' })], breaks: [] },
+    { date: '2026-02-03', work_blocks: [block()], breaks: [{ start_time: '13:00', end_time: '14:00' }] },
+    { date: '2026-02-04', work_blocks: [block()], breaks: [] },
+  ],
+};
+
+describe('AI timesheet plan editing', () => {
+  it('patches a single block and recomputes the totals', () => {
+    const edited = updateAiTimesheetPlanBlock(plan, '2026-02-02', 1, {
+      end_time: '16:00',
+      task: { id: 5, name: 'Review' },
+    });
+
+    expect(edited.days[0].work_blocks[1]).toMatchObject({ start_time: '14:00', end_time: '16:00', task: { id: 5 } });
+    expect(edited.days[0].work_blocks[0]).toBe(plan.days[0].work_blocks[0]);
+    expect(plan.days[0].work_blocks[1].end_time).toBe('18:00');
+    expect(getAiTimesheetPlanMetrics(edited).workMinutes).toBe(14 * 60);
+  });
+
+  it('removes a day and shrinks the range', () => {
+    const withoutFirst = removeAiTimesheetPlanDay(plan, '2026-02-02');
+    expect(withoutFirst.range).toEqual({ start_date: '2026-02-03', end_date: '2026-02-04' });
+    expect(getAiTimesheetPlanMetrics(withoutFirst)).toEqual({ workMinutes: 8 * 60, breakMinutes: 60 });
+
+    const empty = ['2026-02-03', '2026-02-04'].reduce(removeAiTimesheetPlanDay, withoutFirst);
+    expect(empty.days).toEqual([]);
+    expect(empty.range).toEqual({ start_date: null, end_date: null });
+  });
+
+  it('flags blocks with an invalid time range or no project', () => {
+    const edited = updateAiTimesheetPlanBlock(
+      updateAiTimesheetPlanBlock(plan, '2026-02-03', 0, { end_time: '08:00' }),
+      '2026-02-04',
+      0,
+      { project: { id: null, name: null } }
+    );
+
+    expect(getAiTimesheetPlanBlockIssues(plan)).toEqual({});
+    expect(getAiTimesheetPlanBlockIssues(edited)).toEqual({
+      '2026-02-03:0': ['time'],
+      '2026-02-04:0': ['project'],
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import type { TFunction } from 'i18next';
-import type { AiTimesheetPlan } from '../types';
+import type { AiTimesheetPlan, AiTimesheetPlanWorkBlock } from '../types';
 
 export type AiTimesheetPreviewErrorInput = {
   message: string;
@@ -142,3 +142,67 @@ export const getAiTimesheetPlanMetrics = (plan: AiTimesheetPlan): { workMinutes:
 
   return { workMinutes, breakMinutes };
 };
+
+/** Returns a copy of the plan with one work block patched (the day is matched by date). */
+export const updateAiTimesheetPlanBlock = (
+  plan: AiTimesheetPlan,
+  date: string,
+  blockIndex: number,
+  patch: Partial<AiTimesheetPlanWorkBlock>
+): AiTimesheetPlan => ({
+  ...plan,
+  days: plan.days.map((day) =>
+    day.date === date
+      ? {
+          ...day,
+          work_blocks: day.work_blocks.map((block, index) => (index === blockIndex ? { ...block, ...patch } : block)),
+        }
+      : day
+  ),
+});
+
+/** Drops a day from the plan and shrinks the range to the days that are left. */
+export const removeAiTimesheetPlanDay = (plan: AiTimesheetPlan, date: string): AiTimesheetPlan => {
+  const days = plan.days.filter((day) => day.date !== date);
+  const dates = days.map((day) => day.date).sort();
+
+  return {
+    ...plan,
+    range: {
+      start_date: dates[0] ?? null,
+      end_date: dates[dates.length - 1] ?? null,
+    },
+    days,
+  };
+};
+
+export type AiTimesheetPlanBlockIssue = 'time' | 'project';
+
+/**
+ * Issues that would make the commit fail, keyed by `${date}:${blockIndex}`.
+ * Overlaps and break rules are still left to the backend validator.
+ */
+export const getAiTimesheetPlanBlockIssues = (
+  plan: AiTimesheetPlan
+): Record<string, AiTimesheetPlanBlockIssue[]> => {
+  const issues: Record<string, AiTimesheetPlanBlockIssue[]> = {};
+
+  plan.days.forEach((day) => {
+    day.work_blocks.forEach((block, index) => {
+      const blockIssues: AiTimesheetPlanBlockIssue[] = [];
+      const startMinutes = parseTimeToMinutes(block.start_time);
+      const endMinutes = parseTimeToMinutes(block.end_time);
+      if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
+        blockIssues.push('time');
+      }
+      if (!block.project?.id) {
+        blockIssues.push('project');
+      }
+      if (blockIssues.length > 0) {
+        issues[`${day.date}:${index}`] = blockIssues;
+      }
+    });
+  });
+
+  return issues;
+};
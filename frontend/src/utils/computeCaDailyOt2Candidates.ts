@@ -1,5 +1,6 @@
 import dayjs from 'dayjs';
 import type { Timesheet } from '../types';
+import { splitOvertimeWorkweek } from './overtimePolicy';
 
 export type CaDailyOt2Candidate = {
   date: string; // YYYY-MM-DD
@@ -7,14 +8,11 @@ export type CaDailyOt2Candidate = {
 };
 
 /**
- * FRONTEND-ONLY UI HEURISTIC (read-only):
+ * OT(2.0x) days for US-CA tenants, from timesheets already loaded by the UI (GET /api/timesheets).
  *
- * We do NOT have per-day OT(2.0x) breakdown from GET /api/timesheets/summary.
- * So, for US-CA tenants only, we derive *candidate* OT(2.0x) days using only
- * timesheets already loaded by the UI (GET /api/timesheets):
- * - Group by technician + day (YYYY-MM-DD)
- * - Sum hours_worked
- * - Flag days where total > 12, with ot2Hours = max(0, total - 12)
+ * Entries inside the 7-day workweek starting at weekStartDate are grouped per technician and
+ * split with the shared overtime policy engine (daily 8/12 split and the 7th consecutive day
+ * rule); days with double time are summed across technicians.
  *
  * This is NOT used for payroll/billing totals and does NOT change engine logic.
  */
@@ -29,7 +27,7 @@ export function computeCaDailyOt2Candidates(
   const endExclusive = start.add(7, 'day');
 
   // Sum total hours per technician/day.
-  const perTechDay = new Map<string, { date: string; totalHours: number }>();
+  const perTechnician = new Map<number, Record<string, number>>();
 
   for (const entry of entries) {
     const date = typeof entry.date === 'string' ? entry.date : '';
@@ -45,24 +43,20 @@ export function computeCaDailyOt2Candidates(
     const hours = typeof entry.hours_worked === 'number' ? entry.hours_worked : Number(entry.hours_worked);
     const normalizedHours = Number.isFinite(hours) ? hours : 0;
 
-    const key = `${technicianId}-${dateObj.format('YYYY-MM-DD')}`;
-    const existing = perTechDay.get(key);
-
-    if (existing) {
-      existing.totalHours += normalizedHours;
-    } else {
-      perTechDay.set(key, { date: dateObj.format('YYYY-MM-DD'), totalHours: normalizedHours });
-    }
+    const key = dateObj.format('YYYY-MM-DD');
+    const days = perTechnician.get(technicianId) ?? {};
+    days[key] = (days[key] ?? 0) + normalizedHours;
+    perTechnician.set(technicianId, days);
   }
 
   // Aggregate OT2 candidates by date (sum across technicians).
   const perDateOt2 = new Map<string, number>();
 
-  perTechDay.forEach(({ date, totalHours }) => {
-    const ot2 = Math.max(0, totalHours - 12);
-    if (ot2 <= 0) return;
-
-    perDateOt2.set(date, (perDateOt2.get(date) ?? 0) + ot2);
+  perTechnician.forEach((days) => {
+    splitOvertimeWorkweek('US-CA', days).forEach(({ date, overtime_hours_2_0 }) => {
+      if (overtime_hours_2_0 <= 0) return;
+      perDateOt2.set(date, (perDateOt2.get(date) ?? 0) + overtime_hours_2_0);
+    });
   });
 
   return Array.from(perDateOt2.entries())
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildLocalTimesheetSuggestion } from './localTimesheetSuggestion';
+import type { Timesheet } from '../types';
+
+const entry = (overrides: Partial<Timesheet>): Timesheet =>
+  ({
+    id: 1,
+    technician_id: 10,
+    project_id: 5,
+    task_id: 7,
+    date: '2026-03-02',
+    hours_worked: 8,
+    description: 'Site survey',
+    status: 'submitted',
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  }) as Timesheet;
+
+describe('buildLocalTimesheetSuggestion', () => {
+  it('suggests the median duration and most frequent description for the same task', () => {
+    const suggestion = buildLocalTimesheetSuggestion(
+      [
+        entry({ id: 1, date: '2026-03-02', hours_worked: 8, description: 'Site survey' }),
+        entry({ id: 2, date: '2026-03-03', hours_worked: 6, description: 'Cable pulling' }),
+        entry({ id: 3, date: '2026-03-04', hours_worked: 7.3, description: 'Site survey' }),
+        entry({ id: 4, date: '2026-03-04', task_id: 8, hours_worked: 2, description: 'Other task' }),
+      ],
+      { projectId: 5, taskId: 7, date: '2026-03-05' }
+    );
+
+    expect(suggestion).toEqual({
+      suggestedHours: 7.25,
+      description: 'Site survey',
+      alternatives: ['Cable pulling'],
+      confidence: 0.55,
+      sampleSize: 3,
+      matchedOn: 'task',
+    });
+  });
+
+  it('falls back to the project history when the task has none', () => {
+    const suggestion = buildLocalTimesheetSuggestion(
+      [entry({ id: 1, task_id: 8, hours_worked: 4, description: 'Commissioning' })],
+      { projectId: 5, taskId: 7, date: '2026-03-05' }
+    );
+
+    expect(suggestion?.matchedOn).toBe('project');
+    expect(suggestion?.description).toBe('Commissioning');
+    expect(suggestion?.confidence).toBe(0.35);
+  });
+
+  it('ignores entries after the target date and other projects', () => {
+    expect(
+      buildLocalTimesheetSuggestion(
+        [entry({ date: '2026-03-09' }), entry({ id: 2, project_id: 6 })],
+        { projectId: 5, taskId: 7, date: '2026-03-05' }
+      )
+    ).toBeNull();
+  });
+
+  it('is deterministic for the same input', () => {
+    const entries = [
+      entry({ id: 1, description: 'A' }),
+      entry({ id: 2, description: 'B' }),
+    ];
+    const first = buildLocalTimesheetSuggestion(entries, { projectId: 5, taskId: 7, date: '2026-03-05' });
+    const second = buildLocalTimesheetSuggestion([...entries].reverse(), { projectId: 5, taskId: 7, date: '2026-03-05' });
+
+    expect(first).toEqual(second);
+    expect(first?.description).toBe('B');
+  });
+});
@@ -0,0 +1,77 @@
+import dayjs from 'dayjs';
+import type { Timesheet } from '../types';
+
+export type LocalTimesheetSuggestion = {
+  suggestedHours: number;
+  description: string;
+  alternatives: string[];
+  confidence: number;
+  sampleSize: number;
+  /** Whether entries matched on project + task, or only on project. */
+  matchedOn: 'task' | 'project';
+};
+
+const MAX_SAMPLES = 10;
+
+const roundToQuarter = (value: number): number => Math.round(value * 4) / 4;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Deterministic suggestion built from the user's own recent entries (used when AI is off
+ * or unavailable). Same inputs always give the same output: no randomness, no clock.
+ *
+ * Takes the latest entries on or before the target date for the same project + task
+ * (falling back to the project), suggests their median duration and the most frequent
+ * description.
+ */
+export const buildLocalTimesheetSuggestion = (
+  entries: Timesheet[],
+  target: { projectId: number; taskId?: number | null; date: string }
+): LocalTimesheetSuggestion | null => {
+  const targetDate = dayjs(target.date).format('YYYY-MM-DD');
+
+  const history = entries
+    .filter((entry) => entry.project_id === target.projectId && entry.date)
+    .filter((entry) => dayjs(entry.date).format('YYYY-MM-DD') <= targetDate)
+    .sort((a, b) => {
+      const byDate = dayjs(b.date).valueOf() - dayjs(a.date).valueOf();
+      return byDate !== 0 ? byDate : b.id - a.id;
+    });
+
+  const taskHistory = target.taskId ? history.filter((entry) => entry.task_id === target.taskId) : [];
+  const matchedOn: LocalTimesheetSuggestion['matchedOn'] = taskHistory.length > 0 ? 'task' : 'project';
+  const samples = (taskHistory.length > 0 ? taskHistory : history).slice(0, MAX_SAMPLES);
+
+  const hours = samples.map((entry) => Number(entry.hours_worked)).filter((value) => Number.isFinite(value) && value > 0);
+  if (hours.length === 0) return null;
+
+  // Most frequent description first; ties go to the most recent one (samples are newest first).
+  const counts = new Map<string, { count: number; firstIndex: number }>();
+  samples.forEach((entry, index) => {
+    const description = entry.description?.trim();
+    if (!description) return;
+    const current = counts.get(description);
+    counts.set(description, { count: (current?.count ?? 0) + 1, firstIndex: current?.firstIndex ?? index });
+  });
+  const descriptions = Array.from(counts.entries())
+    .sort(([, a], [, b]) => b.count - a.count || a.firstIndex - b.firstIndex)
+    .map(([description]) => description);
+
+  if (descriptions.length === 0) return null;
+
+  const baseConfidence = Math.min(0.4 + samples.length * 0.05, 0.8);
+
+  return {
+    suggestedHours: roundToQuarter(median(hours)),
+    description: descriptions[0],
+    alternatives: descriptions.slice(1, 3),
+    confidence: Math.round((matchedOn === 'task' ? baseConfidence : baseConfidence - 0.1) * 100) / 100,
+    sampleSize: samples.length,
+    matchedOn,
+  };
+};
@@ -1,4 +1,4 @@
-import type { TenantContext, WeekStart } from '../types/tenant';
+import type { AbsenceType, BreakRule, TenantContext, TimeRoundingRule, WeekStart } from '../types/tenant';
 
 const asOptionalString = (value: unknown): string | undefined =>
   typeof value === 'string' ? value : undefined;
@@ -8,6 +8,44 @@ const asWeekStart = (value: unknown): WeekStart | undefined => {
   return undefined;
 };
 
+const asTimeRounding = (value: unknown): TimeRoundingRule | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const source = value as Record<string, unknown>;
+  const increment = Number(source.increment_minutes);
+  const mode = source.mode;
+  if (!Number.isInteger(increment) || increment <= 0) return undefined;
+  if (mode !== 'nearest' && mode !== 'up' && mode !== 'down') return undefined;
+  return { increment_minutes: increment, mode };
+};
+
+const asBreakRule = (value: unknown): BreakRule | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const source = value as Record<string, unknown>;
+  const requiredAfter = Number(source.required_after_hours);
+  const minMinutes = Number(source.min_minutes);
+  if (!Number.isFinite(requiredAfter) || requiredAfter <= 0) return undefined;
+  if (!Number.isInteger(minMinutes) || minMinutes <= 0) return undefined;
+  return { required_after_hours: requiredAfter, min_minutes: minMinutes, enforce: source.enforce === true };
+};
+
+const asAbsenceTypes = (value: unknown): AbsenceType[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const types = value.flatMap((item): AbsenceType[] => {
+    if (!item || typeof item !== 'object') return [];
+    const source = item as Record<string, unknown>;
+    if (typeof source.key !== 'string' || !source.key) return [];
+    return [
+      {
+        key: source.key,
+        label: typeof source.label === 'string' && source.label ? source.label : source.key,
+        paid: source.paid !== false,
+        color: typeof source.color === 'string' ? source.color : '#90a4ae',
+      },
+    ];
+  });
+  return types.length > 0 ? types : undefined;
+};
+
 export const normalizeTenantContext = (raw: unknown): TenantContext => {
   const source = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
 
@@ -22,5 +60,8 @@ export const normalizeTenantContext = (raw: unknown): TenantContext => {
     date_format: asOptionalString(source.date_format),
     currency: asOptionalString(source.currency),
     currency_symbol: asOptionalString(source.currency_symbol),
+    time_rounding: asTimeRounding(source.time_rounding),
+    break_rule: asBreakRule(source.break_rule),
+    absence_types: asAbsenceTypes(source.absence_types),
   };
 };
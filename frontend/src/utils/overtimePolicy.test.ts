@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeOvertimeBreakdown,
+  getWorkweekStart,
+  resolveOvertimePolicyKey,
+  splitOvertimeWorkweek,
+  sumOvertime,
+} from './overtimePolicy';
+import type { TenantContext } from '../types/tenant';
+
+// Monday 2026-01-19 .. Sunday 2026-01-25
+const week = (hours: number[]): Record<string, number> =>
+  Object.fromEntries(hours.map((value, index) => [`2026-01-${String(19 + index).padStart(2, '0')}`, value]));
+
+const buckets = (days: ReturnType<typeof splitOvertimeWorkweek>) =>
+  days.map(({ regular_hours, overtime_hours_1_5, overtime_hours_2_0 }) => [
+    regular_hours,
+    overtime_hours_1_5,
+    overtime_hours_2_0,
+  ]);
+
+describe('resolveOvertimePolicyKey', () => {
+  it('prefers the policy key sent by the API', () => {
+    expect(resolveOvertimePolicyKey({ region: 'US', state: 'TX', policy_key: 'US-CA' } as TenantContext)).toBe('US-CA');
+  });
+
+  it('derives the key from region and state like the backend resolver', () => {
+    expect(resolveOvertimePolicyKey({ region: 'US', state: 'ca' } as TenantContext)).toBe('US-CA');
+    expect(resolveOvertimePolicyKey({ region: 'US', state: 'NY' } as TenantContext)).toBe('US-NY');
+    expect(resolveOvertimePolicyKey({ region: 'US', state: 'TX' } as TenantContext)).toBe('US-FLSA');
+    expect(resolveOvertimePolicyKey({ region: 'US' } as TenantContext)).toBe('US-FLSA');
+    expect(resolveOvertimePolicyKey({ region: 'US-NY' } as TenantContext)).toBe('US-NY');
+    expect(resolveOvertimePolicyKey({ region: 'EU' } as TenantContext)).toBe('NON-US');
+    expect(resolveOvertimePolicyKey(null)).toBe('NON-US');
+  });
+});
+
+describe('getWorkweekStart', () => {
+  it('uses the tenant first day of the week', () => {
+    expect(getWorkweekStart('2026-01-21', 1)).toBe('2026-01-19');
+    expect(getWorkweekStart('2026-01-21', 0)).toBe('2026-01-18');
+    expect(getWorkweekStart('2026-01-18', 1)).toBe('2026-01-12');
+  });
+});
+
+describe('splitOvertimeWorkweek', () => {
+  it('applies the CA daily 8h/12h split', () => {
+    const days = splitOvertimeWorkweek('US-CA', week([13, 9, 4]));
+    expect(buckets(days)).toEqual([
+      [8, 4, 1],
+      [8, 1, 0],
+      [4, 0, 0],
+    ]);
+  });
+
+  it('applies the CA 7th consecutive day rule only when all 7 days were worked', () => {
+    const seven = splitOvertimeWorkweek('US-CA', week([4, 4, 4, 4, 4, 4, 10]));
+    expect(seven[6]).toMatchObject({ seventh_day: true, regular_hours: 0, overtime_hours_1_5: 8, overtime_hours_2_0: 2 });
+
+    const six = splitOvertimeWorkweek('US-CA', week([4, 4, 4, 4, 4, 0, 10]));
+    expect(six.some((day) => day.seventh_day)).toBe(false);
+    expect(six[6]).toMatchObject({ regular_hours: 8, overtime_hours_1_5: 2, overtime_hours_2_0: 0 });
+  });
+
+  it('converts CA regular hours over 40h into 1.5x from the latest day backwards', () => {
+    // 5 x 10h: daily split gives 40 regular + 10 OT; the weekly excess (10h) converts 10 more.
+    const days = splitOvertimeWorkweek('US-CA', week([10, 10, 10, 10, 10]));
+    expect(buckets(days)).toEqual([
+      [8, 2, 0],
+      [8, 2, 0],
+      [8, 2, 0],
+      [6, 4, 0],
+      [0, 10, 0],
+    ]);
+    expect(sumOvertime(days.map((day) => ({ ...day })))).toEqual({
+      total_hours: 50,
+      regular_hours: 30,
+      overtime_hours_1_5: 20,
+      overtime_hours_2_0: 0,
+    });
+  });
+
+  it('applies weekly-only overtime for US-FLSA and US-NY', () => {
+    for (const policy of ['US-FLSA', 'US-NY'] as const) {
+      const days = splitOvertimeWorkweek(policy, week([12, 12, 12, 12]));
+      expect(buckets(days)).toEqual([
+        [12, 0, 0],
+        [12, 0, 0],
+        [12, 0, 0],
+        [4, 8, 0],
+      ]);
+    }
+  });
+
+  it('never produces overtime for NON-US tenants', () => {
+    const days = splitOvertimeWorkweek('NON-US', week([14, 14, 14, 14]));
+    expect(days.every((day) => day.overtime_hours_1_5 === 0 && day.overtime_hours_2_0 === 0)).toBe(true);
+  });
+
+  it('pays public holiday hours as 1.5x and keeps them out of the daily and weekly rules', () => {
+    const nonUs = splitOvertimeWorkweek('NON-US', week([8, 8]), ['2026-01-20']);
+    expect(buckets(nonUs)).toEqual([
+      [8, 0, 0],
+      [0, 8, 0],
+    ]);
+    expect(nonUs[1]).toMatchObject({ holiday: true, total_hours: 8 });
+
+    // 5 x 10h with a holiday on the Wednesday: 40h remain for the weekly rule, so no conversion.
+    const flsa = splitOvertimeWorkweek('US-FLSA', week([10, 10, 10, 10, 10]), ['2026-01-21']);
+    expect(buckets(flsa)).toEqual([
+      [10, 0, 0],
+      [10, 0, 0],
+      [0, 10, 0],
+      [10, 0, 0],
+      [10, 0, 0],
+    ]);
+  });
+});
+
+describe('computeOvertimeBreakdown', () => {
+  it('splits per technician and per workweek', () => {
+    const entries = [
+      { technician_id: 10, date: '2026-01-20', hours_worked: 8 },
+      { technician_id: 10, date: '2026-01-20', hours_worked: 5 },
+      { technician_id: 11, date: '2026-01-20', hours_worked: '9.5' },
+      // Next Monday-based workweek: does not add to the first week's total.
+      { technician_id: 10, date: '2026-01-26', hours_worked: 13 },
+    ] as never[];
+
+    const result = computeOvertimeBreakdown(entries, { policyKey: 'US-CA', weekFirstDay: 1 });
+
+    expect(result).toEqual([
+      expect.objectContaining({
+        technician_id: 10,
+        date: '2026-01-20',
+        workweek_start: '2026-01-19',
+        total_hours: 13,
+        regular_hours: 8,
+        overtime_hours_1_5: 4,
+        overtime_hours_2_0: 1,
+      }),
+      expect.objectContaining({ technician_id: 11, date: '2026-01-20', regular_hours: 8, overtime_hours_1_5: 1.5 }),
+      expect.objectContaining({ technician_id: 10, date: '2026-01-26', workweek_start: '2026-01-26', overtime_hours_2_0: 1 }),
+    ]);
+  });
+
+  it('only treats the holidays of each technician as holidays', () => {
+    const entries = [
+      { technician_id: 10, date: '2026-01-20', hours_worked: 6 },
+      { technician_id: 11, date: '2026-01-20', hours_worked: 6 },
+    ] as never[];
+
+    const result = computeOvertimeBreakdown(entries, {
+      policyKey: 'NON-US',
+      weekFirstDay: 1,
+      isHoliday: (technicianId, date) => technicianId === 10 && date === '2026-01-20',
+    });
+
+    expect(result).toEqual([
+      expect.objectContaining({ technician_id: 10, holiday: true, regular_hours: 0, overtime_hours_1_5: 6 }),
+      expect.objectContaining({ technician_id: 11, holiday: false, regular_hours: 6, overtime_hours_1_5: 0 }),
+    ]);
+  });
+
+  it('attributes overnight hours to the calendar day they were worked', () => {
+    const entries = [
+      { technician_id: 10, date: '2026-01-20', start_time: '14:00', end_time: '23:00', hours_worked: 9 },
+      // 1h before midnight, 6h on the 21st.
+      { technician_id: 10, date: '2026-01-20', start_time: '23:00', end_time: '06:00', hours_worked: 7 },
+    ] as never[];
+
+    expect(computeOvertimeBreakdown(entries, { policyKey: 'US-CA', weekFirstDay: 1 })).toEqual([
+      expect.objectContaining({ date: '2026-01-20', total_hours: 10, regular_hours: 8, overtime_hours_1_5: 2 }),
+      expect.objectContaining({ date: '2026-01-21', total_hours: 6, regular_hours: 6, overtime_hours_1_5: 0 }),
+    ]);
+  });
+
+  it('ignores entries without a valid date or technician', () => {
+    const entries = [
+      { technician_id: 10, date: 'not-a-date', hours_worked: 8 },
+      { technician_id: undefined, date: '2026-01-20', hours_worked: 8 },
+    ] as never[];
+
+    expect(computeOvertimeBreakdown(entries, { policyKey: 'US-FLSA', weekFirstDay: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import dayjs from 'dayjs';
+import type { Timesheet } from '../types';
+import type { TenantContext } from '../types/tenant';
+import { splitHoursByDay } from './timesheetShift';
+
+/**
+ * Frontend overtime policy engine.
+ *
+ * Mirrors the backend compliance rules (App\Services\Compliance) so the UI can show *where*
+ * overtime falls, per technician and per day, while GET /api/timesheets/summary only returns
+ * week totals. Per workweek, the day-level buckets add up to the backend week breakdown:
+ * - US-CA: daily 8h/12h split, 7th consecutive working day rule, then weekly 40h conversion
+ *   of the remaining regular hours
+ * - US-NY, US-FLSA: weekly 40h @ 1.5x only
+ * - NON-US: no overtime
+ *
+ * Weekly overtime is attributed to the latest days of the workweek first (the hours worked
+ * after the 40th). Hours worked on a public holiday of the technician are overtime (1.5x) under
+ * every policy and stay out of the daily and weekly rules. This is presentation only; payroll
+ * totals stay with the backend.
+ */
+
+export type OvertimePolicyKey = 'US-CA' | 'US-NY' | 'US-FLSA' | 'NON-US';
+
+export type OvertimeBuckets = {
+  regular_hours: number;
+  overtime_hours_1_5: number;
+  overtime_hours_2_0: number;
+};
+
+export type OvertimeDaySplit = OvertimeBuckets & {
+  date: string; // YYYY-MM-DD
+  total_hours: number;
+  /** CA only: the day was split with the 7th consecutive working day rule. */
+  seventh_day: boolean;
+  /** Public holiday of the technician: every hour is overtime (1.5x). */
+  holiday: boolean;
+};
+
+export type OvertimeDayBreakdown = OvertimeDaySplit & {
+  technician_id: number;
+  workweek_start: string; // YYYY-MM-DD
+};
+
+export type OvertimeTotals = OvertimeBuckets & { total_hours: number };
+
+type OvertimeEntry = Pick<Timesheet, 'date' | 'hours_worked' | 'technician_id'> &
+  Partial<Pick<Timesheet, 'start_time' | 'end_time' | 'breaks'>>;
+
+const WEEKLY_THRESHOLD_HOURS = 40;
+const CA_DAILY_REGULAR_HOURS = 8;
+const CA_DAILY_DOUBLE_TIME_AFTER = 12;
+
+const POLICY_KEYS: OvertimePolicyKey[] = ['US-CA', 'US-NY', 'US-FLSA', 'NON-US'];
+
+const roundHours = (value: number): number => Math.round(value * 100) / 100;
+
+const toHours = (value: unknown): number => {
+  const hours = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(hours) ? Math.max(0, hours) : 0;
+};
+
+/** Same resolution as OvertimeRuleResolver::policyKeyForTenant, preferring the key the API sent. */
+export const resolveOvertimePolicyKey = (tenantContext: TenantContext | null | undefined): OvertimePolicyKey => {
+  const provided = String(tenantContext?.policy_key ?? '').trim().toUpperCase();
+  if ((POLICY_KEYS as string[]).includes(provided)) return provided as OvertimePolicyKey;
+
+  const region = String(tenantContext?.region ?? '').trim().toUpperCase();
+  const state = String(tenantContext?.state ?? '').trim().toUpperCase();
+
+  if (region === 'US' && state !== '') {
+    if (state === 'CA') return 'US-CA';
+    if (state === 'NY') return 'US-NY';
+    return 'US-FLSA';
+  }
+  if (region === 'US-CA') return 'US-CA';
+  if (region === 'US-NY') return 'US-NY';
+  if (region === 'US' || region.startsWith('US-')) return 'US-FLSA';
+  return 'NON-US';
+};
+
+/** First day (YYYY-MM-DD) of the workweek containing date; firstDay 0 = Sunday … 6 = Saturday. */
+export const getWorkweekStart = (date: string, firstDay: number): string => {
+  const day = dayjs(date);
+  const offset = (day.day() - firstDay + 7) % 7;
+  return day.subtract(offset, 'day').format('YYYY-MM-DD');
+};
+
+const splitCaDay = (hours: number): OvertimeBuckets => ({
+  regular_hours: Math.min(CA_DAILY_REGULAR_HOURS, hours),
+  overtime_hours_1_5: Math.min(
+    CA_DAILY_DOUBLE_TIME_AFTER - CA_DAILY_REGULAR_HOURS,
+    Math.max(0, hours - CA_DAILY_REGULAR_HOURS)
+  ),
+  overtime_hours_2_0: Math.max(0, hours - CA_DAILY_DOUBLE_TIME_AFTER),
+});
+
+const splitCaSeventhDay = (hours: number): OvertimeBuckets => ({
+  regular_hours: 0,
+  overtime_hours_1_5: Math.min(CA_DAILY_REGULAR_HOURS, hours),
+  overtime_hours_2_0: Math.max(0, hours - CA_DAILY_REGULAR_HOURS),
+});
+
+/**
+ * Splits one technician's workweek (hours per date) into per-day buckets.
+ * Dates are expected to belong to the same workweek; holidayDates are the technician's public
+ * holidays, whose hours are all overtime (1.5x).
+ */
+export const splitOvertimeWorkweek = (
+  policyKey: OvertimePolicyKey,
+  dayHoursByDate: Record<string, number>,
+  holidayDates: string[] = []
+): OvertimeDaySplit[] => {
+  const dates = Object.keys(dayHoursByDate).sort();
+  const holidays = new Set(holidayDates);
+  // Holiday hours are set aside: the daily and weekly rules only see the other days.
+  const hoursByDate = new Map(dates.map((date) => [date, holidays.has(date) ? 0 : toHours(dayHoursByDate[date])]));
+
+  // CA: the 7th day only applies when every day of the workweek was worked.
+  const workedDates = dates.filter((date) => (hoursByDate.get(date) ?? 0) > 0);
+  const seventhDay = policyKey === 'US-CA' && workedDates.length === 7 ? workedDates[6] : null;
+
+  const days: OvertimeDaySplit[] = dates.map((date) => {
+    const hours = hoursByDate.get(date) ?? 0;
+    const buckets =
+      policyKey !== 'US-CA'
+        ? { regular_hours: hours, overtime_hours_1_5: 0, overtime_hours_2_0: 0 }
+        : date === seventhDay
+          ? splitCaSeventhDay(hours)
+          : splitCaDay(hours);
+    return { date, total_hours: hours, seventh_day: date === seventhDay, holiday: false, ...buckets };
+  });
+
+  const withHolidays = (split: OvertimeDaySplit[]): OvertimeDaySplit[] =>
+    split.map((day) => {
+      if (!holidays.has(day.date)) return day;
+      const hours = toHours(dayHoursByDate[day.date]);
+      return { ...day, total_hours: hours, regular_hours: 0, overtime_hours_1_5: hours, overtime_hours_2_0: 0, holiday: true };
+    });
+
+  if (policyKey === 'NON-US') return withHolidays(days);
+
+  // Weekly rule: convert remaining regular hours to 1.5x until the excess over 40h is covered.
+  const total = days.reduce((sum, day) => sum + day.total_hours, 0);
+  const regular = days.reduce((sum, day) => sum + day.regular_hours, 0);
+  let toConvert = Math.min(Math.max(0, total - WEEKLY_THRESHOLD_HOURS), regular);
+
+  for (let index = days.length - 1; index >= 0 && toConvert > 0; index -= 1) {
+    const converted = Math.min(toConvert, days[index].regular_hours);
+    days[index] = {
+      ...days[index],
+      regular_hours: days[index].regular_hours - converted,
+      overtime_hours_1_5: days[index].overtime_hours_1_5 + converted,
+    };
+    toConvert -= converted;
+  }
+
+  return withHolidays(days);
+};
+
+/**
+ * Per-technician, per-day overtime breakdown for a set of entries. Entries are grouped into the
+ * tenant workweeks (weekFirstDay 0 = Sunday … 6 = Saturday); pass whole workweeks for weekly
+ * overtime to be complete. Results are sorted by date, then technician.
+ */
+export const computeOvertimeBreakdown = (
+  entries: OvertimeEntry[],
+  options: {
+    policyKey: OvertimePolicyKey;
+    weekFirstDay: number;
+    /** Whether the date is a public holiday of the technician. */
+    isHoliday?: (technicianId: number, date: string) => boolean;
+  }
+): OvertimeDayBreakdown[] => {
+  if (!Array.isArray(entries) || entries.length === 0) return [];
+
+  // technician -> workweek start -> date -> hours
+  const grouped = new Map<number, Map<string, Record<string, number>>>();
+
+  for (const entry of entries) {
+    const technicianId = Number(entry.technician_id);
+    if (!Number.isFinite(technicianId)) continue;
+
+    const parsed = dayjs(typeof entry.date === 'string' ? entry.date.slice(0, 10) : '', 'YYYY-MM-DD', true);
+    if (!parsed.isValid()) continue;
+
+    // Overnight entries count on both calendar days (possibly in different workweeks).
+    const weeks = grouped.get(technicianId) ?? new Map<string, Record<string, number>>();
+    Object.entries(splitHoursByDay({ ...entry, date: parsed.format('YYYY-MM-DD') })).forEach(([date, hours]) => {
+      const weekStart = getWorkweekStart(date, options.weekFirstDay);
+      const week = weeks.get(weekStart) ?? {};
+      week[date] = (week[date] ?? 0) + hours;
+      weeks.set(weekStart, week);
+    });
+    grouped.set(technicianId, weeks);
+  }
+
+  const result: OvertimeDayBreakdown[] = [];
+  grouped.forEach((weeks, technicianId) => {
+    weeks.forEach((dayHours, weekStart) => {
+      const holidayDates = options.isHoliday
+        ? Object.keys(dayHours).filter((date) => options.isHoliday?.(technicianId, date))
+        : [];
+      splitOvertimeWorkweek(options.policyKey, dayHours, holidayDates).forEach((day) => {
+        result.push({
+          ...day,
+          technician_id: technicianId,
+          workweek_start: weekStart,
+          total_hours: roundHours(day.total_hours),
+          regular_hours: roundHours(day.regular_hours),
+          overtime_hours_1_5: roundHours(day.overtime_hours_1_5),
+          overtime_hours_2_0: roundHours(day.overtime_hours_2_0),
+        });
+      });
+    });
+  });
+
+  return result.sort((a, b) => a.date.localeCompare(b.date) || a.technician_id - b.technician_id);
+};
+
+export const sumOvertime = (days: Array<OvertimeBuckets & { total_hours: number }>): OvertimeTotals => {
+  const totals = days.reduce<OvertimeTotals>(
+    (sum, day) => ({
+      total_hours: sum.total_hours + day.total_hours,
+      regular_hours: sum.regular_hours + day.regular_hours,
+      overtime_hours_1_5: sum.overtime_hours_1_5 + day.overtime_hours_1_5,
+      overtime_hours_2_0: sum.overtime_hours_2_0 + day.overtime_hours_2_0,
+    }),
+    { total_hours: 0, regular_hours: 0, overtime_hours_1_5: 0, overtime_hours_2_0: 0 }
+  );
+
+  return {
+    total_hours: roundHours(totals.total_hours),
+    regular_hours: roundHours(totals.regular_hours),
+    overtime_hours_1_5: roundHours(totals.overtime_hours_1_5),
+    overtime_hours_2_0: roundHours(totals.overtime_hours_2_0),
+  };
+};
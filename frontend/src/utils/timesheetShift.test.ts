@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getBreakWindow, getShiftWindow, isOvernightShift, splitHoursByDay } from './timesheetShift';
+
+describe('getShiftWindow', () => {
+  it('moves an end before the start to the next day', () => {
+    expect(getShiftWindow('08:00', '17:00')).toEqual([480, 1020]);
+    expect(getShiftWindow('22:00:00', '06:00:00')).toEqual([1320, 1800]);
+    expect(getShiftWindow('08:00', '08:00')).toBeNull();
+    expect(getShiftWindow(null, '08:00')).toBeNull();
+    expect(isOvernightShift('22:00', '06:00')).toBe(true);
+    expect(isOvernightShift('08:00', '17:00')).toBe(false);
+  });
+
+  it('places breaks after midnight on the next day of an overnight entry', () => {
+    expect(getBreakWindow([1320, 1800], '02:00', '02:30')).toEqual([1560, 1590]);
+    expect(getBreakWindow([1320, 1800], '23:45', '00:15')).toEqual([1425, 1455]);
+    expect(getBreakWindow([480, 1020], '12:00', '12:30')).toEqual([720, 750]);
+  });
+});
+
+describe('splitHoursByDay', () => {
+  it('keeps same-day entries on their date', () => {
+    expect(splitHoursByDay({ date: '2026-03-04', start_time: '08:00', end_time: '17:00', hours_worked: 9 })).toEqual({
+      '2026-03-04': 9,
+    });
+  });
+
+  it('splits overnight entries at midnight by the work on each side', () => {
+    expect(
+      splitHoursByDay({
+        date: '2026-03-04T00:00:00.000000Z',
+        start_time: '22:00',
+        end_time: '06:00',
+        hours_worked: '7.50',
+        breaks: [{ start_time: '02:00', end_time: '02:30' }],
+      })
+    ).toEqual({ '2026-03-04': 2, '2026-03-05': 5.5 });
+  });
+});
@@ -0,0 +1,97 @@
+import dayjs from 'dayjs';
+import type { TimesheetBreak } from '../types';
+
+/**
+ * Time window of an entry on the calendar.
+ *
+ * An entry whose end_time is earlier than its start_time is an overnight shift: it starts on its
+ * date and ends on the next day. Windows are minutes from midnight of the entry date, so an
+ * overnight 22:00–06:00 entry is [1320, 1800]. Mirrors App\Services\TimesheetValidation\TimesheetShift.
+ */
+
+export const MINUTES_PER_DAY = 1440;
+
+export type ShiftWindow = [number, number];
+
+type ShiftEntry = {
+  date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  hours_worked?: number | string | null;
+  breaks?: TimesheetBreak[] | null;
+};
+
+export const timeToMinutes = (value: string | null | undefined): number | null => {
+  const match = value ? String(value).match(/(\d{1,2}):(\d{2})/) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/** Null when a time is missing or both are equal. */
+export const getShiftWindow = (
+  startTime: string | null | undefined,
+  endTime: string | null | undefined
+): ShiftWindow | null => {
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+  if (start === null || end === null || start === end) return null;
+  return [start, end > start ? end : end + MINUTES_PER_DAY];
+};
+
+export const isOvernightShift = (startTime: string | null | undefined, endTime: string | null | undefined): boolean => {
+  const window = getShiftWindow(startTime, endTime);
+  return window !== null && window[1] > MINUTES_PER_DAY;
+};
+
+/**
+ * Break range inside the entry window; on overnight entries, break times before the entry start
+ * fall on the next day.
+ */
+export const getBreakWindow = (
+  entryWindow: ShiftWindow,
+  startTime: string | null | undefined,
+  endTime: string | null | undefined
+): ShiftWindow | null => {
+  let start = timeToMinutes(startTime);
+  let end = timeToMinutes(endTime);
+  if (start === null || end === null) return null;
+
+  if (entryWindow[1] > MINUTES_PER_DAY) {
+    if (start < entryWindow[0]) start += MINUTES_PER_DAY;
+    if (end < entryWindow[0] || end < start) end += MINUTES_PER_DAY;
+  }
+  return [start, end];
+};
+
+const toHours = (value: unknown): number => {
+  const hours = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(hours) ? Math.max(0, hours) : 0;
+};
+
+/**
+ * Hours worked per calendar date (YYYY-MM-DD). Overnight entries are split at midnight in
+ * proportion to the work (breaks excluded) on each side, so the parts add up to hours_worked.
+ */
+export const splitHoursByDay = (entry: ShiftEntry): Record<string, number> => {
+  const date = String(entry.date ?? '').slice(0, 10);
+  const hours = toHours(entry.hours_worked);
+  const window = getShiftWindow(entry.start_time, entry.end_time);
+
+  if (!window || window[1] <= MINUTES_PER_DAY) return { [date]: hours };
+
+  let before = MINUTES_PER_DAY - window[0];
+  let after = window[1] - MINUTES_PER_DAY;
+  (entry.breaks ?? []).forEach((item) => {
+    const breakWindow = getBreakWindow(window, item.start_time, item.end_time);
+    if (!breakWindow) return;
+    before -= Math.max(0, Math.min(breakWindow[1], MINUTES_PER_DAY) - breakWindow[0]);
+    after -= Math.max(0, breakWindow[1] - Math.max(breakWindow[0], MINUTES_PER_DAY));
+  });
+
+  const worked = Math.max(0, before) + Math.max(0, after);
+  const firstDay = worked > 0 ? Math.round(((hours * Math.max(0, before)) / worked) * 100) / 100 : hours;
+
+  return {
+    [date]: firstDay,
+    [dayjs(date).add(1, 'day').format('YYYY-MM-DD')]: Math.round((hours - firstDay) * 100) / 100,
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDisplayedEntryRange,
+  getEntryInstants,
+  getEntryTimezone,
+  getHomeTimezone,
+  isValidTimezone,
+} from './timesheetTimezone';
+import type { TenantContext } from '../types/tenant';
+
+const nySite = { date: '2026-03-04', start_time: '09:00:00', end_time: '10:00:00', timezone: 'America/New_York' };
+
+describe('entry timezones', () => {
+  it('prefers the entry timezone, then its location, then home', () => {
+    expect(getEntryTimezone(nySite, 'Europe/Lisbon')).toBe('America/New_York');
+    expect(
+      getEntryTimezone({ ...nySite, timezone: null, location: { timezone: 'Asia/Tokyo' } }, 'Europe/Lisbon')
+    ).toBe('Asia/Tokyo');
+    expect(getEntryTimezone({ ...nySite, timezone: 'Not/AZone' }, 'Europe/Lisbon')).toBe('Europe/Lisbon');
+    expect(getHomeTimezone({ timezone: 'Europe/Lisbon' } as TenantContext)).toBe('Europe/Lisbon');
+    expect(isValidTimezone('UTC')).toBe(true);
+  });
+
+  it('resolves the recorded wall-clock times to instants', () => {
+    const instants = getEntryInstants(nySite, 'Europe/Lisbon');
+    expect(instants?.start.toISOString()).toBe('2026-03-04T14:00:00.000Z');
+    expect(instants?.end.toISOString()).toBe('2026-03-04T15:00:00.000Z');
+
+    const night = getEntryInstants({ ...nySite, start_time: '22:00', end_time: '02:00' }, 'UTC');
+    expect(night?.end.toISOString()).toBe('2026-03-05T07:00:00.000Z');
+  });
+});
+
+describe('getDisplayedEntryRange', () => {
+  it('keeps site times or converts them to the home timezone', () => {
+    const site = getDisplayedEntryRange(nySite, 'site', 'Europe/Lisbon');
+    expect(site?.start.format('YYYY-MM-DD HH:mm')).toBe('2026-03-04 09:00');
+    expect(site?.converted).toBe(false);
+
+    const home = getDisplayedEntryRange({ ...nySite, start_time: '20:00', end_time: '21:00' }, 'home', 'Europe/Lisbon');
+    expect(home?.start.format('YYYY-MM-DD HH:mm')).toBe('2026-03-05 01:00');
+    expect(home?.end.format('YYYY-MM-DD HH:mm')).toBe('2026-03-05 02:00');
+    expect(home?.converted).toBe(true);
+  });
+});
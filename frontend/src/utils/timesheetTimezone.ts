@@ -0,0 +1,109 @@
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import type { Timesheet } from '../types';
+import type { TenantContext } from '../types/tenant';
+import { getShiftWindow } from './timesheetShift';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Timezones of timesheet entries.
+ *
+ * Entry date and times are wall-clock values at the site (the location timezone recorded on the
+ * entry by the API). "Home time" shows them in the tenant timezone instead. Overlaps between
+ * entries are compared on absolute instants, like App\Services\TimesheetValidation\TimesheetShift.
+ */
+
+export type TimesheetTimeDisplay = 'site' | 'home';
+
+type TimezonedEntry = Pick<Timesheet, 'date' | 'start_time' | 'end_time'> & {
+  timezone?: string | null;
+  location?: { timezone?: string | null } | null;
+};
+
+export const isValidTimezone = (value: string | null | undefined): value is string => {
+  if (!value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Tenant timezone, then the browser one. */
+export const getHomeTimezone = (tenantContext: TenantContext | null | undefined): string => {
+  const tenantTimezone = tenantContext?.timezone;
+  if (isValidTimezone(tenantTimezone)) return tenantTimezone;
+  const browser = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimezone(browser) ? browser : 'UTC';
+};
+
+/** Timezone the entry times are recorded in; legacy entries without one use the home timezone. */
+export const getEntryTimezone = (entry: TimezonedEntry, homeTimezone: string): string => {
+  const siteTimezone = entry.timezone ?? entry.location?.timezone;
+  return isValidTimezone(siteTimezone) ? siteTimezone : homeTimezone;
+};
+
+/** IANA timezones for pickers (falls back to UTC where Intl cannot list them). */
+export const listTimezones = (): string[] => {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supported ? supported('timeZone') : [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+/**
+ * Start and end of the entry as instants (end on the next day for overnight entries), or null
+ * when the entry has no valid time range.
+ */
+export const getEntryInstants = (
+  entry: TimezonedEntry,
+  homeTimezone: string
+): { start: Dayjs; end: Dayjs } | null => {
+  const window = getShiftWindow(entry.start_time, entry.end_time);
+  const date = String(entry.date ?? '').slice(0, 10);
+  if (!window || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+
+  const zone = getEntryTimezone(entry, homeTimezone);
+  // Built as text so a DST change in the browser timezone cannot move the wall-clock time.
+  const at = (minutes: number) => {
+    const day = dayjs(date).add(Math.floor(minutes / 1440), 'day').format('YYYY-MM-DD');
+    const time = `${String(Math.floor((minutes % 1440) / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    return dayjs.tz(`${day} ${time}`, zone);
+  };
+
+  return { start: at(window[0]), end: at(window[1]) };
+};
+
+/**
+ * Wall-clock start/end to draw the entry with: as recorded for site time, converted to the home
+ * timezone for home time. The returned values are naive local dates for the calendar.
+ */
+export const getDisplayedEntryRange = (
+  entry: TimezonedEntry,
+  display: TimesheetTimeDisplay,
+  homeTimezone: string
+): { start: Dayjs; end: Dayjs; converted: boolean } | null => {
+  const instants = getEntryInstants(entry, homeTimezone);
+  if (!instants) return null;
+
+  const zone = display === 'home' ? homeTimezone : getEntryTimezone(entry, homeTimezone);
+  const toWallClock = (instant: Dayjs) => dayjs(instant.tz(zone).format('YYYY-MM-DDTHH:mm:ss'));
+
+  return {
+    start: toWallClock(instants.start),
+    end: toWallClock(instants.end),
+    converted: display === 'home' && getEntryTimezone(entry, homeTimezone) !== homeTimezone,
+  };
+};
+
+/** Short name of the timezone at the given time, e.g. "GMT-5" or "CET". */
+export const getTimezoneLabel = (zone: string, at: Date = new Date()): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find((item) => item.type === 'timeZoneName');
+  return part?.value ?? zone;
+};